@@ -1,4 +1,5 @@
 import { resolve } from 'path';
+import { OCREngineName } from '@pharmarx/shared-types';
 
 export interface GCPConfig {
   projectId?: string;
@@ -9,12 +10,25 @@ export interface GCPConfig {
   };
 }
 
+export interface TesseractConfig {
+  languages: string; // Tesseract language codes joined with '+', e.g. 'eng+fra'
+  langPath?: string; // Directory or URL holding the .traineddata files; set it to run fully offline
+}
+
 export interface OCRConfig {
   maxRetries: number;
   retryDelay: number;
   gcpConfig: GCPConfig;
+  engine?: OCREngineName; // Engine tried first, Google Vision when not set
+  fallbackEngine?: OCREngineName | null; // Engine tried when the first one fails
+  tesseract?: TesseractConfig;
 }
 
+const OCR_ENGINES: OCREngineName[] = ['google_vision', 'tesseract'];
+
+const parseEngineName = (value: string | undefined): OCREngineName | undefined =>
+  OCR_ENGINES.find(engine => engine === value);
+
 /**
  * Load Google Cloud Platform configuration
  */
@@ -53,10 +67,26 @@ export function loadGCPConfig(): GCPConfig {
  * Load OCR service configuration
  */
 export function loadOCRConfig(): OCRConfig {
+  if (process.env.OCR_ENGINE && !parseEngineName(process.env.OCR_ENGINE)) {
+    console.warn(`Unknown OCR_ENGINE "${process.env.OCR_ENGINE}", expected one of ${OCR_ENGINES.join(', ')}. Using google_vision`);
+  }
+  const engine = parseEngineName(process.env.OCR_ENGINE) || 'google_vision';
+
+  // By default each engine falls back to the other; OCR_FALLBACK_ENGINE=none turns failover off
+  const fallbackEngine = process.env.OCR_FALLBACK_ENGINE === 'none'
+    ? null
+    : parseEngineName(process.env.OCR_FALLBACK_ENGINE) || OCR_ENGINES.find(name => name !== engine);
+
   return {
     maxRetries: parseInt(process.env.GCV_MAX_RETRIES || '3', 10),
     retryDelay: parseInt(process.env.GCV_RETRY_DELAY || '1000', 10),
-    gcpConfig: loadGCPConfig()
+    gcpConfig: loadGCPConfig(),
+    engine,
+    fallbackEngine,
+    tesseract: {
+      languages: process.env.TESSERACT_LANGUAGES || 'eng+fra',
+      langPath: process.env.TESSERACT_LANG_PATH
+    }
   };
 }
 
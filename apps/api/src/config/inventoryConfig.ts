@@ -6,6 +6,8 @@ export interface InventoryConfig {
   defaultSyncIntervalMinutes: number;
   maxConcurrentSyncs: number;
   healthCheckIntervalMinutes: number;
+  circuitBreakerFailureThreshold: number; // Consecutive failures before a pharmacy stops being called
+  circuitBreakerResetMinutes: number; // How long an unhealthy pharmacy is left alone before a trial call
 }
 
 export class InventoryConfigManager {
@@ -19,7 +21,9 @@ export class InventoryConfigManager {
       defaultRetryAttempts: 3,
       defaultSyncIntervalMinutes: 15,
       maxConcurrentSyncs: 5,
-      healthCheckIntervalMinutes: 5
+      healthCheckIntervalMinutes: 5,
+      circuitBreakerFailureThreshold: 3,
+      circuitBreakerResetMinutes: 5
     };
 
     this.pharmacyConfigs = new Map();
@@ -138,6 +142,14 @@ export class InventoryConfigManager {
       errors.push('syncIntervalMinutes must be greater than 0');
     }
 
+    if (config.integrationType === PharmacyIntegrationType.SOAP_API && !config.soap?.namespace?.trim()) {
+      errors.push('soap.namespace is required for SOAP integrations');
+    }
+
+    if (config.authType === 'ws_security' && config.integrationType !== PharmacyIntegrationType.SOAP_API) {
+      errors.push('ws_security auth is only supported for SOAP integrations');
+    }
+
     return {
       isValid: errors.length === 0,
       errors
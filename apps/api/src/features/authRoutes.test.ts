@@ -3,20 +3,37 @@ import express from 'express';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import authRoutes from './authRoutes';
 import userService from './users';
+import { clearUserCache } from '../middleware/auth';
 import { UserRole } from '@pharmarx/shared-types';
 
+const { mockAuth, registeredUsers } = vi.hoisted(() => ({
+  mockAuth: {
+    verifyIdToken: vi.fn(),
+    setCustomUserClaims: vi.fn()
+  },
+  registeredUsers: new Map<string, Record<string, unknown>>()
+}));
+
 // Mock Firebase Admin - hoisted
 vi.mock('firebase-admin', () => ({
   default: {
     apps: [],
     initializeApp: vi.fn(),
-    auth: () => ({
-      verifyIdToken: vi.fn(),
-      setCustomUserClaims: vi.fn()
-    }),
+    auth: () => mockAuth,
     credential: {
       applicationDefault: () => ({})
-    }
+    },
+    // Users are looked up by the auth middleware; none have registered unless a test adds them
+    firestore: () => ({
+      collection: () => ({
+        doc: (uid: string) => ({
+          get: () => Promise.resolve({
+            exists: registeredUsers.has(uid),
+            data: () => registeredUsers.get(uid)
+          })
+        })
+      })
+    })
   }
 }));
 
@@ -48,6 +65,8 @@ describe('Auth Routes', () => {
     app.use('/auth', authRoutes);
 
     vi.clearAllMocks();
+    clearUserCache();
+    registeredUsers.clear();
     
     // Get mock functions from the mocked module
     const admin = await import('firebase-admin');
@@ -149,7 +168,7 @@ describe('Auth Routes', () => {
         .send(validRegistrationData);
 
       expect(response.status).toBe(401);
-      expect(response.body.error).toContain('Unauthorized');
+      expect(response.body.error).toBe('Authorization header required');
     });
 
     it('returns 401 with invalid token', async () => {
@@ -161,7 +180,7 @@ describe('Auth Routes', () => {
         .send(validRegistrationData);
 
       expect(response.status).toBe(401);
-      expect(response.body.error).toContain('Unauthorized');
+      expect(response.body.error).toBe('Invalid authentication token');
     });
 
     it('returns 400 without uid', async () => {
@@ -406,6 +425,66 @@ describe('Auth Routes', () => {
       });
     });
 
+    it('ignores fields users may not edit themselves', async () => {
+      mockUserService.updateUser.mockResolvedValue({
+        uid: 'test-uid-123',
+        role: UserRole.Patient,
+        displayName: 'Updated Name',
+        createdAt: new Date()
+      });
+
+      await request(app)
+        .put('/auth/profile')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .send({ displayName: 'Updated Name', createdAt: '2020-01-01', preferredPharmacyIds: ['pharmacy-1'] });
+
+      expect(mockUserService.updateUser).toHaveBeenCalledWith('test-uid-123', {
+        displayName: 'Updated Name'
+      });
+    });
+
+    it('does not let a patient make themselves an admin', async () => {
+      registeredUsers.set('test-uid-123', { role: UserRole.Patient, displayName: 'Test Patient' });
+
+      const response = await request(app)
+        .put('/auth/profile')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .send({ role: UserRole.Admin });
+
+      expect(response.status).toBe(403);
+      expect(mockUserService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('does not let a patient assign themselves a pharmacy', async () => {
+      registeredUsers.set('test-uid-123', { role: UserRole.Patient, displayName: 'Test Patient' });
+
+      const response = await request(app)
+        .put('/auth/profile')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .send({ displayName: 'Test Patient', pharmacyId: 'pharmacy-1' });
+
+      expect(response.status).toBe(403);
+      expect(mockUserService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('lets an admin change a role', async () => {
+      registeredUsers.set('test-uid-123', { role: UserRole.Admin, displayName: 'Test Admin' });
+      mockUserService.updateUser.mockResolvedValue({
+        uid: 'test-uid-123',
+        role: UserRole.Pharmacist,
+        displayName: 'Test Admin',
+        createdAt: new Date()
+      });
+
+      const response = await request(app)
+        .put('/auth/profile')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .send({ role: UserRole.Pharmacist });
+
+      expect(response.status).toBe(200);
+      expect(mockUserService.updateUser).toHaveBeenCalledWith('test-uid-123', { role: UserRole.Pharmacist });
+    });
+
     it('returns 404 when user not found', async () => {
       mockUserService.updateUser.mockRejectedValue(new Error('User not found'));
 
@@ -454,7 +533,8 @@ describe('Auth Routes', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({
-        error: 'Unauthorized - Missing or invalid authorization header'
+        success: false,
+        error: 'Authorization header required'
       });
     });
 
@@ -467,7 +547,8 @@ describe('Auth Routes', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({
-        error: 'Unauthorized - Invalid token'
+        success: false,
+        error: 'Invalid authentication token'
       });
     });
 
@@ -2,9 +2,13 @@ import { Router, Request, Response } from 'express';
 import { UserRole, CreateUserInput } from '@pharmarx/shared-types';
 import userService from './users';
 import admin from 'firebase-admin';
+import { verifyAuth, clearUserCache } from '../middleware/auth';
 
 const router = Router();
 
+// Profile fields users may change themselves; role and pharmacy are admin-only
+const SELF_EDITABLE_FIELDS = ['displayName', 'email', 'phoneNumber'] as const;
+
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
   // In development, use the emulator
@@ -19,37 +23,11 @@ if (!admin.apps.length) {
   }
 }
 
-/**
- * Middleware to verify Firebase ID token
- */
-const verifyFirebaseToken = async (req: Request, res: Response, next: any) => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        error: 'Unauthorized - Missing or invalid authorization header'
-      });
-    }
-
-    const idToken = authHeader.split('Bearer ')[1];
-    const decodedToken = await admin.auth().verifyIdToken(idToken);
-    
-    // Add the decoded token to the request for use in route handlers
-    (req as any).user = decodedToken;
-    next();
-  } catch (error) {
-    console.error('Firebase token verification error:', error);
-    res.status(401).json({
-      error: 'Unauthorized - Invalid token'
-    });
-  }
-};
-
 /**
  * POST /auth/register - Register a new user
  * Creates a user record in Firestore after Firebase Auth account creation
  */
-router.post('/register', verifyFirebaseToken, async (req: Request, res: Response) => {
+router.post('/register', verifyAuth, async (req: Request, res: Response) => {
   try {
     const { uid, role, email, phoneNumber, displayName }: 
       { uid: string } & CreateUserInput = req.body;
@@ -61,9 +39,10 @@ router.post('/register', verifyFirebaseToken, async (req: Request, res: Response
       });
     }
 
-    if (!role || !Object.values(UserRole).includes(role)) {
+    // Admin accounts are provisioned by operations, never self-registered
+    if (!role || !Object.values(UserRole).includes(role) || role === UserRole.Admin) {
       return res.status(400).json({
-        error: 'Valid role is required (patient, caregiver, doctor, pharmacist)'
+        error: 'Valid role is required (patient, caregiver, doctor, pharmacist, courier)'
       });
     }
 
@@ -81,7 +60,7 @@ router.post('/register', verifyFirebaseToken, async (req: Request, res: Response
     }
 
     // Verify that the UID from the token matches the UID in the request
-    const tokenUser = (req as any).user;
+    const tokenUser = req.user!;
     if (tokenUser.uid !== uid) {
       return res.status(403).json({
         error: 'Token UID does not match request UID'
@@ -105,6 +84,8 @@ router.post('/register', verifyFirebaseToken, async (req: Request, res: Response
     };
 
     const user = await userService.createUser(uid, userData);
+    // verifyAuth cached this user as unregistered
+    clearUserCache(uid);
 
     // Set custom claims for role-based access control
     try {
@@ -146,9 +127,9 @@ router.post('/register', verifyFirebaseToken, async (req: Request, res: Response
 /**
  * GET /auth/me - Get current user profile
  */
-router.get('/me', verifyFirebaseToken, async (req: Request, res: Response) => {
+router.get('/me', verifyAuth, async (req: Request, res: Response) => {
   try {
-    const tokenUser = (req as any).user;
+    const tokenUser = req.user!;
     const uid = tokenUser.uid;
 
     const user = await userService.getUserById(uid);
@@ -174,9 +155,9 @@ router.get('/me', verifyFirebaseToken, async (req: Request, res: Response) => {
  * POST /auth/login - Login user (validate token and return user profile)
  * This endpoint validates that the user is authenticated and returns their profile
  */
-router.post('/login', verifyFirebaseToken, async (req: Request, res: Response) => {
+router.post('/login', verifyAuth, async (req: Request, res: Response) => {
   try {
-    const tokenUser = (req as any).user;
+    const tokenUser = req.user!;
     const uid = tokenUser.uid;
 
     // Get user profile from database
@@ -203,17 +184,32 @@ router.post('/login', verifyFirebaseToken, async (req: Request, res: Response) =
 /**
  * PUT /auth/profile - Update user profile
  */
-router.put('/profile', verifyFirebaseToken, async (req: Request, res: Response) => {
+router.put('/profile', verifyAuth, async (req: Request, res: Response) => {
   try {
-    const tokenUser = (req as any).user;
+    const tokenUser = req.user!;
     const uid = tokenUser.uid;
-    const updateData: Partial<CreateUserInput> = req.body;
+    const isAdmin = tokenUser.role === UserRole.Admin;
+
+    if ((req.body.role !== undefined || req.body.pharmacyId !== undefined) && !isAdmin) {
+      return res.status(403).json({
+        error: 'Only admins can change a user\'s role or pharmacy'
+      });
+    }
 
-    // Remove uid from update data if present (it shouldn't be updated)
-    delete (updateData as any).uid;
+    // Only the fields users may edit on their own profile; anything else in the body is ignored
+    const updateData: Partial<CreateUserInput> = {};
+    for (const field of SELF_EDITABLE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        updateData[field] = req.body[field];
+      }
+    }
+    if (isAdmin && req.body.role !== undefined) {
+      updateData.role = req.body.role;
+    }
 
     const user = await userService.updateUser(uid, updateData);
-    
+    clearUserCache(uid);
+
     res.json({
       success: true,
       data: user,
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { registerBackgroundJobs } from './backgroundJobs';
+import { JobHandler } from './jobQueueService';
+import { ocrService } from './ocrService';
+import { paymentService } from './paymentService';
+
+const { mockSendSMS, mockSendMessage, mockSyncInventory, mockCleanupExpiredLinks } = vi.hoisted(() => ({
+  mockSendSMS: vi.fn(),
+  mockSendMessage: vi.fn(),
+  mockSyncInventory: vi.fn(),
+  mockCleanupExpiredLinks: vi.fn()
+}));
+
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      }
+    }
+  }
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {}
+}));
+
+vi.mock('./ocrService', () => ({
+  ocrService: { processImageAndUpdateOrder: vi.fn() }
+}));
+
+vi.mock('./paymentService', () => ({
+  paymentService: { issueReceipt: vi.fn(), expireStalePayments: vi.fn(), refreshPendingRefunds: vi.fn() }
+}));
+
+vi.mock('./paymentLinkService', () => ({
+  PaymentLinkService: vi.fn(() => ({ cleanupExpiredLinks: mockCleanupExpiredLinks }))
+}));
+
+vi.mock('./inventoryService', () => ({
+  InventoryService: vi.fn(() => ({ syncInventory: mockSyncInventory }))
+}));
+
+vi.mock('./smsService', () => ({
+  SMSService: vi.fn(() => ({ sendSMS: mockSendSMS }))
+}));
+
+vi.mock('./whatsappService', () => ({
+  WhatsAppService: vi.fn(() => ({ sendMessage: mockSendMessage }))
+}));
+
+describe('registerBackgroundJobs', () => {
+  let handlers: Map<string, JobHandler>;
+  let schedules: Array<[string, number]>;
+  let mockOrderRef: any;
+  let orderData: any;
+
+  const run = (type: string, payload: Record<string, any> = {}) => handlers.get(type)!(payload, {} as any);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new Map();
+    schedules = [];
+
+    orderData = { ocrStatus: 'pending' };
+    mockOrderRef = {
+      get: vi.fn(async () => ({ exists: true, data: () => orderData })),
+      update: vi.fn()
+    };
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: vi.fn(() => ({ doc: vi.fn(() => mockOrderRef) }))
+    } as any);
+
+    registerBackgroundJobs({
+      registerHandler: (type: string, handler: JobHandler) => handlers.set(type, handler),
+      schedule: (type: string, intervalMs: number) => schedules.push([type, intervalMs])
+    } as any);
+  });
+
+  it('schedules inventory sync, link and payment expiry and refund checks', () => {
+    expect(schedules).toEqual([
+      ['inventory_sync', 5 * 60 * 1000],
+      ['expire_payment_links', 60 * 60 * 1000],
+      ['expire_payments', 60 * 1000],
+      ['refresh_refunds', 5 * 60 * 1000]
+    ]);
+  });
+
+  describe('ocr', () => {
+    const payload = { orderId: 'order-1', imageUrl: 'https://example.com/page-1.jpg', additionalImageUrls: [] };
+
+    it('marks the order as processing and runs OCR', async () => {
+      await run('ocr', payload);
+
+      expect(mockOrderRef.update).toHaveBeenCalledWith(expect.objectContaining({ ocrStatus: 'processing' }));
+      expect(ocrService.processImageAndUpdateOrder).toHaveBeenCalledWith(payload, mockOrderRef, true);
+    });
+
+    it('skips orders that were already read', async () => {
+      orderData = { ocrStatus: 'completed' };
+
+      await run('ocr', payload);
+
+      expect(ocrService.processImageAndUpdateOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('send_message', () => {
+    it('sends over the chosen channel', async () => {
+      mockSendMessage.mockResolvedValue({ success: true });
+
+      await run('send_message', { channel: 'whatsapp', recipientPhone: '+22997000000', message: 'Your delivery has arrived' });
+
+      expect(mockSendMessage).toHaveBeenCalledWith('+22997000000', 'Your delivery has arrived');
+      expect(mockSendSMS).not.toHaveBeenCalled();
+    });
+
+    it('throws when the message is not sent so the job is retried', async () => {
+      mockSendSMS.mockResolvedValue({ success: false, error: 'SMS service not configured' });
+
+      await expect(run('send_message', { channel: 'sms', recipientPhone: '+22997000000', message: 'Hello' }))
+        .rejects.toThrow('SMS service not configured');
+    });
+  });
+
+  it('issues receipts', async () => {
+    await run('generate_receipt', { paymentId: 'pay-1' });
+
+    expect(paymentService.issueReceipt).toHaveBeenCalledWith('pay-1');
+  });
+
+  it('throws when pharmacies fail to sync', async () => {
+    mockSyncInventory.mockResolvedValue({
+      success: false,
+      syncedPharmacies: [],
+      failedPharmacies: ['pharmacy-1'],
+      message: 'Pharmacy pharmacy-1: timeout'
+    });
+
+    await expect(run('inventory_sync')).rejects.toThrow('Pharmacy pharmacy-1: timeout');
+  });
+
+  it('removes expired payment links', async () => {
+    mockCleanupExpiredLinks.mockResolvedValue(3);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await run('expire_payment_links');
+
+    expect(mockCleanupExpiredLinks).toHaveBeenCalled();
+  });
+
+  it('settles stale payments', async () => {
+    vi.mocked(paymentService.expireStalePayments).mockResolvedValue(1);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await run('expire_payments');
+
+    expect(paymentService.expireStalePayments).toHaveBeenCalled();
+  });
+
+  it('checks pending refunds with their gateways', async () => {
+    vi.mocked(paymentService.refreshPendingRefunds).mockResolvedValue(2);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await run('refresh_refunds');
+
+    expect(paymentService.refreshPendingRefunds).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import admin from 'firebase-admin';
+import databaseService from './database';
+import { jobQueueService, JobQueueService } from './jobQueueService';
+import { ocrService } from './ocrService';
+import { paymentService } from './paymentService';
+import { PaymentLinkService } from './paymentLinkService';
+import { InventoryService } from './inventoryService';
+import { SMSService } from './smsService';
+import { WhatsAppService } from './whatsappService';
+
+// Each run only refreshes pharmacies whose snapshot is older than their syncIntervalMinutes
+const INVENTORY_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const PAYMENT_LINK_EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+// Mobile money requests are only approved for a few minutes
+const PAYMENT_EXPIRY_INTERVAL_MS = 60 * 1000;
+// Mobile money refunds usually settle within minutes
+const REFUND_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Register the handler for every job type and the recurring jobs. Called once on
+ * startup, before the worker starts polling.
+ */
+export const registerBackgroundJobs = (queue: JobQueueService = jobQueueService): void => {
+  const smsService = new SMSService();
+  const whatsappService = new WhatsAppService();
+  const paymentLinkService = new PaymentLinkService();
+  const inventoryService = new InventoryService();
+
+  // OCR retries and fails over between engines itself and records failures on the order,
+  // so the job only has to survive a restart
+  queue.registerHandler('ocr', async ({ orderId, imageUrl, additionalImageUrls }) => {
+    const orderRef = databaseService.getDb().collection('prescriptionOrders').doc(orderId);
+    const orderDoc = await orderRef.get();
+    if (!orderDoc.exists || orderDoc.data()?.ocrStatus === 'completed') {
+      return;
+    }
+
+    await orderRef.update({
+      ocrStatus: 'processing',
+      updatedAt: admin.firestore.Timestamp.fromDate(new Date())
+    });
+    await ocrService.processImageAndUpdateOrder({ orderId, imageUrl, additionalImageUrls }, orderRef, true);
+  });
+
+  queue.registerHandler('send_message', async ({ channel, recipientPhone, message }) => {
+    const result = channel === 'whatsapp'
+      ? await whatsappService.sendMessage(recipientPhone, message)
+      : await smsService.sendSMS(recipientPhone, message);
+
+    if (!result.success) {
+      throw new Error(result.error || `Failed to send ${channel} message`);
+    }
+  });
+
+  queue.registerHandler('generate_receipt', async ({ paymentId }) => {
+    await paymentService.issueReceipt(paymentId);
+  });
+
+  queue.registerHandler('inventory_sync', async ({ pharmacyIds }) => {
+    const result = await inventoryService.syncInventory({ pharmacyIds });
+    if (!result.success) {
+      throw new Error(result.message || `Failed to sync ${result.failedPharmacies.join(', ')}`);
+    }
+  });
+
+  queue.registerHandler('expire_payment_links', async () => {
+    const removed = await paymentLinkService.cleanupExpiredLinks();
+    console.log(`Removed ${removed} expired payment link(s)`);
+  });
+
+  // Settle mobile money requests whose callback never arrived
+  queue.registerHandler('expire_payments', async () => {
+    const settled = await paymentService.expireStalePayments();
+    console.log(`Settled ${settled} stale payment(s)`);
+  });
+
+  queue.registerHandler('refresh_refunds', async () => {
+    const settled = await paymentService.refreshPendingRefunds();
+    console.log(`Settled ${settled} pending refund(s)`);
+  });
+
+  queue.schedule('inventory_sync', INVENTORY_SYNC_INTERVAL_MS);
+  queue.schedule('expire_payment_links', PAYMENT_LINK_EXPIRY_INTERVAL_MS);
+  queue.schedule('expire_payments', PAYMENT_EXPIRY_INTERVAL_MS);
+  queue.schedule('refresh_refunds', REFUND_REFRESH_INTERVAL_MS);
+};
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import courierRoutes from './courierRoutes';
+import { clearUserCache } from '../middleware/auth';
+import {
+  deliveryTrackingService,
+  DeliveryNotAssignedError,
+  InvalidDeliveryStatusError
+} from './deliveryTrackingService';
+
+const { mockVerifyIdToken, mockUserGet } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn(),
+  mockUserGet: vi.fn()
+}));
+
+// Mock the delivery tracking service
+vi.mock('./deliveryTrackingService', () => ({
+  deliveryTrackingService: {
+    getCourierDeliveries: vi.fn(),
+    updateCourierStatus: vi.fn()
+  },
+  DeliveryNotAssignedError: class DeliveryNotAssignedError extends Error {
+    constructor(public readonly orderId: string) {
+      super(`Delivery for order ${orderId} is not assigned to you`);
+    }
+  },
+  InvalidDeliveryStatusError: class InvalidDeliveryStatusError extends Error {
+    constructor(public readonly from: string, public readonly to: string) {
+      super(`Cannot move delivery from ${from} to ${to}`);
+    }
+  }
+}));
+
+vi.mock('./orderStatusService', () => ({
+  InvalidStatusTransitionError: class InvalidStatusTransitionError extends Error {}
+}));
+
+// Mock Firebase Admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: () => ({
+        doc: () => ({ get: mockUserGet })
+      })
+    })
+  }
+}));
+
+describe('Courier Routes', () => {
+  let app: express.Application;
+
+  const sampleDelivery = {
+    orderId: 'order-123',
+    deliveryPersonId: 'courier-1',
+    destinationLocation: { latitude: 6.3703, longitude: 2.4250, address: 'Rue 12.045, Cadjèhoun, Cotonou' },
+    status: 'picked_up'
+  };
+
+  const proofOfDelivery = {
+    recipientName: 'Afi Mensah',
+    signatureImage: 'data:image/png;base64,iVBORw0KGgo='
+  };
+
+  beforeEach(() => {
+    clearUserCache();
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/courier', courierRoutes);
+
+    mockVerifyIdToken.mockResolvedValue({ uid: 'courier-1' });
+    mockUserGet.mockResolvedValue({
+      exists: true,
+      data: () => ({ role: UserRole.Courier })
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should return 401 without an authorization header', async () => {
+      await request(app)
+        .get('/api/courier/deliveries')
+        .expect(401);
+    });
+
+    it('should return 403 for non-courier users', async () => {
+      mockUserGet.mockResolvedValue({
+        exists: true,
+        data: () => ({ role: UserRole.Patient })
+      });
+
+      const response = await request(app)
+        .get('/api/courier/deliveries')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('Courier role required');
+    });
+  });
+
+  describe('GET /api/courier/deliveries', () => {
+    it('should list the signed-in courier\'s deliveries', async () => {
+      vi.mocked(deliveryTrackingService.getCourierDeliveries).mockResolvedValue([sampleDelivery] as any);
+
+      const response = await request(app)
+        .get('/api/courier/deliveries')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(deliveryTrackingService.getCourierDeliveries).toHaveBeenCalledWith('courier-1');
+    });
+  });
+
+  describe('POST /api/courier/deliveries/:orderId/status', () => {
+    it('should apply a one-tap status change', async () => {
+      vi.mocked(deliveryTrackingService.updateCourierStatus).mockResolvedValue({ ...sampleDelivery, status: 'in_transit' } as any);
+
+      const response = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'in_transit' })
+        .expect(200);
+
+      expect(response.body.message).toBe('Delivery marked as in transit');
+      expect(deliveryTrackingService.updateCourierStatus).toHaveBeenCalledWith('order-123', 'courier-1', { status: 'in_transit' });
+    });
+
+    it('should pass the proof of delivery through when delivering', async () => {
+      vi.mocked(deliveryTrackingService.updateCourierStatus).mockResolvedValue({ ...sampleDelivery, status: 'delivered' } as any);
+
+      await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'delivered', proofOfDelivery: { ...proofOfDelivery, recipientName: '  Afi Mensah ' } })
+        .expect(200);
+
+      expect(deliveryTrackingService.updateCourierStatus).toHaveBeenCalledWith('order-123', 'courier-1', {
+        status: 'delivered',
+        proof: proofOfDelivery
+      });
+    });
+
+    it('should reject statuses a courier cannot set', async () => {
+      const response = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'approaching' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid status. Must be one of: picked_up, in_transit, delivered');
+    });
+
+    it('should require a recipient name and a signature or photo', async () => {
+      const missingImage = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'delivered', proofOfDelivery: { recipientName: 'Afi Mensah' } })
+        .expect(400);
+
+      expect(missingImage.body.error).toBe('Proof of delivery needs a signature or a photo');
+
+      const missingName = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'delivered', proofOfDelivery: { signatureImage: proofOfDelivery.signatureImage } })
+        .expect(400);
+
+      expect(missingName.body.error).toBe('Proof of delivery needs the recipient name');
+      expect(deliveryTrackingService.updateCourierStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject proof images that are not image data URLs', async () => {
+      const response = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'delivered', proofOfDelivery: { recipientName: 'Afi Mensah', photoImage: 'https://example.com/door.jpg' } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Proof images must be PNG, JPEG or WebP data URLs under 400KB');
+    });
+
+    it('should return 404 when the order has no delivery', async () => {
+      vi.mocked(deliveryTrackingService.updateCourierStatus).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'picked_up' })
+        .expect(404);
+    });
+
+    it('should return 403 for a delivery assigned to another courier', async () => {
+      vi.mocked(deliveryTrackingService.updateCourierStatus).mockRejectedValue(new DeliveryNotAssignedError('order-123'));
+
+      await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'picked_up' })
+        .expect(403);
+    });
+
+    it('should return 409 for an out-of-order step', async () => {
+      vi.mocked(deliveryTrackingService.updateCourierStatus).mockRejectedValue(new InvalidDeliveryStatusError('assigned', 'in_transit'));
+
+      const response = await request(app)
+        .post('/api/courier/deliveries/order-123/status')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'in_transit' })
+        .expect(409);
+
+      expect(response.body.error).toBe('Cannot move delivery from assigned to in_transit');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Request, Response, Router } from 'express';
+import {
+  ApiResponse,
+  CourierDeliveryStatus,
+  DeliveryAssignment,
+  UserRole
+} from '@pharmarx/shared-types';
+import {
+  deliveryTrackingService,
+  CourierStatusUpdate,
+  DeliveryNotAssignedError,
+  InvalidDeliveryStatusError,
+  ProofOfDeliveryInput
+} from './deliveryTrackingService';
+import { InvalidStatusTransitionError } from './orderStatusService';
+import { verifyAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+const COURIER_STATUSES: CourierDeliveryStatus[] = ['picked_up', 'in_transit', 'delivered'];
+const PROOF_IMAGE_PATTERN = /^data:image\/(png|jpeg|webp);base64,/;
+// Keeps the proof well inside Firestore's 1MB document limit
+const MAX_PROOF_IMAGE_LENGTH = 400000;
+
+// Apply courier role verification to all routes
+router.use(verifyAuth, requireRole(UserRole.Courier));
+
+const isValidProofImage = (image: unknown): boolean =>
+  typeof image === 'string' && PROOF_IMAGE_PATTERN.test(image) && image.length <= MAX_PROOF_IMAGE_LENGTH;
+
+/**
+ * Returns an error message for an invalid proof of delivery, or null when it is valid
+ */
+const validateProofOfDelivery = (proof: Partial<ProofOfDeliveryInput> | undefined): string | null => {
+  if (!proof || typeof proof.recipientName !== 'string' || !proof.recipientName.trim()) {
+    return 'Proof of delivery needs the recipient name';
+  }
+  if (!proof.signatureImage && !proof.photoImage) {
+    return 'Proof of delivery needs a signature or a photo';
+  }
+  if ((proof.signatureImage && !isValidProofImage(proof.signatureImage)) ||
+      (proof.photoImage && !isValidProofImage(proof.photoImage))) {
+    return 'Proof images must be PNG, JPEG or WebP data URLs under 400KB';
+  }
+  return null;
+};
+
+/**
+ * GET /courier/deliveries - Deliveries assigned to the signed-in courier
+ */
+router.get('/deliveries', async (req: Request, res: Response) => {
+  try {
+    const courierId = req.user!.uid;
+    const deliveries = await deliveryTrackingService.getCourierDeliveries(courierId);
+
+    res.json({
+      success: true,
+      data: deliveries
+    } as ApiResponse<DeliveryAssignment[]>);
+  } catch (error) {
+    console.error('Error fetching courier deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching deliveries'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /courier/deliveries/:orderId/status - Pick up, start or complete a delivery
+ */
+router.post('/deliveries/:orderId/status', async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { status, proofOfDelivery } = req.body;
+    const courierId = req.user!.uid;
+
+    if (!COURIER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Must be one of: ${COURIER_STATUSES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    let update: CourierStatusUpdate;
+    if (status === 'delivered') {
+      const proofError = validateProofOfDelivery(proofOfDelivery);
+      if (proofError) {
+        return res.status(400).json({
+          success: false,
+          error: proofError
+        } as ApiResponse<null>);
+      }
+      update = {
+        status,
+        proof: {
+          recipientName: proofOfDelivery.recipientName.trim(),
+          ...(proofOfDelivery.signatureImage && { signatureImage: proofOfDelivery.signatureImage }),
+          ...(proofOfDelivery.photoImage && { photoImage: proofOfDelivery.photoImage })
+        }
+      };
+    } else {
+      update = { status };
+    }
+
+    const delivery = await deliveryTrackingService.updateCourierStatus(orderId, courierId, update);
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'No delivery assigned to this order'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: delivery,
+      message: `Delivery marked as ${status.replace('_', ' ')}`
+    } as ApiResponse<DeliveryAssignment>);
+  } catch (error) {
+    if (error instanceof DeliveryNotAssignedError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    if (error instanceof InvalidDeliveryStatusError || error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error updating delivery status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while updating delivery status'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
@@ -2,8 +2,54 @@ import request from 'supertest';
 import express from 'express';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import deliveryTrackingRoutes from './deliveryTrackingRoutes';
+import {
+  deliveryTrackingService,
+  DeliveryNotAssignableError,
+  DeliveryCompletedError,
+  InvalidCourierError
+} from './deliveryTrackingService';
 import { DeliveryTrackingInfo, ApiResponse, DeliveryNotificationPreferences } from '@pharmarx/shared-types';
 
+// Mock the delivery tracking service
+vi.mock('./deliveryTrackingService', () => ({
+  deliveryTrackingService: {
+    assignDelivery: vi.fn(),
+    getTracking: vi.fn(),
+    recordLocation: vi.fn(),
+    updateNotificationPreferences: vi.fn()
+  },
+  DeliveryNotAssignableError: class DeliveryNotAssignableError extends Error {
+    constructor(public readonly orderStatus: string) {
+      super(`Order cannot be assigned for delivery (current status: ${orderStatus})`);
+    }
+  },
+  DeliveryCompletedError: class DeliveryCompletedError extends Error {
+    constructor(public readonly orderId: string) {
+      super(`Delivery for order ${orderId} is already completed`);
+    }
+  },
+  InvalidCourierError: class InvalidCourierError extends Error {
+    constructor(public readonly deliveryPersonId: string) {
+      super(`User ${deliveryPersonId} is not a registered courier`);
+    }
+  }
+}));
+
+// Whether requireOrderAccess lets the request through; the check itself is covered in auth.test.ts
+const orderAccess = vi.hoisted(() => ({ allowed: true }));
+
+// Mock authentication middleware
+vi.mock('../middleware/auth', () => ({
+  verifyAuth: (req: any, res: any, next: any) => {
+    req.user = { uid: 'delivery-person-123', role: 'courier' };
+    next();
+  },
+  requireRole: () => (req: any, res: any, next: any) => next(),
+  requireOrderAccess: () => (req: any, res: any, next: any) => orderAccess.allowed
+    ? next()
+    : res.status(403).json({ success: false, error: 'You do not have access to this order' })
+}));
+
 // Create test express app
 const createTestApp = () => {
   const app = express();
@@ -12,12 +58,126 @@ const createTestApp = () => {
   return app;
 };
 
+const buildTrackingInfo = (orderId: string): DeliveryTrackingInfo => ({
+  orderId,
+  deliveryPersonId: 'delivery-person-123',
+  currentLocation: {
+    latitude: 6.3654,
+    longitude: 2.4183,
+    timestamp: new Date()
+  },
+  destinationLocation: {
+    latitude: 6.3703,
+    longitude: 2.4250,
+    address: 'Rue 12.045, Cadjèhoun, Cotonou'
+  },
+  estimatedArrival: new Date(Date.now() + 3 * 60 * 1000),
+  status: 'in_transit',
+  route: {
+    coordinates: [
+      [2.4183, 6.3654],
+      [2.4250, 6.3703]
+    ],
+    distance: 920,
+    duration: 167
+  },
+  notifications: []
+});
+
 describe('Delivery Tracking Routes', () => {
   let app: express.Express;
 
   beforeEach(() => {
     app = createTestApp();
     vi.clearAllMocks();
+    orderAccess.allowed = true;
+
+    vi.mocked(deliveryTrackingService.getTracking).mockImplementation(async (orderId: string) => buildTrackingInfo(orderId));
+    vi.mocked(deliveryTrackingService.recordLocation).mockImplementation(async (orderId: string) => buildTrackingInfo(orderId));
+    vi.mocked(deliveryTrackingService.updateNotificationPreferences).mockImplementation(async (_orderId, preferences) => preferences);
+  });
+
+  describe('POST /orders/:orderId/delivery-assignment', () => {
+    const validAssignment = {
+      deliveryPersonId: 'courier-1',
+      destinationLocation: { latitude: 6.3703, longitude: 2.4250, address: 'Rue 12.045, Cadjèhoun, Cotonou' },
+      recipientPhone: '+22997000000',
+      notificationChannel: 'whatsapp'
+    };
+
+    it('should assign a courier to the order', async () => {
+      vi.mocked(deliveryTrackingService.assignDelivery).mockResolvedValue({ orderId: 'order-1', status: 'assigned' } as any);
+
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send(validAssignment)
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(deliveryTrackingService.assignDelivery).toHaveBeenCalledWith('order-1', validAssignment);
+    });
+
+    it('should keep pharmacists from assigning another pharmacy\'s order', async () => {
+      orderAccess.allowed = false;
+
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send(validAssignment)
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have access to this order');
+      expect(deliveryTrackingService.assignDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assignment without a destination address', async () => {
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send({ ...validAssignment, destinationLocation: { latitude: 6.37, longitude: 2.42 } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Destination latitude, longitude and address are required');
+      expect(deliveryTrackingService.assignDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown notification channel', async () => {
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send({ ...validAssignment, notificationChannel: 'email' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Notification channel must be one of: sms, whatsapp');
+    });
+
+    it('should return 404 for a missing order', async () => {
+      vi.mocked(deliveryTrackingService.assignDelivery).mockResolvedValue(null);
+
+      await request(app)
+        .post('/orders/missing/delivery-assignment')
+        .send(validAssignment)
+        .expect(404);
+    });
+
+    it('should return 400 when the delivery person is not a courier', async () => {
+      vi.mocked(deliveryTrackingService.assignDelivery).mockRejectedValue(new InvalidCourierError('patient-1'));
+
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send({ ...validAssignment, deliveryPersonId: 'patient-1' })
+        .expect(400);
+
+      expect(response.body.error).toBe('User patient-1 is not a registered courier');
+    });
+
+    it('should return 409 when the order is not ready for delivery', async () => {
+      vi.mocked(deliveryTrackingService.assignDelivery).mockRejectedValue(new DeliveryNotAssignableError('awaiting_payment'));
+
+      const response = await request(app)
+        .post('/orders/order-1/delivery-assignment')
+        .send(validAssignment)
+        .expect(409);
+
+      expect(response.body.error).toBe('Order cannot be assigned for delivery (current status: awaiting_payment)');
+    });
   });
 
   describe('GET /orders/:orderId/delivery-tracking', () => {
@@ -101,18 +261,24 @@ describe('Delivery Tracking Routes', () => {
       }
     });
 
+    it('should return 404 until the courier has sent a location', async () => {
+      vi.mocked(deliveryTrackingService.getTracking).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/orders/test-order-123/delivery-tracking')
+        .expect(404);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Delivery tracking is not available for this order yet');
+    });
+
     it('should handle server errors gracefully', async () => {
       // Mock console.error to suppress error logs during testing
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       
-      // Create a version that throws an error
-      const errorApp = express();
-      errorApp.use(express.json());
-      errorApp.get('/orders/:orderId/delivery-tracking', () => {
-        throw new Error('Database connection failed');
-      });
+      vi.mocked(deliveryTrackingService.getTracking).mockRejectedValue(new Error('Database connection failed'));
 
-      const response = await request(errorApp)
+      const response = await request(app)
         .get('/orders/test-order-123/delivery-tracking')
         .expect(500);
 
@@ -136,11 +302,60 @@ describe('Delivery Tracking Routes', () => {
         .send(locationUpdate)
         .expect(200);
 
-      const data: ApiResponse<{ updated: boolean }> = response.body;
+      const data: ApiResponse<{ updated: boolean; trackingInfo: DeliveryTrackingInfo }> = response.body;
       
       expect(data.success).toBe(true);
       expect(data.data!.updated).toBe(true);
+      expect(data.data!.trackingInfo.orderId).toBe(orderId);
       expect(data.message).toBe('Location updated successfully');
+      expect(deliveryTrackingService.recordLocation).toHaveBeenCalledWith(orderId, {
+        latitude: 3.8485,
+        longitude: 11.5025,
+        timestamp: expect.any(Date)
+      });
+    });
+
+    it('should pass the device timestamp and speed through', async () => {
+      await request(app)
+        .post('/orders/test-order-123/delivery-location')
+        .send({ latitude: 6.3654, longitude: 2.4183, speed: 6.2, timestamp: '2025-03-01T10:00:00.000Z' })
+        .expect(200);
+
+      expect(deliveryTrackingService.recordLocation).toHaveBeenCalledWith('test-order-123', {
+        latitude: 6.3654,
+        longitude: 2.4183,
+        speed: 6.2,
+        timestamp: new Date('2025-03-01T10:00:00.000Z')
+      });
+    });
+
+    it('should reject out-of-range coordinates', async () => {
+      await request(app)
+        .post('/orders/test-order-123/delivery-location')
+        .send({ latitude: 91, longitude: 2.4183 })
+        .expect(400);
+
+      expect(deliveryTrackingService.recordLocation).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when no courier is assigned', async () => {
+      vi.mocked(deliveryTrackingService.recordLocation).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/orders/test-order-123/delivery-location')
+        .send({ latitude: 6.3654, longitude: 2.4183 })
+        .expect(404);
+
+      expect(response.body.error).toBe('No delivery assigned to this order');
+    });
+
+    it('should return 409 for a completed delivery', async () => {
+      vi.mocked(deliveryTrackingService.recordLocation).mockRejectedValue(new DeliveryCompletedError('test-order-123'));
+
+      await request(app)
+        .post('/orders/test-order-123/delivery-location')
+        .send({ latitude: 6.3654, longitude: 2.4183 })
+        .expect(409);
     });
 
     it('should reject requests without latitude', async () => {
@@ -210,14 +425,9 @@ describe('Delivery Tracking Routes', () => {
     it('should handle server errors during location update', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       
-      // Create a version that throws an error
-      const errorApp = express();
-      errorApp.use(express.json());
-      errorApp.post('/orders/:orderId/delivery-location', () => {
-        throw new Error('Database update failed');
-      });
+      vi.mocked(deliveryTrackingService.recordLocation).mockRejectedValue(new Error('Database update failed'));
 
-      const response = await request(errorApp)
+      const response = await request(app)
         .post('/orders/test-order-123/delivery-location')
         .send({ latitude: 3.8485, longitude: 11.5025 })
         .expect(500);
@@ -247,6 +457,7 @@ describe('Delivery Tracking Routes', () => {
       expect(data.success).toBe(true);
       expect(data.data).toEqual(validPreferences);
       expect(data.message).toBe('Notification preferences updated');
+      expect(deliveryTrackingService.updateNotificationPreferences).toHaveBeenCalledWith('test-order-123', validPreferences);
     });
 
     it('should handle different preference combinations', async () => {
@@ -359,13 +570,9 @@ describe('Delivery Tracking Routes', () => {
     it('should handle server errors during preference update', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       
-      const errorApp = express();
-      errorApp.use(express.json());
-      errorApp.post('/orders/:orderId/delivery-notifications', () => {
-        throw new Error('Database save failed');
-      });
+      vi.mocked(deliveryTrackingService.updateNotificationPreferences).mockRejectedValue(new Error('Database save failed'));
 
-      const response = await request(errorApp)
+      const response = await request(app)
         .post('/orders/test-order-123/delivery-notifications')
         .send(validPreferences)
         .expect(500);
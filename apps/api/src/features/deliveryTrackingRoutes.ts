@@ -1,49 +1,131 @@
 import express from 'express';
-import { DeliveryTrackingInfo, ApiResponse, DeliveryNotificationPreferences } from '@pharmarx/shared-types';
+import {
+  DeliveryTrackingInfo,
+  ApiResponse,
+  DeliveryNotificationPreferences,
+  DeliveryAssignment,
+  DeliveryNotificationChannel,
+  UserRole
+} from '@pharmarx/shared-types';
+import {
+  deliveryTrackingService,
+  DeliveryNotAssignableError,
+  DeliveryCompletedError,
+  InvalidCourierError
+} from './deliveryTrackingService';
+import { verifyAuth, requireRole, requireOrderAccess } from '../middleware/auth';
 
 const router = express.Router();
 
-// Mock data for development - in production this would connect to Firestore
-const mockDeliveryData: Map<string, DeliveryTrackingInfo> = new Map();
+// Apply authentication to all delivery routes
+router.use(verifyAuth);
+
+const DELIVERY_NOTIFICATION_CHANNELS: DeliveryNotificationChannel[] = ['sms', 'whatsapp'];
+
+const isValidCoordinate = (latitude: unknown, longitude: unknown): boolean =>
+  typeof latitude === 'number' && typeof longitude === 'number' &&
+  Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
 
 /**
- * GET /orders/:orderId/delivery-tracking
- * Get delivery tracking information for an order
+ * POST /orders/:orderId/delivery-assignment
+ * Assign a courier to an order that is ready to go out
  */
-router.get('/:orderId/delivery-tracking', async (req, res) => {
+router.post('/:orderId/delivery-assignment', requireRole(UserRole.Pharmacist, UserRole.Admin), requireOrderAccess(), async (req, res) => {
   try {
     const { orderId } = req.params;
-    
-    // Mock response for development
-    const mockTrackingInfo: DeliveryTrackingInfo = {
-      orderId,
-      deliveryPersonId: 'delivery-person-123',
-      currentLocation: {
-        latitude: 3.8480,
-        longitude: 11.5021,
-        timestamp: new Date()
-      },
+    const { deliveryPersonId, destinationLocation, recipientPhone, notificationChannel } = req.body;
+
+    if (!deliveryPersonId || typeof deliveryPersonId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Delivery person ID is required'
+      });
+    }
+
+    if (!destinationLocation ||
+        !isValidCoordinate(destinationLocation.latitude, destinationLocation.longitude) ||
+        !destinationLocation.address) {
+      return res.status(400).json({
+        success: false,
+        error: 'Destination latitude, longitude and address are required'
+      });
+    }
+
+    if (notificationChannel !== undefined && !DELIVERY_NOTIFICATION_CHANNELS.includes(notificationChannel)) {
+      return res.status(400).json({
+        success: false,
+        error: `Notification channel must be one of: ${DELIVERY_NOTIFICATION_CHANNELS.join(', ')}`
+      });
+    }
+
+    const assignment = await deliveryTrackingService.assignDelivery(orderId, {
+      deliveryPersonId,
       destinationLocation: {
-        latitude: 3.8500,
-        longitude: 11.5040,
-        address: '123 Patient Street, Yaoundé, Cameroon'
+        latitude: destinationLocation.latitude,
+        longitude: destinationLocation.longitude,
+        address: destinationLocation.address
       },
-      estimatedArrival: new Date(Date.now() + 20 * 60 * 1000), // 20 minutes from now
-      status: 'in_transit',
-      route: {
-        coordinates: [
-          [11.5021, 3.8480], // current location
-          [11.5030, 3.8490], // waypoint
-          [11.5040, 3.8500]  // destination
-        ],
-        distance: 2500, // 2.5km
-        duration: 1200  // 20 minutes
-      }
+      recipientPhone,
+      notificationChannel
+    });
+
+    if (!assignment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    const response: ApiResponse<DeliveryAssignment> = {
+      success: true,
+      data: assignment,
+      message: 'Delivery assigned successfully'
     };
 
+    res.status(201).json(response);
+  } catch (error) {
+    if (error instanceof InvalidCourierError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof DeliveryNotAssignableError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error assigning delivery:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to assign delivery'
+    });
+  }
+});
+
+/**
+ * GET /orders/:orderId/delivery-tracking
+ * Get delivery tracking information for an order
+ */
+router.get('/:orderId/delivery-tracking', requireOrderAccess(), async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    const trackingInfo = await deliveryTrackingService.getTracking(orderId);
+
+    if (!trackingInfo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery tracking is not available for this order yet'
+      });
+    }
+
     const response: ApiResponse<DeliveryTrackingInfo> = {
       success: true,
-      data: mockTrackingInfo
+      data: trackingInfo
     };
 
     res.json(response);
@@ -61,29 +143,55 @@ router.get('/:orderId/delivery-tracking', async (req, res) => {
  * POST /orders/:orderId/delivery-location
  * Update delivery person's current location (used by delivery person app)
  */
-router.post('/:orderId/delivery-location', async (req, res) => {
+router.post('/:orderId/delivery-location', requireRole(UserRole.Courier), requireOrderAccess(), async (req, res) => {
   try {
     const { orderId } = req.params;
-    const { latitude, longitude } = req.body;
+    const { latitude, longitude, speed, timestamp } = req.body;
 
-    if (!latitude || !longitude) {
+    if (!isValidCoordinate(latitude, longitude)) {
       return res.status(400).json({
         success: false,
         error: 'Latitude and longitude are required'
       });
     }
 
-    // In production, this would update the delivery tracking in Firestore
-    // and trigger real-time updates to subscribed clients
-    
-    const response: ApiResponse<{ updated: boolean }> = {
+    const recordedAt = timestamp ? new Date(timestamp) : new Date();
+    if (isNaN(recordedAt.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid location timestamp'
+      });
+    }
+
+    const trackingInfo = await deliveryTrackingService.recordLocation(orderId, {
+      latitude,
+      longitude,
+      timestamp: recordedAt,
+      ...(typeof speed === 'number' && speed >= 0 && { speed })
+    });
+
+    if (!trackingInfo) {
+      return res.status(404).json({
+        success: false,
+        error: 'No delivery assigned to this order'
+      });
+    }
+
+    const response: ApiResponse<{ updated: boolean; trackingInfo: DeliveryTrackingInfo }> = {
       success: true,
-      data: { updated: true },
+      data: { updated: true, trackingInfo },
       message: 'Location updated successfully'
     };
 
     res.json(response);
   } catch (error) {
+    if (error instanceof DeliveryCompletedError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
     console.error('Error updating delivery location:', error);
     res.status(500).json({
       success: false,
@@ -96,7 +204,7 @@ router.post('/:orderId/delivery-location', async (req, res) => {
  * POST /orders/:orderId/delivery-notifications
  * Update notification preferences for delivery tracking
  */
-router.post('/:orderId/delivery-notifications', async (req, res) => {
+router.post('/:orderId/delivery-notifications', requireOrderAccess(), async (req, res) => {
   try {
     const { orderId } = req.params;
     const preferences: DeliveryNotificationPreferences = req.body;
@@ -104,18 +212,23 @@ router.post('/:orderId/delivery-notifications', async (req, res) => {
     // Validate preferences
     if (typeof preferences.enableApproachNotification !== 'boolean' ||
         typeof preferences.enableArrivalNotification !== 'boolean' ||
-        typeof preferences.approachThresholdMinutes !== 'number') {
+        typeof preferences.approachThresholdMinutes !== 'number' ||
+        preferences.approachThresholdMinutes <= 0) {
       return res.status(400).json({
         success: false,
         error: 'Invalid notification preferences'
       });
     }
 
-    // In production, save preferences to Firestore
-    
+    const saved = await deliveryTrackingService.updateNotificationPreferences(orderId, {
+      enableApproachNotification: preferences.enableApproachNotification,
+      enableArrivalNotification: preferences.enableArrivalNotification,
+      approachThresholdMinutes: preferences.approachThresholdMinutes
+    });
+
     const response: ApiResponse<DeliveryNotificationPreferences> = {
       success: true,
-      data: preferences,
+      data: saved,
       message: 'Notification preferences updated'
     };
 
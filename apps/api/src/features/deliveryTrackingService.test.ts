@@ -0,0 +1,398 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { orderStatusService } from './orderStatusService';
+import {
+  DeliveryTrackingService,
+  DeliveryNotAssignableError,
+  DeliveryCompletedError,
+  DeliveryNotAssignedError,
+  InvalidCourierError,
+  InvalidDeliveryStatusError,
+  calculateDistanceMeters,
+  estimateCourierSpeed
+} from './deliveryTrackingService';
+
+const { mockEnqueue } = vi.hoisted(() => ({
+  mockEnqueue: vi.fn()
+}));
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      }
+    }
+  }
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: { enqueue: mockEnqueue }
+}));
+
+vi.mock('./orderStatusService', () => ({
+  orderStatusService: {
+    transitionOrderStatus: vi.fn()
+  }
+}));
+
+const destination = { latitude: 6.3703, longitude: 2.4250, address: 'Rue 12.045, Cadjèhoun, Cotonou' };
+
+describe('DeliveryTrackingService', () => {
+  let service: DeliveryTrackingService;
+  let mockTransaction: any;
+  let storedOrder: any;
+  let storedCourier: any;
+  let storedTracking: any;
+  let mockTrackingRef: any;
+  let mockOrderRef: any;
+  let courierSnapshot: any;
+
+  const trackingData = (overrides: Record<string, unknown> = {}) => ({
+    orderId: 'order-1',
+    deliveryPersonId: 'courier-1',
+    destinationLocation: destination,
+    recentLocations: [],
+    status: 'picked_up',
+    recipientPhone: '+22997000000',
+    notificationChannel: 'sms',
+    notificationPreferences: { enableApproachNotification: true, enableArrivalNotification: true, approachThresholdMinutes: 10 },
+    thresholdsReached: { approach: false, arrival: false },
+    notifications: [],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnqueue.mockResolvedValue('job-1');
+
+    storedOrder = { exists: true, data: () => ({ status: 'out_for_delivery' }) };
+    storedCourier = { exists: true, data: () => ({ role: 'courier' }) };
+    storedTracking = { exists: true, data: () => trackingData() };
+    courierSnapshot = { docs: [] };
+
+    mockOrderRef = { id: 'order-ref', get: vi.fn(() => Promise.resolve(storedOrder)) };
+    const mockCourierRef = { id: 'courier-ref' };
+    mockTrackingRef = {
+      id: 'tracking-ref',
+      get: vi.fn(() => Promise.resolve(storedTracking)),
+      set: vi.fn(),
+      update: vi.fn()
+    };
+
+    mockTransaction = {
+      get: vi.fn((ref: any) => Promise.resolve(
+        ref === mockOrderRef ? storedOrder : ref === mockCourierRef ? storedCourier : storedTracking
+      )),
+      set: vi.fn(),
+      update: vi.fn()
+    };
+
+    const refs: Record<string, any> = {
+      prescriptionOrders: mockOrderRef,
+      users: mockCourierRef,
+      deliveryTracking: mockTrackingRef
+    };
+
+    const mockDb = {
+      collection: vi.fn((name: string) => ({
+        doc: vi.fn().mockReturnValue(refs[name]),
+        where: vi.fn().mockReturnValue({ get: vi.fn(() => Promise.resolve(courierSnapshot)) })
+      })),
+      runTransaction: vi.fn((callback: (transaction: any) => Promise<unknown>) => callback(mockTransaction))
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+    service = new DeliveryTrackingService();
+  });
+
+  describe('estimates', () => {
+    it('should measure great-circle distance in meters', () => {
+      // One degree of latitude is about 111km
+      expect(Math.round(calculateDistanceMeters({ latitude: 6, longitude: 2 }, { latitude: 7, longitude: 2 }) / 1000)).toBe(111);
+    });
+
+    it('should average speed over recent pings and fall back to a default', () => {
+      const start = new Date('2025-03-01T10:00:00Z');
+      const speed = estimateCourierSpeed([
+        { latitude: 6.3600, longitude: 2.4183, timestamp: start },
+        { latitude: 6.3618, longitude: 2.4183, timestamp: new Date(start.getTime() + 40000) }
+      ]);
+
+      expect(speed).toBeCloseTo(5, 0);
+      expect(estimateCourierSpeed([{ latitude: 6.36, longitude: 2.41, timestamp: start }])).toBe(5.5);
+      expect(estimateCourierSpeed([{ latitude: 6.36, longitude: 2.41, timestamp: start, speed: 8 }])).toBe(8);
+    });
+  });
+
+  it('should assign a courier while keeping preferences set before assignment', async () => {
+    storedTracking = {
+      exists: true,
+      data: () => ({
+        orderId: 'order-1',
+        notificationPreferences: { enableApproachNotification: false, enableArrivalNotification: true, approachThresholdMinutes: 5 }
+      })
+    };
+
+    const assignment = await service.assignDelivery('order-1', {
+      deliveryPersonId: 'courier-1',
+      destinationLocation: destination,
+      notificationChannel: 'whatsapp'
+    });
+
+    expect(assignment).toMatchObject({ status: 'assigned', notificationChannel: 'whatsapp' });
+    const [, written] = mockTransaction.set.mock.calls[0];
+    expect(written).toMatchObject({
+      deliveryPersonId: 'courier-1',
+      recipientPhone: null,
+      notificationPreferences: { enableApproachNotification: false, approachThresholdMinutes: 5 }
+    });
+  });
+
+  it('should refuse to assign an order that is not ready to go out', async () => {
+    storedOrder = { exists: true, data: () => ({ status: 'awaiting_payment' }) };
+
+    await expect(
+      service.assignDelivery('order-1', { deliveryPersonId: 'courier-1', destinationLocation: destination })
+    ).rejects.toBeInstanceOf(DeliveryNotAssignableError);
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to assign a user who is not a courier', async () => {
+    storedCourier = { exists: true, data: () => ({ role: 'patient' }) };
+
+    await expect(
+      service.assignDelivery('order-1', { deliveryPersonId: 'patient-1', destinationLocation: destination })
+    ).rejects.toBeInstanceOf(InvalidCourierError);
+  });
+
+  it('should return null tracking until the courier sends a location', async () => {
+    await expect(service.getTracking('order-1')).resolves.toBeNull();
+  });
+
+  it('should recompute the ETA from distance and recent speed', async () => {
+    const start = new Date('2025-03-01T10:00:00Z');
+    storedTracking = {
+      exists: true,
+      data: () => trackingData({
+        status: 'in_transit',
+        recentLocations: [{ latitude: 6.3300, longitude: 2.4250, timestamp: { toDate: () => start } }]
+      })
+    };
+
+    // About 1.1km covered in 200s, 3.3km still to go: a little under 10 minutes
+    const pingedAt = new Date(start.getTime() + 200000);
+    const tracking = await service.recordLocation('order-1', { latitude: 6.3403, longitude: 2.4250, timestamp: pingedAt });
+
+    expect(tracking!.route!.distance).toBe(3336);
+    expect(tracking!.route!.duration).toBe(583);
+    expect(tracking!.estimatedArrival.getTime()).toBe(pingedAt.getTime() + tracking!.route!.duration * 1000);
+    expect(tracking!.status).toBe('approaching');
+
+    const [, updates] = mockTransaction.update.mock.calls[0];
+    expect(updates.recentLocations).toHaveLength(2);
+  });
+
+  it('should send the approach notification once when the ETA crosses the threshold', async () => {
+    const tracking = await service.recordLocation('order-1', {
+      latitude: 6.3653,
+      longitude: 2.4250,
+      timestamp: new Date('2025-03-01T10:00:00Z')
+    });
+
+    expect(tracking!.status).toBe('approaching');
+    expect(tracking!.notifications).toHaveLength(1);
+    expect(tracking!.notifications![0].type).toBe('approach');
+    expect(mockEnqueue).toHaveBeenCalledWith('send_message', {
+      channel: 'sms',
+      recipientPhone: '+22997000000',
+      message: expect.stringContaining('Your delivery is approaching')
+    });
+
+    const [, updates] = mockTransaction.update.mock.calls[0];
+    expect(updates.thresholdsReached).toEqual({ approach: true, arrival: false });
+
+    // A later ping inside the threshold does not notify again
+    storedTracking = { exists: true, data: () => ({ ...trackingData(), ...updates }) };
+    mockEnqueue.mockClear();
+    await service.recordLocation('order-1', { latitude: 6.3670, longitude: 2.4250, timestamp: new Date('2025-03-01T10:01:00Z') });
+
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('should send the arrival notification over WhatsApp when the courier reaches the address', async () => {
+    storedTracking = {
+      exists: true,
+      data: () => trackingData({ notificationChannel: 'whatsapp', thresholdsReached: { approach: true, arrival: false } })
+    };
+
+    const tracking = await service.recordLocation('order-1', {
+      latitude: 6.3700,
+      longitude: 2.4250,
+      timestamp: new Date('2025-03-01T10:00:00Z')
+    });
+
+    expect(tracking!.notifications![0].type).toBe('arrival');
+    expect(mockEnqueue).toHaveBeenCalledWith('send_message', {
+      channel: 'whatsapp',
+      recipientPhone: '+22997000000',
+      message: expect.stringContaining('Your delivery has arrived')
+    });
+  });
+
+  it('should mark a threshold as reached without notifying when the patient turned it off', async () => {
+    storedTracking = {
+      exists: true,
+      data: () => trackingData({
+        notificationPreferences: { enableApproachNotification: false, enableArrivalNotification: true, approachThresholdMinutes: 10 }
+      })
+    };
+
+    const tracking = await service.recordLocation('order-1', { latitude: 6.3653, longitude: 2.4250, timestamp: new Date() });
+
+    expect(tracking!.notifications).toEqual([]);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+    const [, updates] = mockTransaction.update.mock.calls[0];
+    expect(updates.thresholdsReached.approach).toBe(true);
+  });
+
+  it('should not fail the ping when the notification cannot be queued', async () => {
+    mockEnqueue.mockRejectedValue(new Error('Firestore unavailable'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const tracking = await service.recordLocation('order-1', { latitude: 6.3653, longitude: 2.4250, timestamp: new Date() });
+
+    expect(tracking!.status).toBe('approaching');
+    consoleSpy.mockRestore();
+  });
+
+  it('should not check thresholds before the courier has picked up the order', async () => {
+    storedTracking = { exists: true, data: () => trackingData({ status: 'assigned' }) };
+
+    const tracking = await service.recordLocation('order-1', { latitude: 6.3700, longitude: 2.4250, timestamp: new Date() });
+
+    expect(tracking!.status).toBe('assigned');
+    expect(tracking!.notifications).toEqual([]);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('should reject pings for a completed delivery', async () => {
+    storedTracking = { exists: true, data: () => trackingData({ status: 'delivered' }) };
+
+    await expect(
+      service.recordLocation('order-1', { latitude: 6.37, longitude: 2.425, timestamp: new Date() })
+    ).rejects.toBeInstanceOf(DeliveryCompletedError);
+  });
+
+  it('should return null for a ping on an unassigned order', async () => {
+    storedTracking = { exists: false, data: () => undefined };
+
+    await expect(
+      service.recordLocation('order-1', { latitude: 6.37, longitude: 2.425, timestamp: new Date() })
+    ).resolves.toBeNull();
+  });
+
+  it('should merge notification preferences into the tracking document', async () => {
+    const preferences = { enableApproachNotification: true, enableArrivalNotification: false, approachThresholdMinutes: 15 };
+
+    await service.updateNotificationPreferences('order-1', preferences);
+
+    expect(mockTrackingRef.set).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'order-1', notificationPreferences: preferences }),
+      { merge: true }
+    );
+  });
+
+  describe('courier updates', () => {
+    it('should list the courier\'s open deliveries, oldest first', async () => {
+      courierSnapshot = {
+        docs: [
+          { data: () => trackingData({ orderId: 'order-2', assignedAt: { toDate: () => new Date('2025-03-01T11:00:00Z') } }) },
+          { data: () => trackingData({ orderId: 'order-3', status: 'delivered', assignedAt: { toDate: () => new Date('2025-03-01T09:00:00Z') } }) },
+          { data: () => trackingData({ orderId: 'order-1', assignedAt: { toDate: () => new Date('2025-03-01T10:00:00Z') } }) }
+        ]
+      };
+
+      const deliveries = await service.getCourierDeliveries('courier-1');
+
+      expect(deliveries.map(delivery => delivery.orderId)).toEqual(['order-1', 'order-2']);
+    });
+
+    it('should hand the order over for delivery on pickup', async () => {
+      storedTracking = { exists: true, data: () => trackingData({ status: 'assigned' }) };
+      storedOrder = { exists: true, data: () => ({ status: 'preparing' }) };
+
+      const delivery = await service.updateCourierStatus('order-1', 'courier-1', { status: 'picked_up' });
+
+      expect(delivery!.status).toBe('picked_up');
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'out_for_delivery', {
+        actor: 'courier',
+        changedBy: 'courier-1',
+        reason: 'Courier picked up the order'
+      });
+      expect(mockTrackingRef.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'picked_up' }));
+    });
+
+    it('should pick up orders waiting at the counter', async () => {
+      storedTracking = { exists: true, data: () => trackingData({ status: 'assigned' }) };
+      storedOrder = { exists: true, data: () => ({ status: 'ready' }) };
+
+      await service.updateCourierStatus('order-1', 'courier-1', { status: 'picked_up' });
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'out_for_delivery', expect.objectContaining({ actor: 'courier' }));
+    });
+
+    it('should skip the order transition when the pharmacist already handed it over', async () => {
+      storedTracking = { exists: true, data: () => trackingData({ status: 'assigned' }) };
+
+      await service.updateCourierStatus('order-1', 'courier-1', { status: 'picked_up' });
+
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should complete the order with the proof of delivery', async () => {
+      storedTracking = { exists: true, data: () => trackingData({ status: 'approaching' }) };
+
+      await service.updateCourierStatus('order-1', 'courier-1', {
+        status: 'delivered',
+        proof: { recipientName: 'Afi Mensah', signatureImage: 'data:image/png;base64,AAAA' }
+      });
+
+      const [orderId, status, context] = vi.mocked(orderStatusService.transitionOrderStatus).mock.calls[0];
+      expect(orderId).toBe('order-1');
+      expect(status).toBe('delivered');
+      expect(context.reason).toBe('Delivered to Afi Mensah');
+      expect(context.updates!.proofOfDelivery).toMatchObject({
+        recipientName: 'Afi Mensah',
+        signatureImage: 'data:image/png;base64,AAAA',
+        deliveredBy: 'courier-1'
+      });
+    });
+
+    it('should reject updates from a courier the delivery is not assigned to', async () => {
+      await expect(
+        service.updateCourierStatus('order-1', 'courier-2', { status: 'in_transit' })
+      ).rejects.toBeInstanceOf(DeliveryNotAssignedError);
+    });
+
+    it('should reject skipping the pickup step', async () => {
+      storedTracking = { exists: true, data: () => trackingData({ status: 'assigned' }) };
+
+      await expect(
+        service.updateCourierStatus('order-1', 'courier-1', {
+          status: 'delivered',
+          proof: { recipientName: 'Afi Mensah', photoImage: 'data:image/jpeg;base64,AAAA' }
+        })
+      ).rejects.toBeInstanceOf(InvalidDeliveryStatusError);
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import databaseService from './database';
+import {
+  DeliveryAssignment,
+  DeliveryLocation,
+  DeliveryNotificationChannel,
+  DeliveryNotificationEvent,
+  DeliveryNotificationPreferences,
+  DeliveryTrackingInfo,
+  CourierDeliveryStatus,
+  ProofOfDelivery,
+  PrescriptionOrderStatus,
+  UserRole,
+  getNextCourierStatuses
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { StoredRecord, toDate } from './firestoreDates';
+import { jobQueueService } from './jobQueueService';
+import { orderStatusService } from './orderStatusService';
+
+export const DEFAULT_DELIVERY_NOTIFICATION_PREFERENCES: DeliveryNotificationPreferences = {
+  enableApproachNotification: true,
+  enableArrivalNotification: true,
+  approachThresholdMinutes: 10
+};
+
+// Moto-taxi speed through city traffic, used until there are enough pings to measure it
+const DEFAULT_COURIER_SPEED_MPS = 5.5;
+// Floor for the measured speed so a courier stopped at a junction does not push the ETA out by hours
+const MIN_COURIER_SPEED_MPS = 1.5;
+const MAX_COURIER_SPEED_MPS = 25;
+const RECENT_LOCATION_LIMIT = 5;
+const ARRIVAL_RADIUS_METERS = 75;
+const EARTH_RADIUS_METERS = 6371000;
+
+const ASSIGNABLE_ORDER_STATUSES: PrescriptionOrderStatus[] = ['preparing', 'ready', 'out_for_delivery'];
+
+export interface AssignDeliveryInput {
+  deliveryPersonId: string;
+  destinationLocation: DeliveryAssignment['destinationLocation'];
+  recipientPhone?: string;
+  notificationChannel?: DeliveryNotificationChannel;
+}
+
+export type ProofOfDeliveryInput = Omit<ProofOfDelivery, 'deliveredBy' | 'deliveredAt'>;
+
+export type CourierStatusUpdate =
+  | { status: 'picked_up' | 'in_transit' }
+  | { status: 'delivered'; proof: ProofOfDeliveryInput };
+
+/**
+ * Raised when a courier is assigned to an order that is not ready to go out.
+ * Routes translate this into a 409 Conflict.
+ */
+export class DeliveryNotAssignableError extends Error {
+  constructor(public readonly orderStatus: PrescriptionOrderStatus) {
+    super(`Order cannot be assigned for delivery (current status: ${orderStatus})`);
+    this.name = 'DeliveryNotAssignableError';
+  }
+}
+
+/**
+ * Raised when the delivery person being assigned is not a registered courier.
+ * Routes translate this into a 400 Bad Request.
+ */
+export class InvalidCourierError extends Error {
+  constructor(public readonly deliveryPersonId: string) {
+    super(`User ${deliveryPersonId} is not a registered courier`);
+    this.name = 'InvalidCourierError';
+  }
+}
+
+/**
+ * Raised when a courier acts on a delivery assigned to someone else.
+ * Routes translate this into a 403 Forbidden.
+ */
+export class DeliveryNotAssignedError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Delivery for order ${orderId} is not assigned to you`);
+    this.name = 'DeliveryNotAssignedError';
+  }
+}
+
+/**
+ * Raised when a courier skips or repeats a delivery step.
+ * Routes translate this into a 409 Conflict.
+ */
+export class InvalidDeliveryStatusError extends Error {
+  constructor(
+    public readonly from: DeliveryAssignment['status'],
+    public readonly to: CourierDeliveryStatus
+  ) {
+    super(`Cannot move delivery from ${from} to ${to}`);
+    this.name = 'InvalidDeliveryStatusError';
+  }
+}
+
+/**
+ * Raised when a location ping arrives for a delivery that has already been completed.
+ * Routes translate this into a 409 Conflict.
+ */
+export class DeliveryCompletedError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Delivery for order ${orderId} is already completed`);
+    this.name = 'DeliveryCompletedError';
+  }
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+type Coordinates = Pick<DeliveryLocation, 'latitude' | 'longitude'>;
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export const calculateDistanceMeters = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Average speed over the recent pings, in m/s. Falls back to a typical courier
+ * speed when the pings do not cover any time yet.
+ */
+export const estimateCourierSpeed = (locations: DeliveryLocation[]): number => {
+  let distance = 0;
+  let seconds = 0;
+
+  for (let i = 1; i < locations.length; i++) {
+    const elapsed = (locations[i].timestamp.getTime() - locations[i - 1].timestamp.getTime()) / 1000;
+    if (elapsed <= 0) {
+      continue;
+    }
+    distance += calculateDistanceMeters(locations[i - 1], locations[i]);
+    seconds += elapsed;
+  }
+
+  if (seconds === 0) {
+    const reported = locations[locations.length - 1]?.speed;
+    return reported && reported > 0
+      ? Math.min(Math.max(reported, MIN_COURIER_SPEED_MPS), MAX_COURIER_SPEED_MPS)
+      : DEFAULT_COURIER_SPEED_MPS;
+  }
+
+  return Math.min(Math.max(distance / seconds, MIN_COURIER_SPEED_MPS), MAX_COURIER_SPEED_MPS);
+};
+
+type StoredLocation = StoredRecord<DeliveryLocation, 'timestamp'>;
+type StoredNotificationEvent = StoredRecord<DeliveryNotificationEvent, 'timestamp' | 'estimatedArrival'>;
+
+// Assignments saved before notifications existed have no preferences, thresholds or events
+type StoredAssignment = Omit<
+  StoredRecord<DeliveryAssignment, 'estimatedArrival' | 'assignedAt' | 'updatedAt'>,
+  'currentLocation' | 'recentLocations' | 'notificationPreferences' | 'thresholdsReached' | 'notifications'
+> & {
+  currentLocation?: StoredLocation;
+  recentLocations?: StoredLocation[];
+  notificationPreferences?: Partial<DeliveryNotificationPreferences>;
+  thresholdsReached?: DeliveryAssignment['thresholdsReached'];
+  notifications?: StoredNotificationEvent[];
+};
+
+const mapLocation = (location: StoredLocation): DeliveryLocation => ({
+  ...location,
+  timestamp: toDate(location.timestamp)!
+});
+
+const serializeLocation = (location: DeliveryLocation) => ({
+  ...location,
+  timestamp: admin.firestore.Timestamp.fromDate(location.timestamp)
+});
+
+const serializeEvent = ({ estimatedArrival, ...event }: DeliveryNotificationEvent) => ({
+  ...event,
+  timestamp: admin.firestore.Timestamp.fromDate(event.timestamp),
+  ...(estimatedArrival && { estimatedArrival: admin.firestore.Timestamp.fromDate(estimatedArrival) })
+});
+
+/**
+ * Convert a deliveryTracking document into a DeliveryAssignment, turning Firestore
+ * timestamps back into Dates
+ */
+const mapAssignmentDocument = (data: StoredAssignment): DeliveryAssignment => ({
+  ...data,
+  currentLocation: data.currentLocation ? mapLocation(data.currentLocation) : undefined,
+  recentLocations: (data.recentLocations || []).map(mapLocation),
+  estimatedArrival: toDate(data.estimatedArrival),
+  notificationPreferences: { ...DEFAULT_DELIVERY_NOTIFICATION_PREFERENCES, ...data.notificationPreferences },
+  thresholdsReached: data.thresholdsReached || { approach: false, arrival: false },
+  notifications: (data.notifications || []).map(event => ({
+    ...event,
+    timestamp: toDate(event.timestamp)!,
+    estimatedArrival: toDate(event.estimatedArrival)
+  })),
+  assignedAt: toDate(data.assignedAt)!,
+  updatedAt: toDate(data.updatedAt)!
+});
+
+/**
+ * What the patient sees. Null until the courier has sent a first location.
+ */
+const toTrackingInfo = (assignment: DeliveryAssignment): DeliveryTrackingInfo | null => {
+  if (!assignment.currentLocation || !assignment.estimatedArrival) {
+    return null;
+  }
+
+  return {
+    orderId: assignment.orderId,
+    deliveryPersonId: assignment.deliveryPersonId,
+    currentLocation: assignment.currentLocation,
+    destinationLocation: assignment.destinationLocation,
+    estimatedArrival: assignment.estimatedArrival,
+    status: assignment.status,
+    route: assignment.route,
+    notifications: assignment.notifications
+  };
+};
+
+export class DeliveryTrackingService {
+  /**
+   * Assign a courier to an order. Reassigning keeps the patient's notification
+   * preferences and any notifications already sent.
+   * Returns null when the order does not exist.
+   */
+  async assignDelivery(orderId: string, input: AssignDeliveryInput): Promise<DeliveryAssignment | null> {
+    const db = databaseService.getDb();
+    const orderRef = db.collection('prescriptionOrders').doc(orderId);
+    const trackingRef = db.collection('deliveryTracking').doc(orderId);
+    const courierRef = db.collection('users').doc(input.deliveryPersonId);
+    const now = new Date();
+
+    return db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists) {
+        return null;
+      }
+
+      const orderStatus = orderDoc.data()!.status as PrescriptionOrderStatus;
+      if (!ASSIGNABLE_ORDER_STATUSES.includes(orderStatus)) {
+        throw new DeliveryNotAssignableError(orderStatus);
+      }
+
+      const courierDoc = await transaction.get(courierRef);
+      if (!courierDoc.exists || courierDoc.data()!.role !== UserRole.Courier) {
+        throw new InvalidCourierError(input.deliveryPersonId);
+      }
+
+      const trackingDoc = await transaction.get(trackingRef);
+      const existing = trackingDoc.exists ? mapAssignmentDocument(trackingDoc.data() as StoredAssignment) : undefined;
+
+      const assignment: DeliveryAssignment = {
+        orderId,
+        deliveryPersonId: input.deliveryPersonId,
+        destinationLocation: input.destinationLocation,
+        recentLocations: [],
+        status: 'assigned',
+        recipientPhone: input.recipientPhone,
+        notificationChannel: input.notificationChannel || 'sms',
+        notificationPreferences: existing?.notificationPreferences || DEFAULT_DELIVERY_NOTIFICATION_PREFERENCES,
+        thresholdsReached: existing?.thresholdsReached || { approach: false, arrival: false },
+        notifications: existing?.notifications || [],
+        assignedAt: now,
+        updatedAt: now
+      };
+
+      transaction.set(trackingRef, {
+        ...assignment,
+        recipientPhone: assignment.recipientPhone || null,
+        notifications: assignment.notifications.map(serializeEvent),
+        assignedAt: admin.firestore.Timestamp.fromDate(now),
+        updatedAt: admin.firestore.Timestamp.fromDate(now)
+      });
+
+      return assignment;
+    });
+  }
+
+  /**
+   * Current tracking for an order, or null when no courier has started the delivery
+   */
+  async getTracking(orderId: string): Promise<DeliveryTrackingInfo | null> {
+    const db = databaseService.getDb();
+    const trackingDoc = await db.collection('deliveryTracking').doc(orderId).get();
+
+    if (!trackingDoc.exists || !trackingDoc.data()!.deliveryPersonId) {
+      return null;
+    }
+
+    return toTrackingInfo(mapAssignmentDocument(trackingDoc.data() as StoredAssignment));
+  }
+
+  /**
+   * Record a courier location ping, recompute the ETA from the remaining distance
+   * and recent speed, and send approach/arrival notifications the first time each
+   * threshold is crossed. Returns null when the order has no delivery assigned.
+   */
+  async recordLocation(orderId: string, location: DeliveryLocation): Promise<DeliveryTrackingInfo | null> {
+    const db = databaseService.getDb();
+    const trackingRef = db.collection('deliveryTracking').doc(orderId);
+
+    const result = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const trackingDoc = await transaction.get(trackingRef);
+      if (!trackingDoc.exists || !trackingDoc.data()!.deliveryPersonId) {
+        return null;
+      }
+
+      const assignment = mapAssignmentDocument(trackingDoc.data() as StoredAssignment);
+      if (assignment.status === 'delivered') {
+        throw new DeliveryCompletedError(orderId);
+      }
+
+      const recentLocations = [...assignment.recentLocations, location].slice(-RECENT_LOCATION_LIMIT);
+      const distance = Math.round(calculateDistanceMeters(location, assignment.destinationLocation));
+      const duration = Math.round(distance / estimateCourierSpeed(recentLocations));
+      const estimatedArrival = new Date(location.timestamp.getTime() + duration * 1000);
+
+      const events: DeliveryNotificationEvent[] = [];
+      const thresholdsReached = { ...assignment.thresholdsReached };
+      const preferences = assignment.notificationPreferences;
+      // Before pickup the courier is heading to the pharmacy, not the patient
+      const carryingOrder = assignment.status !== 'assigned';
+
+      if (carryingOrder && !thresholdsReached.arrival && distance <= ARRIVAL_RADIUS_METERS) {
+        // Going straight to arrival skips the approach notification
+        thresholdsReached.approach = true;
+        thresholdsReached.arrival = true;
+        if (preferences.enableArrivalNotification) {
+          events.push({
+            orderId,
+            type: 'arrival',
+            timestamp: location.timestamp,
+            message: 'PharmaRx: Your delivery has arrived! The delivery person is at your location.'
+          });
+        }
+      } else if (carryingOrder && !thresholdsReached.approach && duration <= preferences.approachThresholdMinutes * 60) {
+        thresholdsReached.approach = true;
+        if (preferences.enableApproachNotification) {
+          events.push({
+            orderId,
+            type: 'approach',
+            timestamp: location.timestamp,
+            estimatedArrival,
+            message: `PharmaRx: Your delivery is approaching! Expected arrival in ${Math.max(1, Math.round(duration / 60))} minutes.`
+          });
+        }
+      }
+
+      const updated: DeliveryAssignment = {
+        ...assignment,
+        currentLocation: location,
+        recentLocations,
+        estimatedArrival,
+        status: !carryingOrder ? 'assigned' : thresholdsReached.approach ? 'approaching' : 'in_transit',
+        route: {
+          coordinates: [
+            [location.longitude, location.latitude],
+            [assignment.destinationLocation.longitude, assignment.destinationLocation.latitude]
+          ],
+          distance,
+          duration
+        },
+        thresholdsReached,
+        notifications: [...assignment.notifications, ...events],
+        updatedAt: new Date()
+      };
+
+      transaction.update(trackingRef, {
+        currentLocation: serializeLocation(location),
+        recentLocations: recentLocations.map(serializeLocation),
+        estimatedArrival: admin.firestore.Timestamp.fromDate(estimatedArrival),
+        status: updated.status,
+        route: updated.route,
+        thresholdsReached,
+        notifications: updated.notifications.map(serializeEvent),
+        updatedAt: admin.firestore.Timestamp.fromDate(updated.updatedAt)
+      });
+
+      return { updated, events };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    // Sent after the transaction commits so a retried transaction cannot message the patient twice
+    for (const event of result.events) {
+      await this.sendNotification(result.updated, event);
+    }
+
+    return toTrackingInfo(result.updated);
+  }
+
+  /**
+   * Save the patient's approach/arrival preferences. They can be set before a courier is assigned.
+   */
+  async updateNotificationPreferences(
+    orderId: string,
+    preferences: DeliveryNotificationPreferences
+  ): Promise<DeliveryNotificationPreferences> {
+    const db = databaseService.getDb();
+
+    await db.collection('deliveryTracking').doc(orderId).set({
+      orderId,
+      notificationPreferences: preferences,
+      updatedAt: admin.firestore.Timestamp.fromDate(new Date())
+    }, { merge: true });
+
+    return preferences;
+  }
+
+  /**
+   * Deliveries a courier still has to complete, oldest assignment first
+   */
+  async getCourierDeliveries(courierId: string): Promise<DeliveryAssignment[]> {
+    const db = databaseService.getDb();
+    const snapshot = await db.collection('deliveryTracking')
+      .where('deliveryPersonId', '==', courierId)
+      .get();
+
+    return snapshot.docs
+      .map((doc: admin.firestore.QueryDocumentSnapshot) => mapAssignmentDocument(doc.data() as StoredAssignment))
+      .filter((assignment: DeliveryAssignment) => assignment.status !== 'delivered')
+      .sort((a: DeliveryAssignment, b: DeliveryAssignment) => a.assignedAt.getTime() - b.assignedAt.getTime());
+  }
+
+  /**
+   * Apply a courier's one-tap status change. Picking up hands the order over for
+   * delivery and delivering completes it with the proof captured at the door.
+   * Returns null when the order has no delivery assigned.
+   */
+  async updateCourierStatus(
+    orderId: string,
+    courierId: string,
+    update: CourierStatusUpdate
+  ): Promise<DeliveryAssignment | null> {
+    const db = databaseService.getDb();
+    const trackingRef = db.collection('deliveryTracking').doc(orderId);
+    const trackingDoc = await trackingRef.get();
+
+    if (!trackingDoc.exists || !trackingDoc.data()!.deliveryPersonId) {
+      return null;
+    }
+
+    const assignment = mapAssignmentDocument(trackingDoc.data() as StoredAssignment);
+    if (assignment.deliveryPersonId !== courierId) {
+      throw new DeliveryNotAssignedError(orderId);
+    }
+    if (!getNextCourierStatuses(assignment.status).includes(update.status)) {
+      throw new InvalidDeliveryStatusError(assignment.status, update.status);
+    }
+
+    const now = new Date();
+
+    if (update.status === 'picked_up') {
+      const orderDoc = await db.collection('prescriptionOrders').doc(orderId).get();
+      // The pharmacist may already have marked the order as handed over
+      if (['preparing', 'ready'].includes(orderDoc.data()?.status)) {
+        await orderStatusService.transitionOrderStatus(orderId, 'out_for_delivery', {
+          actor: 'courier',
+          changedBy: courierId,
+          reason: 'Courier picked up the order'
+        });
+      }
+    } else if (update.status === 'delivered') {
+      const proofOfDelivery: ProofOfDelivery = { ...update.proof, deliveredBy: courierId, deliveredAt: now };
+      await orderStatusService.transitionOrderStatus(orderId, 'delivered', {
+        actor: 'courier',
+        changedBy: courierId,
+        reason: `Delivered to ${proofOfDelivery.recipientName}`,
+        updates: {
+          proofOfDelivery: { ...proofOfDelivery, deliveredAt: admin.firestore.Timestamp.fromDate(now) }
+        }
+      });
+    }
+
+    await trackingRef.update({
+      status: update.status,
+      updatedAt: admin.firestore.Timestamp.fromDate(now)
+    });
+
+    return { ...assignment, status: update.status, updatedAt: now };
+  }
+
+  /**
+   * Queue an approach/arrival event for the patient's chosen channel.
+   * Failures are logged rather than failing the courier's ping.
+   */
+  private async sendNotification(assignment: DeliveryAssignment, event: DeliveryNotificationEvent): Promise<void> {
+    if (!assignment.recipientPhone) {
+      return;
+    }
+
+    try {
+      await jobQueueService.enqueue('send_message', {
+        channel: assignment.notificationChannel,
+        recipientPhone: assignment.recipientPhone,
+        message: event.message
+      });
+    } catch (error) {
+      console.error(`Error queueing ${event.type} notification for order ${event.orderId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const deliveryTrackingService = new DeliveryTrackingService();
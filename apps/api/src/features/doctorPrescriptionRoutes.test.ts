@@ -2,71 +2,67 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import doctorPrescriptionRoutes from './doctorPrescriptionRoutes';
-import { doctorPrescriptionService } from './doctorPrescriptionService';
+import { clearUserCache } from '../middleware/auth';
+import { doctorPrescriptionService, PrescriptionLockedError } from './doctorPrescriptionService';
+import { InteractionOverrideRequiredError } from './medicationScreeningService';
 import { UserRole } from '@pharmarx/shared-types';
 
+const { mockVerifyIdToken, mockUserDoc } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn(),
+  mockUserDoc: { exists: true, data: (): any => ({}) }
+}));
+
 // Mock the doctor prescription service
 vi.mock('./doctorPrescriptionService', () => ({
   doctorPrescriptionService: {
     searchPatients: vi.fn(),
     submitPrescription: vi.fn(),
-    getPrescriptionHistory: vi.fn()
+    getPrescriptionHistory: vi.fn(),
+    amendPrescription: vi.fn(),
+    cancelPrescription: vi.fn()
+  },
+  PrescriptionLockedError: class PrescriptionLockedError extends Error {
+    constructor(public readonly orderStatus: string | null) {
+      super(`Prescription can no longer be changed (order status: ${orderStatus})`);
+    }
+  }
+}));
+
+vi.mock('./medicationScreeningService', () => ({
+  InteractionOverrideRequiredError: class InteractionOverrideRequiredError extends Error {
+    constructor(public readonly findings: unknown[]) {
+      super('An override note is required to continue past a major interaction or allergy');
+    }
   }
 }));
 
 // Mock Firebase Admin
 vi.mock('firebase-admin', () => ({
   default: {
-    auth: vi.fn(() => ({
-      verifyIdToken: vi.fn()
-    })),
-    firestore: vi.fn(() => ({
-      collection: vi.fn(() => ({
-        doc: vi.fn(() => ({
-          get: vi.fn()
-        }))
-      }))
-    }))
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: () => ({
+        doc: () => ({ get: () => Promise.resolve(mockUserDoc) })
+      })
+    })
   }
 }));
 
 describe('Doctor Prescription Routes', () => {
   let app: express.Application;
-  let mockVerifyIdToken: any;
-  let mockUserDoc: any;
 
   beforeEach(() => {
+    clearUserCache();
     app = express();
     app.use(express.json());
     app.use('/api/doctor', doctorPrescriptionRoutes);
 
-    // Setup Firebase Auth mock
-    mockVerifyIdToken = vi.fn();
-    const mockAuth = vi.fn(() => ({
-      verifyIdToken: mockVerifyIdToken
-    }));
-    vi.mocked(require('firebase-admin').default.auth).mockImplementation(mockAuth);
-
-    // Setup Firestore mock
-    mockUserDoc = {
-      exists: true,
-      data: () => ({
-        role: UserRole.Doctor,
-        displayName: 'Dr. Smith',
-        email: 'doctor@example.com'
-      })
-    };
-
-    const mockDoc = vi.fn(() => ({
-      get: vi.fn().mockResolvedValue(mockUserDoc)
-    }));
-    const mockCollection = vi.fn(() => ({
-      doc: mockDoc
-    }));
-    const mockFirestore = vi.fn(() => ({
-      collection: mockCollection
-    }));
-    vi.mocked(require('firebase-admin').default.firestore).mockImplementation(mockFirestore);
+    mockUserDoc.exists = true;
+    mockUserDoc.data = () => ({
+      role: UserRole.Doctor,
+      displayName: 'Dr. Smith',
+      email: 'doctor@example.com'
+    });
   });
 
   afterEach(() => {
@@ -157,7 +153,7 @@ describe('Doctor Prescription Routes', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockPatients,
+        data: JSON.parse(JSON.stringify(mockPatients)),
         message: 'Found 1 patients matching "John"'
       });
 
@@ -252,7 +248,7 @@ describe('Doctor Prescription Routes', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockPrescription,
+        data: JSON.parse(JSON.stringify(mockPrescription)),
         message: 'Prescription submitted successfully'
       });
 
@@ -348,6 +344,34 @@ describe('Doctor Prescription Routes', () => {
         error: 'Patient profile not found'
       });
     });
+
+    it('should return 409 with the findings when a major finding is not overridden', async () => {
+      const findings = [{
+        type: 'allergy',
+        severity: 'major',
+        medication: 'Amoxicillin',
+        conflictsWith: 'Penicillin',
+        description: 'The patient is allergic to Penicillin, which includes this medication'
+      }];
+      vi.mocked(doctorPrescriptionService.submitPrescription).mockRejectedValue(new InteractionOverrideRequiredError(findings as any));
+
+      const response = await request(app)
+        .post('/api/doctor/prescriptions')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          patientProfileId: 'patient123',
+          medicationDetails: {
+            name: 'Amoxicillin',
+            dosage: '500mg',
+            quantity: 21,
+            instructions: 'Take 1 capsule three times a day',
+            refillsAuthorized: 0
+          }
+        })
+        .expect(409);
+
+      expect(response.body.data).toEqual(findings);
+    });
   });
 
   describe('GET /api/doctor/prescriptions', () => {
@@ -392,11 +416,14 @@ describe('Doctor Prescription Routes', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockHistory,
+        data: JSON.parse(JSON.stringify(mockHistory)),
         message: 'Retrieved 1 prescriptions'
       });
 
-      expect(doctorPrescriptionService.getPrescriptionHistory).toHaveBeenCalledWith('doctor123', 1, 10);
+      expect(doctorPrescriptionService.getPrescriptionHistory).toHaveBeenCalledWith('doctor123', 1, 10, {
+        status: undefined,
+        patientProfileId: undefined
+      });
     });
 
     it('should return 400 for invalid page parameter', async () => {
@@ -441,7 +468,167 @@ describe('Doctor Prescription Routes', () => {
         .set('Authorization', 'Bearer valid-token')
         .expect(200);
 
-      expect(doctorPrescriptionService.getPrescriptionHistory).toHaveBeenCalledWith('doctor123', 1, 10);
+      expect(doctorPrescriptionService.getPrescriptionHistory).toHaveBeenCalledWith('doctor123', 1, 10, {
+        status: undefined,
+        patientProfileId: undefined
+      });
+    });
+  });
+
+  describe('filtering prescription history', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'doctor123' });
+    });
+
+    it('should pass the status and patient filters to the service', async () => {
+      vi.mocked(doctorPrescriptionService.getPrescriptionHistory).mockResolvedValue({
+        prescriptions: [],
+        pagination: { page: 1, limit: 10, total: 0, hasMore: false }
+      });
+
+      await request(app)
+        .get('/api/doctor/prescriptions?status=paid&patientProfileId=patient123')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(doctorPrescriptionService.getPrescriptionHistory).toHaveBeenCalledWith('doctor123', 1, 10, {
+        status: 'paid',
+        patientProfileId: 'patient123'
+      });
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      const response = await request(app)
+        .get('/api/doctor/prescriptions?status=shipped')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid status');
+      expect(doctorPrescriptionService.getPrescriptionHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/doctor/prescriptions/:prescriptionId', () => {
+    const amendment = {
+      medicationDetails: {
+        name: 'Aspirin',
+        dosage: '75mg',
+        quantity: 60,
+        instructions: 'Take 1 tablet daily with food',
+        refillsAuthorized: 1
+      },
+      prescriptionNotes: 'Lower dose'
+    };
+
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'doctor123' });
+    });
+
+    it('should amend a prescription awaiting review', async () => {
+      vi.mocked(doctorPrescriptionService.amendPrescription).mockResolvedValue({
+        prescriptionId: 'prescription123',
+        doctorUid: 'doctor123',
+        patientProfileId: 'patient123',
+        medicationDetails: { ...amendment.medicationDetails, refillsRemaining: 1 },
+        prescriptionNotes: 'Lower dose',
+        submittedAt: new Date('2024-01-01'),
+        status: 'submitted'
+      });
+
+      const response = await request(app)
+        .put('/api/doctor/prescriptions/prescription123')
+        .set('Authorization', 'Bearer valid-token')
+        .send(amendment)
+        .expect(200);
+
+      expect(response.body.message).toBe('Prescription amended successfully');
+      expect(doctorPrescriptionService.amendPrescription).toHaveBeenCalledWith('doctor123', 'prescription123', amendment);
+    });
+
+    it('should validate the amended medication', async () => {
+      const response = await request(app)
+        .put('/api/doctor/prescriptions/prescription123')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ medicationDetails: { ...amendment.medicationDetails, instructions: '' } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Medication instructions are required');
+      expect(doctorPrescriptionService.amendPrescription).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a prescription that is not the doctor\'s', async () => {
+      vi.mocked(doctorPrescriptionService.amendPrescription).mockResolvedValue(null);
+
+      await request(app)
+        .put('/api/doctor/prescriptions/prescription123')
+        .set('Authorization', 'Bearer valid-token')
+        .send(amendment)
+        .expect(404);
+    });
+
+    it('should return 409 once the pharmacy has processed the prescription', async () => {
+      vi.mocked(doctorPrescriptionService.amendPrescription).mockRejectedValue(new PrescriptionLockedError('awaiting_payment'));
+
+      const response = await request(app)
+        .put('/api/doctor/prescriptions/prescription123')
+        .set('Authorization', 'Bearer valid-token')
+        .send(amendment)
+        .expect(409);
+
+      expect(response.body.error).toContain('awaiting_payment');
+    });
+  });
+
+  describe('POST /api/doctor/prescriptions/:prescriptionId/cancel', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'doctor123' });
+    });
+
+    it('should cancel a prescription awaiting review', async () => {
+      vi.mocked(doctorPrescriptionService.cancelPrescription).mockResolvedValue({
+        prescriptionId: 'prescription123',
+        doctorUid: 'doctor123',
+        patientProfileId: 'patient123',
+        medicationDetails: {
+          name: 'Aspirin',
+          dosage: '100mg',
+          quantity: 30,
+          instructions: 'Take 1 tablet daily',
+          refillsAuthorized: 0,
+          refillsRemaining: 0
+        },
+        submittedAt: new Date('2024-01-01'),
+        orderStatus: 'cancelled',
+        status: 'cancelled',
+        cancellationReason: 'Wrong patient'
+      });
+
+      const response = await request(app)
+        .post('/api/doctor/prescriptions/prescription123/cancel')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ reason: 'Wrong patient' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('cancelled');
+      expect(doctorPrescriptionService.cancelPrescription).toHaveBeenCalledWith('doctor123', 'prescription123', 'Wrong patient');
+    });
+
+    it('should return 404 for an unknown prescription', async () => {
+      vi.mocked(doctorPrescriptionService.cancelPrescription).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/doctor/prescriptions/missing/cancel')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+    });
+
+    it('should return 409 once the pharmacy has processed the prescription', async () => {
+      vi.mocked(doctorPrescriptionService.cancelPrescription).mockRejectedValue(new PrescriptionLockedError('delivered'));
+
+      await request(app)
+        .post('/api/doctor/prescriptions/prescription123/cancel')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(409);
     });
   });
 });
\ No newline at end of file
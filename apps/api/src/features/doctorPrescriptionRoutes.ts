@@ -2,63 +2,58 @@ import { Request, Response, Router } from 'express';
 import { 
   PatientSearchRequest, 
   CreateDoctorPrescriptionInput, 
+  UpdateDoctorPrescriptionInput,
+  DoctorPrescriptionStatus,
   ApiResponse,
+  ScreeningFinding,
   UserRole
 } from '@pharmarx/shared-types';
-import { doctorPrescriptionService } from './doctorPrescriptionService';
-import admin from 'firebase-admin';
+import { doctorPrescriptionService, PrescriptionLockedError } from './doctorPrescriptionService';
+import { InvalidStatusTransitionError } from './orderStatusService';
+import { InteractionOverrideRequiredError } from './medicationScreeningService';
+import { verifyAuth, requireRole } from '../middleware/auth';
 
 const router = Router();
 
-// Middleware to verify doctor role
-const verifyDoctorRole = async (req: Request, res: Response, next: Function) => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authorization header required'
-      } as ApiResponse<null>);
-    }
+const PRESCRIPTION_STATUSES: DoctorPrescriptionStatus[] = ['submitted', 'processed', 'paid', 'delivered', 'rejected', 'cancelled'];
 
-    const token = authHeader.split('Bearer ')[1];
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    
-    // Get user data to verify role
-    const userDoc = await admin.firestore().collection('users').doc(decodedToken.uid).get();
-    if (!userDoc.exists) {
-      return res.status(401).json({
-        success: false,
-        error: 'User not found'
-      } as ApiResponse<null>);
-    }
+/**
+ * Check the medication fields shared by new and amended prescriptions.
+ * Returns the error to report, or null when they are valid.
+ */
+const validateMedicationDetails = (medicationDetails: CreateDoctorPrescriptionInput['medicationDetails']): string | null => {
+  if (!medicationDetails.name || !medicationDetails.dosage || !medicationDetails.quantity) {
+    return 'Medication name, dosage, and quantity are required';
+  }
 
-    const userData = userDoc.data();
-    if (userData?.role !== UserRole.Doctor) {
-      return res.status(403).json({
-        success: false,
-        error: 'Doctor role required'
-      } as ApiResponse<null>);
-    }
+  if (!medicationDetails.instructions) {
+    return 'Medication instructions are required';
+  }
 
-    // Add user info to request
-    (req as any).user = {
-      uid: decodedToken.uid,
-      role: userData.role
-    };
+  if (typeof medicationDetails.refillsAuthorized !== 'number' || medicationDetails.refillsAuthorized < 0) {
+    return 'Refills authorized must be a non-negative number';
+  }
 
-    next();
-  } catch (error) {
-    console.error('Error verifying doctor role:', error);
-    return res.status(401).json({
+  return null;
+};
+
+// Amending or cancelling after the pharmacy has picked the prescription up is a conflict
+const sendPrescriptionChangeError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof PrescriptionLockedError || error instanceof InvalidStatusTransitionError) {
+    return res.status(409).json({
       success: false,
-      error: 'Invalid authentication token'
+      error: error.message
     } as ApiResponse<null>);
   }
+
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage
+  } as ApiResponse<null>);
 };
 
 // Apply doctor role verification to all routes
-router.use(verifyDoctorRole);
+router.use(verifyAuth, requireRole(UserRole.Doctor));
 
 /**
  * GET /doctor/patients - Search for registered patients
@@ -110,7 +105,7 @@ router.get('/patients', async (req: Request, res: Response) => {
  */
 router.post('/prescriptions', async (req: Request, res: Response) => {
   try {
-    const doctorUid = (req as any).user.uid;
+    const doctorUid = req.user!.uid;
     const prescriptionData: CreateDoctorPrescriptionInput = req.body;
 
     // Validate required fields
@@ -128,25 +123,18 @@ router.post('/prescriptions', async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
-    const { medicationDetails } = prescriptionData.medicationDetails;
-    if (!medicationDetails.name || !medicationDetails.dosage || !medicationDetails.quantity) {
+    const medicationError = validateMedicationDetails(prescriptionData.medicationDetails);
+    if (medicationError) {
       return res.status(400).json({
         success: false,
-        error: 'Medication name, dosage, and quantity are required'
+        error: medicationError
       } as ApiResponse<null>);
     }
 
-    if (!medicationDetails.instructions) {
+    if (prescriptionData.interactionOverrideNote !== undefined && typeof prescriptionData.interactionOverrideNote !== 'string') {
       return res.status(400).json({
         success: false,
-        error: 'Medication instructions are required'
-      } as ApiResponse<null>);
-    }
-
-    if (typeof medicationDetails.refillsAuthorized !== 'number' || medicationDetails.refillsAuthorized < 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Refills authorized must be a non-negative number'
+        error: 'Interaction override note must be a string'
       } as ApiResponse<null>);
     }
 
@@ -168,6 +156,15 @@ router.post('/prescriptions', async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
+    // The findings are sent back so the doctor can review them and add an override note
+    if (error instanceof InteractionOverrideRequiredError) {
+      return res.status(409).json({
+        success: false,
+        data: error.findings,
+        error: error.message
+      } as ApiResponse<ScreeningFinding[]>);
+    }
+
     res.status(500).json({
       success: false,
       error: 'Internal server error during prescription submission'
@@ -177,11 +174,12 @@ router.post('/prescriptions', async (req: Request, res: Response) => {
 
 /**
  * GET /doctor/prescriptions - Get doctor's prescription history
+ * Query: page, limit, status (where the order stands), patientProfileId
  */
 router.get('/prescriptions', async (req: Request, res: Response) => {
   try {
-    const doctorUid = (req as any).user.uid;
-    const { page = '1', limit = '10' } = req.query;
+    const doctorUid = req.user!.uid;
+    const { page = '1', limit = '10', status, patientProfileId } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
@@ -200,7 +198,17 @@ router.get('/prescriptions', async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
-    const history = await doctorPrescriptionService.getPrescriptionHistory(doctorUid, pageNum, limitNum);
+    if (status !== undefined && !PRESCRIPTION_STATUSES.includes(status as DoctorPrescriptionStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Must be one of: ${PRESCRIPTION_STATUSES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const history = await doctorPrescriptionService.getPrescriptionHistory(doctorUid, pageNum, limitNum, {
+      status: status as DoctorPrescriptionStatus | undefined,
+      patientProfileId: patientProfileId as string | undefined
+    });
 
     res.json({
       success: true,
@@ -217,4 +225,82 @@ router.get('/prescriptions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /doctor/prescriptions/:prescriptionId - Amend a prescription before the pharmacist reviews it
+ */
+router.put('/prescriptions/:prescriptionId', async (req: Request, res: Response) => {
+  try {
+    const doctorUid = req.user!.uid;
+    const amendment: UpdateDoctorPrescriptionInput = req.body;
+
+    if (!amendment.medicationDetails) {
+      return res.status(400).json({
+        success: false,
+        error: 'Medication details are required'
+      } as ApiResponse<null>);
+    }
+
+    const medicationError = validateMedicationDetails(amendment.medicationDetails);
+    if (medicationError) {
+      return res.status(400).json({
+        success: false,
+        error: medicationError
+      } as ApiResponse<null>);
+    }
+
+    const prescription = await doctorPrescriptionService.amendPrescription(doctorUid, req.params.prescriptionId, amendment);
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: prescription,
+      message: 'Prescription amended successfully'
+    } as ApiResponse<any>);
+
+  } catch (error) {
+    console.error('Error amending prescription:', error);
+    sendPrescriptionChangeError(res, error, 'Internal server error while amending prescription');
+  }
+});
+
+/**
+ * POST /doctor/prescriptions/:prescriptionId/cancel - Cancel a prescription before the pharmacist reviews it
+ */
+router.post('/prescriptions/:prescriptionId/cancel', async (req: Request, res: Response) => {
+  try {
+    const doctorUid = req.user!.uid;
+    const { reason } = req.body || {};
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cancellation reason must be a string'
+      } as ApiResponse<null>);
+    }
+
+    const prescription = await doctorPrescriptionService.cancelPrescription(doctorUid, req.params.prescriptionId, reason);
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: prescription,
+      message: 'Prescription cancelled successfully'
+    } as ApiResponse<any>);
+
+  } catch (error) {
+    console.error('Error cancelling prescription:', error);
+    sendPrescriptionChangeError(res, error, 'Internal server error while cancelling prescription');
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,17 +1,39 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { DoctorPrescriptionService } from './doctorPrescriptionService';
+import { DoctorPrescriptionService, PrescriptionLockedError } from './doctorPrescriptionService';
+import { medicationScreeningService, InteractionOverrideRequiredError } from './medicationScreeningService';
 import { db } from './database';
+import { orderStatusService } from './orderStatusService';
 import { 
   PatientSearchRequest, 
-  CreateDoctorPrescriptionInput,
-  UserRole,
-  PrescriptionOrderStatus
+  CreateDoctorPrescriptionInput
 } from '@pharmarx/shared-types';
 
 // Mock the database
-vi.mock('./database', () => ({
-  db: {
-    collection: vi.fn()
+vi.mock('./database', () => {
+  const db = {
+    collection: vi.fn(),
+    runTransaction: vi.fn()
+  };
+  return { db, default: { getDb: () => db } };
+});
+
+vi.mock('./orderStatusService', () => ({
+  orderStatusService: {
+    transitionOrderStatus: vi.fn(),
+    buildInitialStatusHistory: vi.fn(() => [])
+  }
+}));
+
+vi.mock('./prescriptionNotificationService', () => ({
+  PrescriptionNotificationService: class {
+    notifyPatientOfPrescription = vi.fn().mockResolvedValue({ success: true });
+  }
+}));
+
+vi.mock('./medicationScreeningService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./medicationScreeningService')>(),
+  medicationScreeningService: {
+    screenForPatient: vi.fn()
   }
 }));
 
@@ -34,6 +56,7 @@ describe('DoctorPrescriptionService', () => {
   beforeEach(() => {
     service = new DoctorPrescriptionService();
     mockDoc = {
+      id: 'generated-id',
       get: vi.fn(),
       set: vi.fn().mockResolvedValue(undefined)
     };
@@ -46,6 +69,7 @@ describe('DoctorPrescriptionService', () => {
       get: vi.fn()
     };
     (db.collection as any).mockReturnValue(mockCollection);
+    vi.mocked(medicationScreeningService.screenForPatient).mockResolvedValue({ findings: [], screenedAt: new Date() });
   });
 
   afterEach(() => {
@@ -312,47 +336,115 @@ describe('DoctorPrescriptionService', () => {
 
       await service.submitPrescription(doctorUid, input);
 
-      // Verify that prescription order was created
-      expect(mockCollection.doc).toHaveBeenCalledTimes(2); // Once for prescription, once for order
+      // Verify that the prescription and its order were both saved, linked to each other
       expect(mockDoc.set).toHaveBeenCalledTimes(2);
+      expect(mockDoc.set).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: 'generated-id',
+        patientName: 'John Doe'
+      }));
+      expect(mockDoc.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'pending_verification',
+        doctorPrescriptionId: 'generated-id'
+      }));
+    });
+  });
+
+  describe('interaction screening on submit', () => {
+    const input: CreateDoctorPrescriptionInput = {
+      patientProfileId: 'patient123',
+      medicationDetails: {
+        name: 'Amoxicillin',
+        dosage: '500mg',
+        quantity: 21,
+        instructions: 'Take 1 capsule three times a day',
+        refillsAuthorized: 0
+      }
+    };
+    const majorFinding = {
+      type: 'allergy' as const,
+      severity: 'major' as const,
+      medication: 'Amoxicillin',
+      conflictsWith: 'Penicillin',
+      description: 'The patient is allergic to Penicillin, which includes this medication'
+    };
+
+    beforeEach(() => {
+      mockDoc.get.mockResolvedValue({
+        exists: true,
+        data: () => ({ patientName: 'John Doe', allergies: ['Penicillin'] })
+      });
+      vi.mocked(medicationScreeningService.screenForPatient).mockResolvedValue({ findings: [majorFinding], screenedAt: new Date() });
+    });
+
+    it('should not save a prescription over a major finding without an override note', async () => {
+      await expect(service.submitPrescription('doctor123', input)).rejects.toThrow(InteractionOverrideRequiredError);
+
+      expect(medicationScreeningService.screenForPatient).toHaveBeenCalledWith(
+        'patient123',
+        ['Amoxicillin'],
+        { profile: expect.objectContaining({ allergies: ['Penicillin'] }) }
+      );
+      expect(mockDoc.set).not.toHaveBeenCalled();
+    });
+
+    it('should record the findings and the override note', async () => {
+      const result = await service.submitPrescription('doctor123', {
+        ...input,
+        interactionOverrideNote: 'Tolerated amoxicillin last year without reaction'
+      });
+
+      expect(result).toMatchObject({
+        screeningFindings: [majorFinding],
+        interactionOverrideNote: 'Tolerated amoxicillin last year without reaction'
+      });
     });
   });
 
   describe('getPrescriptionHistory', () => {
-    it('should return prescription history with pagination', async () => {
-      const doctorUid = 'doctor123';
-      const page = 1;
-      const limit = 5;
+    const prescriptionData = (prescriptionId: string, orderId: string) => ({
+      prescriptionId,
+      doctorUid: 'doctor123',
+      patientProfileId: 'patient123',
+      patientName: 'John Doe',
+      orderId,
+      medicationDetails: {
+        name: 'Aspirin',
+        dosage: '100mg',
+        quantity: 30,
+        instructions: 'Take 1 tablet daily',
+        refillsAuthorized: 2,
+        refillsRemaining: 1
+      },
+      prescriptionNotes: 'For headache relief',
+      submittedAt: { toDate: () => new Date('2024-01-01') },
+      status: 'submitted'
+    });
 
-      const mockPrescriptionDocs = [
-        {
-          data: () => ({
-            prescriptionId: 'prescription1',
-            doctorUid: 'doctor123',
-            patientProfileId: 'patient123',
-            medicationDetails: {
-              name: 'Aspirin',
-              dosage: '100mg',
-              quantity: 30,
-              instructions: 'Take 1 tablet daily',
-              refillsAuthorized: 2,
-              refillsRemaining: 1
-            },
-            prescriptionNotes: 'For headache relief',
-            submittedAt: { toDate: () => new Date('2024-01-01') },
-            status: 'submitted'
-          })
+    // Prescriptions come from one query; each order is then read by id
+    const mockHistory = (prescriptionDocs: any[], orderStatuses: Record<string, string>) => {
+      (db.collection as any).mockImplementation((collectionName: string) => {
+        if (collectionName === 'prescriptionOrders') {
+          return {
+            doc: vi.fn((orderId: string) => ({
+              id: orderId,
+              get: vi.fn().mockResolvedValue({
+                exists: orderId in orderStatuses,
+                data: () => ({ status: orderStatuses[orderId] })
+              })
+            }))
+          };
         }
-      ];
-
-      const mockTotalQuery = {
-        size: 1
-      };
+        mockCollection.get.mockResolvedValue({ docs: prescriptionDocs });
+        return mockCollection;
+      });
+    };
 
-      mockCollection.get.mockResolvedValueOnce({ docs: mockPrescriptionDocs });
-      mockCollection.get.mockResolvedValueOnce(mockTotalQuery);
+    it('should return prescription history with the downstream order status', async () => {
+      mockHistory([
+        { id: 'prescription1', data: () => prescriptionData('prescription1', 'order1') }
+      ], { order1: 'preparing' });
 
-      const result = await service.getPrescriptionHistory(doctorUid, page, limit);
+      const result = await service.getPrescriptionHistory('doctor123', 1, 5);
 
       expect(result).toEqual({
         prescriptions: [
@@ -360,6 +452,9 @@ describe('DoctorPrescriptionService', () => {
             prescriptionId: 'prescription1',
             doctorUid: 'doctor123',
             patientProfileId: 'patient123',
+            patientName: 'John Doe',
+            orderId: 'order1',
+            orderStatus: 'preparing',
             medicationDetails: {
               name: 'Aspirin',
               dosage: '100mg',
@@ -370,7 +465,9 @@ describe('DoctorPrescriptionService', () => {
             },
             prescriptionNotes: 'For headache relief',
             submittedAt: new Date('2024-01-01'),
-            status: 'submitted'
+            amendedAt: undefined,
+            cancelledAt: undefined,
+            status: 'paid'
           }
         ],
         pagination: {
@@ -382,19 +479,31 @@ describe('DoctorPrescriptionService', () => {
       });
     });
 
-    it('should handle empty prescription history', async () => {
-      const doctorUid = 'doctor123';
-      const page = 1;
-      const limit = 10;
+    it('should filter by where the order stands and paginate the matches', async () => {
+      mockHistory([
+        { id: 'prescription1', data: () => prescriptionData('prescription1', 'order1') },
+        { id: 'prescription2', data: () => prescriptionData('prescription2', 'order2') },
+        { id: 'prescription3', data: () => prescriptionData('prescription3', 'order3') }
+      ], { order1: 'delivered', order2: 'awaiting_payment', order3: 'delivered' });
 
-      const mockTotalQuery = {
-        size: 0
-      };
+      const result = await service.getPrescriptionHistory('doctor123', 1, 1, { status: 'delivered' });
+
+      expect(result.prescriptions.map(prescription => prescription.prescriptionId)).toEqual(['prescription1']);
+      expect(result.pagination).toEqual({ page: 1, limit: 1, total: 2, hasMore: true });
+    });
+
+    it('should narrow the query to one patient', async () => {
+      mockHistory([], {});
+
+      await service.getPrescriptionHistory('doctor123', 1, 10, { patientProfileId: 'patient123' });
 
-      mockCollection.get.mockResolvedValueOnce({ docs: [] });
-      mockCollection.get.mockResolvedValueOnce(mockTotalQuery);
+      expect(mockCollection.where).toHaveBeenCalledWith('patientProfileId', '==', 'patient123');
+    });
+
+    it('should handle empty prescription history', async () => {
+      mockHistory([], {});
 
-      const result = await service.getPrescriptionHistory(doctorUid, page, limit);
+      const result = await service.getPrescriptionHistory('doctor123', 1, 10);
 
       expect(result.prescriptions).toEqual([]);
       expect(result.pagination.total).toBe(0);
@@ -413,4 +522,112 @@ describe('DoctorPrescriptionService', () => {
       await expect(service.getPrescriptionHistory(doctorUid, page, limit)).rejects.toThrow('Failed to get prescription history');
     });
   });
-});
\ No newline at end of file
+
+  describe('amending and cancelling', () => {
+    let prescriptionRef: any;
+    let orderRef: any;
+    let orderStatus: string;
+    let transaction: any;
+
+    beforeEach(() => {
+      orderStatus = 'pending_verification';
+      prescriptionRef = {
+        id: 'prescription1',
+        get: vi.fn().mockResolvedValue({
+          id: 'prescription1',
+          exists: true,
+          data: () => ({
+            prescriptionId: 'prescription1',
+            doctorUid: 'doctor123',
+            patientProfileId: 'patient123',
+            orderId: 'order1',
+            medicationDetails: {
+              name: 'Aspirin',
+              dosage: '100mg',
+              quantity: 30,
+              instructions: 'Take 1 tablet daily',
+              refillsAuthorized: 0,
+              refillsRemaining: 0
+            },
+            submittedAt: { toDate: () => new Date('2024-01-01') },
+            status: 'submitted'
+          })
+        }),
+        update: vi.fn().mockResolvedValue(undefined)
+      };
+      orderRef = {
+        id: 'order1',
+        get: vi.fn(() => Promise.resolve({ exists: true, data: () => ({ status: orderStatus }) }))
+      };
+      transaction = {
+        get: vi.fn((ref: any) => ref.get()),
+        update: vi.fn()
+      };
+
+      (db.collection as any).mockImplementation((collectionName: string) => ({
+        doc: vi.fn(() => collectionName === 'prescriptionOrders' ? orderRef : prescriptionRef)
+      }));
+      (db.runTransaction as any).mockImplementation((callback: any) => callback(transaction));
+    });
+
+    const amendment = {
+      medicationDetails: {
+        name: 'Aspirin',
+        dosage: '75mg',
+        quantity: 60,
+        instructions: 'Take 1 tablet daily with food',
+        refillsAuthorized: 1
+      },
+      prescriptionNotes: 'Lower dose'
+    };
+
+    it('should update the prescription and its pending order together', async () => {
+      await service.amendPrescription('doctor123', 'prescription1', amendment);
+
+      expect(transaction.update).toHaveBeenCalledWith(orderRef, expect.objectContaining({
+        medicationDetails: { name: 'Aspirin', dosage: '75mg', quantity: 60 },
+        refillsAuthorized: 1,
+        refillsRemaining: 1
+      }));
+      expect(transaction.update).toHaveBeenCalledWith(prescriptionRef, expect.objectContaining({
+        medicationDetails: { ...amendment.medicationDetails, refillsRemaining: 1 },
+        prescriptionNotes: 'Lower dose'
+      }));
+    });
+
+    it('should refuse to amend once the pharmacist has approved the order', async () => {
+      orderStatus = 'awaiting_payment';
+
+      await expect(service.amendPrescription('doctor123', 'prescription1', amendment))
+        .rejects.toThrow(PrescriptionLockedError);
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let a doctor change another doctor\'s prescription', async () => {
+      await expect(service.amendPrescription('doctor456', 'prescription1', amendment)).resolves.toBeNull();
+      await expect(service.cancelPrescription('doctor456', 'prescription1')).resolves.toBeNull();
+    });
+
+    it('should cancel the order and record the reason on the prescription', async () => {
+      const result = await service.cancelPrescription('doctor123', 'prescription1', 'Wrong patient');
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order1', 'cancelled', {
+        actor: 'doctor',
+        changedBy: 'doctor123',
+        reason: 'Wrong patient'
+      });
+      expect(prescriptionRef.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'cancelled',
+        cancellationReason: 'Wrong patient'
+      }));
+      expect(result).toMatchObject({ status: 'cancelled', orderStatus: 'cancelled' });
+    });
+
+    it('should refuse to cancel a prescription already out for delivery', async () => {
+      orderStatus = 'out_for_delivery';
+
+      await expect(service.cancelPrescription('doctor123', 'prescription1')).rejects.toThrow(PrescriptionLockedError);
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,13 +4,61 @@ import {
   PatientSearchRequest, 
   DoctorPrescriptionSubmission, 
   CreateDoctorPrescriptionInput,
+  UpdateDoctorPrescriptionInput,
+  DoctorPrescriptionStatus,
+  DoctorPrescriptionHistoryFilters,
   DoctorPrescriptionHistoryResponse,
   PrescriptionOrder,
   PrescriptionOrderStatus,
-  PatientProfile
+  PatientProfile,
+  createLineItem,
+  getPrescriptionExpiry,
+  requiresInteractionOverride
 } from '@pharmarx/shared-types';
 import admin from 'firebase-admin';
 import { PrescriptionNotificationService } from './prescriptionNotificationService';
+import { orderStatusService } from './orderStatusService';
+import { medicationScreeningService, InteractionOverrideRequiredError } from './medicationScreeningService';
+
+// The pharmacist has not reviewed the prescription yet, so the doctor may still change it
+const AMENDABLE_ORDER_STATUSES: PrescriptionOrderStatus[] = ['pending_verification', 'awaiting_verification'];
+
+/**
+ * Raised when a doctor amends or cancels a prescription the pharmacy has already processed.
+ * Routes translate this into a 409 Conflict.
+ */
+export class PrescriptionLockedError extends Error {
+  constructor(public readonly orderStatus: PrescriptionOrderStatus | null) {
+    super(orderStatus
+      ? `Prescription can no longer be changed (order status: ${orderStatus})`
+      : 'Prescription can no longer be changed');
+    this.name = 'PrescriptionLockedError';
+  }
+}
+
+/**
+ * Summarise the order's progress for the prescribing doctor
+ */
+const getPrescriptionStatus = (orderStatus: PrescriptionOrderStatus): DoctorPrescriptionStatus => {
+  switch (orderStatus) {
+    case 'pending_verification':
+    case 'awaiting_verification':
+    case 'needs_clarification':
+      return 'submitted';
+    case 'awaiting_payment':
+      return 'processed';
+    case 'preparing':
+    case 'ready':
+    case 'out_for_delivery':
+      return 'paid';
+    case 'delivered':
+      return 'delivered';
+    case 'rejected':
+      return 'rejected';
+    case 'cancelled':
+      return 'cancelled';
+  }
+};
 
 export class DoctorPrescriptionService {
   private notificationService: PrescriptionNotificationService;
@@ -130,8 +178,20 @@ export class DoctorPrescriptionService {
         updatedAt: patientProfileData?.updatedAt?.toDate()
       } as PatientProfile;
 
-      // Generate prescription ID
+      // Screen before anything is saved, so a blocked prescription leaves nothing behind
+      const { findings } = await medicationScreeningService.screenForPatient(
+        input.patientProfileId,
+        [input.medicationDetails.name],
+        { profile: patientProfile }
+      );
+      const interactionOverrideNote = input.interactionOverrideNote?.trim() || undefined;
+      if (requiresInteractionOverride(findings) && !interactionOverrideNote) {
+        throw new InteractionOverrideRequiredError(findings);
+      }
+
+      // Generate prescription and order IDs
       const prescriptionId = this.db.collection('doctorPrescriptions').doc().id;
+      const orderId = this.db.collection('prescriptionOrders').doc().id;
       const now = new Date();
 
       // Create prescription submission
@@ -139,11 +199,15 @@ export class DoctorPrescriptionService {
         prescriptionId,
         doctorUid,
         patientProfileId: input.patientProfileId,
+        patientName: patientProfile.patientName,
+        orderId,
         medicationDetails: {
           ...input.medicationDetails,
           refillsRemaining: input.medicationDetails.refillsAuthorized
         },
         prescriptionNotes: input.prescriptionNotes,
+        screeningFindings: findings,
+        interactionOverrideNote,
         submittedAt: now,
         status: 'submitted'
       };
@@ -155,23 +219,35 @@ export class DoctorPrescriptionService {
       });
 
       // Create prescription order for pharmacist processing
-      const orderId = this.db.collection('prescriptionOrders').doc().id;
+      const medicationDetails = {
+        name: input.medicationDetails.name,
+        dosage: input.medicationDetails.dosage,
+        quantity: input.medicationDetails.quantity
+      };
       const prescriptionOrder: PrescriptionOrder = {
         orderId,
         patientProfileId: input.patientProfileId,
         status: 'pending_verification' as PrescriptionOrderStatus,
         originalImageUrl: '', // No image for doctor submissions
-        medicationDetails: {
-          name: input.medicationDetails.name,
-          dosage: input.medicationDetails.dosage,
-          quantity: input.medicationDetails.quantity
-        },
+        lineItems: [createLineItem(medicationDetails, 0)],
+        medicationDetails,
+        doctorPrescriptionId: prescriptionId,
+        refillsAuthorized: input.medicationDetails.refillsAuthorized,
+        refillsRemaining: input.medicationDetails.refillsAuthorized,
+        prescriptionExpiresAt: getPrescriptionExpiry({ createdAt: now }),
         createdAt: now,
         updatedAt: now
       };
 
       await this.db.collection('prescriptionOrders').doc(orderId).set({
         ...prescriptionOrder,
+        statusHistory: orderStatusService.buildInitialStatusHistory(
+          prescriptionOrder.status,
+          'doctor',
+          doctorUid,
+          'Prescription submitted by doctor'
+        ),
+        prescriptionExpiresAt: admin.firestore.Timestamp.fromDate(prescriptionOrder.prescriptionExpiresAt!),
         createdAt: admin.firestore.Timestamp.fromDate(now),
         updatedAt: admin.firestore.Timestamp.fromDate(now)
       });
@@ -203,43 +279,45 @@ export class DoctorPrescriptionService {
   }
 
   /**
-   * Get prescription history for a doctor
+   * Get prescription history for a doctor, with each prescription's downstream order status.
+   * Status filtering happens after the orders are read, since that status lives on the order.
    */
   async getPrescriptionHistory(
     doctorUid: string, 
     page: number = 1, 
-    limit: number = 10
+    limit: number = 10,
+    filters: DoctorPrescriptionHistoryFilters = {}
   ): Promise<DoctorPrescriptionHistoryResponse> {
     try {
       const offset = (page - 1) * limit;
       
-      const prescriptionsRef = this.db.collection('doctorPrescriptions');
-      const query = prescriptionsRef
-        .where('doctorUid', '==', doctorUid)
-        .orderBy('submittedAt', 'desc')
-        .limit(limit)
-        .offset(offset);
-
-      const snapshot = await query.get();
-      const prescriptions = snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => {
-        const data = doc.data();
-        return {
-          ...data,
-          submittedAt: data.submittedAt.toDate()
-        } as DoctorPrescriptionSubmission;
-      });
+      let query: admin.firestore.Query = this.db.collection('doctorPrescriptions')
+        .where('doctorUid', '==', doctorUid);
+
+      if (filters.patientProfileId) {
+        query = query.where('patientProfileId', '==', filters.patientProfileId);
+      }
+
+      const snapshot = await query.orderBy('submittedAt', 'desc').get();
+      let prescriptions = snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => this.mapPrescriptionDocument(doc));
+
+      if (filters.status) {
+        prescriptions = (await Promise.all(prescriptions.map(prescription => this.withOrderStatus(prescription))))
+          .filter(prescription => prescription.status === filters.status);
+      }
 
-      // Get total count for pagination
-      const totalQuery = await prescriptionsRef.where('doctorUid', '==', doctorUid).get();
-      const total = totalQuery.size;
+      const total = prescriptions.length;
+      const pagePrescriptions = prescriptions.slice(offset, offset + limit);
 
       return {
-        prescriptions,
+        prescriptions: filters.status
+          ? pagePrescriptions
+          : await Promise.all(pagePrescriptions.map(prescription => this.withOrderStatus(prescription))),
         pagination: {
           page,
           limit,
           total,
-          hasMore: offset + prescriptions.length < total
+          hasMore: offset + pagePrescriptions.length < total
         }
       };
     } catch (error) {
@@ -248,6 +326,159 @@ export class DoctorPrescriptionService {
     }
   }
 
+  /**
+   * Change the medication on a prescription the pharmacist has not reviewed yet,
+   * updating the pending order to match. Returns null when the prescription
+   * does not exist or belongs to another doctor.
+   */
+  async amendPrescription(
+    doctorUid: string,
+    prescriptionId: string,
+    input: UpdateDoctorPrescriptionInput
+  ): Promise<DoctorPrescriptionSubmission | null> {
+    const prescriptionRef = this.db.collection('doctorPrescriptions').doc(prescriptionId);
+    const prescriptionDoc = await prescriptionRef.get();
+    if (!prescriptionDoc.exists || prescriptionDoc.data()?.doctorUid !== doctorUid) {
+      return null;
+    }
+
+    const orderRef = await this.findOrderRef(this.mapPrescriptionDocument(prescriptionDoc));
+    if (!orderRef) {
+      throw new PrescriptionLockedError(null);
+    }
+
+    const now = new Date();
+    const medicationDetails = {
+      name: input.medicationDetails.name,
+      dosage: input.medicationDetails.dosage,
+      quantity: input.medicationDetails.quantity
+    };
+
+    await this.db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      const orderStatus = orderDoc.data()?.status as PrescriptionOrderStatus;
+      if (!AMENDABLE_ORDER_STATUSES.includes(orderStatus)) {
+        throw new PrescriptionLockedError(orderStatus);
+      }
+
+      const timestamp = admin.firestore.Timestamp.fromDate(now);
+      transaction.update(orderRef, {
+        lineItems: [createLineItem(medicationDetails, 0)],
+        medicationDetails,
+        refillsAuthorized: input.medicationDetails.refillsAuthorized,
+        refillsRemaining: input.medicationDetails.refillsAuthorized,
+        updatedAt: timestamp
+      });
+      transaction.update(prescriptionRef, {
+        medicationDetails: {
+          ...input.medicationDetails,
+          refillsRemaining: input.medicationDetails.refillsAuthorized
+        },
+        prescriptionNotes: input.prescriptionNotes ?? null,
+        orderId: orderRef.id,
+        amendedAt: timestamp
+      });
+    });
+
+    console.log(`Doctor ${doctorUid} amended prescription ${prescriptionId}`);
+
+    return this.withOrderStatus(this.mapPrescriptionDocument(await prescriptionRef.get()));
+  }
+
+  /**
+   * Withdraw a prescription the pharmacist has not reviewed yet and cancel its order.
+   * Returns null when the prescription does not exist or belongs to another doctor.
+   */
+  async cancelPrescription(
+    doctorUid: string,
+    prescriptionId: string,
+    reason?: string
+  ): Promise<DoctorPrescriptionSubmission | null> {
+    const prescriptionRef = this.db.collection('doctorPrescriptions').doc(prescriptionId);
+    const prescriptionDoc = await prescriptionRef.get();
+    if (!prescriptionDoc.exists || prescriptionDoc.data()?.doctorUid !== doctorUid) {
+      return null;
+    }
+
+    const prescription = await this.withOrderStatus(this.mapPrescriptionDocument(prescriptionDoc));
+    if (!prescription.orderId || !prescription.orderStatus || !AMENDABLE_ORDER_STATUSES.includes(prescription.orderStatus)) {
+      throw new PrescriptionLockedError(prescription.orderStatus || null);
+    }
+
+    const cancellationReason = reason?.trim() || 'Cancelled by the prescribing doctor';
+    await orderStatusService.transitionOrderStatus(prescription.orderId, 'cancelled', {
+      actor: 'doctor',
+      changedBy: doctorUid,
+      reason: cancellationReason
+    });
+
+    const now = new Date();
+    await prescriptionRef.update({
+      status: 'cancelled',
+      orderId: prescription.orderId,
+      cancelledAt: admin.firestore.Timestamp.fromDate(now),
+      cancellationReason
+    });
+
+    console.log(`Doctor ${doctorUid} cancelled prescription ${prescriptionId}`);
+
+    return {
+      ...prescription,
+      orderStatus: 'cancelled',
+      status: 'cancelled',
+      cancelledAt: now,
+      cancellationReason
+    };
+  }
+
+  /**
+   * Look up the order created for a prescription. Prescriptions submitted before
+   * orders were linked back are found through the order's doctorPrescriptionId.
+   */
+  private async findOrderRef(prescription: DoctorPrescriptionSubmission): Promise<admin.firestore.DocumentReference | null> {
+    const orders = this.db.collection('prescriptionOrders');
+    if (prescription.orderId) {
+      return orders.doc(prescription.orderId);
+    }
+
+    const snapshot = await orders.where('doctorPrescriptionId', '==', prescription.prescriptionId).limit(1).get();
+    return snapshot.empty ? null : snapshot.docs[0].ref;
+  }
+
+  /**
+   * Attach the current order status, and the prescription status it implies
+   */
+  private async withOrderStatus(prescription: DoctorPrescriptionSubmission): Promise<DoctorPrescriptionSubmission> {
+    const orderRef = await this.findOrderRef(prescription);
+    const orderDoc = orderRef ? await orderRef.get() : null;
+    if (!orderRef || !orderDoc?.exists) {
+      return prescription;
+    }
+
+    const orderStatus = orderDoc.data()?.status as PrescriptionOrderStatus;
+    return {
+      ...prescription,
+      orderId: orderRef.id,
+      orderStatus,
+      status: getPrescriptionStatus(orderStatus)
+    };
+  }
+
+  /**
+   * Convert a doctorPrescriptions document, including Firestore timestamps, into a DoctorPrescriptionSubmission
+   */
+  private mapPrescriptionDocument(doc: admin.firestore.DocumentSnapshot): DoctorPrescriptionSubmission {
+    const data = doc.data() || {};
+    return {
+      ...data,
+      prescriptionId: data.prescriptionId || doc.id,
+      prescriptionNotes: data.prescriptionNotes ?? undefined,
+      submittedAt: data.submittedAt?.toDate() || new Date(),
+      amendedAt: data.amendedAt?.toDate(),
+      cancelledAt: data.cancelledAt?.toDate()
+    } as DoctorPrescriptionSubmission;
+  }
+
   /**
    * Map Firestore document to PatientSearchResult
    */
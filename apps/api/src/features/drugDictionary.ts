@@ -0,0 +1,40 @@
+export interface DrugDictionaryEntry {
+  name: string; // Canonical name shown to patients and pharmacists
+  aliases: string[]; // French/English spellings and common brand names, matched without accents
+  defaultUnit: string;
+}
+
+/**
+ * Local dictionary of medications commonly prescribed by our partner clinics.
+ * Extraction only needs a name that is close enough to one of these to trust it.
+ */
+export const DRUG_DICTIONARY: DrugDictionaryEntry[] = [
+  { name: 'Paracetamol', aliases: ['paracetamol', 'paracétamol', 'acetaminophen', 'doliprane', 'efferalgan', 'dafalgan'], defaultUnit: 'mg' },
+  { name: 'Ibuprofen', aliases: ['ibuprofen', 'ibuprofène', 'ibuprofene', 'advil', 'brufen'], defaultUnit: 'mg' },
+  { name: 'Diclofenac', aliases: ['diclofenac', 'diclofénac', 'voltarene', 'voltaren'], defaultUnit: 'mg' },
+  { name: 'Amoxicillin', aliases: ['amoxicillin', 'amoxicilline', 'clamoxyl'], defaultUnit: 'mg' },
+  { name: 'Amoxicillin/Clavulanic acid', aliases: ['augmentin', 'amoxicilline acide clavulanique', 'co-amoxiclav'], defaultUnit: 'mg' },
+  { name: 'Azithromycin', aliases: ['azithromycin', 'azithromycine', 'zithromax'], defaultUnit: 'mg' },
+  { name: 'Ciprofloxacin', aliases: ['ciprofloxacin', 'ciprofloxacine', 'ciflox'], defaultUnit: 'mg' },
+  { name: 'Doxycycline', aliases: ['doxycycline', 'vibramycine'], defaultUnit: 'mg' },
+  { name: 'Metronidazole', aliases: ['metronidazole', 'métronidazole', 'flagyl'], defaultUnit: 'mg' },
+  { name: 'Cotrimoxazole', aliases: ['cotrimoxazole', 'co-trimoxazole', 'bactrim'], defaultUnit: 'mg' },
+  { name: 'Ceftriaxone', aliases: ['ceftriaxone', 'rocephine'], defaultUnit: 'g' },
+  { name: 'Artemether/Lumefantrine', aliases: ['artemether lumefantrine', 'artéméther luméfantrine', 'coartem'], defaultUnit: 'mg' },
+  { name: 'Artesunate', aliases: ['artesunate', 'artésunate'], defaultUnit: 'mg' },
+  { name: 'Quinine', aliases: ['quinine', 'quinimax'], defaultUnit: 'mg' },
+  { name: 'Albendazole', aliases: ['albendazole', 'zentel'], defaultUnit: 'mg' },
+  { name: 'Mebendazole', aliases: ['mebendazole', 'mébendazole', 'vermox'], defaultUnit: 'mg' },
+  { name: 'Metformin', aliases: ['metformin', 'metformine', 'glucophage'], defaultUnit: 'mg' },
+  { name: 'Glibenclamide', aliases: ['glibenclamide', 'daonil'], defaultUnit: 'mg' },
+  { name: 'Amlodipine', aliases: ['amlodipine', 'amlor'], defaultUnit: 'mg' },
+  { name: 'Nifedipine', aliases: ['nifedipine', 'nifédipine', 'adalate'], defaultUnit: 'mg' },
+  { name: 'Captopril', aliases: ['captopril', 'lopril'], defaultUnit: 'mg' },
+  { name: 'Hydrochlorothiazide', aliases: ['hydrochlorothiazide', 'esidrex'], defaultUnit: 'mg' },
+  { name: 'Omeprazole', aliases: ['omeprazole', 'oméprazole', 'mopral'], defaultUnit: 'mg' },
+  { name: 'Salbutamol', aliases: ['salbutamol', 'albuterol', 'ventoline', 'ventolin'], defaultUnit: 'mcg' },
+  { name: 'Prednisolone', aliases: ['prednisolone', 'solupred'], defaultUnit: 'mg' },
+  { name: 'Loratadine', aliases: ['loratadine', 'clarityne'], defaultUnit: 'mg' },
+  { name: 'Ferrous sulfate/Folic acid', aliases: ['fer acide folique', 'ferrous sulfate', 'sulfate ferreux', 'tardyferon'], defaultUnit: 'mg' },
+  { name: 'Vitamin C', aliases: ['vitamine c', 'vitamin c', 'acide ascorbique', 'ascorbic acid'], defaultUnit: 'mg' }
+];
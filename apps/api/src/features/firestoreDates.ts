@@ -0,0 +1,14 @@
+import admin from 'firebase-admin';
+
+// Firestore hands Dates back as Timestamps
+export type FirestoreDate = admin.firestore.Timestamp | Date;
+
+/**
+ * A record as read back from Firestore, with its Date fields possibly still Timestamps
+ */
+export type StoredRecord<T, DateField extends keyof T> = Omit<T, DateField> & {
+  [Field in DateField]: FirestoreDate | Extract<T[Field], undefined>;
+};
+
+export const toDate = (value: FirestoreDate | undefined): Date | undefined =>
+  value instanceof Date || !value ? value : value.toDate();
@@ -5,21 +5,14 @@ import {
   InventorySyncRequest,
   UserRole 
 } from '@pharmarx/shared-types';
+import { verifyAuth, requireRole } from '../middleware/auth';
 
 const router = Router();
 const inventoryService = new InventoryService();
 
-// Middleware to check if user is a pharmacist
-const requirePharmacist = (req: Request, res: Response, next: Function) => {
-  const user = req.user as any;
-  if (!user || user.role !== UserRole.Pharmacist) {
-    return res.status(403).json({
-      success: false,
-      error: 'Access denied. Pharmacist role required.'
-    });
-  }
-  next();
-};
+// Stock is only shown to signed-in users; syncing and configuration are for pharmacists
+router.use(verifyAuth);
+const requirePharmacist = requireRole(UserRole.Pharmacist);
 
 // GET /api/inventory/items - Query inventory items with filters
 router.get('/items', async (req: Request, res: Response) => {
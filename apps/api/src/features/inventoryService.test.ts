@@ -7,6 +7,28 @@ import {
   InventoryItem,
   PharmacyLocation
 } from '@pharmarx/shared-types';
+import databaseService from './database';
+import { InventoryService } from './inventoryService';
+
+const mockAdapterQueryInventory = vi.fn();
+const mockAdapterGetLocations = vi.fn();
+const mockAdapterHealthCheck = vi.fn();
+
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('./pharmacyAdapters/RestApiPharmacyAdapter', () => ({
+  RestApiPharmacyAdapter: class {
+    constructor(private config: PharmacyConfig) {}
+    getConfig = () => this.config;
+    queryInventory = mockAdapterQueryInventory;
+    getLocations = mockAdapterGetLocations;
+    healthCheck = mockAdapterHealthCheck;
+  }
+}));
 
 describe('InventoryService', () => {
   let mockInventoryService: any;
@@ -288,4 +310,142 @@ describe('InventoryService', () => {
       expect(result).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('InventoryService snapshots', () => {
+  const MINUTE = 60 * 1000;
+  let stored: Map<string, any>;
+  let mockSet: any;
+  let service: InventoryService;
+
+  const item = (pharmacyId: string, medicationName: string, isAvailable = true): InventoryItem => ({
+    itemId: `${pharmacyId}-${medicationName}`,
+    pharmacyId,
+    medicationName,
+    dosage: '500mg',
+    form: 'tablet',
+    strength: '500mg',
+    quantity: 100,
+    unit: 'tablets',
+    price: 1500,
+    currency: 'XOF',
+    lastUpdated: new Date(),
+    isAvailable
+  });
+
+  const location = (pharmacyId: string) => ({ pharmacyId, name: pharmacyId, isActive: true }) as PharmacyLocation;
+
+  // Stored the way Firestore hands it back, with Timestamps for dates
+  const storeSnapshot = (pharmacyId: string, items: InventoryItem[], syncedAt: Date) => {
+    stored.set(pharmacyId, {
+      pharmacyId,
+      items: items.map(stockItem => ({ ...stockItem, lastUpdated: { toDate: () => stockItem.lastUpdated } })),
+      locations: [location(pharmacyId)],
+      syncedAt: { toDate: () => syncedAt }
+    });
+  };
+
+  const respondWith = (pharmacyId: string, items: InventoryItem[]) => {
+    mockAdapterQueryInventory.mockResolvedValue({ success: true, data: { items, totalCount: items.length, queryTime: new Date() }, responseTime: 5 });
+    mockAdapterGetLocations.mockResolvedValue({ success: true, data: { locations: [location(pharmacyId)], totalCount: 1 }, responseTime: 5 });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (InventoryService as any).circuitBreakers.clear();
+    (InventoryService as any).refreshes.clear();
+
+    stored = new Map();
+    mockSet = vi.fn(async (data: any) => data);
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: vi.fn(() => ({
+        doc: vi.fn((id: string) => ({ id, set: (data: any) => mockSet(id, data) }))
+      })),
+      getAll: vi.fn(async (...refs: any[]) => refs.map(ref => ({
+        id: ref.id,
+        exists: stored.has(ref.id),
+        data: () => stored.get(ref.id)
+      })))
+    } as any);
+
+    // The default configuration integrates pharmacy-001 (15 minute sync) and pharmacy-002 (20 minutes)
+    service = new InventoryService();
+  });
+
+  it('should answer queries from fresh snapshots without calling the pharmacies', async () => {
+    const syncedAt = new Date(Date.now() - 5 * MINUTE);
+    storeSnapshot('pharmacy-001', [item('pharmacy-001', 'Paracetamol'), item('pharmacy-001', 'Ibuprofen')], syncedAt);
+    storeSnapshot('pharmacy-002', [item('pharmacy-002', 'Paracetamol', false)], new Date());
+
+    const result = await service.queryInventory({ medicationName: 'paracetamol' });
+
+    expect(result.items.map(stockItem => stockItem.itemId)).toEqual(['pharmacy-001-Paracetamol']);
+    expect(result.items[0].lastUpdated).toBeInstanceOf(Date);
+    expect(result.pharmacies).toHaveLength(2);
+    expect(result.dataAsOf).toEqual(syncedAt);
+    expect(result.stalePharmacyIds).toEqual([]);
+    expect(mockAdapterQueryInventory).not.toHaveBeenCalled();
+  });
+
+  it('should fetch and store a snapshot for a pharmacy that has none', async () => {
+    respondWith('pharmacy-001', [item('pharmacy-001', 'Amoxicillin')]);
+
+    const result = await service.queryInventory({ pharmacyIds: ['pharmacy-001'] });
+
+    expect(mockAdapterQueryInventory).toHaveBeenCalledWith({ includeUnavailable: true });
+    expect(mockSet).toHaveBeenCalledWith('pharmacy-001', expect.objectContaining({ pharmacyId: 'pharmacy-001', syncedAt: expect.any(Date) }));
+    expect(result.items).toHaveLength(1);
+  });
+
+  it('should serve a stale snapshot and refresh it once in the background', async () => {
+    storeSnapshot('pharmacy-001', [item('pharmacy-001', 'Paracetamol')], new Date(Date.now() - 30 * MINUTE));
+    respondWith('pharmacy-001', [item('pharmacy-001', 'Paracetamol'), item('pharmacy-001', 'Quinine')]);
+
+    const [first, second] = await Promise.all([
+      service.queryInventory({ pharmacyIds: ['pharmacy-001'] }),
+      service.queryInventory({ pharmacyIds: ['pharmacy-001'] })
+    ]);
+
+    expect(first.items).toHaveLength(1);
+    expect(second.stalePharmacyIds).toEqual(['pharmacy-001']);
+    await vi.waitFor(() => expect(mockSet).toHaveBeenCalledTimes(1));
+    expect(mockAdapterQueryInventory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only sync pharmacies whose snapshot is due unless forced', async () => {
+    storeSnapshot('pharmacy-001', [], new Date(Date.now() - 5 * MINUTE));
+    storeSnapshot('pharmacy-002', [], new Date(Date.now() - 25 * MINUTE));
+    respondWith('pharmacy-002', []);
+
+    const result = await service.syncInventory({});
+
+    expect(result.syncedPharmacies).toEqual(['pharmacy-002']);
+    expect(result.skippedPharmacies).toEqual(['pharmacy-001']);
+
+    const forced = await service.syncInventory({ pharmacyIds: ['pharmacy-001'], forceSync: true });
+    expect(forced.syncedPharmacies).toEqual(['pharmacy-001']);
+  });
+
+  it('should stop calling a failing pharmacy and report its open circuit', async () => {
+    mockAdapterQueryInventory.mockResolvedValue({ success: false, error: 'Request timeout', responseTime: 30000 });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const result = await service.syncInventory({ pharmacyIds: ['pharmacy-001'], forceSync: true });
+      expect(result.failedPharmacies).toEqual(['pharmacy-001']);
+    }
+
+    const skipped = await service.syncInventory({ pharmacyIds: ['pharmacy-001'], forceSync: true });
+    expect(skipped.success).toBe(true);
+    expect(skipped.skippedPharmacies).toEqual(['pharmacy-001']);
+    expect(mockAdapterQueryInventory).toHaveBeenCalledTimes(3);
+
+    mockAdapterHealthCheck.mockResolvedValue({ pharmacyId: 'pharmacy-002', isHealthy: true, lastCheck: new Date(), responseTime: 10 });
+    const health = await service.checkHealth();
+    const status = health.pharmacyStatuses.find(pharmacy => pharmacy.pharmacyId === 'pharmacy-001')!;
+
+    expect(health.overallHealth).toBe(false);
+    expect(status).toMatchObject({ isHealthy: false, circuitState: 'open', consecutiveFailures: 3 });
+    expect(status.errorMessage).toContain('Request timeout');
+    expect(mockAdapterHealthCheck).toHaveBeenCalledTimes(1);
+  });
+});
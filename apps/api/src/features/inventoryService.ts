@@ -3,6 +3,7 @@ import {
   PharmacyLocation, 
   InventoryQueryRequest, 
   InventoryQueryResponse,
+  InventorySnapshot,
   InventorySyncRequest,
   InventorySyncResponse,
   InventoryHealthResponse,
@@ -10,11 +11,53 @@ import {
   PharmacyConfig,
   PharmacyIntegrationType
 } from '@pharmarx/shared-types';
+import databaseService from './database';
+import { StoredRecord, toDate } from './firestoreDates';
 import { InventoryConfigManager } from '../config/inventoryConfig';
-import { BasePharmacyAdapter } from './pharmacyAdapters/BasePharmacyAdapter';
+import { BasePharmacyAdapter, PharmacyApiResponse } from './pharmacyAdapters/BasePharmacyAdapter';
+import { CircuitBreaker, CircuitOpenError } from './pharmacyAdapters/CircuitBreaker';
+import { GraphQLPharmacyAdapter } from './pharmacyAdapters/GraphQLPharmacyAdapter';
 import { RestApiPharmacyAdapter } from './pharmacyAdapters/RestApiPharmacyAdapter';
-
+import { SoapPharmacyAdapter } from './pharmacyAdapters/SoapPharmacyAdapter';
+
+const SNAPSHOT_COLLECTION = 'inventorySnapshots';
+
+type StoredSnapshot = Omit<StoredRecord<InventorySnapshot, 'syncedAt'>, 'items' | 'locations'> & {
+  items?: StoredRecord<InventoryItem, 'lastUpdated' | 'expiryDate'>[];
+  locations?: StoredRecord<PharmacyLocation, 'lastInventorySync'>[];
+};
+
+const mapSnapshotDocument = (data: StoredSnapshot): InventorySnapshot => ({
+  pharmacyId: data.pharmacyId,
+  items: (data.items || []).map(item => ({
+    ...item,
+    lastUpdated: toDate(item.lastUpdated)!,
+    expiryDate: toDate(item.expiryDate)
+  })),
+  locations: (data.locations || []).map(location => ({
+    ...location,
+    lastInventorySync: toDate(location.lastInventorySync)!
+  })),
+  syncedAt: toDate(data.syncedAt)!
+});
+
+const includesText = (value: string | undefined, search: string): boolean =>
+  !!value && value.toLowerCase().includes(search.trim().toLowerCase());
+
+const isFailedResponse = (response: PharmacyApiResponse<unknown>): boolean => !response.success;
+
+/**
+ * Inventory across the integrated pharmacies. Each pharmacy's inventory and locations are
+ * kept as a Firestore snapshot refreshed by syncInventory, so queries never wait on a
+ * partner API once a snapshot exists. A stale snapshot is still served while a refresh
+ * runs in the background.
+ */
 export class InventoryService {
+  // Shared by every instance so the whole process backs off from a failing pharmacy together
+  private static circuitBreakers = new Map<string, CircuitBreaker>();
+  // Refreshes in flight, so concurrent stale reads trigger a single sync per pharmacy
+  private static refreshes = new Map<string, Promise<InventorySnapshot>>();
+
   private configManager: InventoryConfigManager;
   private adapters: Map<string, BasePharmacyAdapter>;
 
@@ -39,7 +82,10 @@ export class InventoryService {
     switch (config.integrationType) {
       case PharmacyIntegrationType.REST_API:
         return new RestApiPharmacyAdapter(config);
-      // Add other adapter types as needed
+      case PharmacyIntegrationType.SOAP_API:
+        return new SoapPharmacyAdapter(config);
+      case PharmacyIntegrationType.GRAPHQL_API:
+        return new GraphQLPharmacyAdapter(config);
       default:
         console.warn(`Unsupported integration type: ${config.integrationType} for pharmacy ${config.pharmacyId}`);
         return null;
@@ -47,38 +93,18 @@ export class InventoryService {
   }
 
   /**
-   * Query inventory across all active pharmacies
+   * Query inventory across all active pharmacies, answered from their snapshots
    */
   async queryInventory(request: InventoryQueryRequest): Promise<InventoryQueryResponse> {
-    const allItems: InventoryItem[] = [];
-    const allPharmacies: PharmacyLocation[] = [];
-    const errors: string[] = [];
-
-    // Query each pharmacy in parallel
-    const queryPromises = Array.from(this.adapters.entries()).map(async ([pharmacyId, adapter]) => {
-      try {
-        const result = await adapter.queryInventory(request);
-        
-        if (result.success && result.data) {
-          allItems.push(...result.data.items);
-          
-          // Get pharmacy locations if not already included
-          const locationResult = await adapter.getLocations();
-          if (locationResult.success && locationResult.data) {
-            allPharmacies.push(...locationResult.data.locations);
-          }
-        } else {
-          errors.push(`Pharmacy ${pharmacyId}: ${result.error}`);
-        }
-      } catch (error) {
-        errors.push(`Pharmacy ${pharmacyId}: ${(error as Error).message}`);
-      }
-    });
+    const targetPharmacies = Array.from(this.adapters.keys()).filter(pharmacyId =>
+      !request.pharmacyIds || request.pharmacyIds.length === 0 || request.pharmacyIds.includes(pharmacyId)
+    );
+    const { snapshots, stalePharmacyIds } = await this.loadSnapshots(targetPharmacies);
 
-    await Promise.all(queryPromises);
-
-    // Filter items based on request criteria
-    let filteredItems = allItems;
+    const allPharmacies = snapshots.flatMap(snapshot => snapshot.locations);
+    let filteredItems = snapshots
+      .flatMap(snapshot => snapshot.items)
+      .filter(item => this.matchesQuery(item, request));
 
     if (request.pharmacyIds && request.pharmacyIds.length > 0) {
       filteredItems = filteredItems.filter(item => 
@@ -110,69 +136,56 @@ export class InventoryService {
       items: filteredItems,
       totalCount: filteredItems.length,
       pharmacies: allPharmacies,
-      queryTime: new Date()
+      queryTime: new Date(),
+      dataAsOf: this.getOldestSyncTime(snapshots),
+      stalePharmacyIds
     };
   }
 
   /**
-   * Get all pharmacy locations
+   * Get all pharmacy locations, from their snapshots
    */
   async getPharmacyLocations(): Promise<PharmacyLocation[]> {
-    const allLocations: PharmacyLocation[] = [];
-    const errors: string[] = [];
-
-    const locationPromises = Array.from(this.adapters.entries()).map(async ([pharmacyId, adapter]) => {
-      try {
-        const result = await adapter.getLocations();
-        
-        if (result.success && result.data) {
-          allLocations.push(...result.data.locations);
-        } else {
-          errors.push(`Pharmacy ${pharmacyId}: ${result.error}`);
-        }
-      } catch (error) {
-        errors.push(`Pharmacy ${pharmacyId}: ${(error as Error).message}`);
-      }
-    });
-
-    await Promise.all(locationPromises);
-
-    if (errors.length > 0) {
-      console.warn('Errors fetching pharmacy locations:', errors);
-    }
-
-    return allLocations;
+    const { snapshots } = await this.loadSnapshots(Array.from(this.adapters.keys()));
+    return snapshots.flatMap(snapshot => snapshot.locations);
   }
 
   /**
-   * Sync inventory for specified pharmacies
+   * Refresh the snapshots of the specified pharmacies. Without forceSync, pharmacies synced
+   * within their syncIntervalMinutes are skipped, as are pharmacies whose circuit is open.
    */
   async syncInventory(request: InventorySyncRequest): Promise<InventorySyncResponse> {
     const syncedPharmacies: string[] = [];
     const failedPharmacies: string[] = [];
+    const skippedPharmacies: string[] = [];
     const errors: string[] = [];
 
     const targetPharmacies = request.pharmacyIds || Array.from(this.adapters.keys());
+    const existing = request.forceSync ? new Map<string, InventorySnapshot>() : await this.getSnapshots(targetPharmacies);
+    const now = new Date();
 
     const syncPromises = targetPharmacies.map(async (pharmacyId) => {
-      const adapter = this.adapters.get(pharmacyId);
-      if (!adapter) {
+      if (!this.adapters.has(pharmacyId)) {
         failedPharmacies.push(pharmacyId);
         errors.push(`Pharmacy ${pharmacyId}: Adapter not found`);
         return;
       }
 
+      const snapshot = existing.get(pharmacyId);
+      if (snapshot && !this.isStale(snapshot, now)) {
+        skippedPharmacies.push(pharmacyId);
+        return;
+      }
+
       try {
-        const result = await adapter.syncInventory();
-        
-        if (result.success) {
-          syncedPharmacies.push(pharmacyId);
+        await this.refreshSnapshot(pharmacyId);
+        syncedPharmacies.push(pharmacyId);
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          skippedPharmacies.push(pharmacyId);
         } else {
           failedPharmacies.push(pharmacyId);
-          errors.push(`Pharmacy ${pharmacyId}: ${result.error}`);
         }
-      } catch (error) {
-        failedPharmacies.push(pharmacyId);
         errors.push(`Pharmacy ${pharmacyId}: ${(error as Error).message}`);
       }
     });
@@ -183,36 +196,58 @@ export class InventoryService {
       success: failedPharmacies.length === 0,
       syncedPharmacies,
       failedPharmacies,
+      skippedPharmacies,
       syncTime: new Date(),
       message: errors.length > 0 ? errors.join('; ') : undefined
     };
   }
 
   /**
-   * Check health status of all pharmacy integrations
+   * Check health status of all pharmacy integrations. Pharmacies with an open circuit are
+   * reported unhealthy without being called.
    */
   async checkHealth(): Promise<InventoryHealthResponse> {
     const pharmacyStatuses: PharmacyHealthStatus[] = [];
     const errors: string[] = [];
+    const snapshots = await this.getSnapshots(Array.from(this.adapters.keys()));
 
     const healthPromises = Array.from(this.adapters.entries()).map(async ([pharmacyId, adapter]) => {
-      try {
-        const status = await adapter.healthCheck();
-        pharmacyStatuses.push(status);
-        
-        if (!status.isHealthy) {
-          errors.push(`Pharmacy ${pharmacyId}: ${status.errorMessage}`);
-        }
-      } catch (error) {
-        const errorStatus: PharmacyHealthStatus = {
+      const breaker = this.getCircuitBreaker(pharmacyId);
+      const circuitState = breaker.getState();
+      let status: PharmacyHealthStatus;
+
+      if (circuitState === 'open') {
+        status = {
           pharmacyId,
           isHealthy: false,
           lastCheck: new Date(),
           responseTime: 0,
-          errorMessage: (error as Error).message
+          errorMessage: `Not called after ${breaker.getConsecutiveFailures()} consecutive failures` +
+            `${breaker.getLastError() ? ` (${breaker.getLastError()})` : ''}; retrying after ${breaker.getRetryAt()!.toISOString()}`
         };
-        pharmacyStatuses.push(errorStatus);
-        errors.push(`Pharmacy ${pharmacyId}: ${(error as Error).message}`);
+      } else {
+        try {
+          status = await adapter.healthCheck();
+        } catch (error) {
+          status = {
+            pharmacyId,
+            isHealthy: false,
+            lastCheck: new Date(),
+            responseTime: 0,
+            errorMessage: (error as Error).message
+          };
+        }
+      }
+
+      pharmacyStatuses.push({
+        ...status,
+        circuitState,
+        consecutiveFailures: breaker.getConsecutiveFailures(),
+        lastSyncAt: snapshots.get(pharmacyId)?.syncedAt
+      });
+
+      if (!status.isHealthy) {
+        errors.push(`Pharmacy ${pharmacyId}: ${status.errorMessage}`);
       }
     });
 
@@ -259,8 +294,9 @@ export class InventoryService {
 
     this.configManager.addPharmacyConfig(config);
     
-    // Update or create adapter
+    // Update or create adapter; the new settings get a fresh circuit
     const adapter = this.createAdapter(config);
+    InventoryService.circuitBreakers.delete(config.pharmacyId);
     if (adapter) {
       this.adapters.set(config.pharmacyId, adapter);
       return true;
@@ -274,9 +310,148 @@ export class InventoryService {
    */
   removePharmacyConfig(pharmacyId: string): boolean {
     this.adapters.delete(pharmacyId);
+    InventoryService.circuitBreakers.delete(pharmacyId);
     return this.configManager.removePharmacyConfig(pharmacyId);
   }
 
+  /**
+   * Snapshots for the pharmacies, fetching any that are missing. Stale snapshots are
+   * returned as they are and refreshed in the background.
+   */
+  private async loadSnapshots(pharmacyIds: string[]): Promise<{ snapshots: InventorySnapshot[]; stalePharmacyIds: string[] }> {
+    const stored = await this.getSnapshots(pharmacyIds);
+    const now = new Date();
+    const stalePharmacyIds: string[] = [];
+
+    const snapshots = await Promise.all(pharmacyIds.map(async (pharmacyId) => {
+      const snapshot = stored.get(pharmacyId);
+
+      if (!snapshot) {
+        // Nothing to serve yet, so this one request waits on the pharmacy
+        try {
+          return await this.refreshSnapshot(pharmacyId);
+        } catch (error) {
+          console.warn(`Pharmacy ${pharmacyId}: ${(error as Error).message}`);
+          stalePharmacyIds.push(pharmacyId);
+          return null;
+        }
+      }
+
+      if (this.isStale(snapshot, now)) {
+        stalePharmacyIds.push(pharmacyId);
+        this.refreshSnapshot(pharmacyId).catch(error =>
+          console.warn(`Background refresh of pharmacy ${pharmacyId} failed: ${(error as Error).message}`)
+        );
+      }
+      return snapshot;
+    }));
+
+    return {
+      snapshots: snapshots.filter((snapshot): snapshot is InventorySnapshot => snapshot !== null),
+      stalePharmacyIds
+    };
+  }
+
+  private async getSnapshots(pharmacyIds: string[]): Promise<Map<string, InventorySnapshot>> {
+    const snapshots = new Map<string, InventorySnapshot>();
+    if (pharmacyIds.length === 0) {
+      return snapshots;
+    }
+
+    const collection = databaseService.getDb().collection(SNAPSHOT_COLLECTION);
+    const docs = await databaseService.getDb().getAll(...pharmacyIds.map(pharmacyId => collection.doc(pharmacyId)));
+    docs
+      .filter(doc => doc.exists)
+      .forEach(doc => snapshots.set(doc.id, mapSnapshotDocument(doc.data() as StoredSnapshot)));
+
+    return snapshots;
+  }
+
+  private refreshSnapshot(pharmacyId: string): Promise<InventorySnapshot> {
+    const inFlight = InventoryService.refreshes.get(pharmacyId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const refresh = this.fetchSnapshot(pharmacyId)
+      .finally(() => InventoryService.refreshes.delete(pharmacyId));
+    InventoryService.refreshes.set(pharmacyId, refresh);
+    return refresh;
+  }
+
+  /**
+   * Pull the pharmacy's full inventory and its locations through its circuit breaker and
+   * store them as its snapshot
+   */
+  private async fetchSnapshot(pharmacyId: string): Promise<InventorySnapshot> {
+    const adapter = this.adapters.get(pharmacyId);
+    if (!adapter) {
+      throw new Error('Adapter not found');
+    }
+
+    const breaker = this.getCircuitBreaker(pharmacyId);
+    const inventory = await breaker.execute(() => adapter.queryInventory({ includeUnavailable: true }), isFailedResponse);
+    if (!inventory.success || !inventory.data) {
+      throw new Error(inventory.error || 'Failed to fetch inventory');
+    }
+
+    const locations = await breaker.execute(() => adapter.getLocations(), isFailedResponse);
+    if (!locations.success || !locations.data) {
+      throw new Error(locations.error || 'Failed to fetch locations');
+    }
+
+    const snapshot: InventorySnapshot = {
+      pharmacyId,
+      items: inventory.data.items,
+      locations: locations.data.locations,
+      syncedAt: new Date()
+    };
+    await databaseService.getDb().collection(SNAPSHOT_COLLECTION).doc(pharmacyId).set(snapshot);
+
+    return snapshot;
+  }
+
+  private getCircuitBreaker(pharmacyId: string): CircuitBreaker {
+    let breaker = InventoryService.circuitBreakers.get(pharmacyId);
+    if (!breaker) {
+      const config = this.configManager.getConfig();
+      breaker = new CircuitBreaker(pharmacyId, {
+        failureThreshold: config.circuitBreakerFailureThreshold,
+        resetTimeoutMs: config.circuitBreakerResetMinutes * 60 * 1000
+      });
+      InventoryService.circuitBreakers.set(pharmacyId, breaker);
+    }
+    return breaker;
+  }
+
+  private isStale(snapshot: InventorySnapshot, now: Date): boolean {
+    const syncIntervalMinutes = this.adapters.get(snapshot.pharmacyId)?.getConfig().syncIntervalMinutes
+      ?? this.configManager.getConfig().defaultSyncIntervalMinutes;
+    return now.getTime() - snapshot.syncedAt.getTime() >= syncIntervalMinutes * 60 * 1000;
+  }
+
+  private getOldestSyncTime(snapshots: InventorySnapshot[]): Date | undefined {
+    return snapshots.reduce<Date | undefined>(
+      (oldest, snapshot) => (!oldest || snapshot.syncedAt < oldest ? snapshot.syncedAt : oldest),
+      undefined
+    );
+  }
+
+  private matchesQuery(item: InventoryItem, request: InventoryQueryRequest): boolean {
+    if (request.medicationName &&
+      !includesText(item.medicationName, request.medicationName) &&
+      !includesText(item.genericName, request.medicationName)) {
+      return false;
+    }
+    if (request.genericName && !includesText(item.genericName, request.genericName)) {
+      return false;
+    }
+    if (request.dosage && !includesText(item.dosage, request.dosage)) {
+      return false;
+    }
+    return !request.form || item.form === request.form.toLowerCase();
+  }
+
   /**
    * Calculate distance between two points using Haversine formula
    */
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import databaseService from './database';
+import { JobQueueService, JobNotReplayableError, calculateRetryDelay } from './jobQueueService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('firebase-admin', () => ({
+  default: {}
+}));
+
+describe('JobQueueService', () => {
+  let queue: JobQueueService;
+  let storedJobs: Map<string, any>;
+  let mockQuery: any;
+  let nextId: number;
+
+  const jobRef = (id: string) => ({
+    id,
+    get: vi.fn(async () => ({ exists: storedJobs.has(id), data: () => storedJobs.get(id) })),
+    create: vi.fn(async (data: any) => {
+      if (storedJobs.has(id)) {
+        throw Object.assign(new Error('Document already exists'), { code: 6 });
+      }
+      storedJobs.set(id, { ...data });
+    }),
+    update: vi.fn(async (updates: any) => {
+      storedJobs.set(id, { ...storedJobs.get(id), ...updates });
+    })
+  });
+
+  const storeJob = (jobId: string, overrides: Record<string, unknown> = {}) => {
+    storedJobs.set(jobId, {
+      jobId,
+      type: 'send_message',
+      payload: { channel: 'sms', recipientPhone: '+22997000000', message: 'Hello' },
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: 3,
+      runAt: new Date('2025-03-01T09:59:00Z'),
+      createdAt: new Date('2025-03-01T09:59:00Z'),
+      updatedAt: new Date('2025-03-01T09:59:00Z'),
+      ...overrides
+    });
+  };
+
+  const now = new Date('2025-03-01T10:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storedJobs = new Map();
+    nextId = 0;
+
+    // Queries hand back every stored job; the service re-checks each one when claiming it
+    mockQuery = {
+      where: vi.fn(() => mockQuery),
+      orderBy: vi.fn(() => mockQuery),
+      limit: vi.fn(() => mockQuery),
+      get: vi.fn(async () => ({
+        docs: Array.from(storedJobs.entries()).map(([id, data]) => ({ id, data: () => data }))
+      }))
+    };
+
+    const mockCollection = {
+      ...mockQuery,
+      doc: vi.fn((id?: string) => jobRef(id || `generated-${++nextId}`))
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: vi.fn(() => mockCollection),
+      runTransaction: vi.fn(async (run: (transaction: any) => Promise<unknown>) => run({
+        get: (ref: any) => ref.get(),
+        update: (ref: any, updates: any) => ref.update(updates)
+      }))
+    } as any);
+
+    queue = new JobQueueService();
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('stores a pending job that is due now', async () => {
+      const jobId = await queue.enqueue('generate_receipt', { paymentId: 'pay-1' });
+
+      expect(jobId).toBe('generated-1');
+      expect(storedJobs.get('generated-1')).toMatchObject({
+        jobId: 'generated-1',
+        type: 'generate_receipt',
+        payload: { paymentId: 'pay-1' },
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: 5
+      });
+    });
+
+    it('does nothing when a job with the same id exists', async () => {
+      storeJob('receipt-pay-1', { status: 'succeeded' });
+
+      const jobId = await queue.enqueue('generate_receipt', { paymentId: 'pay-1' }, { jobId: 'receipt-pay-1' });
+
+      expect(jobId).toBe('receipt-pay-1');
+      expect(storedJobs.get('receipt-pay-1').status).toBe('succeeded');
+    });
+  });
+
+  describe('runDueJobs', () => {
+    it('runs the handler and marks the job succeeded', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      queue.registerHandler('send_message', handler);
+      storeJob('job-1');
+
+      const ran = await queue.runDueJobs(10, now);
+
+      expect(ran).toBe(1);
+      expect(handler).toHaveBeenCalledWith(
+        { channel: 'sms', recipientPhone: '+22997000000', message: 'Hello' },
+        expect.objectContaining({ jobId: 'job-1', attempts: 1, status: 'running' })
+      );
+      expect(storedJobs.get('job-1')).toMatchObject({ status: 'succeeded', attempts: 1 });
+      expect(storedJobs.get('job-1').completedAt).toBeInstanceOf(Date);
+    });
+
+    it('backs off exponentially after a failure', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      queue.registerHandler('send_message', vi.fn().mockRejectedValue(new Error('SMS gateway timeout')));
+      storeJob('job-1', { attempts: 1 });
+
+      const before = Date.now();
+      await queue.runDueJobs(10, now);
+
+      const job = storedJobs.get('job-1');
+      expect(job).toMatchObject({ status: 'pending', attempts: 2, lastError: 'SMS gateway timeout' });
+      expect(job.runAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+    });
+
+    it('dead-letters the job when it runs out of attempts', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      queue.registerHandler('send_message', vi.fn().mockRejectedValue(new Error('Invalid phone number')));
+      storeJob('job-1', { attempts: 2 });
+
+      await queue.runDueJobs(10, now);
+
+      expect(storedJobs.get('job-1')).toMatchObject({ status: 'dead', attempts: 3, lastError: 'Invalid phone number' });
+    });
+
+    it('fails jobs that have no handler', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      storeJob('job-1', { type: 'inventory_sync' });
+
+      await queue.runDueJobs(10, now);
+
+      expect(storedJobs.get('job-1')).toMatchObject({
+        status: 'pending',
+        lastError: 'No handler registered for inventory_sync jobs'
+      });
+    });
+
+    it('leaves jobs that are not due, finished or leased to another worker', async () => {
+      const handler = vi.fn();
+      queue.registerHandler('send_message', handler);
+      storeJob('later', { runAt: new Date('2025-03-01T10:05:00Z') });
+      storeJob('done', { status: 'succeeded' });
+      storeJob('leased', { status: 'running', attempts: 1, runAt: new Date('2025-03-01T10:09:00Z') });
+
+      const ran = await queue.runDueJobs(10, now);
+
+      expect(ran).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('takes over a job whose worker stopped before its lease ran out', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      queue.registerHandler('send_message', handler);
+      storeJob('stale', { status: 'running', attempts: 1, runAt: new Date('2025-03-01T09:50:00Z') });
+
+      await queue.runDueJobs(10, now);
+
+      expect(handler).toHaveBeenCalled();
+      expect(storedJobs.get('stale')).toMatchObject({ status: 'succeeded', attempts: 2 });
+    });
+
+    it('dead-letters a stale job that was on its last attempt', async () => {
+      const handler = vi.fn();
+      queue.registerHandler('send_message', handler);
+      storeJob('stale', { status: 'running', attempts: 3, runAt: new Date('2025-03-01T09:50:00Z') });
+
+      await queue.runDueJobs(10, now);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(storedJobs.get('stale')).toMatchObject({
+        status: 'dead',
+        lastError: 'Worker stopped before the job finished'
+      });
+    });
+  });
+
+  describe('enqueueScheduledJobs', () => {
+    it('enqueues one job per interval', async () => {
+      queue.schedule('expire_payment_links', 60 * 60 * 1000);
+
+      await queue.enqueueScheduledJobs(new Date('2025-03-01T10:20:00Z'));
+      await queue.enqueueScheduledJobs(new Date('2025-03-01T10:40:00Z'));
+      await queue.enqueueScheduledJobs(new Date('2025-03-01T11:05:00Z'));
+
+      expect(Array.from(storedJobs.keys())).toEqual([
+        `expire_payment_links-${Date.parse('2025-03-01T10:00:00Z')}`,
+        `expire_payment_links-${Date.parse('2025-03-01T11:00:00Z')}`
+      ]);
+    });
+  });
+
+  describe('replayJob', () => {
+    it('puts a dead job back in the queue with fresh attempts', async () => {
+      storeJob('job-1', { status: 'dead', attempts: 3, lastError: 'Invalid phone number' });
+
+      const job = await queue.replayJob('job-1');
+
+      expect(job).toMatchObject({ status: 'pending', attempts: 0, lastError: 'Invalid phone number' });
+      expect(storedJobs.get('job-1')).toMatchObject({ status: 'pending', attempts: 0 });
+      expect(storedJobs.get('job-1').replayedAt).toBeInstanceOf(Date);
+    });
+
+    it('refuses to replay a job that is not dead', async () => {
+      storeJob('job-1', { status: 'pending' });
+
+      await expect(queue.replayJob('job-1')).rejects.toThrow(JobNotReplayableError);
+    });
+
+    it('returns null for an unknown job', async () => {
+      expect(await queue.replayJob('missing')).toBeNull();
+    });
+  });
+
+  it('caps the retry delay at an hour', () => {
+    expect(calculateRetryDelay(1)).toBe(30 * 1000);
+    expect(calculateRetryDelay(3)).toBe(2 * 60 * 1000);
+    expect(calculateRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,322 @@
+import databaseService from './database';
+import { BackgroundJob, BackgroundJobStatus, BackgroundJobType } from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { StoredRecord, toDate } from './firestoreDates';
+
+/**
+ * Runs one job. Throwing schedules a retry, or dead-letters the job once it is out of attempts.
+ */
+export type JobHandler = (payload: Record<string, any>, job: BackgroundJob) => Promise<void>;
+
+export interface EnqueueOptions {
+  jobId?: string; // Enqueueing an id that already exists does nothing
+  runAt?: Date; // Defaults to now
+  maxAttempts?: number;
+}
+
+export interface ListJobsFilters {
+  status?: BackgroundJobStatus;
+  type?: BackgroundJobType;
+  limit?: number;
+}
+
+interface RecurringJob {
+  type: BackgroundJobType;
+  intervalMs: number;
+  payload: Record<string, any>;
+}
+
+/**
+ * Raised when replaying a job that has not been dead-lettered.
+ * Routes translate this into a 409 Conflict.
+ */
+export class JobNotReplayableError extends Error {
+  constructor(public readonly jobId: string, public readonly status: BackgroundJobStatus) {
+    super(`Job ${jobId} is ${status}; only dead jobs can be replayed`);
+    this.name = 'JobNotReplayableError';
+  }
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Long enough for an OCR run working through its own retries and engine failover
+const LEASE_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000;
+const JOBS_PER_POLL = 10;
+const MAX_LIST_LIMIT = 100;
+// gRPC ALREADY_EXISTS, returned by create() for a taken document id
+const ALREADY_EXISTS = 6;
+
+type StoredJob = StoredRecord<BackgroundJob, 'runAt' | 'completedAt' | 'replayedAt' | 'createdAt' | 'updatedAt'>;
+
+const mapJobDocument = (data: StoredJob): BackgroundJob => ({
+  ...data,
+  runAt: toDate(data.runAt)!,
+  completedAt: toDate(data.completedAt),
+  replayedAt: toDate(data.replayedAt),
+  createdAt: toDate(data.createdAt)!,
+  updatedAt: toDate(data.updatedAt)!
+});
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m... capped at an hour
+ */
+export const calculateRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Firestore-backed queue for work that must survive a restart. Jobs are claimed in a
+ * transaction with a lease, so several API instances can poll the same collection and a
+ * job left behind by a crashed worker is picked up again once its lease runs out.
+ */
+export class JobQueueService {
+  private handlers = new Map<BackgroundJobType, JobHandler>();
+  private recurringJobs: RecurringJob[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  registerHandler(type: BackgroundJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Run a job every `intervalMs`. Each interval gets one job, named after the type and the
+   * start of the interval, so instances polling together do not enqueue it twice.
+   */
+  schedule(type: BackgroundJobType, intervalMs: number, payload: Record<string, any> = {}): void {
+    this.recurringJobs.push({ type, intervalMs, payload });
+  }
+
+  /**
+   * Store a job for the worker to pick up. Returns the job id.
+   */
+  async enqueue(type: BackgroundJobType, payload: Record<string, any> = {}, options: EnqueueOptions = {}): Promise<string> {
+    const collection = databaseService.getDb().collection('jobs');
+    const jobRef = options.jobId ? collection.doc(options.jobId) : collection.doc();
+    const now = new Date();
+
+    const job: BackgroundJob = {
+      jobId: jobRef.id,
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt || now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      await jobRef.create(job);
+    } catch (error) {
+      if ((error as { code?: number })?.code !== ALREADY_EXISTS) {
+        throw error;
+      }
+    }
+
+    return jobRef.id;
+  }
+
+  /**
+   * Enqueue the current interval's job for every schedule
+   */
+  async enqueueScheduledJobs(now: Date = new Date()): Promise<void> {
+    for (const recurring of this.recurringJobs) {
+      const slotStart = Math.floor(now.getTime() / recurring.intervalMs) * recurring.intervalMs;
+      await this.enqueue(recurring.type, recurring.payload, {
+        jobId: `${recurring.type}-${slotStart}`,
+        runAt: new Date(slotStart)
+      });
+    }
+  }
+
+  /**
+   * Claim and run the jobs that are due, one after another. Returns how many were run.
+   */
+  async runDueJobs(limit: number = JOBS_PER_POLL, now: Date = new Date()): Promise<number> {
+    const snapshot = await databaseService.getDb().collection('jobs')
+      .where('status', 'in', ['pending', 'running'])
+      .where('runAt', '<=', now)
+      .orderBy('runAt')
+      .limit(limit)
+      .get();
+
+    let ran = 0;
+    for (const doc of snapshot.docs) {
+      const job = await this.claimJob(doc.id, now);
+      if (job) {
+        await this.runJob(job);
+        ran++;
+      }
+    }
+    return ran;
+  }
+
+  /**
+   * Poll for due jobs every `pollIntervalMs` until stopped
+   */
+  start(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.poll();
+    }, pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Jobs for the admin view, newest first
+   */
+  async listJobs(filters: ListJobsFilters = {}): Promise<BackgroundJob[]> {
+    let query: admin.firestore.Query = databaseService.getDb().collection('jobs');
+    if (filters.status) {
+      query = query.where('status', '==', filters.status);
+    }
+    if (filters.type) {
+      query = query.where('type', '==', filters.type);
+    }
+
+    const snapshot = await query
+      .orderBy('createdAt', 'desc')
+      .limit(Math.min(filters.limit || 50, MAX_LIST_LIMIT))
+      .get();
+
+    return snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => mapJobDocument(doc.data() as StoredJob));
+  }
+
+  async getJob(jobId: string): Promise<BackgroundJob | null> {
+    const jobDoc = await databaseService.getDb().collection('jobs').doc(jobId).get();
+    return jobDoc.exists ? mapJobDocument(jobDoc.data() as StoredJob) : null;
+  }
+
+  /**
+   * Put a dead job back in the queue with a fresh set of attempts.
+   * Returns null when the job does not exist.
+   */
+  async replayJob(jobId: string): Promise<BackgroundJob | null> {
+    const db = databaseService.getDb();
+    const jobRef = db.collection('jobs').doc(jobId);
+
+    return db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const jobDoc = await transaction.get(jobRef);
+      if (!jobDoc.exists) {
+        return null;
+      }
+
+      const job = mapJobDocument(jobDoc.data() as StoredJob);
+      if (job.status !== 'dead') {
+        throw new JobNotReplayableError(jobId, job.status);
+      }
+
+      const now = new Date();
+      const updates = { status: 'pending' as const, attempts: 0, runAt: now, replayedAt: now, updatedAt: now };
+      transaction.update(jobRef, updates);
+      return { ...job, ...updates };
+    });
+  }
+
+  /**
+   * Take a due job for this worker. Returns null when another worker got there first.
+   * A running job whose lease ran out on its last attempt is dead-lettered instead.
+   */
+  private async claimJob(jobId: string, now: Date): Promise<BackgroundJob | null> {
+    const db = databaseService.getDb();
+    const jobRef = db.collection('jobs').doc(jobId);
+
+    return db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const jobDoc = await transaction.get(jobRef);
+      if (!jobDoc.exists) {
+        return null;
+      }
+
+      const job = mapJobDocument(jobDoc.data() as StoredJob);
+      if (!['pending', 'running'].includes(job.status) || job.runAt > now) {
+        return null;
+      }
+
+      if (job.status === 'running' && job.attempts >= job.maxAttempts) {
+        transaction.update(jobRef, {
+          status: 'dead',
+          lastError: job.lastError || 'Worker stopped before the job finished',
+          updatedAt: now
+        });
+        return null;
+      }
+
+      const updates = {
+        status: 'running' as const,
+        attempts: job.attempts + 1,
+        runAt: new Date(now.getTime() + LEASE_MS),
+        updatedAt: now
+      };
+      transaction.update(jobRef, updates);
+      return { ...job, ...updates };
+    });
+  }
+
+  /**
+   * Run a claimed job and record how it went
+   */
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const jobRef = databaseService.getDb().collection('jobs').doc(job.jobId);
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      }
+
+      await handler(job.payload, job);
+
+      const completedAt = new Date();
+      await jobRef.update({ status: 'succeeded', completedAt, updatedAt: completedAt });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const now = new Date();
+
+      if (job.attempts >= job.maxAttempts) {
+        console.error(`Job ${job.jobId} (${job.type}) failed after ${job.attempts} attempts:`, lastError);
+        await jobRef.update({ status: 'dead', lastError, updatedAt: now });
+      } else {
+        console.warn(`Job ${job.jobId} (${job.type}) failed on attempt ${job.attempts}, retrying:`, lastError);
+        await jobRef.update({
+          status: 'pending',
+          lastError,
+          runAt: new Date(now.getTime() + calculateRetryDelay(job.attempts)),
+          updatedAt: now
+        });
+      }
+    }
+  }
+
+  /**
+   * One tick of the worker. Skipped while the previous tick is still running.
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.enqueueScheduledJobs();
+      await this.runDueJobs();
+    } catch (error) {
+      console.error('Failed to run background jobs:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService();
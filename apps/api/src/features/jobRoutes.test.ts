@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import jobRoutes from './jobRoutes';
+import { clearUserCache } from '../middleware/auth';
+import { jobQueueService, JobNotReplayableError } from './jobQueueService';
+
+const { mockVerifyIdToken, mockUserGet } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn(),
+  mockUserGet: vi.fn()
+}));
+
+// Mock the job queue
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    listJobs: vi.fn(),
+    getJob: vi.fn(),
+    replayJob: vi.fn()
+  },
+  JobNotReplayableError: class JobNotReplayableError extends Error {
+    constructor(public readonly jobId: string, public readonly status: string) {
+      super(`Job ${jobId} is ${status}; only dead jobs can be replayed`);
+    }
+  }
+}));
+
+// Mock Firebase Admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: () => ({
+        doc: () => ({ get: mockUserGet })
+      })
+    })
+  }
+}));
+
+describe('Job Routes', () => {
+  let app: express.Application;
+
+  const deadJob = {
+    jobId: 'job-1',
+    type: 'send_message',
+    payload: { channel: 'sms', recipientPhone: '+22997000000', message: 'Your delivery is approaching' },
+    status: 'dead',
+    attempts: 5,
+    maxAttempts: 5,
+    lastError: 'SMS service not configured'
+  };
+
+  beforeEach(() => {
+    clearUserCache();
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin/jobs', jobRoutes);
+
+    mockVerifyIdToken.mockResolvedValue({ uid: 'admin-1' });
+    mockUserGet.mockResolvedValue({
+      exists: true,
+      data: () => ({ role: UserRole.Admin })
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should return 401 without an authorization header', async () => {
+      await request(app)
+        .get('/api/admin/jobs')
+        .expect(401);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      mockUserGet.mockResolvedValue({
+        exists: true,
+        data: () => ({ role: UserRole.Pharmacist })
+      });
+
+      const response = await request(app)
+        .get('/api/admin/jobs')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('Admin role required');
+      expect(jobQueueService.listJobs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/admin/jobs', () => {
+    it('should list jobs with the given filters', async () => {
+      vi.mocked(jobQueueService.listJobs).mockResolvedValue([deadJob] as any);
+
+      const response = await request(app)
+        .get('/api/admin/jobs?status=dead&type=send_message&limit=20')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(jobQueueService.listJobs).toHaveBeenCalledWith({ status: 'dead', type: 'send_message', limit: 20 });
+    });
+
+    it('should reject an unknown status', async () => {
+      const response = await request(app)
+        .get('/api/admin/jobs?status=failed')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+
+      expect(response.body.error).toBe('Status must be one of: pending, running, succeeded, dead');
+    });
+
+    it('should reject an unknown type', async () => {
+      await request(app)
+        .get('/api/admin/jobs?type=email')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/admin/jobs/:jobId', () => {
+    it('should return the job', async () => {
+      vi.mocked(jobQueueService.getJob).mockResolvedValue(deadJob as any);
+
+      const response = await request(app)
+        .get('/api/admin/jobs/job-1')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data.lastError).toBe('SMS service not configured');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      vi.mocked(jobQueueService.getJob).mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/admin/jobs/missing')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/admin/jobs/:jobId/replay', () => {
+    it('should queue a dead job again', async () => {
+      vi.mocked(jobQueueService.replayJob).mockResolvedValue({ ...deadJob, status: 'pending', attempts: 0 } as any);
+
+      const response = await request(app)
+        .post('/api/admin/jobs/job-1/replay')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(jobQueueService.replayJob).toHaveBeenCalledWith('job-1');
+      expect(response.body.data.status).toBe('pending');
+      expect(response.body.message).toBe('Job queued for replay');
+    });
+
+    it('should return 409 for a job that has not failed', async () => {
+      vi.mocked(jobQueueService.replayJob).mockRejectedValue(new JobNotReplayableError('job-1', 'succeeded'));
+
+      const response = await request(app)
+        .post('/api/admin/jobs/job-1/replay')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(409);
+
+      expect(response.body.error).toBe('Job job-1 is succeeded; only dead jobs can be replayed');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      vi.mocked(jobQueueService.replayJob).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/admin/jobs/missing/replay')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+    });
+  });
+});
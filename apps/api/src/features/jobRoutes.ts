@@ -0,0 +1,130 @@
+import { Request, Response, Router } from 'express';
+import {
+  ApiResponse,
+  BackgroundJob,
+  BackgroundJobStatus,
+  BackgroundJobType,
+  UserRole
+} from '@pharmarx/shared-types';
+import { jobQueueService, JobNotReplayableError } from './jobQueueService';
+import { verifyAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+const JOB_STATUSES: BackgroundJobStatus[] = ['pending', 'running', 'succeeded', 'dead'];
+const JOB_TYPES: BackgroundJobType[] = [
+  'ocr',
+  'send_message',
+  'generate_receipt',
+  'inventory_sync',
+  'expire_payment_links',
+  'refresh_refunds',
+  'expire_payments'
+];
+
+// Apply admin role verification to all routes
+router.use(verifyAuth, requireRole(UserRole.Admin));
+
+/**
+ * GET /admin/jobs - Background jobs, newest first. Filter with ?status=dead&type=ocr&limit=20
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { status, type, limit } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as BackgroundJobStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${JOB_STATUSES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    if (type !== undefined && !JOB_TYPES.includes(type as BackgroundJobType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Type must be one of: ${JOB_TYPES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const jobs = await jobQueueService.listJobs({
+      status: status as BackgroundJobStatus | undefined,
+      type: type as BackgroundJobType | undefined,
+      limit: parseInt(limit as string) || undefined
+    });
+
+    res.json({
+      success: true,
+      data: jobs
+    } as ApiResponse<BackgroundJob[]>);
+  } catch (error) {
+    console.error('Error fetching background jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching jobs'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /admin/jobs/:jobId - One job, with its last error
+ */
+router.get('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueueService.getJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: job
+    } as ApiResponse<BackgroundJob>);
+  } catch (error) {
+    console.error('Error fetching background job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching job'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /admin/jobs/:jobId/replay - Queue a dead job again with a fresh set of attempts
+ */
+router.post('/:jobId/replay', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueueService.replayJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job queued for replay'
+    } as ApiResponse<BackgroundJob>);
+  } catch (error) {
+    if (error instanceof JobNotReplayableError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error replaying background job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while replaying job'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
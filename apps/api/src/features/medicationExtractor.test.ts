@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { MedicationExtractor } from './medicationExtractor';
+
+describe('MedicationExtractor', () => {
+  const extractor = new MedicationExtractor();
+
+  it('should parse a French prescription with several medications', () => {
+    const text = [
+      'Clinique Les Cocotiers - Cotonou',
+      'Dr Kossi AGBO',
+      'Cotonou, le 12 mars 2025',
+      'Patient : Zoé Adjovi',
+      '1. Amoxicilline 500 mg gélules',
+      '1 gélule 3 fois par jour pendant 7 jours',
+      '2. Paracétamol 1g',
+      '1-0-1, 2 boîtes',
+      'Signature'
+    ].join('\n');
+
+    const medications = extractor.extract(text);
+
+    expect(medications).toHaveLength(2);
+    expect(medications[0]).toMatchObject({
+      name: 'Amoxicillin',
+      dosage: '500mg',
+      quantity: 21,
+      frequency: '3 fois par jour',
+      prescriber: 'Dr Kossi AGBO',
+      inDictionary: true
+    });
+    expect(medications[0].prescribedDate?.toISOString()).toBe('2025-03-12T00:00:00.000Z');
+    expect(medications[1]).toMatchObject({
+      name: 'Paracetamol',
+      dosage: '1g',
+      quantity: 2,
+      frequency: '1-0-1'
+    });
+  });
+
+  it('should parse English conventions and month-first dates', () => {
+    const text = [
+      'Dr. Sarah Smith',
+      'Date: 03/25/2025',
+      'Metformin 850mg tablets',
+      'Take one tablet bid',
+      'Qty: 60'
+    ].join('\n');
+
+    const [medication] = extractor.extract(text);
+
+    expect(medication).toMatchObject({
+      name: 'Metformin',
+      dosage: '850mg',
+      quantity: 60,
+      frequency: 'bid',
+      prescriber: 'Dr Sarah Smith'
+    });
+    expect(medication.prescribedDate?.toISOString()).toBe('2025-03-25T00:00:00.000Z');
+  });
+
+  it('should read ambiguous numeric dates day-first with lower confidence', () => {
+    const [medication] = extractor.extract('Le 04/05/2025\nIbuprofène 400mg x 20');
+
+    expect(medication.prescribedDate?.toISOString()).toBe('2025-05-04T00:00:00.000Z');
+    expect(medication.quantity).toBe(20);
+    expect(medication.fieldConfidence.prescribedDate).toBeLessThan(0.8);
+  });
+
+  it('should tolerate OCR misreads of dictionary names', () => {
+    const [medication] = extractor.extract('Metronidazo1e 250 mg, 2 fois/jour');
+
+    expect(medication.name).toBe('Metronidazole');
+    expect(medication.inDictionary).toBe(true);
+    expect(medication.fieldConfidence.name).toBeLessThan(1);
+    expect(medication.frequency).toBe('2 fois/jour');
+  });
+
+  it('should keep numbered lines with a dosage even when the name is unknown', () => {
+    const [medication] = extractor.extract('1) Zyrtecine 10 mg le soir');
+
+    expect(medication).toMatchObject({
+      name: 'Zyrtecine',
+      dosage: '10mg',
+      inDictionary: false,
+      frequency: 'le soir'
+    });
+    expect(medication.fieldConfidence.name).toBe(0.5);
+  });
+
+  it('should scale field confidence by OCR confidence and omit fields it could not find', () => {
+    const [medication] = extractor.extract('Amlodipine 5mg', 0.8);
+
+    expect(medication.fieldConfidence).toEqual({ name: 0.8, dosage: 0.8 });
+    expect(medication.quantity).toBe(0);
+    expect(medication.frequency).toBeUndefined();
+  });
+
+  it('should return no candidates for text without medications', () => {
+    expect(extractor.extract('Clinique Les Cocotiers\nTel: 229 21 30 00 00')).toEqual([]);
+    expect(extractor.extract('')).toEqual([]);
+  });
+});
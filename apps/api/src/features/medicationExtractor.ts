@@ -0,0 +1,352 @@
+import { ExtractedMedication, ExtractedMedicationField } from '@pharmarx/shared-types';
+import { DRUG_DICTIONARY, DrugDictionaryEntry } from './drugDictionary';
+
+interface DrugMatch {
+  entry: DrugDictionaryEntry;
+  score: number;
+}
+
+interface MedicationBlock {
+  match: DrugMatch | null;
+  fallbackName?: string;
+  lines: string[];
+}
+
+interface FieldValue<T> {
+  value: T;
+  score: number;
+}
+
+const FRENCH_MONTHS = ['janvier', 'fevrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'aout', 'septembre', 'octobre', 'novembre', 'decembre'];
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DOSE_FORMS = 'comprimes?|cps?|gelules?|capsules?|caps?|tablets?|tabs?|sachets?|ampoules?|suppositoires?|cuilleres?|spoons?';
+const PACKAGING = 'boites?|flacons?|tubes?|plaquettes?|boxes|box|bottles?|packs?';
+const WORD_NUMBERS: Record<string, number> = { un: 1, une: 1, one: 1, deux: 2, two: 2, trois: 3, three: 3 };
+
+// A single intake is rarely this many units; larger counts are treated as the total to dispense
+const MAX_UNITS_PER_INTAKE = 4;
+
+/**
+ * Lowercase and strip accents one character at a time, so indexes in the folded
+ * text still line up with the original OCR text.
+ */
+const fold = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      const base = char.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return base.length === char.length ? base : char;
+    })
+    .join('');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = current;
+    }
+  }
+
+  return previous[b.length];
+};
+
+const toDate = (year: number, month: number, day: number): Date | undefined => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+};
+
+/**
+ * Turns raw OCR text from a prescription into candidate MedicationDetails entries.
+ * Handles French and English prescription conventions (1-0-1 posology, "3 fois par jour",
+ * "bid", day-first dates) and matches names against the local drug dictionary.
+ */
+export class MedicationExtractor {
+  private aliases: { entry: DrugDictionaryEntry; alias: string; wordCount: number }[];
+
+  constructor(dictionary: DrugDictionaryEntry[] = DRUG_DICTIONARY) {
+    this.aliases = dictionary.flatMap(entry =>
+      entry.aliases.map(alias => {
+        const normalized = this.normalizeWords(alias);
+        return { entry, alias: normalized, wordCount: normalized.split(' ').length };
+      })
+    );
+  }
+
+  /**
+   * Extract medication candidates from OCR text. Every field confidence is scaled
+   * by the OCR confidence of the text it was read from.
+   */
+  extract(text: string, ocrConfidence: number = 1): ExtractedMedication[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const prescriber = this.findPrescriber(lines);
+    const prescribedDate = this.findDate(text);
+    const scale = (score: number) => Math.round(score * ocrConfidence * 100) / 100;
+
+    return this.splitIntoBlocks(lines).map(block => {
+      const blockText = block.lines.join(' ');
+      const folded = fold(blockText);
+      const dosage = this.findDosage(blockText);
+      const frequency = this.findFrequency(blockText);
+      const quantity = this.findQuantity(folded, frequency?.value.timesPerDay);
+
+      const fieldConfidence: Partial<Record<ExtractedMedicationField, number>> = {
+        name: scale(block.match ? block.match.score : 0.5)
+      };
+      if (dosage) fieldConfidence.dosage = scale(dosage.score);
+      if (quantity) fieldConfidence.quantity = scale(quantity.score);
+      if (frequency) fieldConfidence.frequency = scale(frequency.score);
+      if (prescriber) fieldConfidence.prescriber = scale(prescriber.score);
+      if (prescribedDate) fieldConfidence.prescribedDate = scale(prescribedDate.score);
+
+      return {
+        name: block.match ? block.match.entry.name : block.fallbackName!,
+        dosage: dosage?.value || '',
+        quantity: quantity?.value || 0,
+        frequency: frequency?.value.text,
+        prescriber: prescriber?.value,
+        prescribedDate: prescribedDate?.value,
+        inDictionary: !!block.match,
+        fieldConfidence,
+        sourceText: block.lines.join('\n')
+      };
+    });
+  }
+
+  /**
+   * Group lines into one block per medication. A block starts at a line naming a
+   * known drug, or at a numbered/bulleted line with a dosage, and takes in the
+   * instruction lines that follow it.
+   */
+  private splitIntoBlocks(lines: string[]): MedicationBlock[] {
+    const blocks: MedicationBlock[] = [];
+    let current: MedicationBlock | null = null;
+
+    for (const line of lines) {
+      const match = this.matchDrug(line);
+      if (match) {
+        current = { match, lines: [line] };
+        blocks.push(current);
+        continue;
+      }
+
+      const bulleted = line.match(/^(?:\d{1,2}\s*[.)]|[-•*])\s*(\D+?)\s+\d/);
+      if (bulleted && this.findDosage(line)) {
+        current = { match: null, fallbackName: bulleted[1].trim(), lines: [line] };
+        blocks.push(current);
+        continue;
+      }
+
+      if (current && current.lines.length < 3 && !this.isHeaderLine(line)) {
+        current.lines.push(line);
+      } else {
+        current = null;
+      }
+    }
+
+    return blocks;
+  }
+
+  private matchDrug(line: string): DrugMatch | null {
+    const words = this.normalizeWords(line).split(' ');
+    let best: DrugMatch | null = null;
+
+    for (const { entry, alias, wordCount } of this.aliases) {
+      for (let start = 0; start + wordCount <= words.length; start++) {
+        const candidate = words.slice(start, start + wordCount).join(' ');
+        const score = this.scoreNameMatch(candidate, alias);
+        if (score > 0 && (!best || score > best.score)) {
+          best = { entry, score };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private scoreNameMatch(candidate: string, alias: string): number {
+    if (candidate === alias) {
+      return 1;
+    }
+    // Only tolerate OCR misreads on names long enough not to collide with ordinary words
+    if (alias.length < 5 || Math.abs(candidate.length - alias.length) > 2) {
+      return 0;
+    }
+
+    const distance = levenshtein(candidate, alias);
+    const allowed = alias.length >= 8 ? 2 : 1;
+    return distance <= allowed ? Math.round((1 - distance / alias.length) * 100) / 100 : 0;
+  }
+
+  private findDosage(text: string): FieldValue<string> | undefined {
+    const match = text.match(/(\d+(?:[.,]\d+)?(?:\s*\/\s*\d+(?:[.,]\d+)?)?)\s*(mg|mcg|µg|μg|g|ml|ui|iu|%)(?!\p{L})/iu);
+    if (!match) {
+      return undefined;
+    }
+
+    const amount = match[1].replace(/\s+/g, '').replace(/,/g, '.');
+    let unit = match[2].toLowerCase();
+    if (unit === 'µg' || unit === 'μg') unit = 'mcg';
+    if (unit === 'ui' || unit === 'iu') unit = 'IU';
+
+    return { value: `${amount}${unit}`, score: 1 };
+  }
+
+  private findFrequency(text: string): FieldValue<{ text: string; timesPerDay: number }> | undefined {
+    const folded = fold(text);
+    const patterns: { regex: RegExp; timesPerDay: (match: RegExpMatchArray) => number; score: number }[] = [
+      // French and English "n times a day"
+      { regex: /\b(\d)\s*(?:fois|x)\s*(?:par|\/|a|au|per)?\s*(?:jour|j|day)\b/, timesPerDay: m => Number(m[1]), score: 0.9 },
+      { regex: /\b(\d)\s*times\s*(?:a|per)?\s*(?:day|daily)\b/, timesPerDay: m => Number(m[1]), score: 0.9 },
+      { regex: /\b(once|une fois)\s*(?:a|par)?\s*(?:day|daily|jour)\b/, timesPerDay: () => 1, score: 0.9 },
+      { regex: /\btwice\s*(?:a\s*)?(?:day|daily)\b/, timesPerDay: () => 2, score: 0.9 },
+      // Francophone morning-noon-evening posology, e.g. 1-0-1
+      { regex: /\b([0-2])\s*-\s*([0-2])\s*-\s*([0-2])\b/, timesPerDay: m => [m[1], m[2], m[3]].filter(dose => dose !== '0').length, score: 0.85 },
+      { regex: /\bmatin,?\s*midi et soir\b/, timesPerDay: () => 3, score: 0.9 },
+      { regex: /\bmatin et soir\b/, timesPerDay: () => 2, score: 0.9 },
+      { regex: /\b(?:toutes les|every)\s*(\d{1,2})\s*h(?:eures?|ours?|rs?)?\b/, timesPerDay: m => Math.floor(24 / Number(m[1])), score: 0.9 },
+      { regex: /\bq(\d{1,2})h\b/, timesPerDay: m => Math.floor(24 / Number(m[1])), score: 0.8 },
+      // Latin abbreviations used on English prescriptions
+      { regex: /\b(?:od|qd)\b/, timesPerDay: () => 1, score: 0.8 },
+      { regex: /\b(?:bd|bid)\b/, timesPerDay: () => 2, score: 0.8 },
+      { regex: /\b(?:tds|tid)\b/, timesPerDay: () => 3, score: 0.8 },
+      { regex: /\b(?:qds|qid)\b/, timesPerDay: () => 4, score: 0.8 },
+      { regex: /\b(?:le soir|au coucher|at night|at bedtime|le matin|in the morning)\b/, timesPerDay: () => 1, score: 0.75 }
+    ];
+
+    for (const { regex, timesPerDay, score } of patterns) {
+      const match = folded.match(regex);
+      if (match && match.index !== undefined) {
+        return {
+          value: {
+            text: text.slice(match.index, match.index + match[0].length).trim(),
+            timesPerDay: timesPerDay(match)
+          },
+          score
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Quantity comes from an explicit count when the prescription gives one,
+   * otherwise it is derived from dose x frequency x duration.
+   */
+  private findQuantity(folded: string, timesPerDay?: number): FieldValue<number> | undefined {
+    const explicit = folded.match(/(?:\bqty|\bquantity|\bquantite|\bdisp(?:ense)?|#)\s*[:.]?\s*(\d+)/);
+    if (explicit) {
+      return { value: Number(explicit[1]), score: 1 };
+    }
+
+    const packaging = folded.match(new RegExp(`\\b(\\d+)\\s*(?:${PACKAGING})\\b`));
+    if (packaging) {
+      return { value: Number(packaging[1]), score: 0.9 };
+    }
+
+    const unitCounts = Array.from(folded.matchAll(new RegExp(`\\b(\\d+)\\s*(?:${DOSE_FORMS})\\b`, 'g')));
+    const dispensedUnits = unitCounts.find(count => Number(count[1]) > MAX_UNITS_PER_INTAKE);
+    if (dispensedUnits) {
+      return { value: Number(dispensedUnits[1]), score: 0.7 };
+    }
+
+    const trailingCount = folded.match(/\bx\s*(\d+)\s*$/);
+    if (trailingCount) {
+      return { value: Number(trailingCount[1]), score: 0.8 };
+    }
+
+    const duration = folded.match(/\b(?:pendant|during|for|qsp|x)\s*(\d+)\s*(jours?|j|days?|semaines?|weeks?|mois|months?)\b/);
+    if (duration && timesPerDay) {
+      const unit = duration[2];
+      const days = Number(duration[1]) * (/^(semaine|week)/.test(unit) ? 7 : /^(mois|month)/.test(unit) ? 30 : 1);
+      const dose = folded.match(new RegExp(`\\b(\\d|un|une|one|deux|two|trois|three)\\s*(?:${DOSE_FORMS})\\b`));
+      const perIntake = dose ? (WORD_NUMBERS[dose[1]] ?? Number(dose[1])) : 1;
+
+      return { value: perIntake * timesPerDay * days, score: dose ? 0.6 : 0.5 };
+    }
+
+    return undefined;
+  }
+
+  private findPrescriber(lines: string[]): FieldValue<string> | undefined {
+    for (const line of lines) {
+      const titled = line.match(/\b(?:Dr|DR|Docteur|DOCTEUR|Doctor|Pr|Prof|Professeur)\.?\s+(\p{Lu}[\p{L}'-]+(?:\s+\p{Lu}[\p{L}'-]+){0,2})/u);
+      if (titled) {
+        return { value: `Dr ${titled[1]}`, score: 0.9 };
+      }
+
+      const labelled = line.match(/^(?:prescripteur|prescriber|m[ée]decin|physician)\s*:\s*(.+)$/iu);
+      if (labelled) {
+        return { value: labelled[1].trim(), score: 0.8 };
+      }
+    }
+
+    return undefined;
+  }
+
+  private findDate(text: string): FieldValue<Date> | undefined {
+    const folded = fold(text);
+
+    const french = folded.match(new RegExp(`\\b(\\d{1,2})(?:er)?\\s+(${FRENCH_MONTHS.join('|')})\\s+(\\d{4})\\b`));
+    if (french) {
+      const date = toDate(Number(french[3]), FRENCH_MONTHS.indexOf(french[2]) + 1, Number(french[1]));
+      if (date) return { value: date, score: 0.95 };
+    }
+
+    const monthPattern = `(${ENGLISH_MONTHS.join('|')})[a-z]*\\.?`;
+    const englishDayFirst = folded.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${monthPattern},?\\s+(\\d{4})\\b`));
+    if (englishDayFirst) {
+      const date = toDate(Number(englishDayFirst[3]), ENGLISH_MONTHS.indexOf(englishDayFirst[2]) + 1, Number(englishDayFirst[1]));
+      if (date) return { value: date, score: 0.95 };
+    }
+
+    const englishMonthFirst = folded.match(new RegExp(`\\b${monthPattern}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`));
+    if (englishMonthFirst) {
+      const date = toDate(Number(englishMonthFirst[3]), ENGLISH_MONTHS.indexOf(englishMonthFirst[1]) + 1, Number(englishMonthFirst[2]));
+      if (date) return { value: date, score: 0.95 };
+    }
+
+    const numeric = folded.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+    if (numeric) {
+      const first = Number(numeric[1]);
+      const second = Number(numeric[2]);
+      const year = Number(numeric[3]);
+
+      // Day-first is the local convention; only read month-first when day-first is impossible
+      if (second > 12 && first <= 12) {
+        const date = toDate(year, first, second);
+        if (date) return { value: date, score: 0.8 };
+      }
+
+      const date = toDate(year, second, first);
+      if (date) return { value: date, score: first > 12 || first === second ? 0.9 : 0.7 };
+    }
+
+    return undefined;
+  }
+
+  private isHeaderLine(line: string): boolean {
+    return /\b(?:dr|docteur|doctor|signature|cachet|stamp|date|tel|t[ée]l[ée]phone|clinique|clinic|h[oô]pital|hospital|patient|nom|name)\b/iu.test(line);
+  }
+
+  private normalizeWords(text: string): string {
+    return fold(text).replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
+
+// Export singleton instance
+export const medicationExtractor = new MedicationExtractor();
@@ -0,0 +1,194 @@
+import { ScreeningSeverity } from '@pharmarx/shared-types';
+
+/**
+ * Groups of medications that interact, or cause reactions, in the same way.
+ * Rules below refer to a class or to a drug by its DRUG_DICTIONARY name.
+ */
+export type DrugClass =
+  | 'nsaid'
+  | 'penicillin'
+  | 'cephalosporin'
+  | 'sulfonamide'
+  | 'fluoroquinolone'
+  | 'tetracycline'
+  | 'qt_prolonging'
+  | 'sulfonylurea'
+  | 'corticosteroid'
+  | 'ace_inhibitor'
+  | 'diuretic'
+  | 'iron';
+
+export const DRUG_CLASSES: Record<string, DrugClass[]> = {
+  'Ibuprofen': ['nsaid'],
+  'Diclofenac': ['nsaid'],
+  'Amoxicillin': ['penicillin'],
+  'Amoxicillin/Clavulanic acid': ['penicillin'],
+  'Ceftriaxone': ['cephalosporin'],
+  'Cotrimoxazole': ['sulfonamide'],
+  'Ciprofloxacin': ['fluoroquinolone', 'qt_prolonging'],
+  'Azithromycin': ['qt_prolonging'],
+  'Doxycycline': ['tetracycline'],
+  'Artemether/Lumefantrine': ['qt_prolonging'],
+  'Quinine': ['qt_prolonging'],
+  'Glibenclamide': ['sulfonylurea'],
+  'Prednisolone': ['corticosteroid'],
+  'Captopril': ['ace_inhibitor'],
+  'Hydrochlorothiazide': ['diuretic'],
+  'Ferrous sulfate/Folic acid': ['iron']
+};
+
+// A drug name from DRUG_DICTIONARY or a DrugClass
+type DrugOrClass = string;
+
+export interface InteractionRule {
+  between: [DrugOrClass, DrugOrClass];
+  severity: ScreeningSeverity;
+  description: string;
+}
+
+export interface AllergyRule {
+  aliases: string[]; // How the allergy is written on a profile, matched without accents
+  reactsWith: DrugOrClass[]; // Reported as major
+  crossReactsWith?: DrugOrClass[]; // Reported as moderate
+}
+
+export interface ConditionRule {
+  aliases: string[];
+  avoid: DrugOrClass[];
+  severity: ScreeningSeverity;
+  description: string;
+}
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    between: ['nsaid', 'nsaid'],
+    severity: 'major',
+    description: 'Two anti-inflammatories together raise the risk of stomach bleeding and kidney injury'
+  },
+  {
+    between: ['qt_prolonging', 'qt_prolonging'],
+    severity: 'major',
+    description: 'Both prolong the QT interval; together they can cause dangerous heart rhythms'
+  },
+  {
+    between: ['nsaid', 'corticosteroid'],
+    severity: 'moderate',
+    description: 'Raises the risk of stomach ulcers and bleeding'
+  },
+  {
+    between: ['nsaid', 'ace_inhibitor'],
+    severity: 'moderate',
+    description: 'The anti-inflammatory weakens the blood pressure effect and can harm the kidneys'
+  },
+  {
+    between: ['nsaid', 'diuretic'],
+    severity: 'moderate',
+    description: 'The anti-inflammatory weakens the diuretic and can harm the kidneys'
+  },
+  {
+    between: ['sulfonylurea', 'sulfonamide'],
+    severity: 'moderate',
+    description: 'Cotrimoxazole strengthens glibenclamide; watch for low blood sugar'
+  },
+  {
+    between: ['sulfonylurea', 'fluoroquinolone'],
+    severity: 'moderate',
+    description: 'Can cause low or high blood sugar; monitor glucose closely'
+  },
+  {
+    between: ['iron', 'tetracycline'],
+    severity: 'moderate',
+    description: 'Iron stops the antibiotic being absorbed; take them at least 2 hours apart'
+  },
+  {
+    between: ['iron', 'fluoroquinolone'],
+    severity: 'moderate',
+    description: 'Iron stops the antibiotic being absorbed; take them at least 2 hours apart'
+  },
+  {
+    between: ['Metronidazole', 'qt_prolonging'],
+    severity: 'minor',
+    description: 'Small added risk of QT prolongation'
+  },
+  {
+    between: ['ace_inhibitor', 'diuretic'],
+    severity: 'minor',
+    description: 'Blood pressure can drop sharply after the first doses'
+  }
+];
+
+export const ALLERGY_RULES: AllergyRule[] = [
+  {
+    aliases: ['penicillin', 'penicilline', 'penicillins', 'amoxicillin', 'amoxicilline', 'beta-lactam', 'betalactamine'],
+    reactsWith: ['penicillin'],
+    crossReactsWith: ['cephalosporin']
+  },
+  {
+    aliases: ['sulfa', 'sulfa drugs', 'sulfonamide', 'sulfonamides', 'sulfamide', 'sulfamides', 'bactrim', 'cotrimoxazole'],
+    reactsWith: ['sulfonamide']
+  },
+  {
+    aliases: ['nsaid', 'nsaids', 'ains', 'aspirin', 'aspirine', 'ibuprofen', 'ibuprofene', 'anti-inflammatoires'],
+    reactsWith: ['nsaid']
+  },
+  {
+    aliases: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones', 'ciprofloxacin', 'ciprofloxacine'],
+    reactsWith: ['fluoroquinolone']
+  },
+  {
+    aliases: ['cephalosporin', 'cephalosporins', 'cephalosporine', 'cephalosporines', 'ceftriaxone'],
+    reactsWith: ['cephalosporin'],
+    crossReactsWith: ['penicillin']
+  }
+];
+
+export const CONDITION_RULES: ConditionRule[] = [
+  {
+    aliases: ['pregnancy', 'pregnant', 'grossesse', 'enceinte'],
+    avoid: ['tetracycline', 'fluoroquinolone', 'Albendazole', 'Mebendazole'],
+    severity: 'major',
+    description: 'Not recommended in pregnancy'
+  },
+  {
+    aliases: ['pregnancy', 'pregnant', 'grossesse', 'enceinte'],
+    avoid: ['nsaid', 'ace_inhibitor'],
+    severity: 'major',
+    description: 'Can harm the baby, particularly later in pregnancy'
+  },
+  {
+    aliases: ['asthma', 'asthme'],
+    avoid: ['nsaid'],
+    severity: 'moderate',
+    description: 'Anti-inflammatories can trigger asthma attacks in some patients'
+  },
+  {
+    aliases: ['kidney disease', 'renal failure', 'renal insufficiency', 'chronic kidney disease', 'ckd', 'insuffisance renale'],
+    avoid: ['nsaid'],
+    severity: 'major',
+    description: 'Anti-inflammatories can worsen kidney function'
+  },
+  {
+    aliases: ['kidney disease', 'renal failure', 'renal insufficiency', 'chronic kidney disease', 'ckd', 'insuffisance renale'],
+    avoid: ['Metformin'],
+    severity: 'moderate',
+    description: 'Check kidney function; the dose may need lowering'
+  },
+  {
+    aliases: ['peptic ulcer', 'stomach ulcer', 'gastric ulcer', 'ulcer', 'ulcere'],
+    avoid: ['nsaid', 'corticosteroid'],
+    severity: 'moderate',
+    description: 'Raises the risk of the ulcer bleeding'
+  },
+  {
+    aliases: ['hypertension', 'high blood pressure', 'hypertension arterielle', 'hta'],
+    avoid: ['nsaid', 'corticosteroid'],
+    severity: 'minor',
+    description: 'Can raise blood pressure'
+  },
+  {
+    aliases: ['diabetes', 'diabete', 'diabetic'],
+    avoid: ['corticosteroid'],
+    severity: 'moderate',
+    description: 'Raises blood sugar; monitor glucose while on treatment'
+  }
+];
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { MedicationScreeningService, identifyDrug, screenMedications } from './medicationScreeningService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('firebase-admin', () => ({
+  default: {}
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeOrderDoc = (id: string, data: Record<string, any>) => ({
+  id,
+  exists: true,
+  data: () => ({
+    orderId: id,
+    patientProfileId: 'profile-1',
+    ...data,
+    createdAt: { toDate: () => data.createdAt || new Date() },
+    updatedAt: data.updatedAt ? { toDate: () => data.updatedAt } : undefined
+  })
+});
+
+describe('screenMedications', () => {
+  it('should match brand names and French spellings to the dictionary', () => {
+    expect(identifyDrug('Advil 400mg')).toBe('Ibuprofen');
+    expect(identifyDrug('Amoxicilline acide clavulanique')).toBe('Amoxicillin/Clavulanic acid');
+    expect(identifyDrug('Coartem')).toBe('Artemether/Lumefantrine');
+    expect(identifyDrug('Aspirin')).toBeUndefined();
+  });
+
+  it('should find interactions between medications prescribed together', () => {
+    const findings = screenMedications(['Ibuprofen', 'Voltarene', 'Paracetamol']);
+
+    expect(findings).toEqual([{
+      type: 'interaction',
+      severity: 'major',
+      medication: 'Ibuprofen',
+      conflictsWith: 'Voltarene',
+      description: 'Two anti-inflammatories together raise the risk of stomach bleeding and kidney injury'
+    }]);
+  });
+
+  it('should point at the other order for medications the patient is already taking', () => {
+    const findings = screenMedications(['Quinine'], {}, [
+      { name: 'Coartem', orderId: 'order-2' },
+      { name: 'Quinimax', orderId: 'order-3' }
+    ]);
+
+    expect(findings.map(finding => [finding.severity, finding.conflictsWith, finding.otherOrderId])).toEqual([
+      ['major', 'Coartem', 'order-2'],
+      ['moderate', 'Quinimax', 'order-3']
+    ]);
+  });
+
+  it('should flag allergies directly and through cross-reactions', () => {
+    const history = { allergies: ['Pénicilline'] };
+
+    expect(screenMedications(['Augmentin'], history)[0]).toMatchObject({ type: 'allergy', severity: 'major' });
+    expect(screenMedications(['Ceftriaxone'], history)[0]).toMatchObject({ type: 'allergy', severity: 'moderate' });
+    expect(screenMedications(['Aspirin 100mg'], { allergies: ['Aspirin'] })[0]).toMatchObject({ severity: 'major' });
+    expect(screenMedications(['Paracetamol'], history)).toEqual([]);
+  });
+
+  it('should flag chronic conditions and order findings by severity', () => {
+    const findings = screenMedications(['Ibuprofen', 'Captopril'], { chronicConditions: ['Asthma', 'Pregnancy'] });
+
+    expect(findings.map(finding => [finding.severity, finding.medication, finding.conflictsWith])).toEqual([
+      ['major', 'Ibuprofen', 'Pregnancy'],
+      ['major', 'Captopril', 'Pregnancy'],
+      ['moderate', 'Ibuprofen', 'Captopril'],
+      ['moderate', 'Ibuprofen', 'Asthma']
+    ]);
+  });
+});
+
+describe('MedicationScreeningService', () => {
+  let service: MedicationScreeningService;
+  let profileDoc: any;
+  let orderDocs: any[];
+  let mockWhere: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    profileDoc = { exists: true, data: () => ({ allergies: ['Sulfa drugs'], chronicConditions: [] }) };
+    orderDocs = [
+      makeOrderDoc('order-1', {
+        status: 'awaiting_verification',
+        lineItems: [
+          { lineItemId: 'item-1', name: 'Bactrim', dosage: '960mg', quantity: 10, availability: 'unknown', substitution: { status: 'none' } }
+        ]
+      }),
+      makeOrderDoc('order-2', { status: 'preparing', medicationDetails: { name: 'Glibenclamide', dosage: '5mg', quantity: 30 } }),
+      makeOrderDoc('order-3', { status: 'cancelled', medicationDetails: { name: 'Ibuprofen', dosage: '400mg', quantity: 10 } }),
+      makeOrderDoc('order-4', {
+        status: 'delivered',
+        medicationDetails: { name: 'Diclofenac', dosage: '50mg', quantity: 10 },
+        updatedAt: new Date(Date.now() - 60 * DAY)
+      })
+    ];
+    mockWhere = vi.fn(() => ({ get: vi.fn(async () => ({ docs: orderDocs })) }));
+
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: vi.fn((name: string) => ({
+        doc: vi.fn((id: string) => ({
+          get: vi.fn(async () => name === 'patientProfiles'
+            ? profileDoc
+            : orderDocs.find(doc => doc.id === id) || { exists: false })
+        })),
+        where: mockWhere
+      }))
+    } as any);
+
+    service = new MedicationScreeningService();
+  });
+
+  it('should screen an order against the profile and the patient\'s other active orders', async () => {
+    const result = await service.screenOrder('order-1');
+
+    expect(mockWhere).toHaveBeenCalledWith('patientProfileId', '==', 'profile-1');
+    expect(result!.findings.map(finding => [finding.type, finding.severity, finding.conflictsWith])).toEqual([
+      ['allergy', 'major', 'Sulfa drugs'],
+      ['interaction', 'moderate', 'Glibenclamide']
+    ]);
+    expect(result!.findings[1].otherOrderId).toBe('order-2');
+    expect(result!.screenedAt).toBeInstanceOf(Date);
+  });
+
+  it('should ignore cancelled orders and medication delivered long ago', async () => {
+    const result = await service.screenForPatient('profile-1', ['Ibuprofen']);
+
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should use the profile it is given instead of reading it', async () => {
+    const result = await service.screenForPatient('profile-1', ['Ibuprofen'], { profile: { chronicConditions: ['Asthme'] } });
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ type: 'condition', severity: 'moderate' });
+  });
+
+  it('should return null for an unknown order', async () => {
+    expect(await service.screenOrder('missing')).toBeNull();
+  });
+});
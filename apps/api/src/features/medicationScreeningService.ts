@@ -0,0 +1,239 @@
+import databaseService from './database';
+import {
+  PatientProfile,
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  MedicationScreeningResult,
+  ScreeningFinding,
+  ScreeningSeverity,
+  getOrderLineItems,
+  getDispensedDetails,
+  isLineItemBillable,
+  sortFindingsBySeverity
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { DRUG_DICTIONARY } from './drugDictionary';
+import { ALLERGY_RULES, CONDITION_RULES, DRUG_CLASSES, INTERACTION_RULES } from './medicationSafetyRules';
+import { mapOrderDocument } from './orderStatusService';
+
+export type PatientMedicalHistory = Pick<PatientProfile, 'allergies' | 'chronicConditions'>;
+
+// A medication the patient is already taking, from another order
+export interface ActiveMedication {
+  name: string;
+  orderId: string;
+}
+
+export interface ScreenForPatientOptions {
+  excludeOrderId?: string; // The order being reviewed, so it is not screened against itself
+  profile?: PatientMedicalHistory; // Saves reading the profile again when the caller has it
+}
+
+/**
+ * Raised when a prescription is approved or submitted over a major finding without a note
+ * explaining why. Routes translate this into a 409 Conflict carrying the findings.
+ */
+export class InteractionOverrideRequiredError extends Error {
+  constructor(public readonly findings: ScreeningFinding[]) {
+    super('An override note is required to continue past a major interaction or allergy');
+    this.name = 'InteractionOverrideRequiredError';
+  }
+}
+
+const INACTIVE_ORDER_STATUSES: PrescriptionOrderStatus[] = ['rejected', 'cancelled'];
+// Delivered medication is assumed to still be taken for this long
+const ACTIVE_THERAPY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercase, strip accents and reduce punctuation to single spaces
+ */
+const fold = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const containsWords = (text: string, words: string): boolean =>
+  words !== '' && ` ${text} `.includes(` ${words} `);
+
+const DICTIONARY_ALIASES = DRUG_DICTIONARY
+  .flatMap(entry => [entry.name, ...entry.aliases].map(alias => ({ name: entry.name, alias: fold(alias) })))
+  // Longest first, so "amoxicilline acide clavulanique" is not read as plain amoxicillin
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+/**
+ * The DRUG_DICTIONARY name of a medication as written, or undefined when it is not in the dictionary
+ */
+export const identifyDrug = (medication: string): string | undefined => {
+  const folded = fold(medication);
+  return DICTIONARY_ALIASES.find(({ alias }) => containsWords(folded, alias))?.name;
+};
+
+const matchesDrugOrClass = (drug: string | undefined, drugOrClass: string): boolean =>
+  !!drug && (drug === drugOrClass || (DRUG_CLASSES[drug] as string[] | undefined)?.includes(drugOrClass) === true);
+
+const matchesAny = (drug: string | undefined, drugsOrClasses: string[]): boolean =>
+  drugsOrClasses.some(drugOrClass => matchesDrugOrClass(drug, drugOrClass));
+
+const matchesAlias = (text: string, aliases: string[]): boolean => {
+  const folded = fold(text);
+  return aliases.some(alias => containsWords(folded, fold(alias)));
+};
+
+const screenPair = (medication: string, other: string, otherOrderId?: string): ScreeningFinding | null => {
+  const drug = identifyDrug(medication);
+  const otherDrug = identifyDrug(other);
+  const finding = (severity: ScreeningSeverity, description: string): ScreeningFinding => ({
+    type: 'interaction',
+    severity,
+    medication,
+    conflictsWith: other,
+    description,
+    ...(otherOrderId && { otherOrderId })
+  });
+
+  if (drug ? drug === otherDrug : fold(medication) === fold(other)) {
+    return otherOrderId
+      ? finding('moderate', 'The patient already has this medication on an active order; check this is not a duplicate')
+      : null;
+  }
+
+  const rule = INTERACTION_RULES.find(({ between: [a, b] }) =>
+    (matchesDrugOrClass(drug, a) && matchesDrugOrClass(otherDrug, b)) ||
+    (matchesDrugOrClass(drug, b) && matchesDrugOrClass(otherDrug, a))
+  );
+  return rule ? finding(rule.severity, rule.description) : null;
+};
+
+const screenAllergy = (medication: string, allergy: string): ScreeningFinding | null => {
+  const drug = identifyDrug(medication);
+  const finding = (severity: ScreeningSeverity, description: string): ScreeningFinding => ({
+    type: 'allergy',
+    severity,
+    medication,
+    conflictsWith: allergy,
+    description
+  });
+
+  // Also catches medications outside the dictionary written the same way as the allergy
+  if ((drug && drug === identifyDrug(allergy)) || containsWords(fold(medication), fold(allergy))) {
+    return finding('major', `The patient is allergic to ${allergy}`);
+  }
+
+  for (const rule of ALLERGY_RULES.filter(candidate => matchesAlias(allergy, candidate.aliases))) {
+    if (matchesAny(drug, rule.reactsWith)) {
+      return finding('major', `The patient is allergic to ${allergy}, which includes this medication`);
+    }
+    if (rule.crossReactsWith && matchesAny(drug, rule.crossReactsWith)) {
+      return finding('moderate', `The patient is allergic to ${allergy}; a cross-reaction with this medication is possible`);
+    }
+  }
+  return null;
+};
+
+const screenCondition = (medication: string, condition: string): ScreeningFinding | null => {
+  const drug = identifyDrug(medication);
+  const rule = CONDITION_RULES.find(candidate => matchesAlias(condition, candidate.aliases) && matchesAny(drug, candidate.avoid));
+
+  return rule
+    ? { type: 'condition', severity: rule.severity, medication, conflictsWith: condition, description: rule.description }
+    : null;
+};
+
+/**
+ * Check medications being prescribed together against each other, the patient's other
+ * active medications, allergies and chronic conditions. Findings come back most severe first.
+ */
+export const screenMedications = (
+  medications: string[],
+  history: PatientMedicalHistory = {},
+  activeMedications: ActiveMedication[] = []
+): ScreeningFinding[] => {
+  const findings: ScreeningFinding[] = [];
+  const add = (finding: ScreeningFinding | null) => {
+    if (finding) {
+      findings.push(finding);
+    }
+  };
+
+  medications.forEach((medication, index) => {
+    medications.slice(index + 1).forEach(other => add(screenPair(medication, other)));
+    activeMedications.forEach(active => add(screenPair(medication, active.name, active.orderId)));
+    (history.allergies || []).forEach(allergy => add(screenAllergy(medication, allergy)));
+    (history.chronicConditions || []).forEach(condition => add(screenCondition(medication, condition)));
+  });
+
+  return sortFindingsBySeverity(findings);
+};
+
+/**
+ * Names of the medications an order dispenses, after substitutions and edits
+ */
+export const getDispensedMedicationNames = (order: Pick<PrescriptionOrder, 'lineItems' | 'medicationDetails'>): string[] =>
+  getOrderLineItems(order)
+    .filter(isLineItemBillable)
+    .map(item => getDispensedDetails(item).name)
+    .filter(name => !!name?.trim());
+
+export class MedicationScreeningService {
+  /**
+   * Screen medications for a patient against their profile and their other active orders
+   */
+  async screenForPatient(
+    patientProfileId: string,
+    medications: string[],
+    options: ScreenForPatientOptions = {}
+  ): Promise<MedicationScreeningResult> {
+    const [history, activeMedications] = await Promise.all([
+      options.profile ? Promise.resolve(options.profile) : this.getMedicalHistory(patientProfileId),
+      this.getActiveMedications(patientProfileId, options.excludeOrderId)
+    ]);
+
+    return {
+      findings: screenMedications(medications, history, activeMedications),
+      screenedAt: new Date()
+    };
+  }
+
+  /**
+   * Screen what an order would dispense. Returns null when the order does not exist.
+   */
+  async screenOrder(orderId: string): Promise<MedicationScreeningResult | null> {
+    const orderDoc = await databaseService.getDb().collection('prescriptionOrders').doc(orderId).get();
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const order = mapOrderDocument(orderDoc);
+    return this.screenForPatient(order.patientProfileId, getDispensedMedicationNames(order), { excludeOrderId: orderId });
+  }
+
+  private async getMedicalHistory(patientProfileId: string): Promise<PatientMedicalHistory> {
+    const profileDoc = await databaseService.getDb().collection('patientProfiles').doc(patientProfileId).get();
+    const data = profileDoc.exists ? profileDoc.data() : undefined;
+    return { allergies: data?.allergies || [], chronicConditions: data?.chronicConditions || [] };
+  }
+
+  /**
+   * Medications on the patient's open orders, and on orders delivered recently enough
+   * that the patient is probably still taking them
+   */
+  private async getActiveMedications(patientProfileId: string, excludeOrderId?: string): Promise<ActiveMedication[]> {
+    const snapshot = await databaseService.getDb().collection('prescriptionOrders')
+      .where('patientProfileId', '==', patientProfileId)
+      .get();
+
+    const activeSince = Date.now() - ACTIVE_THERAPY_DAYS * DAY_MS;
+
+    return snapshot.docs
+      .map((doc: admin.firestore.QueryDocumentSnapshot) => mapOrderDocument(doc))
+      .filter(order => order.orderId !== excludeOrderId && !INACTIVE_ORDER_STATUSES.includes(order.status))
+      .filter(order => order.status !== 'delivered' || (order.updatedAt || order.createdAt).getTime() >= activeSince)
+      .flatMap(order => getDispensedMedicationNames(order).map(name => ({ name, orderId: order.orderId })));
+  }
+}
+
+export const medicationScreeningService = new MedicationScreeningService();
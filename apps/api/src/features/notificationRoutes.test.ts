@@ -1,3 +1,4 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import notificationRoutes from './notificationRoutes';
@@ -21,16 +22,18 @@ vi.mock('firebase-admin', () => ({
   }
 }));
 
-// Mock middleware
-vi.mock('../middleware/auth', () => ({
-  verifyAuth: vi.fn((req, res, next) => {
-    req.user = { uid: 'test-user-123' };
-    next();
-  })
+const { authState } = vi.hoisted(() => ({
+  authState: { role: 'patient' }
 }));
 
-vi.mock('../middleware/roleVerification', () => ({
-  verifyPatientRole: vi.fn((req, res, next) => {
+// Mock middleware; role checks use the real requireRole
+vi.mock('../middleware/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../middleware/auth')>()),
+  verifyAuth: vi.fn((req, res, next) => {
+    req.user = { uid: 'test-user-123', role: authState.role };
+    next();
+  }),
+  requireProfileAccess: vi.fn(() => (req: any, res: any, next: any) => {
     next();
   })
 }));
@@ -266,6 +269,26 @@ describe('Notification Routes', () => {
   });
 
   describe('POST /api/notifications/:notificationId/status', () => {
+    beforeEach(() => {
+      authState.role = 'admin';
+    });
+
+    afterEach(() => {
+      authState.role = 'patient';
+    });
+
+    it('should only let admins change a delivery status', async () => {
+      authState.role = 'patient';
+
+      const response = await request(app)
+        .post('/api/notifications/notif-123/status')
+        .send({ status: 'delivered' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Admin role required');
+      expect(mockNotificationService.updateNotificationStatus).not.toHaveBeenCalled();
+    });
+
     it('should update notification status successfully', async () => {
       mockNotificationService.updateNotificationStatus.mockResolvedValue(true);
 
@@ -1,12 +1,12 @@
 import express from 'express';
 import { PrescriptionNotificationService } from './prescriptionNotificationService';
-import { verifyAuth } from '../middleware/auth';
-import { verifyPatientRole } from '../middleware/roleVerification';
+import { verifyAuth, requireProfileAccess, requireRole } from '../middleware/auth';
 import { 
   ApiResponse, 
   NotificationPreferences, 
   UpdateNotificationPreferencesRequest,
-  PrescriptionNotification 
+  PrescriptionNotification,
+  UserRole
 } from '@pharmarx/shared-types';
 
 const router = express.Router();
@@ -16,7 +16,7 @@ const notificationService = new PrescriptionNotificationService();
  * GET /notifications/preferences/:patientProfileId
  * Get notification preferences for a patient profile
  */
-router.get('/preferences/:patientProfileId', verifyAuth, verifyPatientRole, async (req, res) => {
+router.get('/preferences/:patientProfileId', verifyAuth, requireProfileAccess('patientProfileId'), async (req, res) => {
   try {
     const { patientProfileId } = req.params;
     const userUid = req.user?.uid;
@@ -28,9 +28,6 @@ router.get('/preferences/:patientProfileId', verifyAuth, verifyPatientRole, asyn
       });
     }
 
-    // In a real implementation, you would verify that the user has access to this patient profile
-    // For now, we'll assume the user has access if they're authenticated
-
     // Get patient profile to retrieve notification preferences
     const { firestore } = require('firebase-admin');
     const db = firestore();
@@ -69,7 +66,7 @@ router.get('/preferences/:patientProfileId', verifyAuth, verifyPatientRole, asyn
  * PUT /notifications/preferences/:patientProfileId
  * Update notification preferences for a patient profile
  */
-router.put('/preferences/:patientProfileId', verifyAuth, verifyPatientRole, async (req, res) => {
+router.put('/preferences/:patientProfileId', verifyAuth, requireProfileAccess('patientProfileId', 'manage'), async (req, res) => {
   try {
     const { patientProfileId } = req.params;
     const updateData: UpdateNotificationPreferencesRequest = req.body;
@@ -154,7 +151,7 @@ router.put('/preferences/:patientProfileId', verifyAuth, verifyPatientRole, asyn
  * GET /notifications/history/:patientProfileId
  * Get notification history for a patient profile
  */
-router.get('/history/:patientProfileId', verifyAuth, verifyPatientRole, async (req, res) => {
+router.get('/history/:patientProfileId', verifyAuth, requireProfileAccess('patientProfileId'), async (req, res) => {
   try {
     const { patientProfileId } = req.params;
     const { limit = 50 } = req.query;
@@ -198,9 +195,10 @@ router.get('/history/:patientProfileId', verifyAuth, verifyPatientRole, async (r
 
 /**
  * POST /notifications/:notificationId/status
- * Update notification delivery status (for webhooks from SMS/email providers)
+ * Update notification delivery status. Admin only: providers' delivery callbacks are not
+ * signed for this route, so they are relayed by an admin tool rather than called directly.
  */
-router.post('/:notificationId/status', async (req, res) => {
+router.post('/:notificationId/status', verifyAuth, requireRole(UserRole.Admin), async (req, res) => {
   try {
     const { notificationId } = req.params;
     const { status, errorMessage } = req.body;
@@ -0,0 +1,166 @@
+import { ImageAnnotatorClient } from '@google-cloud/vision';
+import { GCPConfig } from '../../config/gcpConfig';
+import { OcrEngine, OcrPageText, OcrQuotaExceededError, downloadFile } from './OcrEngine';
+
+// Vision annotates at most five pages of a PDF per request
+const PDF_PAGES_PER_REQUEST = 5;
+// Prescriptions run to a page or two; longer files are read up to this page
+const MAX_PDF_PAGES = 20;
+
+// gRPC RESOURCE_EXHAUSTED, and HTTP 429 from the REST fallback
+const QUOTA_ERROR_CODES = [8, 429];
+
+/**
+ * Google Cloud Vision: text detection for photos, document text detection for PDFs
+ */
+export class GoogleVisionOcrEngine implements OcrEngine {
+  readonly name = 'google_vision' as const;
+  private client: ImageAnnotatorClient;
+
+  constructor(gcpConfig: GCPConfig) {
+    this.client = new ImageAnnotatorClient({ ...gcpConfig });
+  }
+
+  async extractImageText(imageUrl: string): Promise<OcrPageText> {
+    // Call Google Cloud Vision API
+    const [result] = await this.call(() => this.client.textDetection({
+      image: { source: { imageUri: imageUrl } }
+    }));
+
+    // Extract text from response
+    const detections = result.textAnnotations;
+    if (!detections || detections.length === 0) {
+      throw new Error('No text detected in the image');
+    }
+
+    // The first annotation contains the full extracted text
+    const extractedText = detections[0].description || '';
+
+    if (!extractedText.trim()) {
+      throw new Error('Empty text extracted from image');
+    }
+
+    // Calculate confidence from individual word detections
+    const confidence = this.calculateOverallConfidence(detections);
+
+    console.log(`Successfully extracted ${extractedText.length} characters of text with confidence ${confidence}`);
+    return { text: extractedText, confidence };
+  }
+
+  async extractPdfText(pdfUrl: string): Promise<OcrPageText[]> {
+    const content = await downloadFile(pdfUrl);
+    const pages: OcrPageText[] = [];
+    let totalPages = PDF_PAGES_PER_REQUEST;
+
+    for (let firstPage = 1; firstPage <= Math.min(totalPages, MAX_PDF_PAGES); firstPage += PDF_PAGES_PER_REQUEST) {
+      const lastPage = Math.min(firstPage + PDF_PAGES_PER_REQUEST - 1, totalPages, MAX_PDF_PAGES);
+      const pageNumbers = Array.from({ length: lastPage - firstPage + 1 }, (_, i) => firstPage + i);
+
+      const [result] = await this.call(() => this.client.batchAnnotateFiles({
+        requests: [{
+          inputConfig: { content, mimeType: 'application/pdf' },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          // Without pages Vision reads the first five, which also tells us how many there are
+          pages: firstPage === 1 ? undefined : pageNumbers
+        }]
+      }));
+
+      const fileResponse = result.responses?.[0];
+      if (!fileResponse) {
+        throw new Error('No response for the PDF');
+      }
+      if (fileResponse.error?.message) {
+        throw new Error(fileResponse.error.message);
+      }
+
+      totalPages = fileResponse.totalPages || 0;
+
+      (fileResponse.responses || []).forEach((pageResponse, index) => {
+        if (pageResponse.error?.message) {
+          throw new Error(`Page ${firstPage + index}: ${pageResponse.error.message}`);
+        }
+        const text = pageResponse.fullTextAnnotation?.text || '';
+        pages.push({
+          pdfPageNumber: pageResponse.context?.pageNumber || firstPage + index,
+          text,
+          confidence: text.trim() ? this.calculatePageConfidence(pageResponse.fullTextAnnotation?.pages) : 0
+        });
+      });
+    }
+
+    if (totalPages > MAX_PDF_PAGES) {
+      console.warn(`PDF has ${totalPages} pages; only the first ${MAX_PDF_PAGES} were read`);
+    }
+
+    if (!pages.some(page => page.text.trim())) {
+      throw new Error('No text detected in the PDF');
+    }
+
+    console.log(`Successfully extracted text from ${pages.length} PDF page(s)`);
+    return pages;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      // Try to create a client and perform a simple operation
+      await this.client.getProjectId();
+      return true;
+    } catch (error) {
+      console.error('Google Vision health check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Run a Vision request, turning quota errors into OcrQuotaExceededError
+   */
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      if (QUOTA_ERROR_CODES.includes((error as { code?: number })?.code as number)) {
+        throw new OcrQuotaExceededError(`Google Vision quota exceeded: ${(error as Error).message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate overall confidence from text annotations
+   */
+  private calculateOverallConfidence(detections: any[]): number {
+    if (!detections || detections.length <= 1) {
+      return 0.85; // Default confidence when no individual word confidence available
+    }
+
+    // Skip the first annotation (full text) and calculate from individual words
+    const wordDetections = detections.slice(1);
+    let totalConfidence = 0;
+    let validDetections = 0;
+
+    for (const detection of wordDetections) {
+      if (detection.confidence && typeof detection.confidence === 'number') {
+        totalConfidence += detection.confidence;
+        validDetections++;
+      }
+    }
+
+    if (validDetections === 0) {
+      return 0.85; // Default confidence
+    }
+
+    const averageConfidence = totalConfidence / validDetections;
+    return Math.round(averageConfidence * 100) / 100; // Round to 2 decimal places
+  }
+
+  /**
+   * Confidence of a document text detection page
+   */
+  private calculatePageConfidence(pages?: Array<{ confidence?: number | null }> | null): number {
+    const confidence = pages?.[0]?.confidence;
+    if (typeof confidence !== 'number' || confidence === 0) {
+      return 0.85; // Same default as calculateOverallConfidence
+    }
+    return Math.round(confidence * 100) / 100;
+  }
+}
@@ -0,0 +1,52 @@
+import { OCREngineName } from '@pharmarx/shared-types';
+
+/**
+ * Text an engine read from one page
+ */
+export interface OcrPageText {
+  text: string;
+  confidence: number; // 0-1
+  pdfPageNumber?: number; // Page within the file, for PDFs
+}
+
+/**
+ * A text recognition backend the OCR service can read prescriptions with
+ */
+export interface OcrEngine {
+  readonly name: OCREngineName;
+
+  /**
+   * Read a photo or scan. Throws when no text is found.
+   */
+  extractImageText(imageUrl: string): Promise<OcrPageText>;
+
+  /**
+   * Read each page of a PDF, keeping blank pages so page numbers line up with the file.
+   * Engines that cannot read PDFs leave this out.
+   */
+  extractPdfText?(pdfUrl: string): Promise<OcrPageText[]>;
+
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Raised when an engine turns work away because a quota or rate limit is used up.
+ * Retrying will not help, so the OCR service moves straight on to the next engine.
+ */
+export class OcrQuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrQuotaExceededError';
+  }
+}
+
+/**
+ * Fetch a file's bytes, for engines that cannot read from a URL themselves
+ */
+export const downloadFile = async (url: string): Promise<Buffer> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download prescription file: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TesseractOcrEngine } from './TesseractOcrEngine';
+
+const { mockRecognize, mockTerminate, mockCreateWorker } = vi.hoisted(() => ({
+  mockRecognize: vi.fn(),
+  mockTerminate: vi.fn(),
+  mockCreateWorker: vi.fn()
+}));
+
+// Mock tesseract.js so no WASM worker or language data is loaded
+vi.mock('tesseract.js', () => ({
+  createWorker: mockCreateWorker
+}));
+
+describe('TesseractOcrEngine', () => {
+  let engine: TesseractOcrEngine;
+  const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateWorker.mockResolvedValue({ recognize: mockRecognize, terminate: mockTerminate });
+    mockRecognize.mockResolvedValue({ data: { text: 'Amoxicilline 500mg\n3 fois par jour', confidence: 87.4 } });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: async () => image
+    }));
+
+    engine = new TesseractOcrEngine({ languages: 'eng+fra', langPath: '/opt/tessdata' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the downloaded image and scales the confidence to 0-1', async () => {
+    const page = await engine.extractImageText('https://storage.example.com/signed?X-Goog-Signature=abc');
+
+    expect(fetch).toHaveBeenCalledWith('https://storage.example.com/signed?X-Goog-Signature=abc');
+    expect(mockCreateWorker).toHaveBeenCalledWith('eng+fra', undefined, { langPath: '/opt/tessdata' });
+    expect(mockRecognize).toHaveBeenCalledWith(image);
+    expect(page).toEqual({ text: 'Amoxicilline 500mg\n3 fois par jour', confidence: 0.87 });
+  });
+
+  it('starts one worker and reuses it', async () => {
+    await engine.extractImageText('https://example.com/page-1.jpg');
+    await engine.extractImageText('https://example.com/page-2.jpg');
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+    expect(mockRecognize).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when no text is found', async () => {
+    mockRecognize.mockResolvedValue({ data: { text: ' \n', confidence: 0 } });
+
+    await expect(engine.extractImageText('https://example.com/blank.jpg'))
+      .rejects.toThrow('No text detected in the image');
+  });
+
+  it('throws when the image cannot be downloaded', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 403 } as Response);
+
+    await expect(engine.extractImageText('https://example.com/expired.jpg'))
+      .rejects.toThrow('Failed to download prescription file: 403');
+    expect(mockRecognize).not.toHaveBeenCalled();
+  });
+
+  it('does not read PDFs', () => {
+    expect((engine as { extractPdfText?: unknown }).extractPdfText).toBeUndefined();
+  });
+
+  describe('healthCheck', () => {
+    it('is healthy once the worker has started', async () => {
+      expect(await engine.healthCheck()).toBe(true);
+    });
+
+    it('is unhealthy when the worker cannot start, and tries again next time', async () => {
+      mockCreateWorker.mockRejectedValueOnce(new Error('Failed to fetch eng.traineddata'));
+
+      expect(await engine.healthCheck()).toBe(false);
+      expect(await engine.healthCheck()).toBe(true);
+      expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('stops the worker on terminate', async () => {
+    await engine.healthCheck();
+    await engine.terminate();
+
+    expect(mockTerminate).toHaveBeenCalled();
+  });
+});
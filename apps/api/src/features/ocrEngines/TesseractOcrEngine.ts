@@ -0,0 +1,68 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { TesseractConfig } from '../../config/gcpConfig';
+import { OcrEngine, OcrPageText, downloadFile } from './OcrEngine';
+
+/**
+ * Tesseract running in-process through tesseract.js (WASM). It needs no cloud account,
+ * so it serves local development and stands in when Google Vision is down or out of
+ * quota. With TESSERACT_LANG_PATH pointing at local .traineddata files it runs fully
+ * offline. It reads photos only; PDFs are left to Vision.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract' as const;
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly config: TesseractConfig) {}
+
+  async extractImageText(imageUrl: string): Promise<OcrPageText> {
+    const image = await downloadFile(imageUrl);
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+
+    if (!data.text.trim()) {
+      throw new Error('No text detected in the image');
+    }
+
+    // Tesseract scores 0-100
+    const confidence = Math.round(data.confidence) / 100;
+    console.log(`Tesseract extracted ${data.text.length} characters of text with confidence ${confidence}`);
+    return { text: data.text, confidence };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.getWorker();
+      return true;
+    } catch (error) {
+      console.error('Tesseract health check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop the worker thread, e.g. on shutdown
+   */
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await (await worker).terminate();
+    }
+  }
+
+  /**
+   * The worker loads its language data once and is reused for every image
+   */
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker(this.config.languages, undefined, {
+        ...(this.config.langPath && { langPath: this.config.langPath })
+      });
+      // Let the next request try again if the worker could not start
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+}
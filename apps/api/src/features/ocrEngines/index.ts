@@ -0,0 +1,23 @@
+import { OCREngineName } from '@pharmarx/shared-types';
+import { OCRConfig } from '../../config/gcpConfig';
+import { OcrEngine } from './OcrEngine';
+import { GoogleVisionOcrEngine } from './GoogleVisionOcrEngine';
+import { TesseractOcrEngine } from './TesseractOcrEngine';
+
+export * from './OcrEngine';
+export { GoogleVisionOcrEngine } from './GoogleVisionOcrEngine';
+export { TesseractOcrEngine } from './TesseractOcrEngine';
+
+/**
+ * Build the engine configured under a name. `OCR_ENGINE` and `OCR_FALLBACK_ENGINE`
+ * choose which ones the OCR service uses and in what order.
+ */
+export const createOcrEngine = (name: OCREngineName, config: OCRConfig): OcrEngine => {
+  switch (name) {
+    case 'tesseract':
+      return new TesseractOcrEngine(config.tesseract || { languages: 'eng+fra' });
+    case 'google_vision':
+    default:
+      return new GoogleVisionOcrEngine(config.gcpConfig);
+  }
+};
@@ -6,6 +6,7 @@ import { OCRProcessingRequest } from '@pharmarx/shared-types';
 vi.mock('@google-cloud/vision', () => ({
   ImageAnnotatorClient: vi.fn(() => ({
     textDetection: vi.fn(),
+    batchAnnotateFiles: vi.fn(),
     getProjectId: vi.fn()
   }))
 }));
@@ -28,6 +29,7 @@ vi.mock('../config/gcpConfig', () => ({
 describe('OCR Integration Tests', () => {
   let ocrService: OCRService;
   let mockTextDetection: any;
+  let mockBatchAnnotateFiles: any;
   let mockGetProjectId: any;
 
   beforeEach(async () => {
@@ -38,6 +40,7 @@ describe('OCR Integration Tests', () => {
     const MockedImageAnnotatorClient = ImageAnnotatorClient as any;
     const instance = new MockedImageAnnotatorClient();
     mockTextDetection = instance.textDetection;
+    mockBatchAnnotateFiles = instance.batchAnnotateFiles;
     mockGetProjectId = instance.getProjectId;
     
     // Set up default successful mock for getProjectId
@@ -324,8 +327,15 @@ Qty: [UNCLEAR]`;
     it('should process PDF documents successfully', async () => {
       const extractedText = 'PDF prescription content\nPage 1 of 1';
       
-      mockTextDetection.mockResolvedValueOnce([{
-        textAnnotations: [{ description: extractedText }]
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => Buffer.from('%PDF-1.7')
+      }));
+      mockBatchAnnotateFiles.mockResolvedValueOnce([{
+        responses: [{
+          totalPages: 1,
+          responses: [{ context: { pageNumber: 1 }, fullTextAnnotation: { text: extractedText } }]
+        }]
       }]);
 
       const request: OCRProcessingRequest = {
@@ -337,6 +347,9 @@ Qty: [UNCLEAR]`;
 
       expect(result.success).toBe(true);
       expect(result.extractedText).toBe(extractedText);
+      expect(result.pages).toHaveLength(1);
+
+      vi.unstubAllGlobals();
     });
   });
 
@@ -19,6 +19,21 @@ vi.mock('./database', () => ({
   }
 }));
 
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue('job-1')
+  }
+}));
+
+// Mock authentication middleware
+vi.mock('../middleware/auth', () => ({
+  verifyAuth: (req: any, res: any, next: any) => {
+    req.user = { uid: 'test-user-123', role: 'patient' };
+    next();
+  },
+  requireOrderAccess: () => (req: any, res: any, next: any) => next()
+}));
+
 const app = express();
 app.use(express.json());
 app.use('/api', ocrRoutes);
@@ -81,6 +96,13 @@ describe('OCR Routes', () => {
       expect(response.body.data.orderId).toBe(orderId);
       expect(response.body.data.status).toBe('processing');
       expect(response.body.message).toBe('OCR processing started');
+
+      const { jobQueueService } = await import('./jobQueueService');
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('ocr', {
+        orderId,
+        imageUrl: 'https://example.com/prescription.jpg',
+        additionalImageUrls: []
+      });
     });
 
     it('should return 404 for non-existent order', async () => {
@@ -1,7 +1,9 @@
 import { Request, Response, Router } from 'express';
 import { ocrService } from './ocrService';
-import { OCRProcessingRequest, OCRStatusResponse, ApiResponse } from '@pharmarx/shared-types';
+import { OCRStatusResponse, ApiResponse } from '@pharmarx/shared-types';
 import { db } from './database';
+import { jobQueueService } from './jobQueueService';
+import { verifyAuth, requireOrderAccess } from '../middleware/auth';
 
 const router = Router();
 
@@ -9,7 +11,7 @@ const router = Router();
  * POST /orders/:orderId/process-ocr
  * Trigger OCR processing for an uploaded prescription
  */
-router.post('/orders/:orderId/process-ocr', async (req: Request, res: Response) => {
+router.post('/orders/:orderId/process-ocr', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     
@@ -49,35 +51,44 @@ router.post('/orders/:orderId/process-ocr', async (req: Request, res: Response)
           orderId,
           status: 'completed',
           extractedText: orderData.extractedText,
+          confidence: orderData.ocrConfidence,
+          pages: orderData.ocrPages,
+          engines: orderData.ocrEngines,
+          extractedMedications: orderData.extractedMedications?.map((medication: any) => ({
+            ...medication,
+            prescribedDate: medication.prescribedDate?.toDate()
+          })),
           processedAt: orderData.ocrProcessedAt?.toDate()
         } as OCRStatusResponse,
         message: 'OCR already completed for this order'
       } as ApiResponse<OCRStatusResponse>);
     }
 
-    // Validate image URL
-    const validation = ocrService.validateImageForOCR(orderData.originalImageUrl);
-    if (!validation.isValid) {
+    // Validate image URLs
+    const imageUrls: string[] = [orderData.originalImageUrl, ...(orderData.additionalImageUrls || [])];
+    const validation = imageUrls
+      .map(imageUrl => ocrService.validateImageForOCR(imageUrl))
+      .find(result => !result.isValid);
+    if (validation) {
       return res.status(400).json({
         success: false,
         error: `Invalid image for OCR: ${validation.errors.join(', ')}`
       } as ApiResponse<null>);
     }
 
+    // Queue the OCR run so it survives a restart
+    await jobQueueService.enqueue('ocr', {
+      orderId,
+      imageUrl: orderData.originalImageUrl,
+      additionalImageUrls: orderData.additionalImageUrls || []
+    });
+
     // Update order status to processing
     await orderRef.update({
       ocrStatus: 'processing',
       updatedAt: new Date()
     });
 
-    // Process OCR asynchronously (don't await to avoid blocking)
-    const ocrRequest: OCRProcessingRequest = {
-      orderId,
-      imageUrl: orderData.originalImageUrl
-    };
-
-    processOCRAsync(ocrRequest);
-
     // Return immediately with processing status
     res.status(202).json({
       success: true,
@@ -102,7 +113,7 @@ router.post('/orders/:orderId/process-ocr', async (req: Request, res: Response)
  * GET /orders/:orderId/ocr-status
  * Check OCR processing status for an order
  */
-router.get('/orders/:orderId/ocr-status', async (req: Request, res: Response) => {
+router.get('/orders/:orderId/ocr-status', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
 
@@ -124,6 +135,13 @@ router.get('/orders/:orderId/ocr-status', async (req: Request, res: Response) =>
       orderId,
       status: orderData?.ocrStatus || 'pending',
       extractedText: orderData?.extractedText,
+      confidence: orderData?.ocrConfidence,
+      pages: orderData?.ocrPages,
+      engines: orderData?.ocrEngines,
+      extractedMedications: orderData?.extractedMedications?.map((medication: any) => ({
+        ...medication,
+        prescribedDate: medication.prescribedDate?.toDate()
+      })),
       error: orderData?.ocrError,
       processedAt: orderData?.ocrProcessedAt?.toDate()
     };
@@ -171,20 +189,4 @@ router.get('/ocr/health', async (req: Request, res: Response) => {
   }
 });
 
-/**
- * Async function to process OCR without blocking the API response
- */
-async function processOCRAsync(request: OCRProcessingRequest): Promise<void> {
-  const { orderId } = request;
-  
-  try {
-    // Use shared OCR processing logic
-    const orderRef = db.collection('prescriptionOrders').doc(orderId);
-    await ocrService.processImageAndUpdateOrder(request, orderRef);
-    
-  } catch (error) {
-    console.error(`Unexpected error during async OCR processing setup for order: ${orderId}`, error);
-  }
-}
-
 export { router as ocrRoutes }; 
\ No newline at end of file
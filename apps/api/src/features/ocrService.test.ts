@@ -1,11 +1,23 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OCRService } from './ocrService';
 import { OCRProcessingRequest } from '@pharmarx/shared-types';
+import { loadOCRConfig, validateOCRConfig } from '../config/gcpConfig';
+
+const { mockRecognize, mockCreateWorker } = vi.hoisted(() => {
+  const mockRecognize = vi.fn();
+  return { mockRecognize, mockCreateWorker: vi.fn(async () => ({ recognize: mockRecognize, terminate: vi.fn() })) };
+});
+
+// Mock Tesseract so the fallback engine never downloads language data
+vi.mock('tesseract.js', () => ({
+  createWorker: mockCreateWorker
+}));
 
 // Mock Google Cloud Vision client - hoisted
 vi.mock('@google-cloud/vision', () => ({
   ImageAnnotatorClient: vi.fn(() => ({
     textDetection: vi.fn(),
+    batchAnnotateFiles: vi.fn(),
     getProjectId: vi.fn()
   }))
 }));
@@ -186,6 +198,19 @@ describe('OCRService', () => {
       });
     });
 
+    it('should accept private storage paths', () => {
+      const result = ocrService.validateImageForOCR('gs://pharmarx-prescriptions/prescriptions/user-1/abc.jpg');
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject data URIs', () => {
+      const result = ocrService.validateImageForOCR('data:image/png;base64,iVBORw0KGgo=');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Image URL must use HTTP, HTTPS, or gs:// protocol');
+    });
+
     it('should accept supported file types', () => {
       const supportedUrls = [
         'https://example.com/image.jpg',
@@ -290,4 +315,252 @@ describe('OCRService', () => {
       expect(result.extractedText).toBe(largeText);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('multi-page prescriptions', () => {
+    // The client instance the service under test was constructed with
+    let client: { textDetection: any; batchAnnotateFiles: any };
+    const pdfBytes = Buffer.from('%PDF-1.7');
+
+    const pdfPage = (pageNumber: number, text: string, confidence = 0.9) => ({
+      context: { pageNumber },
+      fullTextAnnotation: { text, pages: [{ confidence }] }
+    });
+
+    beforeEach(async () => {
+      const { ImageAnnotatorClient } = await import('@google-cloud/vision');
+      client = (ImageAnnotatorClient as any).mock.results.at(-1).value;
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => pdfBytes
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('reads each page of a PDF with document text detection', async () => {
+      client.batchAnnotateFiles.mockResolvedValueOnce([{
+        responses: [{
+          totalPages: 2,
+          responses: [
+            pdfPage(1, 'Amoxicillin 500mg\nTake twice daily', 0.9),
+            pdfPage(2, 'Qty: 20', 0.7)
+          ]
+        }]
+      }]);
+
+      const result = await ocrService.processImage({
+        orderId: 'pdf-order',
+        imageUrl: 'https://example.com/prescription.pdf'
+      });
+
+      expect(result.success).toBe(true);
+      expect(fetch).toHaveBeenCalledWith('https://example.com/prescription.pdf');
+      expect(client.batchAnnotateFiles).toHaveBeenCalledTimes(1);
+      expect(client.batchAnnotateFiles).toHaveBeenCalledWith({
+        requests: [expect.objectContaining({
+          inputConfig: { content: pdfBytes, mimeType: 'application/pdf' },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }]
+        })]
+      });
+      expect(result.pages).toEqual([
+        { pageNumber: 1, imageIndex: 0, pdfPageNumber: 1, text: 'Amoxicillin 500mg\nTake twice daily', confidence: 0.9, engine: 'google_vision' },
+        { pageNumber: 2, imageIndex: 0, pdfPageNumber: 2, text: 'Qty: 20', confidence: 0.7, engine: 'google_vision' }
+      ]);
+      expect(result.extractedText).toBe('Amoxicillin 500mg\nTake twice daily\n\nQty: 20');
+      expect(client.textDetection).not.toHaveBeenCalled();
+    });
+
+    it('requests later pages of long PDFs five at a time', async () => {
+      client.batchAnnotateFiles
+        .mockResolvedValueOnce([{
+          responses: [{
+            totalPages: 7,
+            responses: [1, 2, 3, 4, 5].map(page => pdfPage(page, `Page ${page}`))
+          }]
+        }])
+        .mockResolvedValueOnce([{
+          responses: [{
+            totalPages: 7,
+            responses: [pdfPage(6, 'Page 6'), pdfPage(7, 'Page 7')]
+          }]
+        }]);
+
+      const result = await ocrService.processImage({
+        orderId: 'long-pdf-order',
+        imageUrl: 'https://example.com/prescription.pdf'
+      });
+
+      expect(client.batchAnnotateFiles).toHaveBeenCalledTimes(2);
+      expect(client.batchAnnotateFiles.mock.calls[1][0].requests[0].pages).toEqual([6, 7]);
+      expect(result.pages?.map(page => page.pdfPageNumber)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('keeps blank pages without letting them lower the confidence', async () => {
+      client.batchAnnotateFiles.mockResolvedValueOnce([{
+        responses: [{
+          totalPages: 2,
+          responses: [pdfPage(1, 'Metformin 850mg', 0.8), { context: { pageNumber: 2 }, fullTextAnnotation: null }]
+        }]
+      }]);
+
+      const result = await ocrService.processImage({
+        orderId: 'blank-page-order',
+        imageUrl: 'https://example.com/prescription.pdf'
+      });
+
+      expect(result.pages?.[1]).toMatchObject({ pageNumber: 2, text: '', confidence: 0 });
+      expect(result.confidence).toBe(0.8);
+    });
+
+    it('fails when no page of the PDF has text', async () => {
+      client.batchAnnotateFiles.mockResolvedValue([{
+        responses: [{ totalPages: 1, responses: [{ context: { pageNumber: 1 } }] }]
+      }]);
+
+      const result = await ocrService.processImage({
+        orderId: 'empty-pdf-order',
+        imageUrl: 'https://example.com/prescription.pdf'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('OCR failed after 3 attempts. Last error: No text detected in the PDF');
+    });
+
+    it('reads every photo of a multi-page prescription in order', async () => {
+      client.textDetection
+        .mockResolvedValueOnce([{ textAnnotations: [{ description: 'Amoxicillin 500mg' }, { confidence: 0.9 }] }])
+        .mockResolvedValueOnce([{ textAnnotations: [{ description: 'Ibuprofen 400mg x2' }, { confidence: 0.6 }] }]);
+
+      const result = await ocrService.processImage({
+        orderId: 'photos-order',
+        imageUrl: 'https://example.com/page-1.jpg',
+        additionalImageUrls: ['https://example.com/page-2.jpg']
+      });
+
+      expect(client.textDetection).toHaveBeenNthCalledWith(2, {
+        image: { source: { imageUri: 'https://example.com/page-2.jpg' } }
+      });
+      expect(result.pages).toEqual([
+        { pageNumber: 1, imageIndex: 0, text: 'Amoxicillin 500mg', confidence: 0.9, engine: 'google_vision' },
+        { pageNumber: 2, imageIndex: 1, text: 'Ibuprofen 400mg x2', confidence: 0.6, engine: 'google_vision' }
+      ]);
+      expect(result.extractedText).toBe('Amoxicillin 500mg\n\nIbuprofen 400mg x2');
+      // Weighted by the length of each page's text
+      expect(result.confidence).toBe(0.75);
+      expect(result.engines).toEqual(['google_vision']);
+    });
+  });
+
+  describe('engine failover', () => {
+    let client: { textDetection: any; batchAnnotateFiles: any };
+    let service: OCRService;
+
+    beforeEach(async () => {
+      vi.mocked(loadOCRConfig).mockReturnValueOnce({
+        maxRetries: 3,
+        retryDelay: 100,
+        gcpConfig: { projectId: 'test-project' },
+        engine: 'google_vision',
+        fallbackEngine: 'tesseract',
+        tesseract: { languages: 'eng+fra' }
+      });
+      service = new OCRService();
+
+      const { ImageAnnotatorClient } = await import('@google-cloud/vision');
+      client = (ImageAnnotatorClient as any).mock.results.at(-1).value;
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => Buffer.from([0xff, 0xd8, 0xff])
+      }));
+      mockRecognize.mockResolvedValue({ data: { text: 'Paracetamol 500mg', confidence: 81 } });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('moves straight to Tesseract when Vision is out of quota', async () => {
+      client.textDetection.mockRejectedValue(Object.assign(new Error('8 RESOURCE_EXHAUSTED: Quota exceeded'), { code: 8 }));
+
+      const result = await service.processImage({
+        orderId: 'quota-order',
+        imageUrl: 'https://example.com/prescription.jpg'
+      });
+
+      expect(client.textDetection).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.extractedText).toBe('Paracetamol 500mg');
+      expect(result.engines).toEqual(['tesseract']);
+      expect(result.pages?.[0]).toMatchObject({ engine: 'tesseract', confidence: 0.81 });
+    });
+
+    it('fails over once Vision has used up its retries', async () => {
+      client.textDetection.mockRejectedValue(new Error('14 UNAVAILABLE'));
+
+      const result = await service.processImage({
+        orderId: 'outage-order',
+        imageUrl: 'https://example.com/prescription.jpg'
+      });
+
+      expect(client.textDetection).toHaveBeenCalledTimes(3);
+      expect(result.success).toBe(true);
+      expect(result.engines).toEqual(['tesseract']);
+    });
+
+    it('records each engine used when pages were read by different ones', async () => {
+      client.textDetection
+        .mockResolvedValueOnce([{ textAnnotations: [{ description: 'Amoxicillin 500mg' }] }])
+        .mockRejectedValue(Object.assign(new Error('Quota exceeded'), { code: 8 }));
+
+      const result = await service.processImage({
+        orderId: 'mixed-order',
+        imageUrl: 'https://example.com/page-1.jpg',
+        additionalImageUrls: ['https://example.com/page-2.jpg']
+      });
+
+      expect(result.pages?.map(page => page.engine)).toEqual(['google_vision', 'tesseract']);
+      expect(result.engines).toEqual(['google_vision', 'tesseract']);
+    });
+
+    it('does not send PDFs to Tesseract', async () => {
+      client.batchAnnotateFiles.mockRejectedValue(Object.assign(new Error('Quota exceeded'), { code: 8 }));
+
+      const result = await service.processImage({
+        orderId: 'pdf-quota-order',
+        imageUrl: 'https://example.com/prescription.pdf'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Google Vision quota exceeded');
+      expect(mockRecognize).not.toHaveBeenCalled();
+    });
+
+    it('reports the last error when every engine fails', async () => {
+      client.textDetection.mockRejectedValue(Object.assign(new Error('Quota exceeded'), { code: 8 }));
+      mockRecognize.mockResolvedValue({ data: { text: '  ', confidence: 0 } });
+
+      const result = await service.processImage({
+        orderId: 'unreadable-order',
+        imageUrl: 'https://example.com/prescription.jpg'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('OCR failed after 3 attempts. Last error: No text detected in the image');
+    });
+  });
+
+  describe('configuration', () => {
+    it('starts with default retry settings instead of throwing on invalid config', () => {
+      vi.mocked(validateOCRConfig).mockReturnValueOnce({
+        isValid: false,
+        errors: ['maxRetries must be between 1 and 10']
+      });
+
+      expect(() => new OCRService()).not.toThrow();
+    });
+  });
+});
@@ -1,46 +1,95 @@
-import { ImageAnnotatorClient } from '@google-cloud/vision';
-import { OCRProcessingRequest, OCRProcessingResult, OCRStatus } from '@pharmarx/shared-types';
+import { OCREngineName, OCRPageResult, OCRProcessingRequest, OCRProcessingResult, OCRStatus } from '@pharmarx/shared-types';
 import { loadOCRConfig, validateOCRConfig, OCRConfig } from '../config/gcpConfig';
+import { medicationExtractor } from './medicationExtractor';
+import { prescriptionStorageService } from './prescriptionStorageService';
+import { OcrEngine, OcrPageText, OcrQuotaExceededError, createOcrEngine } from './ocrEngines';
+
+// Used in place of retry settings that fail validation
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+const isPdfUrl = (url: string): boolean => {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+};
 
 export class OCRService {
-  private client: ImageAnnotatorClient;
+  private engines: OcrEngine[];
   private config: OCRConfig;
 
   constructor() {
-    // Load and validate configuration
+    // Load and validate configuration. A bad setting is logged rather than thrown so the
+    // API still starts; prescriptions can be entered by hand until OCR is fixed.
     this.config = loadOCRConfig();
     const validation = validateOCRConfig(this.config);
     
     if (!validation.isValid) {
-      console.error('OCR configuration validation failed:', validation.errors);
-      throw new Error(`OCR configuration invalid: ${validation.errors.join(', ')}`);
+      console.error('OCR configuration validation failed, using default retry settings:', validation.errors);
+      this.config = { ...this.config, maxRetries: DEFAULT_MAX_RETRIES, retryDelay: DEFAULT_RETRY_DELAY };
     }
 
-    // Initialize Google Cloud Vision client with configuration
-    this.client = new ImageAnnotatorClient(this.config.gcpConfig);
-    console.log('OCR Service initialized successfully');
+    // Engines in the order they are tried: the configured engine, then its fallback
+    const engineNames = [this.config.engine || 'google_vision', this.config.fallbackEngine]
+      .filter((name, index, names): name is OCREngineName => !!name && names.indexOf(name) === index);
+
+    this.engines = engineNames.flatMap(name => {
+      try {
+        return [createOcrEngine(name, this.config)];
+      } catch (error) {
+        console.error(`Could not start the ${name} OCR engine:`, error);
+        return [];
+      }
+    });
+
+    console.log(`OCR Service initialized with ${this.engines.map(engine => engine.name).join(', then ') || 'no engines'}`);
   }
 
   /**
-   * Process OCR for a prescription image
+   * Process OCR for a prescription: every photo, and every page of any PDF, in order
    */
   async processImage(request: OCRProcessingRequest): Promise<OCRProcessingResult> {
-    const { orderId, imageUrl } = request;
+    const { orderId, imageUrl, additionalImageUrls = [] } = request;
     
     try {
       console.log(`Starting OCR processing for order ${orderId}`);
       
-      // Perform text detection with retry logic
-      const extractionResult = await this.extractTextWithRetry(imageUrl);
+      const pages: OCRPageResult[] = [];
+      const imageUrls = [imageUrl, ...additionalImageUrls];
+
+      for (let imageIndex = 0; imageIndex < imageUrls.length; imageIndex++) {
+        // Private uploads are read through a signed URL
+        const readUrl = await prescriptionStorageService.getReadUrl(imageUrls[imageIndex]);
+        const { engine, extracted } = await this.extractWithFailover(readUrl, isPdfUrl(imageUrls[imageIndex]));
+
+        for (const page of extracted) {
+          pages.push({ pageNumber: pages.length + 1, imageIndex, ...page, engine });
+        }
+      }
+
+      const extractedText = pages
+        .map(page => page.text)
+        .filter(text => text.trim())
+        .join('\n\n');
+      const confidence = this.calculateDocumentConfidence(pages);
+      const engines = [...new Set(pages.map(page => page.engine!))];
+
+      // Parse the raw text into medication candidates the patient can confirm
+      const extractedMedications = medicationExtractor.extract(extractedText, confidence);
       
       const result: OCRProcessingResult = {
         success: true,
-        extractedText: extractionResult.text,
-        confidence: extractionResult.confidence,
+        extractedText,
+        confidence,
+        pages,
+        engines,
+        extractedMedications,
         processedAt: new Date()
       };
 
-      console.log(`OCR processing completed successfully for order ${orderId} with confidence ${result.confidence}`);
+      console.log(`OCR processing completed successfully for order ${orderId} with confidence ${result.confidence} across ${pages.length} page(s) using ${engines.join(', ')} and ${extractedMedications.length} medication candidate(s)`);
       return result;
 
     } catch (error) {
@@ -55,40 +104,51 @@ export class OCRService {
   }
 
   /**
-   * Extract text from image with retry logic
+   * Read a file with each engine in turn until one succeeds. Engines that cannot
+   * read PDFs are skipped for them.
    */
-  private async extractTextWithRetry(imageUrl: string): Promise<{ text: string; confidence: number }> {
+  private async extractWithFailover(fileUrl: string, isPdf: boolean): Promise<{ engine: OCREngineName; extracted: OcrPageText[] }> {
+    const engines = this.engines.filter(engine => !isPdf || engine.extractPdfText);
+    if (engines.length === 0) {
+      throw new Error(isPdf ? 'No OCR engine is available that can read PDFs' : 'No OCR engine is available');
+    }
+
     let lastError: Error | null = null;
 
-    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+    for (const [index, engine] of engines.entries()) {
       try {
-        console.log(`OCR attempt ${attempt}/${this.config.maxRetries} for image: ${imageUrl}`);
-        
-        // Call Google Cloud Vision API
-        const [result] = await this.client.textDetection({
-          image: { source: { imageUri: imageUrl } }
-        });
-
-        // Extract text from response
-        const detections = result.textAnnotations;
-        if (!detections || detections.length === 0) {
-          throw new Error('No text detected in the image');
+        const extracted = await this.withRetry(fileUrl, async () =>
+          isPdf ? engine.extractPdfText!(fileUrl) : [await engine.extractImageText(fileUrl)]
+        );
+        return { engine: engine.name, extracted };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('Unknown error');
+        if (index < engines.length - 1) {
+          console.warn(`OCR with ${engine.name} failed, failing over to ${engines[index + 1].name}:`, lastError.message);
         }
+      }
+    }
 
-        // The first annotation contains the full extracted text
-        const extractedText = detections[0].description || '';
-        
-        if (!extractedText.trim()) {
-          throw new Error('Empty text extracted from image');
-        }
+    throw lastError;
+  }
 
-        // Calculate confidence from individual word detections
-        const confidence = this.calculateOverallConfidence(detections);
+  /**
+   * Run an engine call, retrying with backoff on failure. Quota errors are not retried.
+   */
+  private async withRetry<T>(imageUrl: string, operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | null = null;
 
-        console.log(`Successfully extracted ${extractedText.length} characters of text with confidence ${confidence}`);
-        return { text: extractedText, confidence };
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        // Signed URLs are credentials, so only the path is logged
+        console.log(`OCR attempt ${attempt}/${this.config.maxRetries} for image: ${imageUrl.split('?')[0]}`);
+        return await operation();
 
       } catch (error) {
+        if (error instanceof OcrQuotaExceededError) {
+          throw error;
+        }
+
         lastError = error instanceof Error ? error : new Error('Unknown error');
         console.error(`OCR attempt ${attempt} failed:`, lastError.message);
 
@@ -104,31 +164,23 @@ export class OCRService {
   }
 
   /**
-   * Calculate overall confidence from text annotations
+   * Confidence across all pages, weighted by how much text each page holds
+   * so a blank back page does not drag the score down
    */
-  private calculateOverallConfidence(detections: any[]): number {
-    if (!detections || detections.length <= 1) {
-      return 0.85; // Default confidence when no individual word confidence available
-    }
+  private calculateDocumentConfidence(pages: OCRPageResult[]): number {
+    let weightedConfidence = 0;
+    let totalLength = 0;
 
-    // Skip the first annotation (full text) and calculate from individual words
-    const wordDetections = detections.slice(1);
-    let totalConfidence = 0;
-    let validDetections = 0;
-
-    for (const detection of wordDetections) {
-      if (detection.confidence && typeof detection.confidence === 'number') {
-        totalConfidence += detection.confidence;
-        validDetections++;
-      }
+    for (const page of pages) {
+      const length = page.text.trim().length;
+      weightedConfidence += page.confidence * length;
+      totalLength += length;
     }
 
-    if (validDetections === 0) {
-      return 0.85; // Default confidence
+    if (totalLength === 0) {
+      return 0;
     }
-
-    const averageConfidence = totalConfidence / validDetections;
-    return Math.round(averageConfidence * 100) / 100; // Round to 2 decimal places
+    return Math.round((weightedConfidence / totalLength) * 100) / 100;
   }
 
   /**
@@ -143,38 +195,27 @@ export class OCRService {
       return { isValid: false, errors };
     }
 
-    // Check if URL is accessible (proper URL format check)
+    // Check if URL is accessible (proper URL format check). Uploads are stored
+    // privately as gs:// paths; inline data URIs are not accepted for medical records.
     let parsedUrl: URL;
     try {
       parsedUrl = new URL(imageUrl);
-      if (!['http:', 'https:', 'data:'].includes(parsedUrl.protocol)) {
-        errors.push('Image URL must use HTTP, HTTPS, or data URI protocol');
+      if (!['http:', 'https:', 'gs:'].includes(parsedUrl.protocol)) {
+        errors.push('Image URL must use HTTP, HTTPS, or gs:// protocol');
       }
     } catch {
       errors.push('Invalid image URL format');
       return { isValid: false, errors };
     }
 
-    // For data URIs, validate format
-    if (parsedUrl.protocol === 'data:') {
-      const supportedDataTypes = ['data:image/jpeg', 'data:image/jpg', 'data:image/png', 'data:application/pdf'];
-      const hasValidDataType = supportedDataTypes.some(type => 
-        imageUrl.toLowerCase().startsWith(type)
-      );
-      
-      if (!hasValidDataType) {
-        errors.push('Data URI must be in JPG, PNG, or PDF format');
-      }
-    } else {
-      // For regular URLs, check file extension
-      const supportedExtensions = ['.jpg', '.jpeg', '.png', '.pdf'];
-      const hasValidExtension = supportedExtensions.some(ext => 
-        parsedUrl.pathname.toLowerCase().endsWith(ext)
-      );
-      
-      if (!hasValidExtension) {
-        errors.push('Image must be in JPG, PNG, or PDF format');
-      }
+    // Check file extension
+    const supportedExtensions = ['.jpg', '.jpeg', '.png', '.pdf'];
+    const hasValidExtension = supportedExtensions.some(ext => 
+      parsedUrl.pathname.toLowerCase().endsWith(ext)
+    );
+    
+    if (!hasValidExtension) {
+      errors.push('Image must be in JPG, PNG, or PDF format');
     }
 
     return {
@@ -187,14 +228,13 @@ export class OCRService {
    * Check OCR service health
    */
   async healthCheck(): Promise<boolean> {
-    try {
-      // Try to create a client and perform a simple operation
-      await this.client.getProjectId();
-      return true;
-    } catch (error) {
-      console.error('OCR service health check failed:', error);
-      return false;
+    // Healthy while at least one engine can take work
+    for (const engine of this.engines) {
+      if (await engine.healthCheck()) {
+        return true;
+      }
     }
+    return false;
   }
 
   /**
@@ -231,6 +271,13 @@ export class OCRService {
         await orderRef.update({
           ocrStatus: 'completed',
           extractedText: result.extractedText,
+          ocrConfidence: result.confidence,
+          ocrPages: result.pages || [],
+          ocrEngines: result.engines || [],
+          extractedMedications: (result.extractedMedications || []).map(medication => ({
+            ...medication,
+            prescribedDate: medication.prescribedDate ? createTimestamp(medication.prescribedDate) : null
+          })),
           ocrProcessedAt: createTimestamp(result.processedAt),
           ocrError: null, // Clear any previous errors
           updatedAt: createTimestamp(new Date())
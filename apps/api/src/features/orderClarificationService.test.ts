@@ -0,0 +1,344 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { orderStatusService } from './orderStatusService';
+import { jobQueueService } from './jobQueueService';
+import {
+  OrderClarificationService,
+  ClarificationNotOpenError,
+  normalizeClarificationPhone
+} from './orderClarificationService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('./orderStatusService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./orderStatusService')>(),
+  orderStatusService: {
+    transitionOrderStatus: vi.fn()
+  }
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue('job-1')
+  }
+}));
+
+vi.mock('./prescriptionStorageService', () => ({
+  PRESCRIPTION_BUCKET: 'pharmarx-prescriptions',
+  prescriptionStorageService: {
+    isStoredPrescription: (url: string) => url.startsWith('gs://pharmarx-prescriptions/'),
+    isUploadedByAnotherUser: (url: string, uid?: string) =>
+      url.startsWith('gs://pharmarx-prescriptions/') && (!uid || !url.startsWith(`gs://pharmarx-prescriptions/prescriptions/${uid}/`)),
+    getReadUrl: vi.fn(async (url: string) => url.replace('gs://', 'https://signed.example.com/'))
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      },
+      FieldValue: {
+        arrayUnion: vi.fn((value: string) => ({ arrayUnion: value }))
+      }
+    }
+  }
+}));
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+const openClarification = (overrides: Record<string, unknown> = {}) => ({
+  requestedBy: 'pharmacist-1',
+  requestedAt: timestamp('2025-01-15T09:00:00Z'),
+  notificationChannel: 'whatsapp',
+  recipientPhone: '+22997000000',
+  awaitingReplyFrom: 'patient',
+  lastMessageAt: timestamp('2025-01-15T09:00:00Z'),
+  ...overrides
+});
+
+describe('normalizeClarificationPhone', () => {
+  it('keeps the digits in E.164 form', () => {
+    expect(normalizeClarificationPhone('+229 97 00 00 00')).toBe('+22997000000');
+    expect(normalizeClarificationPhone('whatsapp:+22997000000')).toBe('+22997000000');
+    expect(normalizeClarificationPhone('22997000000')).toBe('+22997000000');
+    expect(normalizeClarificationPhone('')).toBeUndefined();
+  });
+});
+
+describe('OrderClarificationService', () => {
+  let service: OrderClarificationService;
+  let orders: Record<string, Record<string, any>>;
+  let profileData: Record<string, any> | null;
+  let users: Record<string, Record<string, any>>;
+  let messages: Array<{ id: string; data: Record<string, any> }>;
+  let mockOrderUpdate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    orders = {
+      'order-1': {
+        orderId: 'order-1',
+        patientProfileId: 'profile-1',
+        status: 'awaiting_verification',
+        originalImageUrl: 'gs://pharmarx-prescriptions/prescriptions/patient-uid/rx.jpg',
+        createdAt: timestamp('2025-01-15T08:00:00Z')
+      }
+    };
+    profileData = { managedByUid: 'patient-uid', patientName: 'Kossi Agbo' };
+    users = {
+      'patient-uid': { phoneNumber: '+229 96 11 11 11' },
+      'pharmacist-1': { phoneNumber: '+22921300000' }
+    };
+    messages = [];
+    mockOrderUpdate = vi.fn().mockResolvedValue(undefined);
+
+    const orderSnapshot = (id: string) => ({ id, exists: id in orders, data: () => orders[id] });
+    const collections: Record<string, any> = {
+      prescriptionOrders: {
+        doc: (id: string) => ({
+          get: vi.fn().mockResolvedValue(orderSnapshot(id)),
+          update: mockOrderUpdate
+        }),
+        where: (field: string, op: string, value: string) => ({
+          get: vi.fn().mockResolvedValue({
+            docs: Object.keys(orders)
+              .filter(id => orders[id].clarification?.recipientPhone === value)
+              .map(orderSnapshot)
+          })
+        })
+      },
+      patientProfiles: {
+        doc: () => ({
+          get: vi.fn().mockResolvedValue({ exists: profileData !== null, data: () => profileData })
+        })
+      },
+      users: {
+        doc: (id: string) => ({
+          get: vi.fn().mockResolvedValue({ exists: id in users, data: () => users[id] })
+        })
+      },
+      orderClarificationMessages: {
+        add: vi.fn(async (data: Record<string, any>) => {
+          const id = `message-${messages.length + 1}`;
+          messages.push({ id, data });
+          return { id };
+        }),
+        where: (field: string, op: string, value: string) => ({
+          get: vi.fn().mockResolvedValue({
+            docs: messages
+              .filter(message => message.data.orderId === value)
+              .map(message => ({ id: message.id, data: () => message.data }))
+          })
+        })
+      }
+    };
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: (name: string) => collections[name]
+    } as any);
+
+    vi.mocked(orderStatusService.transitionOrderStatus).mockImplementation(async (orderId, status) => ({
+      ...orders[orderId],
+      status
+    }) as any);
+
+    service = new OrderClarificationService();
+  });
+
+  describe('requestClarification', () => {
+    it('puts the order on hold and sends the question to the patient', async () => {
+      profileData = {
+        ...profileData,
+        notificationPreferences: { enableSMS: true, smsPhoneNumber: '+229 97 00 00 00' }
+      };
+
+      const order = await service.requestClarification('order-1', { uid: 'pharmacist-1', displayName: 'Awa Diallo' }, {
+        message: ' Is it 250mg or 500mg? ',
+        notificationChannel: 'whatsapp'
+      });
+
+      expect(order?.status).toBe('needs_clarification');
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'needs_clarification', {
+        actor: 'pharmacist',
+        changedBy: 'pharmacist-1',
+        reason: 'Is it 250mg or 500mg?',
+        updates: {
+          clarification: expect.objectContaining({
+            requestedBy: 'pharmacist-1',
+            notificationChannel: 'whatsapp',
+            recipientPhone: '+22997000000',
+            awaitingReplyFrom: 'patient'
+          })
+        }
+      });
+      expect(messages[0].data).toMatchObject({
+        orderId: 'order-1',
+        authorRole: 'pharmacist',
+        authorUid: 'pharmacist-1',
+        authorName: 'Awa Diallo',
+        channel: 'web',
+        text: 'Is it 250mg or 500mg?'
+      });
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', {
+        channel: 'whatsapp',
+        recipientPhone: '+22997000000',
+        message: expect.stringContaining('"Is it 250mg or 500mg?"')
+      });
+      // Replies quote it when the patient has other questions open
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', expect.objectContaining({
+        message: expect.stringContaining('quoting order-1')
+      }));
+    });
+
+    it('texts the account managing the profile when it has no SMS preference', async () => {
+      await service.requestClarification('order-1', { uid: 'pharmacist-1' }, { message: 'Which strength?' });
+
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', expect.objectContaining({
+        channel: 'sms',
+        recipientPhone: '+22996111111'
+      }));
+    });
+
+    it('requires a question and an existing order', async () => {
+      await expect(service.requestClarification('order-1', { uid: 'pharmacist-1' }, { message: '  ' }))
+        .rejects.toThrow('Validation failed: A message needs text or a photo');
+      expect(await service.requestClarification('missing', { uid: 'pharmacist-1' }, { message: 'Which strength?' }))
+        .toBeNull();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postMessage', () => {
+    beforeEach(() => {
+      orders['order-1'] = { ...orders['order-1'], status: 'needs_clarification', clarification: openClarification() };
+    });
+
+    it('notifies the patient of a pharmacist follow-up on the thread channel', async () => {
+      const message = await service.postMessage('order-1', { role: 'pharmacist', uid: 'pharmacist-1' }, { text: 'And how many days?' });
+
+      expect(message).toMatchObject({ messageId: 'message-1', authorRole: 'pharmacist', text: 'And how many days?' });
+      expect(mockOrderUpdate).toHaveBeenCalledWith(expect.objectContaining({ 'clarification.awaitingReplyFrom': 'patient' }));
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', expect.objectContaining({
+        channel: 'whatsapp',
+        recipientPhone: '+22997000000'
+      }));
+    });
+
+    it('adds a patient photo to the prescription and texts the pharmacist', async () => {
+      const imageUrl = 'gs://pharmarx-prescriptions/prescriptions/patient-uid/page-2.jpg';
+
+      await service.postMessage('order-1', { role: 'patient', uid: 'patient-uid' }, { imageUrl });
+
+      expect(mockOrderUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        'clarification.awaitingReplyFrom': 'pharmacist',
+        additionalImageUrls: { arrayUnion: imageUrl }
+      }));
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', {
+        channel: 'sms',
+        recipientPhone: '+22921300000',
+        message: expect.stringContaining('the patient replied about order order-1')
+      });
+    });
+
+    it('rejects photos uploaded by someone else', async () => {
+      await expect(service.postMessage('order-1', { role: 'patient', uid: 'patient-uid' }, {
+        imageUrl: 'gs://pharmarx-prescriptions/prescriptions/other-uid/rx.jpg'
+      })).rejects.toThrow('imageUrl must be a photo you uploaded');
+      expect(messages).toHaveLength(0);
+    });
+
+    it('refuses messages once the order has left needs_clarification', async () => {
+      orders['order-1'].status = 'awaiting_payment';
+
+      await expect(service.postMessage('order-1', { role: 'patient', uid: 'patient-uid' }, { text: 'Hello?' }))
+        .rejects.toThrow(ClarificationNotOpenError);
+      expect(messages).toHaveLength(0);
+    });
+  });
+
+  describe('getThread', () => {
+    it('returns the messages oldest first with photos signed', async () => {
+      messages = [
+        { id: 'message-2', data: { orderId: 'order-1', authorRole: 'patient', channel: 'web', imageUrl: 'gs://pharmarx-prescriptions/prescriptions/patient-uid/p2.jpg', createdAt: timestamp('2025-01-15T10:00:00Z') } },
+        { id: 'message-1', data: { orderId: 'order-1', authorRole: 'pharmacist', channel: 'web', text: 'Which strength?', createdAt: timestamp('2025-01-15T09:00:00Z') } },
+        { id: 'message-3', data: { orderId: 'order-2', authorRole: 'pharmacist', channel: 'web', text: 'Other order', createdAt: timestamp('2025-01-15T09:30:00Z') } }
+      ];
+
+      const thread = await service.getThread('order-1');
+
+      expect(thread.map(message => message.messageId)).toEqual(['message-1', 'message-2']);
+      expect(thread[0].createdAt).toEqual(new Date('2025-01-15T09:00:00Z'));
+      expect(thread[1].imageUrl).toBe('https://signed.example.com/pharmarx-prescriptions/prescriptions/patient-uid/p2.jpg');
+    });
+  });
+
+  describe('receiveInboundReply', () => {
+    it('answers the only question open for the number', async () => {
+      orders['order-1'] = { ...orders['order-1'], status: 'needs_clarification', clarification: openClarification() };
+      orders['order-3'] = {
+        ...orders['order-1'],
+        orderId: 'order-3',
+        status: 'awaiting_payment',
+        clarification: openClarification({ requestedAt: timestamp('2025-01-17T09:00:00Z') })
+      };
+
+      const message = await service.receiveInboundReply('whatsapp', '22997000000', { text: '500mg' });
+
+      expect(message).toMatchObject({ orderId: 'order-1', authorRole: 'patient', channel: 'whatsapp', text: '500mg' });
+      expect(message?.authorUid).toBeUndefined();
+    });
+
+    it('adds a photo the webhook stored to the prescription', async () => {
+      orders['order-1'] = { ...orders['order-1'], status: 'needs_clarification', clarification: openClarification() };
+      const imageUrl = 'gs://pharmarx-prescriptions/inbound/whatsapp/photo.jpg';
+
+      const message = await service.receiveInboundReply('whatsapp', '22997000000', { imageUrl });
+
+      expect(message).toMatchObject({ orderId: 'order-1', imageUrl });
+      expect(mockOrderUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        additionalImageUrls: { arrayUnion: imageUrl }
+      }));
+    });
+
+    describe('with several questions open for the number', () => {
+      beforeEach(() => {
+        orders['order-1'] = { ...orders['order-1'], status: 'needs_clarification', clarification: openClarification() };
+        orders['order-2'] = {
+          ...orders['order-1'],
+          orderId: 'order-2',
+          clarification: openClarification({ requestedAt: timestamp('2025-01-16T09:00:00Z') })
+        };
+      });
+
+      it('answers the order the reply quotes', async () => {
+        const message = await service.receiveInboundReply('sms', '+22997000000', { text: 'ORDER-1: it is 500mg' });
+
+        expect(message).toMatchObject({ orderId: 'order-1', channel: 'sms', text: 'ORDER-1: it is 500mg' });
+      });
+
+      it('asks the sender which order they mean instead of guessing', async () => {
+        expect(await service.receiveInboundReply('sms', '+22997000000', { text: '500mg' })).toBeNull();
+
+        expect(messages).toHaveLength(0);
+        expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', {
+          channel: 'sms',
+          recipientPhone: '+22997000000',
+          message: expect.stringContaining('orders order-1, order-2')
+        });
+      });
+    });
+
+    it('ignores numbers with no open question', async () => {
+      expect(await service.receiveInboundReply('sms', '+22990000000', { text: 'Hello' })).toBeNull();
+      expect(messages).toHaveLength(0);
+    });
+  });
+});
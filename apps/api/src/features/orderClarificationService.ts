@@ -0,0 +1,302 @@
+import databaseService from './database';
+import {
+  ClarificationAuthorRole,
+  ClarificationChannel,
+  ClarificationNotificationChannel,
+  OrderClarificationMessage,
+  PostClarificationMessageRequest,
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  RequestClarificationRequest,
+  validateClarificationMessage
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { orderStatusService, mapOrderDocument } from './orderStatusService';
+import { jobQueueService } from './jobQueueService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+
+// Who wrote a message. Replies by SMS or WhatsApp are not tied to an account.
+export interface ClarificationAuthor {
+  role: ClarificationAuthorRole;
+  uid?: string;
+  displayName?: string;
+}
+
+/**
+ * Raised when a message is posted to an order that is not waiting for clarification.
+ * Routes translate this into a 409 Conflict.
+ */
+export class ClarificationNotOpenError extends Error {
+  constructor(public readonly currentStatus: PrescriptionOrderStatus) {
+    super(`Order is not waiting for clarification (current status: ${currentStatus})`);
+    this.name = 'ClarificationNotOpenError';
+  }
+}
+
+// Replies arrive as "+229 97 00 00 00", "22997000000" or "whatsapp:+22997000000"
+export const normalizeClarificationPhone = (phone?: string): string | undefined => {
+  const digits = phone?.replace(/[^\d]/g, '');
+  return digits ? `+${digits}` : undefined;
+};
+
+const shortOrderId = (orderId: string): string => orderId.substring(0, 8);
+
+const mapMessageDocument = (doc: admin.firestore.DocumentSnapshot): OrderClarificationMessage => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    messageId: doc.id,
+    createdAt: data.createdAt?.toDate() || new Date()
+  } as OrderClarificationMessage;
+};
+
+export class OrderClarificationService {
+  /**
+   * Put an order on hold while the pharmacist asks the patient a question, instead of
+   * rejecting it. The question is sent to the patient by SMS or WhatsApp, and starts the
+   * order's thread. Returns null when the order does not exist.
+   */
+  async requestClarification(
+    orderId: string,
+    pharmacist: { uid: string; displayName?: string },
+    request: RequestClarificationRequest
+  ): Promise<PrescriptionOrder | null> {
+    const db = databaseService.getDb();
+    const errors = validateClarificationMessage({ text: request.message });
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    const orderDoc = await db.collection('prescriptionOrders').doc(orderId).get();
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const order = mapOrderDocument(orderDoc);
+    const notificationChannel = request.notificationChannel || 'sms';
+    const recipientPhone = await this.getPatientPhone(order.patientProfileId);
+    const now = admin.firestore.Timestamp.fromDate(new Date());
+
+    const updatedOrder = await orderStatusService.transitionOrderStatus(orderId, 'needs_clarification', {
+      actor: 'pharmacist',
+      changedBy: pharmacist.uid,
+      reason: request.message.trim(),
+      updates: {
+        clarification: {
+          requestedBy: pharmacist.uid,
+          requestedAt: now,
+          notificationChannel,
+          ...(recipientPhone && { recipientPhone }),
+          awaitingReplyFrom: 'patient',
+          lastMessageAt: now
+        }
+      }
+    });
+
+    const message = await this.saveMessage(orderId, { role: 'pharmacist', ...pharmacist }, 'web', { text: request.message });
+    await this.notify(recipientPhone, notificationChannel, this.formatPatientNotification(orderId, message), orderId);
+
+    return updatedOrder;
+  }
+
+  /**
+   * Every message on the order's thread, oldest first, with photos signed for reading
+   */
+  async getThread(orderId: string): Promise<OrderClarificationMessage[]> {
+    const db = databaseService.getDb();
+    const snapshot = await db.collection('orderClarificationMessages').where('orderId', '==', orderId).get();
+    const messages = snapshot.docs
+      .map(mapMessageDocument)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return Promise.all(messages.map(async message => message.imageUrl
+      ? { ...message, imageUrl: await prescriptionStorageService.getReadUrl(message.imageUrl) }
+      : message));
+  }
+
+  /**
+   * Add a message to the thread of an order waiting for clarification and notify the
+   * other side. Returns null when the order does not exist.
+   */
+  async postMessage(
+    orderId: string,
+    author: ClarificationAuthor,
+    input: PostClarificationMessageRequest,
+    channel: ClarificationChannel = 'web'
+  ): Promise<OrderClarificationMessage | null> {
+    const db = databaseService.getDb();
+    const errors = validateClarificationMessage(input);
+    // Photos sent by SMS or WhatsApp were stored by the webhook that received them
+    if (input.imageUrl && channel === 'web' && prescriptionStorageService.isUploadedByAnotherUser(input.imageUrl, author.uid)) {
+      errors.push('imageUrl must be a photo you uploaded');
+    }
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    const orderRef = db.collection('prescriptionOrders').doc(orderId);
+    const orderDoc = await orderRef.get();
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const order = mapOrderDocument(orderDoc);
+    if (order.status !== 'needs_clarification' || !order.clarification) {
+      throw new ClarificationNotOpenError(order.status);
+    }
+
+    const message = await this.saveMessage(orderId, author, channel, input);
+    await orderRef.update({
+      'clarification.awaitingReplyFrom': author.role === 'pharmacist' ? 'patient' : 'pharmacist',
+      'clarification.lastMessageAt': admin.firestore.Timestamp.fromDate(message.createdAt),
+      // A patient's extra photo becomes another page of the prescription for the review
+      ...(author.role === 'patient' && message.imageUrl && {
+        additionalImageUrls: admin.firestore.FieldValue.arrayUnion(message.imageUrl)
+      }),
+      updatedAt: admin.firestore.Timestamp.fromDate(message.createdAt)
+    });
+
+    if (author.role === 'pharmacist') {
+      await this.notify(
+        order.clarification.recipientPhone,
+        order.clarification.notificationChannel,
+        this.formatPatientNotification(orderId, message),
+        orderId
+      );
+    } else {
+      // Pharmacists see replies in their queue; those with a phone number are also texted
+      const pharmacistDoc = await db.collection('users').doc(order.clarification.requestedBy).get();
+      await this.notify(
+        pharmacistDoc.data()?.phoneNumber,
+        'sms',
+        `PharmaRx: the patient replied about order ${shortOrderId(orderId)}. Open the review queue to continue.`,
+        orderId
+      );
+    }
+
+    return message;
+  }
+
+  /**
+   * Add a reply sent by SMS or WhatsApp to the thread it answers, matched by the sender's
+   * phone number. When several of that number's orders are waiting for clarification the
+   * reply has to quote the order's short id, as sent with the question; otherwise the sender
+   * is asked to. Returns null when the reply does not fit a single thread.
+   */
+  async receiveInboundReply(
+    channel: ClarificationNotificationChannel,
+    fromPhone: string,
+    input: PostClarificationMessageRequest
+  ): Promise<OrderClarificationMessage | null> {
+    const db = databaseService.getDb();
+    const recipientPhone = normalizeClarificationPhone(fromPhone);
+    if (!recipientPhone) {
+      return null;
+    }
+
+    const snapshot = await db.collection('prescriptionOrders')
+      .where('clarification.recipientPhone', '==', recipientPhone)
+      .get();
+    const openOrders = snapshot.docs
+      .map(mapOrderDocument)
+      .filter(candidate => candidate.status === 'needs_clarification');
+
+    if (openOrders.length === 0) {
+      console.log(`No order waiting for clarification from ${channel} sender ${recipientPhone}`);
+      return null;
+    }
+
+    const text = input.text?.toLowerCase() || '';
+    const order = openOrders.length === 1
+      ? openOrders[0]
+      : openOrders.find(candidate => text.includes(shortOrderId(candidate.orderId).toLowerCase()));
+
+    if (!order) {
+      const shortIds = openOrders.map(candidate => shortOrderId(candidate.orderId));
+      await this.notify(
+        recipientPhone,
+        channel,
+        `PharmaRx: you have questions waiting on orders ${shortIds.join(', ')}. ` +
+          'Please reply again with the order number in your message, or open the app to answer.',
+        shortIds.join(', ')
+      );
+      return null;
+    }
+
+    return this.postMessage(order.orderId, { role: 'patient' }, input, channel);
+  }
+
+  private async saveMessage(
+    orderId: string,
+    author: ClarificationAuthor,
+    channel: ClarificationChannel,
+    input: PostClarificationMessageRequest
+  ): Promise<OrderClarificationMessage> {
+    const db = databaseService.getDb();
+    const text = input.text?.trim();
+    const message: Omit<OrderClarificationMessage, 'messageId'> = {
+      orderId,
+      authorRole: author.role,
+      ...(author.uid && { authorUid: author.uid }),
+      ...(author.displayName && { authorName: author.displayName }),
+      channel,
+      ...(text && { text }),
+      ...(input.imageUrl && { imageUrl: input.imageUrl }),
+      createdAt: new Date()
+    };
+
+    const messageRef = await db.collection('orderClarificationMessages').add({
+      ...message,
+      createdAt: admin.firestore.Timestamp.fromDate(message.createdAt)
+    });
+
+    return { ...message, messageId: messageRef.id };
+  }
+
+  /**
+   * The number the patient's notifications go to: the profile's SMS preference, or the
+   * phone number of the account managing the profile
+   */
+  private async getPatientPhone(patientProfileId: string): Promise<string | undefined> {
+    const db = databaseService.getDb();
+    const profileDoc = await db.collection('patientProfiles').doc(patientProfileId).get();
+    const profile = profileDoc.data();
+    if (profile?.notificationPreferences?.enableSMS && profile.notificationPreferences.smsPhoneNumber) {
+      return normalizeClarificationPhone(profile.notificationPreferences.smsPhoneNumber);
+    }
+    if (!profile?.managedByUid) {
+      return undefined;
+    }
+
+    const userDoc = await db.collection('users').doc(profile.managedByUid).get();
+    return normalizeClarificationPhone(userDoc.data()?.phoneNumber);
+  }
+
+  private formatPatientNotification(orderId: string, message: OrderClarificationMessage): string {
+    const body = message.text ? `: "${message.text}"` : ' and sent a photo';
+    return `PharmaRx: your pharmacist has a question about order ${shortOrderId(orderId)}${body}. ` +
+      `Reply to this message, quoting ${shortOrderId(orderId)} if you have other orders on hold, or open the app to answer.`;
+  }
+
+  /**
+   * Queue a notification. Failures are logged; the message is already on the thread.
+   */
+  private async notify(
+    recipientPhone: string | undefined,
+    channel: ClarificationNotificationChannel,
+    message: string,
+    orderId: string
+  ): Promise<void> {
+    if (!recipientPhone) {
+      return;
+    }
+
+    try {
+      await jobQueueService.enqueue('send_message', { channel, recipientPhone, message });
+    } catch (error) {
+      console.error(`Error queueing clarification notification for order ${orderId}:`, error);
+    }
+  }
+}
+
+export const orderClarificationService = new OrderClarificationService();
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { OrderStatusService, InvalidStatusTransitionError } from './orderStatusService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      },
+      FieldValue: {
+        arrayUnion: vi.fn((...entries: unknown[]) => ({ arrayUnion: entries }))
+      }
+    }
+  }
+}));
+
+describe('OrderStatusService', () => {
+  let service: OrderStatusService;
+  let mockTransaction: any;
+  let mockOrderRef: any;
+  let storedOrder: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    storedOrder = {
+      exists: true,
+      id: 'order-1',
+      data: () => ({
+        orderId: 'order-1',
+        status: 'awaiting_verification',
+        createdAt: { toDate: () => new Date('2025-01-01T00:00:00Z') }
+      })
+    };
+
+    mockOrderRef = {
+      get: vi.fn(() => Promise.resolve(storedOrder))
+    };
+
+    mockTransaction = {
+      get: vi.fn(() => Promise.resolve(storedOrder)),
+      update: vi.fn()
+    };
+
+    const mockDb = {
+      collection: vi.fn().mockReturnValue({
+        doc: vi.fn().mockReturnValue(mockOrderRef)
+      }),
+      runTransaction: vi.fn((callback: (transaction: any) => Promise<unknown>) => callback(mockTransaction))
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+    service = new OrderStatusService();
+  });
+
+  it('should apply an allowed transition and append it to the history', async () => {
+    const order = await service.transitionOrderStatus('order-1', 'awaiting_payment', {
+      actor: 'pharmacist',
+      changedBy: 'pharmacist-1',
+      updates: { cost: 4500 }
+    });
+
+    expect(order?.orderId).toBe('order-1');
+    const [, updates] = mockTransaction.update.mock.calls[0];
+    expect(updates).toMatchObject({ cost: 4500, status: 'awaiting_payment' });
+    expect(updates.statusHistory.arrayUnion[0]).toMatchObject({
+      from: 'awaiting_verification',
+      to: 'awaiting_payment',
+      actor: 'pharmacist',
+      changedBy: 'pharmacist-1',
+      reason: 'Pharmacist approved and priced the prescription'
+    });
+  });
+
+  it('should keep an explicit reason over the rule description', async () => {
+    await service.transitionOrderStatus('order-1', 'rejected', {
+      actor: 'pharmacist',
+      changedBy: 'pharmacist-1',
+      reason: 'Illegible prescription'
+    });
+
+    const [, updates] = mockTransaction.update.mock.calls[0];
+    expect(updates.statusHistory.arrayUnion[0].reason).toBe('Illegible prescription');
+  });
+
+  it('should reject a transition that is not in the table', async () => {
+    await expect(
+      service.transitionOrderStatus('order-1', 'delivered', { actor: 'pharmacist', changedBy: 'pharmacist-1' })
+    ).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+
+    expect(mockTransaction.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject an actor that may not make the transition', async () => {
+    await expect(
+      service.transitionOrderStatus('order-1', 'awaiting_payment', { actor: 'patient', changedBy: 'patient-1' })
+    ).rejects.toThrow('patient is not allowed to move order from awaiting_verification to awaiting_payment');
+  });
+
+  it('should return null for a missing order', async () => {
+    storedOrder = { exists: false, data: () => undefined };
+
+    const result = await service.transitionOrderStatus('missing', 'awaiting_payment', {
+      actor: 'pharmacist',
+      changedBy: 'pharmacist-1'
+    });
+
+    expect(result).toBeNull();
+    expect(mockTransaction.update).not.toHaveBeenCalled();
+  });
+
+  it('should build the creation entry for a new order', () => {
+    const [entry] = service.buildInitialStatusHistory('pending_verification', 'doctor', 'doctor-1');
+
+    expect(entry).toMatchObject({
+      from: null,
+      to: 'pending_verification',
+      actor: 'doctor',
+      changedBy: 'doctor-1',
+      reason: 'Order created'
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import databaseService from './database';
+import {
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  OrderStatusActor,
+  validateOrderStatusTransition
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+
+export interface OrderStatusChangeContext {
+  actor: OrderStatusActor;
+  changedBy: string;
+  reason?: string;
+  // Extra order fields written in the same transaction as the status change
+  updates?: Record<string, unknown>;
+}
+
+/**
+ * Raised when a writer asks for a transition the state machine does not allow.
+ * Routes translate this into a 409 Conflict.
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly from: PrescriptionOrderStatus,
+    public readonly to: PrescriptionOrderStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export class OrderStatusService {
+  /**
+   * Move an order to a new status, enforcing the shared transition table and
+   * appending the change to the order's statusHistory.
+   * Returns null when the order does not exist.
+   */
+  async transitionOrderStatus(
+    orderId: string,
+    to: PrescriptionOrderStatus,
+    context: OrderStatusChangeContext
+  ): Promise<PrescriptionOrder | null> {
+    const db = databaseService.getDb();
+    const orderRef = db.collection('prescriptionOrders').doc(orderId);
+
+    const found = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists) {
+        return false;
+      }
+
+      const from = orderDoc.data()?.status as PrescriptionOrderStatus;
+      const check = validateOrderStatusTransition(from, to, context.actor);
+      if (!check.allowed) {
+        throw new InvalidStatusTransitionError(from, to, check.error || `Cannot move order from ${from} to ${to}`);
+      }
+
+      const now = admin.firestore.Timestamp.fromDate(new Date());
+      transaction.update(orderRef, {
+        ...context.updates,
+        status: to,
+        statusHistory: admin.firestore.FieldValue.arrayUnion({
+          from,
+          to,
+          actor: context.actor,
+          changedBy: context.changedBy,
+          reason: context.reason || check.rule!.description,
+          changedAt: now
+        }),
+        updatedAt: now
+      });
+
+      return true;
+    });
+
+    if (!found) {
+      return null;
+    }
+
+    console.log(`Order ${orderId} moved to ${to} by ${context.actor} ${context.changedBy}`);
+
+    const updatedDoc = await orderRef.get();
+    return mapOrderDocument(updatedDoc);
+  }
+
+  /**
+   * Build the first statusHistory entry for a newly created order
+   */
+  buildInitialStatusHistory(
+    status: PrescriptionOrderStatus,
+    actor: OrderStatusActor,
+    changedBy: string,
+    reason: string = 'Order created'
+  ): Record<string, unknown>[] {
+    return [{
+      from: null,
+      to: status,
+      actor,
+      changedBy,
+      reason,
+      changedAt: admin.firestore.Timestamp.fromDate(new Date())
+    }];
+  }
+}
+
+/**
+ * Convert a prescriptionOrders document, including Firestore timestamps, into a PrescriptionOrder
+ */
+export const mapOrderDocument = (doc: admin.firestore.DocumentSnapshot): PrescriptionOrder => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    orderId: data.orderId || doc.id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate(),
+    ocrProcessedAt: data.ocrProcessedAt?.toDate(),
+    prescriptionExpiresAt: data.prescriptionExpiresAt?.toDate(),
+    lastFilledAt: data.lastFilledAt?.toDate(),
+    pharmacistReview: data.pharmacistReview
+      ? { ...data.pharmacistReview, reviewedAt: data.pharmacistReview.reviewedAt?.toDate() }
+      : undefined,
+    extractedMedications: data.extractedMedications?.map((medication: any) => ({
+      ...medication,
+      prescribedDate: medication.prescribedDate?.toDate()
+    })),
+    statusHistory: data.statusHistory?.map((entry: any) => ({
+      ...entry,
+      changedAt: entry.changedAt?.toDate()
+    })),
+    clarification: data.clarification
+      ? {
+        ...data.clarification,
+        requestedAt: data.clarification.requestedAt?.toDate(),
+        lastMessageAt: data.clarification.lastMessageAt?.toDate(),
+        resolvedAt: data.clarification.resolvedAt?.toDate()
+      }
+      : undefined,
+    proofOfDelivery: data.proofOfDelivery
+      ? { ...data.proofOfDelivery, deliveredAt: data.proofOfDelivery.deliveredAt?.toDate() }
+      : undefined
+  } as PrescriptionOrder;
+};
+
+export const orderStatusService = new OrderStatusService();
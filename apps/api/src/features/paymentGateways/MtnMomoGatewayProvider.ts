@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { PaymentGateway, PaymentStatus } from '@pharmarx/shared-types';
+import {
+  GatewayChargeRequest,
+  GatewayChargeResult,
+  GatewayPaymentData,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRefundStatus,
+  GatewayTransactionStatus,
+  PaymentGatewayProvider
+} from './PaymentGatewayProvider';
+
+export interface MtnMomoGatewayConfig {
+  apiUrl: string;
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+  targetEnvironment: string; // 'sandbox', 'mtnbenin', 'mtncameroon', ...
+  callbackUrl?: string;
+  // Refunds go out through the Disbursements product, which has its own subscription
+  disbursementSubscriptionKey?: string;
+  disbursementApiUser?: string;
+  disbursementApiKey?: string;
+}
+
+type MomoProduct = 'collection' | 'disbursement';
+
+// A request-to-pay or refund as the Collections and Disbursements APIs report it
+interface MomoTransfer {
+  amount?: string;
+  currency?: string;
+  externalId?: string;
+  financialTransactionId?: string;
+  status: string; // PENDING, SUCCESSFUL, FAILED, ...
+  reason?: string;
+}
+
+interface MomoErrorResponse {
+  code?: string;
+  message?: string;
+  reason?: string;
+}
+
+// The customer has this long to approve the prompt on their handset
+const REQUEST_TTL_MS = 10 * 60 * 1000;
+// Refresh the access token a minute before MoMo expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const FAILURE_REASONS: Record<string, string> = {
+  APPROVAL_REJECTED: 'The payment was declined on the handset',
+  EXPIRED: 'The payment request expired before it was approved',
+  NOT_ENOUGH_FUNDS: 'Insufficient balance in mobile money account',
+  PAYER_LIMIT_REACHED: 'The mobile money account has reached its spending limit',
+  PAYER_NOT_FOUND: 'No mobile money account was found for this number'
+};
+
+const REFUND_FAILURE_REASONS: Record<string, string> = {
+  PAYEE_NOT_FOUND: 'No mobile money account was found for the payer',
+  PAYEE_NOT_ALLOWED_TO_RECEIVE: 'The payer\'s mobile money account cannot receive money',
+  NOT_ENOUGH_FUNDS: 'The pharmacy\'s disbursement account does not have enough funds'
+};
+
+/**
+ * MTN Mobile Money Collections (request-to-pay). The charge only creates a request;
+ * the customer approves it on their handset and the result arrives later by callback
+ * or by polling `getTransactionStatus`.
+ */
+export class MtnMomoGatewayProvider implements PaymentGatewayProvider {
+  readonly name = 'mtn-momo';
+  private readonly config: MtnMomoGatewayConfig;
+  private readonly accessTokens = new Map<MomoProduct, { value: string; expiresAt: number }>();
+
+  constructor(config?: Partial<MtnMomoGatewayConfig>) {
+    this.config = {
+      apiUrl: config?.apiUrl ?? process.env.MTN_MOMO_API_URL ?? 'https://sandbox.momodeveloper.mtn.com',
+      subscriptionKey: config?.subscriptionKey ?? process.env.MTN_MOMO_SUBSCRIPTION_KEY ?? '',
+      apiUser: config?.apiUser ?? process.env.MTN_MOMO_API_USER ?? '',
+      apiKey: config?.apiKey ?? process.env.MTN_MOMO_API_KEY ?? '',
+      targetEnvironment: config?.targetEnvironment ?? process.env.MTN_MOMO_TARGET_ENVIRONMENT ?? 'sandbox',
+      callbackUrl: config?.callbackUrl ?? process.env.MTN_MOMO_CALLBACK_URL,
+      disbursementSubscriptionKey: config?.disbursementSubscriptionKey ?? process.env.MTN_MOMO_DISBURSEMENT_SUBSCRIPTION_KEY,
+      disbursementApiUser: config?.disbursementApiUser ?? process.env.MTN_MOMO_DISBURSEMENT_API_USER,
+      disbursementApiKey: config?.disbursementApiKey ?? process.env.MTN_MOMO_DISBURSEMENT_API_KEY
+    };
+
+    if (!this.isConfigured('collection')) {
+      console.warn('MTN MoMo credentials not configured. Mobile money payments will not work.');
+    }
+  }
+
+  validatePaymentData(gateway: PaymentGateway, paymentData: GatewayPaymentData | undefined): string[] {
+    if (gateway !== 'mtn') {
+      return [`MTN MoMo cannot process ${gateway} payments`];
+    }
+    if (!paymentData?.phoneNumber) {
+      return ['Phone number is required for MTN Mobile Money'];
+    }
+    return [];
+  }
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    const referenceId = randomUUID();
+    const body = {
+      amount: Number.isInteger(request.amount) ? request.amount.toString() : request.amount.toFixed(2),
+      currency: request.currency,
+      externalId: request.paymentId, // Callbacks identify the payment by this
+      payer: {
+        partyIdType: 'MSISDN',
+        partyId: request.paymentData.phoneNumber!.replace(/\D/g, '')
+      },
+      payerMessage: 'PharmaRx prescription payment',
+      payeeNote: `Order ${request.orderId}`
+    };
+
+    const response = await fetch(`${this.config.apiUrl}/collection/v1_0/requesttopay`, {
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders()),
+        'Content-Type': 'application/json',
+        'X-Reference-Id': referenceId,
+        ...(this.config.callbackUrl && { 'X-Callback-Url': this.config.callbackUrl })
+      },
+      body: JSON.stringify(body)
+    });
+
+    // MoMo accepts the request with 202 and no body
+    if (response.status !== 202) {
+      throw new Error(`MTN MoMo error: ${await this.readError(response)}`);
+    }
+
+    return {
+      transactionId: referenceId,
+      status: 'pending',
+      gatewayResponse: { referenceId, status: 'PENDING' },
+      nextAction: { type: 'approve_on_handset' },
+      expiresAt: new Date(Date.now() + REQUEST_TTL_MS)
+    };
+  }
+
+  async getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus> {
+    const response = await fetch(`${this.config.apiUrl}/collection/v1_0/requesttopay/${transactionId}`, {
+      headers: await this.getHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`MTN MoMo error: ${await this.readError(response)}`);
+    }
+
+    const transaction = await response.json() as MomoTransfer;
+    const status = this.toPaymentStatus(transaction.status);
+
+    return {
+      status,
+      gatewayResponse: transaction,
+      ...(status === 'failed' && {
+        failureReason: (transaction.reason && FAILURE_REASONS[transaction.reason]) || transaction.reason || 'Mobile money payment failed'
+      })
+    };
+  }
+
+  /**
+   * Send money back to the payer. MoMo accepts the refund and settles it later, so the
+   * result is always pending until `getRefundStatus` reports the outcome.
+   */
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const referenceId = randomUUID();
+    const body = {
+      amount: Number.isInteger(request.amount) ? request.amount.toString() : request.amount.toFixed(2),
+      currency: request.currency,
+      externalId: request.refundId,
+      payerMessage: 'PharmaRx refund',
+      payeeNote: `Refund for order ${request.orderId}`,
+      referenceIdToRefund: request.transactionId
+    };
+
+    const response = await fetch(`${this.config.apiUrl}/disbursement/v1_0/refund`, {
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders('disbursement')),
+        'Content-Type': 'application/json',
+        'X-Reference-Id': referenceId
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (response.status !== 202) {
+      throw new Error(`MTN MoMo error: ${await this.readError(response)}`);
+    }
+
+    return {
+      refundTransactionId: referenceId,
+      status: 'pending',
+      gatewayResponse: { referenceId, referenceIdToRefund: request.transactionId, status: 'PENDING' }
+    };
+  }
+
+  /**
+   * Ask MoMo whether a refund it accepted has gone through
+   */
+  async getRefundStatus(refundTransactionId: string): Promise<GatewayRefundStatus> {
+    const response = await fetch(`${this.config.apiUrl}/disbursement/v1_0/refund/${refundTransactionId}`, {
+      headers: await this.getHeaders('disbursement')
+    });
+
+    if (!response.ok) {
+      throw new Error(`MTN MoMo error: ${await this.readError(response)}`);
+    }
+
+    const transfer = await response.json() as MomoTransfer;
+    const status = this.toPaymentStatus(transfer.status);
+
+    return {
+      status: status === 'succeeded' || status === 'failed' ? status : 'pending',
+      gatewayResponse: transfer,
+      ...(status === 'failed' && {
+        failureReason: (transfer.reason && REFUND_FAILURE_REASONS[transfer.reason]) || transfer.reason || 'Mobile money refund failed'
+      })
+    };
+  }
+
+  /**
+   * MoMo does not sign callbacks. They are only used as a prompt: the payment service
+   * re-reads the status from the Collections API instead of trusting the callback body.
+   */
+  verifyWebhookSignature(): boolean {
+    return true;
+  }
+
+  private toPaymentStatus(momoStatus: string): PaymentStatus {
+    switch (momoStatus) {
+      case 'SUCCESSFUL':
+        return 'succeeded';
+      case 'FAILED':
+      case 'REJECTED':
+      case 'TIMEOUT':
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
+
+  private getCredentials(product: MomoProduct): { subscriptionKey: string; apiUser: string; apiKey: string } {
+    if (product === 'disbursement') {
+      return {
+        subscriptionKey: this.config.disbursementSubscriptionKey ?? '',
+        apiUser: this.config.disbursementApiUser ?? '',
+        apiKey: this.config.disbursementApiKey ?? ''
+      };
+    }
+    return { subscriptionKey: this.config.subscriptionKey, apiUser: this.config.apiUser, apiKey: this.config.apiKey };
+  }
+
+  private isConfigured(product: MomoProduct): boolean {
+    const { subscriptionKey, apiUser, apiKey } = this.getCredentials(product);
+    return !!(subscriptionKey && apiUser && apiKey);
+  }
+
+  private async getHeaders(product: MomoProduct = 'collection'): Promise<Record<string, string>> {
+    return {
+      'Authorization': `Bearer ${await this.getAccessToken(product)}`,
+      'X-Target-Environment': this.config.targetEnvironment,
+      'Ocp-Apim-Subscription-Key': this.getCredentials(product).subscriptionKey
+    };
+  }
+
+  private async getAccessToken(product: MomoProduct): Promise<string> {
+    if (!this.isConfigured(product)) {
+      throw new Error(product === 'collection' ? 'MTN MoMo is not configured' : 'MTN MoMo disbursements are not configured');
+    }
+
+    const cached = this.accessTokens.get(product);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const { subscriptionKey, apiUser, apiKey } = this.getCredentials(product);
+    const credentials = Buffer.from(`${apiUser}:${apiKey}`).toString('base64');
+    const response = await fetch(`${this.config.apiUrl}/${product}/token/`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Ocp-Apim-Subscription-Key': subscriptionKey
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`MTN MoMo authentication failed: ${await this.readError(response)}`);
+    }
+
+    const token = await response.json() as { access_token: string; expires_in: number };
+    this.accessTokens.set(product, {
+      value: token.access_token,
+      expiresAt: Date.now() + token.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+    });
+    return token.access_token;
+  }
+
+  private async readError(response: Response): Promise<string> {
+    const data = await response.json().catch(() => null) as MomoErrorResponse | null;
+    return data?.message || data?.reason || `HTTP ${response.status}`;
+  }
+}
@@ -0,0 +1,117 @@
+import { PaymentGateway, PaymentStatus, RefundStatus } from '@pharmarx/shared-types';
+
+/**
+ * Gateway-specific payment details sent by the client. Each provider validates the fields it uses.
+ */
+export interface GatewayPaymentData {
+  paymentMethodId?: string; // Stripe PaymentMethod created by Stripe.js
+  returnUrl?: string; // Where Stripe sends the customer back after 3D Secure
+  phoneNumber?: string; // Mobile money account
+  // Raw card details, only accepted by the sandbox
+  cardNumber?: string;
+  expiryDate?: string;
+  cvv?: string;
+  cardholderName?: string;
+}
+
+// The gateway's reply, kept on the audit trail
+export type GatewayResponse = object;
+
+export interface GatewayChargeRequest {
+  paymentId: string;
+  orderId: string;
+  gateway: PaymentGateway;
+  amount: number;
+  currency: string;
+  paymentData: GatewayPaymentData;
+}
+
+/**
+ * Extra step the customer must complete before the charge settles (e.g. 3D Secure)
+ */
+export interface GatewayNextAction {
+  type: string;
+  clientSecret?: string;
+  redirectUrl?: string;
+}
+
+export interface GatewayChargeResult {
+  transactionId: string;
+  status: PaymentStatus;
+  gatewayResponse: GatewayResponse;
+  nextAction?: GatewayNextAction;
+  expiresAt?: Date; // When a pending charge should be given up on
+}
+
+export interface GatewayTransactionStatus {
+  status: PaymentStatus;
+  gatewayResponse: GatewayResponse;
+  failureReason?: string;
+}
+
+export interface GatewayRefundRequest {
+  refundId: string;
+  paymentId: string;
+  orderId: string;
+  gateway: PaymentGateway;
+  transactionId: string; // The charge being refunded
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export interface GatewayRefundResult {
+  refundTransactionId: string;
+  status: RefundStatus;
+  gatewayResponse: GatewayResponse;
+}
+
+export interface GatewayRefundStatus {
+  status: RefundStatus;
+  gatewayResponse: GatewayResponse;
+  failureReason?: string;
+}
+
+/**
+ * A payment provider that can charge one or more gateways and authenticate their webhooks
+ */
+export interface PaymentGatewayProvider {
+  readonly name: string;
+
+  /**
+   * Returns validation errors for the gateway-specific payment data
+   */
+  validatePaymentData(gateway: PaymentGateway, paymentData: GatewayPaymentData | undefined): string[];
+
+  charge(request: GatewayChargeRequest): Promise<GatewayChargeResult>;
+
+  /**
+   * Ask the gateway where a pending charge stands. Only asynchronous gateways implement this.
+   */
+  getTransactionStatus?(transactionId: string): Promise<GatewayTransactionStatus>;
+
+  /**
+   * Give back all or part of a settled charge. Gateways without a refund API leave this out.
+   */
+  refund?(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+
+  /**
+   * Ask the gateway where a pending refund stands. Only gateways that settle refunds later implement this.
+   */
+  getRefundStatus?(refundTransactionId: string): Promise<GatewayRefundStatus>;
+
+  /**
+   * Check a webhook signature against the exact bytes the gateway sent
+   */
+  verifyWebhookSignature(rawBody: string | Buffer | undefined, signature: string | undefined): boolean;
+}
+
+/**
+ * Thrown when the gateway refuses the charge. Routes translate this into a 402 Payment Required.
+ */
+export class PaymentDeclinedError extends Error {
+  constructor(message: string, public readonly declineCode?: string) {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+  }
+}
@@ -0,0 +1,175 @@
+import { PaymentGateway } from '@pharmarx/shared-types';
+import {
+  GatewayChargeRequest,
+  GatewayChargeResult,
+  GatewayPaymentData,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  PaymentDeclinedError,
+  PaymentGatewayProvider
+} from './PaymentGatewayProvider';
+
+/**
+ * Simulated charges for development and e2e runs. No money moves: card numbers ending
+ * in 0000 and MTN numbers containing 0000 are declined, everything else succeeds.
+ */
+export class SandboxGatewayProvider implements PaymentGatewayProvider {
+  readonly name = 'sandbox';
+
+  validatePaymentData(gateway: PaymentGateway, paymentData: GatewayPaymentData | undefined): string[] {
+    const errors: string[] = [];
+
+    switch (gateway) {
+      case 'stripe':
+        if (!paymentData?.cardNumber || !paymentData?.expiryDate ||
+            !paymentData?.cvv || !paymentData?.cardholderName) {
+          errors.push('All card details are required for Stripe payments');
+        }
+        break;
+
+      case 'mtn':
+        if (!paymentData?.phoneNumber) {
+          errors.push('Phone number is required for MTN Mobile Money');
+        }
+        break;
+
+      // PayPal validation is minimal as it redirects to PayPal
+      case 'paypal':
+        break;
+    }
+
+    return errors;
+  }
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    switch (request.gateway) {
+      case 'stripe':
+        return this.chargeCard(request);
+      case 'paypal':
+        return this.capturePayPal(request);
+      case 'mtn':
+        return this.collectMobileMoney(request);
+      default:
+        throw new Error(`Unsupported payment gateway: ${request.gateway}`);
+    }
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const refundTransactionId = `re_${Math.random().toString(36).substr(2, 24)}`;
+
+    return {
+      refundTransactionId,
+      status: 'succeeded',
+      gatewayResponse: {
+        id: refundTransactionId,
+        chargeId: request.transactionId,
+        amount: request.amount,
+        currency: request.currency,
+        status: 'succeeded'
+      }
+    };
+  }
+
+  /**
+   * Sandbox webhooks only need to carry a signature header
+   */
+  verifyWebhookSignature(rawBody: string | Buffer | undefined, signature: string | undefined): boolean {
+    return !!signature;
+  }
+
+  private async chargeCard(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const transactionId = `ch_${Math.random().toString(36).substr(2, 24)}`;
+
+    // Simulate success/failure based on card number (for testing)
+    const cardNumber = request.paymentData.cardNumber!.replace(/\s/g, '');
+    if (cardNumber.endsWith('0000')) {
+      throw new PaymentDeclinedError('Card declined by issuer', 'generic_decline');
+    }
+
+    const gatewayResponse = {
+      id: transactionId,
+      amount: request.amount * 100, // Stripe uses cents
+      currency: request.currency.toLowerCase(),
+      status: 'succeeded',
+      payment_method: {
+        card: {
+          brand: 'visa',
+          last4: cardNumber.slice(-4)
+        }
+      },
+      created: Math.floor(Date.now() / 1000)
+    };
+
+    return {
+      transactionId,
+      status: 'succeeded',
+      gatewayResponse
+    };
+  }
+
+  private async capturePayPal(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    const transactionId = `PP${Math.random().toString(36).substr(2, 12).toUpperCase()}`;
+
+    const gatewayResponse = {
+      id: transactionId,
+      intent: 'CAPTURE',
+      status: 'COMPLETED',
+      purchase_units: [{
+        amount: {
+          currency_code: request.currency,
+          value: request.amount.toString()
+        }
+      }],
+      payer: {
+        email_address: 'user@example.com',
+        payer_id: 'PAYERID123'
+      },
+      create_time: new Date().toISOString()
+    };
+
+    return {
+      transactionId,
+      status: 'succeeded',
+      gatewayResponse
+    };
+  }
+
+  private async collectMobileMoney(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    // Simulate API delay (longer for mobile money)
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    const transactionId = `MTN${Math.random().toString(36).substr(2, 10).toUpperCase()}`;
+
+    // Simulate potential failure for testing
+    if (request.paymentData.phoneNumber!.includes('0000')) {
+      throw new PaymentDeclinedError('Insufficient balance in mobile money account');
+    }
+
+    const gatewayResponse = {
+      transactionId,
+      status: 'SUCCESSFUL',
+      amount: request.amount,
+      currency: request.currency,
+      externalTransactionId: `EXT${Math.random().toString(36).substr(2, 8)}`,
+      payerMessage: 'Payment for prescription order',
+      payeeNote: `Order ${request.orderId}`,
+      financialTransactionId: `FIN${Math.random().toString(36).substr(2, 12)}`,
+      reason: 'Payment completed successfully'
+    };
+
+    return {
+      transactionId,
+      status: 'succeeded',
+      gatewayResponse
+    };
+  }
+}
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import crypto from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { StripeGatewayProvider } from './StripeGatewayProvider';
+import { GatewayChargeRequest, PaymentDeclinedError } from './PaymentGatewayProvider';
+
+const SECRET_KEY = 'sk_test_pharmarx';
+const WEBHOOK_SECRET = 'whsec_test_pharmarx';
+
+interface RecordedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, string>;
+}
+
+/**
+ * Just enough of the Stripe PaymentIntents API, keyed on Stripe's test payment methods
+ */
+const createMockStripeApi = (requests: RecordedRequest[]) => {
+  const api = express();
+  api.use(express.urlencoded({ extended: false }));
+
+  api.post('/v1/payment_intents', (req, res) => {
+    requests.push({ headers: req.headers, body: req.body });
+
+    if (req.headers.authorization !== `Bearer ${SECRET_KEY}`) {
+      return res.status(401).json({
+        error: { type: 'invalid_request_error', message: 'Invalid API Key provided' }
+      });
+    }
+
+    const intent = {
+      id: 'pi_test_123',
+      object: 'payment_intent',
+      amount: Number(req.body.amount),
+      currency: req.body.currency,
+      client_secret: 'pi_test_123_secret_abc',
+      metadata: { orderId: req.body['metadata[orderId]'], paymentId: req.body['metadata[paymentId]'] }
+    };
+
+    switch (req.body.payment_method) {
+      case 'pm_card_chargeDeclined':
+        return res.status(402).json({
+          error: {
+            type: 'card_error',
+            code: 'card_declined',
+            decline_code: 'generic_decline',
+            message: 'Your card was declined.'
+          }
+        });
+      case 'pm_card_threeDSecure2Required':
+        return res.json({
+          ...intent,
+          status: 'requires_action',
+          next_action: { type: 'use_stripe_sdk', use_stripe_sdk: {} }
+        });
+      default:
+        return res.json({ ...intent, status: 'succeeded' });
+    }
+  });
+
+  api.get('/v1/payment_intents/:id', (req, res) => {
+    const intent = { id: req.params.id, object: 'payment_intent' };
+
+    switch (req.params.id) {
+      case 'pi_authenticated':
+        return res.json({ ...intent, status: 'succeeded' });
+      case 'pi_authentication_failed':
+        return res.json({
+          ...intent,
+          status: 'requires_payment_method',
+          last_payment_error: { message: 'We are unable to authenticate your payment method.' }
+        });
+      case 'pi_awaiting_authentication':
+        return res.json({ ...intent, status: 'requires_action' });
+      default:
+        return res.status(404).json({
+          error: { type: 'invalid_request_error', message: `No such payment_intent: '${req.params.id}'` }
+        });
+    }
+  });
+
+  api.post('/v1/refunds', (req, res) => {
+    requests.push({ headers: req.headers, body: req.body });
+
+    if (req.body.payment_intent === 'pi_unknown') {
+      return res.status(404).json({
+        error: { type: 'invalid_request_error', message: 'No such payment_intent: pi_unknown' }
+      });
+    }
+
+    res.json({
+      id: 're_test_123',
+      object: 'refund',
+      amount: Number(req.body.amount),
+      payment_intent: req.body.payment_intent,
+      status: 'succeeded'
+    });
+  });
+
+  return api;
+};
+
+const signPayload = (payload: string, secret = WEBHOOK_SECRET, timestamp = Math.floor(Date.now() / 1000)): string => {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+describe('StripeGatewayProvider', () => {
+  const requests: RecordedRequest[] = [];
+  let server: Server;
+  let provider: StripeGatewayProvider;
+
+  const chargeRequest = (paymentMethodId: string, overrides: Partial<GatewayChargeRequest> = {}): GatewayChargeRequest => ({
+    paymentId: 'payment-1',
+    orderId: 'order-1',
+    gateway: 'stripe',
+    amount: 45.5,
+    currency: 'USD',
+    paymentData: { paymentMethodId },
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    server = createMockStripeApi(requests).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    provider = new StripeGatewayProvider({
+      secretKey: SECRET_KEY,
+      webhookSecret: WEBHOOK_SECRET,
+      apiUrl: `http://127.0.0.1:${port}/v1`
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  describe('validatePaymentData', () => {
+    it('should require a Stripe payment method', () => {
+      expect(provider.validatePaymentData('stripe', { paymentMethodId: 'pm_card_visa' })).toEqual([]);
+      expect(provider.validatePaymentData('stripe', {})).toEqual(['A Stripe payment method is required for Stripe payments']);
+    });
+
+    it('should refuse raw card details', () => {
+      expect(provider.validatePaymentData('stripe', { cardNumber: '4242424242424242' }))
+        .toEqual(['Card details must be tokenized with Stripe before payment']);
+    });
+  });
+
+  describe('charge', () => {
+    it('should confirm a PaymentIntent and report success', async () => {
+      const result = await provider.charge(chargeRequest('pm_card_visa'));
+
+      expect(result).toMatchObject({ transactionId: 'pi_test_123', status: 'succeeded' });
+      expect(result.nextAction).toBeUndefined();
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['idempotency-key']).toBe('payment-1');
+      expect(requests[0].body).toMatchObject({
+        amount: '4550',
+        currency: 'usd',
+        payment_method: 'pm_card_visa',
+        confirm: 'true',
+        'metadata[orderId]': 'order-1',
+        'metadata[paymentId]': 'payment-1'
+      });
+    });
+
+    it('should charge zero-decimal currencies in whole units', async () => {
+      await provider.charge(chargeRequest('pm_card_visa', { amount: 12500, currency: 'XOF' }));
+
+      expect(requests[0].body).toMatchObject({ amount: '12500', currency: 'xof' });
+    });
+
+    it('should leave 3D Secure payments pending with the client secret', async () => {
+      const result = await provider.charge(chargeRequest('pm_card_threeDSecure2Required', {
+        paymentData: { paymentMethodId: 'pm_card_threeDSecure2Required', returnUrl: 'https://pharmarx.bj/orders/order-1' }
+      }));
+
+      expect(result.status).toBe('pending');
+      expect(result.nextAction).toEqual({ type: 'use_stripe_sdk', clientSecret: 'pi_test_123_secret_abc' });
+      expect(result.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(requests[0].body.return_url).toBe('https://pharmarx.bj/orders/order-1');
+    });
+
+    it('should raise PaymentDeclinedError for card errors', async () => {
+      const error = await provider.charge(chargeRequest('pm_card_chargeDeclined')).catch(err => err);
+
+      expect(error).toBeInstanceOf(PaymentDeclinedError);
+      expect(error.message).toBe('Your card was declined.');
+      expect(error.declineCode).toBe('generic_decline');
+    });
+
+    it('should surface API errors that are not declines', async () => {
+      const misconfigured = new StripeGatewayProvider({
+        secretKey: 'sk_test_wrong',
+        webhookSecret: WEBHOOK_SECRET,
+        apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+      });
+
+      await expect(misconfigured.charge(chargeRequest('pm_card_visa')))
+        .rejects.toThrow('Stripe API error: Invalid API Key provided');
+    });
+  });
+
+  describe('getTransactionStatus', () => {
+    it('should report a PaymentIntent that succeeded after 3D Secure', async () => {
+      await expect(provider.getTransactionStatus('pi_authenticated')).resolves.toMatchObject({ status: 'succeeded' });
+    });
+
+    it('should report failed authentication with Stripe\'s reason', async () => {
+      await expect(provider.getTransactionStatus('pi_authentication_failed')).resolves.toMatchObject({
+        status: 'failed',
+        failureReason: 'We are unable to authenticate your payment method.'
+      });
+    });
+
+    it('should leave a PaymentIntent awaiting authentication pending', async () => {
+      await expect(provider.getTransactionStatus('pi_awaiting_authentication')).resolves.toMatchObject({ status: 'pending' });
+    });
+
+    it('should surface API errors', async () => {
+      await expect(provider.getTransactionStatus('pi_unknown'))
+        .rejects.toThrow('Stripe API error: No such payment_intent: \'pi_unknown\'');
+    });
+  });
+
+  describe('refund', () => {
+    const refundRequest = (transactionId: string) => ({
+      refundId: 'refund-1',
+      paymentId: 'payment-1',
+      orderId: 'order-1',
+      gateway: 'stripe' as const,
+      transactionId,
+      amount: 12.25,
+      currency: 'USD',
+      reason: 'Item out of stock'
+    });
+
+    it('should refund the PaymentIntent in minor units', async () => {
+      const result = await provider.refund(refundRequest('pi_test_123'));
+
+      expect(result).toMatchObject({ refundTransactionId: 're_test_123', status: 'succeeded' });
+      expect(requests[0].headers['idempotency-key']).toBe('refund-1');
+      expect(requests[0].body).toMatchObject({
+        payment_intent: 'pi_test_123',
+        amount: '1225',
+        'metadata[reason]': 'Item out of stock'
+      });
+    });
+
+    it('should surface API errors', async () => {
+      await expect(provider.refund(refundRequest('pi_unknown')))
+        .rejects.toThrow('Stripe API error: No such payment_intent: pi_unknown');
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: { id: 'pi_test_123' } } });
+
+    it('should accept a signature made with the signing secret', () => {
+      expect(provider.verifyWebhookSignature(payload, signPayload(payload))).toBe(true);
+      expect(provider.verifyWebhookSignature(Buffer.from(payload), signPayload(payload))).toBe(true);
+    });
+
+    it('should reject signatures made with another secret', () => {
+      expect(provider.verifyWebhookSignature(payload, signPayload(payload, 'whsec_other'))).toBe(false);
+    });
+
+    it('should reject a body that was changed after signing', () => {
+      const signature = signPayload(payload);
+      expect(provider.verifyWebhookSignature(payload.replace('pi_test_123', 'pi_test_999'), signature)).toBe(false);
+    });
+
+    it('should reject stale signatures to prevent replays', () => {
+      const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+      expect(provider.verifyWebhookSignature(payload, signPayload(payload, WEBHOOK_SECRET, tenMinutesAgo))).toBe(false);
+    });
+
+    it('should reject missing or malformed headers', () => {
+      expect(provider.verifyWebhookSignature(payload, undefined)).toBe(false);
+      expect(provider.verifyWebhookSignature(payload, 'v1=abc')).toBe(false);
+      expect(provider.verifyWebhookSignature(undefined, signPayload(payload))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PaymentGateway, RefundStatus } from '@pharmarx/shared-types';
+import {
+  GatewayChargeRequest,
+  GatewayChargeResult,
+  GatewayPaymentData,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayTransactionStatus,
+  PaymentDeclinedError,
+  PaymentGatewayProvider
+} from './PaymentGatewayProvider';
+
+export interface StripeGatewayConfig {
+  secretKey: string;
+  webhookSecret: string;
+  apiUrl: string;
+}
+
+interface StripeErrorResponse {
+  error?: {
+    type?: string;
+    message?: string;
+    code?: string;
+    decline_code?: string;
+  };
+}
+
+// The PaymentIntent fields we read
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+  client_secret?: string;
+  next_action?: {
+    type?: string;
+    redirect_to_url?: { url?: string };
+  };
+  last_payment_error?: {
+    message?: string;
+    decline_code?: string;
+  };
+}
+
+interface StripeRefund {
+  id: string;
+  status: string;
+}
+
+// Currencies Stripe charges in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga',
+  'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'
+]);
+
+// Same replay window as Stripe's own libraries
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+// The customer has this long to finish 3D Secure before the payment is given up on
+const AUTHENTICATION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Card payments through Stripe PaymentIntents. The browser tokenizes the card with
+ * Stripe.js and sends us only the PaymentMethod id.
+ */
+export class StripeGatewayProvider implements PaymentGatewayProvider {
+  readonly name = 'stripe';
+  private readonly config: StripeGatewayConfig;
+
+  constructor(config?: Partial<StripeGatewayConfig>) {
+    this.config = {
+      secretKey: config?.secretKey ?? process.env.STRIPE_SECRET_KEY ?? '',
+      webhookSecret: config?.webhookSecret ?? process.env.STRIPE_WEBHOOK_SECRET ?? '',
+      apiUrl: config?.apiUrl ?? process.env.STRIPE_API_URL ?? 'https://api.stripe.com/v1'
+    };
+
+    if (!this.config.secretKey || !this.config.webhookSecret) {
+      console.warn('Stripe credentials not configured. Card payments and Stripe webhooks will be rejected.');
+    }
+  }
+
+  validatePaymentData(gateway: PaymentGateway, paymentData: GatewayPaymentData | undefined): string[] {
+    const errors: string[] = [];
+
+    if (gateway !== 'stripe') {
+      errors.push(`Stripe cannot process ${gateway} payments`);
+    } else if (paymentData?.cardNumber) {
+      errors.push('Card details must be tokenized with Stripe before payment');
+    } else if (typeof paymentData?.paymentMethodId !== 'string' || !paymentData.paymentMethodId) {
+      errors.push('A Stripe payment method is required for Stripe payments');
+    }
+
+    return errors;
+  }
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    if (!this.config.secretKey) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const params = new URLSearchParams({
+      amount: this.toMinorUnits(request.amount, request.currency).toString(),
+      currency: request.currency.toLowerCase(),
+      payment_method: request.paymentData.paymentMethodId!,
+      'payment_method_types[]': 'card',
+      confirm: 'true',
+      description: `PharmaRx order ${request.orderId}`,
+      'metadata[orderId]': request.orderId,
+      'metadata[paymentId]': request.paymentId
+    });
+    if (request.paymentData.returnUrl) {
+      params.set('return_url', request.paymentData.returnUrl);
+    }
+
+    const response = await fetch(`${this.config.apiUrl}/payment_intents`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // Retrying the same payment never charges the card twice
+        'Idempotency-Key': request.paymentId
+      },
+      body: params.toString()
+    });
+
+    const data = await response.json() as StripePaymentIntent & StripeErrorResponse;
+
+    if (!response.ok) {
+      if (data?.error?.type === 'card_error') {
+        throw new PaymentDeclinedError(
+          data.error.message || 'Card declined by issuer',
+          data.error.decline_code || data.error.code
+        );
+      }
+      throw new Error(`Stripe API error: ${data?.error?.message || `HTTP ${response.status}`}`);
+    }
+
+    return this.toChargeResult(data);
+  }
+
+  /**
+   * Look up a PaymentIntent left pending, in case its webhook never arrived
+   */
+  async getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus> {
+    if (!this.config.secretKey) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const response = await fetch(`${this.config.apiUrl}/payment_intents/${encodeURIComponent(transactionId)}`, {
+      headers: { 'Authorization': `Bearer ${this.config.secretKey}` }
+    });
+
+    const intent = await response.json() as StripePaymentIntent & StripeErrorResponse;
+
+    if (!response.ok) {
+      throw new Error(`Stripe API error: ${intent?.error?.message || `HTTP ${response.status}`}`);
+    }
+
+    switch (intent.status) {
+      case 'succeeded':
+        return { status: 'succeeded', gatewayResponse: intent };
+
+      // Authentication failed or was abandoned and the intent was cancelled
+      case 'requires_payment_method':
+      case 'canceled':
+        return {
+          status: 'failed',
+          gatewayResponse: intent,
+          failureReason: intent.last_payment_error?.message || 'Card authentication was not completed'
+        };
+
+      default:
+        return { status: 'pending', gatewayResponse: intent };
+    }
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    if (!this.config.secretKey) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const params = new URLSearchParams({
+      payment_intent: request.transactionId,
+      amount: this.toMinorUnits(request.amount, request.currency).toString(),
+      'metadata[orderId]': request.orderId,
+      'metadata[paymentId]': request.paymentId,
+      'metadata[refundId]': request.refundId,
+      'metadata[reason]': request.reason
+    });
+
+    const response = await fetch(`${this.config.apiUrl}/refunds`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': request.refundId
+      },
+      body: params.toString()
+    });
+
+    const data = await response.json() as StripeRefund & StripeErrorResponse;
+
+    if (!response.ok) {
+      throw new Error(`Stripe API error: ${data?.error?.message || `HTTP ${response.status}`}`);
+    }
+
+    return {
+      refundTransactionId: data.id,
+      status: this.toRefundStatus(data.status),
+      gatewayResponse: data
+    };
+  }
+
+  /**
+   * Verify a `Stripe-Signature` header (`t=<timestamp>,v1=<hmac>[,v1=...]`) against the raw body
+   */
+  verifyWebhookSignature(rawBody: string | Buffer | undefined, signature: string | undefined): boolean {
+    if (!this.config.webhookSecret || !rawBody || !signature) {
+      return false;
+    }
+
+    let timestamp: number | null = null;
+    const candidates: string[] = [];
+    for (const part of signature.split(',')) {
+      const [key, value] = part.split('=');
+      if (key === 't') {
+        timestamp = Number(value);
+      } else if (key === 'v1' && value) {
+        candidates.push(value);
+      }
+    }
+
+    if (!timestamp || candidates.length === 0) {
+      return false;
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = createHmac('sha256', this.config.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    return candidates.some(candidate =>
+      candidate.length === expected.length &&
+      timingSafeEqual(Buffer.from(candidate), Buffer.from(expected))
+    );
+  }
+
+  private toChargeResult(intent: StripePaymentIntent): GatewayChargeResult {
+    switch (intent.status) {
+      case 'succeeded':
+        return { transactionId: intent.id, status: 'succeeded', gatewayResponse: intent };
+
+      // 3D Secure: the client finishes authentication and the webhook, or a status check, settles the payment
+      case 'requires_action':
+        return {
+          transactionId: intent.id,
+          status: 'pending',
+          gatewayResponse: intent,
+          expiresAt: new Date(Date.now() + AUTHENTICATION_TTL_MS),
+          nextAction: {
+            type: intent.next_action?.type || 'use_stripe_sdk',
+            clientSecret: intent.client_secret,
+            ...(intent.next_action?.redirect_to_url?.url && { redirectUrl: intent.next_action.redirect_to_url.url })
+          }
+        };
+
+      case 'requires_payment_method':
+      case 'canceled':
+        throw new PaymentDeclinedError(
+          intent.last_payment_error?.message || 'Card declined by issuer',
+          intent.last_payment_error?.decline_code
+        );
+
+      default:
+        return { transactionId: intent.id, status: 'pending', gatewayResponse: intent };
+    }
+  }
+
+  private toRefundStatus(stripeStatus: string): RefundStatus {
+    switch (stripeStatus) {
+      case 'succeeded':
+        return 'succeeded';
+      case 'failed':
+      case 'canceled':
+        return 'failed';
+      default:
+        return 'pending'; // Some card networks and bank transfers settle refunds later
+    }
+  }
+
+  private toMinorUnits(amount: number, currency: string): number {
+    return ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase())
+      ? Math.round(amount)
+      : Math.round(amount * 100);
+  }
+}
@@ -0,0 +1,53 @@
+import { PaymentGateway } from '@pharmarx/shared-types';
+import { PaymentGatewayProvider } from './PaymentGatewayProvider';
+import { MtnMomoGatewayProvider } from './MtnMomoGatewayProvider';
+import { SandboxGatewayProvider } from './SandboxGatewayProvider';
+import { StripeGatewayProvider } from './StripeGatewayProvider';
+
+export * from './PaymentGatewayProvider';
+export { MtnMomoGatewayProvider } from './MtnMomoGatewayProvider';
+export { SandboxGatewayProvider } from './SandboxGatewayProvider';
+export { StripeGatewayProvider } from './StripeGatewayProvider';
+
+const sandboxProvider = new SandboxGatewayProvider();
+let stripeProvider: StripeGatewayProvider | null = null;
+let mtnProvider: MtnMomoGatewayProvider | null = null;
+
+// Gateways with a live integration; the rest only work through the simulator
+const LIVE_GATEWAYS: PaymentGateway[] = ['stripe', 'mtn'];
+
+const useSandbox = (): boolean => process.env.PAYMENT_PROVIDER === 'sandbox';
+
+/**
+ * Whether payments through the gateway can be taken: it has a live integration, or
+ * `PAYMENT_PROVIDER=sandbox` routes every gateway through the simulator
+ */
+export const isPaymentGatewayAvailable = (gateway: PaymentGateway): boolean =>
+  useSandbox() || LIVE_GATEWAYS.includes(gateway);
+
+/**
+ * Pick the provider that handles a gateway. `PAYMENT_PROVIDER=sandbox` routes every
+ * gateway through the simulator for dev and e2e runs. Gateways without a live
+ * integration are refused rather than simulated, so production never fakes a charge,
+ * a refund or a webhook signature check.
+ */
+export const getPaymentGatewayProvider = (gateway: PaymentGateway): PaymentGatewayProvider => {
+  if (useSandbox()) {
+    return sandboxProvider;
+  }
+
+  switch (gateway) {
+    case 'stripe':
+      if (!stripeProvider) {
+        stripeProvider = new StripeGatewayProvider();
+      }
+      return stripeProvider;
+    case 'mtn':
+      if (!mtnProvider) {
+        mtnProvider = new MtnMomoGatewayProvider();
+      }
+      return mtnProvider;
+    default:
+      throw new Error(`Payments through ${gateway} are not available`);
+  }
+};
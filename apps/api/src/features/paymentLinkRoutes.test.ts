@@ -19,7 +19,7 @@ const mockValidateRequest = (req: any, res: any, next: any) => {
 };
 
 vi.mock('../middleware/auth', () => ({
-  authenticateToken: mockAuthenticateToken
+  verifyAuth: mockAuthenticateToken
 }));
 
 vi.mock('../middleware/validation', () => ({
@@ -343,7 +343,7 @@ describe('PaymentLink Routes Integration Tests', () => {
       };
 
       vi.doMock('../middleware/auth', () => ({
-        authenticateToken: mockUnauthenticatedRequest
+        verifyAuth: mockUnauthenticatedRequest
       }));
 
       // Test all protected endpoints
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { verifyAuth } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { PaymentLinkService } from './paymentLinkService';
 import { PaymentLinkRequest, PaymentLinkResponse, ApiResponse } from '@pharmarx/shared-types';
@@ -29,7 +29,7 @@ const validatePaymentLinkRequest = [
  */
 router.post(
   '/orders/:orderId/request-payment',
-  authenticateToken,
+  verifyAuth,
   validatePaymentLinkRequest,
   validateRequest,
   async (req: Request, res: Response): Promise<void> => {
@@ -113,7 +113,7 @@ router.post(
  */
 router.get(
   '/orders/:orderId/payment-links',
-  authenticateToken,
+  verifyAuth,
   [param('orderId').isString().notEmpty().withMessage('Order ID is required')],
   validateRequest,
   async (req: Request, res: Response): Promise<void> => {
@@ -161,7 +161,7 @@ router.get(
  */
 router.delete(
   '/payment-links/:linkId',
-  authenticateToken,
+  verifyAuth,
   [param('linkId').isString().notEmpty().withMessage('Link ID is required')],
   validateRequest,
   async (req: Request, res: Response): Promise<void> => {
@@ -4,29 +4,31 @@ import { WhatsAppService } from './whatsappService';
 import { SMSService } from './smsService';
 
 // Mock Firestore
-const mockFirestore = {
-  collection: vi.fn(() => ({
-    doc: vi.fn(() => ({
-      set: vi.fn(),
-      get: vi.fn(),
-      update: vi.fn(),
-      delete: vi.fn()
-    })),
-    where: vi.fn(() => ({
-      orderBy: vi.fn(() => ({
-        get: vi.fn()
+const { mockFirestore } = vi.hoisted(() => ({
+  mockFirestore: {
+    collection: vi.fn(() => ({
+      doc: vi.fn(() => ({
+        set: vi.fn(),
+        get: vi.fn(),
+        update: vi.fn(),
+        delete: vi.fn()
       })),
-      limit: vi.fn(() => ({
+      where: vi.fn(() => ({
+        orderBy: vi.fn(() => ({
+          get: vi.fn()
+        })),
+        limit: vi.fn(() => ({
+          get: vi.fn()
+        })),
         get: vi.fn()
-      })),
-      get: vi.fn()
-    }))
-  })),
-  Timestamp: {
-    now: vi.fn(() => ({ seconds: Date.now() / 1000 })),
-    fromDate: vi.fn((date) => ({ seconds: date.getTime() / 1000 }))
+      }))
+    })),
+    Timestamp: {
+      now: vi.fn(() => ({ seconds: Date.now() / 1000 })),
+      fromDate: vi.fn((date) => ({ seconds: date.getTime() / 1000 }))
+    }
   }
-};
+}));
 
 // Mock Firebase config
 vi.mock('../config/firebase', () => ({
@@ -39,7 +41,7 @@ vi.mock('./smsService');
 
 // Mock crypto for consistent token generation in tests
 vi.mock('crypto', () => ({
-  randomBytes: vi.fn(() => Buffer.from('mockrandomdata1234567890abcdef')),
+  randomBytes: vi.fn((size: number) => Buffer.alloc(size, 0xab)),
   createHash: vi.fn(() => ({
     update: vi.fn(() => ({
       digest: vi.fn(() => 'mock_secure_token_hash_1234567890abcdef')
@@ -66,10 +68,10 @@ describe('PaymentLinkService', () => {
     (WhatsAppService as any).mockImplementation(() => mockWhatsAppService);
     (SMSService as any).mockImplementation(() => mockSMSService);
 
-    paymentLinkService = new PaymentLinkService();
-
     // Mock environment variables
     process.env.PUBLIC_BASE_URL = 'https://test.pharmarx.com';
+
+    paymentLinkService = new PaymentLinkService();
   });
 
   describe('generatePaymentLink', () => {
@@ -262,18 +264,21 @@ describe('PaymentLinkService', () => {
   });
 
   describe('verifyOrderOwnership', () => {
-    it('should return true for valid ownership', async () => {
-      const mockOrderDoc = {
-        exists: true,
-        data: () => ({
-          patientProfileId: 'user-123'
-        })
-      };
+    const mockDocuments = (documents: Record<string, Record<string, any>>) => {
+      (mockFirestore.collection as Mock).mockImplementation((collection: string) => ({
+        doc: vi.fn((id: string) => ({
+          get: vi.fn().mockResolvedValue({
+            exists: `${collection}/${id}` in documents,
+            data: () => documents[`${collection}/${id}`]
+          })
+        }))
+      }));
+    };
 
-      mockFirestore.collection.mockReturnValue({
-        doc: vi.fn().mockReturnValue({
-          get: vi.fn().mockResolvedValue(mockOrderDoc)
-        })
+    it('should return true for the owner of the patient profile', async () => {
+      mockDocuments({
+        'prescriptionOrders/order-123': { patientProfileId: 'profile-123' },
+        'patientProfiles/profile-123': { managedByUid: 'user-123' }
       });
 
       const result = await paymentLinkService.verifyOrderOwnership('order-123', 'user-123');
@@ -282,15 +287,23 @@ describe('PaymentLinkService', () => {
       expect(mockFirestore.collection).toHaveBeenCalledWith('prescriptionOrders');
     });
 
-    it('should return false for non-existent order', async () => {
-      const mockOrderDoc = {
-        exists: false
-      };
+    it('should return true for members who may pay', async () => {
+      mockDocuments({
+        'prescriptionOrders/order-123': { patientProfileId: 'profile-123' },
+        'patientProfiles/profile-123': { managedByUid: 'caregiver-456' },
+        'profileMemberships/profile-123_user-123': { role: 'can_pay' }
+      });
 
-      mockFirestore.collection.mockReturnValue({
-        doc: vi.fn().mockReturnValue({
-          get: vi.fn().mockResolvedValue(mockOrderDoc)
-        })
+      const result = await paymentLinkService.verifyOrderOwnership('order-123', 'user-123');
+
+      expect(result).toBe(true);
+    });
+
+    it('should return false for view-only members', async () => {
+      mockDocuments({
+        'prescriptionOrders/order-123': { patientProfileId: 'profile-123' },
+        'patientProfiles/profile-123': { managedByUid: 'caregiver-456' },
+        'profileMemberships/profile-123_user-123': { role: 'view_only' }
       });
 
       const result = await paymentLinkService.verifyOrderOwnership('order-123', 'user-123');
@@ -298,18 +311,18 @@ describe('PaymentLinkService', () => {
       expect(result).toBe(false);
     });
 
-    it('should return false for wrong ownership', async () => {
-      const mockOrderDoc = {
-        exists: true,
-        data: () => ({
-          patientProfileId: 'different-user-456'
-        })
-      };
+    it('should return false for non-existent order', async () => {
+      mockDocuments({});
 
-      mockFirestore.collection.mockReturnValue({
-        doc: vi.fn().mockReturnValue({
-          get: vi.fn().mockResolvedValue(mockOrderDoc)
-        })
+      const result = await paymentLinkService.verifyOrderOwnership('order-123', 'user-123');
+
+      expect(result).toBe(false);
+    });
+
+    it('should return false for wrong ownership', async () => {
+      mockDocuments({
+        'prescriptionOrders/order-123': { patientProfileId: 'profile-123' },
+        'patientProfiles/profile-123': { managedByUid: 'different-user-456' }
       });
 
       const result = await paymentLinkService.verifyOrderOwnership('order-123', 'user-123');
@@ -605,36 +618,27 @@ describe('PaymentLinkService', () => {
 
   describe('deactivatePaymentLink', () => {
     it('should deactivate payment link when user has access', async () => {
-      const mockLinkDoc = {
-        exists: true,
-        data: () => ({
-          orderId: 'order-123'
-        })
+      const mockUpdate = vi.fn().mockResolvedValue(undefined);
+      const documents: Record<string, Record<string, any>> = {
+        'paymentLinks/link-123': { orderId: 'order-123' },
+        'prescriptionOrders/order-123': { patientProfileId: 'profile-123' },
+        'patientProfiles/profile-123': { managedByUid: 'user-123' }
       };
 
-      const mockOrderDoc = {
-        exists: true,
-        data: () => ({
-          patientProfileId: 'user-123'
-        })
-      };
-
-      mockFirestore.collection
-        .mockReturnValueOnce({
-          doc: vi.fn().mockReturnValue({
-            get: vi.fn().mockResolvedValue(mockLinkDoc),
-            update: vi.fn().mockResolvedValue(undefined)
-          })
-        })
-        .mockReturnValueOnce({
-          doc: vi.fn().mockReturnValue({
-            get: vi.fn().mockResolvedValue(mockOrderDoc)
-          })
-        });
+      (mockFirestore.collection as Mock).mockImplementation((collection: string) => ({
+        doc: vi.fn((id: string) => ({
+          get: vi.fn().mockResolvedValue({
+            exists: `${collection}/${id}` in documents,
+            data: () => documents[`${collection}/${id}`]
+          }),
+          update: mockUpdate
+        }))
+      }));
 
       const result = await paymentLinkService.deactivatePaymentLink('link-123', 'user-123');
 
       expect(result.success).toBe(true);
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ isUsed: true }));
     });
 
     it('should deny access for non-existent payment link', async () => {
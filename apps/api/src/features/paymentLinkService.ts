@@ -1,5 +1,12 @@
 import { firestore } from '../config/firebase';
-import { PaymentLink, PaymentLinkRequest, PaymentLinkResponse, PrescriptionOrderStatus } from '@pharmarx/shared-types';
+import {
+  PaymentLink,
+  PaymentLinkRequest,
+  PaymentLinkResponse,
+  PrescriptionOrderStatus,
+  canPerformProfileAction,
+  getProfileMembershipId
+} from '@pharmarx/shared-types';
 import { WhatsAppService } from './whatsappService';
 import { SMSService } from './smsService';
 import { randomBytes, createHash } from 'crypto';
@@ -97,7 +104,7 @@ export class PaymentLinkService {
   }
 
   /**
-   * Verify that an order exists and belongs to the specified user
+   * Verify that an order exists and the user may pay for it, as the owner of its patient profile or a member
    */
   async verifyOrderOwnership(orderId: string, userId: string): Promise<boolean> {
     try {
@@ -107,8 +114,22 @@ export class PaymentLinkService {
         return false;
       }
 
-      const orderData = orderDoc.data();
-      return orderData?.patientProfileId === userId;
+      const profileId = orderDoc.data()?.patientProfileId;
+      if (!profileId) {
+        return false;
+      }
+
+      // The profile owner, or a member whose role allows paying
+      const profileDoc = await firestore.collection('patientProfiles').doc(profileId).get();
+      if (!profileDoc.exists) {
+        return false;
+      }
+      if (profileDoc.data()?.managedByUid === userId) {
+        return true;
+      }
+
+      const membershipDoc = await firestore.collection('profileMemberships').doc(getProfileMembershipId(profileId, userId)).get();
+      return membershipDoc.exists && canPerformProfileAction(membershipDoc.data()?.role, 'pay');
     } catch (error) {
       console.error('Error verifying order ownership:', error);
       return false;
@@ -1,39 +1,67 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
 import paymentRoutes from './paymentRoutes';
 import { paymentService } from './paymentService';
 import { receiptService } from './receiptService';
-import admin from 'firebase-admin';
+import { clearUserCache } from '../middleware/auth';
 
-// Mock Firebase Admin
+const { mockVerifyIdToken, documents } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn(),
+  documents: {} as Record<string, Record<string, unknown>>
+}));
+
+// Access checks read Firestore documents by 'collection/id' from documents
 vi.mock('firebase-admin', () => ({
   default: {
-    auth: () => ({
-      verifyIdToken: vi.fn()
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: (collection: string) => ({
+        doc: (id: string) => ({
+          get: async () => ({
+            exists: `${collection}/${id}` in documents,
+            data: () => documents[`${collection}/${id}`]
+          })
+        })
+      })
     })
   }
 }));
 
+// paymentService and receiptService read collections at import time
+vi.mock('./database', () => ({
+  db: { collection: vi.fn() },
+  default: { getDb: vi.fn() }
+}));
+
 // Mock services
 vi.mock('./paymentService');
 vi.mock('./receiptService');
 
 const mockPaymentService = vi.mocked(paymentService);
 const mockReceiptService = vi.mocked(receiptService);
-const mockAuth = vi.mocked(admin.auth());
 
 const app = express();
 app.use(express.json());
 app.use('/api', paymentRoutes);
 
 const validToken = 'valid-firebase-token';
-const mockUser = { uid: 'test-user-123', email: 'test@example.com' };
+
+const signInAs = (uid: string, user: Record<string, unknown>) => {
+  mockVerifyIdToken.mockResolvedValue({ uid, email: `${uid}@example.com` });
+  documents[`users/${uid}`] = user;
+};
 
 describe('Payment Routes Integration Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    mockAuth.verifyIdToken.mockResolvedValue(mockUser as any);
+    clearUserCache();
+    Object.keys(documents).forEach(path => delete documents[path]);
+    documents['prescriptionOrders/test-order-1'] = { patientProfileId: 'profile-1', pharmacyId: 'pharmacy-1' };
+    documents['patientProfiles/profile-1'] = { managedByUid: 'test-user-123' };
+    documents['payments/payment-123'] = { paymentId: 'payment-123', orderId: 'test-order-1' };
+    signInAs('test-user-123', { role: UserRole.Caregiver });
   });
 
   afterEach(() => {
@@ -94,11 +122,11 @@ describe('Payment Routes Integration Tests', () => {
 
       expect(response.status).toBe(401);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Authorization token required');
+      expect(response.body.error).toBe('Authorization header required');
     });
 
     it('should return 401 with invalid token', async () => {
-      mockAuth.verifyIdToken.mockRejectedValueOnce(new Error('Invalid token'));
+      mockVerifyIdToken.mockRejectedValueOnce(new Error('Invalid token'));
 
       const response = await request(app)
         .post('/api/orders/test-order-1/pay')
@@ -107,7 +135,7 @@ describe('Payment Routes Integration Tests', () => {
 
       expect(response.status).toBe(401);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Invalid authorization token');
+      expect(response.body.error).toBe('Invalid authentication token');
     });
 
     it('should return 400 with missing gateway', async () => {
@@ -210,7 +238,7 @@ describe('Payment Routes Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        data: mockPayments,
+        data: JSON.parse(JSON.stringify(mockPayments)),
         message: 'Payment history retrieved successfully'
       });
 
@@ -282,7 +310,7 @@ describe('Payment Routes Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        data: mockAuditLogs,
+        data: JSON.parse(JSON.stringify(mockAuditLogs)),
         message: 'Payment audit logs retrieved successfully'
       });
 
@@ -541,6 +569,122 @@ describe('Payment Routes Integration Tests', () => {
     });
   });
 
+  describe('POST /api/payments/:paymentId/refunds', () => {
+    const refundRequest = { amount: 10, reason: 'Medication out of stock' };
+
+    it('should let a pharmacist at the fulfilling pharmacy refund the payment', async () => {
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+      mockPaymentService.refundPayment.mockResolvedValueOnce({ refundId: 'refund-1', paymentId: 'payment-123', status: 'succeeded' } as any);
+
+      const response = await request(app)
+        .post('/api/payments/payment-123/refunds')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(refundRequest)
+        .expect(201);
+
+      expect(response.body.message).toBe('Refund processed successfully');
+      expect(mockPaymentService.refundPayment).toHaveBeenCalledWith('payment-123', refundRequest, 'pharmacist-1');
+    });
+
+    it.each([
+      ['at another pharmacy', { pharmacyId: 'pharmacy-2' }],
+      ['without a pharmacy', {}]
+    ])('should keep pharmacists %s from refunding the payment', async (_description, affiliation) => {
+      signInAs('pharmacist-2', { role: UserRole.Pharmacist, ...affiliation });
+
+      const response = await request(app)
+        .post('/api/payments/payment-123/refunds')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(refundRequest)
+        .expect(403);
+
+      expect(response.body.error).toBe('Only the pharmacy fulfilling this order can do this');
+      expect(mockPaymentService.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('should keep pharmacists from refunding orders not placed with a pharmacy', async () => {
+      documents['prescriptionOrders/test-order-1'] = { patientProfileId: 'profile-1' };
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+
+      await request(app)
+        .post('/api/payments/payment-123/refunds')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(refundRequest)
+        .expect(403);
+
+      expect(mockPaymentService.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('should let admins refund any payment', async () => {
+      signInAs('admin-1', { role: UserRole.Admin });
+      mockPaymentService.refundPayment.mockResolvedValueOnce({ refundId: 'refund-1', paymentId: 'payment-123', status: 'pending' } as any);
+
+      const response = await request(app)
+        .post('/api/payments/payment-123/refunds')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(refundRequest)
+        .expect(201);
+
+      expect(response.body.message).toBe('Refund submitted');
+    });
+
+    it('should keep patients from issuing refunds', async () => {
+      await request(app)
+        .post('/api/payments/payment-123/refunds')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(refundRequest)
+        .expect(403);
+
+      expect(mockPaymentService.refundPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Payment access', () => {
+    const paymentRequests = [
+      ['get', '/api/payments/payment-123'],
+      ['get', '/api/payments/payment-123/status'],
+      ['get', '/api/payments/payment-123/refunds'],
+      ['get', '/api/payments/payment-123/audit'],
+      ['get', '/api/payments/payment-123/receipt'],
+      ['get', '/api/payments/payment-123/receipt/download'],
+      ['post', '/api/payments/payment-123/receipt/regenerate']
+    ] as const;
+
+    it.each(paymentRequests)('should keep other patients from %s %s', async (method, path) => {
+      signInAs('other-caregiver', { role: UserRole.Caregiver });
+
+      const response = await request(app)[method](path)
+        .set('Authorization', `Bearer ${validToken}`)
+        .send({});
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('You do not have access to this payment');
+      expect(mockPaymentService.getPayment).not.toHaveBeenCalled();
+      expect(mockPaymentService.refreshPaymentStatus).not.toHaveBeenCalled();
+      expect(mockReceiptService.getReceiptByPaymentId).not.toHaveBeenCalled();
+    });
+
+    it('should keep pharmacists at other pharmacies from reading the payment', async () => {
+      signInAs('pharmacist-2', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-2' });
+
+      await request(app)
+        .get('/api/payments/payment-123')
+        .set('Authorization', `Bearer ${validToken}`)
+        .expect(403);
+    });
+
+    it('should let members the profile is shared with read the payment', async () => {
+      documents['profileMemberships/profile-1_grandparent-1'] = { profileId: 'profile-1', uid: 'grandparent-1', role: 'view_only' };
+      signInAs('grandparent-1', { role: UserRole.Caregiver });
+      mockPaymentService.getPayment.mockResolvedValueOnce({ paymentId: 'payment-123', orderId: 'test-order-1' } as any);
+
+      await request(app)
+        .get('/api/payments/payment-123')
+        .set('Authorization', `Bearer ${validToken}`)
+        .expect(200);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle service unavailable errors', async () => {
       mockPaymentService.processPayment.mockRejectedValueOnce(
@@ -583,6 +727,12 @@ describe('Payment Routes Integration Tests', () => {
         }
       };
 
+      mockPaymentService.processPayment.mockResolvedValueOnce({
+        paymentId: 'payment-123',
+        transactionId: 'ch_test123',
+        status: 'succeeded'
+      });
+
       const response = await request(app)
         .post('/api/orders/test-order-1/pay')
         .set('Authorization', `Bearer ${validToken}`)
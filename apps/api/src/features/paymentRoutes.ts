@@ -1,40 +1,19 @@
 import { Request, Response, Router } from 'express';
-import { ApiResponse } from '@pharmarx/shared-types';
-import { paymentService, ProcessPaymentRequest, ProcessPaymentResult } from './paymentService';
+import { ApiResponse, PaymentRefund, UserRole } from '@pharmarx/shared-types';
+import { paymentService, ProcessPaymentRequest, ProcessPaymentResult, RefundNotAllowedError } from './paymentService';
+import { GatewayNextAction, PaymentDeclinedError } from './paymentGateways';
 import { receiptService } from './receiptService';
-import admin from 'firebase-admin';
+import { verifyAuth, requireRole, requireOrderAccess, requirePaymentAccess, requireFulfillingPharmacy } from '../middleware/auth';
 
 const router = Router();
 
-/**
- * Middleware to authenticate user
- */
-const authenticateUser = async (req: Request, res: Response, next: any) => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authorization token required'
-      } as ApiResponse<null>);
-    }
-
-    const token = authHeader.substring(7);
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    req.user = decodedToken;
-    next();
-  } catch (error) {
-    return res.status(401).json({
-      success: false,
-      error: 'Invalid authorization token'
-    } as ApiResponse<null>);
-  }
-};
+// Refunds are issued by admins and by pharmacists at the pharmacy fulfilling the order
+const requireRefundRole = requireRole(UserRole.Pharmacist, UserRole.Admin);
 
 /**
  * POST /orders/:orderId/pay - Process payment for an order
  */
-router.post('/orders/:orderId/pay', authenticateUser, async (req: Request, res: Response) => {
+router.post('/orders/:orderId/pay', verifyAuth, requireOrderAccess('orderId', 'pay'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     const { gateway, amount, currency, paymentData } = req.body;
@@ -78,17 +57,26 @@ router.post('/orders/:orderId/pay', authenticateUser, async (req: Request, res:
       data: {
         paymentId: result.paymentId,
         transactionId: result.transactionId,
-        status: result.status
+        status: result.status,
+        ...(result.nextAction && { nextAction: result.nextAction })
       },
-      message: 'Payment processed successfully'
+      message: result.nextAction ? 'Payment requires additional authentication' : 'Payment processed successfully'
     } as ApiResponse<{
       paymentId: string;
       transactionId: string;
       status: string;
+      nextAction?: GatewayNextAction;
     }>);
 
   } catch (error) {
     console.error('Payment processing error:', error);
+
+    if (error instanceof PaymentDeclinedError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
     
     const errorMessage = error instanceof Error ? error.message : 'Payment processing failed';
     const statusCode = errorMessage.includes('validation failed') || 
@@ -105,7 +93,7 @@ router.post('/orders/:orderId/pay', authenticateUser, async (req: Request, res:
 /**
  * GET /orders/:orderId/payments - Get payment history for an order
  */
-router.get('/orders/:orderId/payments', authenticateUser, async (req: Request, res: Response) => {
+router.get('/orders/:orderId/payments', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
 
@@ -130,7 +118,7 @@ router.get('/orders/:orderId/payments', authenticateUser, async (req: Request, r
 /**
  * GET /payments/:paymentId - Get payment details by ID
  */
-router.get('/payments/:paymentId', authenticateUser, async (req: Request, res: Response) => {
+router.get('/payments/:paymentId', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
 
@@ -159,10 +147,129 @@ router.get('/payments/:paymentId', authenticateUser, async (req: Request, res: R
   }
 });
 
+/**
+ * GET /payments/:paymentId/status - Poll a pending payment until the customer approves it
+ */
+router.get('/payments/:paymentId/status', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+
+    const payment = await paymentService.refreshPaymentStatus(paymentId);
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Payment not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        paymentId: payment.paymentId,
+        transactionId: payment.transactionId,
+        status: payment.status,
+        ...(payment.failureReason && { failureReason: payment.failureReason })
+      },
+      message: 'Payment status retrieved successfully'
+    } as ApiResponse<{
+      paymentId: string;
+      transactionId: string;
+      status: string;
+      failureReason?: string;
+    }>);
+
+  } catch (error) {
+    console.error('Error refreshing payment status:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve payment status'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /payments/:paymentId/refunds - Refund all or part of a payment
+ */
+router.post('/payments/:paymentId/refunds', verifyAuth, requireRefundRole, requireFulfillingPharmacy(), async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const { amount, reason } = req.body;
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Refund reason is required'
+      } as ApiResponse<null>);
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Refund amount must be a positive number'
+      } as ApiResponse<null>);
+    }
+
+    const refund = await paymentService.refundPayment(paymentId, { amount, reason: reason.trim() }, req.user!.uid);
+
+    if (!refund) {
+      return res.status(404).json({
+        success: false,
+        error: 'Payment not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: refund,
+      message: refund.status === 'pending' ? 'Refund submitted' : 'Refund processed successfully'
+    } as ApiResponse<PaymentRefund>);
+
+  } catch (error) {
+    if (error instanceof RefundNotAllowedError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Refund processing error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Refund processing failed'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /payments/:paymentId/refunds - List refunds issued for a payment
+ */
+router.get('/payments/:paymentId/refunds', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
+  try {
+    const refunds = await paymentService.getRefundsForPayment(req.params.paymentId);
+
+    res.status(200).json({
+      success: true,
+      data: refunds,
+      message: 'Refunds retrieved successfully'
+    } as ApiResponse<PaymentRefund[]>);
+
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve refunds'
+    } as ApiResponse<null>);
+  }
+});
+
 /**
  * GET /payments/:paymentId/audit - Get payment audit logs
  */
-router.get('/payments/:paymentId/audit', authenticateUser, async (req: Request, res: Response) => {
+router.get('/payments/:paymentId/audit', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
 
@@ -187,7 +294,7 @@ router.get('/payments/:paymentId/audit', authenticateUser, async (req: Request,
 /**
  * GET /orders/:orderId/audit - Get payment audit logs for an order
  */
-router.get('/orders/:orderId/audit', authenticateUser, async (req: Request, res: Response) => {
+router.get('/orders/:orderId/audit', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
 
@@ -213,7 +320,7 @@ router.get('/orders/:orderId/audit', authenticateUser, async (req: Request, res:
  * POST /orders/:orderId/request-payment - Generate payment link for third party
  * This would be used for cases where someone else pays for the prescription
  */
-router.post('/orders/:orderId/request-payment', authenticateUser, async (req: Request, res: Response) => {
+router.post('/orders/:orderId/request-payment', verifyAuth, requireOrderAccess('orderId', 'pay'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     const { recipientEmail, message } = req.body;
@@ -338,7 +445,7 @@ router.post('/public/pay/:paymentToken', async (req: Request, res: Response) =>
 /**
  * GET /payments/:paymentId/receipt - Get receipt details for a payment
  */
-router.get('/payments/:paymentId/receipt', authenticateUser, async (req: Request, res: Response) => {
+router.get('/payments/:paymentId/receipt', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
 
@@ -370,7 +477,7 @@ router.get('/payments/:paymentId/receipt', authenticateUser, async (req: Request
 /**
  * GET /payments/:paymentId/receipt/download - Download receipt PDF
  */
-router.get('/payments/:paymentId/receipt/download', authenticateUser, async (req: Request, res: Response) => {
+router.get('/payments/:paymentId/receipt/download', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
 
@@ -412,7 +519,7 @@ router.get('/payments/:paymentId/receipt/download', authenticateUser, async (req
 /**
  * GET /orders/:orderId/receipt - Get receipt for an order (convenience endpoint)
  */
-router.get('/orders/:orderId/receipt', authenticateUser, async (req: Request, res: Response) => {
+router.get('/orders/:orderId/receipt', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
 
@@ -455,7 +562,7 @@ router.get('/orders/:orderId/receipt', authenticateUser, async (req: Request, re
 /**
  * POST /payments/:paymentId/receipt/regenerate - Regenerate receipt with custom info
  */
-router.post('/payments/:paymentId/receipt/regenerate', authenticateUser, async (req: Request, res: Response) => {
+router.post('/payments/:paymentId/receipt/regenerate', verifyAuth, requirePaymentAccess(), async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
     const { pharmacyInfo, customerInfo } = req.body;
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { paymentService, ProcessPaymentRequest } from './paymentService';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { paymentService, ProcessPaymentRequest, RefundNotAllowedError } from './paymentService';
+import { receiptService } from './receiptService';
 import { db } from './database';
+import { orderStatusService } from './orderStatusService';
+import { getPaymentGatewayProvider, PaymentGatewayProvider } from './paymentGateways';
 
 // Mock Firebase Admin
 vi.mock('firebase-admin', () => ({
@@ -50,10 +53,38 @@ vi.mock('./database', () => ({
           docs: []
         })
       }))
-    }))
+    })),
+    runTransaction: vi.fn()
   }
 }));
 
+// Status changes are covered by orderStatusService tests
+vi.mock('./orderStatusService', () => ({
+  orderStatusService: {
+    transitionOrderStatus: vi.fn().mockResolvedValue(null)
+  }
+}));
+
+// Lets a test swap in an asynchronous gateway; everything else uses the real lookup
+vi.mock('./paymentGateways', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./paymentGateways')>();
+  return {
+    ...actual,
+    getPaymentGatewayProvider: vi.fn(actual.getPaymentGatewayProvider)
+  };
+});
+
+// Charge through the simulator; the live providers are tested against mock gateway APIs
+process.env.PAYMENT_PROVIDER = 'sandbox';
+
+// The service grabs its collections when the module loads, after the services it imports
+const paymentsCollection = vi.mocked(db.collection).mock.results[
+  vi.mocked(db.collection).mock.calls.map(([name]: any[]) => name).lastIndexOf('payments')
+].value;
+const refundsCollection = vi.mocked(db.collection).mock.results[
+  vi.mocked(db.collection).mock.calls.map(([name]: any[]) => name).lastIndexOf('refunds')
+].value;
+
 describe('PaymentService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -81,6 +112,10 @@ describe('PaymentService', () => {
         transactionId: expect.stringMatching(/^ch_/),
         status: 'succeeded'
       });
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('test-order-1', 'preparing', expect.objectContaining({
+        actor: 'system',
+        changedBy: 'system'
+      }));
     });
 
     it('should successfully process a PayPal payment', async () => {
@@ -230,6 +265,51 @@ describe('PaymentService', () => {
         .rejects.toThrow('Payment validation failed: Valid amount is required');
     });
 
+    it('should reject an amount that does not match the order total', async () => {
+      const request: ProcessPaymentRequest = {
+        orderId: 'test-order-1',
+        gateway: 'paypal',
+        amount: 0.01,
+        currency: 'USD',
+        paymentData: {}
+      };
+
+      await expect(paymentService.processPayment(request, 'test-user-123'))
+        .rejects.toThrow('Order validation failed: Payment amount does not match the order total of 45.5');
+    });
+
+    it('should reject a currency other than the one orders are priced in', async () => {
+      const request: ProcessPaymentRequest = {
+        orderId: 'test-order-1',
+        gateway: 'paypal',
+        amount: 45.50,
+        currency: 'XOF',
+        paymentData: {}
+      };
+
+      await expect(paymentService.processPayment(request, 'test-user-123'))
+        .rejects.toThrow('Order validation failed: Orders are paid in USD');
+    });
+
+    it('should refuse gateways without a live integration outside the sandbox', async () => {
+      delete process.env.PAYMENT_PROVIDER;
+      try {
+        const request: ProcessPaymentRequest = {
+          orderId: 'test-order-1',
+          gateway: 'paypal',
+          amount: 45.50,
+          currency: 'USD',
+          paymentData: {}
+        };
+
+        await expect(paymentService.processPayment(request, 'test-user-123'))
+          .rejects.toThrow('Payment validation failed: Payments through paypal are not available');
+        expect(() => getPaymentGatewayProvider('paypal')).toThrow('Payments through paypal are not available');
+      } finally {
+        process.env.PAYMENT_PROVIDER = 'sandbox';
+      }
+    });
+
     it('should reject unsupported payment gateway', async () => {
       const request: ProcessPaymentRequest = {
         orderId: 'test-order-1',
@@ -413,49 +493,535 @@ describe('PaymentService', () => {
         .resolves.not.toThrow();
     });
 
-    it('should process MTN webhook successfully', async () => {
-      const mtnPayload = {
-        transactionId: 'MTN123',
-        status: 'SUCCESSFUL'
-      };
+    it('should reject webhook with invalid signature', async () => {
+      const payload = { type: 'test' };
 
-      // Mock finding payment by transaction ID
-      const mockGet = vi.fn().mockResolvedValue({
-        empty: false,
-        docs: [{
-          data: () => ({
-            paymentId: 'test-payment-1',
-            orderId: 'test-order-1',
-            status: 'pending'
-          }),
-          ref: {
-            update: vi.fn().mockResolvedValue({})
-          }
-        }]
+      await expect(paymentService.processWebhook('stripe', payload))
+        .rejects.toThrow('Invalid webhook signature');
+    });
+  });
+
+  describe('refreshPaymentStatus', () => {
+    const originalDoc = paymentsCollection.doc;
+    const originalWhere = paymentsCollection.where;
+    const mockUpdate = vi.fn();
+    const getTransactionStatus = vi.fn();
+
+    const momoProvider: PaymentGatewayProvider = {
+      name: 'mtn-momo',
+      validatePaymentData: () => [],
+      charge: vi.fn(),
+      getTransactionStatus,
+      verifyWebhookSignature: () => true
+    };
+
+    // The ref reads back the same payment, as settling re-reads it inside a transaction
+    const storedSnapshot = (payment: Record<string, unknown>, stored = payment): any => ({
+      id: payment.paymentId,
+      exists: true,
+      data: () => payment,
+      ref: { update: mockUpdate, get: async () => storedSnapshot(stored) }
+    });
+
+    const mockStoredPayment = (payment: Record<string, unknown>) => {
+      paymentsCollection.doc = vi.fn(() => ({
+        get: vi.fn().mockResolvedValue(storedSnapshot(payment))
+      }));
+    };
+
+    const pendingPayment = {
+      paymentId: 'payment-1',
+      orderId: 'test-order-1',
+      gateway: 'mtn',
+      transactionId: 'momo-reference-1',
+      status: 'pending',
+      expiresAt: new Date(Date.now() + 5 * 60 * 1000)
+    };
+
+    beforeEach(() => {
+      mockUpdate.mockResolvedValue({});
+      vi.mocked(getPaymentGatewayProvider).mockReturnValue(momoProvider);
+      vi.mocked(db.runTransaction).mockImplementation(async (callback: any) => callback({
+        get: (ref: any) => ref.get(),
+        update: (ref: any, data: unknown) => ref.update(data)
+      }));
+    });
+
+    afterEach(() => {
+      paymentsCollection.doc = originalDoc;
+      paymentsCollection.where = originalWhere;
+      vi.mocked(getPaymentGatewayProvider).mockReset();
+    });
+
+    it('should move the order to preparing once MoMo reports success', async () => {
+      mockStoredPayment(pendingPayment);
+      getTransactionStatus.mockResolvedValue({ status: 'succeeded', gatewayResponse: { status: 'SUCCESSFUL' } });
+
+      const payment = await paymentService.refreshPaymentStatus('payment-1');
+
+      expect(payment?.status).toBe('succeeded');
+      expect(getTransactionStatus).toHaveBeenCalledWith('momo-reference-1');
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded' }));
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('test-order-1', 'preparing', expect.objectContaining({
+        reason: 'Payment confirmed'
+      }));
+    });
+
+    it('should record why a payment failed without touching the order', async () => {
+      mockStoredPayment(pendingPayment);
+      getTransactionStatus.mockResolvedValue({
+        status: 'failed',
+        gatewayResponse: { status: 'FAILED', reason: 'APPROVAL_REJECTED' },
+        failureReason: 'The payment was declined on the handset'
       });
 
-      const mockWhere = vi.fn().mockReturnValue({
-        where: vi.fn().mockReturnValue({
-          get: mockGet
-        })
+      const payment = await paymentService.refreshPaymentStatus('payment-1');
+
+      expect(payment).toMatchObject({ status: 'failed', failureReason: 'The payment was declined on the handset' });
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave a request pending while the customer can still approve it', async () => {
+      mockStoredPayment(pendingPayment);
+      getTransactionStatus.mockResolvedValue({ status: 'pending', gatewayResponse: { status: 'PENDING' } });
+
+      const payment = await paymentService.refreshPaymentStatus('payment-1');
+
+      expect(payment?.status).toBe('pending');
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should expire a request that was never approved', async () => {
+      mockStoredPayment({ ...pendingPayment, expiresAt: { toDate: () => new Date(Date.now() - 1000) } });
+      getTransactionStatus.mockResolvedValue({ status: 'pending', gatewayResponse: { status: 'PENDING' } });
+
+      const payment = await paymentService.refreshPaymentStatus('payment-1');
+
+      expect(payment?.status).toBe('expired');
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'expired',
+        failureReason: 'The payment request expired before it was approved'
+      }));
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not query the gateway for settled payments', async () => {
+      mockStoredPayment({ ...pendingPayment, status: 'succeeded' });
+
+      const payment = await paymentService.refreshPaymentStatus('payment-1');
+
+      expect(payment?.status).toBe('succeeded');
+      expect(getTransactionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should trust MoMo rather than the callback body', async () => {
+      mockStoredPayment(pendingPayment);
+      getTransactionStatus.mockResolvedValue({ status: 'pending', gatewayResponse: { status: 'PENDING' } });
+
+      await paymentService.processWebhook('mtn', { externalId: 'payment-1', status: 'SUCCESSFUL' });
+
+      expect(paymentsCollection.doc).toHaveBeenCalledWith('payment-1');
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not mark the order paid on a forged SUCCESSFUL callback', async () => {
+      mockStoredPayment(pendingPayment);
+      const where = vi.fn(() => ({
+        where: vi.fn(() => ({
+          get: vi.fn().mockResolvedValue({ empty: false, docs: [storedSnapshot(pendingPayment)] })
+        }))
+      }));
+      paymentsCollection.where = where;
+      getTransactionStatus.mockResolvedValue({ status: 'pending', gatewayResponse: { status: 'PENDING' } });
+
+      await paymentService.processWebhook('mtn', { transactionId: 'momo-reference-1', status: 'SUCCESSFUL' });
+
+      expect(where).toHaveBeenCalledWith('gateway', '==', 'mtn');
+      expect(getTransactionStatus).toHaveBeenCalledWith('momo-reference-1');
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should settle the payment when MoMo confirms the callback', async () => {
+      mockStoredPayment(pendingPayment);
+      getTransactionStatus.mockResolvedValue({ status: 'succeeded', gatewayResponse: { status: 'SUCCESSFUL' } });
+
+      await paymentService.processWebhook('mtn', { externalId: 'payment-1', status: 'SUCCESSFUL' });
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded' }));
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('test-order-1', 'preparing', expect.anything());
+    });
+
+    describe('paying again', () => {
+      const payAgain = () => paymentService.processPayment({
+        orderId: 'test-order-1',
+        gateway: 'mtn',
+        amount: 45.50,
+        currency: 'USD',
+        paymentData: { phoneNumber: '+22912345678' }
       });
 
-      (db.collection as any).mockReturnValue({
-        where: mockWhere,
-        doc: vi.fn(() => ({
+      const mockEarlierPayment = (payment: Record<string, unknown>) => {
+        paymentsCollection.doc = vi.fn(() => ({
+          id: 'payment-2',
+          get: vi.fn().mockResolvedValue(storedSnapshot(payment)),
           set: vi.fn().mockResolvedValue({})
+        }));
+        paymentsCollection.where = vi.fn(() => ({
+          where: vi.fn((_field: string, _op: string, status: string) => ({
+            get: vi.fn().mockResolvedValue(status === 'pending'
+              ? { empty: false, docs: [storedSnapshot(payment)] }
+              : { empty: true, docs: [] })
+          }))
+        }));
+      };
+
+      beforeEach(() => {
+        getTransactionStatus.mockResolvedValue({ status: 'pending', gatewayResponse: { status: 'PENDING' } });
+        vi.mocked(momoProvider.charge).mockResolvedValue({
+          transactionId: 'momo-reference-2',
+          status: 'pending',
+          gatewayResponse: {}
+        });
+      });
+
+      it('should expire an abandoned payment and let the customer pay again', async () => {
+        mockEarlierPayment({ ...pendingPayment, expiresAt: new Date(Date.now() - 1000) });
+
+        const result = await payAgain();
+
+        expect(result.transactionId).toBe('momo-reference-2');
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'expired' }));
+      });
+
+      it('should refuse while the customer can still approve the earlier payment', async () => {
+        mockEarlierPayment(pendingPayment);
+
+        await expect(payAgain()).rejects.toThrow('Order validation failed: Order has a payment awaiting approval');
+        expect(momoProvider.charge).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should ignore a webhook for a payment that has already settled', async () => {
+      const stripePayment = { ...pendingPayment, gateway: 'stripe', transactionId: 'pi_1' };
+      // The lookup still sees the payment pending; a poll settled it before the transaction ran
+      paymentsCollection.where = vi.fn(() => ({
+        where: vi.fn(() => ({
+          get: vi.fn().mockResolvedValue({
+            empty: false,
+            docs: [storedSnapshot(stripePayment, { ...stripePayment, status: 'succeeded' })]
+          })
         }))
+      }));
+
+      await paymentService.processWebhook('stripe', { type: 'payment_intent.payment_failed', data: { object: { id: 'pi_1' } } }, 'sig');
+
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not mark an order paid twice when a webhook is resent', async () => {
+      const stripePayment = { ...pendingPayment, gateway: 'stripe', transactionId: 'pi_1', status: 'succeeded' };
+      paymentsCollection.where = vi.fn(() => ({
+        where: vi.fn(() => ({
+          get: vi.fn().mockResolvedValue({ empty: false, docs: [storedSnapshot(stripePayment)] })
+        }))
+      }));
+
+      await paymentService.processWebhook('stripe', { type: 'payment_intent.succeeded', data: { object: { id: 'pi_1' } } }, 'sig');
+
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should ignore callbacks that name a payment on another gateway', async () => {
+      mockStoredPayment({ ...pendingPayment, gateway: 'stripe' });
+
+      await expect(paymentService.processWebhook('mtn', { externalId: 'payment-1', status: 'SUCCESSFUL' }))
+        .rejects.toThrow('Payment not found for transaction payment-1');
+      expect(getTransactionStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPayment', () => {
+    const originalDoc = paymentsCollection.doc;
+    const transactionUpdate = vi.fn();
+    const refund = vi.fn();
+
+    const stripeProvider: PaymentGatewayProvider = {
+      name: 'stripe',
+      validatePaymentData: () => [],
+      charge: vi.fn(),
+      refund,
+      verifyWebhookSignature: () => true
+    };
+
+    const paidPayment = {
+      paymentId: 'payment-1',
+      orderId: 'test-order-1',
+      gateway: 'stripe',
+      transactionId: 'pi_test_123',
+      amount: 45.5,
+      currency: 'USD',
+      status: 'succeeded',
+      receiptNumber: 'BJ-2024-000001'
+    };
+
+    const mockStoredPayment = (payment: Record<string, unknown>) => {
+      let stored = { ...payment };
+      paymentsCollection.doc = vi.fn(() => ({
+        id: 'payment-1',
+        get: vi.fn(async () => ({ exists: true, data: () => stored }))
+      }));
+      transactionUpdate.mockImplementation((ref, updates) => {
+        stored = { ...stored, ...updates };
       });
+      vi.mocked(db.runTransaction).mockImplementation(async (callback: any) => callback({
+        get: (ref: any) => ref.get(),
+        update: transactionUpdate
+      }));
+    };
 
-      await expect(paymentService.processWebhook('mtn', mtnPayload, 'valid-signature'))
-        .resolves.not.toThrow();
+    beforeEach(() => {
+      vi.mocked(getPaymentGatewayProvider).mockReturnValue(stripeProvider);
+      vi.spyOn(receiptService, 'generateCreditNote').mockResolvedValue({
+        creditNoteId: 'credit-note-1',
+        creditNoteNumber: 'AV-BJ-2024-000001'
+      } as any);
     });
 
-    it('should reject webhook with invalid signature', async () => {
-      const payload = { type: 'test' };
+    afterEach(() => {
+      paymentsCollection.doc = originalDoc;
+      vi.mocked(getPaymentGatewayProvider).mockReset();
+      vi.mocked(receiptService.generateCreditNote).mockRestore();
+    });
 
-      await expect(paymentService.processWebhook('stripe', payload))
-        .rejects.toThrow('Invalid webhook signature');
+    it('should refund the full amount by default and issue a credit note', async () => {
+      mockStoredPayment(paidPayment);
+      refund.mockResolvedValue({ refundTransactionId: 're_123', status: 'succeeded', gatewayResponse: { id: 're_123' } });
+
+      const result = await paymentService.refundPayment('payment-1', { reason: 'Prescription rejected' }, 'pharmacist-1');
+
+      expect(result).toMatchObject({
+        paymentId: 'payment-1',
+        amount: 45.5,
+        status: 'succeeded',
+        gatewayRefundId: 're_123',
+        creditNoteNumber: 'AV-BJ-2024-000001',
+        requestedBy: 'pharmacist-1'
+      });
+      expect(refund).toHaveBeenCalledWith(expect.objectContaining({ transactionId: 'pi_test_123', amount: 45.5 }));
+      expect(transactionUpdate).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        refundedAmount: 45.5,
+        status: 'refunded'
+      }));
+    });
+
+    it('should mark partial refunds and keep track of the total', async () => {
+      mockStoredPayment({ ...paidPayment, status: 'partially_refunded', refundedAmount: 10 });
+      refund.mockResolvedValue({ refundTransactionId: 're_456', status: 'succeeded', gatewayResponse: {} });
+
+      const result = await paymentService.refundPayment('payment-1', { amount: 15.25, reason: 'One item out of stock' });
+
+      expect(result?.amount).toBe(15.25);
+      expect(transactionUpdate).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        refundedAmount: 25.25,
+        status: 'partially_refunded'
+      }));
+    });
+
+    it('should refuse to refund more than is left', async () => {
+      mockStoredPayment({ ...paidPayment, status: 'partially_refunded', refundedAmount: 40 });
+
+      await expect(paymentService.refundPayment('payment-1', { amount: 10, reason: 'Too much' }))
+        .rejects.toThrow('Refund amount must be greater than 0 and at most 5.5 USD');
+      expect(refund).not.toHaveBeenCalled();
+    });
+
+    it('should refuse payments that never settled', async () => {
+      mockStoredPayment({ ...paidPayment, status: 'pending' });
+
+      await expect(paymentService.refundPayment('payment-1', { reason: 'Cancelled' }))
+        .rejects.toBeInstanceOf(RefundNotAllowedError);
+    });
+
+    it('should wait for refunds the gateway settles later before issuing a credit note', async () => {
+      mockStoredPayment(paidPayment);
+      refund.mockResolvedValue({ refundTransactionId: 're_pending', status: 'pending', gatewayResponse: {} });
+
+      const result = await paymentService.refundPayment('payment-1', { reason: 'Prescription rejected' });
+
+      expect(result).toMatchObject({ status: 'pending', gatewayRefundId: 're_pending' });
+      expect(result?.creditNoteNumber).toBeUndefined();
+      expect(receiptService.generateCreditNote).not.toHaveBeenCalled();
+      expect(transactionUpdate).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+        refundedAmount: 45.5,
+        status: 'refunded'
+      }));
+    });
+
+    it('should release the reserved amount when the gateway declines', async () => {
+      mockStoredPayment(paidPayment);
+      refund.mockResolvedValue({ refundTransactionId: 're_789', status: 'failed', gatewayResponse: {} });
+
+      await expect(paymentService.refundPayment('payment-1', { reason: 'Prescription rejected' }))
+        .rejects.toThrow('Refund was declined by stripe');
+
+      expect(transactionUpdate).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+        refundedAmount: 0,
+        status: 'succeeded'
+      }));
+      expect(receiptService.generateCreditNote).not.toHaveBeenCalled();
+    });
+
+    it('should return null for unknown payments', async () => {
+      paymentsCollection.doc = vi.fn(() => ({ get: vi.fn().mockResolvedValue({ exists: false }) }));
+      vi.mocked(db.runTransaction).mockImplementation(async (callback: any) => callback({
+        get: (ref: any) => ref.get(),
+        update: transactionUpdate
+      }));
+
+      expect(await paymentService.refundPayment('missing', { reason: 'Cancelled' })).toBeNull();
+    });
+  });
+
+  describe('refreshRefundStatus', () => {
+    const originalPaymentDoc = paymentsCollection.doc;
+    const originalRefundDoc = refundsCollection.doc;
+    const originalWhere = refundsCollection.where;
+    const getRefundStatus = vi.fn();
+
+    const momoProvider: PaymentGatewayProvider = {
+      name: 'mtn',
+      validatePaymentData: () => [],
+      charge: vi.fn(),
+      refund: vi.fn(),
+      getRefundStatus,
+      verifyWebhookSignature: () => true
+    };
+
+    const pendingRefund = {
+      refundId: 'refund-1',
+      paymentId: 'payment-1',
+      orderId: 'test-order-1',
+      gateway: 'mtn',
+      amount: 45.5,
+      currency: 'XOF',
+      reason: 'Prescription rejected',
+      status: 'pending',
+      gatewayRefundId: 'momo-refund-1',
+      createdAt: new Date()
+    };
+
+    let storedRefund: Record<string, any>;
+    let storedPayment: Record<string, any>;
+    const refundUpdate = vi.fn();
+    const paymentUpdate = vi.fn();
+
+    beforeEach(() => {
+      storedRefund = { ...pendingRefund };
+      storedPayment = {
+        paymentId: 'payment-1',
+        orderId: 'test-order-1',
+        gateway: 'mtn',
+        amount: 45.5,
+        currency: 'XOF',
+        status: 'refunded',
+        refundedAmount: 45.5
+      };
+      refundUpdate.mockImplementation(async (updates) => {
+        storedRefund = { ...storedRefund, ...updates };
+      });
+      paymentUpdate.mockImplementation(async (updates) => {
+        storedPayment = { ...storedPayment, ...updates };
+      });
+
+      refundsCollection.doc = vi.fn(() => ({
+        id: 'refund-1',
+        get: vi.fn(async () => ({ exists: true, data: () => storedRefund })),
+        update: refundUpdate
+      }));
+      paymentsCollection.doc = vi.fn(() => ({
+        id: 'payment-1',
+        get: vi.fn(async () => ({ exists: true, data: () => storedPayment })),
+        update: paymentUpdate
+      }));
+      vi.mocked(db.runTransaction).mockImplementation(async (callback: any) => callback({
+        get: (ref: any) => ref.get(),
+        update: (ref: any, updates: any) => ref.update(updates)
+      }));
+      vi.mocked(getPaymentGatewayProvider).mockReturnValue(momoProvider);
+      vi.spyOn(receiptService, 'generateCreditNote').mockResolvedValue({
+        creditNoteId: 'credit-note-1',
+        creditNoteNumber: 'AV-BJ-2024-000001'
+      } as any);
+    });
+
+    afterEach(() => {
+      paymentsCollection.doc = originalPaymentDoc;
+      refundsCollection.doc = originalRefundDoc;
+      refundsCollection.where = originalWhere;
+      vi.mocked(getPaymentGatewayProvider).mockReset();
+      vi.mocked(receiptService.generateCreditNote).mockRestore();
+    });
+
+    it('should leave refunds the gateway is still working on alone', async () => {
+      getRefundStatus.mockResolvedValue({ status: 'pending', gatewayResponse: {} });
+
+      const result = await paymentService.refreshRefundStatus('refund-1');
+
+      expect(result?.status).toBe('pending');
+      expect(refundUpdate).not.toHaveBeenCalled();
+      expect(receiptService.generateCreditNote).not.toHaveBeenCalled();
+    });
+
+    it('should issue the credit note once the refund goes through', async () => {
+      getRefundStatus.mockResolvedValue({ status: 'succeeded', gatewayResponse: { status: 'SUCCESSFUL' } });
+
+      const result = await paymentService.refreshRefundStatus('refund-1');
+
+      expect(getRefundStatus).toHaveBeenCalledWith('momo-refund-1');
+      expect(result).toMatchObject({ status: 'succeeded', creditNoteNumber: 'AV-BJ-2024-000001' });
+      expect(storedRefund).toMatchObject({ status: 'succeeded', creditNoteId: 'credit-note-1' });
+      expect(storedPayment.refundedAmount).toBe(45.5);
+    });
+
+    it('should give the amount back when the refund fails', async () => {
+      getRefundStatus.mockResolvedValue({
+        status: 'failed',
+        gatewayResponse: { status: 'FAILED' },
+        failureReason: 'The pharmacy\'s disbursement account does not have enough funds'
+      });
+
+      const result = await paymentService.refreshRefundStatus('refund-1');
+
+      expect(result).toMatchObject({
+        status: 'failed',
+        failureReason: 'The pharmacy\'s disbursement account does not have enough funds'
+      });
+      expect(storedPayment).toMatchObject({ refundedAmount: 0, status: 'succeeded' });
+      expect(receiptService.generateCreditNote).not.toHaveBeenCalled();
+    });
+
+    it('should not settle a refund twice', async () => {
+      storedRefund = { ...pendingRefund, status: 'succeeded', creditNoteId: 'credit-note-1' };
+
+      const result = await paymentService.refreshRefundStatus('refund-1');
+
+      expect(result?.status).toBe('succeeded');
+      expect(getRefundStatus).not.toHaveBeenCalled();
+      expect(receiptService.generateCreditNote).not.toHaveBeenCalled();
+    });
+
+    it('should count the pending refunds it settles', async () => {
+      refundsCollection.where = vi.fn(() => ({
+        get: vi.fn().mockResolvedValue({ docs: [{ id: 'refund-1' }] })
+      }));
+      getRefundStatus.mockResolvedValue({ status: 'succeeded', gatewayResponse: {} });
+
+      expect(await paymentService.refreshPendingRefunds()).toBe(1);
+      expect(refundsCollection.where).toHaveBeenCalledWith('status', '==', 'pending');
     });
   });
-});
\ No newline at end of file
+});
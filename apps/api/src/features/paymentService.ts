@@ -1,21 +1,33 @@
-import { Payment, PaymentGateway, PaymentStatus, PrescriptionOrder } from '@pharmarx/shared-types';
+import { Payment, PaymentGateway, PaymentRefund, PaymentStatus, PrescriptionOrder } from '@pharmarx/shared-types';
 import { db } from './database';
+import { toDate } from './firestoreDates';
 import admin from 'firebase-admin';
 import { receiptService } from './receiptService';
+import { orderStatusService } from './orderStatusService';
+import { jobQueueService } from './jobQueueService';
+import {
+  GatewayNextAction,
+  GatewayPaymentData,
+  GatewayRefundResult,
+  GatewayResponse,
+  getPaymentGatewayProvider,
+  isPaymentGatewayAvailable
+} from './paymentGateways';
 
 export interface ProcessPaymentRequest {
   orderId: string;
   gateway: PaymentGateway;
   amount: number;
   currency: string;
-  paymentData: any; // Gateway-specific payment data
+  paymentData: GatewayPaymentData;
 }
 
 export interface ProcessPaymentResult {
   paymentId: string;
   transactionId: string;
   status: PaymentStatus;
-  gatewayResponse?: any;
+  gatewayResponse?: GatewayResponse;
+  nextAction?: GatewayNextAction;
 }
 
 export interface PaymentValidationResult {
@@ -28,14 +40,49 @@ export interface PaymentAuditLog {
   orderId: string;
   action: string;
   timestamp: Date;
-  gatewayResponse?: any;
+  gatewayResponse?: GatewayResponse;
   errorDetails?: string;
   userId?: string;
 }
 
+export interface RefundPaymentRequest {
+  amount?: number; // Defaults to everything not yet refunded
+  reason: string;
+}
+
+/**
+ * Raised when a payment cannot be refunded as asked: it never settled, it is already
+ * fully refunded, or the amount exceeds what is left. Routes translate this into a 409 Conflict.
+ */
+export class RefundNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundNotAllowedError';
+  }
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Orders are priced in this currency; payments in any other are refused
+export const ORDER_CURRENCY = process.env.ORDER_CURRENCY || 'USD';
+
+// Only settled money can be given back
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['succeeded', 'partially_refunded'];
+
+// Default pharmacy info (in real implementation, this would come from configuration)
+const PHARMACY_INFO = {
+  name: 'PharmaRx - Pharmacie Moderne',
+  address: '123 Avenue de la République, Cotonou, Bénin',
+  phone: '+229 21 30 45 67',
+  email: 'contact@pharmarx.bj',
+  licenseNumber: 'PHM-BJ-2024-001',
+  taxId: 'NIF-BJ-20240001234'
+};
+
 class PaymentService {
   private readonly collection = db.collection('payments');
   private readonly auditCollection = db.collection('paymentAuditLogs');
+  private readonly refundsCollection = db.collection('refunds');
   private readonly ordersCollection = db.collection('prescriptionOrders');
 
   /**
@@ -43,7 +90,7 @@ class PaymentService {
    */
   async processPayment(request: ProcessPaymentRequest, userId?: string): Promise<ProcessPaymentResult> {
     // Validate order exists and is in correct state
-    const orderValidation = await this.validateOrderForPayment(request.orderId);
+    const orderValidation = await this.validateOrderForPayment(request);
     if (!orderValidation.isValid) {
       throw new Error(`Order validation failed: ${orderValidation.errors.join(', ')}`);
     }
@@ -59,24 +106,11 @@ class PaymentService {
     const timestamp = new Date();
 
     try {
-      // Process payment with appropriate gateway
-      let gatewayResponse: any;
-      let transactionId: string;
-      let status: PaymentStatus;
-
-      switch (request.gateway) {
-        case 'stripe':
-          ({ transactionId, status, gatewayResponse } = await this.processStripePayment(request, paymentId));
-          break;
-        case 'paypal':
-          ({ transactionId, status, gatewayResponse } = await this.processPayPalPayment(request, paymentId));
-          break;
-        case 'mtn':
-          ({ transactionId, status, gatewayResponse } = await this.processMTNPayment(request, paymentId));
-          break;
-        default:
-          throw new Error(`Unsupported payment gateway: ${request.gateway}`);
-      }
+      // Process payment with the provider configured for this gateway
+      const { transactionId, status, gatewayResponse, nextAction, expiresAt } = await getPaymentGatewayProvider(request.gateway).charge({
+        ...request,
+        paymentId
+      });
 
       // Create payment record
       const payment: Payment = {
@@ -88,6 +122,7 @@ class PaymentService {
         transactionId,
         status,
         receiptDetails: {}, // Will be populated when generating receipt
+        ...(expiresAt && { expiresAt }),
         createdAt: timestamp,
         updatedAt: timestamp
       };
@@ -97,34 +132,8 @@ class PaymentService {
 
       // Update order status if payment succeeded
       if (status === 'succeeded') {
-        await this.updateOrderStatusToPaid(request.orderId);
-        
-        // Generate receipt for successful payment
-        try {
-          const orderDoc = await this.ordersCollection.doc(request.orderId).get();
-          if (orderDoc.exists) {
-            const order = orderDoc.data() as PrescriptionOrder;
-            
-            // Default pharmacy info (in real implementation, this would come from configuration)
-            const pharmacyInfo = {
-              name: 'PharmaRx - Pharmacie Moderne',
-              address: '123 Avenue de la République, Cotonou, Bénin',
-              phone: '+229 21 30 45 67',
-              email: 'contact@pharmarx.bj',
-              licenseNumber: 'PHM-BJ-2024-001',
-              taxId: 'NIF-BJ-20240001234'
-            };
-
-            await receiptService.generateReceipt({
-              payment,
-              order,
-              pharmacyInfo
-            });
-          }
-        } catch (receiptError) {
-          // Log receipt generation error but don't fail the payment
-          console.error('Failed to generate receipt for payment:', paymentId, receiptError);
-        }
+        await this.markOrderAsPaid(request.orderId);
+        await this.generateReceipt(payment);
       }
 
       // Log audit trail
@@ -141,7 +150,8 @@ class PaymentService {
         paymentId,
         transactionId,
         status,
-        gatewayResponse
+        gatewayResponse,
+        ...(nextAction && { nextAction })
       };
 
     } catch (error) {
@@ -162,7 +172,8 @@ class PaymentService {
   /**
    * Validate order can be paid
    */
-  private async validateOrderForPayment(orderId: string): Promise<PaymentValidationResult> {
+  private async validateOrderForPayment(request: ProcessPaymentRequest): Promise<PaymentValidationResult> {
+    const { orderId } = request;
     const errors: string[] = [];
 
     try {
@@ -190,9 +201,35 @@ class PaymentService {
         errors.push('Order has already been paid');
       }
 
+      // A second request-to-pay would prompt the customer twice. Pending payments are brought
+      // up to date first so one the customer abandoned does not block the order.
+      const pendingPayments = await this.collection
+        .where('orderId', '==', orderId)
+        .where('status', '==', 'pending')
+        .get();
+
+      for (const pendingDoc of pendingPayments.docs) {
+        const payment = await this.refreshPaymentStatus(pendingDoc.id);
+        if (payment?.status === 'pending') {
+          errors.push('Order has a payment awaiting approval');
+          break;
+        }
+        if (payment?.status === 'succeeded') {
+          errors.push('Order has already been paid');
+          break;
+        }
+      }
+
       // Validate cost is set
       if (!order.cost || order.cost <= 0) {
         errors.push('Order cost is not set or invalid');
+      } else if (request.amount > 0 && roundAmount(request.amount) !== roundAmount(order.cost)) {
+        // The pharmacist's price is charged; the client's amount only confirms what the customer saw
+        errors.push(`Payment amount does not match the order total of ${order.cost}`);
+      }
+
+      if (request.currency && request.currency.toUpperCase() !== ORDER_CURRENCY) {
+        errors.push(`Orders are paid in ${ORDER_CURRENCY}`);
       }
 
     } catch (error) {
@@ -225,26 +262,12 @@ class PaymentService {
     }
 
     // Gateway-specific validation
-    switch (request.gateway) {
-      case 'stripe':
-        if (!request.paymentData?.cardNumber || !request.paymentData?.expiryDate || 
-            !request.paymentData?.cvv || !request.paymentData?.cardholderName) {
-          errors.push('All card details are required for Stripe payments');
-        }
-        break;
-
-      case 'mtn':
-        if (!request.paymentData?.phoneNumber) {
-          errors.push('Phone number is required for MTN Mobile Money');
-        }
-        break;
-
-      // PayPal validation is minimal as it redirects to PayPal
-      case 'paypal':
-        break;
-
-      default:
-        errors.push(`Unsupported payment gateway: ${request.gateway}`);
+    if (!['stripe', 'paypal', 'mtn'].includes(request.gateway)) {
+      errors.push(`Unsupported payment gateway: ${request.gateway}`);
+    } else if (!isPaymentGatewayAvailable(request.gateway)) {
+      errors.push(`Payments through ${request.gateway} are not available`);
+    } else {
+      errors.push(...getPaymentGatewayProvider(request.gateway).validatePaymentData(request.gateway, request.paymentData));
     }
 
     return {
@@ -254,141 +277,39 @@ class PaymentService {
   }
 
   /**
-   * Process Stripe payment
+   * Issue the receipt for a successful payment. Runs as a background job, so a receipt
+   * already on file is left alone rather than numbered twice.
    */
-  private async processStripePayment(request: ProcessPaymentRequest, paymentId: string): Promise<{
-    transactionId: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    // In real implementation, this would use the Stripe SDK
-    // For now, we'll simulate the payment processing
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Mock Stripe response
-    const transactionId = `ch_${Math.random().toString(36).substr(2, 24)}`;
-    
-    // Simulate success/failure based on card number (for testing)
-    const cardNumber = request.paymentData.cardNumber.replace(/\s/g, '');
-    const shouldFail = cardNumber.endsWith('0000'); // Test failure case
-    
-    if (shouldFail) {
-      throw new Error('Card declined by issuer');
-    }
-
-    const gatewayResponse = {
-      id: transactionId,
-      amount: request.amount * 100, // Stripe uses cents
-      currency: request.currency.toLowerCase(),
-      status: 'succeeded',
-      payment_method: {
-        card: {
-          brand: 'visa',
-          last4: cardNumber.slice(-4)
-        }
-      },
-      created: Math.floor(Date.now() / 1000)
-    };
-
-    return {
-      transactionId,
-      status: 'succeeded',
-      gatewayResponse
-    };
-  }
-
-  /**
-   * Process PayPal payment
-   */
-  private async processPayPalPayment(request: ProcessPaymentRequest, paymentId: string): Promise<{
-    transactionId: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    // In real implementation, this would use PayPal SDK
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    const transactionId = `PP${Math.random().toString(36).substr(2, 12).toUpperCase()}`;
-    
-    const gatewayResponse = {
-      id: transactionId,
-      intent: 'CAPTURE',
-      status: 'COMPLETED',
-      purchase_units: [{
-        amount: {
-          currency_code: request.currency,
-          value: request.amount.toString()
-        }
-      }],
-      payer: {
-        email_address: 'user@example.com',
-        payer_id: 'PAYERID123'
-      },
-      create_time: new Date().toISOString()
-    };
-
-    return {
-      transactionId,
-      status: 'succeeded',
-      gatewayResponse
-    };
+  async issueReceipt(paymentId: string): Promise<void> {
+    if (await receiptService.getReceiptByPaymentId(paymentId)) {
+      return;
+    }
+    await receiptService.generateReceiptForPayment(paymentId, PHARMACY_INFO);
   }
 
   /**
-   * Process MTN Mobile Money payment
+   * Queue the receipt for a successful payment. Failures are logged, never thrown.
    */
-  private async processMTNPayment(request: ProcessPaymentRequest, paymentId: string): Promise<{
-    transactionId: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    // In real implementation, this would use MTN MoMo API
-    
-    // Simulate API delay (longer for mobile money)
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    const transactionId = `MTN${Math.random().toString(36).substr(2, 10).toUpperCase()}`;
-    
-    // Simulate potential failure for testing
-    const phoneNumber = request.paymentData.phoneNumber;
-    const shouldFail = phoneNumber.includes('0000'); // Test failure case
-    
-    if (shouldFail) {
-      throw new Error('Insufficient balance in mobile money account');
-    }
-
-    const gatewayResponse = {
-      transactionId,
-      status: 'SUCCESSFUL',
-      amount: request.amount,
-      currency: request.currency,
-      externalTransactionId: `EXT${Math.random().toString(36).substr(2, 8)}`,
-      payerMessage: 'Payment for prescription order',
-      payeeNote: `Order ${request.orderId}`,
-      financialTransactionId: `FIN${Math.random().toString(36).substr(2, 12)}`,
-      reason: 'Payment completed successfully'
-    };
-
-    return {
-      transactionId,
-      status: 'succeeded',
-      gatewayResponse
-    };
+  private async generateReceipt(payment: Payment): Promise<void> {
+    try {
+      await jobQueueService.enqueue('generate_receipt', { paymentId: payment.paymentId }, {
+        jobId: `receipt-${payment.paymentId}`
+      });
+    } catch (receiptError) {
+      // Log receipt generation error but don't fail the payment
+      console.error('Failed to queue receipt for payment:', payment.paymentId, receiptError);
+    }
   }
 
   /**
-   * Update order status to paid
+   * Move a paid order on to preparation
    */
-  private async updateOrderStatusToPaid(orderId: string): Promise<void> {
-    const orderRef = this.ordersCollection.doc(orderId);
-    
-    await orderRef.update({
-      status: 'paid' as PrescriptionOrderStatus,
-      updatedAt: new Date()
+  private async markOrderAsPaid(orderId: string): Promise<void> {
+    await orderStatusService.transitionOrderStatus(orderId, 'preparing', {
+      actor: 'system',
+      changedBy: 'system',
+      reason: 'Payment confirmed',
+      updates: { paidAt: new Date() }
     });
   }
 
@@ -424,6 +345,279 @@ class PaymentService {
     return snapshot.docs.map(doc => doc.data() as Payment);
   }
 
+  /**
+   * Refund all or part of a settled payment through its gateway and issue a credit note once it
+   * has gone through. Refunds the gateway settles later stay pending until refreshRefundStatus.
+   * Returns null when the payment does not exist.
+   */
+  async refundPayment(paymentId: string, request: RefundPaymentRequest, userId?: string): Promise<PaymentRefund | null> {
+    const paymentRef: admin.firestore.DocumentReference = this.collection.doc(paymentId);
+    const refundId = this.refundsCollection.doc().id;
+    const timestamp = new Date();
+
+    // Reserve the amount before calling the gateway so concurrent refunds cannot exceed the payment
+    const reserved = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const paymentDoc = await transaction.get(paymentRef);
+      if (!paymentDoc.exists) {
+        return null;
+      }
+
+      const payment = paymentDoc.data() as Payment;
+      if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+        throw new RefundNotAllowedError(`Only settled payments can be refunded (current status: ${payment.status})`);
+      }
+
+      const refundable = roundAmount(payment.amount - (payment.refundedAmount ?? 0));
+      const amount = roundAmount(request.amount ?? refundable);
+      if (refundable <= 0) {
+        throw new RefundNotAllowedError('Payment has already been fully refunded');
+      }
+      if (amount <= 0 || amount > refundable) {
+        throw new RefundNotAllowedError(`Refund amount must be greater than 0 and at most ${refundable} ${payment.currency}`);
+      }
+      if (!isPaymentGatewayAvailable(payment.gateway) || !getPaymentGatewayProvider(payment.gateway).refund) {
+        throw new RefundNotAllowedError(`Refunds are not supported for ${payment.gateway} payments`);
+      }
+
+      transaction.update(paymentRef, this.refundTotals(payment, roundAmount((payment.refundedAmount ?? 0) + amount), timestamp));
+      return { payment, amount };
+    });
+
+    if (!reserved) {
+      return null;
+    }
+
+    const { payment, amount } = reserved;
+
+    let result: GatewayRefundResult;
+    try {
+      result = await getPaymentGatewayProvider(payment.gateway).refund!({
+        refundId,
+        paymentId,
+        orderId: payment.orderId,
+        gateway: payment.gateway,
+        transactionId: payment.transactionId,
+        amount,
+        currency: payment.currency,
+        reason: request.reason
+      });
+
+      if (result.status === 'failed') {
+        throw new Error(`Refund was declined by ${payment.gateway}`);
+      }
+    } catch (error) {
+      // Nothing left the account, so the amount can be refunded again later
+      await this.releaseRefundReservation(paymentRef, amount);
+
+      await this.logPaymentAudit({
+        paymentId,
+        orderId: payment.orderId,
+        action: 'refund_failed',
+        timestamp,
+        errorDetails: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      throw error;
+    }
+
+    const refund: PaymentRefund = {
+      refundId,
+      paymentId,
+      orderId: payment.orderId,
+      gateway: payment.gateway,
+      amount,
+      currency: payment.currency,
+      reason: request.reason,
+      status: result.status,
+      gatewayRefundId: result.refundTransactionId,
+      ...(userId && { requestedBy: userId }),
+      createdAt: timestamp
+    };
+
+    await this.refundsCollection.doc(refundId).set(refund);
+
+    if (refund.status === 'succeeded') {
+      await this.issueCreditNote(payment, refund);
+    }
+
+    await this.logPaymentAudit({
+      paymentId,
+      orderId: payment.orderId,
+      action: 'refund_processed',
+      timestamp,
+      gatewayResponse: result.gatewayResponse,
+      userId
+    });
+
+    return refund;
+  }
+
+  /**
+   * Bring a pending refund up to date with its gateway. A success issues the credit note;
+   * a failure gives the amount back so it can be refunded again.
+   */
+  async refreshRefundStatus(refundId: string): Promise<PaymentRefund | null> {
+    const refundRef: admin.firestore.DocumentReference = this.refundsCollection.doc(refundId);
+    const refundDoc = await refundRef.get();
+    if (!refundDoc.exists) {
+      return null;
+    }
+
+    const refund = refundDoc.data() as PaymentRefund;
+    const provider = getPaymentGatewayProvider(refund.gateway);
+    if (refund.status !== 'pending' || !provider.getRefundStatus) {
+      return refund;
+    }
+
+    const result = await provider.getRefundStatus(refund.gatewayRefundId);
+    if (result.status === 'pending') {
+      return refund;
+    }
+
+    const updatedAt = new Date();
+    const settled = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const currentDoc = await transaction.get(refundRef);
+      if ((currentDoc.data() as PaymentRefund).status !== 'pending') {
+        return false;
+      }
+
+      transaction.update(refundRef, {
+        status: result.status,
+        ...(result.failureReason && { failureReason: result.failureReason }),
+        updatedAt
+      });
+      return true;
+    });
+
+    if (!settled) {
+      return (await refundRef.get()).data() as PaymentRefund;
+    }
+
+    const settledRefund: PaymentRefund = {
+      ...refund,
+      status: result.status,
+      ...(result.failureReason && { failureReason: result.failureReason }),
+      updatedAt
+    };
+    const paymentRef: admin.firestore.DocumentReference = this.collection.doc(refund.paymentId);
+
+    if (result.status === 'succeeded') {
+      const paymentDoc = await paymentRef.get();
+      await this.issueCreditNote(paymentDoc.data() as Payment, settledRefund);
+    } else {
+      await this.releaseRefundReservation(paymentRef, refund.amount);
+    }
+
+    await this.logPaymentAudit({
+      paymentId: refund.paymentId,
+      orderId: refund.orderId,
+      action: `refund_${result.status}`,
+      timestamp: updatedAt,
+      gatewayResponse: result.gatewayResponse,
+      ...(result.failureReason && { errorDetails: result.failureReason })
+    });
+
+    return settledRefund;
+  }
+
+  /**
+   * Ask the gateways about every refund still pending. Returns how many were settled.
+   */
+  async refreshPendingRefunds(): Promise<number> {
+    const snapshot = await this.refundsCollection
+      .where('status', '==', 'pending')
+      .get();
+
+    let settled = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        const refund = await this.refreshRefundStatus(doc.id);
+        if (refund && refund.status !== 'pending') {
+          settled++;
+        }
+      } catch (error) {
+        console.error('Failed to refresh pending refund:', doc.id, error);
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Get refunds issued for a payment
+   */
+  async getRefundsForPayment(paymentId: string): Promise<PaymentRefund[]> {
+    const snapshot = await this.refundsCollection
+      .where('paymentId', '==', paymentId)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => {
+      const refund = doc.data() as PaymentRefund;
+      return { ...refund, createdAt: toDate(refund.createdAt) ?? refund.createdAt };
+    });
+  }
+
+  /**
+   * Payment fields for a new refunded total
+   */
+  private refundTotals(payment: Payment, refundedAmount: number, updatedAt: Date) {
+    let status: PaymentStatus = 'succeeded';
+    if (refundedAmount >= payment.amount) {
+      status = 'refunded';
+    } else if (refundedAmount > 0) {
+      status = 'partially_refunded';
+    }
+    return { refundedAmount, status, updatedAt };
+  }
+
+  /**
+   * Give back an amount reserved by refundPayment when the gateway refund did not go through
+   */
+  private async releaseRefundReservation(paymentRef: admin.firestore.DocumentReference, amount: number): Promise<void> {
+    try {
+      await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+        const paymentDoc = await transaction.get(paymentRef);
+        const payment = paymentDoc.data() as Payment;
+        const refundedAmount = roundAmount(Math.max((payment.refundedAmount ?? 0) - amount, 0));
+        transaction.update(paymentRef, this.refundTotals(payment, refundedAmount, new Date()));
+      });
+    } catch (error) {
+      console.error('Failed to release refund reservation for payment:', paymentRef.id, error);
+    }
+  }
+
+  /**
+   * Issue the credit note for a refund that has gone through and record it on the refund
+   */
+  private async issueCreditNote(payment: Payment, refund: PaymentRefund): Promise<void> {
+    const creditNote = await this.generateCreditNote(payment, refund);
+    if (creditNote) {
+      await this.refundsCollection.doc(refund.refundId).update(creditNote);
+      Object.assign(refund, creditNote);
+    }
+  }
+
+  /**
+   * Issue the facture d'avoir for a refund. Failures are logged, never thrown.
+   */
+  private async generateCreditNote(
+    payment: Payment,
+    refund: PaymentRefund
+  ): Promise<Pick<PaymentRefund, 'creditNoteId' | 'creditNoteNumber'> | null> {
+    try {
+      const { creditNoteId, creditNoteNumber } = await receiptService.generateCreditNote({
+        payment,
+        refund,
+        pharmacyInfo: PHARMACY_INFO
+      });
+      return { creditNoteId, creditNoteNumber };
+    } catch (creditNoteError) {
+      console.error('Failed to generate credit note for refund:', refund.refundId, creditNoteError);
+      return null;
+    }
+  }
+
   /**
    * Get payment audit logs
    */
@@ -445,9 +639,9 @@ class PaymentService {
   /**
    * Handle webhook verification and processing
    */
-  async processWebhook(gateway: PaymentGateway, payload: any, signature?: string): Promise<void> {
-    // Verify webhook signature (implementation varies by gateway)
-    if (!this.verifyWebhookSignature(gateway, payload, signature)) {
+  async processWebhook(gateway: PaymentGateway, payload: any, signature?: string, rawBody?: string | Buffer): Promise<void> {
+    // Signatures are computed over the exact bytes the gateway sent
+    if (!getPaymentGatewayProvider(gateway).verifyWebhookSignature(rawBody, signature)) {
       throw new Error('Invalid webhook signature');
     }
 
@@ -467,15 +661,6 @@ class PaymentService {
     }
   }
 
-  /**
-   * Verify webhook signature
-   */
-  private verifyWebhookSignature(gateway: PaymentGateway, payload: any, signature?: string): boolean {
-    // In real implementation, each gateway has its own signature verification
-    // For now, we'll just check that signature exists
-    return !!signature;
-  }
-
   /**
    * Process Stripe webhook
    */
@@ -516,16 +701,30 @@ class PaymentService {
   }
 
   /**
-   * Process MTN webhook
+   * Process MTN webhook. MoMo callbacks are not signed, so whatever status the body
+   * claims, the callback only prompts a refresh that reads the outcome back from MoMo.
    */
   private async processMTNWebhook(payload: any): Promise<void> {
     const transaction = payload;
-    
-    if (transaction.status === 'SUCCESSFUL') {
-      await this.updatePaymentStatusFromWebhook('mtn', transaction.transactionId, 'succeeded');
-    } else if (transaction.status === 'FAILED') {
-      await this.updatePaymentStatusFromWebhook('mtn', transaction.transactionId, 'failed');
+    const reference = transaction.externalId || transaction.transactionId;
+
+    // Request-to-pay callbacks carry our paymentId as externalId, others the MoMo reference
+    let paymentDoc: admin.firestore.DocumentSnapshot | undefined;
+    if (transaction.externalId) {
+      paymentDoc = await this.collection.doc(transaction.externalId).get();
+    } else {
+      const snapshot = await this.collection
+        .where('gateway', '==', 'mtn')
+        .where('transactionId', '==', transaction.transactionId)
+        .get();
+      paymentDoc = snapshot.docs[0];
+    }
+
+    if (!paymentDoc?.exists || (paymentDoc.data() as Payment).gateway !== 'mtn') {
+      throw new Error(`Payment not found for transaction ${reference}`);
     }
+
+    await this.refreshPaymentStatus(paymentDoc.id);
   }
 
   /**
@@ -546,28 +745,114 @@ class PaymentService {
       throw new Error(`Payment not found for transaction ${transactionId}`);
     }
 
-    const paymentDoc = snapshot.docs[0];
+    // Gateways resend events; one for a payment that has already settled changes nothing
+    await this.settlePayment(snapshot.docs[0].ref, status, 'webhook');
+  }
+
+  /**
+   * Bring a pending payment up to date: ask asynchronous gateways for the outcome and
+   * expire requests the customer never approved
+   */
+  async refreshPaymentStatus(paymentId: string): Promise<Payment | null> {
+    const paymentDoc = await this.collection.doc(paymentId).get();
+    if (!paymentDoc.exists) {
+      return null;
+    }
+
     const payment = paymentDoc.data() as Payment;
+    if (payment.status !== 'pending') {
+      return payment;
+    }
+
+    const provider = getPaymentGatewayProvider(payment.gateway);
+    if (provider.getTransactionStatus) {
+      const result = await provider.getTransactionStatus(payment.transactionId);
+      if (result.status !== 'pending') {
+        return this.settlePayment(paymentDoc.ref, result.status, 'poll', result.failureReason);
+      }
+    }
+
+    const expiresAt = toDate(payment.expiresAt);
+    if (expiresAt && expiresAt <= new Date()) {
+      return this.settlePayment(paymentDoc.ref, 'expired', 'poll', 'The payment request expired before it was approved');
+    }
+
+    return payment;
+  }
+
+  /**
+   * Settle pending payments whose approval window has passed. Returns how many were settled.
+   */
+  async expireStalePayments(now: Date = new Date()): Promise<number> {
+    const snapshot = await this.collection
+      .where('status', '==', 'pending')
+      .where('expiresAt', '<=', now)
+      .get();
+
+    let settled = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        const payment = await this.refreshPaymentStatus(doc.id);
+        if (payment && payment.status !== 'pending') {
+          settled++;
+        }
+      } catch (error) {
+        console.error('Failed to refresh stale payment:', doc.id, error);
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Record the final outcome of a pending payment. Only a success moves the order on to preparation.
+   * A payment that has already settled, say by a webhook racing a poll, is returned unchanged.
+   */
+  private async settlePayment(
+    paymentRef: admin.firestore.DocumentReference,
+    status: PaymentStatus,
+    source: 'webhook' | 'poll',
+    failureReason?: string
+  ): Promise<Payment> {
+    const updatedAt = new Date();
+
+    const { payment, settled } = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const paymentDoc = await transaction.get(paymentRef);
+      const current = paymentDoc.data() as Payment;
+      if (current.status !== 'pending') {
+        return { payment: current, settled: false };
+      }
 
-    // Update payment status
-    await paymentDoc.ref.update({
-      status,
-      updatedAt: new Date()
+      transaction.update(paymentRef, {
+        status,
+        ...(failureReason && { failureReason }),
+        updatedAt
+      });
+      return { payment: current, settled: true };
     });
 
+    if (!settled) {
+      return payment;
+    }
+
+    const settledPayment: Payment = { ...payment, status, ...(failureReason && { failureReason }), updatedAt };
+
     // Update order status if payment succeeded
-    if (status === 'succeeded' && payment.status !== 'succeeded') {
-      await this.updateOrderStatusToPaid(payment.orderId);
+    if (status === 'succeeded') {
+      await this.markOrderAsPaid(payment.orderId);
+      await this.generateReceipt(settledPayment);
     }
 
     // Log audit trail
     await this.logPaymentAudit({
       paymentId: payment.paymentId,
       orderId: payment.orderId,
-      action: `webhook_${status}`,
-      timestamp: new Date(),
-      gatewayResponse: { transactionId, status }
+      action: `${source}_${status}`,
+      timestamp: updatedAt,
+      gatewayResponse: { transactionId: payment.transactionId, status },
+      ...(failureReason && { errorDetails: failureReason })
     });
+
+    return settledPayment;
   }
 }
 
@@ -0,0 +1,501 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { orderStatusService } from './orderStatusService';
+import { medicationScreeningService, InteractionOverrideRequiredError } from './medicationScreeningService';
+import {
+  PharmacistOrderService,
+  OrderNotReviewableError,
+  InvalidLineItemError,
+  calculateOrderUrgency
+} from './pharmacistOrderService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+// Keep the real document mapping but stub out status transitions
+vi.mock('./orderStatusService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./orderStatusService')>(),
+  orderStatusService: {
+    transitionOrderStatus: vi.fn()
+  }
+}));
+
+// Screening is covered in its own tests; only the outcome matters here
+vi.mock('./medicationScreeningService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./medicationScreeningService')>(),
+  medicationScreeningService: {
+    screenForPatient: vi.fn()
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      }
+    }
+  }
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+const makeOrderDoc = (id: string, data: Record<string, any>) => ({
+  id,
+  exists: true,
+  data: () => ({
+    orderId: id,
+    ...data,
+    createdAt: { toDate: () => data.createdAt }
+  })
+});
+
+describe('PharmacistOrderService', () => {
+  let service: PharmacistOrderService;
+  let mockQuery: any;
+  let mockOrderRef: any;
+  let profileDocs: Record<string, any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    const now = Date.now();
+    const orders = [
+      makeOrderDoc('order-1', {
+        patientProfileId: 'profile-a',
+        status: 'awaiting_verification',
+        medicationDetails: { name: 'Amoxicillin', dosage: '500mg', quantity: 30 },
+        createdAt: new Date(now - 30 * HOUR)
+      }),
+      makeOrderDoc('order-2', {
+        patientProfileId: 'profile-b',
+        status: 'awaiting_verification',
+        medicationDetails: { name: 'Paracetamol', dosage: '1g', quantity: 10 },
+        createdAt: new Date(now - 2 * HOUR)
+      }),
+      makeOrderDoc('order-3', {
+        patientProfileId: 'profile-c',
+        status: 'awaiting_verification',
+        medicationDetails: { name: 'Amoxicillin', dosage: '250mg', quantity: 20 },
+        createdAt: new Date(now - 10 * HOUR)
+      })
+    ];
+
+    profileDocs = {
+      'profile-a': { id: 'profile-a', exists: true, data: () => ({ patientName: 'Zoé Adjovi' }) },
+      'profile-b': { id: 'profile-b', exists: true, data: () => ({ patientName: 'Jean Houngbo' }) },
+      'profile-c': { id: 'profile-c', exists: true, data: () => ({ patientName: 'Awa Dossou' }) }
+    };
+
+    mockQuery = {
+      where: vi.fn().mockReturnThis(),
+      get: vi.fn().mockResolvedValue({ docs: orders })
+    };
+
+    mockOrderRef = {
+      get: vi.fn(),
+      update: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const mockDb = {
+      collection: vi.fn((name: string) => {
+        if (name === 'patientProfiles') {
+          return { doc: vi.fn((id: string) => ({ get: vi.fn().mockResolvedValue(profileDocs[id]) })) };
+        }
+        return {
+          where: vi.fn((...args: unknown[]) => {
+            mockQuery.where(...args);
+            return mockQuery;
+          }),
+          doc: vi.fn().mockReturnValue(mockOrderRef)
+        };
+      })
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+    vi.mocked(medicationScreeningService.screenForPatient).mockResolvedValue({ findings: [], screenedAt: new Date() });
+    service = new PharmacistOrderService();
+  });
+
+  describe('calculateOrderUrgency', () => {
+    it('should grade orders by how long they have waited', () => {
+      const now = new Date('2025-01-02T12:00:00Z');
+      expect(calculateOrderUrgency(new Date('2025-01-01T10:00:00Z'), now)).toBe('high');
+      expect(calculateOrderUrgency(new Date('2025-01-02T02:00:00Z'), now)).toBe('medium');
+      expect(calculateOrderUrgency(new Date('2025-01-02T10:00:00Z'), now)).toBe('low');
+    });
+  });
+
+  describe('getOrders', () => {
+    const baseQuery = {
+      page: 1,
+      pageSize: 10,
+      status: 'awaiting_verification' as const,
+      sortField: 'createdAt' as const,
+      sortDirection: 'desc' as const
+    };
+
+    it('should query by status and sort newest first', async () => {
+      const result = await service.getOrders(baseQuery);
+
+      expect(mockQuery.where).toHaveBeenCalledWith('status', '==', 'awaiting_verification');
+      expect(result.orders.map(order => order.orderId)).toEqual(['order-2', 'order-3', 'order-1']);
+      expect(result).toMatchObject({ totalCount: 3, totalPages: 1, currentPage: 1 });
+    });
+
+    it('should match the medication type against every line item', async () => {
+      mockQuery.get.mockResolvedValue({
+        docs: [
+          makeOrderDoc('order-4', {
+            patientProfileId: 'profile-a',
+            status: 'awaiting_verification',
+            medicationDetails: { name: 'Paracetamol', dosage: '1g', quantity: 2 },
+            lineItems: [
+              { lineItemId: 'item-1', name: 'Paracetamol', dosage: '1g', quantity: 2, availability: 'unknown', substitution: { status: 'none' } },
+              { lineItemId: 'item-2', name: 'Metformin', dosage: '850mg', quantity: 60, availability: 'unknown', substitution: { status: 'none' } }
+            ],
+            createdAt: new Date()
+          })
+        ]
+      });
+
+      const result = await service.getOrders({ ...baseQuery, medicationType: 'metformin' });
+
+      expect(result.orders.map(order => order.orderId)).toEqual(['order-4']);
+    });
+
+    it('should filter by medication type and urgency', async () => {
+      const result = await service.getOrders({ ...baseQuery, medicationType: 'amox', urgency: 'high' });
+
+      expect(result.orders.map(order => order.orderId)).toEqual(['order-1']);
+    });
+
+    it('should filter and sort by patient name', async () => {
+      const result = await service.getOrders({
+        ...baseQuery,
+        sortField: 'patientName',
+        sortDirection: 'asc',
+        patientName: 'o'
+      });
+
+      expect(result.orders.map(order => order.orderId)).toEqual(['order-3', 'order-2', 'order-1']);
+    });
+
+    it('should paginate results', async () => {
+      const result = await service.getOrders({ ...baseQuery, page: 2, pageSize: 2 });
+
+      expect(result.orders.map(order => order.orderId)).toEqual(['order-1']);
+      expect(result).toMatchObject({ totalCount: 3, totalPages: 2, currentPage: 2 });
+    });
+
+    it('should apply the date range in the Firestore query', async () => {
+      const startDate = new Date('2025-01-01T00:00:00Z');
+      const endDate = new Date('2025-01-31T00:00:00Z');
+
+      await service.getOrders({ ...baseQuery, startDate, endDate });
+
+      expect(mockQuery.where).toHaveBeenCalledWith('createdAt', '>=', expect.objectContaining({}));
+      expect(mockQuery.where).toHaveBeenCalledWith('createdAt', '<=', expect.objectContaining({}));
+    });
+
+    it('should query several statuses within the pharmacist\'s pharmacy', async () => {
+      await service.getOrders({
+        ...baseQuery,
+        status: ['preparing', 'ready', 'out_for_delivery'],
+        pharmacyId: 'pharmacie-jericho'
+      });
+
+      expect(mockQuery.where).toHaveBeenCalledWith('status', 'in', ['preparing', 'ready', 'out_for_delivery']);
+      expect(mockQuery.where).toHaveBeenCalledWith('pharmacyId', '==', 'pharmacie-jericho');
+    });
+
+    it('should separate refill requests from new prescriptions', async () => {
+      mockQuery.get.mockResolvedValue({
+        docs: [
+          makeOrderDoc('order-new', { patientProfileId: 'profile-a', status: 'awaiting_verification', createdAt: new Date() }),
+          makeOrderDoc('order-refill', {
+            patientProfileId: 'profile-a',
+            status: 'awaiting_verification',
+            refillOfOrderId: 'order-original',
+            createdAt: new Date()
+          })
+        ]
+      });
+
+      const refills = await service.getOrders({ ...baseQuery, orderType: 'refill' });
+      const newOrders = await service.getOrders({ ...baseQuery, orderType: 'new' });
+
+      expect(refills.orders.map(order => order.orderId)).toEqual(['order-refill']);
+      expect(newOrders.orders.map(order => order.orderId)).toEqual(['order-new']);
+    });
+  });
+
+  describe('updateFulfilmentStatus', () => {
+    it('should move the order through the status state machine as the pharmacist', async () => {
+      mockOrderRef.get.mockResolvedValue({ exists: true, data: () => ({ status: 'preparing', pharmacyId: 'pharmacie-jericho' }) });
+      vi.mocked(orderStatusService.transitionOrderStatus).mockResolvedValue({ orderId: 'order-1', status: 'ready' } as any);
+
+      const order = await service.updateFulfilmentStatus('order-1', 'pharmacist-1', 'ready', 'pharmacie-jericho');
+
+      expect(order?.status).toBe('ready');
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'ready', {
+        actor: 'pharmacist',
+        changedBy: 'pharmacist-1'
+      });
+    });
+
+    it('should not touch orders of another pharmacy', async () => {
+      mockOrderRef.get.mockResolvedValue({ exists: true, data: () => ({ status: 'preparing', pharmacyId: 'pharmacie-camp-guezo' }) });
+
+      const order = await service.updateFulfilmentStatus('order-1', 'pharmacist-1', 'ready', 'pharmacie-jericho');
+
+      expect(order).toBeNull();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('review actions', () => {
+    const pendingOrder = {
+      exists: true,
+      id: 'order-1',
+      data: () => ({
+        orderId: 'order-1',
+        status: 'awaiting_verification',
+        medicationDetails: { name: 'Amoxicillin', dosage: '500mg', quantity: 30 },
+        createdAt: { toDate: () => new Date() }
+      })
+    };
+
+    it('should write a full PharmacistReview when approving', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.approveOrder('order-1', 'pharmacist-1', {
+        calculatedCost: 4500,
+        pharmacistNotes: 'Checked stock',
+        editedDetails: { quantity: 20 }
+      });
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'awaiting_payment', {
+        actor: 'pharmacist',
+        changedBy: 'pharmacist-1',
+        reason: undefined,
+        updates: expect.objectContaining({
+          cost: 4500,
+          medicationDetails: { name: 'Amoxicillin', dosage: '500mg', quantity: 20 },
+          pharmacistReview: expect.objectContaining({
+            reviewedBy: 'pharmacist-1',
+            approved: true,
+            calculatedCost: 4500,
+            editedDetails: { quantity: 20 },
+            pharmacistNotes: 'Checked stock'
+          })
+        })
+      });
+      expect(mockOrderRef.update).not.toHaveBeenCalled();
+    });
+
+    it('should price a multi-line order from its billable lines', async () => {
+      mockOrderRef.get.mockResolvedValue({
+        ...pendingOrder,
+        data: () => ({
+          ...pendingOrder.data(),
+          lineItems: [
+            { lineItemId: 'item-1', name: 'Amoxicillin', dosage: '500mg', quantity: 30, availability: 'unknown', substitution: { status: 'none' } },
+            { lineItemId: 'item-2', name: 'Paracetamol', dosage: '1g', quantity: 2, availability: 'unknown', substitution: { status: 'none' } },
+            { lineItemId: 'item-3', name: 'Loratadine', dosage: '10mg', quantity: 10, availability: 'unknown', substitution: { status: 'none' } }
+          ]
+        })
+      });
+
+      await service.approveOrder('order-1', 'pharmacist-1', {
+        lineItems: [
+          { lineItemId: 'item-1', unitPrice: 100, availability: 'in_stock', editedDetails: { quantity: 21 } },
+          {
+            lineItemId: 'item-2',
+            unitPrice: 750,
+            availability: 'out_of_stock',
+            substitution: { status: 'accepted', substitute: { name: 'Doliprane', dosage: '1g', quantity: 3 } }
+          },
+          { lineItemId: 'item-3', availability: 'out_of_stock' }
+        ]
+      });
+
+      const updates = vi.mocked(orderStatusService.transitionOrderStatus).mock.calls[0][2].updates as Record<string, any>;
+      expect(updates.cost).toBe(4350);
+      expect(updates.medicationDetails).toEqual({ name: 'Amoxicillin', dosage: '500mg', quantity: 21 });
+      expect(updates.lineItems.map((item: any) => item.lineTotal)).toEqual([2100, 2250, undefined]);
+      expect(updates.lineItems[0].pharmacistEdits).toEqual({ quantity: 21 });
+      expect(updates.pharmacistReview.calculatedCost).toBe(4350);
+    });
+
+    describe('interaction screening', () => {
+      const majorFinding = {
+        type: 'allergy' as const,
+        severity: 'major' as const,
+        medication: 'Amoxicillin',
+        conflictsWith: 'Penicillin',
+        description: 'The patient is allergic to Penicillin, which includes this medication'
+      };
+
+      beforeEach(() => {
+        mockOrderRef.get.mockResolvedValue({
+          ...pendingOrder,
+          data: () => ({ ...pendingOrder.data(), patientProfileId: 'profile-a' })
+        });
+        vi.mocked(medicationScreeningService.screenForPatient).mockResolvedValue({ findings: [majorFinding], screenedAt: new Date() });
+      });
+
+      it('should screen what will be dispensed against the patient\'s other orders', async () => {
+        await expect(service.approveOrder('order-1', 'pharmacist-1', { calculatedCost: 4500 }))
+          .rejects.toThrow(InteractionOverrideRequiredError);
+
+        expect(medicationScreeningService.screenForPatient).toHaveBeenCalledWith('profile-a', ['Amoxicillin'], { excludeOrderId: 'order-1' });
+        expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+      });
+
+      it('should approve over a major finding with an override note and keep the findings', async () => {
+        await service.approveOrder('order-1', 'pharmacist-1', {
+          calculatedCost: 4500,
+          interactionOverrideNote: 'Reaction was a mild rash; prescriber confirmed by phone'
+        });
+
+        const updates = vi.mocked(orderStatusService.transitionOrderStatus).mock.calls[0][2].updates as Record<string, any>;
+        expect(updates.pharmacistReview).toMatchObject({
+          screeningFindings: [majorFinding],
+          interactionOverrideNote: 'Reaction was a mild rash; prescriber confirmed by phone'
+        });
+      });
+
+      it('should not screen orders that are only being edited', async () => {
+        await service.editOrder('order-1', 'pharmacist-1', { editedDetails: { quantity: 20 } });
+
+        expect(medicationScreeningService.screenForPatient).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should record the refills authorized on the paper prescription', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.approveOrder('order-1', 'pharmacist-1', { calculatedCost: 4500, refillsAuthorized: 2 });
+
+      const updates = vi.mocked(orderStatusService.transitionOrderStatus).mock.calls[0][2].updates as Record<string, any>;
+      expect(updates).toMatchObject({ refillsAuthorized: 2, refillsRemaining: 2 });
+    });
+
+    it('should migrate a legacy order to line items on review', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.editOrder('order-1', 'pharmacist-1', { editedDetails: { dosage: '250mg' } });
+
+      const updates = mockOrderRef.update.mock.calls[0][0];
+      expect(updates.lineItems).toEqual([{
+        lineItemId: 'item-1',
+        name: 'Amoxicillin',
+        dosage: '500mg',
+        quantity: 30,
+        pharmacistEdits: { dosage: '250mg' },
+        availability: 'unknown',
+        substitution: { status: 'none' }
+      }]);
+    });
+
+    it('should refuse line items the order does not have or cannot price', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await expect(
+        service.approveOrder('order-1', 'pharmacist-1', { lineItems: [{ lineItemId: 'item-2', unitPrice: 100 }] })
+      ).rejects.toThrow('Order has no line item item-2');
+      await expect(
+        service.approveOrder('order-1', 'pharmacist-1', { lineItems: [{ lineItemId: 'item-1', availability: 'in_stock' }] })
+      ).rejects.toBeInstanceOf(InvalidLineItemError);
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should record the rejection reason when rejecting', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.rejectOrder('order-1', 'pharmacist-1', {
+        rejectionReason: 'Expired prescription',
+        rejectionReasonCode: 'expired_prescription'
+      });
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'rejected', expect.objectContaining({
+        reason: 'Expired prescription',
+        updates: expect.objectContaining({
+          pharmacistReview: expect.objectContaining({
+            approved: false,
+            rejectionReason: 'Expired prescription',
+            rejectionReasonCode: 'expired_prescription'
+          })
+        })
+      }));
+    });
+
+    it('should file a rejection without a reason code under other', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.rejectOrder('order-1', 'pharmacist-1', { rejectionReason: 'Wrong pharmacy' });
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'rejected', expect.objectContaining({
+        updates: expect.objectContaining({
+          pharmacistReview: expect.objectContaining({ rejectionReasonCode: 'other' })
+        })
+      }));
+    });
+
+    it('should close the clarification thread when approving an order on hold', async () => {
+      mockOrderRef.get.mockResolvedValue({
+        ...pendingOrder,
+        data: () => ({
+          ...pendingOrder.data(),
+          status: 'needs_clarification',
+          clarification: { requestedBy: 'pharmacist-1', requestedAt: { toDate: () => new Date() } }
+        })
+      });
+
+      await service.approveOrder('order-1', 'pharmacist-1', { calculatedCost: 4500 });
+
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith('order-1', 'awaiting_payment', expect.objectContaining({
+        updates: expect.objectContaining({
+          'clarification.resolvedAt': expect.anything()
+        })
+      }));
+    });
+
+    it('should leave the status untouched when editing', async () => {
+      mockOrderRef.get.mockResolvedValue(pendingOrder);
+
+      await service.editOrder('order-1', 'pharmacist-1', { editedDetails: { dosage: '250mg' } });
+
+      const updates = mockOrderRef.update.mock.calls[0][0];
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
+      expect(updates.status).toBeUndefined();
+      expect(updates.medicationDetails.dosage).toBe('250mg');
+    });
+
+    it('should return null for a missing order', async () => {
+      mockOrderRef.get.mockResolvedValue({ exists: false, data: () => undefined });
+
+      const result = await service.rejectOrder('missing', 'pharmacist-1', { rejectionReason: 'x' });
+
+      expect(result).toBeNull();
+      expect(mockOrderRef.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to review an order that has left the queue', async () => {
+      mockOrderRef.get.mockResolvedValue({
+        ...pendingOrder,
+        data: () => ({ ...pendingOrder.data(), status: 'delivered' })
+      });
+
+      await expect(
+        service.approveOrder('order-1', 'pharmacist-1', { calculatedCost: 100 })
+      ).rejects.toBeInstanceOf(OrderNotReviewableError);
+    });
+  });
+});
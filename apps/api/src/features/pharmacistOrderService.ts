@@ -0,0 +1,487 @@
+import databaseService from './database';
+import {
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  PharmacistReview,
+  OrderLineItem,
+  LineItemAvailability,
+  LineItemSubstitution,
+  createLineItem,
+  getOrderLineItems,
+  getDispensedDetails,
+  isLineItemBillable,
+  calculateLineTotal,
+  calculateOrderTotal,
+  requiresInteractionOverride,
+  RejectionReasonCode,
+  ScreeningFinding
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { orderStatusService, mapOrderDocument } from './orderStatusService';
+import {
+  medicationScreeningService,
+  getDispensedMedicationNames,
+  InteractionOverrideRequiredError
+} from './medicationScreeningService';
+
+export type PharmacistOrderUrgency = 'high' | 'medium' | 'low';
+export type PharmacistOrderSortField = 'createdAt' | 'medicationType' | 'patientName' | 'urgency';
+export type PharmacistOrderType = 'new' | 'refill';
+
+export interface PharmacistOrdersQuery {
+  page: number;
+  pageSize: number;
+  status: PrescriptionOrderStatus | PrescriptionOrderStatus[];
+  sortField: PharmacistOrderSortField;
+  sortDirection: 'asc' | 'desc';
+  medicationType?: string;
+  urgency?: PharmacistOrderUrgency;
+  patientName?: string;
+  startDate?: Date;
+  endDate?: Date;
+  orderType?: PharmacistOrderType;
+  pharmacyId?: string; // Only orders fulfilled by this pharmacy
+}
+
+export interface PharmacistOrdersResult {
+  orders: PrescriptionOrder[];
+  totalCount: number;
+  totalPages: number;
+  currentPage: number;
+}
+
+export interface PharmacistEditedDetails {
+  name?: string;
+  dosage?: string;
+  quantity?: number;
+}
+
+export interface PharmacistLineItemReview {
+  lineItemId: string;
+  editedDetails?: PharmacistEditedDetails;
+  unitPrice?: number;
+  availability?: LineItemAvailability;
+  substitution?: LineItemSubstitution;
+}
+
+export interface ApproveOrderInput {
+  calculatedCost?: number; // Only needed when the lines are not priced individually
+  pharmacistNotes?: string;
+  editedDetails?: PharmacistEditedDetails; // Applies to the first line item
+  lineItems?: PharmacistLineItemReview[];
+  refillsAuthorized?: number; // Read from the paper prescription
+  interactionOverrideNote?: string; // Required when screening finds a major interaction or allergy
+}
+
+export interface RejectOrderInput {
+  rejectionReason: string;
+  rejectionReasonCode?: RejectionReasonCode; // Defaults to 'other'
+  pharmacistNotes?: string;
+}
+
+export interface EditOrderInput {
+  editedDetails?: PharmacistEditedDetails; // Applies to the first line item
+  lineItems?: PharmacistLineItemReview[];
+  pharmacistNotes?: string;
+}
+
+/**
+ * Raised when a review action is attempted on an order that is not in the
+ * pharmacist verification queue.
+ */
+export class OrderNotReviewableError extends Error {
+  constructor(public readonly currentStatus: PrescriptionOrderStatus) {
+    super(`Order is not awaiting pharmacist review (current status: ${currentStatus})`);
+    this.name = 'OrderNotReviewableError';
+  }
+}
+
+/**
+ * Raised when line item review input does not match the order or cannot be priced.
+ */
+export class InvalidLineItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidLineItemError';
+  }
+}
+
+// Orders on hold for clarification can still be edited, approved or rejected from the thread
+const REVIEWABLE_STATUSES: PrescriptionOrderStatus[] = ['awaiting_verification', 'pending_verification', 'needs_clarification'];
+
+const URGENCY_RANK: Record<PharmacistOrderUrgency, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Urgency is derived from how long an order has been waiting, using the same
+ * thresholds as the web queue's calculateUrgency helper.
+ */
+export const calculateOrderUrgency = (createdAt: Date, now: Date = new Date()): PharmacistOrderUrgency => {
+  const hoursOld = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
+
+  if (hoursOld > 24) {
+    return 'high';
+  }
+  if (hoursOld > 8) {
+    return 'medium';
+  }
+  return 'low';
+};
+
+export class PharmacistOrderService {
+  private db: admin.firestore.Firestore;
+
+  constructor() {
+    this.db = databaseService.getDb();
+  }
+
+  /**
+   * Get a filtered, sorted and paginated page of the pharmacist queue
+   */
+  async getOrders(query: PharmacistOrdersQuery): Promise<PharmacistOrdersResult> {
+    try {
+      let queryRef: admin.firestore.Query = Array.isArray(query.status)
+        ? this.db.collection('prescriptionOrders').where('status', 'in', query.status)
+        : this.db.collection('prescriptionOrders').where('status', '==', query.status);
+
+      if (query.pharmacyId) {
+        queryRef = queryRef.where('pharmacyId', '==', query.pharmacyId);
+      }
+
+      if (query.startDate) {
+        queryRef = queryRef.where('createdAt', '>=', admin.firestore.Timestamp.fromDate(query.startDate));
+      }
+      if (query.endDate) {
+        queryRef = queryRef.where('createdAt', '<=', admin.firestore.Timestamp.fromDate(query.endDate));
+      }
+
+      const snapshot = await queryRef.get();
+      let orders = snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => mapOrderDocument(doc));
+
+      if (query.orderType) {
+        const wantRefills = query.orderType === 'refill';
+        orders = orders.filter(order => !!order.refillOfOrderId === wantRefills);
+      }
+
+      if (query.medicationType) {
+        const medicationType = query.medicationType.trim().toLowerCase();
+        orders = orders.filter(order =>
+          getOrderLineItems(order).some(item => item.name?.toLowerCase().includes(medicationType))
+        );
+      }
+
+      if (query.urgency) {
+        const now = new Date();
+        orders = orders.filter(order => calculateOrderUrgency(order.createdAt, now) === query.urgency);
+      }
+
+      const needsPatientNames = !!query.patientName || query.sortField === 'patientName';
+      const patientNames = needsPatientNames
+        ? await this.getPatientNames(orders.map(order => order.patientProfileId))
+        : new Map<string, string>();
+
+      if (query.patientName) {
+        const patientName = query.patientName.trim().toLowerCase();
+        orders = orders.filter(order =>
+          (patientNames.get(order.patientProfileId) || '').toLowerCase().includes(patientName)
+        );
+      }
+
+      orders.sort((a, b) => {
+        const comparison = this.compareOrders(a, b, query.sortField, patientNames);
+        return query.sortDirection === 'asc' ? comparison : -comparison;
+      });
+
+      const totalCount = orders.length;
+      const totalPages = Math.ceil(totalCount / query.pageSize);
+      const offset = (query.page - 1) * query.pageSize;
+
+      return {
+        orders: orders.slice(offset, offset + query.pageSize),
+        totalCount,
+        totalPages,
+        currentPage: query.page
+      };
+    } catch (error) {
+      console.error('Error getting pharmacist orders:', error);
+      throw new Error('Failed to get pharmacist orders');
+    }
+  }
+
+  /**
+   * Approve an order, recording the review and moving it on to payment
+   */
+  async approveOrder(orderId: string, pharmacistUid: string, input: ApproveOrderInput): Promise<PrescriptionOrder | null> {
+    const review: PharmacistReview = {
+      reviewedBy: pharmacistUid,
+      reviewedAt: new Date(),
+      approved: true,
+      editedDetails: input.editedDetails,
+      pharmacistNotes: input.pharmacistNotes,
+      calculatedCost: input.calculatedCost,
+      interactionOverrideNote: input.interactionOverrideNote
+    };
+
+    return this.applyReview(orderId, review, input.lineItems, 'awaiting_payment', input.refillsAuthorized);
+  }
+
+  /**
+   * Reject an order with the pharmacist's reason
+   */
+  async rejectOrder(orderId: string, pharmacistUid: string, input: RejectOrderInput): Promise<PrescriptionOrder | null> {
+    const review: PharmacistReview = {
+      reviewedBy: pharmacistUid,
+      reviewedAt: new Date(),
+      approved: false,
+      rejectionReason: input.rejectionReason,
+      rejectionReasonCode: input.rejectionReasonCode ?? 'other',
+      pharmacistNotes: input.pharmacistNotes
+    };
+
+    return this.applyReview(orderId, review, undefined, 'rejected');
+  }
+
+  /**
+   * Record pharmacist edits to the medication details without changing status
+   */
+  async editOrder(orderId: string, pharmacistUid: string, input: EditOrderInput): Promise<PrescriptionOrder | null> {
+    const review: PharmacistReview = {
+      reviewedBy: pharmacistUid,
+      reviewedAt: new Date(),
+      approved: false,
+      editedDetails: input.editedDetails,
+      pharmacistNotes: input.pharmacistNotes
+    };
+
+    return this.applyReview(orderId, review, input.lineItems);
+  }
+
+  /**
+   * Move an approved order along the fulfilment steps at the counter. Orders belonging
+   * to another pharmacy are reported as missing. Returns null when the order does not exist.
+   */
+  async updateFulfilmentStatus(
+    orderId: string,
+    pharmacistUid: string,
+    status: PrescriptionOrderStatus,
+    pharmacyId?: string
+  ): Promise<PrescriptionOrder | null> {
+    const orderDoc = await this.db.collection('prescriptionOrders').doc(orderId).get();
+    if (!orderDoc.exists || (pharmacyId && orderDoc.data()?.pharmacyId !== pharmacyId)) {
+      return null;
+    }
+
+    return orderStatusService.transitionOrderStatus(orderId, status, {
+      actor: 'pharmacist',
+      changedBy: pharmacistUid
+    });
+  }
+
+  private async applyReview(
+    orderId: string,
+    review: PharmacistReview,
+    lineItemReviews: PharmacistLineItemReview[] = [],
+    nextStatus?: PrescriptionOrderStatus,
+    refillsAuthorized?: number
+  ): Promise<PrescriptionOrder | null> {
+    const orderRef = this.db.collection('prescriptionOrders').doc(orderId);
+    const orderDoc = await orderRef.get();
+
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const current = mapOrderDocument(orderDoc);
+    if (!REVIEWABLE_STATUSES.includes(current.status)) {
+      throw new OrderNotReviewableError(current.status);
+    }
+
+    const lineItems = this.applyLineItemReviews(getOrderLineItems(current), review.editedDetails, lineItemReviews);
+    const updates: Record<string, unknown> = {
+      // Always written so orders created before line items existed are migrated on review
+      lineItems
+    };
+
+    if (lineItems.length > 0) {
+      updates.medicationDetails = getDispensedDetails(lineItems[0]);
+    }
+
+    if (review.approved) {
+      review.calculatedCost = this.calculateCost(lineItems, review.calculatedCost);
+      updates.cost = review.calculatedCost;
+      review.screeningFindings = await this.screenApproval(current, lineItems, review.interactionOverrideNote);
+    }
+
+    // Refill orders draw on the original prescription's allowance instead
+    if (refillsAuthorized !== undefined && !current.refillOfOrderId) {
+      updates.refillsAuthorized = refillsAuthorized;
+      updates.refillsRemaining = refillsAuthorized;
+    }
+
+    updates.pharmacistReview = this.stripUndefined({
+      ...review,
+      reviewedAt: admin.firestore.Timestamp.fromDate(review.reviewedAt)
+    });
+
+    // Approving or rejecting closes the clarification thread
+    if (nextStatus && current.clarification && !current.clarification.resolvedAt) {
+      updates['clarification.resolvedAt'] = admin.firestore.Timestamp.fromDate(review.reviewedAt);
+    }
+
+    console.log(`Pharmacist ${review.reviewedBy} reviewed order ${orderId}${nextStatus ? ` -> ${nextStatus}` : ''}`);
+
+    if (nextStatus) {
+      return orderStatusService.transitionOrderStatus(orderId, nextStatus, {
+        actor: 'pharmacist',
+        changedBy: review.reviewedBy,
+        reason: review.rejectionReason,
+        updates
+      });
+    }
+
+    await orderRef.update({
+      ...updates,
+      updatedAt: admin.firestore.Timestamp.fromDate(new Date())
+    });
+
+    const updatedDoc = await orderRef.get();
+    return mapOrderDocument(updatedDoc);
+  }
+
+  private applyLineItemReviews(
+    lineItems: OrderLineItem[],
+    firstItemEdits: PharmacistEditedDetails | undefined,
+    lineItemReviews: PharmacistLineItemReview[]
+  ): OrderLineItem[] {
+    const reviews = [...lineItemReviews];
+    if (firstItemEdits) {
+      if (lineItems.length === 0) {
+        // Nothing was extracted yet, so the pharmacist's entry becomes the first line
+        lineItems = [createLineItem({ name: '', dosage: '', quantity: 0 }, 0)];
+      }
+      reviews.unshift({ lineItemId: lineItems[0].lineItemId, editedDetails: firstItemEdits });
+    }
+
+    const reviewed = lineItems.map(item => ({ ...item, substitution: { ...item.substitution } }));
+
+    for (const lineReview of reviews) {
+      const item = reviewed.find(candidate => candidate.lineItemId === lineReview.lineItemId);
+      if (!item) {
+        throw new InvalidLineItemError(`Order has no line item ${lineReview.lineItemId}`);
+      }
+
+      if (lineReview.editedDetails) {
+        item.pharmacistEdits = { ...item.pharmacistEdits, ...this.stripUndefined(lineReview.editedDetails) };
+      }
+      if (lineReview.availability) {
+        item.availability = lineReview.availability;
+      }
+      if (lineReview.substitution) {
+        item.substitution = this.stripUndefined(lineReview.substitution);
+      }
+      if (lineReview.unitPrice !== undefined) {
+        item.unitPrice = lineReview.unitPrice;
+      }
+    }
+
+    // Recalculated for every line so edited quantities and substitutions are reflected in the price
+    return reviewed.map(item => this.stripUndefined({
+      ...item,
+      lineTotal: item.unitPrice !== undefined
+        ? calculateLineTotal(item.unitPrice, getDispensedDetails(item).quantity)
+        : undefined
+    }));
+  }
+
+  /**
+   * Screen what will be dispensed against the patient's allergies, conditions and other
+   * active orders. Approving over a major finding needs the pharmacist's override note.
+   */
+  private async screenApproval(
+    order: PrescriptionOrder,
+    lineItems: OrderLineItem[],
+    overrideNote?: string
+  ): Promise<ScreeningFinding[]> {
+    const { findings } = await medicationScreeningService.screenForPatient(
+      order.patientProfileId,
+      getDispensedMedicationNames({ lineItems }),
+      { excludeOrderId: order.orderId }
+    );
+
+    if (requiresInteractionOverride(findings) && !overrideNote?.trim()) {
+      throw new InteractionOverrideRequiredError(findings);
+    }
+    return findings;
+  }
+
+  /**
+   * Orders priced line by line are charged the sum of their billable lines.
+   * Otherwise the pharmacist's single calculated cost is used, as before.
+   */
+  private calculateCost(lineItems: OrderLineItem[], calculatedCost?: number): number {
+    const pricedByLine = lineItems.some(item => item.unitPrice !== undefined);
+
+    if (!pricedByLine) {
+      if (calculatedCost === undefined) {
+        throw new InvalidLineItemError('A calculated cost or a unit price for each line item is required');
+      }
+      return calculatedCost;
+    }
+
+    const unpriced = lineItems.find(item => isLineItemBillable(item) && item.unitPrice === undefined);
+    if (unpriced) {
+      throw new InvalidLineItemError(`Line item ${unpriced.lineItemId} has no unit price`);
+    }
+
+    const total = calculateOrderTotal(lineItems);
+    if (total <= 0) {
+      throw new InvalidLineItemError('Order has no billable line items');
+    }
+    return total;
+  }
+
+  private async getPatientNames(profileIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const uniqueIds = Array.from(new Set(profileIds)).filter(Boolean);
+
+    const profileDocs = await Promise.all(
+      uniqueIds.map(profileId => this.db.collection('patientProfiles').doc(profileId).get())
+    );
+
+    profileDocs.forEach((doc: admin.firestore.DocumentSnapshot) => {
+      if (doc.exists) {
+        names.set(doc.id, doc.data()?.patientName || '');
+      }
+    });
+
+    return names;
+  }
+
+  private compareOrders(
+    a: PrescriptionOrder,
+    b: PrescriptionOrder,
+    sortField: PharmacistOrderSortField,
+    patientNames: Map<string, string>
+  ): number {
+    switch (sortField) {
+      case 'medicationType':
+        return (getOrderLineItems(a)[0]?.name || '').localeCompare(getOrderLineItems(b)[0]?.name || '');
+      case 'patientName':
+        return (patientNames.get(a.patientProfileId) || '').localeCompare(patientNames.get(b.patientProfileId) || '');
+      case 'urgency': {
+        const now = new Date();
+        return URGENCY_RANK[calculateOrderUrgency(a.createdAt, now)] - URGENCY_RANK[calculateOrderUrgency(b.createdAt, now)];
+      }
+      case 'createdAt':
+      default:
+        return a.createdAt.getTime() - b.createdAt.getTime();
+    }
+  }
+
+  private stripUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+    ) as T;
+  }
+}
+
+export const pharmacistOrderService = new PharmacistOrderService();
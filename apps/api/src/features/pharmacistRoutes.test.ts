@@ -0,0 +1,807 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import pharmacistRoutes from './pharmacistRoutes';
+import { clearUserCache } from '../middleware/auth';
+import { pharmacistOrderService, OrderNotReviewableError, InvalidLineItemError } from './pharmacistOrderService';
+import { InvalidStatusTransitionError } from './orderStatusService';
+import { orderClarificationService, ClarificationNotOpenError } from './orderClarificationService';
+import { medicationScreeningService, InteractionOverrideRequiredError } from './medicationScreeningService';
+import { resubmissionService } from './resubmissionService';
+
+const { mockVerifyIdToken, mockUserGet, mockOrderGet, mockQueryInventory, mockGetPharmacyLocations } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn(),
+  mockUserGet: vi.fn(),
+  mockOrderGet: vi.fn(),
+  mockQueryInventory: vi.fn(),
+  mockGetPharmacyLocations: vi.fn()
+}));
+
+// Mock the pharmacist order service
+vi.mock('./pharmacistOrderService', () => ({
+  pharmacistOrderService: {
+    getOrders: vi.fn(),
+    approveOrder: vi.fn(),
+    rejectOrder: vi.fn(),
+    editOrder: vi.fn(),
+    updateFulfilmentStatus: vi.fn()
+  },
+  OrderNotReviewableError: class OrderNotReviewableError extends Error {
+    constructor(public readonly currentStatus: string) {
+      super(`Order is not awaiting pharmacist review (current status: ${currentStatus})`);
+    }
+  },
+  InvalidLineItemError: class InvalidLineItemError extends Error {}
+}));
+
+// Mock the clarification thread
+vi.mock('./orderClarificationService', () => ({
+  orderClarificationService: {
+    requestClarification: vi.fn(),
+    getThread: vi.fn(),
+    postMessage: vi.fn()
+  },
+  ClarificationNotOpenError: class ClarificationNotOpenError extends Error {
+    constructor(public readonly currentStatus: string) {
+      super(`Order is not waiting for clarification (current status: ${currentStatus})`);
+    }
+  }
+}));
+
+// Mock the order lineage
+vi.mock('./resubmissionService', () => ({
+  resubmissionService: {
+    getVersions: vi.fn()
+  }
+}));
+
+// Mock interaction screening
+vi.mock('./medicationScreeningService', () => ({
+  medicationScreeningService: {
+    screenOrder: vi.fn()
+  },
+  InteractionOverrideRequiredError: class InteractionOverrideRequiredError extends Error {
+    constructor(public readonly findings: unknown[]) {
+      super('An override note is required to continue past a major interaction or allergy');
+    }
+  }
+}));
+
+// Mock the pharmacy integrations behind the stock tab
+vi.mock('./inventoryService', () => ({
+  InventoryService: class {
+    queryInventory = mockQueryInventory;
+    getPharmacyLocations = mockGetPharmacyLocations;
+  }
+}));
+
+// Mock Firebase Admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: (name: string) => ({
+        doc: () => ({ get: name === 'prescriptionOrders' ? mockOrderGet : mockUserGet })
+      })
+    })
+  }
+}));
+
+describe('Pharmacist Routes', () => {
+  let app: express.Application;
+
+  const sampleOrder = {
+    orderId: 'order-123',
+    patientProfileId: 'profile-1',
+    status: 'awaiting_payment',
+    originalImageUrl: 'https://example.com/rx.jpg',
+    createdAt: '2025-01-01T10:00:00.000Z'
+  };
+
+  const pharmacy = {
+    pharmacyId: 'pharmacie-jericho',
+    name: 'Pharmacie Jéricho',
+    address: { street: 'Rue 12.045', city: 'Cotonou', state: 'Littoral', postalCode: '', country: 'BJ' }
+  };
+
+  // A pharmacist who works at Pharmacie Jéricho
+  const affiliatePharmacist = () => mockUserGet.mockResolvedValue({
+    exists: true,
+    data: () => ({ role: UserRole.Pharmacist, displayName: 'Afi Mensah', pharmacyId: 'pharmacie-jericho' })
+  });
+
+  beforeEach(() => {
+    clearUserCache();
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/pharmacist', pharmacistRoutes);
+
+    mockVerifyIdToken.mockResolvedValue({ uid: 'pharmacist-1' });
+    mockUserGet.mockResolvedValue({
+      exists: true,
+      data: () => ({ role: UserRole.Pharmacist })
+    });
+    mockOrderGet.mockResolvedValue({
+      exists: true,
+      data: () => sampleOrder
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should return 401 without an authorization header', async () => {
+      const response = await request(app)
+        .get('/api/pharmacist/orders')
+        .expect(401);
+
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Authorization header required'
+      });
+    });
+
+    it('should return 403 for non-pharmacist users', async () => {
+      mockUserGet.mockResolvedValue({
+        exists: true,
+        data: () => ({ role: UserRole.Patient })
+      });
+
+      const response = await request(app)
+        .get('/api/pharmacist/orders')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('Pharmacist role required');
+      expect(pharmacistOrderService.getOrders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /orders', () => {
+    it('should return the queue in the PharmacistOrdersResponse shape', async () => {
+      vi.mocked(pharmacistOrderService.getOrders).mockResolvedValue({
+        orders: [sampleOrder as any],
+        totalCount: 1,
+        totalPages: 1,
+        currentPage: 1
+      });
+
+      const response = await request(app)
+        .get('/api/pharmacist/orders')
+        .query({
+          page: '1',
+          pageSize: '10',
+          sortField: 'urgency',
+          sortDirection: 'asc',
+          status: 'awaiting_verification',
+          medicationType: 'amox',
+          urgency: 'high',
+          patientName: 'jane',
+          startDate: '2025-01-01T00:00:00.000Z',
+          endDate: '2025-01-31T00:00:00.000Z'
+        })
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        data: {
+          orders: [sampleOrder],
+          totalCount: 1,
+          totalPages: 1,
+          currentPage: 1
+        }
+      });
+      expect(pharmacistOrderService.getOrders).toHaveBeenCalledWith({
+        page: 1,
+        pageSize: 10,
+        status: 'awaiting_verification',
+        sortField: 'urgency',
+        sortDirection: 'asc',
+        medicationType: 'amox',
+        urgency: 'high',
+        patientName: 'jane',
+        startDate: new Date('2025-01-01T00:00:00.000Z'),
+        endDate: new Date('2025-01-31T00:00:00.000Z')
+      });
+    });
+
+    it('should accept several statuses and a refill filter', async () => {
+      vi.mocked(pharmacistOrderService.getOrders).mockResolvedValue({ orders: [], totalCount: 0, totalPages: 0, currentPage: 1 });
+
+      await request(app)
+        .get('/api/pharmacist/orders?status=preparing,ready,out_for_delivery&orderType=refill')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(pharmacistOrderService.getOrders).toHaveBeenCalledWith(expect.objectContaining({
+        status: ['preparing', 'ready', 'out_for_delivery'],
+        orderType: 'refill'
+      }));
+    });
+
+    it('should scope the orders to the pharmacist\'s pharmacy', async () => {
+      affiliatePharmacist();
+      vi.mocked(pharmacistOrderService.getOrders).mockResolvedValue({ orders: [], totalCount: 0, totalPages: 0, currentPage: 1 });
+
+      await request(app)
+        .get('/api/pharmacist/orders')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(pharmacistOrderService.getOrders).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'awaiting_verification',
+        pharmacyId: 'pharmacie-jericho'
+      }));
+    });
+
+    it('should reject unknown statuses and order types', async () => {
+      const statusResponse = await request(app)
+        .get('/api/pharmacist/orders?status=preparing,shipped')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+      expect(statusResponse.body.error).toContain('Invalid status');
+
+      const typeResponse = await request(app)
+        .get('/api/pharmacist/orders?orderType=repeat')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+      expect(typeResponse.body.error).toContain('Invalid order type');
+      expect(pharmacistOrderService.getOrders).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid sort field', async () => {
+      const response = await request(app)
+        .get('/api/pharmacist/orders?sortField=price')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid sort field');
+    });
+
+    it('should reject an invalid date range', async () => {
+      const response = await request(app)
+        .get('/api/pharmacist/orders?startDate=not-a-date')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(400);
+
+      expect(response.body.error).toBe('startDate and endDate must be valid dates');
+    });
+  });
+
+  describe('GET /me', () => {
+    it('should return the pharmacist with their pharmacy', async () => {
+      affiliatePharmacist();
+      mockGetPharmacyLocations.mockResolvedValue([{ ...pharmacy, pharmacyId: 'pharmacie-camp-guezo' }, pharmacy]);
+
+      const response = await request(app)
+        .get('/api/pharmacist/me')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        uid: 'pharmacist-1',
+        displayName: 'Afi Mensah',
+        pharmacyId: 'pharmacie-jericho',
+        pharmacy
+      });
+    });
+
+    it('should report pharmacists without an affiliation', async () => {
+      const response = await request(app)
+        .get('/api/pharmacist/me')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ pharmacyId: null, pharmacy: null });
+      expect(mockGetPharmacyLocations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /stock', () => {
+    it('should list every item of the pharmacist\'s own pharmacy', async () => {
+      affiliatePharmacist();
+      const items = [{ itemId: 'item-1', pharmacyId: 'pharmacie-jericho', medicationName: 'Amoxicillin', quantity: 0, isAvailable: false }];
+      mockQueryInventory.mockResolvedValue({ items, totalCount: 1, pharmacies: [pharmacy], queryTime: new Date() });
+
+      const response = await request(app)
+        .get('/api/pharmacist/stock')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(mockQueryInventory).toHaveBeenCalledWith({
+        pharmacyIds: ['pharmacie-jericho'],
+        medicationName: undefined,
+        includeUnavailable: true
+      });
+      expect(response.body.data).toEqual({ pharmacyId: 'pharmacie-jericho', pharmacy, items, totalCount: 1 });
+    });
+
+    it('should return 409 when the pharmacist has no pharmacy', async () => {
+      const response = await request(app)
+        .get('/api/pharmacist/stock')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(409);
+
+      expect(response.body.error).toBe('Pharmacist is not affiliated with a pharmacy');
+      expect(mockQueryInventory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /orders/:orderId/fulfilment', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should move the order within the pharmacist\'s pharmacy', async () => {
+      vi.mocked(pharmacistOrderService.updateFulfilmentStatus).mockResolvedValue({ ...sampleOrder, status: 'ready' } as any);
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/fulfilment')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'ready' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('ready');
+      expect(pharmacistOrderService.updateFulfilmentStatus)
+        .toHaveBeenCalledWith('order-123', 'pharmacist-1', 'ready', 'pharmacie-jericho');
+    });
+
+    it('should not let a pharmacist without an assigned pharmacy move orders', async () => {
+      mockUserGet.mockResolvedValue({ exists: true, data: () => ({ role: UserRole.Pharmacist }) });
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/fulfilment')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'ready' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have access to this order');
+      expect(pharmacistOrderService.updateFulfilmentStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only allow counter steps', async () => {
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/fulfilment')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'delivered' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid status');
+      expect(pharmacistOrderService.updateFulfilmentStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for orders it cannot see', async () => {
+      vi.mocked(pharmacistOrderService.updateFulfilmentStatus).mockResolvedValue(null);
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/fulfilment')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'out_for_delivery' })
+        .expect(404);
+    });
+
+    it('should return 409 for moves the state machine refuses', async () => {
+      vi.mocked(pharmacistOrderService.updateFulfilmentStatus).mockRejectedValue(
+        new InvalidStatusTransitionError('awaiting_payment', 'ready', 'Cannot move order from awaiting_payment to ready')
+      );
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/fulfilment')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'ready' })
+        .expect(409);
+
+      expect(response.body.error).toBe('Cannot move order from awaiting_payment to ready');
+    });
+  });
+
+  describe('GET /orders/:orderId/screening', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should return the screening findings for the order', async () => {
+      vi.mocked(medicationScreeningService.screenOrder).mockResolvedValue({
+        findings: [{
+          type: 'allergy',
+          severity: 'moderate',
+          medication: 'Ceftriaxone',
+          conflictsWith: 'Penicillin',
+          description: 'The patient is allergic to Penicillin; a cross-reaction with this medication is possible'
+        }],
+        screenedAt: new Date('2025-01-01T10:00:00Z')
+      });
+
+      const response = await request(app)
+        .get('/api/pharmacist/orders/order-123/screening')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(medicationScreeningService.screenOrder).toHaveBeenCalledWith('order-123');
+      expect(response.body.data.findings[0].conflictsWith).toBe('Penicillin');
+    });
+
+    it('should return 404 when the order does not exist', async () => {
+      vi.mocked(medicationScreeningService.screenOrder).mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/pharmacist/orders/missing/screening')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+    });
+  });
+
+  describe('PUT /orders/:orderId/approve', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should approve an order with the calculated cost', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockResolvedValue(sampleOrder as any);
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000, pharmacistNotes: 'OK', editedDetails: { quantity: 20 } })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(pharmacistOrderService.approveOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', {
+        calculatedCost: 5000,
+        pharmacistNotes: 'OK',
+        editedDetails: { quantity: 20 }
+      });
+    });
+
+    it('should not let a pharmacist approve an order placed with another pharmacy', async () => {
+      mockOrderGet.mockResolvedValue({
+        exists: true,
+        data: () => ({ ...sampleOrder, pharmacyId: 'pharmacie-camp-guezo' })
+      });
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000 })
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have access to this order');
+      expect(pharmacistOrderService.approveOrder).not.toHaveBeenCalled();
+    });
+
+    it('should accept per-line prices instead of a calculated cost', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockResolvedValue(sampleOrder as any);
+      const lineItems = [
+        { lineItemId: 'item-1', unitPrice: 150, availability: 'in_stock' },
+        {
+          lineItemId: 'item-2',
+          availability: 'out_of_stock',
+          substitution: { status: 'proposed', substitute: { name: 'Doliprane', dosage: '1g', quantity: 2 } }
+        }
+      ];
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ lineItems })
+        .expect(200);
+
+      expect(pharmacistOrderService.approveOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', {
+        calculatedCost: undefined,
+        pharmacistNotes: undefined,
+        editedDetails: undefined,
+        lineItems
+      });
+    });
+
+    it('should pass on the interaction override note', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockResolvedValue(sampleOrder as any);
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000, interactionOverrideNote: '  Prescriber confirmed by phone ' })
+        .expect(200);
+
+      expect(pharmacistOrderService.approveOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', expect.objectContaining({
+        interactionOverrideNote: 'Prescriber confirmed by phone'
+      }));
+    });
+
+    it('should return 409 with the findings when a major finding is not overridden', async () => {
+      const findings = [{
+        type: 'interaction',
+        severity: 'major',
+        medication: 'Ibuprofen',
+        conflictsWith: 'Diclofenac',
+        description: 'Two anti-inflammatories together raise the risk of stomach bleeding and kidney injury',
+        otherOrderId: 'order-9'
+      }];
+      vi.mocked(pharmacistOrderService.approveOrder).mockRejectedValue(new InteractionOverrideRequiredError(findings as any));
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000 })
+        .expect(409);
+
+      expect(response.body.error).toBe('An override note is required to continue past a major interaction or allergy');
+      expect(response.body.data).toEqual(findings);
+    });
+
+    it('should validate line item reviews', async () => {
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ lineItems: [{ lineItemId: 'item-1', unitPrice: 100, availability: 'maybe' }] })
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid availability for line item item-1');
+      expect(pharmacistOrderService.approveOrder).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the line items do not match the order', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockRejectedValue(
+        new InvalidLineItemError('Order has no line item item-9')
+      );
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ lineItems: [{ lineItemId: 'item-9', unitPrice: 100 }] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Order has no line item item-9');
+    });
+
+    it('should require a positive calculated cost', async () => {
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 0 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Calculated cost must be a positive number');
+    });
+
+    it('should return 404 when the order does not exist', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockResolvedValue(null);
+
+      await request(app)
+        .put('/api/pharmacist/orders/missing/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000 })
+        .expect(404);
+    });
+
+    it('should return 409 when the order is no longer awaiting review', async () => {
+      vi.mocked(pharmacistOrderService.approveOrder).mockRejectedValue(
+        new OrderNotReviewableError('delivered')
+      );
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/approve')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ calculatedCost: 5000 })
+        .expect(409);
+
+      expect(response.body.error).toContain('delivered');
+    });
+  });
+
+  describe('PUT /orders/:orderId/reject', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should reject an order with a reason', async () => {
+      vi.mocked(pharmacistOrderService.rejectOrder).mockResolvedValue({ ...sampleOrder, status: 'rejected' } as any);
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/reject')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rejectionReason: '  Illegible dosage  ' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('rejected');
+      expect(pharmacistOrderService.rejectOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', {
+        rejectionReason: 'Illegible dosage',
+        pharmacistNotes: undefined
+      });
+    });
+
+    it('should file the rejection under a reason code', async () => {
+      vi.mocked(pharmacistOrderService.rejectOrder).mockResolvedValue({ ...sampleOrder, status: 'rejected' } as any);
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/reject')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rejectionReasonCode: 'missing_signature' })
+        .expect(200);
+
+      expect(pharmacistOrderService.rejectOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', {
+        rejectionReason: 'Missing prescriber signature',
+        rejectionReasonCode: 'missing_signature',
+        pharmacistNotes: undefined
+      });
+    });
+
+    it('should reject an unknown reason code', async () => {
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/reject')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rejectionReason: 'Unreadable', rejectionReasonCode: 'unreadable' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Rejection reason code must be one of');
+      expect(pharmacistOrderService.rejectOrder).not.toHaveBeenCalled();
+    });
+
+    it('should require a rejection reason', async () => {
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/reject')
+        .set('Authorization', 'Bearer valid-token')
+        .send({})
+        .expect(400);
+    });
+  });
+
+  describe('GET /orders/:orderId/versions', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should list every version of the order oldest first', async () => {
+      vi.mocked(resubmissionService.getVersions).mockResolvedValue([
+        { ...sampleOrder, orderId: 'order-100', status: 'rejected', versionNumber: 1, resubmittedAsOrderId: 'order-123' },
+        { ...sampleOrder, versionNumber: 2, resubmissionOfOrderId: 'order-100' }
+      ] as any);
+
+      const response = await request(app)
+        .get('/api/pharmacist/orders/order-123/versions')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data.map((order: any) => order.versionNumber)).toEqual([1, 2]);
+      expect(resubmissionService.getVersions).toHaveBeenCalledWith('order-123');
+    });
+
+    it('should return 404 for a missing order', async () => {
+      vi.mocked(resubmissionService.getVersions).mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/pharmacist/orders/missing/versions')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+    });
+  });
+
+  describe('clarification thread', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should put the order on hold and ask the patient', async () => {
+      vi.mocked(orderClarificationService.requestClarification)
+        .mockResolvedValue({ ...sampleOrder, status: 'needs_clarification' } as any);
+
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/clarification')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ message: 'Is the dosage 250mg or 500mg?', notificationChannel: 'whatsapp' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('needs_clarification');
+      expect(orderClarificationService.requestClarification).toHaveBeenCalledWith(
+        'order-123',
+        { uid: 'pharmacist-1', displayName: 'Afi Mensah' },
+        { message: 'Is the dosage 250mg or 500mg?', notificationChannel: 'whatsapp' }
+      );
+    });
+
+    it('should require a question and a known channel', async () => {
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/clarification')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ message: ' ' })
+        .expect(400);
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/clarification')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ message: 'Which strength?', notificationChannel: 'email' })
+        .expect(400);
+
+      expect(orderClarificationService.requestClarification).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the order has moved past review', async () => {
+      vi.mocked(orderClarificationService.requestClarification).mockRejectedValue(
+        new InvalidStatusTransitionError('awaiting_payment', 'needs_clarification', 'Cannot move order from awaiting_payment to needs_clarification')
+      );
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/clarification')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ message: 'Which strength?' })
+        .expect(409);
+    });
+
+    it('should return the thread', async () => {
+      const messages = [{ messageId: 'message-1', orderId: 'order-123', authorRole: 'patient', channel: 'sms', text: '500mg' }];
+      vi.mocked(orderClarificationService.getThread).mockResolvedValue(messages as any);
+
+      const response = await request(app)
+        .get('/api/pharmacist/orders/order-123/clarification')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body.data).toEqual(messages);
+    });
+
+    it('should post a follow-up message', async () => {
+      vi.mocked(orderClarificationService.postMessage).mockResolvedValue({ messageId: 'message-2' } as any);
+
+      await request(app)
+        .post('/api/pharmacist/orders/order-123/clarification/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ text: 'Could you send a photo of the back of the prescription?' })
+        .expect(201);
+
+      expect(orderClarificationService.postMessage).toHaveBeenCalledWith(
+        'order-123',
+        { role: 'pharmacist', uid: 'pharmacist-1', displayName: 'Afi Mensah' },
+        { text: 'Could you send a photo of the back of the prescription?', imageUrl: undefined }
+      );
+    });
+
+    it('should map closed threads and invalid messages', async () => {
+      vi.mocked(orderClarificationService.postMessage).mockRejectedValueOnce(new ClarificationNotOpenError('awaiting_payment'));
+      await request(app)
+        .post('/api/pharmacist/orders/order-123/clarification/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ text: 'Thanks' })
+        .expect(409);
+
+      vi.mocked(orderClarificationService.postMessage).mockRejectedValueOnce(new Error('Validation failed: A message needs text or a photo'));
+      await request(app)
+        .post('/api/pharmacist/orders/order-123/clarification/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({})
+        .expect(400);
+    });
+  });
+
+  describe('PUT /orders/:orderId/edit', () => {
+    beforeEach(() => {
+      affiliatePharmacist();
+    });
+
+    it('should record edited details', async () => {
+      vi.mocked(pharmacistOrderService.editOrder).mockResolvedValue(sampleOrder as any);
+
+      await request(app)
+        .put('/api/pharmacist/orders/order-123/edit')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ editedDetails: { dosage: '250mg' } })
+        .expect(200);
+
+      expect(pharmacistOrderService.editOrder).toHaveBeenCalledWith('order-123', 'pharmacist-1', {
+        editedDetails: { dosage: '250mg' },
+        pharmacistNotes: undefined
+      });
+    });
+
+    it('should reject an invalid edited quantity', async () => {
+      const response = await request(app)
+        .put('/api/pharmacist/orders/order-123/edit')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ editedDetails: { quantity: -1 } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Edited quantity must be a positive number');
+    });
+  });
+});
@@ -0,0 +1,737 @@
+import { Request, Response, Router } from 'express';
+import {
+  ApiResponse,
+  ClarificationNotificationChannel,
+  InventoryItem,
+  OrderClarificationMessage,
+  PharmacyLocation,
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  LineItemAvailability,
+  LineItemSubstitutionStatus,
+  MedicationScreeningResult,
+  ScreeningFinding,
+  UserRole,
+  REJECTION_REASONS,
+  REJECTION_REASON_CODES,
+  RejectionReasonCode,
+  isRejectionReasonCode
+} from '@pharmarx/shared-types';
+import {
+  pharmacistOrderService,
+  OrderNotReviewableError,
+  InvalidLineItemError,
+  PharmacistEditedDetails,
+  PharmacistLineItemReview,
+  PharmacistOrderSortField,
+  PharmacistOrderType,
+  PharmacistOrderUrgency,
+  PharmacistOrdersResult
+} from './pharmacistOrderService';
+import { InvalidStatusTransitionError } from './orderStatusService';
+import { orderClarificationService, ClarificationNotOpenError } from './orderClarificationService';
+import { resubmissionService } from './resubmissionService';
+import { medicationScreeningService, InteractionOverrideRequiredError } from './medicationScreeningService';
+import { InventoryService } from './inventoryService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+import { verifyAuth, requireRole, requireOrderAccess } from '../middleware/auth';
+
+const router = Router();
+const inventoryService = new InventoryService();
+
+const SORT_FIELDS: PharmacistOrderSortField[] = ['createdAt', 'medicationType', 'patientName', 'urgency'];
+const URGENCY_LEVELS: PharmacistOrderUrgency[] = ['high', 'medium', 'low'];
+const MAX_PAGE_SIZE = 50;
+const AVAILABILITY_VALUES: LineItemAvailability[] = ['unknown', 'in_stock', 'low_stock', 'out_of_stock'];
+const SUBSTITUTION_STATUSES: LineItemSubstitutionStatus[] = ['none', 'proposed', 'accepted', 'declined'];
+const ORDER_TYPES: PharmacistOrderType[] = ['new', 'refill'];
+const ORDER_STATUSES: PrescriptionOrderStatus[] = [
+  'pending_verification',
+  'awaiting_verification',
+  'needs_clarification',
+  'awaiting_payment',
+  'preparing',
+  'ready',
+  'out_for_delivery',
+  'delivered',
+  'rejected',
+  'cancelled'
+];
+const CLARIFICATION_CHANNELS: ClarificationNotificationChannel[] = ['sms', 'whatsapp'];
+// Moves the pharmacist makes at the counter, from taking payment to the courier handover
+const FULFILMENT_STATUSES: PrescriptionOrderStatus[] = ['preparing', 'ready', 'out_for_delivery'];
+
+export interface PharmacistProfile {
+  uid: string;
+  displayName?: string;
+  email?: string;
+  pharmacyId: string | null;
+  pharmacy: PharmacyLocation | null; // null when unaffiliated or the pharmacy is not integrated
+}
+
+export interface PharmacyStock {
+  pharmacyId: string;
+  pharmacy: PharmacyLocation | null;
+  items: InventoryItem[];
+  totalCount: number;
+  dataAsOf?: Date; // When the pharmacy's inventory snapshot was synced
+}
+
+// Apply pharmacist role verification to all routes
+router.use(verifyAuth, requireRole(UserRole.Pharmacist));
+
+const parseDateParam = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isValidEditedDetails = (details: PharmacistEditedDetails | undefined): boolean => {
+  if (!details) {
+    return true;
+  }
+  if (details.quantity !== undefined && (typeof details.quantity !== 'number' || details.quantity <= 0)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Returns an error message for the first invalid line item review, or null when all are valid
+ */
+const validateLineItemReviews = (lineItems: unknown): string | null => {
+  if (lineItems === undefined) {
+    return null;
+  }
+  if (!Array.isArray(lineItems)) {
+    return 'Line items must be an array';
+  }
+
+  for (const item of lineItems as PharmacistLineItemReview[]) {
+    if (!item || typeof item.lineItemId !== 'string' || !item.lineItemId) {
+      return 'Each line item needs a lineItemId';
+    }
+    if (!isValidEditedDetails(item.editedDetails)) {
+      return `Edited quantity for line item ${item.lineItemId} must be a positive number`;
+    }
+    if (item.unitPrice !== undefined && (typeof item.unitPrice !== 'number' || item.unitPrice < 0)) {
+      return `Unit price for line item ${item.lineItemId} must be a non-negative number`;
+    }
+    if (item.availability !== undefined && !AVAILABILITY_VALUES.includes(item.availability)) {
+      return `Invalid availability for line item ${item.lineItemId}. Must be one of: ${AVAILABILITY_VALUES.join(', ')}`;
+    }
+    if (item.substitution !== undefined) {
+      if (!SUBSTITUTION_STATUSES.includes(item.substitution.status)) {
+        return `Invalid substitution status for line item ${item.lineItemId}. Must be one of: ${SUBSTITUTION_STATUSES.join(', ')}`;
+      }
+      const substitute = item.substitution.substitute;
+      if (item.substitution.status !== 'none' && (!substitute?.name || typeof substitute.quantity !== 'number' || substitute.quantity <= 0)) {
+        return `Substitution for line item ${item.lineItemId} needs a substitute name and positive quantity`;
+      }
+    }
+  }
+
+  return null;
+};
+
+const sendReviewError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof InvalidLineItemError || (error instanceof Error && error.message.startsWith('Validation failed'))) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    } as ApiResponse<null>);
+  }
+
+  // The findings let the pharmacist see what needs overriding without screening again
+  if (error instanceof InteractionOverrideRequiredError) {
+    return res.status(409).json({
+      success: false,
+      data: error.findings,
+      error: error.message
+    } as ApiResponse<ScreeningFinding[]>);
+  }
+
+  if (
+    error instanceof OrderNotReviewableError ||
+    error instanceof InvalidStatusTransitionError ||
+    error instanceof ClarificationNotOpenError
+  ) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    } as ApiResponse<null>);
+  }
+
+  console.error(`Error during pharmacist ${action}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: `Internal server error during order ${action}`
+  } as ApiResponse<null>);
+};
+
+/**
+ * GET /pharmacist/me - The signed-in pharmacist and the pharmacy they work at
+ */
+router.get('/me', async (req: Request, res: Response) => {
+  try {
+    const { uid, displayName, email, pharmacyId } = req.user!;
+
+    let pharmacy: PharmacyLocation | null = null;
+    if (pharmacyId) {
+      const locations = await inventoryService.getPharmacyLocations();
+      pharmacy = locations.find(location => location.pharmacyId === pharmacyId) || null;
+    }
+
+    res.json({
+      success: true,
+      data: { uid, displayName, email, pharmacyId: pharmacyId || null, pharmacy }
+    } as ApiResponse<PharmacistProfile>);
+
+  } catch (error) {
+    console.error('Error fetching pharmacist profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching pharmacist profile'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /pharmacist/stock - Inventory of the pharmacist's own pharmacy as of its last sync,
+ * including items that are out of stock
+ */
+router.get('/stock', async (req: Request, res: Response) => {
+  try {
+    const { pharmacyId } = req.user!;
+    if (!pharmacyId) {
+      return res.status(409).json({
+        success: false,
+        error: 'Pharmacist is not affiliated with a pharmacy'
+      } as ApiResponse<null>);
+    }
+
+    const result = await inventoryService.queryInventory({
+      pharmacyIds: [pharmacyId],
+      medicationName: req.query.medicationName as string | undefined,
+      includeUnavailable: true
+    });
+
+    res.json({
+      success: true,
+      data: {
+        pharmacyId,
+        pharmacy: result.pharmacies.find(location => location.pharmacyId === pharmacyId) || null,
+        items: result.items,
+        totalCount: result.totalCount,
+        dataAsOf: result.dataAsOf
+      }
+    } as ApiResponse<PharmacyStock>);
+
+  } catch (error) {
+    console.error('Error fetching pharmacy stock:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching pharmacy stock'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /pharmacist/orders - Paginated, filterable queue of orders. Defaults to the
+ * verification queue; pharmacists with an affiliation only see their pharmacy's orders.
+ */
+router.get('/orders', async (req: Request, res: Response) => {
+  try {
+    const {
+      page = '1',
+      pageSize = '10',
+      sortField = 'createdAt',
+      sortDirection = 'desc',
+      status = 'awaiting_verification',
+      medicationType,
+      urgency,
+      patientName,
+      startDate,
+      endDate,
+      orderType
+    } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const pageSizeNum = parseInt(pageSize as string);
+
+    if (isNaN(pageNum) || pageNum < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'Page must be a positive integer'
+      } as ApiResponse<null>);
+    }
+
+    if (isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > MAX_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `Page size must be between 1 and ${MAX_PAGE_SIZE}`
+      } as ApiResponse<null>);
+    }
+
+    if (!SORT_FIELDS.includes(sortField as PharmacistOrderSortField)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid sort field. Must be one of: ${SORT_FIELDS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+      return res.status(400).json({
+        success: false,
+        error: 'Sort direction must be asc or desc'
+      } as ApiResponse<null>);
+    }
+
+    if (urgency !== undefined && !URGENCY_LEVELS.includes(urgency as PharmacistOrderUrgency)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid urgency. Must be one of: ${URGENCY_LEVELS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    // Several statuses can be asked for at once, e.g. the whole fulfilment pipeline
+    const statuses = (status as string).split(',');
+    if (statuses.some(value => !ORDER_STATUSES.includes(value as PrescriptionOrderStatus))) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    if (orderType !== undefined && !ORDER_TYPES.includes(orderType as PharmacistOrderType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid order type. Must be one of: ${ORDER_TYPES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+    if (start === null || end === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'startDate and endDate must be valid dates'
+      } as ApiResponse<null>);
+    }
+
+    const result = await pharmacistOrderService.getOrders({
+      page: pageNum,
+      pageSize: pageSizeNum,
+      status: statuses.length === 1
+        ? statuses[0] as PrescriptionOrderStatus
+        : statuses as PrescriptionOrderStatus[],
+      sortField: sortField as PharmacistOrderSortField,
+      sortDirection,
+      medicationType: medicationType as string | undefined,
+      urgency: urgency as PharmacistOrderUrgency | undefined,
+      patientName: patientName as string | undefined,
+      startDate: start,
+      endDate: end,
+      orderType: orderType as PharmacistOrderType | undefined,
+      pharmacyId: req.user!.pharmacyId
+    });
+
+    // Prescription images are handed out as short-lived signed URLs
+    const orders = await Promise.all(result.orders.map(order => prescriptionStorageService.withReadUrl(order)));
+
+    res.json({
+      success: true,
+      data: { ...result, orders }
+    } as ApiResponse<PharmacistOrdersResult>);
+
+  } catch (error) {
+    console.error('Error fetching pharmacist orders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching pharmacist orders'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /pharmacist/orders/:orderId/screening - Interaction, allergy and condition findings
+ * for what the order would dispense, most severe first
+ */
+router.get('/orders/:orderId/screening', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const screening = await medicationScreeningService.screenOrder(req.params.orderId);
+
+    if (!screening) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: screening
+    } as ApiResponse<MedicationScreeningResult>);
+
+  } catch (error) {
+    console.error('Error screening order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while screening order'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /pharmacist/orders/:orderId/versions - Every version of a resubmitted order,
+ * oldest first, so the pharmacist can compare what the patient changed
+ */
+router.get('/orders/:orderId/versions', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const versions = await resubmissionService.getVersions(req.params.orderId);
+
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: await Promise.all(versions.map(order => prescriptionStorageService.withReadUrl(order)))
+    } as ApiResponse<PrescriptionOrder[]>);
+
+  } catch (error) {
+    console.error('Error fetching order versions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching order versions'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * PUT /pharmacist/orders/:orderId/approve - Approve an order and set its cost,
+ * either as a single calculatedCost or from per-line unit prices
+ */
+router.put('/orders/:orderId/approve', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const pharmacistUid = req.user!.uid;
+    const { calculatedCost, pharmacistNotes, editedDetails, lineItems, refillsAuthorized, interactionOverrideNote } = req.body;
+    const pricedByLine = Array.isArray(lineItems) &&
+      lineItems.some((item: PharmacistLineItemReview) => item?.unitPrice !== undefined);
+
+    if (!pricedByLine && (typeof calculatedCost !== 'number' || calculatedCost <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Calculated cost must be a positive number'
+      } as ApiResponse<null>);
+    }
+
+    if (!isValidEditedDetails(editedDetails)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Edited quantity must be a positive number'
+      } as ApiResponse<null>);
+    }
+
+    const lineItemError = validateLineItemReviews(lineItems);
+    if (lineItemError) {
+      return res.status(400).json({
+        success: false,
+        error: lineItemError
+      } as ApiResponse<null>);
+    }
+
+    if (refillsAuthorized !== undefined && (!Number.isInteger(refillsAuthorized) || refillsAuthorized < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Refills authorized must be a non-negative whole number'
+      } as ApiResponse<null>);
+    }
+
+    if (interactionOverrideNote !== undefined && typeof interactionOverrideNote !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Interaction override note must be a string'
+      } as ApiResponse<null>);
+    }
+
+    const order = await pharmacistOrderService.approveOrder(orderId, pharmacistUid, {
+      calculatedCost: pricedByLine ? undefined : calculatedCost,
+      pharmacistNotes,
+      editedDetails,
+      lineItems,
+      refillsAuthorized,
+      interactionOverrideNote: interactionOverrideNote?.trim() || undefined
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Order approved successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'approval');
+  }
+});
+
+/**
+ * PUT /pharmacist/orders/:orderId/reject - Reject an order with a reason
+ */
+router.put('/orders/:orderId/reject', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const pharmacistUid = req.user!.uid;
+    const { rejectionReason, rejectionReasonCode, pharmacistNotes } = req.body;
+
+    if (rejectionReasonCode !== undefined && !isRejectionReasonCode(rejectionReasonCode)) {
+      return res.status(400).json({
+        success: false,
+        error: `Rejection reason code must be one of: ${REJECTION_REASON_CODES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    // The code's label stands in when the pharmacist picked a reason without rewording it
+    const reasonText = typeof rejectionReason === 'string' && rejectionReason.trim()
+      ? rejectionReason.trim()
+      : rejectionReasonCode && REJECTION_REASONS[rejectionReasonCode as RejectionReasonCode].label;
+
+    if (!reasonText) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rejection reason is required'
+      } as ApiResponse<null>);
+    }
+
+    const order = await pharmacistOrderService.rejectOrder(orderId, pharmacistUid, {
+      rejectionReason: reasonText,
+      rejectionReasonCode,
+      pharmacistNotes
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Order rejected successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'rejection');
+  }
+});
+
+/**
+ * PUT /pharmacist/orders/:orderId/clarification - Put the order on hold and ask the
+ * patient a question instead of rejecting it
+ */
+router.put('/orders/:orderId/clarification', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { uid, displayName } = req.user!;
+    const { message, notificationChannel } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'A question for the patient is required'
+      } as ApiResponse<null>);
+    }
+
+    if (notificationChannel !== undefined && !CLARIFICATION_CHANNELS.includes(notificationChannel)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid notification channel. Must be one of: ${CLARIFICATION_CHANNELS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const order = await orderClarificationService.requestClarification(orderId, { uid, displayName }, {
+      message,
+      notificationChannel
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Clarification requested from the patient'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'clarification request');
+  }
+});
+
+/**
+ * GET /pharmacist/orders/:orderId/clarification - The clarification thread, oldest first
+ */
+router.get('/orders/:orderId/clarification', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const messages = await orderClarificationService.getThread(req.params.orderId);
+
+    res.json({
+      success: true,
+      data: messages
+    } as ApiResponse<OrderClarificationMessage[]>);
+
+  } catch (error) {
+    console.error('Error getting clarification thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while getting clarification thread'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /pharmacist/orders/:orderId/clarification/messages - Follow up on the thread
+ */
+router.post('/orders/:orderId/clarification/messages', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { uid, displayName } = req.user!;
+    const { text, imageUrl } = req.body;
+
+    const message = await orderClarificationService.postMessage(
+      orderId,
+      { role: 'pharmacist', uid, displayName },
+      { text, imageUrl }
+    );
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: message,
+      message: 'Message sent to the patient'
+    } as ApiResponse<OrderClarificationMessage>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'clarification message');
+  }
+});
+
+/**
+ * PUT /pharmacist/orders/:orderId/edit - Correct medication details
+ */
+router.put('/orders/:orderId/edit', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const pharmacistUid = req.user!.uid;
+    const { editedDetails, lineItems, pharmacistNotes } = req.body;
+    const hasLineItemEdits = Array.isArray(lineItems) && lineItems.length > 0;
+
+    if (!hasLineItemEdits && (!editedDetails || Object.keys(editedDetails).length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Edited details are required'
+      } as ApiResponse<null>);
+    }
+
+    if (!isValidEditedDetails(editedDetails)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Edited quantity must be a positive number'
+      } as ApiResponse<null>);
+    }
+
+    const lineItemError = validateLineItemReviews(lineItems);
+    if (lineItemError) {
+      return res.status(400).json({
+        success: false,
+        error: lineItemError
+      } as ApiResponse<null>);
+    }
+
+    const order = await pharmacistOrderService.editOrder(orderId, pharmacistUid, {
+      editedDetails,
+      lineItems,
+      pharmacistNotes
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Order updated successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'edit');
+  }
+});
+
+/**
+ * PUT /pharmacist/orders/:orderId/fulfilment - Start preparing an order, mark it ready
+ * for pickup or hand it over to the courier
+ */
+router.put('/orders/:orderId/fulfilment', requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { uid, pharmacyId } = req.user!;
+    const { status } = req.body;
+
+    if (!FULFILMENT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Must be one of: ${FULFILMENT_STATUSES.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const order = await pharmacistOrderService.updateFulfilmentStatus(orderId, uid, status, pharmacyId);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Order status updated successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    sendReviewError(res, error, 'fulfilment update');
+  }
+});
+
+export default router;
@@ -3,8 +3,19 @@ import {
   PharmacyLocation, 
   PharmacyConfig, 
   InventoryQueryRequest,
-  PharmacyHealthStatus 
+  PharmacyHealthStatus,
+  PharmacyAuthType
 } from '@pharmarx/shared-types';
+import {
+  InventoryItemMapping,
+  PharmacyLocationMapping,
+  getValueAtPath,
+  toBoolean,
+  toDate,
+  toList,
+  toNumber,
+  toText
+} from './fieldMappings';
 
 export interface PharmacyApiResponse<T> {
   success: boolean;
@@ -51,6 +62,17 @@ export abstract class BasePharmacyAdapter {
    */
   abstract syncInventory(): Promise<PharmacyApiResponse<{ success: boolean; message?: string }>>;
 
+  /**
+   * How credentials are sent when the configuration does not say
+   */
+  protected get defaultAuthType(): PharmacyAuthType {
+    return 'api_key';
+  }
+
+  protected get authType(): PharmacyAuthType {
+    return this.config.authType || this.defaultAuthType;
+  }
+
   /**
    * Get pharmacy configuration
    */
@@ -143,6 +165,130 @@ export abstract class BasePharmacyAdapter {
     );
   }
 
+  /**
+   * HTTP headers carrying the pharmacy's credentials for its auth type
+   */
+  protected getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const { apiKey, apiSecret } = this.config;
+
+    switch (this.authType) {
+      case 'api_key':
+        if (apiKey) {
+          headers['X-API-Key'] = apiKey;
+        }
+        if (apiSecret) {
+          headers['X-API-Secret'] = apiSecret;
+        }
+        break;
+      case 'bearer':
+        if (apiKey) {
+          headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+        break;
+      case 'basic':
+        if (apiKey) {
+          headers['Authorization'] = `Basic ${Buffer.from(`${apiKey}:${apiSecret || ''}`).toString('base64')}`;
+        }
+        break;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Build an item from a partner record, reading each field from its mapped path
+   */
+  protected buildInventoryItem(record: unknown, mapping: InventoryItemMapping): InventoryItem {
+    const read = (field: keyof InventoryItemMapping) => getValueAtPath(record, mapping[field]);
+
+    return {
+      itemId: toText(read('itemId')) || '',
+      pharmacyId: this.config.pharmacyId,
+      medicationName: toText(read('medicationName')) || '',
+      genericName: toText(read('genericName')),
+      dosage: toText(read('dosage')) || '',
+      form: this.mapForm(toText(read('form')) || ''),
+      strength: toText(read('strength')) || '',
+      quantity: toNumber(read('quantity')),
+      unit: this.mapUnit(toText(read('unit')) || ''),
+      price: toNumber(read('price')),
+      currency: toText(read('currency')) || '',
+      lastUpdated: toDate(read('lastUpdated')) || new Date(),
+      isAvailable: toBoolean(read('isAvailable')),
+      expiryDate: toDate(read('expiryDate'))
+    };
+  }
+
+  /**
+   * Build a location from a partner record, reading each field from its mapped path
+   */
+  protected buildPharmacyLocation(record: unknown, mapping: PharmacyLocationMapping): PharmacyLocation {
+    const read = (field: keyof PharmacyLocationMapping) => getValueAtPath(record, mapping[field]);
+
+    return {
+      pharmacyId: toText(read('pharmacyId')) || this.config.pharmacyId,
+      name: toText(read('name')) || this.config.name,
+      address: {
+        street: toText(read('address.street')) || '',
+        city: toText(read('address.city')) || '',
+        state: toText(read('address.state')) || '',
+        postalCode: toText(read('address.postalCode')) || '',
+        country: toText(read('address.country')) || ''
+      },
+      coordinates: {
+        latitude: toNumber(read('coordinates.latitude')),
+        longitude: toNumber(read('coordinates.longitude'))
+      },
+      contactInfo: {
+        phone: toText(read('contactInfo.phone')) || '',
+        email: toText(read('contactInfo.email'))
+      },
+      operatingHours: {
+        open: toText(read('operatingHours.open')) || '',
+        close: toText(read('operatingHours.close')) || '',
+        daysOpen: toList(read('operatingHours.daysOpen'))
+      },
+      lastInventorySync: toDate(read('lastInventorySync')) || new Date(),
+      isActive: toBoolean(read('isActive'))
+    };
+  }
+
+  protected mapForm(externalForm: string): InventoryItem['form'] {
+    const formMap: Record<string, InventoryItem['form']> = {
+      'tablet': 'tablet',
+      'capsule': 'capsule',
+      'liquid': 'liquid',
+      'injection': 'injection',
+      'cream': 'cream',
+      'ointment': 'cream',
+      'suspension': 'liquid',
+      'solution': 'liquid'
+    };
+
+    return formMap[externalForm.toLowerCase()] || 'other';
+  }
+
+  protected mapUnit(externalUnit: string): InventoryItem['unit'] {
+    const unitMap: Record<string, InventoryItem['unit']> = {
+      'tablets': 'tablets',
+      'capsules': 'capsules',
+      'bottles': 'bottles',
+      'tubes': 'tubes',
+      'vials': 'vials',
+      'units': 'units',
+      'pills': 'tablets',
+      'tablet': 'tablets',
+      'capsule': 'capsules',
+      'bottle': 'bottles',
+      'tube': 'tubes',
+      'vial': 'vials',
+      'unit': 'units'
+    };
+
+    return unitMap[externalUnit.toLowerCase()] || 'units';
+  }
+
   /**
    * Transform external pharmacy data to standardized format
    */
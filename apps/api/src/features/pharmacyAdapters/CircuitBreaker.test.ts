@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from './CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error('HTTP 503: Service Unavailable'));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    breaker = new CircuitBreaker('pharmacy-001', { failureThreshold: 2, resetTimeoutMs: 60 * 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures and stop calling the pharmacy', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('HTTP 503');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('HTTP 503');
+
+    const operation = vi.fn().mockResolvedValue('ok');
+    await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getLastError()).toBe('HTTP 503: Service Unavailable');
+  });
+
+  it('should count failed responses as failures', async () => {
+    const isFailure = (result: { success: boolean }) => !result.success;
+
+    await breaker.execute(async () => ({ success: false, error: 'timeout' }), isFailure);
+    await breaker.execute(async () => ({ success: false, error: 'timeout' }), isFailure);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getConsecutiveFailures()).toBe(2);
+  });
+
+  it('should let one trial call through after the reset timeout', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(breaker.getState()).toBe('half_open');
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getConsecutiveFailures()).toBe(0);
+  });
+
+  it('should reopen when the trial call fails', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    vi.advanceTimersByTime(60 * 1000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('HTTP 503');
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAt()).toEqual(new Date('2026-03-01T10:02:00Z'));
+  });
+});
@@ -0,0 +1,111 @@
+import { CircuitState } from '@pharmarx/shared-types';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // How long the circuit stays open before a trial call is let through
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  resetTimeoutMs: 5 * 60 * 1000
+};
+
+/**
+ * Raised instead of calling a pharmacy whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly pharmacyId: string, public readonly retryAt: Date) {
+    super(`Pharmacy ${pharmacyId} is unavailable after repeated failures; retrying after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Stops calling a partner pharmacy API after repeated failures. Once the reset timeout
+ * has passed a single trial call is let through: success closes the circuit again,
+ * failure keeps it open for another timeout.
+ */
+export class CircuitBreaker {
+  private isOpen = false;
+  private trialInFlight = false;
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private lastError: string | undefined;
+
+  constructor(
+    public readonly pharmacyId: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {}
+
+  /**
+   * Run a call to the pharmacy, or throw CircuitOpenError without calling it
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (result: T) => boolean = () => false): Promise<T> {
+    this.assertCanRequest();
+
+    try {
+      const result = await operation();
+      if (isFailure(result)) {
+        this.recordFailure((result as { error?: string }).error);
+      } else {
+        this.recordSuccess();
+      }
+      return result;
+    } catch (error) {
+      this.recordFailure((error as Error).message);
+      throw error;
+    }
+  }
+
+  getState(now: Date = new Date()): CircuitState {
+    if (!this.isOpen) {
+      return 'closed';
+    }
+    return this.getRetryAt()!.getTime() <= now.getTime() ? 'half_open' : 'open';
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+
+  getLastError(): string | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * When the next trial call will be let through, or null when the circuit is closed
+   */
+  getRetryAt(): Date | null {
+    return this.openedAt ? new Date(this.openedAt.getTime() + this.options.resetTimeoutMs) : null;
+  }
+
+  recordSuccess(): void {
+    this.isOpen = false;
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.lastError = undefined;
+  }
+
+  recordFailure(error?: string, now: Date = new Date()): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    if (this.isOpen || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.isOpen = true;
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  private assertCanRequest(now: Date = new Date()): void {
+    const state = this.getState(now);
+    // Only one trial call at a time; everyone else waits for its outcome
+    if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.pharmacyId, this.getRetryAt()!);
+    }
+    if (state === 'half_open') {
+      this.trialInFlight = true;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PharmacyConfig, PharmacyIntegrationType } from '@pharmarx/shared-types';
+import { GraphQLPharmacyAdapter } from './GraphQLPharmacyAdapter';
+import {
+  CONTRACT_ITEMS,
+  CONTRACT_LOCATION,
+  ContractOperation,
+  StubPharmacyServer,
+  StubRequest,
+  describePharmacyAdapterContract,
+  startStubServer
+} from './pharmacyAdapterContract';
+
+const jsonResponse = (body: unknown) => ({ contentType: 'application/json', body: JSON.stringify(body) });
+
+const inventory = CONTRACT_ITEMS.map(item => ({
+  id: item.itemId,
+  name: item.medicationName,
+  genericName: item.genericName ?? null,
+  dosage: item.dosage,
+  form: item.form === 'liquid' ? 'SOLUTION' : 'TABLET',
+  strength: item.strength,
+  quantity: item.quantity,
+  unit: item.unit,
+  price: item.price,
+  currency: item.currency,
+  lastUpdated: item.lastUpdated.toISOString(),
+  available: item.isAvailable,
+  expiryDate: item.expiryDate?.toISOString() ?? null
+}));
+
+const locations = [{
+  id: CONTRACT_LOCATION.pharmacyId,
+  name: CONTRACT_LOCATION.name,
+  address: CONTRACT_LOCATION.address,
+  coordinates: CONTRACT_LOCATION.coordinates,
+  contact: CONTRACT_LOCATION.contactInfo,
+  hours: {
+    open: CONTRACT_LOCATION.operatingHours.open,
+    close: CONTRACT_LOCATION.operatingHours.close,
+    days: CONTRACT_LOCATION.operatingHours.daysOpen
+  },
+  lastSync: CONTRACT_LOCATION.lastInventorySync.toISOString(),
+  active: CONTRACT_LOCATION.isActive
+}];
+
+const operationOf = (request: StubRequest): ContractOperation => {
+  const query: string = JSON.parse(request.body).query;
+  if (query.startsWith('mutation')) {
+    return 'syncInventory';
+  }
+  if (query.includes('__typename')) {
+    return 'healthCheck';
+  }
+  return query.includes('locations') ? 'getLocations' : 'queryInventory';
+};
+
+describePharmacyAdapterContract('GraphQLPharmacyAdapter', {
+  integrationType: PharmacyIntegrationType.GRAPHQL_API,
+  createAdapter: config => new GraphQLPharmacyAdapter(config),
+  operationOf,
+  respond: operation => {
+    switch (operation) {
+      case 'queryInventory':
+        return jsonResponse({ data: { inventory } });
+      case 'getLocations':
+        return jsonResponse({ data: { locations } });
+      case 'healthCheck':
+        return jsonResponse({ data: { __typename: 'Query' } });
+      case 'syncInventory':
+        return jsonResponse({ data: { syncInventory: { success: true, message: 'Sync started' } } });
+    }
+  },
+  // GraphQL servers report errors with a 200 status
+  protocolError: message => jsonResponse({ data: { inventory: [] }, errors: [{ message }] }),
+  expectCredentials: request => {
+    expect(request.headers.authorization).toBe('Bearer contract-user');
+    expect(request.headers['content-type']).toBe('application/json');
+  }
+});
+
+describe('GraphQLPharmacyAdapter', () => {
+  let server: StubPharmacyServer;
+
+  const createAdapter = (overrides: Partial<PharmacyConfig> = {}) => new GraphQLPharmacyAdapter({
+    pharmacyId: 'contract-pharmacy',
+    name: 'Pharmacie du Port',
+    integrationType: PharmacyIntegrationType.GRAPHQL_API,
+    apiEndpoint: server.url,
+    apiKey: 'contract-user',
+    apiSecret: 'contract-secret',
+    timeoutMs: 2000,
+    retryAttempts: 0,
+    isActive: true,
+    syncIntervalMinutes: 15,
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    server = await startStubServer(() => jsonResponse({
+      data: {
+        pharmacy: {
+          stock: {
+            edges: [{ node: { sku: 'P-100', product: { label: 'Paracetamol' }, onHand: 50, inStock: true } }]
+          }
+        }
+      }
+    }));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should read items through the configured query, path and field mappings', async () => {
+    const query = 'query Stock($filter: InventoryFilter) { pharmacy { stock(filter: $filter) { edges { node { sku product { label } onHand inStock } } } } }';
+    const adapter = createAdapter({
+      graphql: { inventoryQuery: query, itemsPath: 'pharmacy.stock.edges' },
+      fieldMappings: {
+        inventoryItem: {
+          itemId: 'node.sku',
+          medicationName: 'node.product.label',
+          quantity: 'node.onHand',
+          isAvailable: 'node.inStock'
+        }
+      }
+    });
+
+    const result = await adapter.queryInventory({ medicationName: 'Paracetamol' });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.items).toHaveLength(1);
+    expect(result.data!.items[0]).toMatchObject({
+      itemId: 'P-100',
+      medicationName: 'Paracetamol',
+      quantity: 50,
+      isAvailable: true
+    });
+
+    const request = JSON.parse(server.requests[0].body);
+    expect(request.query).toBe(query);
+    expect(request.variables.filter.medicationName).toBe('Paracetamol');
+  });
+
+  it('should use API key headers when configured', async () => {
+    const adapter = createAdapter({ authType: 'api_key' });
+
+    await adapter.healthCheck();
+
+    const request = server.requests[server.requests.length - 1];
+    expect(request.headers['x-api-key']).toBe('contract-user');
+    expect(request.headers['x-api-secret']).toBe('contract-secret');
+    expect(request.headers.authorization).toBeUndefined();
+  });
+});
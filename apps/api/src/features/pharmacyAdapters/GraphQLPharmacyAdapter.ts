@@ -0,0 +1,220 @@
+import {
+  InventoryItem,
+  PharmacyLocation,
+  PharmacyConfig,
+  InventoryQueryRequest,
+  PharmacyHealthStatus,
+  PharmacyAuthType,
+  GraphQLIntegrationOptions
+} from '@pharmarx/shared-types';
+import { BasePharmacyAdapter, PharmacyApiResponse, InventoryQueryResult, PharmacyLocationResult } from './BasePharmacyAdapter';
+import {
+  InventoryItemMapping,
+  PharmacyLocationMapping,
+  getValueAtPath,
+  resolveMapping,
+  toArray,
+  toBoolean,
+  toText
+} from './fieldMappings';
+
+interface GraphQLResponse {
+  data?: Record<string, unknown> | null;
+  errors?: { message: string }[];
+}
+
+const DEFAULT_INVENTORY_QUERY = `query PharmacyInventory($filter: InventoryFilter) {
+  inventory(filter: $filter) {
+    id name genericName dosage form strength quantity unit price currency lastUpdated available expiryDate
+  }
+}`;
+
+const DEFAULT_LOCATIONS_QUERY = `query PharmacyLocations {
+  locations {
+    id name
+    address { street city state postalCode country }
+    coordinates { latitude longitude }
+    contact { phone email }
+    hours { open close days }
+    lastSync active
+  }
+}`;
+
+const DEFAULT_SYNC_MUTATION = `mutation SyncInventory {
+  syncInventory { success message }
+}`;
+
+const HEALTH_QUERY = 'query HealthCheck { __typename }';
+
+const DEFAULT_ITEM_MAPPING: InventoryItemMapping = {
+  itemId: 'id',
+  medicationName: 'name',
+  genericName: 'genericName',
+  dosage: 'dosage',
+  form: 'form',
+  strength: 'strength',
+  quantity: 'quantity',
+  unit: 'unit',
+  price: 'price',
+  currency: 'currency',
+  lastUpdated: 'lastUpdated',
+  isAvailable: 'available',
+  expiryDate: 'expiryDate'
+};
+
+const DEFAULT_LOCATION_MAPPING: PharmacyLocationMapping = {
+  pharmacyId: 'id',
+  name: 'name',
+  'address.street': 'address.street',
+  'address.city': 'address.city',
+  'address.state': 'address.state',
+  'address.postalCode': 'address.postalCode',
+  'address.country': 'address.country',
+  'coordinates.latitude': 'coordinates.latitude',
+  'coordinates.longitude': 'coordinates.longitude',
+  'contactInfo.phone': 'contact.phone',
+  'contactInfo.email': 'contact.email',
+  'operatingHours.open': 'hours.open',
+  'operatingHours.close': 'hours.close',
+  'operatingHours.daysOpen': 'hours.days',
+  'lastInventorySync': 'lastSync',
+  'isActive': 'active'
+};
+
+/**
+ * Adapter for partner stock systems exposing a GraphQL API. The queries can be replaced
+ * per pharmacy to match its schema, with field mappings pointing at what they select.
+ */
+export class GraphQLPharmacyAdapter extends BasePharmacyAdapter {
+  private options: GraphQLIntegrationOptions;
+  private itemMapping: InventoryItemMapping;
+  private locationMapping: PharmacyLocationMapping;
+
+  constructor(config: PharmacyConfig) {
+    super(config);
+    this.options = config.graphql || {};
+    this.itemMapping = resolveMapping(DEFAULT_ITEM_MAPPING, config.fieldMappings?.inventoryItem);
+    this.locationMapping = resolveMapping(DEFAULT_LOCATION_MAPPING, config.fieldMappings?.location);
+  }
+
+  protected get defaultAuthType(): PharmacyAuthType {
+    return 'bearer';
+  }
+
+  async queryInventory(request: InventoryQueryRequest): Promise<PharmacyApiResponse<InventoryQueryResult>> {
+    return this.executeWithRetry(async () => {
+      const data = await this.request(this.options.inventoryQuery || DEFAULT_INVENTORY_QUERY, {
+        filter: {
+          medicationName: request.medicationName,
+          genericName: request.genericName,
+          dosage: request.dosage,
+          form: request.form,
+          includeUnavailable: request.includeUnavailable
+        }
+      });
+
+      const items = toArray(getValueAtPath(data, this.options.itemsPath || 'inventory') as unknown[])
+        .map(item => this.transformInventoryItem(item));
+
+      return {
+        items,
+        totalCount: items.length,
+        queryTime: new Date()
+      };
+    }, 'queryInventory');
+  }
+
+  async getLocations(): Promise<PharmacyApiResponse<PharmacyLocationResult>> {
+    return this.executeWithRetry(async () => {
+      const data = await this.request(this.options.locationsQuery || DEFAULT_LOCATIONS_QUERY);
+
+      const locations = toArray(getValueAtPath(data, this.options.locationsPath || 'locations') as unknown[])
+        .map(location => this.transformPharmacyLocation(location));
+
+      return {
+        locations,
+        totalCount: locations.length
+      };
+    }, 'getLocations');
+  }
+
+  async healthCheck(): Promise<PharmacyHealthStatus> {
+    const startTime = Date.now();
+
+    try {
+      await this.request(HEALTH_QUERY);
+
+      return {
+        pharmacyId: this.config.pharmacyId,
+        isHealthy: true,
+        lastCheck: new Date(),
+        responseTime: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        pharmacyId: this.config.pharmacyId,
+        isHealthy: false,
+        lastCheck: new Date(),
+        responseTime: Date.now() - startTime,
+        errorMessage: (error as Error).message
+      };
+    }
+  }
+
+  async syncInventory(): Promise<PharmacyApiResponse<{ success: boolean; message?: string }>> {
+    return this.executeWithRetry(async () => {
+      const data = await this.request(this.options.syncMutation || DEFAULT_SYNC_MUTATION);
+      const result = getValueAtPath(data, this.options.syncPath || 'syncInventory');
+
+      return {
+        success: toBoolean(getValueAtPath(result, 'success')),
+        message: toText(getValueAtPath(result, 'message'))
+      };
+    }, 'syncInventory');
+  }
+
+  protected transformInventoryItem(externalItem: unknown): InventoryItem {
+    return this.buildInventoryItem(externalItem, this.itemMapping);
+  }
+
+  protected transformPharmacyLocation(externalLocation: unknown): PharmacyLocation {
+    return this.buildPharmacyLocation(externalLocation, this.locationMapping);
+  }
+
+  /**
+   * Run a query and return its data. GraphQL errors are raised even when some data came back,
+   * since a partial inventory would be taken as the pharmacy's whole stock.
+   */
+  private async request(query: string, variables: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    const response = await fetch(this.config.apiEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...this.getAuthHeaders()
+      },
+      body: JSON.stringify({ query, variables })
+    });
+
+    let result: GraphQLResponse | undefined;
+    try {
+      result = await response.json();
+    } catch {
+      result = undefined;
+    }
+
+    if (result?.errors && result.errors.length > 0) {
+      throw new Error(`GraphQL error: ${result.errors.map(error => error.message).join('; ')}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (!result?.data) {
+      throw new Error('Invalid GraphQL response: missing data');
+    }
+
+    return result.data;
+  }
+}
@@ -238,54 +238,10 @@ export class RestApiPharmacyAdapter extends BasePharmacyAdapter {
   }
 
   private getHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
+    return {
       'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    };
-
-    if (this.config.apiKey) {
-      headers['X-API-Key'] = this.config.apiKey;
-    }
-
-    if (this.config.apiSecret) {
-      headers['X-API-Secret'] = this.config.apiSecret;
-    }
-
-    return headers;
-  }
-
-  private mapForm(externalForm: string): InventoryItem['form'] {
-    const formMap: Record<string, InventoryItem['form']> = {
-      'tablet': 'tablet',
-      'capsule': 'capsule',
-      'liquid': 'liquid',
-      'injection': 'injection',
-      'cream': 'cream',
-      'ointment': 'cream',
-      'suspension': 'liquid',
-      'solution': 'liquid'
+      'Accept': 'application/json',
+      ...this.getAuthHeaders()
     };
-
-    return formMap[externalForm.toLowerCase()] || 'other';
-  }
-
-  private mapUnit(externalUnit: string): InventoryItem['unit'] {
-    const unitMap: Record<string, InventoryItem['unit']> = {
-      'tablets': 'tablets',
-      'capsules': 'capsules',
-      'bottles': 'bottles',
-      'tubes': 'tubes',
-      'vials': 'vials',
-      'units': 'units',
-      'pills': 'tablets',
-      'tablet': 'tablets',
-      'capsule': 'capsules',
-      'bottle': 'bottles',
-      'tube': 'tubes',
-      'vial': 'vials',
-      'unit': 'units'
-    };
-
-    return unitMap[externalUnit.toLowerCase()] || 'units';
   }
 }
\ No newline at end of file
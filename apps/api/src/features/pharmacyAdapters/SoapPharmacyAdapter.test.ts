@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PharmacyConfig, PharmacyIntegrationType } from '@pharmarx/shared-types';
+import { SoapPharmacyAdapter } from './SoapPharmacyAdapter';
+import {
+  CONTRACT_ITEMS,
+  CONTRACT_LOCATION,
+  ContractOperation,
+  StubPharmacyServer,
+  StubRequest,
+  describePharmacyAdapterContract,
+  startStubServer
+} from './pharmacyAdapterContract';
+
+const NAMESPACE = 'http://stock.pharmacieduport.bj/inventory';
+
+const OPERATIONS: Record<string, ContractOperation> = {
+  GetInventory: 'queryInventory',
+  GetLocations: 'getLocations',
+  Ping: 'healthCheck',
+  SyncInventory: 'syncInventory'
+};
+
+const envelope = (body: string) =>
+  '<?xml version="1.0" encoding="utf-8"?>' +
+  '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:inv="http://stock.pharmacieduport.bj/inventory">' +
+  `<soap:Body>${body}</soap:Body>` +
+  '</soap:Envelope>';
+
+const xmlResponse = (body: string) => ({ contentType: 'text/xml', body: envelope(body) });
+
+const itemXml = CONTRACT_ITEMS.map(item =>
+  '<inv:Item>' +
+  `<inv:ItemId>${item.itemId}</inv:ItemId>` +
+  `<inv:MedicationName>${item.medicationName}</inv:MedicationName>` +
+  (item.genericName ? `<inv:GenericName>${item.genericName}</inv:GenericName>` : '') +
+  `<inv:Dosage>${item.dosage}</inv:Dosage>` +
+  `<inv:Form>${item.form === 'liquid' ? 'Suspension' : 'Tablet'}</inv:Form>` +
+  `<inv:Strength>${item.strength}</inv:Strength>` +
+  `<inv:Quantity>${item.quantity}</inv:Quantity>` +
+  `<inv:Unit>${item.unit === 'bottles' ? 'Bottle' : 'Tablets'}</inv:Unit>` +
+  `<inv:Price>${item.price}</inv:Price>` +
+  `<inv:Currency>${item.currency}</inv:Currency>` +
+  `<inv:LastUpdated>${item.lastUpdated.toISOString()}</inv:LastUpdated>` +
+  `<inv:Available>${item.isAvailable}</inv:Available>` +
+  (item.expiryDate ? `<inv:ExpiryDate>${item.expiryDate.toISOString()}</inv:ExpiryDate>` : '') +
+  '</inv:Item>'
+).join('');
+
+const locationXml =
+  '<inv:Location>' +
+  `<inv:PharmacyId>${CONTRACT_LOCATION.pharmacyId}</inv:PharmacyId>` +
+  `<inv:Name>${CONTRACT_LOCATION.name}</inv:Name>` +
+  '<inv:Address>' +
+  `<inv:Street>${CONTRACT_LOCATION.address.street}</inv:Street>` +
+  `<inv:City>${CONTRACT_LOCATION.address.city}</inv:City>` +
+  `<inv:State>${CONTRACT_LOCATION.address.state}</inv:State>` +
+  `<inv:PostalCode>${CONTRACT_LOCATION.address.postalCode}</inv:PostalCode>` +
+  `<inv:Country>${CONTRACT_LOCATION.address.country}</inv:Country>` +
+  '</inv:Address>' +
+  `<inv:Latitude>${CONTRACT_LOCATION.coordinates.latitude}</inv:Latitude>` +
+  `<inv:Longitude>${CONTRACT_LOCATION.coordinates.longitude}</inv:Longitude>` +
+  `<inv:Phone>${CONTRACT_LOCATION.contactInfo.phone}</inv:Phone>` +
+  `<inv:Email>${CONTRACT_LOCATION.contactInfo.email}</inv:Email>` +
+  `<inv:OpeningTime>${CONTRACT_LOCATION.operatingHours.open}</inv:OpeningTime>` +
+  `<inv:ClosingTime>${CONTRACT_LOCATION.operatingHours.close}</inv:ClosingTime>` +
+  `<inv:DaysOpen>${CONTRACT_LOCATION.operatingHours.daysOpen.map(day => `<inv:Day>${day}</inv:Day>`).join('')}</inv:DaysOpen>` +
+  `<inv:LastSync>${CONTRACT_LOCATION.lastInventorySync.toISOString()}</inv:LastSync>` +
+  '<inv:Active>true</inv:Active>' +
+  '</inv:Location>';
+
+const operationOf = (request: StubRequest): ContractOperation => {
+  const operation = request.body.match(/<soap:Body><tns:(\w+)/)?.[1] || '';
+  return OPERATIONS[operation];
+};
+
+const configure = (config: PharmacyConfig): PharmacyConfig => ({
+  ...config,
+  soap: config.soap || { namespace: NAMESPACE }
+});
+
+describePharmacyAdapterContract('SoapPharmacyAdapter', {
+  integrationType: PharmacyIntegrationType.SOAP_API,
+  createAdapter: config => new SoapPharmacyAdapter(config),
+  configure,
+  operationOf,
+  respond: operation => {
+    switch (operation) {
+      case 'queryInventory':
+        return xmlResponse(`<inv:GetInventoryResponse><inv:Items>${itemXml}</inv:Items></inv:GetInventoryResponse>`);
+      case 'getLocations':
+        return xmlResponse(`<inv:GetLocationsResponse><inv:Locations>${locationXml}</inv:Locations></inv:GetLocationsResponse>`);
+      case 'healthCheck':
+        return xmlResponse('<inv:PingResponse><inv:Status>OK</inv:Status></inv:PingResponse>');
+      case 'syncInventory':
+        return xmlResponse('<inv:SyncInventoryResponse><inv:Success>true</inv:Success><inv:Message>Sync started</inv:Message></inv:SyncInventoryResponse>');
+    }
+  },
+  protocolError: message => ({
+    status: 500,
+    contentType: 'text/xml',
+    body: envelope(`<soap:Fault><faultcode>soap:Server</faultcode><faultstring>${message}</faultstring></soap:Fault>`)
+  }),
+  expectCredentials: request => {
+    expect(request.body).toContain('<wsse:Username>contract-user</wsse:Username>');
+    expect(request.body).toContain('contract-secret</wsse:Password>');
+    expect(request.headers.soapaction).toBe(`"${NAMESPACE}/GetLocations"`);
+  }
+});
+
+describe('SoapPharmacyAdapter', () => {
+  let server: StubPharmacyServer;
+
+  const createAdapter = (overrides: Partial<PharmacyConfig> = {}) => new SoapPharmacyAdapter(configure({
+    pharmacyId: 'contract-pharmacy',
+    name: 'Pharmacie du Port',
+    integrationType: PharmacyIntegrationType.SOAP_API,
+    apiEndpoint: server.url,
+    apiKey: 'contract-user',
+    apiSecret: 'contract-secret',
+    timeoutMs: 2000,
+    retryAttempts: 0,
+    isActive: true,
+    syncIntervalMinutes: 15,
+    ...overrides
+  }));
+
+  beforeAll(async () => {
+    server = await startStubServer(() => xmlResponse(
+      '<inv:GetStockResponse><inv:Stock><inv:Product>' +
+      '<inv:Code>P-100</inv:Code><inv:Label>Paracetamol</inv:Label><inv:OnHand>50</inv:OnHand><inv:InStock>1</inv:InStock>' +
+      '</inv:Product></inv:Stock></inv:GetStockResponse>'
+    ));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should read items through the configured operation, path and field mappings', async () => {
+    const adapter = new SoapPharmacyAdapter({
+      ...createAdapter().getConfig(),
+      soap: { namespace: NAMESPACE, operations: { queryInventory: 'GetStock' }, itemsPath: 'Stock.Product' },
+      fieldMappings: {
+        inventoryItem: { itemId: 'Code', medicationName: 'Label', quantity: 'OnHand', isAvailable: 'InStock' }
+      }
+    });
+
+    const result = await adapter.queryInventory({ medicationName: 'Paracetamol & co' });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.items).toHaveLength(1);
+    expect(result.data!.items[0]).toMatchObject({
+      itemId: 'P-100',
+      medicationName: 'Paracetamol',
+      quantity: 50,
+      isAvailable: true
+    });
+    expect(server.requests[0].body).toContain('<tns:GetStock><tns:MedicationName>Paracetamol &amp; co</tns:MedicationName></tns:GetStock>');
+  });
+
+  it('should send the action in the content type for SOAP 1.2', async () => {
+    const adapter = createAdapter({ soap: { namespace: NAMESPACE, soapVersion: '1.2' } });
+
+    await adapter.healthCheck();
+
+    const request = server.requests[server.requests.length - 1];
+    expect(request.headers['content-type']).toBe(`application/soap+xml; charset=utf-8; action="${NAMESPACE}/Ping"`);
+    expect(request.headers.soapaction).toBeUndefined();
+    expect(request.body).toContain('http://www.w3.org/2003/05/soap-envelope');
+  });
+
+  it('should use HTTP credentials instead of a WS-Security header when configured', async () => {
+    const adapter = createAdapter({ authType: 'basic' });
+
+    await adapter.healthCheck();
+
+    const request = server.requests[server.requests.length - 1];
+    expect(request.headers.authorization).toBe(`Basic ${Buffer.from('contract-user:contract-secret').toString('base64')}`);
+    expect(request.body).not.toContain('wsse:Security');
+  });
+});
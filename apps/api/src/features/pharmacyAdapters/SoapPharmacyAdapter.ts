@@ -0,0 +1,258 @@
+import {
+  InventoryItem,
+  PharmacyLocation,
+  PharmacyConfig,
+  InventoryQueryRequest,
+  PharmacyHealthStatus,
+  PharmacyAuthType,
+  SoapIntegrationOptions
+} from '@pharmarx/shared-types';
+import { XMLParser } from 'fast-xml-parser';
+import { BasePharmacyAdapter, PharmacyApiResponse, InventoryQueryResult, PharmacyLocationResult } from './BasePharmacyAdapter';
+import {
+  InventoryItemMapping,
+  PharmacyLocationMapping,
+  getValueAtPath,
+  resolveMapping,
+  toArray,
+  toBoolean,
+  toText
+} from './fieldMappings';
+
+type SoapParameters = Record<string, string | number | boolean | undefined>;
+
+const ENVELOPE_NAMESPACES = {
+  '1.1': 'http://schemas.xmlsoap.org/soap/envelope/',
+  '1.2': 'http://www.w3.org/2003/05/soap-envelope'
+};
+
+const WSSE_NAMESPACE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd';
+const PASSWORD_TEXT_TYPE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordText';
+
+const DEFAULT_OPERATIONS = {
+  queryInventory: 'GetInventory',
+  getLocations: 'GetLocations',
+  healthCheck: 'Ping',
+  syncInventory: 'SyncInventory'
+};
+
+const DEFAULT_ITEM_MAPPING: InventoryItemMapping = {
+  itemId: 'ItemId',
+  medicationName: 'MedicationName',
+  genericName: 'GenericName',
+  dosage: 'Dosage',
+  form: 'Form',
+  strength: 'Strength',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  price: 'Price',
+  currency: 'Currency',
+  lastUpdated: 'LastUpdated',
+  isAvailable: 'Available',
+  expiryDate: 'ExpiryDate'
+};
+
+const DEFAULT_LOCATION_MAPPING: PharmacyLocationMapping = {
+  pharmacyId: 'PharmacyId',
+  name: 'Name',
+  'address.street': 'Address.Street',
+  'address.city': 'Address.City',
+  'address.state': 'Address.State',
+  'address.postalCode': 'Address.PostalCode',
+  'address.country': 'Address.Country',
+  'coordinates.latitude': 'Latitude',
+  'coordinates.longitude': 'Longitude',
+  'contactInfo.phone': 'Phone',
+  'contactInfo.email': 'Email',
+  'operatingHours.open': 'OpeningTime',
+  'operatingHours.close': 'ClosingTime',
+  'operatingHours.daysOpen': 'DaysOpen',
+  'lastInventorySync': 'LastSync',
+  'isActive': 'Active'
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Adapter for partner stock systems exposing a SOAP web service. Operations are called in
+ * document/literal style in the configured namespace, with parameters as child elements.
+ */
+export class SoapPharmacyAdapter extends BasePharmacyAdapter {
+  private options: SoapIntegrationOptions;
+  private itemMapping: InventoryItemMapping;
+  private locationMapping: PharmacyLocationMapping;
+  // Values stay text so codes such as postal codes keep their leading zeros
+  private parser = new XMLParser({ removeNSPrefix: true, ignoreAttributes: true, parseTagValue: false });
+
+  constructor(config: PharmacyConfig) {
+    super(config);
+    this.options = config.soap || { namespace: '' };
+    this.itemMapping = resolveMapping(DEFAULT_ITEM_MAPPING, config.fieldMappings?.inventoryItem);
+    this.locationMapping = resolveMapping(DEFAULT_LOCATION_MAPPING, config.fieldMappings?.location);
+  }
+
+  protected get defaultAuthType(): PharmacyAuthType {
+    return 'ws_security';
+  }
+
+  async queryInventory(request: InventoryQueryRequest): Promise<PharmacyApiResponse<InventoryQueryResult>> {
+    return this.executeWithRetry(async () => {
+      const result = await this.call(this.operation('queryInventory'), {
+        MedicationName: request.medicationName,
+        GenericName: request.genericName,
+        Dosage: request.dosage,
+        Form: request.form,
+        IncludeUnavailable: request.includeUnavailable
+      });
+
+      const items = toArray(getValueAtPath(result, this.options.itemsPath || 'Items.Item'))
+        .map(item => this.transformInventoryItem(item));
+
+      return {
+        items,
+        totalCount: items.length,
+        queryTime: new Date()
+      };
+    }, 'queryInventory');
+  }
+
+  async getLocations(): Promise<PharmacyApiResponse<PharmacyLocationResult>> {
+    return this.executeWithRetry(async () => {
+      const result = await this.call(this.operation('getLocations'));
+
+      const locations = toArray(getValueAtPath(result, this.options.locationsPath || 'Locations.Location'))
+        .map(location => this.transformPharmacyLocation(location));
+
+      return {
+        locations,
+        totalCount: locations.length
+      };
+    }, 'getLocations');
+  }
+
+  async healthCheck(): Promise<PharmacyHealthStatus> {
+    const startTime = Date.now();
+
+    try {
+      await this.call(this.operation('healthCheck'));
+
+      return {
+        pharmacyId: this.config.pharmacyId,
+        isHealthy: true,
+        lastCheck: new Date(),
+        responseTime: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        pharmacyId: this.config.pharmacyId,
+        isHealthy: false,
+        lastCheck: new Date(),
+        responseTime: Date.now() - startTime,
+        errorMessage: (error as Error).message
+      };
+    }
+  }
+
+  async syncInventory(): Promise<PharmacyApiResponse<{ success: boolean; message?: string }>> {
+    return this.executeWithRetry(async () => {
+      const result = await this.call(this.operation('syncInventory'));
+
+      return {
+        success: toBoolean(getValueAtPath(result, 'Success')),
+        message: toText(getValueAtPath(result, 'Message'))
+      };
+    }, 'syncInventory');
+  }
+
+  protected transformInventoryItem(externalItem: unknown): InventoryItem {
+    return this.buildInventoryItem(externalItem, this.itemMapping);
+  }
+
+  protected transformPharmacyLocation(externalLocation: unknown): PharmacyLocation {
+    return this.buildPharmacyLocation(externalLocation, this.locationMapping);
+  }
+
+  private operation(name: keyof typeof DEFAULT_OPERATIONS): string {
+    return this.options.operations?.[name] || DEFAULT_OPERATIONS[name];
+  }
+
+  /**
+   * Call an operation and return the content of its <OperationResponse> element.
+   * SOAP faults are raised as errors, whatever the HTTP status.
+   */
+  private async call(operation: string, parameters: SoapParameters = {}): Promise<unknown> {
+    const response = await fetch(this.config.apiEndpoint, {
+      method: 'POST',
+      headers: this.getHeaders(operation),
+      body: this.buildEnvelope(operation, parameters)
+    });
+
+    const text = await response.text();
+    let body: Record<string, unknown> | undefined;
+    try {
+      body = this.parser.parse(text)?.Envelope?.Body;
+    } catch {
+      body = undefined;
+    }
+
+    const fault = body?.Fault;
+    if (fault) {
+      const reason = toText(getValueAtPath(fault, 'faultstring')) || toText(getValueAtPath(fault, 'Reason.Text')) || 'Unknown fault';
+      throw new Error(`SOAP fault: ${reason}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (!body) {
+      throw new Error('Invalid SOAP response: missing envelope body');
+    }
+
+    return body[`${operation}Response`] ?? {};
+  }
+
+  private getHeaders(operation: string): Record<string, string> {
+    const action = `${this.options.namespace.replace(/\/$/, '')}/${operation}`;
+    const headers: Record<string, string> = this.options.soapVersion === '1.2'
+      ? { 'Content-Type': `application/soap+xml; charset=utf-8; action="${action}"` }
+      : { 'Content-Type': 'text/xml; charset=utf-8', 'SOAPAction': `"${action}"` };
+
+    return { ...headers, ...this.getAuthHeaders() };
+  }
+
+  private buildEnvelope(operation: string, parameters: SoapParameters): string {
+    const envelopeNamespace = ENVELOPE_NAMESPACES[this.options.soapVersion || '1.1'];
+    const body = Object.entries(parameters)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `<tns:${name}>${escapeXml(String(value))}</tns:${name}>`)
+      .join('');
+
+    return '<?xml version="1.0" encoding="utf-8"?>' +
+      `<soap:Envelope xmlns:soap="${envelopeNamespace}" xmlns:tns="${escapeXml(this.options.namespace)}">` +
+      this.buildSecurityHeader() +
+      `<soap:Body><tns:${operation}>${body}</tns:${operation}></soap:Body>` +
+      '</soap:Envelope>';
+  }
+
+  private buildSecurityHeader(): string {
+    if (this.authType !== 'ws_security' || !this.config.apiKey) {
+      return '';
+    }
+
+    return '<soap:Header>' +
+      `<wsse:Security xmlns:wsse="${WSSE_NAMESPACE}" soap:mustUnderstand="1">` +
+      '<wsse:UsernameToken>' +
+      `<wsse:Username>${escapeXml(this.config.apiKey)}</wsse:Username>` +
+      `<wsse:Password Type="${PASSWORD_TEXT_TYPE}">${escapeXml(this.config.apiSecret || '')}</wsse:Password>` +
+      '</wsse:UsernameToken>' +
+      '</wsse:Security>' +
+      '</soap:Header>';
+  }
+}
@@ -0,0 +1,65 @@
+import { InventoryItemField, PharmacyLocationField } from '@pharmarx/shared-types';
+
+export type InventoryItemMapping = Record<InventoryItemField, string>;
+export type PharmacyLocationMapping = Record<PharmacyLocationField, string>;
+
+/**
+ * Read a dotted path such as 'Address.City' from a partner record
+ */
+export const getValueAtPath = (record: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+
+/**
+ * XML has no arrays: a list with one element parses as that element
+ */
+export const toArray = <T>(value: T | T[] | undefined | null): T[] => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+export const toText = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value).trim();
+
+export const toNumber = (value: unknown): number => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : 0;
+};
+
+export const toBoolean = (value: unknown): boolean =>
+  typeof value === 'boolean' ? value : ['true', '1', 'yes', 'y'].includes(String(value ?? '').trim().toLowerCase());
+
+export const toDate = (value: unknown): Date | undefined => {
+  const text = toText(value);
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Lists arrive as arrays, repeated XML elements ({ Day: [...] }) or comma separated text
+ */
+export const toList = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const values = Object.values(value);
+    return values.length === 1 ? toList(toArray(values[0] as unknown)) : [];
+  }
+  return toArray(value as unknown[]).map(item => toText(item)).filter((item): item is string => !!item);
+};
+
+/**
+ * Defaults overridden by whichever fields the pharmacy's configuration maps
+ */
+export const resolveMapping = <T extends Record<string, string>>(defaults: T, overrides: Partial<T> = {}): T => ({
+  ...defaults,
+  ...Object.fromEntries(Object.entries(overrides).filter(([, path]) => !!path))
+});
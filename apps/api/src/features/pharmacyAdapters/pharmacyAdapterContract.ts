@@ -0,0 +1,229 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { InventoryItem, PharmacyConfig, PharmacyIntegrationType, PharmacyLocation } from '@pharmarx/shared-types';
+import { BasePharmacyAdapter } from './BasePharmacyAdapter';
+
+/**
+ * Shared contract every pharmacy adapter is tested against. Each adapter's test file runs it
+ * with a local stub server speaking that adapter's protocol, serving CONTRACT_ITEMS and
+ * CONTRACT_LOCATION in the partner's format.
+ */
+
+export type ContractOperation = 'queryInventory' | 'getLocations' | 'healthCheck' | 'syncInventory';
+
+export interface StubRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StubResponse {
+  status?: number;
+  contentType?: string;
+  body: string;
+}
+
+export interface StubPharmacyServer {
+  url: string;
+  requests: StubRequest[];
+  // Responses returned, in order, before the protocol handler takes over again
+  queue: StubResponse[];
+  close(): Promise<void>;
+}
+
+export interface PharmacyAdapterContractOptions {
+  integrationType: PharmacyIntegrationType;
+  createAdapter(config: PharmacyConfig): BasePharmacyAdapter;
+  configure?(config: PharmacyConfig): PharmacyConfig; // Protocol options such as the SOAP namespace
+  respond(operation: ContractOperation): StubResponse;
+  operationOf(request: StubRequest): ContractOperation;
+  protocolError(message: string): StubResponse;
+  expectCredentials(request: StubRequest): void;
+}
+
+export const CONTRACT_PHARMACY_ID = 'contract-pharmacy';
+
+export const CONTRACT_ITEMS: InventoryItem[] = [
+  {
+    itemId: 'item-1',
+    pharmacyId: CONTRACT_PHARMACY_ID,
+    medicationName: 'Coartem',
+    genericName: 'Artemether/Lumefantrine',
+    dosage: '20/120mg',
+    form: 'tablet',
+    strength: '20/120mg',
+    quantity: 240,
+    unit: 'tablets',
+    price: 3500,
+    currency: 'XOF',
+    lastUpdated: new Date('2026-03-01T08:00:00.000Z'),
+    isAvailable: true,
+    expiryDate: new Date('2027-06-30T00:00:00.000Z')
+  },
+  {
+    itemId: 'item-2',
+    pharmacyId: CONTRACT_PHARMACY_ID,
+    medicationName: 'Amoxicilline',
+    genericName: undefined,
+    dosage: '250mg/5ml',
+    form: 'liquid',
+    strength: '250mg/5ml',
+    quantity: 0,
+    unit: 'bottles',
+    price: 1800,
+    currency: 'XOF',
+    lastUpdated: new Date('2026-03-01T09:30:00.000Z'),
+    isAvailable: false,
+    expiryDate: undefined
+  }
+];
+
+export const CONTRACT_LOCATION: PharmacyLocation = {
+  pharmacyId: CONTRACT_PHARMACY_ID,
+  name: 'Pharmacie du Port',
+  address: {
+    street: '12 Boulevard de la Marina',
+    city: 'Cotonou',
+    state: 'Littoral',
+    postalCode: '01234',
+    country: 'BJ'
+  },
+  coordinates: {
+    latitude: 6.3654,
+    longitude: 2.4183
+  },
+  contactInfo: {
+    phone: '+22921300000',
+    email: 'contact@pharmacieduport.bj'
+  },
+  operatingHours: {
+    open: '08:00',
+    close: '22:00',
+    daysOpen: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  },
+  lastInventorySync: new Date('2026-03-01T07:45:00.000Z'),
+  isActive: true
+};
+
+export const startStubServer = async (handle: (request: StubRequest) => StubResponse): Promise<StubPharmacyServer> => {
+  const requests: StubRequest[] = [];
+  const queue: StubResponse[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const request = { headers: req.headers, body };
+      requests.push(request);
+
+      const response = queue.shift() || handle(request);
+      res.writeHead(response.status || 200, { 'Content-Type': response.contentType || 'text/plain' });
+      res.end(response.body);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/pharmacy`,
+    requests,
+    queue,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+export const describePharmacyAdapterContract = (name: string, options: PharmacyAdapterContractOptions): void => {
+  describe(`${name} contract`, () => {
+    let server: StubPharmacyServer;
+
+    const createAdapter = (overrides: Partial<PharmacyConfig> = {}) => {
+      const config: PharmacyConfig = {
+        pharmacyId: CONTRACT_PHARMACY_ID,
+        name: 'Pharmacie du Port',
+        integrationType: options.integrationType,
+        apiEndpoint: server.url,
+        apiKey: 'contract-user',
+        apiSecret: 'contract-secret',
+        timeoutMs: 2000,
+        retryAttempts: 0,
+        isActive: true,
+        syncIntervalMinutes: 15,
+        ...overrides
+      };
+      return options.createAdapter(options.configure ? options.configure(config) : config);
+    };
+
+    beforeAll(async () => {
+      server = await startStubServer(request => options.respond(options.operationOf(request)));
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    beforeEach(() => {
+      server.requests.length = 0;
+      server.queue.length = 0;
+    });
+
+    it('should return the pharmacy\'s inventory in the standard format', async () => {
+      const result = await createAdapter().queryInventory({ includeUnavailable: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.items).toEqual(CONTRACT_ITEMS);
+      expect(result.data!.totalCount).toBe(CONTRACT_ITEMS.length);
+      expect(options.operationOf(server.requests[0])).toBe('queryInventory');
+    });
+
+    it('should return the pharmacy\'s locations in the standard format', async () => {
+      const result = await createAdapter().getLocations();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.locations).toEqual([CONTRACT_LOCATION]);
+    });
+
+    it('should send the configured credentials', async () => {
+      await createAdapter().getLocations();
+
+      options.expectCredentials(server.requests[0]);
+    });
+
+    it('should retry after a transient failure', async () => {
+      server.queue.push({ status: 503, body: 'Service Unavailable' });
+
+      const result = await createAdapter({ retryAttempts: 1 }).getLocations();
+
+      expect(result.success).toBe(true);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('should report errors from the pharmacy as a failed response', async () => {
+      server.queue.push(options.protocolError('Stock database offline'));
+
+      const result = await createAdapter().queryInventory({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Stock database offline');
+    });
+
+    it('should report health from the pharmacy API', async () => {
+      const adapter = createAdapter();
+
+      expect(await adapter.healthCheck()).toMatchObject({ pharmacyId: CONTRACT_PHARMACY_ID, isHealthy: true });
+
+      server.queue.push({ status: 500, body: 'Internal Server Error' });
+      const unhealthy = await adapter.healthCheck();
+      expect(unhealthy.isHealthy).toBe(false);
+      expect(unhealthy.errorMessage).toContain('500');
+    });
+
+    it('should ask the pharmacy to sync its inventory', async () => {
+      const result = await createAdapter().syncInventory();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ success: true, message: 'Sync started' });
+      expect(options.operationOf(server.requests[0])).toBe('syncInventory');
+    });
+  });
+};
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import pharmacySelectionRoutes from './pharmacySelectionRoutes';
+import { clearUserCache } from '../middleware/auth';
+import {
+  pharmacySelectionService,
+  OrderNotAssignableError,
+  PharmacyUnavailableError
+} from './pharmacySelectionService';
+
+const { mockVerifyIdToken } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn()
+}));
+
+// Mock the pharmacy selection service
+vi.mock('./pharmacySelectionService', () => ({
+  pharmacySelectionService: {
+    getPharmacy: vi.fn(),
+    validatePharmacyForOrder: vi.fn(),
+    assignPharmacy: vi.fn(),
+    getPreferredPharmacies: vi.fn(),
+    addPreferredPharmacy: vi.fn(),
+    removePreferredPharmacy: vi.fn()
+  },
+  OrderNotAssignableError: class OrderNotAssignableError extends Error {
+    constructor(public readonly currentStatus: string) {
+      super(`Pharmacy can no longer be changed (current status: ${currentStatus})`);
+    }
+  },
+  PharmacyUnavailableError: class PharmacyUnavailableError extends Error {
+    constructor(public readonly check: { reason?: string }) {
+      super(check.reason);
+    }
+  }
+}));
+
+// Mock Firebase Admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: () => ({
+        doc: () => ({ get: () => Promise.resolve({ exists: true, data: () => ({ role: UserRole.Patient }) }) })
+      })
+    })
+  }
+}));
+
+describe('Pharmacy Selection Routes', () => {
+  let app: express.Application;
+
+  const pharmacy = {
+    pharmacyId: 'pharmacie-jericho',
+    name: 'Pharmacie Jéricho',
+    operatingHours: { open: '8:00 AM', close: '8:00 PM', daysOpen: ['Monday'] },
+    isActive: true
+  };
+
+  const sampleOrder = {
+    orderId: 'order-123',
+    patientProfileId: 'profile-1',
+    status: 'pending_verification',
+    pharmacyId: 'pharmacie-jericho',
+    createdAt: '2025-01-01T10:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    clearUserCache();
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', pharmacySelectionRoutes);
+
+    mockVerifyIdToken.mockResolvedValue({ uid: 'patient-uid' });
+    vi.mocked(pharmacySelectionService.getPharmacy).mockResolvedValue(pharmacy as any);
+  });
+
+  it('requires authentication', async () => {
+    const response = await request(app).get('/api/pharmacies/pharmacie-jericho');
+
+    expect(response.status).toBe(401);
+  });
+
+  describe('GET /pharmacies/:pharmacyId', () => {
+    it('returns the pharmacy', async () => {
+      const response = await request(app)
+        .get('/api/pharmacies/pharmacie-jericho')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(pharmacy);
+    });
+
+    it('returns 404 for an unknown pharmacy', async () => {
+      vi.mocked(pharmacySelectionService.getPharmacy).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/pharmacies/unknown')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Pharmacy not found');
+    });
+  });
+
+  describe('GET /orders/:orderId/validate-pharmacy', () => {
+    it('returns whether the pharmacy can fulfil the order', async () => {
+      const check = { canFulfill: false, reason: 'Out of stock', unavailableMedications: ['Amoxicillin'] };
+      vi.mocked(pharmacySelectionService.validatePharmacyForOrder).mockResolvedValue(check);
+
+      const response = await request(app)
+        .get('/api/orders/order-123/validate-pharmacy?pharmacyId=pharmacie-jericho')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(check);
+      expect(pharmacySelectionService.validatePharmacyForOrder).toHaveBeenCalledWith('order-123', pharmacy, 'patient-uid');
+    });
+
+    it('requires a pharmacyId', async () => {
+      const response = await request(app)
+        .get('/api/orders/order-123/validate-pharmacy')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 when the order is not the user\'s', async () => {
+      vi.mocked(pharmacySelectionService.validatePharmacyForOrder).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/orders/order-123/validate-pharmacy?pharmacyId=pharmacie-jericho')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Order not found');
+    });
+  });
+
+  describe('POST /orders/:orderId/pharmacy', () => {
+    it('assigns the order to the pharmacy', async () => {
+      vi.mocked(pharmacySelectionService.assignPharmacy).mockResolvedValue(sampleOrder as any);
+
+      const response = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho', savePreferred: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(sampleOrder);
+      expect(response.body.message).toBe('Order sent to Pharmacie Jéricho');
+      expect(pharmacySelectionService.assignPharmacy).toHaveBeenCalledWith(
+        'order-123',
+        pharmacy,
+        'patient-uid',
+        { savePreferred: true }
+      );
+    });
+
+    it('validates the request body', async () => {
+      const missing = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({});
+      const badFlag = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho', savePreferred: 'yes' });
+
+      expect(missing.status).toBe(400);
+      expect(badFlag.status).toBe(400);
+      expect(pharmacySelectionService.assignPharmacy).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the order is not found', async () => {
+      vi.mocked(pharmacySelectionService.assignPharmacy).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('returns 409 when the pharmacy cannot fulfil the order', async () => {
+      vi.mocked(pharmacySelectionService.assignPharmacy).mockRejectedValue(
+        new PharmacyUnavailableError({ canFulfill: false, reason: 'Pharmacie Jéricho is closed now' })
+      );
+
+      const response = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Pharmacie Jéricho is closed now');
+    });
+
+    it('returns 409 once the order is past review', async () => {
+      vi.mocked(pharmacySelectionService.assignPharmacy).mockRejectedValue(new OrderNotAssignableError('preparing'));
+
+      const response = await request(app)
+        .post('/api/orders/order-123/pharmacy')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('preferred pharmacies', () => {
+    it('lists the user\'s preferred pharmacies', async () => {
+      vi.mocked(pharmacySelectionService.getPreferredPharmacies).mockResolvedValue([pharmacy] as any);
+
+      const response = await request(app)
+        .get('/api/users/patient-uid/preferred-pharmacies')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([pharmacy]);
+    });
+
+    it('adds a preferred pharmacy', async () => {
+      const response = await request(app)
+        .post('/api/users/patient-uid/preferred-pharmacies')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'pharmacie-jericho' });
+
+      expect(response.status).toBe(200);
+      expect(pharmacySelectionService.addPreferredPharmacy).toHaveBeenCalledWith('patient-uid', 'pharmacie-jericho');
+    });
+
+    it('does not add an unknown pharmacy', async () => {
+      vi.mocked(pharmacySelectionService.getPharmacy).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/users/patient-uid/preferred-pharmacies')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ pharmacyId: 'unknown' });
+
+      expect(response.status).toBe(404);
+      expect(pharmacySelectionService.addPreferredPharmacy).not.toHaveBeenCalled();
+    });
+
+    it('removes a preferred pharmacy', async () => {
+      const response = await request(app)
+        .delete('/api/users/patient-uid/preferred-pharmacies/pharmacie-jericho')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(pharmacySelectionService.removePreferredPharmacy).toHaveBeenCalledWith('patient-uid', 'pharmacie-jericho');
+    });
+
+    it('keeps other users\' preferences private', async () => {
+      const response = await request(app)
+        .get('/api/users/someone-else/preferred-pharmacies')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(403);
+      expect(pharmacySelectionService.getPreferredPharmacies).not.toHaveBeenCalled();
+    });
+  });
+});
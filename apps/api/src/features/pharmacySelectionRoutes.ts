@@ -0,0 +1,227 @@
+import { Request, Response, Router } from 'express';
+import {
+  ApiResponse,
+  PharmacyFulfilmentCheck,
+  PharmacyLocation,
+  PrescriptionOrder
+} from '@pharmarx/shared-types';
+import {
+  pharmacySelectionService,
+  OrderNotAssignableError,
+  PharmacyUnavailableError
+} from './pharmacySelectionService';
+import { verifyAuth, requireSelf } from '../middleware/auth';
+
+const router = Router();
+
+// Preferred pharmacies are private to their user
+const requireSameUser = requireSelf('userId', 'You can only manage your own preferred pharmacies');
+
+const isValidPharmacyId = (pharmacyId: unknown): pharmacyId is string =>
+  typeof pharmacyId === 'string' && pharmacyId.trim().length > 0;
+
+const sendPharmacyNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    error: 'Pharmacy not found'
+  } as ApiResponse<null>);
+
+/**
+ * GET /pharmacies/:pharmacyId - Get a pharmacy's details and opening hours
+ */
+router.get('/pharmacies/:pharmacyId', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const pharmacy = await pharmacySelectionService.getPharmacy(req.params.pharmacyId);
+    if (!pharmacy) {
+      return sendPharmacyNotFound(res);
+    }
+
+    res.json({
+      success: true,
+      data: pharmacy
+    } as ApiResponse<PharmacyLocation>);
+  } catch (error) {
+    console.error('Error fetching pharmacy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch pharmacy'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /orders/:orderId/validate-pharmacy?pharmacyId= - Check whether a pharmacy can fulfil an order
+ */
+router.get('/orders/:orderId/validate-pharmacy', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { pharmacyId } = req.query;
+    if (!isValidPharmacyId(pharmacyId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'pharmacyId is required'
+      } as ApiResponse<null>);
+    }
+
+    const pharmacy = await pharmacySelectionService.getPharmacy(pharmacyId);
+    if (!pharmacy) {
+      return sendPharmacyNotFound(res);
+    }
+
+    const check = await pharmacySelectionService.validatePharmacyForOrder(
+      req.params.orderId,
+      pharmacy,
+      req.user!.uid
+    );
+    if (!check) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: check
+    } as ApiResponse<PharmacyFulfilmentCheck>);
+  } catch (error) {
+    console.error('Error validating pharmacy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to validate pharmacy'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /orders/:orderId/pharmacy - Assign an order to the pharmacy that will fulfil it
+ */
+router.post('/orders/:orderId/pharmacy', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { pharmacyId, savePreferred } = req.body;
+    if (!isValidPharmacyId(pharmacyId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'pharmacyId is required'
+      } as ApiResponse<null>);
+    }
+    if (savePreferred !== undefined && typeof savePreferred !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'savePreferred must be a boolean'
+      } as ApiResponse<null>);
+    }
+
+    const pharmacy = await pharmacySelectionService.getPharmacy(pharmacyId);
+    if (!pharmacy) {
+      return sendPharmacyNotFound(res);
+    }
+
+    const order = await pharmacySelectionService.assignPharmacy(
+      req.params.orderId,
+      pharmacy,
+      req.user!.uid,
+      { savePreferred }
+    );
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: order,
+      message: `Order sent to ${pharmacy.name}`
+    } as ApiResponse<PrescriptionOrder>);
+  } catch (error) {
+    if (error instanceof OrderNotAssignableError || error instanceof PharmacyUnavailableError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error assigning pharmacy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to assign pharmacy'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /users/:userId/preferred-pharmacies - Get the user's preferred pharmacies
+ */
+router.get('/users/:userId/preferred-pharmacies', verifyAuth, requireSameUser, async (req: Request, res: Response) => {
+  try {
+    const pharmacies = await pharmacySelectionService.getPreferredPharmacies(req.params.userId);
+
+    res.json({
+      success: true,
+      data: pharmacies
+    } as ApiResponse<PharmacyLocation[]>);
+  } catch (error) {
+    console.error('Error fetching preferred pharmacies:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch preferred pharmacies'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /users/:userId/preferred-pharmacies - Add a pharmacy to the user's preferred pharmacies
+ */
+router.post('/users/:userId/preferred-pharmacies', verifyAuth, requireSameUser, async (req: Request, res: Response) => {
+  try {
+    const { pharmacyId } = req.body;
+    if (!isValidPharmacyId(pharmacyId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'pharmacyId is required'
+      } as ApiResponse<null>);
+    }
+
+    const pharmacy = await pharmacySelectionService.getPharmacy(pharmacyId);
+    if (!pharmacy) {
+      return sendPharmacyNotFound(res);
+    }
+
+    await pharmacySelectionService.addPreferredPharmacy(req.params.userId, pharmacyId);
+
+    res.json({
+      success: true,
+      data: pharmacy,
+      message: `${pharmacy.name} added to preferred pharmacies`
+    } as ApiResponse<PharmacyLocation>);
+  } catch (error) {
+    console.error('Error saving preferred pharmacy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save preferred pharmacy'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * DELETE /users/:userId/preferred-pharmacies/:pharmacyId - Remove a preferred pharmacy
+ */
+router.delete('/users/:userId/preferred-pharmacies/:pharmacyId', verifyAuth, requireSameUser, async (req: Request, res: Response) => {
+  try {
+    await pharmacySelectionService.removePreferredPharmacy(req.params.userId, req.params.pharmacyId);
+
+    res.json({
+      success: true,
+      message: 'Pharmacy removed from preferred pharmacies'
+    } as ApiResponse<null>);
+  } catch (error) {
+    console.error('Error removing preferred pharmacy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove preferred pharmacy'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
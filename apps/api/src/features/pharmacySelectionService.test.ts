@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PharmacyLocation } from '@pharmarx/shared-types';
+import databaseService from './database';
+import {
+  PharmacySelectionService,
+  OrderNotAssignableError,
+  PharmacyUnavailableError,
+  isPharmacyOpen,
+  parseTimeOfDay
+} from './pharmacySelectionService';
+
+const { mockQueryInventory, mockGetPharmacyLocations } = vi.hoisted(() => ({
+  mockQueryInventory: vi.fn(),
+  mockGetPharmacyLocations: vi.fn()
+}));
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+// Mock the pharmacy integrations
+vi.mock('./inventoryService', () => ({
+  InventoryService: class {
+    queryInventory = mockQueryInventory;
+    getPharmacyLocations = mockGetPharmacyLocations;
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      },
+      FieldValue: {
+        arrayUnion: vi.fn((value: string) => ({ arrayUnion: value })),
+        arrayRemove: vi.fn((value: string) => ({ arrayRemove: value }))
+      }
+    }
+  }
+}));
+
+// Wednesday 15 January 2025, 10:00 in Cotonou (UTC+1)
+const WEDNESDAY_MORNING = new Date('2025-01-15T09:00:00Z');
+
+const jericho: PharmacyLocation = {
+  pharmacyId: 'pharmacie-jericho',
+  name: 'Pharmacie Jéricho',
+  address: { street: 'Rue 12.045', city: 'Cotonou', state: 'Littoral', postalCode: '', country: 'BJ' },
+  coordinates: { latitude: 6.37, longitude: 2.43 },
+  contactInfo: { phone: '+22921300000' },
+  operatingHours: {
+    open: '8:00 AM',
+    close: '8:00 PM',
+    daysOpen: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  },
+  lastInventorySync: new Date('2025-01-15T08:00:00Z'),
+  isActive: true
+};
+
+const stockItem = (medicationName: string, quantity: number, overrides: Record<string, unknown> = {}) => ({
+  itemId: `${medicationName}-item`,
+  pharmacyId: 'pharmacie-jericho',
+  medicationName,
+  dosage: '500mg',
+  form: 'tablet',
+  strength: '500mg',
+  quantity,
+  unit: 'tablets',
+  price: 150,
+  currency: 'XOF',
+  lastUpdated: new Date(),
+  isAvailable: true,
+  ...overrides
+});
+
+describe('parseTimeOfDay', () => {
+  it('reads 24-hour and 12-hour times', () => {
+    expect(parseTimeOfDay('08:30')).toBe(8 * 60 + 30);
+    expect(parseTimeOfDay('9:00 AM')).toBe(9 * 60);
+    expect(parseTimeOfDay('9:00 PM')).toBe(21 * 60);
+    expect(parseTimeOfDay('12 am')).toBe(0);
+    expect(parseTimeOfDay('12:15 PM')).toBe(12 * 60 + 15);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseTimeOfDay('noon')).toBeNull();
+    expect(parseTimeOfDay('13:00 PM')).toBeNull();
+  });
+});
+
+describe('isPharmacyOpen', () => {
+  it('uses the pharmacy local time', () => {
+    // 19:30 UTC is 20:30 in Cotonou, after closing
+    expect(isPharmacyOpen(jericho.operatingHours, new Date('2025-01-15T19:30:00Z'))).toBe(false);
+    expect(isPharmacyOpen(jericho.operatingHours, WEDNESDAY_MORNING)).toBe(true);
+  });
+
+  it('is closed on days the pharmacy does not open', () => {
+    expect(isPharmacyOpen(jericho.operatingHours, new Date('2025-01-19T10:00:00Z'))).toBe(false);
+  });
+
+  it('accepts abbreviated days and hours past midnight', () => {
+    const nightShift = { open: '20:00', close: '06:00', daysOpen: ['Wed'] };
+
+    expect(isPharmacyOpen(nightShift, new Date('2025-01-15T22:00:00Z'))).toBe(true);
+    expect(isPharmacyOpen(nightShift, WEDNESDAY_MORNING)).toBe(false);
+  });
+
+  it('does not block on hours it cannot read', () => {
+    expect(isPharmacyOpen({ open: 'morning', close: 'evening', daysOpen: ['Wednesday'] }, WEDNESDAY_MORNING)).toBe(true);
+  });
+});
+
+describe('PharmacySelectionService', () => {
+  let service: PharmacySelectionService;
+  let orderData: Record<string, any> | null;
+  let profileData: Record<string, any> | null;
+  let userData: Record<string, any>;
+  let memberships: Record<string, Record<string, any>>;
+  let mockOrderUpdate: ReturnType<typeof vi.fn>;
+  let mockUserUpdate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(WEDNESDAY_MORNING);
+
+    orderData = {
+      orderId: 'order-1',
+      patientProfileId: 'profile-1',
+      status: 'pending_verification',
+      originalImageUrl: 'https://example.com/rx.jpg',
+      medicationDetails: { name: 'Amoxicillin', dosage: '500mg', quantity: 21 },
+      createdAt: { toDate: () => new Date('2025-01-15T08:00:00Z') }
+    };
+    profileData = { managedByUid: 'patient-uid', patientName: 'Kossi Agbo' };
+    userData = { preferredPharmacyIds: ['pharmacie-jericho', 'pharmacie-closed'] };
+    memberships = {};
+    mockOrderUpdate = vi.fn().mockResolvedValue(undefined);
+    mockUserUpdate = vi.fn().mockResolvedValue(undefined);
+
+    const collections: Record<string, any> = {
+      prescriptionOrders: {
+        doc: (id: string) => ({
+          get: vi.fn().mockResolvedValue({ id, exists: orderData !== null, data: () => orderData }),
+          update: mockOrderUpdate
+        })
+      },
+      patientProfiles: {
+        doc: () => ({
+          get: vi.fn().mockResolvedValue({ exists: profileData !== null, data: () => profileData })
+        })
+      },
+      profileMemberships: {
+        doc: (id: string) => ({
+          get: vi.fn().mockResolvedValue({ exists: id in memberships, data: () => memberships[id] })
+        })
+      },
+      users: {
+        doc: () => ({
+          get: vi.fn().mockResolvedValue({ exists: true, data: () => userData }),
+          update: mockUserUpdate
+        })
+      }
+    };
+    vi.mocked(databaseService.getDb).mockReturnValue({
+      collection: (name: string) => collections[name]
+    } as any);
+
+    mockGetPharmacyLocations.mockResolvedValue([jericho]);
+    mockQueryInventory.mockResolvedValue({ items: [stockItem('Amoxicillin', 50)], totalCount: 1, pharmacies: [jericho] });
+
+    service = new PharmacySelectionService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getPharmacy', () => {
+    it('finds the pharmacy among the integrated locations', async () => {
+      expect(await service.getPharmacy('pharmacie-jericho')).toEqual(jericho);
+      expect(await service.getPharmacy('unknown')).toBeNull();
+    });
+  });
+
+  describe('checkFulfilment', () => {
+    const order = () => ({
+      orderId: 'order-1',
+      patientProfileId: 'profile-1',
+      status: 'pending_verification' as const,
+      originalImageUrl: '',
+      lineItems: [
+        {
+          lineItemId: 'item-1',
+          name: 'Amoxicillin',
+          dosage: '500mg',
+          quantity: 21,
+          availability: 'unknown' as const,
+          substitution: { status: 'none' as const }
+        },
+        {
+          lineItemId: 'item-2',
+          name: 'Paracetamol',
+          dosage: '1g',
+          quantity: 10,
+          availability: 'unknown' as const,
+          substitution: { status: 'none' as const }
+        }
+      ],
+      createdAt: new Date()
+    });
+
+    it('accepts a pharmacy with enough stock of every medication', async () => {
+      mockQueryInventory.mockImplementation(async ({ medicationName }) => ({
+        items: [stockItem(medicationName, 30)],
+        totalCount: 1,
+        pharmacies: [jericho]
+      }));
+
+      const check = await service.checkFulfilment(order(), jericho);
+
+      expect(check).toEqual({ canFulfill: true });
+      expect(mockQueryInventory).toHaveBeenCalledWith({ pharmacyIds: ['pharmacie-jericho'], medicationName: 'Paracetamol' });
+    });
+
+    it('names the medications the pharmacy is short of', async () => {
+      mockQueryInventory.mockImplementation(async ({ medicationName }) => ({
+        items: medicationName === 'Paracetamol'
+          ? [stockItem('Paracetamol', 6), stockItem('Paracetamol', 40, { isAvailable: false })]
+          : [stockItem('Amoxicillin', 30)],
+        totalCount: 1,
+        pharmacies: [jericho]
+      }));
+
+      const check = await service.checkFulfilment(order(), jericho);
+
+      expect(check.canFulfill).toBe(false);
+      expect(check.unavailableMedications).toEqual(['Paracetamol']);
+      expect(check.reason).toBe('Pharmacie Jéricho does not have enough Paracetamol in stock');
+    });
+
+    it('matches stock by generic name', async () => {
+      mockQueryInventory.mockResolvedValue({
+        items: [stockItem('Doliprane', 30, { genericName: 'paracetamol' }), stockItem('Amoxicillin', 30)],
+        totalCount: 2,
+        pharmacies: [jericho]
+      });
+
+      expect((await service.checkFulfilment(order(), jericho)).canFulfill).toBe(true);
+    });
+
+    it('skips lines that are out of stock and not charged', async () => {
+      const partial = order();
+      partial.lineItems[1].availability = 'out_of_stock' as any;
+
+      await service.checkFulfilment(partial, jericho);
+
+      expect(mockQueryInventory).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a closed or inactive pharmacy without checking stock', async () => {
+      const closed = await service.checkFulfilment(order(), jericho, new Date('2025-01-19T10:00:00Z'));
+      const inactive = await service.checkFulfilment(order(), { ...jericho, isActive: false });
+
+      expect(closed).toEqual({ canFulfill: false, reason: 'Pharmacie Jéricho is closed now (opening hours 8:00 AM - 8:00 PM)' });
+      expect(inactive.canFulfill).toBe(false);
+      expect(mockQueryInventory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validatePharmacyForOrder', () => {
+    it('checks the pharmacy against the order', async () => {
+      expect(await service.validatePharmacyForOrder('order-1', jericho, 'patient-uid')).toEqual({ canFulfill: true });
+    });
+
+    it('returns null for orders of patients the user does not manage', async () => {
+      expect(await service.validatePharmacyForOrder('order-1', jericho, 'someone-else')).toBeNull();
+    });
+
+    it('lets members the profile is shared with choose a pharmacy only if they may order', async () => {
+      memberships['profile-1_aunt-uid'] = { role: 'can_order' };
+      memberships['profile-1_grandparent-uid'] = { role: 'can_pay' };
+
+      expect(await service.validatePharmacyForOrder('order-1', jericho, 'aunt-uid')).toEqual({ canFulfill: true });
+      expect(await service.validatePharmacyForOrder('order-1', jericho, 'grandparent-uid')).toBeNull();
+    });
+  });
+
+  describe('assignPharmacy', () => {
+    it('assigns the order to the pharmacy', async () => {
+      const order = await service.assignPharmacy('order-1', jericho, 'patient-uid');
+
+      expect(order?.pharmacyId).toBe('pharmacie-jericho');
+      expect(mockOrderUpdate).toHaveBeenCalledWith({
+        pharmacyId: 'pharmacie-jericho',
+        updatedAt: expect.anything()
+      });
+      expect(mockUserUpdate).not.toHaveBeenCalled();
+    });
+
+    it('saves the pharmacy as preferred when asked', async () => {
+      await service.assignPharmacy('order-1', jericho, 'patient-uid', { savePreferred: true });
+
+      expect(mockUserUpdate).toHaveBeenCalledWith({ preferredPharmacyIds: { arrayUnion: 'pharmacie-jericho' } });
+    });
+
+    it('returns null when the order does not exist', async () => {
+      orderData = null;
+
+      expect(await service.assignPharmacy('order-1', jericho, 'patient-uid')).toBeNull();
+    });
+
+    it('refuses once the pharmacist has reviewed the order', async () => {
+      orderData!.status = 'awaiting_payment';
+
+      await expect(service.assignPharmacy('order-1', jericho, 'patient-uid')).rejects.toThrow(OrderNotAssignableError);
+      expect(mockOrderUpdate).not.toHaveBeenCalled();
+    });
+
+    it('refuses a pharmacy that cannot fulfil the order', async () => {
+      mockQueryInventory.mockResolvedValue({ items: [stockItem('Amoxicillin', 5)], totalCount: 1, pharmacies: [jericho] });
+
+      await expect(service.assignPharmacy('order-1', jericho, 'patient-uid')).rejects.toThrow(PharmacyUnavailableError);
+      expect(mockOrderUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('preferred pharmacies', () => {
+    it('lists the preferred pharmacies that are still integrated', async () => {
+      expect(await service.getPreferredPharmacies('patient-uid')).toEqual([jericho]);
+    });
+
+    it('does not look up locations when there are none', async () => {
+      userData = {};
+
+      expect(await service.getPreferredPharmacies('patient-uid')).toEqual([]);
+      expect(mockGetPharmacyLocations).not.toHaveBeenCalled();
+    });
+
+    it('removes a preferred pharmacy', async () => {
+      await service.removePreferredPharmacy('patient-uid', 'pharmacie-jericho');
+
+      expect(mockUserUpdate).toHaveBeenCalledWith({ preferredPharmacyIds: { arrayRemove: 'pharmacie-jericho' } });
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import databaseService from './database';
+import {
+  PharmacyFulfilmentCheck,
+  PharmacyLocation,
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  canPerformProfileAction,
+  getDispensedDetails,
+  getOrderLineItems,
+  getProfileMembershipId,
+  isLineItemBillable
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { mapOrderDocument } from './orderStatusService';
+import { InventoryService } from './inventoryService';
+
+// Opening hours from the pharmacy integrations are local times in Benin
+export const PHARMACY_TIME_ZONE = process.env.PHARMACY_TIME_ZONE || 'Africa/Porto-Novo';
+
+// A pharmacy can only be chosen or changed before a pharmacist has reviewed the order
+const ASSIGNABLE_STATUSES: PrescriptionOrderStatus[] = ['pending_verification', 'awaiting_verification'];
+
+/**
+ * Raised when the pharmacy of an order that is already being handled is changed.
+ * Routes translate this into a 409 Conflict.
+ */
+export class OrderNotAssignableError extends Error {
+  constructor(public readonly currentStatus: PrescriptionOrderStatus) {
+    super(`Pharmacy can no longer be changed (current status: ${currentStatus})`);
+    this.name = 'OrderNotAssignableError';
+  }
+}
+
+/**
+ * Raised when an order is assigned to a pharmacy that is closed or short of stock.
+ * Routes translate this into a 409 Conflict.
+ */
+export class PharmacyUnavailableError extends Error {
+  constructor(public readonly check: PharmacyFulfilmentCheck) {
+    super(check.reason || 'Pharmacy cannot fulfil this order');
+    this.name = 'PharmacyUnavailableError';
+  }
+}
+
+export interface AssignPharmacyOptions {
+  savePreferred?: boolean; // Also add the pharmacy to the user's preferred pharmacies
+}
+
+/**
+ * Minutes past midnight for times such as "08:00", "9:00 AM" or "9pm"; null when unreadable.
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 24 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a pharmacy is open at the given moment in its local time. Days may be full
+ * names or abbreviations. Hours that cannot be read do not block an order; closing
+ * times before opening times run past midnight.
+ */
+export const isPharmacyOpen = (
+  operatingHours: PharmacyLocation['operatingHours'],
+  now: Date = new Date(),
+  timeZone: string = PHARMACY_TIME_ZONE
+): boolean => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  const weekday = part('weekday').toLowerCase();
+  const openToday = (operatingHours.daysOpen || []).some(day => {
+    const name = day.trim().toLowerCase();
+    return name.length >= 3 && weekday.startsWith(name.slice(0, 3));
+  });
+  if (!openToday) {
+    return false;
+  }
+
+  const open = parseTimeOfDay(operatingHours.open || '');
+  const close = parseTimeOfDay(operatingHours.close || '');
+  if (open === null || close === null || open === close) {
+    return true;
+  }
+
+  const minutes = parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10);
+  return open < close
+    ? minutes >= open && minutes < close
+    : minutes >= open || minutes < close;
+};
+
+export class PharmacySelectionService {
+  private db: admin.firestore.Firestore;
+  private inventoryService: InventoryService;
+
+  constructor() {
+    this.db = databaseService.getDb();
+    this.inventoryService = new InventoryService();
+  }
+
+  /**
+   * Look up an integrated pharmacy. Returns null when no integration knows it.
+   */
+  async getPharmacy(pharmacyId: string): Promise<PharmacyLocation | null> {
+    const locations = await this.inventoryService.getPharmacyLocations();
+    return locations.find(location => location.pharmacyId === pharmacyId) || null;
+  }
+
+  /**
+   * Check whether a pharmacy is active, open and has enough stock of every medication
+   * that will be charged for on the order.
+   */
+  async checkFulfilment(order: PrescriptionOrder, pharmacy: PharmacyLocation, now: Date = new Date()): Promise<PharmacyFulfilmentCheck> {
+    if (!pharmacy.isActive) {
+      return { canFulfill: false, reason: `${pharmacy.name} is not taking orders at the moment` };
+    }
+
+    if (!isPharmacyOpen(pharmacy.operatingHours, now)) {
+      const { open, close } = pharmacy.operatingHours;
+      return { canFulfill: false, reason: `${pharmacy.name} is closed now (opening hours ${open} - ${close})` };
+    }
+
+    const medications = getOrderLineItems(order)
+      .filter(isLineItemBillable)
+      .map(getDispensedDetails);
+
+    const shortages = await Promise.all(medications.map(async medication => {
+      const result = await this.inventoryService.queryInventory({
+        pharmacyIds: [pharmacy.pharmacyId],
+        medicationName: medication.name
+      });
+      const name = medication.name.trim().toLowerCase();
+      const inStock = result.items
+        .filter(item =>
+          item.isAvailable &&
+          (item.medicationName.toLowerCase() === name || item.genericName?.toLowerCase() === name)
+        )
+        .reduce((total, item) => total + item.quantity, 0);
+
+      return inStock < medication.quantity ? medication.name : null;
+    }));
+
+    const unavailableMedications = shortages.filter((name): name is string => name !== null);
+    if (unavailableMedications.length > 0) {
+      return {
+        canFulfill: false,
+        reason: `${pharmacy.name} does not have enough ${unavailableMedications.join(', ')} in stock`,
+        unavailableMedications
+      };
+    }
+
+    return { canFulfill: true };
+  }
+
+  /**
+   * Check a pharmacy against one of the user's orders. Returns null when the order does
+   * not exist or belongs to a patient the user may not order for.
+   */
+  async validatePharmacyForOrder(orderId: string, pharmacy: PharmacyLocation, uid: string): Promise<PharmacyFulfilmentCheck | null> {
+    const order = await this.getOwnOrder(orderId, uid);
+    if (!order) {
+      return null;
+    }
+
+    return this.checkFulfilment(order, pharmacy);
+  }
+
+  /**
+   * Send an order to the pharmacy that will fulfil it; it then appears in that pharmacy's
+   * queue. Returns null when the order does not exist or belongs to a patient the user
+   * may not order for.
+   */
+  async assignPharmacy(
+    orderId: string,
+    pharmacy: PharmacyLocation,
+    uid: string,
+    options: AssignPharmacyOptions = {}
+  ): Promise<PrescriptionOrder | null> {
+    const order = await this.getOwnOrder(orderId, uid);
+    if (!order) {
+      return null;
+    }
+
+    if (!ASSIGNABLE_STATUSES.includes(order.status)) {
+      throw new OrderNotAssignableError(order.status);
+    }
+
+    const check = await this.checkFulfilment(order, pharmacy);
+    if (!check.canFulfill) {
+      throw new PharmacyUnavailableError(check);
+    }
+
+    const now = new Date();
+    await this.db.collection('prescriptionOrders').doc(orderId).update({
+      pharmacyId: pharmacy.pharmacyId,
+      updatedAt: admin.firestore.Timestamp.fromDate(now)
+    });
+
+    if (options.savePreferred) {
+      await this.addPreferredPharmacy(uid, pharmacy.pharmacyId);
+    }
+
+    return { ...order, pharmacyId: pharmacy.pharmacyId, updatedAt: now };
+  }
+
+  /**
+   * The user's preferred pharmacies. Pharmacies no longer integrated are left out.
+   */
+  async getPreferredPharmacies(uid: string): Promise<PharmacyLocation[]> {
+    const userDoc = await this.db.collection('users').doc(uid).get();
+    const preferredIds: string[] = userDoc.data()?.preferredPharmacyIds || [];
+    if (preferredIds.length === 0) {
+      return [];
+    }
+
+    const locations = await this.inventoryService.getPharmacyLocations();
+    return preferredIds
+      .map(pharmacyId => locations.find(location => location.pharmacyId === pharmacyId))
+      .filter((location): location is PharmacyLocation => location !== undefined);
+  }
+
+  async addPreferredPharmacy(uid: string, pharmacyId: string): Promise<void> {
+    await this.db.collection('users').doc(uid).update({
+      preferredPharmacyIds: admin.firestore.FieldValue.arrayUnion(pharmacyId)
+    });
+  }
+
+  async removePreferredPharmacy(uid: string, pharmacyId: string): Promise<void> {
+    await this.db.collection('users').doc(uid).update({
+      preferredPharmacyIds: admin.firestore.FieldValue.arrayRemove(pharmacyId)
+    });
+  }
+
+  private async getOwnOrder(orderId: string, uid: string): Promise<PrescriptionOrder | null> {
+    const orderDoc = await this.db.collection('prescriptionOrders').doc(orderId).get();
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const order = mapOrderDocument(orderDoc);
+    const profileDoc = await this.db.collection('patientProfiles').doc(order.patientProfileId).get();
+    if (!profileDoc.exists) {
+      return null;
+    }
+    if (profileDoc.data()?.managedByUid === uid) {
+      return order;
+    }
+
+    // Members the profile is shared with may choose pharmacies if their role lets them order
+    const membershipDoc = await this.db.collection('profileMemberships')
+      .doc(getProfileMembershipId(order.patientProfileId, uid))
+      .get();
+    return membershipDoc.exists && canPerformProfileAction(membershipDoc.data()?.role, 'order') ? order : null;
+  }
+}
+
+export const pharmacySelectionService = new PharmacySelectionService();
@@ -2,7 +2,13 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import { prescriptionOrderRoutes } from './prescriptionOrderRoutes';
-import { receiptService } from './receiptService';
+import { receiptService, ReceiptGenerationResult } from './receiptService';
+import { orderClarificationService, ClarificationNotOpenError } from './orderClarificationService';
+import { resubmissionService, ResubmissionNotAllowedError } from './resubmissionService';
+import { ocrService } from './ocrService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+import { orderStatusService } from './orderStatusService';
+import { jobQueueService } from './jobQueueService';
 import { CreatePrescriptionOrderInput, PrescriptionOrder } from '@pharmarx/shared-types';
 
 // Mock dependencies - hoisted
@@ -13,12 +19,22 @@ vi.mock('./ocrService', () => ({
   }
 }));
 
-vi.mock('./database', () => ({
-  db: {
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
     collection: vi.fn()
   }
 }));
 
+vi.mock('./database', () => ({
+  db: mockDb
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue('job-1')
+  }
+}));
+
 vi.mock('firebase-admin', () => ({
   default: {
     firestore: {
@@ -29,6 +45,51 @@ vi.mock('firebase-admin', () => ({
   }
 }));
 
+vi.mock('./receiptService', () => ({
+  receiptService: {
+    getReceipt: vi.fn(),
+    getReceiptPDF: vi.fn(),
+    generateReceiptForPayment: vi.fn()
+  }
+}));
+
+vi.mock('./refillService', () => ({
+  refillService: {
+    getEligibilityForOrders: vi.fn(async () => new Map()),
+    requestRefill: vi.fn()
+  },
+  RefillNotEligibleError: class RefillNotEligibleError extends Error {}
+}));
+
+vi.mock('./orderClarificationService', () => ({
+  orderClarificationService: {
+    getThread: vi.fn(),
+    postMessage: vi.fn()
+  },
+  ClarificationNotOpenError: class ClarificationNotOpenError extends Error {}
+}));
+
+vi.mock('./resubmissionService', () => ({
+  resubmissionService: {
+    resubmitOrder: vi.fn()
+  },
+  ResubmissionNotAllowedError: class ResubmissionNotAllowedError extends Error {}
+}));
+
+const { authState } = vi.hoisted(() => ({
+  authState: { role: 'patient' }
+}));
+
+// Mock authentication middleware
+vi.mock('../middleware/auth', () => ({
+  verifyAuth: (req: any, res: any, next: any) => {
+    req.user = { uid: 'test-user-123', role: authState.role };
+    next();
+  },
+  requireOrderAccess: () => (req: any, res: any, next: any) => next(),
+  requireProfileAccess: () => (req: any, res: any, next: any) => next()
+}));
+
 const app = express();
 app.use(express.json());
 app.use('/api', prescriptionOrderRoutes);
@@ -36,6 +97,7 @@ app.use('/api', prescriptionOrderRoutes);
 describe('Prescription Order Routes', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    authState.role = 'patient';
   });
 
   afterEach(() => {
@@ -49,7 +111,7 @@ describe('Prescription Order Routes', () => {
     };
 
     beforeEach(() => {
-      vi.mocked(require('./ocrService')).ocrService.validateImageForOCR.mockReturnValue({
+      vi.mocked(ocrService.validateImageForOCR).mockReturnValue({
         isValid: true,
         errors: []
       });
@@ -63,7 +125,7 @@ describe('Prescription Order Routes', () => {
         doc: vi.fn(() => mockDocRef)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue(mockCollection);
+      mockDb.collection.mockReturnValue(mockCollection);
     });
 
     it('should create prescription order and trigger OCR processing', async () => {
@@ -77,6 +139,20 @@ describe('Prescription Order Routes', () => {
       expect(response.body.data.originalImageUrl).toBe(mockOrderInput.originalImageUrl);
       expect(response.body.data.ocrStatus).toBe('pending');
       expect(response.body.message).toContain('OCR processing initiated');
+      expect(vi.mocked(jobQueueService.enqueue)).toHaveBeenCalledWith('ocr', {
+        orderId: 'generated-order-id',
+        imageUrl: mockOrderInput.originalImageUrl,
+        additionalImageUrls: []
+      });
+    });
+
+    it('should ignore a status sent by the client', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .send({ ...mockOrderInput, status: 'preparing' })
+        .expect(201);
+
+      expect(response.body.data.status).toBe('pending_verification');
     });
 
     it('should return 400 for missing patient profile ID', async () => {
@@ -104,7 +180,7 @@ describe('Prescription Order Routes', () => {
     });
 
     it('should return 400 for invalid image URL', async () => {
-      vi.mocked(require('./ocrService')).ocrService.validateImageForOCR.mockReturnValue({
+      vi.mocked(ocrService.validateImageForOCR).mockReturnValue({
         isValid: false,
         errors: ['Invalid image format', 'Unsupported file type']
       });
@@ -128,7 +204,7 @@ describe('Prescription Order Routes', () => {
         doc: vi.fn(() => mockDocRef)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue(mockCollection);
+      mockDb.collection.mockReturnValue(mockCollection);
 
       const response = await request(app)
         .post('/api/orders')
@@ -138,6 +214,32 @@ describe('Prescription Order Routes', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error).toBe('Internal server error during order creation');
     });
+
+    it('should accept prescriptions the user uploaded', async () => {
+      vi.spyOn(prescriptionStorageService, 'withReadUrl').mockImplementation(async order => order);
+      const ownUpload = 'gs://pharmarx-prescriptions/prescriptions/test-user-123/page-1.jpg';
+
+      const response = await request(app)
+        .post('/api/orders')
+        .send({ ...mockOrderInput, originalImageUrl: ownUpload, additionalImageUrls: [ownUpload.replace('page-1', 'page-2')] })
+        .expect(201);
+
+      expect(response.body.data.originalImageUrl).toBe(ownUpload);
+    });
+
+    it.each([
+      ['first page', { originalImageUrl: 'gs://pharmarx-prescriptions/prescriptions/other-user/rx.jpg' }],
+      ['later page', { additionalImageUrls: ['gs://pharmarx-prescriptions/prescriptions/other-user/rx.jpg'] }],
+      ['file outside the uploads folder', { originalImageUrl: 'gs://pharmarx-prescriptions/exports/rx.jpg' }]
+    ])('should reject a %s uploaded by someone else', async (_description, images) => {
+      const response = await request(app)
+        .post('/api/orders')
+        .send({ ...mockOrderInput, ...images })
+        .expect(400);
+
+      expect(response.body.error).toBe('Prescription images must be files you uploaded');
+      expect(jobQueueService.enqueue).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /orders', () => {
@@ -183,7 +285,7 @@ describe('Prescription Order Routes', () => {
         }))
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue(mockCollection);
+      mockDb.collection.mockReturnValue(mockCollection);
 
       const response = await request(app)
         .get(`/api/orders?patientId=${patientId}`)
@@ -216,7 +318,7 @@ describe('Prescription Order Routes', () => {
         }))
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue(mockCollection);
+      mockDb.collection.mockReturnValue(mockCollection);
 
       const response = await request(app)
         .get(`/api/orders?patientId=${patientId}`)
@@ -252,7 +354,7 @@ describe('Prescription Order Routes', () => {
         get: vi.fn().mockResolvedValue(mockDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -271,7 +373,7 @@ describe('Prescription Order Routes', () => {
         get: vi.fn().mockResolvedValue(mockDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -294,31 +396,10 @@ describe('Prescription Order Routes', () => {
         status: 'awaiting_payment'
       };
 
-      const mockUpdatedData = {
+      vi.spyOn(orderStatusService, 'transitionOrderStatus').mockResolvedValue({
         ...mockOrderData,
-        status: newStatus,
-        updatedAt: { toDate: () => new Date() }
-      };
-
-      const mockDoc = {
-        exists: true,
-        data: () => mockOrderData
-      };
-
-      const mockUpdatedDoc = {
-        data: () => mockUpdatedData
-      };
-
-      const mockDocRef = {
-        get: vi.fn()
-          .mockResolvedValueOnce(mockDoc)
-          .mockResolvedValueOnce(mockUpdatedDoc),
-        update: vi.fn()
-      };
-
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
-        doc: vi.fn(() => mockDocRef)
-      });
+        status: newStatus
+      } as PrescriptionOrder);
 
       const response = await request(app)
         .put(`/api/orders/${orderId}/status`)
@@ -328,6 +409,24 @@ describe('Prescription Order Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.status).toBe(newStatus);
       expect(response.body.message).toBe('Order status updated successfully');
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith(orderId, newStatus, {
+        actor: 'patient',
+        changedBy: 'test-user-123',
+        reason: undefined
+      });
+    });
+
+    it.each(['pharmacist', 'courier'])('should not let a %s change status directly', async (role) => {
+      authState.role = role;
+      const transition = vi.spyOn(orderStatusService, 'transitionOrderStatus');
+
+      const response = await request(app)
+        .put(`/api/orders/${orderId}/status`)
+        .send({ status: role === 'pharmacist' ? 'awaiting_payment' : 'delivered' })
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+      expect(transition).not.toHaveBeenCalled();
     });
 
     it('should return 400 for invalid status', async () => {
@@ -385,7 +484,7 @@ describe('Prescription Order Routes', () => {
         update: vi.fn()
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -426,7 +525,7 @@ describe('Prescription Order Routes', () => {
         update: vi.fn()
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -454,7 +553,7 @@ describe('Prescription Order Routes', () => {
         get: vi.fn().mockResolvedValue(mockDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -483,7 +582,7 @@ describe('Prescription Order Routes', () => {
         get: vi.fn().mockResolvedValue(mockDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
@@ -504,7 +603,7 @@ describe('Prescription Order Routes', () => {
         originalImageUrl: 'https://example.com/invalid-format.txt'
       };
 
-      vi.mocked(require('./ocrService')).ocrService.validateImageForOCR.mockReturnValue({
+      vi.mocked(ocrService.validateImageForOCR).mockReturnValue({
         isValid: false,
         errors: ['Invalid file format']
       });
@@ -514,7 +613,7 @@ describe('Prescription Order Routes', () => {
         .send(mockOrderInput)
         .expect(400);
 
-      expect(vi.mocked(require('./ocrService')).ocrService.validateImageForOCR).toHaveBeenCalledWith(
+      expect(vi.mocked(ocrService.validateImageForOCR)).toHaveBeenCalledWith(
         mockOrderInput.originalImageUrl
       );
     });
@@ -576,7 +675,7 @@ describe('Order History Endpoints', () => {
       const mockGet = vi.fn();
       const mockCount = vi.fn();
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         where: mockWhere,
         orderBy: mockOrderBy,
         limit: mockLimit,
@@ -609,13 +708,13 @@ describe('Order History Endpoints', () => {
         get: mockGet
       });
 
-      mockCount.mockResolvedValue(mockCountSnapshot);
+      mockCount.mockReturnValue({ get: vi.fn().mockResolvedValue(mockCountSnapshot) });
       mockGet
         .mockResolvedValueOnce(mockOrdersSnapshot) // First call for orders
         .mockResolvedValueOnce(mockPaymentsSnapshot); // Second call for payments
 
       const response = await request(app)
-        .get('/orders/history')
+        .get('/api/orders/history')
         .query({ patientId: mockPatientId, page: '1', limit: '10' });
 
       expect(response.status).toBe(200);
@@ -633,7 +732,7 @@ describe('Order History Endpoints', () => {
 
     it('should return 400 if patientId is missing', async () => {
       const response = await request(app)
-        .get('/orders/history')
+        .get('/api/orders/history')
         .query({ page: '1', limit: '10' });
 
       expect(response.status).toBe(400);
@@ -655,7 +754,7 @@ describe('Order History Endpoints', () => {
       const mockGet = vi.fn();
       const mockCount = vi.fn();
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         where: mockWhere,
         orderBy: mockOrderBy,
         limit: mockLimit,
@@ -688,13 +787,13 @@ describe('Order History Endpoints', () => {
         get: mockGet
       });
 
-      mockCount.mockResolvedValue(mockCountSnapshot);
+      mockCount.mockReturnValue({ get: vi.fn().mockResolvedValue(mockCountSnapshot) });
       mockGet
         .mockResolvedValueOnce(mockOrdersSnapshot)
         .mockResolvedValueOnce(mockPaymentsSnapshot);
 
       const response = await request(app)
-        .get('/orders/history')
+        .get('/api/orders/history')
         .query({ patientId: mockPatientId, page: '2', limit: '10' });
 
       expect(response.status).toBe(200);
@@ -744,7 +843,7 @@ describe('Order History Endpoints', () => {
       const mockWhere = vi.fn();
       const mockLimit = vi.fn();
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef),
         where: mockWhere,
         limit: mockLimit
@@ -759,13 +858,13 @@ describe('Order History Endpoints', () => {
       });
 
       // Mock receipt service
-      vi.mocked(require('./receiptService')).receiptService.generateReceiptForPayment.mockResolvedValue({
+      vi.mocked(receiptService.generateReceiptForPayment).mockResolvedValue({
         pdfBuffer: Buffer.from('fake-pdf-content'),
         receiptId: 'receipt-123'
-      });
+      } as ReceiptGenerationResult);
 
       const response = await request(app)
-        .get(`/orders/${mockOrderId}/receipt`)
+        .get(`/api/orders/${mockOrderId}/receipt`)
         .query({ patientId: mockPatientId });
 
       expect(response.status).toBe(200);
@@ -779,12 +878,12 @@ describe('Order History Endpoints', () => {
         get: vi.fn().mockResolvedValue({ exists: false })
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
       const response = await request(app)
-        .get(`/orders/${mockOrderId}/receipt`)
+        .get(`/api/orders/${mockOrderId}/receipt`)
         .query({ patientId: mockPatientId });
 
       expect(response.status).toBe(404);
@@ -805,12 +904,12 @@ describe('Order History Endpoints', () => {
         get: vi.fn().mockResolvedValue(mockOrderDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
       const response = await request(app)
-        .get(`/orders/${mockOrderId}/receipt`)
+        .get(`/api/orders/${mockOrderId}/receipt`)
         .query({ patientId: mockPatientId });
 
       expect(response.status).toBe(403);
@@ -831,12 +930,12 @@ describe('Order History Endpoints', () => {
         get: vi.fn().mockResolvedValue(mockOrderDoc)
       };
 
-      vi.mocked(require('./database')).db.collection.mockReturnValue({
+      mockDb.collection.mockReturnValue({
         doc: vi.fn(() => mockDocRef)
       });
 
       const response = await request(app)
-        .get(`/orders/${mockOrderId}/receipt`)
+        .get(`/api/orders/${mockOrderId}/receipt`)
         .query({ patientId: mockPatientId });
 
       expect(response.status).toBe(400);
@@ -846,11 +945,125 @@ describe('Order History Endpoints', () => {
 
     it('should return 400 if patientId is missing', async () => {
       const response = await request(app)
-        .get(`/orders/${mockOrderId}/receipt`);
+        .get(`/api/orders/${mockOrderId}/receipt`);
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
       expect(response.body.error).toBe('Patient ID is required');
     });
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('Clarification Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the clarification thread', async () => {
+    vi.mocked(orderClarificationService.getThread).mockResolvedValue([
+      { messageId: 'message-1', orderId: 'order-123', authorRole: 'pharmacist', channel: 'web', text: 'Which strength?', createdAt: new Date('2025-01-15T09:00:00Z') }
+    ]);
+
+    const response = await request(app)
+      .get('/api/orders/order-123/clarification')
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(orderClarificationService.getThread).toHaveBeenCalledWith('order-123');
+  });
+
+  it('should post the reply as the patient', async () => {
+    vi.mocked(orderClarificationService.postMessage).mockResolvedValue({
+      messageId: 'message-2',
+      orderId: 'order-123',
+      authorRole: 'patient',
+      channel: 'web',
+      text: '500mg',
+      createdAt: new Date()
+    });
+
+    const response = await request(app)
+      .post('/api/orders/order-123/clarification/messages')
+      .send({ text: '500mg' })
+      .expect(201);
+
+    expect(response.body.message).toBe('Reply sent to the pharmacist');
+    expect(orderClarificationService.postMessage).toHaveBeenCalledWith(
+      'order-123',
+      { role: 'patient', uid: 'test-user-123', displayName: undefined },
+      { text: '500mg', imageUrl: undefined }
+    );
+  });
+
+  it('should map closed threads, invalid messages and missing orders', async () => {
+    vi.mocked(orderClarificationService.postMessage).mockRejectedValueOnce(new ClarificationNotOpenError('awaiting_payment'));
+    await request(app).post('/api/orders/order-123/clarification/messages').send({ text: 'Hello?' }).expect(409);
+
+    vi.mocked(orderClarificationService.postMessage).mockRejectedValueOnce(new Error('Validation failed: A message needs text or a photo'));
+    await request(app).post('/api/orders/order-123/clarification/messages').send({}).expect(400);
+
+    vi.mocked(orderClarificationService.postMessage).mockResolvedValueOnce(null);
+    await request(app).post('/api/orders/missing/clarification/messages').send({ text: 'Hello?' }).expect(404);
+  });
+});
+
+describe('Resubmission Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ocrService.validateImageForOCR).mockReturnValue({ isValid: true, errors: [] });
+  });
+
+  it('should send the fixed order as a new version', async () => {
+    vi.mocked(resubmissionService.resubmitOrder).mockResolvedValue({
+      orderId: 'order-456',
+      patientProfileId: 'patient-123',
+      status: 'pending_verification',
+      originalImageUrl: 'https://example.com/new-rx.jpg',
+      resubmissionOfOrderId: 'order-123',
+      versionNumber: 2,
+      createdAt: new Date()
+    });
+
+    const response = await request(app)
+      .post('/api/orders/order-123/resubmit')
+      .send({ imageUrls: ['https://example.com/new-rx.jpg'], note: 'Clearer photo' })
+      .expect(201);
+
+    expect(response.body.data.versionNumber).toBe(2);
+    expect(resubmissionService.resubmitOrder).toHaveBeenCalledWith(
+      'order-123',
+      { imageUrls: ['https://example.com/new-rx.jpg'], medications: undefined, note: 'Clearer photo' },
+      { actor: 'patient', requestedBy: 'test-user-123' }
+    );
+  });
+
+  it('should reject new photos uploaded by someone else', async () => {
+    const response = await request(app)
+      .post('/api/orders/order-123/resubmit')
+      .send({ imageUrls: ['gs://pharmarx-prescriptions/prescriptions/other-user/rx.jpg'] })
+      .expect(400);
+
+    expect(response.body.error).toBe('Prescription images must be files you uploaded');
+    expect(resubmissionService.resubmitOrder).not.toHaveBeenCalled();
+  });
+
+  it('should require a new photo or corrected details', async () => {
+    const response = await request(app)
+      .post('/api/orders/order-123/resubmit')
+      .send({ note: 'Please look again' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Validation failed: Attach a new photo or correct the medication details');
+    expect(resubmissionService.resubmitOrder).not.toHaveBeenCalled();
+  });
+
+  it('should map orders that cannot be resubmitted and missing orders', async () => {
+    const medications = [{ name: 'Amoxicillin', dosage: '500mg', quantity: 21 }];
+
+    vi.mocked(resubmissionService.resubmitOrder).mockRejectedValueOnce(new ResubmissionNotAllowedError({ eligible: false, reason: 'not_rejected' }));
+    await request(app).post('/api/orders/order-123/resubmit').send({ medications }).expect(409);
+
+    vi.mocked(resubmissionService.resubmitOrder).mockResolvedValueOnce(null);
+    await request(app).post('/api/orders/missing/resubmit').send({ medications }).expect(404);
+  });
+});
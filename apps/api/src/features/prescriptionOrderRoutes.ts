@@ -1,21 +1,28 @@
 import { Request, Response, Router } from 'express';
-import { CreatePrescriptionOrderInput, PrescriptionOrder, PrescriptionOrderStatus, ApiResponse, OrderHistoryResponse, OrderHistoryItem } from '@pharmarx/shared-types';
-import { OCRService } from './ocrService';
+import { CreatePrescriptionOrderInput, PrescriptionOrder, PrescriptionOrderStatus, ApiResponse, OrderHistoryResponse, OrderStatusActor, OrderHistoryItem, MedicationDetails, OrderClarificationMessage, ResubmitOrderRequest, UserRole, createLineItem, getOrderLineItems, getOrderRejectionSummary, validateResubmitOrderRequest } from '@pharmarx/shared-types';
+import { ocrService } from './ocrService';
 import { db } from './database';
 import { receiptService } from './receiptService';
-import { verifyAuth } from '../middleware/auth';
+import { orderStatusService, InvalidStatusTransitionError, mapOrderDocument } from './orderStatusService';
+import { refillService, RefillNotEligibleError } from './refillService';
+import { resubmissionService, ResubmissionNotAllowedError } from './resubmissionService';
+import { orderClarificationService, ClarificationNotOpenError } from './orderClarificationService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+import { jobQueueService } from './jobQueueService';
+import { verifyAuth, requireOrderAccess, requireProfileAccess } from '../middleware/auth';
 import admin from 'firebase-admin';
 
-// Create a singleton instance for the routes
-const ocrService = new OCRService();
-
 const router = Router();
 
+// Roles that change an order's status directly; pharmacists, couriers and the system
+// go through their own flows, which check pricing, screening, payment and proof of delivery
+const DIRECT_STATUS_CHANGE_ROLES: OrderStatusActor[] = [UserRole.Patient, UserRole.Caregiver, UserRole.Doctor];
+
 /**
  * POST /orders - Create a new prescription order
  * Automatically triggers OCR processing if image URL is provided
  */
-router.post('/orders', verifyAuth, async (req: Request, res: Response) => {
+router.post('/orders', verifyAuth, requireProfileAccess(req => req.body?.patientProfileId, 'order'), async (req: Request, res: Response) => {
   try {
     const orderData: CreatePrescriptionOrderInput = req.body;
 
@@ -34,9 +41,27 @@ router.post('/orders', verifyAuth, async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
-    // Validate image URL for OCR processing
-    const validation = ocrService.validateImageForOCR(orderData.originalImageUrl);
-    if (!validation.isValid) {
+    if (orderData.additionalImageUrls !== undefined && !Array.isArray(orderData.additionalImageUrls)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Additional image URLs must be a list'
+      } as ApiResponse<null>);
+    }
+
+    const additionalImageUrls = orderData.additionalImageUrls || [];
+    const imageUrls = [orderData.originalImageUrl, ...additionalImageUrls];
+    if (imageUrls.some(imageUrl => prescriptionStorageService.isUploadedByAnotherUser(imageUrl, req.user!.uid))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Prescription images must be files you uploaded'
+      } as ApiResponse<null>);
+    }
+
+    // Validate every page's image URL for OCR processing
+    const validation = imageUrls
+      .map(imageUrl => ocrService.validateImageForOCR(imageUrl))
+      .find(result => !result.isValid);
+    if (validation) {
       return res.status(400).json({
         success: false,
         error: `Invalid image for OCR: ${validation.errors.join(', ')}`
@@ -51,8 +76,10 @@ router.post('/orders', verifyAuth, async (req: Request, res: Response) => {
     const prescriptionOrder: PrescriptionOrder = {
       orderId,
       patientProfileId: orderData.patientProfileId,
-      status: orderData.status || 'pending_verification',
+      // Every order starts awaiting verification, whatever the client sent
+      status: 'pending_verification',
       originalImageUrl: orderData.originalImageUrl,
+      ...(additionalImageUrls.length > 0 && { additionalImageUrls }),
       // OCR fields initialized
       ocrStatus: 'pending',
       createdAt: now,
@@ -62,19 +89,28 @@ router.post('/orders', verifyAuth, async (req: Request, res: Response) => {
     // Save order to database
     await db.collection('prescriptionOrders').doc(orderId).set({
       ...prescriptionOrder,
+      statusHistory: orderStatusService.buildInitialStatusHistory(
+        prescriptionOrder.status,
+        req.user!.role || 'patient',
+        req.user!.uid
+      ),
       createdAt: admin.firestore.Timestamp.fromDate(now),
       updatedAt: admin.firestore.Timestamp.fromDate(now)
     });
 
     console.log(`Created prescription order: ${orderId}`);
 
-    // Trigger OCR processing asynchronously
-    triggerOCRProcessing(orderId, orderData.originalImageUrl);
+    // Queue OCR processing so it survives a restart
+    await jobQueueService.enqueue('ocr', {
+      orderId,
+      imageUrl: orderData.originalImageUrl,
+      additionalImageUrls
+    });
 
     // Return created order
     res.status(201).json({
       success: true,
-      data: prescriptionOrder,
+      data: await prescriptionStorageService.withReadUrl(prescriptionOrder),
       message: 'Prescription order created successfully. OCR processing initiated.'
     } as ApiResponse<PrescriptionOrder>);
 
@@ -90,7 +126,7 @@ router.post('/orders', verifyAuth, async (req: Request, res: Response) => {
 /**
  * GET /orders - Get prescription orders for a patient
  */
-router.get('/orders', verifyAuth, async (req: Request, res: Response) => {
+router.get('/orders', verifyAuth, requireProfileAccess(req => req.query.patientId), async (req: Request, res: Response) => {
   try {
     const { patientId } = req.query;
 
@@ -110,15 +146,10 @@ router.get('/orders', verifyAuth, async (req: Request, res: Response) => {
       .orderBy('createdAt', 'desc')
       .get();
 
-    const orders: PrescriptionOrder[] = ordersSnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        ...data,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        ocrProcessedAt: data.ocrProcessedAt?.toDate()
-      } as PrescriptionOrder;
-    });
+    // Prescription images are handed out as short-lived signed URLs
+    const orders: PrescriptionOrder[] = await Promise.all(
+      ordersSnapshot.docs.map(doc => prescriptionStorageService.withReadUrl(mapOrderDocument(doc)))
+    );
 
     res.status(200).json({
       success: true,
@@ -134,10 +165,112 @@ router.get('/orders', verifyAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /orders/history - Get user's order history with pagination
+ * Registered before /orders/:orderId so "history" is not taken for an order ID
+ */
+router.get('/orders/history', verifyAuth, requireProfileAccess(req => req.query.patientId), async (req: Request, res: Response) => {
+  try {
+    const { patientId, page = '1', limit = '10' } = req.query;
+
+    if (!patientId || typeof patientId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Patient ID is required'
+      } as ApiResponse<null>);
+    }
+
+    const pageNum = parseInt(page as string) || 1;
+    const limitNum = Math.min(parseInt(limit as string) || 10, 50); // Max 50 per page
+    const offset = (pageNum - 1) * limitNum;
+
+    console.log(`Fetching order history for patient: ${patientId}, page: ${pageNum}, limit: ${limitNum}`);
+
+    // Get total count
+    const countSnapshot = await db
+      .collection('prescriptionOrders')
+      .where('patientProfileId', '==', patientId)
+      .count()
+      .get();
+
+    const total = countSnapshot.data().count;
+
+    // Query orders with pagination
+    const ordersSnapshot = await db
+      .collection('prescriptionOrders')
+      .where('patientProfileId', '==', patientId)
+      .orderBy('createdAt', 'desc')
+      .limit(limitNum)
+      .offset(offset)
+      .get();
+
+    // Get payment information for receipt availability
+    const orderIds = ordersSnapshot.docs.map(doc => doc.id);
+    const paymentsSnapshot = await db
+      .collection('payments')
+      .where('orderId', 'in', orderIds)
+      .get();
+
+    const paymentsMap = new Map();
+    paymentsSnapshot.docs.forEach(doc => {
+      const payment = doc.data();
+      paymentsMap.set(payment.orderId, payment);
+    });
+
+    const refillEligibility = await refillService.getEligibilityForOrders(ordersSnapshot.docs.map(mapOrderDocument));
+
+    const orders: OrderHistoryItem[] = ordersSnapshot.docs.map(doc => {
+      const data = doc.data();
+      const payment = paymentsMap.get(doc.id);
+      
+      return {
+        orderId: doc.id,
+        status: data.status,
+        medicationDetails: data.medicationDetails,
+        lineItems: getOrderLineItems(data),
+        cost: data.cost || payment?.amount,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        deliveredAt: data.status === 'delivered' ? data.updatedAt?.toDate() : undefined,
+        hasReceipt: !!payment?.receiptId,
+        paymentStatus: payment?.status,
+        refundedAmount: payment?.refundedAmount,
+        refillOfOrderId: data.refillOfOrderId,
+        refill: refillEligibility.get(doc.id),
+        resubmissionOfOrderId: data.resubmissionOfOrderId,
+        versionNumber: data.versionNumber,
+        resubmittedAsOrderId: data.resubmittedAsOrderId,
+        rejection: getOrderRejectionSummary(data as PrescriptionOrder)
+      };
+    });
+
+    const response: OrderHistoryResponse = {
+      orders,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        hasMore: offset + limitNum < total
+      }
+    };
+
+    res.status(200).json({
+      success: true,
+      data: response
+    } as ApiResponse<OrderHistoryResponse>);
+
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while fetching order history'
+    } as ApiResponse<null>);
+  }
+});
+
 /**
  * GET /orders/:orderId - Get a specific prescription order
  */
-router.get('/orders/:orderId', async (req: Request, res: Response) => {
+router.get('/orders/:orderId', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
 
@@ -152,13 +285,7 @@ router.get('/orders/:orderId', async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
-    const data = orderDoc.data();
-    const order: PrescriptionOrder = {
-      ...data,
-      createdAt: data?.createdAt?.toDate() || new Date(),
-      updatedAt: data?.updatedAt?.toDate() || new Date(),
-      ocrProcessedAt: data?.ocrProcessedAt?.toDate()
-    } as PrescriptionOrder;
+    const order = await prescriptionStorageService.withReadUrl(mapOrderDocument(orderDoc));
 
     res.status(200).json({
       success: true,
@@ -177,10 +304,11 @@ router.get('/orders/:orderId', async (req: Request, res: Response) => {
 /**
  * PUT /orders/:orderId/status - Update prescription order status
  */
-router.put('/orders/:orderId/status', async (req: Request, res: Response) => {
+router.put('/orders/:orderId/status', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const { status }: { status: PrescriptionOrderStatus } = req.body;
+    const { status, reason }: { status: PrescriptionOrderStatus; reason?: string } = req.body;
+    const user = req.user!;
 
     if (!status) {
       return res.status(400).json({
@@ -192,11 +320,15 @@ router.put('/orders/:orderId/status', async (req: Request, res: Response) => {
     // Validate status
     const validStatuses: PrescriptionOrderStatus[] = [
       'pending_verification',
+      'awaiting_verification',
+      'needs_clarification',
       'awaiting_payment',
       'preparing',
+      'ready',
       'out_for_delivery',
       'delivered',
-      'rejected'
+      'rejected',
+      'cancelled'
     ];
 
     if (!validStatuses.includes(status)) {
@@ -206,35 +338,30 @@ router.put('/orders/:orderId/status', async (req: Request, res: Response) => {
       } as ApiResponse<null>);
     }
 
+    const actor: OrderStatusActor = user.role || UserRole.Patient;
+    if (!DIRECT_STATUS_CHANGE_ROLES.includes(actor)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Pharmacists and couriers update orders through their own workflows'
+      } as ApiResponse<null>);
+    }
+
     console.log(`Updating order ${orderId} status to: ${status}`);
 
-    // Check if order exists
-    const orderRef = db.collection('prescriptionOrders').doc(orderId);
-    const orderDoc = await orderRef.get();
+    // The state machine decides whether this user may make this move
+    const updatedOrder = await orderStatusService.transitionOrderStatus(orderId, status, {
+      actor,
+      changedBy: user.uid,
+      reason
+    });
 
-    if (!orderDoc.exists) {
+    if (!updatedOrder) {
       return res.status(404).json({
         success: false,
         error: 'Order not found'
       } as ApiResponse<null>);
     }
 
-    // Update order status
-    await orderRef.update({
-      status,
-      updatedAt: admin.firestore.Timestamp.fromDate(new Date())
-    });
-
-    // Fetch updated order
-    const updatedDoc = await orderRef.get();
-    const data = updatedDoc.data();
-    const updatedOrder: PrescriptionOrder = {
-      ...data,
-      createdAt: data?.createdAt?.toDate() || new Date(),
-      updatedAt: data?.updatedAt?.toDate() || new Date(),
-      ocrProcessedAt: data?.ocrProcessedAt?.toDate()
-    } as PrescriptionOrder;
-
     res.status(200).json({
       success: true,
       data: updatedOrder,
@@ -242,6 +369,13 @@ router.put('/orders/:orderId/status', async (req: Request, res: Response) => {
     } as ApiResponse<PrescriptionOrder>);
 
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
     console.error('Error updating prescription order status:', error);
     res.status(500).json({
       success: false,
@@ -253,14 +387,18 @@ router.put('/orders/:orderId/status', async (req: Request, res: Response) => {
 /**
  * PUT /orders/:orderId/ocr-review - Handle OCR review decision
  */
-router.put('/orders/:orderId/ocr-review', async (req: Request, res: Response) => {
+router.put('/orders/:orderId/ocr-review', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const { useOCR, extractedText, medicationDetails }: { 
+    const { useOCR, extractedText, medicationDetails, medications }: { 
       useOCR: boolean; 
       extractedText?: string; 
       medicationDetails?: any; 
+      medications?: MedicationDetails[]; // Every medication on the prescription; medicationDetails is the single-item form
     } = req.body;
+    const confirmedMedications: MedicationDetails[] = Array.isArray(medications) && medications.length > 0
+      ? medications
+      : medicationDetails ? [medicationDetails] : [];
 
     console.log(`OCR review for order: ${orderId}, useOCR: ${useOCR}`);
 
@@ -275,7 +413,8 @@ router.put('/orders/:orderId/ocr-review', async (req: Request, res: Response) =>
       } as ApiResponse<null>);
     }
 
-    const now = new Date();
+    const user = req.user!;
+    let updates: Record<string, unknown>;
 
     // Update order based on user's OCR decision
     if (useOCR) {
@@ -287,45 +426,59 @@ router.put('/orders/:orderId/ocr-review', async (req: Request, res: Response) =>
         } as ApiResponse<null>);
       }
 
-      await orderRef.update({
+      // Without explicit confirmation the medications extracted by OCR are kept as they are
+      const ocrMedications: MedicationDetails[] = confirmedMedications.length > 0
+        ? confirmedMedications
+        : (orderDoc.data()?.extractedMedications || []).map((medication: MedicationDetails) => ({
+          name: medication.name,
+          dosage: medication.dosage,
+          quantity: medication.quantity
+        }));
+
+      updates = {
         extractedText: extractedText.trim(),
-        medicationDetails: medicationDetails || null,
+        lineItems: ocrMedications.map(createLineItem),
+        medicationDetails: ocrMedications[0] || null,
         userVerified: true,
-        userVerificationNotes: 'User confirmed OCR results',
-        status: 'awaiting_payment',
-        updatedAt: admin.firestore.Timestamp.fromDate(now)
-      });
-
-      console.log(`User confirmed OCR results for order: ${orderId}`);
+        userVerificationNotes: 'User confirmed OCR results'
+      };
     } else {
       // User chose to skip OCR and enter manually
-      if (!medicationDetails || !medicationDetails.name || !medicationDetails.dosage || !medicationDetails.quantity) {
+      const incomplete = confirmedMedications.some(medication =>
+        !medication || !medication.name || !medication.dosage || !medication.quantity
+      );
+      if (confirmedMedications.length === 0 || incomplete) {
         return res.status(400).json({
           success: false,
           error: 'Medication details (name, dosage, quantity) are required when skipping OCR'
         } as ApiResponse<null>);
       }
 
-      await orderRef.update({
-        medicationDetails: medicationDetails,
+      updates = {
+        lineItems: confirmedMedications.map(createLineItem),
+        medicationDetails: confirmedMedications[0],
         userVerified: true,
-        userVerificationNotes: 'User entered details manually, skipped OCR',
-        status: 'awaiting_payment',
-        updatedAt: admin.firestore.Timestamp.fromDate(now)
-      });
+        userVerificationNotes: 'User entered details manually, skipped OCR'
+      };
+    }
 
-      console.log(`User skipped OCR and entered details manually for order: ${orderId}`);
+    // Confirmed details go to the pharmacist queue before any payment is taken
+    const updatedOrder = await orderStatusService.transitionOrderStatus(orderId, 'awaiting_verification', {
+      actor: user.role || 'patient',
+      changedBy: user.uid,
+      updates
+    });
+
+    if (!updatedOrder) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
     }
 
-    // Fetch updated order
-    const updatedDoc = await orderRef.get();
-    const data = updatedDoc.data();
-    const updatedOrder: PrescriptionOrder = {
-      ...data,
-      createdAt: data?.createdAt?.toDate() || new Date(),
-      updatedAt: data?.updatedAt?.toDate() || new Date(),
-      ocrProcessedAt: data?.ocrProcessedAt?.toDate()
-    } as PrescriptionOrder;
+    console.log(useOCR
+      ? `User confirmed OCR results for order: ${orderId}`
+      : `User skipped OCR and entered details manually for order: ${orderId}`);
 
     res.status(200).json({
       success: true,
@@ -334,6 +487,13 @@ router.put('/orders/:orderId/ocr-review', async (req: Request, res: Response) =>
     } as ApiResponse<PrescriptionOrder>);
 
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
     console.error('Error during OCR review:', error);
     res.status(500).json({
       success: false,
@@ -342,10 +502,195 @@ router.put('/orders/:orderId/ocr-review', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * POST /orders/:orderId/refill - Request a refill of a delivered order
+ * Creates a new order for pharmacist verification, linked to the original prescription
+ */
+router.post('/orders/:orderId/refill', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const user = req.user!;
+
+    const refillOrder = await refillService.requestRefill(orderId, {
+      actor: user.role || 'patient',
+      requestedBy: user.uid
+    });
+
+    if (!refillOrder) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: refillOrder,
+      message: 'Refill requested successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    if (error instanceof RefillNotEligibleError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error requesting refill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while requesting refill'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /orders/:orderId/resubmit - Send a fixed version of a rejected order
+ * New photos are read by OCR again; corrected details alone go straight to the pharmacist
+ */
+router.post('/orders/:orderId/resubmit', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { imageUrls, medications, note }: ResubmitOrderRequest = req.body;
+    const user = req.user!;
+
+    const errors = validateResubmitOrderRequest({ imageUrls, medications, note });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation failed: ${errors.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    if ((imageUrls || []).some(imageUrl => prescriptionStorageService.isUploadedByAnotherUser(imageUrl, user.uid))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Prescription images must be files you uploaded'
+      } as ApiResponse<null>);
+    }
+
+    // Validate every new page's image URL for OCR processing
+    const validation = (imageUrls || [])
+      .map(imageUrl => ocrService.validateImageForOCR(imageUrl))
+      .find(result => !result.isValid);
+    if (validation) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid image for OCR: ${validation.errors.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const version = await resubmissionService.resubmitOrder(orderId, { imageUrls, medications, note }, {
+      actor: user.role || 'patient',
+      requestedBy: user.uid
+    });
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: await prescriptionStorageService.withReadUrl(version),
+      message: 'Order resubmitted successfully'
+    } as ApiResponse<PrescriptionOrder>);
+
+  } catch (error) {
+    if (error instanceof ResubmissionNotAllowedError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error resubmitting order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while resubmitting order'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * GET /orders/:orderId/clarification - The pharmacist's questions and the replies, oldest first
+ */
+router.get('/orders/:orderId/clarification', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
+  try {
+    const messages = await orderClarificationService.getThread(req.params.orderId);
+
+    res.json({
+      success: true,
+      data: messages
+    } as ApiResponse<OrderClarificationMessage[]>);
+
+  } catch (error) {
+    console.error('Error getting clarification thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while getting clarification thread'
+    } as ApiResponse<null>);
+  }
+});
+
+/**
+ * POST /orders/:orderId/clarification/messages - Answer the pharmacist with text or an extra photo
+ */
+router.post('/orders/:orderId/clarification/messages', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { text, imageUrl } = req.body;
+    const user = req.user!;
+
+    const message = await orderClarificationService.postMessage(orderId, {
+      role: user.role === UserRole.Pharmacist ? 'pharmacist' : 'patient',
+      uid: user.uid,
+      displayName: user.displayName
+    }, { text, imageUrl });
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      } as ApiResponse<null>);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: message,
+      message: 'Reply sent to the pharmacist'
+    } as ApiResponse<OrderClarificationMessage>);
+
+  } catch (error) {
+    if (error instanceof ClarificationNotOpenError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    if (error instanceof Error && error.message.startsWith('Validation failed')) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error posting clarification reply:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while posting clarification reply'
+    } as ApiResponse<null>);
+  }
+});
+
 /**
  * PUT /orders/:orderId/manual-text - Manually enter text as fallback when OCR fails
  */
-router.put('/orders/:orderId/manual-text', async (req: Request, res: Response) => {
+router.put('/orders/:orderId/manual-text', verifyAuth, requireOrderAccess('orderId', 'order'), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     const { extractedText }: { extractedText: string } = req.body;
@@ -420,123 +765,10 @@ router.put('/orders/:orderId/manual-text', async (req: Request, res: Response) =
   }
 });
 
-/**
- * Async function to trigger OCR processing for new orders
- */
-async function triggerOCRProcessing(orderId: string, imageUrl: string): Promise<void> {
-  try {
-    console.log(`Triggering OCR processing for new order: ${orderId}`);
-    
-    // Update order status to processing
-    const orderRef = db.collection('prescriptionOrders').doc(orderId);
-    await orderRef.update({
-      ocrStatus: 'processing',
-      updatedAt: admin.firestore.Timestamp.fromDate(new Date())
-    });
-
-    // Use shared OCR processing logic with Firestore timestamp support
-    const ocrRequest = { orderId, imageUrl };
-    await ocrService.processImageAndUpdateOrder(ocrRequest, orderRef, true);
-    
-  } catch (error) {
-    console.error(`Unexpected error during OCR processing setup for new order: ${orderId}`, error);
-  }
-}
-
-/**
- * GET /orders/history - Get user's order history with pagination
- */
-router.get('/orders/history', async (req: Request, res: Response) => {
-  try {
-    const { patientId, page = '1', limit = '10' } = req.query;
-
-    if (!patientId || typeof patientId !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'Patient ID is required'
-      } as ApiResponse<null>);
-    }
-
-    const pageNum = parseInt(page as string) || 1;
-    const limitNum = Math.min(parseInt(limit as string) || 10, 50); // Max 50 per page
-    const offset = (pageNum - 1) * limitNum;
-
-    console.log(`Fetching order history for patient: ${patientId}, page: ${pageNum}, limit: ${limitNum}`);
-
-    // Get total count
-    const countSnapshot = await db
-      .collection('prescriptionOrders')
-      .where('patientProfileId', '==', patientId)
-      .count()
-      .get();
-
-    const total = countSnapshot.data().count;
-
-    // Query orders with pagination
-    const ordersSnapshot = await db
-      .collection('prescriptionOrders')
-      .where('patientProfileId', '==', patientId)
-      .orderBy('createdAt', 'desc')
-      .limit(limitNum)
-      .offset(offset)
-      .get();
-
-    // Get payment information for receipt availability
-    const orderIds = ordersSnapshot.docs.map(doc => doc.id);
-    const paymentsSnapshot = await db
-      .collection('payments')
-      .where('orderId', 'in', orderIds)
-      .get();
-
-    const paymentsMap = new Map();
-    paymentsSnapshot.docs.forEach(doc => {
-      const payment = doc.data();
-      paymentsMap.set(payment.orderId, payment);
-    });
-
-    const orders: OrderHistoryItem[] = ordersSnapshot.docs.map(doc => {
-      const data = doc.data();
-      const payment = paymentsMap.get(doc.id);
-      
-      return {
-        orderId: doc.id,
-        status: data.status,
-        medicationDetails: data.medicationDetails,
-        cost: data.cost || payment?.amount,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        deliveredAt: data.status === 'delivered' ? data.updatedAt?.toDate() : undefined,
-        hasReceipt: !!payment?.receiptId
-      };
-    });
-
-    const response: OrderHistoryResponse = {
-      orders,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total,
-        hasMore: offset + limitNum < total
-      }
-    };
-
-    res.status(200).json({
-      success: true,
-      data: response
-    } as ApiResponse<OrderHistoryResponse>);
-
-  } catch (error) {
-    console.error('Error fetching order history:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error while fetching order history'
-    } as ApiResponse<null>);
-  }
-});
-
 /**
  * GET /orders/:orderId/receipt - Download receipt for a completed order
  */
-router.get('/orders/:orderId/receipt', async (req: Request, res: Response) => {
+router.get('/orders/:orderId/receipt', verifyAuth, requireOrderAccess(), async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     const { patientId } = req.query;
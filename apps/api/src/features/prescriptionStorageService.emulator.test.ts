@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import admin from 'firebase-admin';
+import { PrescriptionStorageService, PRESCRIPTION_BUCKET } from './prescriptionStorageService';
+
+// Runs against the Storage emulator: start it with `firebase emulators:start --only storage`
+// and set FIREBASE_STORAGE_EMULATOR_HOST (localhost:9199 in the dev container)
+const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+
+const segment = (marker: number, payload: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// A phone photo with the location it was taken in its EXIF
+const jpegWithExif = Buffer.concat([
+  Buffer.from([0xff, 0xd8]),
+  segment(0xe0, Buffer.from('JFIF\0')),
+  segment(0xe1, Buffer.from('Exif\0\0GPS 6.3703N 2.3912E')),
+  Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9])
+]);
+
+describe.skipIf(!emulatorHost)('PrescriptionStorageService against the Storage emulator', () => {
+  const service = new PrescriptionStorageService();
+
+  beforeAll(() => {
+    // Signed URLs are signed locally, so any key will do; the emulator does not check it
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' }
+    });
+    admin.initializeApp({
+      projectId: 'demo-pharmarx',
+      credential: admin.credential.cert({
+        projectId: 'demo-pharmarx',
+        clientEmail: 'prescription-storage@demo-pharmarx.iam.gserviceaccount.com',
+        privateKey
+      })
+    });
+  });
+
+  afterAll(async () => {
+    await admin.app().delete();
+  });
+
+  it('stores the cleaned upload privately under the uploader\'s folder', async () => {
+    const stored = await service.uploadPrescription('patient-uid', {
+      buffer: jpegWithExif,
+      originalName: 'ordonnance.jpg',
+      mimeType: 'image/jpeg'
+    });
+
+    expect(stored.url).toMatch(new RegExp(`^gs://${PRESCRIPTION_BUCKET}/prescriptions/patient-uid/[\\w-]+\\.jpg$`));
+    expect(stored.signedUrl).toContain('X-Goog-Signature=');
+
+    const file = admin.storage().bucket(PRESCRIPTION_BUCKET).file(stored.url.slice(`gs://${PRESCRIPTION_BUCKET}/`.length));
+    const [contents] = await file.download();
+    const [metadata] = await file.getMetadata();
+
+    expect(contents.includes(Buffer.from('GPS'))).toBe(false);
+    expect(contents.length).toBe(stored.size);
+    expect(metadata.contentType).toBe('image/jpeg');
+    expect(metadata.cacheControl).toBe('private, no-store');
+    expect(metadata.metadata).toEqual({ uploadedBy: 'patient-uid' });
+  });
+
+  it('tells other users the upload is not theirs', async () => {
+    const stored = await service.uploadPrescription('patient-uid', {
+      buffer: jpegWithExif,
+      originalName: 'ordonnance.jpg',
+      mimeType: 'image/jpeg'
+    });
+
+    expect(service.isUploadedByAnotherUser(stored.url, 'patient-uid')).toBe(false);
+    expect(service.isUploadedByAnotherUser(stored.url, 'other-uid')).toBe(true);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PrescriptionStorageService,
+  InvalidPrescriptionFileError,
+  PRESCRIPTION_BUCKET,
+  detectContentType,
+  stripImageMetadata
+} from './prescriptionStorageService';
+
+const { mockSave, mockGetSignedUrl, mockFile, mockBucket } = vi.hoisted(() => {
+  const mockSave = vi.fn();
+  const mockGetSignedUrl = vi.fn();
+  const mockFile = vi.fn<(path: string) => unknown>(() => ({ save: mockSave, getSignedUrl: mockGetSignedUrl }));
+  return { mockSave, mockGetSignedUrl, mockFile, mockBucket: vi.fn(() => ({ file: mockFile })) };
+});
+
+// Mock Firebase Admin storage
+vi.mock('firebase-admin', () => ({
+  default: {
+    storage: () => ({ bucket: mockBucket })
+  }
+}));
+
+const segment = (marker: number, payload: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+const chunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+};
+
+const JFIF = segment(0xe0, Buffer.from('JFIF\0'));
+const EXIF = segment(0xe1, Buffer.from('Exif\0\0GPS 6.3703N 2.3912E'));
+const SCAN = Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+
+// A photo straight off a phone, with the location it was taken in its EXIF
+const jpegWithExif = Buffer.concat([Buffer.from([0xff, 0xd8]), JFIF, EXIF, SCAN]);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const IHDR = chunk('IHDR', Buffer.alloc(13));
+const IDAT = chunk('IDAT', Buffer.from([1, 2, 3]));
+const IEND = chunk('IEND', Buffer.alloc(0));
+const pngWithMetadata = Buffer.concat([
+  PNG_SIGNATURE,
+  IHDR,
+  chunk('eXIf', Buffer.from('GPS')),
+  chunk('tEXt', Buffer.from('Comment\0Kossi Agbo')),
+  IDAT,
+  IEND
+]);
+
+const pdf = Buffer.from('%PDF-1.7\n%âãÏÓ\n');
+
+describe('detectContentType', () => {
+  it('reads the type from the file content', () => {
+    expect(detectContentType(jpegWithExif)).toBe('image/jpeg');
+    expect(detectContentType(pngWithMetadata)).toBe('image/png');
+    expect(detectContentType(pdf)).toBe('application/pdf');
+  });
+
+  it('returns null for other content', () => {
+    expect(detectContentType(Buffer.from('<html></html>'))).toBeNull();
+    expect(detectContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('stripImageMetadata', () => {
+  it('removes EXIF from JPEGs and keeps the image data', () => {
+    const stripped = stripImageMetadata(jpegWithExif, 'image/jpeg');
+
+    expect(stripped).toEqual(Buffer.concat([Buffer.from([0xff, 0xd8]), JFIF, SCAN]));
+    expect(stripped.includes(Buffer.from('GPS'))).toBe(false);
+  });
+
+  it('removes metadata chunks from PNGs', () => {
+    const stripped = stripImageMetadata(pngWithMetadata, 'image/png');
+
+    expect(stripped).toEqual(Buffer.concat([PNG_SIGNATURE, IHDR, IDAT, IEND]));
+  });
+
+  it('leaves PDFs as they are', () => {
+    expect(stripImageMetadata(pdf, 'application/pdf')).toBe(pdf);
+  });
+});
+
+describe('PrescriptionStorageService', () => {
+  let service: PrescriptionStorageService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSave.mockResolvedValue(undefined);
+    mockGetSignedUrl.mockResolvedValue(['https://storage.example.com/signed?X-Goog-Signature=abc']);
+    service = new PrescriptionStorageService();
+  });
+
+  describe('uploadPrescription', () => {
+    it('stores the cleaned file privately and returns its path with a signed URL', async () => {
+      const stored = await service.uploadPrescription('patient-uid', {
+        buffer: jpegWithExif,
+        originalName: 'IMG_0042.jpeg',
+        mimeType: 'image/jpeg'
+      });
+
+      expect(mockBucket).toHaveBeenCalledWith(PRESCRIPTION_BUCKET);
+      const path = mockFile.mock.calls[0][0];
+      expect(path).toMatch(/^prescriptions\/patient-uid\/[0-9a-f-]{36}\.jpg$/);
+      expect(mockSave).toHaveBeenCalledWith(
+        stripImageMetadata(jpegWithExif, 'image/jpeg'),
+        expect.objectContaining({ contentType: 'image/jpeg', resumable: false })
+      );
+      expect(mockGetSignedUrl).toHaveBeenCalledWith(expect.objectContaining({ version: 'v4', action: 'read' }));
+      expect(stored).toMatchObject({
+        url: `gs://${PRESCRIPTION_BUCKET}/${path}`,
+        signedUrl: 'https://storage.example.com/signed?X-Goog-Signature=abc',
+        contentType: 'image/jpeg',
+        size: jpegWithExif.length - EXIF.length
+      });
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects files that fail the shared validation', async () => {
+      await expect(service.uploadPrescription('patient-uid', {
+        buffer: Buffer.from('hello'),
+        originalName: 'notes.txt',
+        mimeType: 'text/plain'
+      })).rejects.toThrow('File must be an image (JPG, PNG) or PDF');
+      expect(mockSave).not.toHaveBeenCalled();
+    });
+
+    it('rejects files whose content is not what they claim to be', async () => {
+      await expect(service.uploadPrescription('patient-uid', {
+        buffer: Buffer.from('MZ\x90\x00 not an image'),
+        originalName: 'prescription.png',
+        mimeType: 'image/png'
+      })).rejects.toThrow(InvalidPrescriptionFileError);
+
+      await expect(service.uploadPrescription('patient-uid', {
+        buffer: pdf,
+        originalName: 'prescription.jpg',
+        mimeType: 'image/jpeg'
+      })).rejects.toThrow('File content does not match its file type');
+      expect(mockSave).not.toHaveBeenCalled();
+    });
+
+    it('accepts image/jpg as a JPEG', async () => {
+      await service.uploadPrescription('patient-uid', {
+        buffer: jpegWithExif,
+        originalName: 'scan.jpg',
+        mimeType: 'image/jpg'
+      });
+
+      expect(mockSave).toHaveBeenCalled();
+    });
+  });
+
+  describe('storeInboundPhoto', () => {
+    it('stores a cleaned photo apart from app uploads', async () => {
+      const url = await service.storeInboundPhoto('whatsapp', jpegWithExif);
+
+      const path = mockFile.mock.calls[0][0];
+      expect(path).toMatch(/^inbound\/whatsapp\/[0-9a-f-]{36}\.jpg$/);
+      expect(url).toBe(`gs://${PRESCRIPTION_BUCKET}/${path}`);
+      expect(mockSave).toHaveBeenCalledWith(
+        stripImageMetadata(jpegWithExif, 'image/jpeg'),
+        expect.objectContaining({ contentType: 'image/jpeg' })
+      );
+      expect(service.isUploadedByAnotherUser(url, 'patient-uid')).toBe(true);
+    });
+
+    it('rejects anything that is not a JPG, PNG or PDF', async () => {
+      await expect(service.storeInboundPhoto('sms', Buffer.from('<html></html>')))
+        .rejects.toThrow(InvalidPrescriptionFileError);
+      expect(mockSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReadUrl', () => {
+    it('signs files in the private bucket', async () => {
+      const url = await service.getReadUrl(`gs://${PRESCRIPTION_BUCKET}/prescriptions/patient-uid/a.png`);
+
+      expect(url).toBe('https://storage.example.com/signed?X-Goog-Signature=abc');
+      expect(mockFile).toHaveBeenCalledWith('prescriptions/patient-uid/a.png');
+    });
+
+    it('returns other URLs unchanged', async () => {
+      expect(await service.getReadUrl('https://example.com/rx.jpg')).toBe('https://example.com/rx.jpg');
+      expect(mockGetSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isUploadedByAnotherUser', () => {
+    it('only treats files under the user\'s own folder as theirs', () => {
+      expect(service.isUploadedByAnotherUser(`gs://${PRESCRIPTION_BUCKET}/prescriptions/patient-uid/a.png`, 'patient-uid')).toBe(false);
+      expect(service.isUploadedByAnotherUser(`gs://${PRESCRIPTION_BUCKET}/prescriptions/other-uid/a.png`, 'patient-uid')).toBe(true);
+      expect(service.isUploadedByAnotherUser(`gs://${PRESCRIPTION_BUCKET}/prescriptions/patient-uid-2/a.png`, 'patient-uid')).toBe(true);
+      expect(service.isUploadedByAnotherUser(`gs://${PRESCRIPTION_BUCKET}/prescriptions/patient-uid/a.png`, undefined)).toBe(true);
+    });
+
+    it('leaves older public URLs alone', () => {
+      expect(service.isUploadedByAnotherUser('https://example.com/rx.jpg', 'patient-uid')).toBe(false);
+    });
+  });
+
+  describe('withReadUrl', () => {
+    it('swaps the order image for a signed URL', async () => {
+      const order = { orderId: 'order-1', originalImageUrl: `gs://${PRESCRIPTION_BUCKET}/prescriptions/p/a.jpg` };
+
+      expect(await service.withReadUrl(order)).toEqual({
+        orderId: 'order-1',
+        originalImageUrl: 'https://storage.example.com/signed?X-Goog-Signature=abc'
+      });
+      expect(order.originalImageUrl).toBe(`gs://${PRESCRIPTION_BUCKET}/prescriptions/p/a.jpg`);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto';
+import { ClarificationNotificationChannel, validatePrescriptionFile } from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+
+// Prescriptions are medical records: the bucket is private and files are only
+// ever handed out through short-lived signed URLs. Locally and in tests the
+// Firebase Storage emulator (FIREBASE_STORAGE_EMULATOR_HOST) stands in for it.
+export const PRESCRIPTION_BUCKET = process.env.PRESCRIPTION_STORAGE_BUCKET || 'pharmarx-prescriptions';
+export const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+export type PrescriptionContentType = 'image/jpeg' | 'image/png' | 'application/pdf';
+
+export interface PrescriptionFileInput {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+}
+
+export interface StoredPrescriptionFile {
+  url: string; // gs:// path, saved on the order as originalImageUrl
+  signedUrl: string; // For previewing the upload straight away
+  expiresAt: Date;
+  contentType: PrescriptionContentType;
+  size: number;
+}
+
+/**
+ * Raised when an uploaded file is not an acceptable prescription.
+ * Routes translate this into a 400 Bad Request.
+ */
+export class InvalidPrescriptionFileError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'InvalidPrescriptionFileError';
+  }
+}
+
+const FILE_EXTENSIONS: Record<PrescriptionContentType, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'application/pdf': '.pdf'
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// APP1 holds EXIF (including GPS) and XMP, APP13 holds IPTC
+const JPEG_METADATA_MARKERS = [0xe1, 0xed];
+const JPEG_START_OF_SCAN = 0xda;
+
+// eXIf carries EXIF, the text chunks can carry XMP and free-form metadata
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt'];
+
+/**
+ * What a file really is, read from its first bytes rather than the name or
+ * declared type. Returns null for anything other than JPG, PNG or PDF.
+ */
+export const detectContentType = (buffer: Buffer): PrescriptionContentType | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= PNG_SIGNATURE.length && buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+};
+
+const stripJpegMetadata = (buffer: Buffer): Buffer => {
+  const kept: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset += 1;
+      continue;
+    }
+    if (marker === JPEG_START_OF_SCAN) {
+      break;
+    }
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (!JPEG_METADATA_MARKERS.includes(marker)) {
+      kept.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(buffer.subarray(offset));
+  return Buffer.concat(kept);
+};
+
+const stripPngMetadata = (buffer: Buffer): Buffer => {
+  const kept: Buffer[] = [buffer.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= buffer.length) {
+    // Length, type, data and CRC
+    const end = offset + 12 + buffer.readUInt32BE(offset);
+    const type = buffer.subarray(offset + 4, offset + 8).toString('latin1');
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      kept.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(buffer.subarray(offset));
+  return Buffer.concat(kept);
+};
+
+/**
+ * Remove EXIF, GPS and other embedded metadata from a photo of a prescription.
+ * The image data itself is copied unchanged. PDFs are returned as they are.
+ */
+export const stripImageMetadata = (buffer: Buffer, contentType: PrescriptionContentType): Buffer => {
+  switch (contentType) {
+    case 'image/jpeg':
+      return stripJpegMetadata(buffer);
+    case 'image/png':
+      return stripPngMetadata(buffer);
+    default:
+      return buffer;
+  }
+};
+
+export class PrescriptionStorageService {
+  /**
+   * Check, clean and store an uploaded prescription in the private bucket
+   */
+  async uploadPrescription(uid: string, input: PrescriptionFileInput): Promise<StoredPrescriptionFile> {
+    const declaredType = input.mimeType === 'image/jpg' ? 'image/jpeg' : input.mimeType;
+    const validation = validatePrescriptionFile(
+      new File([input.buffer], input.originalName, { type: input.mimeType })
+    );
+    if (!validation.isValid) {
+      throw new InvalidPrescriptionFileError(validation.errors);
+    }
+
+    const contentType = detectContentType(input.buffer);
+    if (!contentType) {
+      throw new InvalidPrescriptionFileError(['File content is not a JPG, PNG or PDF']);
+    }
+    if (contentType !== declaredType) {
+      throw new InvalidPrescriptionFileError(['File content does not match its file type']);
+    }
+
+    const cleaned = stripImageMetadata(input.buffer, contentType);
+    const path = `prescriptions/${uid}/${randomUUID()}${FILE_EXTENSIONS[contentType]}`;
+    await this.saveFile(path, cleaned, contentType, uid);
+
+    const url = `gs://${PRESCRIPTION_BUCKET}/${path}`;
+    const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_MS);
+
+    return {
+      url,
+      signedUrl: await this.signPath(path, expiresAt),
+      expiresAt,
+      contentType,
+      size: cleaned.length
+    };
+  }
+
+  /**
+   * Check, clean and store a photo a patient sent by SMS or WhatsApp. It is kept apart from
+   * app uploads, so no account can attach it to another order. Returns its gs:// path.
+   */
+  async storeInboundPhoto(channel: ClarificationNotificationChannel, buffer: Buffer): Promise<string> {
+    const contentType = detectContentType(buffer);
+    if (!contentType) {
+      throw new InvalidPrescriptionFileError(['File content is not a JPG, PNG or PDF']);
+    }
+
+    const validation = validatePrescriptionFile(
+      new File([buffer], `${channel}${FILE_EXTENSIONS[contentType]}`, { type: contentType })
+    );
+    if (!validation.isValid) {
+      throw new InvalidPrescriptionFileError(validation.errors);
+    }
+
+    const path = `inbound/${channel}/${randomUUID()}${FILE_EXTENSIONS[contentType]}`;
+    await this.saveFile(path, stripImageMetadata(buffer, contentType), contentType, channel);
+
+    return `gs://${PRESCRIPTION_BUCKET}/${path}`;
+  }
+
+  isStoredPrescription(url: string): boolean {
+    return url.startsWith(`gs://${PRESCRIPTION_BUCKET}/`);
+  }
+
+  /**
+   * Whether a stored prescription was uploaded by someone other than uid. Uploads are kept
+   * under their uploader's uid, so one user cannot attach another user's prescription.
+   * Without a uid no stored file is theirs.
+   */
+  isUploadedByAnotherUser(url: string, uid: string | undefined): boolean {
+    return this.isStoredPrescription(url) && (!uid || !url.startsWith(`gs://${PRESCRIPTION_BUCKET}/prescriptions/${uid}/`));
+  }
+
+  /**
+   * A URL that can be fetched for a stored prescription. Files in the private bucket
+   * get a short-lived signed URL; older orders with public URLs are returned as they are.
+   */
+  async getReadUrl(url: string): Promise<string> {
+    if (!this.isStoredPrescription(url)) {
+      return url;
+    }
+
+    const path = url.slice(`gs://${PRESCRIPTION_BUCKET}/`.length);
+    return this.signPath(path, new Date(Date.now() + SIGNED_URL_TTL_MS));
+  }
+
+  /**
+   * Copy of an order with its prescription images swapped for signed URLs, for API responses
+   */
+  async withReadUrl<T extends { originalImageUrl: string; additionalImageUrls?: string[] }>(order: T): Promise<T> {
+    if (!order.originalImageUrl) {
+      return order;
+    }
+
+    const signed = { ...order, originalImageUrl: await this.getReadUrl(order.originalImageUrl) };
+    if (order.additionalImageUrls?.length) {
+      signed.additionalImageUrls = await Promise.all(order.additionalImageUrls.map(url => this.getReadUrl(url)));
+    }
+    return signed;
+  }
+
+  private async saveFile(path: string, buffer: Buffer, contentType: PrescriptionContentType, uploadedBy: string): Promise<void> {
+    await this.getBucket().file(path).save(buffer, {
+      resumable: false,
+      contentType,
+      metadata: {
+        cacheControl: 'private, no-store',
+        metadata: { uploadedBy }
+      }
+    });
+  }
+
+  private async signPath(path: string, expiresAt: Date): Promise<string> {
+    const [signedUrl] = await this.getBucket().file(path).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expiresAt
+    });
+    return signedUrl;
+  }
+
+  private getBucket() {
+    return admin.storage().bucket(PRESCRIPTION_BUCKET);
+  }
+}
+
+export const prescriptionStorageService = new PrescriptionStorageService();
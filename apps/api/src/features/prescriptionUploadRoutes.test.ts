@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import prescriptionUploadRoutes from './prescriptionUploadRoutes';
+import { clearUserCache } from '../middleware/auth';
+import { prescriptionStorageService, InvalidPrescriptionFileError } from './prescriptionStorageService';
+
+const { mockVerifyIdToken } = vi.hoisted(() => ({
+  mockVerifyIdToken: vi.fn()
+}));
+
+// Mock the storage service
+vi.mock('./prescriptionStorageService', () => ({
+  prescriptionStorageService: {
+    uploadPrescription: vi.fn()
+  },
+  InvalidPrescriptionFileError: class InvalidPrescriptionFileError extends Error {
+    constructor(public readonly errors: string[]) {
+      super(errors.join(', '));
+    }
+  }
+}));
+
+// Mock Firebase Admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: () => ({
+        doc: () => ({ get: () => Promise.resolve({ exists: true, data: () => ({ role: UserRole.Patient }) }) })
+      })
+    })
+  }
+}));
+
+describe('Prescription Upload Routes', () => {
+  let app: express.Application;
+
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x02, 0xff, 0xd9]);
+  const stored = {
+    url: 'gs://pharmarx-prescriptions/prescriptions/patient-uid/abc.jpg',
+    signedUrl: 'https://storage.example.com/signed',
+    expiresAt: '2025-01-15T09:15:00.000Z',
+    contentType: 'image/jpeg',
+    size: 8
+  };
+
+  beforeEach(() => {
+    clearUserCache();
+    vi.clearAllMocks();
+
+    app = express();
+    app.use('/api/uploads', prescriptionUploadRoutes);
+
+    mockVerifyIdToken.mockResolvedValue({ uid: 'patient-uid' });
+    vi.mocked(prescriptionStorageService.uploadPrescription).mockResolvedValue(stored as any);
+  });
+
+  it('requires authentication', async () => {
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .attach('prescription', jpeg, { filename: 'rx.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(401);
+    expect(prescriptionStorageService.uploadPrescription).not.toHaveBeenCalled();
+  });
+
+  it('stores the uploaded file for the user', async () => {
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .set('Authorization', 'Bearer valid-token')
+      .attach('prescription', jpeg, { filename: 'rx.jpg', contentType: 'image/jpeg' })
+      .field('timestamp', '1736932500000');
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toEqual(stored);
+    expect(prescriptionStorageService.uploadPrescription).toHaveBeenCalledWith('patient-uid', {
+      buffer: jpeg,
+      originalName: 'rx.jpg',
+      mimeType: 'image/jpeg'
+    });
+  });
+
+  it('requires a file', async () => {
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .set('Authorization', 'Bearer valid-token')
+      .field('timestamp', '1736932500000');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('A prescription file is required');
+  });
+
+  it('rejects files over 10MB before storing them', async () => {
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .set('Authorization', 'Bearer valid-token')
+      .attach('prescription', Buffer.alloc(10 * 1024 * 1024 + 1), { filename: 'rx.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('File size must be less than 10MB');
+    expect(prescriptionStorageService.uploadPrescription).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 with the reasons a file was refused', async () => {
+    vi.mocked(prescriptionStorageService.uploadPrescription).mockRejectedValue(
+      new InvalidPrescriptionFileError(['File content does not match its file type'])
+    );
+
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .set('Authorization', 'Bearer valid-token')
+      .attach('prescription', Buffer.from('%PDF-1.7'), { filename: 'rx.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('File content does not match its file type');
+  });
+
+  it('returns 500 when storage fails', async () => {
+    vi.mocked(prescriptionStorageService.uploadPrescription).mockRejectedValue(new Error('bucket unavailable'));
+
+    const response = await request(app)
+      .post('/api/uploads/prescription')
+      .set('Authorization', 'Bearer valid-token')
+      .attach('prescription', jpeg, { filename: 'rx.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Failed to upload prescription');
+  });
+});
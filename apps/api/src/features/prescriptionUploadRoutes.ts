@@ -0,0 +1,82 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import multer from 'multer';
+import { ApiResponse } from '@pharmarx/shared-types';
+import {
+  prescriptionStorageService,
+  InvalidPrescriptionFileError,
+  StoredPrescriptionFile
+} from './prescriptionStorageService';
+import { verifyAuth } from '../middleware/auth';
+
+const router = Router();
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // Same limit as validatePrescriptionFile
+
+// Files are kept in memory only long enough to check and clean them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+});
+
+// Apply authentication to all upload routes
+router.use(verifyAuth);
+
+/**
+ * Parse the multipart body, answering upload limit errors with a 400
+ */
+const receivePrescriptionFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('prescription')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({
+        success: false,
+        error: error.code === 'LIMIT_FILE_SIZE' ? 'File size must be less than 10MB' : error.message
+      } as ApiResponse<null>);
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+/**
+ * POST /uploads/prescription - Upload a prescription image or PDF to private storage.
+ * The returned url goes on the order; signedUrl can be shown until it expires.
+ */
+router.post('/prescription', receivePrescriptionFile, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'A prescription file is required'
+      } as ApiResponse<null>);
+    }
+
+    const stored = await prescriptionStorageService.uploadPrescription(req.user!.uid, {
+      buffer: req.file.buffer,
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype
+    });
+
+    res.status(201).json({
+      success: true,
+      data: stored,
+      message: 'Prescription uploaded successfully'
+    } as ApiResponse<StoredPrescriptionFile>);
+  } catch (error) {
+    if (error instanceof InvalidPrescriptionFileError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<null>);
+    }
+
+    console.error('Error uploading prescription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload prescription'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
@@ -5,8 +5,9 @@ import { db } from './database';
 import { PatientProfile, CreateProfileRequest, UpdateProfileRequest } from '@pharmarx/shared-types';
 
 // Mock authentication middleware
-vi.mock('../middleware/auth', () => ({
-  authenticateToken: (req: any, res: any, next: any) => {
+vi.mock('../middleware/auth', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../middleware/auth')>(),
+  verifyAuth: (req: any, res: any, next: any) => {
     req.user = { uid: 'test-caregiver-uid', role: 'caregiver' };
     next();
   }
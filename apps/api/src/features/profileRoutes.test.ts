@@ -1,6 +1,7 @@
 import request from 'supertest';
+import express from 'express';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import app from '../index';
+import profileRoutes from './profileRoutes';
 import profileService from './profiles';
 import { PatientProfile, CreateProfileRequest, UpdateProfileRequest } from '@pharmarx/shared-types';
 
@@ -9,13 +10,22 @@ vi.mock('./profiles');
 const mockProfileService = vi.mocked(profileService);
 
 // Mock authentication middleware
-vi.mock('../middleware/auth', () => ({
-  authenticateToken: (req: any, res: any, next: any) => {
+vi.mock('../middleware/auth', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../middleware/auth')>(),
+  verifyAuth: (req: any, res: any, next: any) => {
     req.user = { uid: 'test-caregiver-uid', role: 'caregiver' };
     next();
   }
 }));
 
+// Mounted as in index.ts, without loading every other route module
+const app = express();
+app.use(express.json());
+app.use('/api/profiles', profileRoutes);
+
+// Dates arrive as ISO strings in the response body
+const asJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
 describe('Profile Routes', () => {
   const mockProfile: PatientProfile = {
     profileId: 'test-profile-id',
@@ -62,7 +72,7 @@ describe('Profile Routes', () => {
         .expect(201);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(mockProfile);
+      expect(response.body.data).toEqual(asJson(mockProfile));
       expect(mockProfileService.createProfile).toHaveBeenCalledWith('test-caregiver-uid', mockCreateRequest);
     });
 
@@ -116,7 +126,7 @@ describe('Profile Routes', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.profiles).toEqual(mockProfiles);
+      expect(response.body.data.profiles).toEqual(asJson(mockProfiles));
       expect(mockProfileService.getProfilesByCaregiver).toHaveBeenCalledWith('test-caregiver-uid');
     });
 
@@ -151,7 +161,7 @@ describe('Profile Routes', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(mockProfile);
+      expect(response.body.data).toEqual(asJson(mockProfile));
       expect(mockProfileService.getProfileById).toHaveBeenCalledWith('test-profile-id');
     });
 
@@ -180,7 +190,7 @@ describe('Profile Routes', () => {
   describe('PUT /api/profiles/:profileId', () => {
     it('should update profile successfully', async () => {
       const updatedProfile = { ...mockProfile, ...mockUpdateRequest };
-      mockProfileService.updateProfile.mockResolvedValue(updatedProfile);
+      mockProfileService.updateProfile.mockResolvedValue(updatedProfile as PatientProfile);
 
       const response = await request(app)
         .put('/api/profiles/test-profile-id')
@@ -188,7 +198,7 @@ describe('Profile Routes', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(updatedProfile);
+      expect(response.body.data).toEqual(asJson(updatedProfile));
       expect(mockProfileService.updateProfile).toHaveBeenCalledWith('test-profile-id', 'test-caregiver-uid', mockUpdateRequest);
     });
 
@@ -1,10 +1,26 @@
 import { Router, Request, Response } from 'express';
-import { CreateProfileRequest, UpdateProfileRequest } from '@pharmarx/shared-types';
-import profileService from './profiles';
+import {
+  CreateProfileRequest,
+  UpdateProfileRequest,
+  SetActiveProfileRequest,
+  CreateProfileInvitationRequest,
+  UpdateProfileMembershipRequest
+} from '@pharmarx/shared-types';
+import profileService, { ProfileAccessError, ProfileHasOpenOrdersError, ProfileInvitationError } from './profiles';
 import { verifyAuth } from '../middleware/auth';
 
 const router = Router();
 
+const errorStatus = (error: unknown): number => {
+  if (error instanceof ProfileAccessError) {
+    return 403;
+  }
+  if (error instanceof ProfileHasOpenOrdersError || error instanceof ProfileInvitationError) {
+    return 409;
+  }
+  return error instanceof Error && error.message.includes('not found') ? 404 : 400;
+};
+
 /**
  * POST /profiles - Create a new patient profile for caregiver
  */
@@ -26,15 +42,14 @@ router.post('/', verifyAuth, async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Error in POST /profiles:', error);
-    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
+    res.status(errorStatus(error)).json({
       error: error instanceof Error ? error.message : 'Failed to create profile'
     });
   }
 });
 
 /**
- * GET /profiles - Get all profiles managed by authenticated caregiver
+ * GET /profiles - Get all profiles managed by or shared with the authenticated user
  */
 router.get('/', verifyAuth, async (req: Request, res: Response) => {
   try {
@@ -47,12 +62,15 @@ router.get('/', verifyAuth, async (req: Request, res: Response) => {
       });
     }
 
-    const profiles = await profileService.getProfilesByCaregiver(managedByUid);
+    const [profiles, activeProfileId] = await Promise.all([
+      profileService.getProfilesByCaregiver(managedByUid),
+      profileService.getActiveProfileId(managedByUid)
+    ]);
     res.json({
       success: true,
       data: {
         profiles,
-        activeProfileId: undefined
+        activeProfileId
       }
     });
   } catch (error) {
@@ -81,6 +99,78 @@ router.get('/', verifyAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /profiles/active - Switch the profile the user is acting for
+ */
+router.put('/active', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { profileId }: SetActiveProfileRequest = req.body;
+    const managedByUid = req.user!.uid;
+
+    if (!profileId || typeof profileId !== 'string') {
+      return res.status(400).json({
+        error: 'profileId is required'
+      });
+    }
+
+    await profileService.setActiveProfile(managedByUid, profileId);
+    res.json({
+      success: true,
+      data: {
+        activeProfileId: profileId
+      }
+    });
+  } catch (error) {
+    console.error('Error in PUT /profiles/active:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to switch profile'
+    });
+  }
+});
+
+/**
+ * GET /profiles/invitations - Pending invitations sent to the user's verified email or phone number
+ */
+router.get('/invitations', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const invitations = await profileService.getInvitationsForUser(req.user!);
+    res.json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    console.error('Error in GET /profiles/invitations:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to get invitations'
+    });
+  }
+});
+
+const answerInvitation = (accept: boolean) => async (req: Request, res: Response) => {
+  try {
+    const invitation = await profileService.respondToInvitation(req.params.invitationId, req.user!, accept);
+    res.json({
+      success: true,
+      data: invitation
+    });
+  } catch (error) {
+    console.error(`Error in POST /profiles/invitations/:invitationId/${accept ? 'accept' : 'decline'}:`, error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to answer invitation'
+    });
+  }
+};
+
+/**
+ * POST /profiles/invitations/:invitationId/accept - Join the profile with the invited role
+ */
+router.post('/invitations/:invitationId/accept', verifyAuth, answerInvitation(true));
+
+/**
+ * POST /profiles/invitations/:invitationId/decline - Turn the invitation down
+ */
+router.post('/invitations/:invitationId/decline', verifyAuth, answerInvitation(false));
+
 /**
  * GET /profiles/:profileId - Get specific profile by ID
  */
@@ -102,8 +192,8 @@ router.get('/:profileId', verifyAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if profile belongs to the authenticated caregiver
-    if (profile.managedByUid !== managedByUid) {
+    // Check the profile is managed by or shared with the authenticated user
+    if (profile.managedByUid !== managedByUid && !(await profileService.getMembershipRole(profile, managedByUid))) {
       return res.status(403).json({
         error: 'Unauthorized: Profile does not belong to this caregiver'
       });
@@ -136,22 +226,21 @@ router.put('/:profileId', verifyAuth, async (req: Request, res: Response) => {
       });
     }
 
-    const profile = await profileService.updateProfile(profileId, updateData);
+    const profile = await profileService.updateProfile(profileId, managedByUid, updateData);
     res.json({
       success: true,
       data: profile
     });
   } catch (error) {
     console.error('Error in PUT /profiles/:profileId:', error);
-    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
+    res.status(errorStatus(error)).json({
       error: error instanceof Error ? error.message : 'Failed to update profile'
     });
   }
 });
 
 /**
- * DELETE /profiles/:profileId - Remove profile
+ * DELETE /profiles/:profileId - Archive profile, unless it has orders in progress
  */
 router.delete('/:profileId', verifyAuth, async (req: Request, res: Response) => {
   try {
@@ -164,20 +253,168 @@ router.delete('/:profileId', verifyAuth, async (req: Request, res: Response) =>
       });
     }
 
-    await profileService.deleteProfile(profileId);
+    const deleted = await profileService.deleteProfile(profileId, managedByUid);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Profile not found'
+      });
+    }
+
     res.json({
       success: true,
       message: 'Profile deleted successfully'
     });
   } catch (error) {
     console.error('Error in DELETE /profiles/:profileId:', error);
-    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
+    res.status(errorStatus(error)).json({
       error: error instanceof Error ? error.message : 'Failed to delete profile'
     });
   }
 });
 
+/**
+ * GET /profiles/:profileId/exists - Check the profile exists and belongs to the user
+ */
+router.get('/:profileId/exists', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { profileId } = req.params;
+    const exists = await profileService.profileExists(profileId, req.user!.uid);
+
+    res.json({
+      success: true,
+      data: {
+        exists
+      }
+    });
+  } catch (error) {
+    console.error('Error in GET /profiles/:profileId/exists:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to check profile'
+    });
+  }
+});
+
+/**
+ * GET /profiles/:profileId/members - Everyone who can act for the profile
+ */
+router.get('/:profileId/members', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const members = await profileService.getMembers(req.params.profileId, req.user!.uid);
+    res.json({
+      success: true,
+      data: members
+    });
+  } catch (error) {
+    console.error('Error in GET /profiles/:profileId/members:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to get members'
+    });
+  }
+});
+
+/**
+ * PUT /profiles/:profileId/members/:uid - Change a member's role (owner only)
+ */
+router.put('/:profileId/members/:uid', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { profileId, uid } = req.params;
+    const { role }: UpdateProfileMembershipRequest = req.body;
+
+    const member = await profileService.updateMemberRole(profileId, req.user!.uid, uid, role);
+    res.json({
+      success: true,
+      data: member
+    });
+  } catch (error) {
+    console.error('Error in PUT /profiles/:profileId/members/:uid:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to update member'
+    });
+  }
+});
+
+/**
+ * DELETE /profiles/:profileId/members/:uid - Remove a member, or leave a shared profile
+ */
+router.delete('/:profileId/members/:uid', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { profileId, uid } = req.params;
+
+    const removed = await profileService.removeMember(profileId, req.user!.uid, uid);
+    if (!removed) {
+      return res.status(404).json({
+        error: 'Member not found'
+      });
+    }
 
+    res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Error in DELETE /profiles/:profileId/members/:uid:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to remove member'
+    });
+  }
+});
+
+/**
+ * POST /profiles/:profileId/invitations - Invite someone by email or phone number (owner only)
+ */
+router.post('/:profileId/invitations', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const invitationData: CreateProfileInvitationRequest = req.body;
+
+    const invitation = await profileService.createInvitation(req.params.profileId, req.user!, invitationData);
+    res.status(201).json({
+      success: true,
+      data: invitation
+    });
+  } catch (error) {
+    console.error('Error in POST /profiles/:profileId/invitations:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to create invitation'
+    });
+  }
+});
+
+/**
+ * GET /profiles/:profileId/invitations - Pending invitations for the profile (owner only)
+ */
+router.get('/:profileId/invitations', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const invitations = await profileService.getProfileInvitations(req.params.profileId, req.user!.uid);
+    res.json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    console.error('Error in GET /profiles/:profileId/invitations:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to get invitations'
+    });
+  }
+});
+
+/**
+ * DELETE /profiles/:profileId/invitations/:invitationId - Revoke a pending invitation (owner only)
+ */
+router.delete('/:profileId/invitations/:invitationId', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const { profileId, invitationId } = req.params;
+
+    await profileService.revokeInvitation(profileId, req.user!.uid, invitationId);
+    res.json({
+      success: true,
+      message: 'Invitation revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error in DELETE /profiles/:profileId/invitations/:invitationId:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Failed to revoke invitation'
+    });
+  }
+});
 
 export default router;
\ No newline at end of file
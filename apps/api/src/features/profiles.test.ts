@@ -0,0 +1,404 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserRole } from '@pharmarx/shared-types';
+import databaseService from './database';
+import { jobQueueService } from './jobQueueService';
+import profileService, { ProfileAccessError, ProfileHasOpenOrdersError, ProfileInvitationError } from './profiles';
+import { AuthenticatedUser } from '../middleware/auth';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    enqueue: vi.fn()
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      },
+      FieldValue: {
+        delete: vi.fn(() => 'FIELD_DELETE')
+      }
+    }
+  }
+}));
+
+const timestamp = (date: Date) => ({ toDate: () => date });
+
+describe('ProfileService', () => {
+  let collections: Record<string, Record<string, any>>;
+  let nextId: number;
+
+  const makeDoc = (collection: string, id: string) => ({
+    id,
+    exists: !!collections[collection][id],
+    data: () => collections[collection][id]
+  });
+
+  const storeProfile = (profileId: string, data: Record<string, unknown>) => {
+    collections.patientProfiles[profileId] = {
+      patientName: 'Afi Mensah',
+      dateOfBirth: timestamp(new Date('2015-03-02')),
+      createdAt: timestamp(new Date('2024-01-01')),
+      ...data
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    nextId = 1;
+
+    collections = {
+      users: {
+        'caregiver-1': { role: UserRole.Caregiver, displayName: 'Kossi Mensah' },
+        'caregiver-2': { role: UserRole.Caregiver, displayName: 'Ama Dossou' },
+        'pharmacist-1': { role: UserRole.Pharmacist, displayName: 'Awa Diallo' }
+      },
+      patientProfiles: {},
+      prescriptionOrders: {},
+      profileMemberships: {},
+      profileInvitations: {}
+    };
+
+    const mockDb = {
+      collection: vi.fn((name: string) => ({
+        doc: (id: string) => ({
+          get: () => Promise.resolve(makeDoc(name, id)),
+          update: vi.fn((changes: Record<string, unknown>) => {
+            const updated = { ...collections[name][id], ...changes };
+            Object.keys(changes).forEach(key => {
+              if (changes[key] === 'FIELD_DELETE') {
+                delete updated[key];
+              }
+            });
+            collections[name][id] = updated;
+            return Promise.resolve();
+          }),
+          set: vi.fn((data: Record<string, unknown>) => {
+            collections[name][id] = data;
+            return Promise.resolve();
+          }),
+          delete: vi.fn(() => {
+            delete collections[name][id];
+            return Promise.resolve();
+          })
+        }),
+        add: vi.fn((data: Record<string, unknown>) => {
+          const id = `${name === 'profileInvitations' ? 'invitation' : 'profile'}-${nextId++}`;
+          collections[name][id] = data;
+          return Promise.resolve({ id });
+        }),
+        where: (field: string, _op: string, value: unknown) => ({
+          get: () => Promise.resolve({
+            docs: Object.keys(collections[name])
+              .filter(id => collections[name][id][field] === value)
+              .map(id => makeDoc(name, id))
+          })
+        })
+      }))
+    };
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+  });
+
+  describe('createProfile', () => {
+    it('should create a profile managed by the caregiver', async () => {
+      const profile = await profileService.createProfile('caregiver-1', {
+        patientName: ' Afi Mensah ',
+        dateOfBirth: '2015-03-02',
+        allergies: ['Penicillin']
+      });
+
+      expect(profile).toMatchObject({
+        profileId: 'profile-1',
+        managedByUid: 'caregiver-1',
+        patientName: 'Afi Mensah',
+        allergies: ['Penicillin']
+      });
+      expect(profile.dateOfBirth).toEqual(new Date('2015-03-02'));
+      expect(collections.patientProfiles['profile-1'].managedByUid).toBe('caregiver-1');
+    });
+
+    it('should reject invalid profile data', async () => {
+      await expect(profileService.createProfile('caregiver-1', { patientName: '', dateOfBirth: '2015-03-02' }))
+        .rejects.toThrow('Validation failed: patientName is required');
+    });
+
+    it('should reject users who do not manage patients', async () => {
+      await expect(profileService.createProfile('pharmacist-1', { patientName: 'Afi Mensah', dateOfBirth: '2015-03-02' }))
+        .rejects.toThrow(ProfileAccessError);
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(profileService.createProfile('missing-user', { patientName: 'Afi Mensah', dateOfBirth: '2015-03-02' }))
+        .rejects.toThrow('User not found');
+    });
+  });
+
+  describe('getProfilesByCaregiver', () => {
+    it('should list the caregiver\'s own profiles, leaving out archived ones', async () => {
+      storeProfile('profile-b', { managedByUid: 'caregiver-1', createdAt: timestamp(new Date('2024-02-01')) });
+      storeProfile('profile-a', { managedByUid: 'caregiver-1', createdAt: timestamp(new Date('2024-01-01')) });
+      storeProfile('profile-archived', { managedByUid: 'caregiver-1', archivedAt: timestamp(new Date('2024-03-01')) });
+      storeProfile('profile-other', { managedByUid: 'caregiver-2' });
+
+      const profiles = await profileService.getProfilesByCaregiver('caregiver-1');
+
+      expect(profiles.map(profile => profile.profileId)).toEqual(['profile-a', 'profile-b']);
+    });
+
+    it('should include profiles shared with the user, with their role', async () => {
+      storeProfile('profile-own', { managedByUid: 'caregiver-1', createdAt: timestamp(new Date('2024-02-01')) });
+      storeProfile('profile-shared', { managedByUid: 'caregiver-2', createdAt: timestamp(new Date('2024-01-01')) });
+      collections.profileMemberships['profile-shared_caregiver-1'] = {
+        profileId: 'profile-shared',
+        uid: 'caregiver-1',
+        role: 'can_pay'
+      };
+
+      const profiles = await profileService.getProfilesByCaregiver('caregiver-1');
+
+      expect(profiles.map(profile => [profile.profileId, profile.membershipRole])).toEqual([
+        ['profile-shared', 'can_pay'],
+        ['profile-own', 'owner']
+      ]);
+    });
+  });
+
+  describe('updateProfile', () => {
+    beforeEach(() => {
+      storeProfile('profile-1', { managedByUid: 'caregiver-1' });
+    });
+
+    it('should update a profile the caregiver manages', async () => {
+      const profile = await profileService.updateProfile('profile-1', 'caregiver-1', { chronicConditions: ['Asthma'] });
+
+      expect(profile.chronicConditions).toEqual(['Asthma']);
+      expect(collections.patientProfiles['profile-1'].chronicConditions).toEqual(['Asthma']);
+    });
+
+    it('should not let another caregiver update the profile', async () => {
+      await expect(profileService.updateProfile('profile-1', 'caregiver-2', { patientName: 'Someone Else' }))
+        .rejects.toThrow(ProfileAccessError);
+      expect(collections.patientProfiles['profile-1'].patientName).toBe('Afi Mensah');
+    });
+
+    it('should reject an empty name', async () => {
+      await expect(profileService.updateProfile('profile-1', 'caregiver-1', { patientName: ' ' }))
+        .rejects.toThrow('patientName must be a non-empty string when provided');
+    });
+
+    it('should report profiles that do not exist', async () => {
+      await expect(profileService.updateProfile('missing-profile', 'caregiver-1', { patientName: 'Afi' }))
+        .rejects.toThrow('Profile not found');
+    });
+  });
+
+  describe('deleteProfile', () => {
+    beforeEach(() => {
+      storeProfile('profile-1', { managedByUid: 'caregiver-1' });
+    });
+
+    it('should archive the profile and clear it as the active profile', async () => {
+      collections.users['caregiver-1'].activeProfileId = 'profile-1';
+      collections.prescriptionOrders['order-1'] = { patientProfileId: 'profile-1', status: 'delivered' };
+
+      await expect(profileService.deleteProfile('profile-1', 'caregiver-1')).resolves.toBe(true);
+
+      expect(collections.patientProfiles['profile-1'].archivedAt).toBeDefined();
+      expect(collections.users['caregiver-1'].activeProfileId).toBeUndefined();
+      await expect(profileService.getProfileById('profile-1')).resolves.toBeNull();
+    });
+
+    it('should block while the profile has orders in progress', async () => {
+      collections.prescriptionOrders['order-1'] = { patientProfileId: 'profile-1', status: 'preparing' };
+      collections.prescriptionOrders['order-2'] = { patientProfileId: 'profile-1', status: 'cancelled' };
+
+      const error = await profileService.deleteProfile('profile-1', 'caregiver-1').catch(err => err);
+
+      expect(error).toBeInstanceOf(ProfileHasOpenOrdersError);
+      expect(error.orderIds).toEqual(['order-1']);
+      expect(collections.patientProfiles['profile-1'].archivedAt).toBeUndefined();
+    });
+
+    it('should not let another caregiver delete the profile', async () => {
+      await expect(profileService.deleteProfile('profile-1', 'caregiver-2')).rejects.toThrow(ProfileAccessError);
+      expect(collections.patientProfiles['profile-1'].archivedAt).toBeUndefined();
+    });
+
+    it('should return false for profiles that do not exist', async () => {
+      await expect(profileService.deleteProfile('missing-profile', 'caregiver-1')).resolves.toBe(false);
+    });
+  });
+
+  describe('active profile', () => {
+    beforeEach(() => {
+      storeProfile('profile-1', { managedByUid: 'caregiver-1' });
+      storeProfile('profile-2', { managedByUid: 'caregiver-2' });
+    });
+
+    it('should switch to a profile the user manages', async () => {
+      await profileService.setActiveProfile('caregiver-1', 'profile-1');
+
+      await expect(profileService.getActiveProfileId('caregiver-1')).resolves.toBe('profile-1');
+    });
+
+    it('should not switch to another family\'s profile', async () => {
+      await expect(profileService.setActiveProfile('caregiver-1', 'profile-2')).rejects.toThrow(ProfileAccessError);
+    });
+
+    it('should ignore a stored active profile the user no longer manages', async () => {
+      collections.users['caregiver-1'].activeProfileId = 'profile-2';
+
+      await expect(profileService.getActiveProfileId('caregiver-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('members', () => {
+    beforeEach(() => {
+      storeProfile('profile-1', { managedByUid: 'caregiver-1' });
+      collections.profileMemberships['profile-1_caregiver-2'] = {
+        profileId: 'profile-1',
+        uid: 'caregiver-2',
+        role: 'view_only',
+        addedBy: 'caregiver-1',
+        createdAt: timestamp(new Date('2024-02-01'))
+      };
+    });
+
+    it('should list the owner first, then the members', async () => {
+      const members = await profileService.getMembers('profile-1', 'caregiver-2');
+
+      expect(members.map(member => [member.uid, member.role])).toEqual([
+        ['caregiver-1', 'owner'],
+        ['caregiver-2', 'view_only']
+      ]);
+      expect(members[0].displayName).toBe('Kossi Mensah');
+    });
+
+    it('should let the owner change a member\'s role', async () => {
+      const member = await profileService.updateMemberRole('profile-1', 'caregiver-1', 'caregiver-2', 'can_order');
+
+      expect(member.role).toBe('can_order');
+      expect(collections.profileMemberships['profile-1_caregiver-2'].role).toBe('can_order');
+    });
+
+    it('should keep view-only members from changing the profile or inviting others', async () => {
+      await expect(profileService.updateMemberRole('profile-1', 'caregiver-2', 'caregiver-2', 'can_order'))
+        .rejects.toThrow('Your role on this profile does not allow this');
+      await expect(profileService.updateProfile('profile-1', 'caregiver-2', { patientName: 'Someone Else' }))
+        .rejects.toThrow(ProfileAccessError);
+      await expect(profileService.createInvitation('profile-1', { uid: 'caregiver-2' }, { role: 'can_pay', email: 'nurse@example.com' }))
+        .rejects.toThrow(ProfileAccessError);
+    });
+
+    it('should let members leave and clear the profile as their active one', async () => {
+      collections.users['caregiver-2'].activeProfileId = 'profile-1';
+
+      await expect(profileService.removeMember('profile-1', 'caregiver-2', 'caregiver-2')).resolves.toBe(true);
+
+      expect(collections.profileMemberships['profile-1_caregiver-2']).toBeUndefined();
+      expect(collections.users['caregiver-2'].activeProfileId).toBeUndefined();
+      await expect(profileService.profileExists('profile-1', 'caregiver-2')).resolves.toBe(false);
+    });
+  });
+
+  describe('invitations', () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const storeInvitation = (invitationId: string, data: Record<string, unknown>) => {
+      collections.profileInvitations[invitationId] = {
+        profileId: 'profile-1',
+        patientName: 'Afi Mensah',
+        role: 'can_pay',
+        invitedBy: 'caregiver-1',
+        status: 'pending',
+        createdAt: timestamp(new Date('2024-02-01')),
+        expiresAt: timestamp(future),
+        ...data
+      };
+    };
+
+    beforeEach(() => {
+      storeProfile('profile-1', { managedByUid: 'caregiver-1' });
+    });
+
+    it('should invite by phone number and send the invitation by SMS', async () => {
+      const invitation = await profileService.createInvitation(
+        'profile-1',
+        { uid: 'caregiver-1', displayName: 'Kossi Mensah' },
+        { role: 'can_order', phoneNumber: '+229 97 00 00 00' }
+      );
+
+      expect(invitation).toMatchObject({
+        invitationId: 'invitation-1',
+        phoneNumber: '+22997000000',
+        role: 'can_order',
+        status: 'pending'
+      });
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('send_message', expect.objectContaining({
+        channel: 'sms',
+        recipientPhone: '+22997000000'
+      }));
+    });
+
+    it('should make the invitee a member when they accept', async () => {
+      storeInvitation('invitation-1', { email: 'ama@example.com' });
+
+      const invitation = await profileService.respondToInvitation(
+        'invitation-1',
+        { uid: 'caregiver-2', verifiedEmail: 'Ama@Example.com' },
+        true
+      );
+
+      expect(invitation.status).toBe('accepted');
+      expect(collections.profileMemberships['profile-1_caregiver-2']).toMatchObject({ role: 'can_pay', addedBy: 'caregiver-1' });
+      await expect(profileService.profileExists('profile-1', 'caregiver-2')).resolves.toBe(true);
+    });
+
+    it('should not add a member when the invitation is declined', async () => {
+      storeInvitation('invitation-1', { email: 'ama@example.com' });
+
+      await profileService.respondToInvitation('invitation-1', { uid: 'caregiver-2', verifiedEmail: 'ama@example.com' }, false);
+
+      expect(collections.profileInvitations['invitation-1'].status).toBe('declined');
+      expect(collections.profileMemberships['profile-1_caregiver-2']).toBeUndefined();
+    });
+
+    it('should hide invitations sent to someone else', async () => {
+      storeInvitation('invitation-1', { email: 'ama@example.com' });
+
+      await expect(profileService.respondToInvitation('invitation-1', { uid: 'caregiver-2', verifiedEmail: 'other@example.com' }, true))
+        .rejects.toThrow('Invitation not found');
+    });
+
+    it('should not match the email a user registered with', async () => {
+      storeInvitation('invitation-1', { email: 'ama@example.com' });
+      // Anyone can register with someone else's email; only the token's verified email counts
+      const user: AuthenticatedUser = { uid: 'caregiver-2', email: 'ama@example.com', role: UserRole.Caregiver };
+
+      await expect(profileService.respondToInvitation('invitation-1', user, true))
+        .rejects.toThrow('Invitation not found');
+      await expect(profileService.getInvitationsForUser(user)).resolves.toEqual([]);
+      expect(collections.profileMemberships['profile-1_caregiver-2']).toBeUndefined();
+    });
+
+    it('should reject expired or answered invitations', async () => {
+      storeInvitation('invitation-1', { email: 'ama@example.com', expiresAt: timestamp(new Date('2024-01-01')) });
+      storeInvitation('invitation-2', { email: 'ama@example.com', status: 'revoked' });
+
+      await expect(profileService.respondToInvitation('invitation-1', { uid: 'caregiver-2', verifiedEmail: 'ama@example.com' }, true))
+        .rejects.toThrow('Invitation has expired');
+      await expect(profileService.respondToInvitation('invitation-2', { uid: 'caregiver-2', verifiedEmail: 'ama@example.com' }, true))
+        .rejects.toThrow(ProfileInvitationError);
+    });
+  });
+});
@@ -0,0 +1,607 @@
+import {
+  PatientProfile,
+  CreateProfileRequest,
+  UpdateProfileRequest,
+  CreateProfileInvitationRequest,
+  PrescriptionOrderStatus,
+  ProfileAction,
+  ProfileInvitation,
+  ProfileMembership,
+  ProfileMembershipRole,
+  PROFILE_INVITATION_VALIDITY_DAYS,
+  UserRole,
+  canPerformProfileAction,
+  getAllowedNextStatuses,
+  getProfileMembershipId,
+  validateCreateProfileInvitationRequest,
+  validateCreateProfileRequest,
+  validateProfileMembershipRequest,
+  validateUpdateProfileRequest
+} from '@pharmarx/shared-types';
+import databaseService from './database';
+import { jobQueueService } from './jobQueueService';
+import admin from 'firebase-admin';
+
+// Roles that manage patient profiles: patients for themselves, caregivers for their dependants
+const PROFILE_MANAGER_ROLES: UserRole[] = [UserRole.Patient, UserRole.Caregiver];
+
+/**
+ * Raised when a user reads or changes a profile they are not a member of, or that their
+ * membership role does not allow. Routes translate this into a 403 Forbidden.
+ */
+export class ProfileAccessError extends Error {
+  constructor(message = 'Unauthorized: Profile does not belong to this caregiver') {
+    super(message);
+    this.name = 'ProfileAccessError';
+  }
+}
+
+/**
+ * Raised when a profile is deleted while it still has orders in progress.
+ * Routes translate this into a 409 Conflict.
+ */
+export class ProfileHasOpenOrdersError extends Error {
+  constructor(public readonly orderIds: string[]) {
+    super('Cannot delete profile while it has orders in progress');
+    this.name = 'ProfileHasOpenOrdersError';
+  }
+}
+
+/**
+ * Raised when an invitation cannot be answered: it was answered already, has expired,
+ * or was sent to another email or phone number. Routes translate this into a 409 Conflict.
+ */
+export class ProfileInvitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileInvitationError';
+  }
+}
+
+// The signed-in user answering an invitation. Invitations are matched only on identity
+// Firebase has verified, never on the email the user registered with.
+export interface ProfileInvitee {
+  uid: string;
+  verifiedEmail?: string;
+  phoneNumber?: string;
+  displayName?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeEmail = (email?: string): string | undefined => email?.trim().toLowerCase() || undefined;
+
+// Invitations typed as "+229 97 00 00 00" match the E.164 numbers on Firebase accounts
+const normalizePhoneNumber = (phoneNumber?: string): string | undefined =>
+  phoneNumber?.replace(/[^\d+]/g, '') || undefined;
+
+// An order is open while the status state machine still allows it to move on
+const isOpenOrderStatus = (status: PrescriptionOrderStatus): boolean =>
+  getAllowedNextStatuses(status).length > 0;
+
+const mapProfileDocument = (doc: admin.firestore.DocumentSnapshot): PatientProfile => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    profileId: doc.id,
+    dateOfBirth: data.dateOfBirth?.toDate(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate(),
+    archivedAt: data.archivedAt?.toDate()
+  } as PatientProfile;
+};
+
+const mapInvitationDocument = (doc: admin.firestore.DocumentSnapshot): ProfileInvitation => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    invitationId: doc.id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    expiresAt: data.expiresAt?.toDate(),
+    respondedAt: data.respondedAt?.toDate()
+  } as ProfileInvitation;
+};
+
+export class ProfileService {
+  private static instance: ProfileService;
+
+  private constructor() {}
+
+  public static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  private get db() {
+    return databaseService.getDb();
+  }
+
+  /**
+   * Create a profile managed by the user, who must be a registered patient or caregiver
+   */
+  async createProfile(managedByUid: string, profileData: CreateProfileRequest): Promise<PatientProfile> {
+    const validation = validateCreateProfileRequest(profileData);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const userDoc = await this.db.collection('users').doc(managedByUid).get();
+    if (!userDoc.exists) {
+      throw new Error('User not found');
+    }
+    if (!PROFILE_MANAGER_ROLES.includes(userDoc.data()?.role)) {
+      throw new ProfileAccessError('Only patients and caregivers can manage patient profiles');
+    }
+
+    const now = new Date();
+    const dateOfBirth = new Date(profileData.dateOfBirth);
+    const profile: Omit<PatientProfile, 'profileId'> = {
+      managedByUid,
+      patientName: profileData.patientName.trim(),
+      dateOfBirth,
+      ...(profileData.insuranceDetails && { insuranceDetails: profileData.insuranceDetails }),
+      ...(profileData.allergies && { allergies: profileData.allergies }),
+      ...(profileData.chronicConditions && { chronicConditions: profileData.chronicConditions }),
+      createdAt: now
+    };
+
+    const profileRef = await this.db.collection('patientProfiles').add({
+      ...profile,
+      dateOfBirth: admin.firestore.Timestamp.fromDate(dateOfBirth),
+      createdAt: admin.firestore.Timestamp.fromDate(now)
+    });
+
+    return { ...profile, profileId: profileRef.id };
+  }
+
+  /**
+   * Profiles the user manages or that are shared with them, oldest first, each with the
+   * user's membershipRole. Archived profiles are left out.
+   */
+  async getProfilesByCaregiver(uid: string): Promise<PatientProfile[]> {
+    const [owned, memberships] = await Promise.all([
+      this.db.collection('patientProfiles').where('managedByUid', '==', uid).get(),
+      this.db.collection('profileMemberships').where('uid', '==', uid).get()
+    ]);
+
+    const sharedDocs = await Promise.all(
+      memberships.docs.map(doc => this.db.collection('patientProfiles').doc(doc.data().profileId).get())
+    );
+    const shared: PatientProfile[] = [];
+    sharedDocs.forEach((doc, index) => {
+      if (doc.exists) {
+        shared.push({ ...mapProfileDocument(doc), membershipRole: memberships.docs[index].data().role as ProfileMembershipRole });
+      }
+    });
+
+    return [
+      ...owned.docs.map(doc => ({ ...mapProfileDocument(doc), membershipRole: 'owner' as const })),
+      ...shared
+    ]
+      .filter(profile => !profile.archivedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * A profile by id, or null when it does not exist or has been archived.
+   * Callers check the user's role with getMembershipRole before returning it.
+   */
+  async getProfileById(profileId: string): Promise<PatientProfile | null> {
+    const profileDoc = await this.db.collection('patientProfiles').doc(profileId).get();
+    if (!profileDoc.exists) {
+      return null;
+    }
+
+    const profile = mapProfileDocument(profileDoc);
+    return profile.archivedAt ? null : profile;
+  }
+
+  async updateProfile(profileId: string, managedByUid: string, updateData: UpdateProfileRequest): Promise<PatientProfile> {
+    const validation = validateUpdateProfileRequest(updateData);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const existing = await this.getOwnedProfile(profileId, managedByUid);
+    if (!existing) {
+      throw new Error('Profile not found');
+    }
+
+    const now = new Date();
+    const changes: Partial<PatientProfile> = {
+      ...(updateData.patientName !== undefined && { patientName: updateData.patientName.trim() }),
+      ...(updateData.dateOfBirth !== undefined && { dateOfBirth: new Date(updateData.dateOfBirth) }),
+      ...(updateData.insuranceDetails !== undefined && { insuranceDetails: updateData.insuranceDetails }),
+      ...(updateData.allergies !== undefined && { allergies: updateData.allergies }),
+      ...(updateData.chronicConditions !== undefined && { chronicConditions: updateData.chronicConditions })
+    };
+
+    await this.db.collection('patientProfiles').doc(profileId).update({
+      ...changes,
+      ...(changes.dateOfBirth && { dateOfBirth: admin.firestore.Timestamp.fromDate(changes.dateOfBirth) }),
+      updatedAt: admin.firestore.Timestamp.fromDate(now)
+    });
+
+    return { ...existing, ...changes, updatedAt: now };
+  }
+
+  /**
+   * Archive a profile so it no longer appears for its manager, keeping it for the history
+   * of its orders. Blocked while any of its orders is still in progress.
+   * Returns false when the profile does not exist.
+   */
+  async deleteProfile(profileId: string, managedByUid: string): Promise<boolean> {
+    const existing = await this.getOwnedProfile(profileId, managedByUid);
+    if (!existing) {
+      return false;
+    }
+
+    const orders = await this.db.collection('prescriptionOrders')
+      .where('patientProfileId', '==', profileId)
+      .get();
+    const openOrderIds = orders.docs
+      .filter(doc => isOpenOrderStatus(doc.data().status))
+      .map(doc => doc.id);
+    if (openOrderIds.length > 0) {
+      throw new ProfileHasOpenOrdersError(openOrderIds);
+    }
+
+    const now = admin.firestore.Timestamp.fromDate(new Date());
+    await this.db.collection('patientProfiles').doc(profileId).update({
+      archivedAt: now,
+      updatedAt: now
+    });
+
+    // Forget the archived profile if it was the manager's active one
+    const userRef = this.db.collection('users').doc(managedByUid);
+    const userDoc = await userRef.get();
+    if (userDoc.exists && userDoc.data()?.activeProfileId === profileId) {
+      await userRef.update({ activeProfileId: admin.firestore.FieldValue.delete() });
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether the profile exists and the user manages it or is a member of it
+   */
+  async profileExists(profileId: string, uid: string): Promise<boolean> {
+    const profile = await this.getProfileById(profileId);
+    return profile !== null && (await this.getMembershipRole(profile, uid)) !== null;
+  }
+
+  /**
+   * The user's role for the profile: owner when they manage it, their membership role, or null
+   */
+  async getMembershipRole(profile: PatientProfile, uid: string): Promise<ProfileMembershipRole | null> {
+    if (profile.managedByUid === uid) {
+      return 'owner';
+    }
+
+    const membershipDoc = await this.membershipRef(profile.profileId, uid).get();
+    return membershipDoc.exists ? membershipDoc.data()?.role : null;
+  }
+
+  /**
+   * The profile the user last switched to, if it is still one of theirs
+   */
+  async getActiveProfileId(uid: string): Promise<string | undefined> {
+    const userDoc = await this.db.collection('users').doc(uid).get();
+    const activeProfileId: string | undefined = userDoc.exists ? userDoc.data()?.activeProfileId : undefined;
+    if (!activeProfileId) {
+      return undefined;
+    }
+
+    return (await this.profileExists(activeProfileId, uid)) ? activeProfileId : undefined;
+  }
+
+  /**
+   * Switch the user's active profile to one they manage or that is shared with them
+   */
+  async setActiveProfile(uid: string, profileId: string): Promise<void> {
+    await this.getProfileForAction(profileId, uid, 'view');
+
+    await this.db.collection('users').doc(uid).update({ activeProfileId: profileId });
+  }
+
+  /**
+   * Everyone who can act for the profile, the owner first
+   */
+  async getMembers(profileId: string, uid: string): Promise<ProfileMembership[]> {
+    const profile = await this.getProfileForAction(profileId, uid, 'view');
+
+    const [ownerDoc, memberships] = await Promise.all([
+      this.db.collection('users').doc(profile.managedByUid).get(),
+      this.db.collection('profileMemberships').where('profileId', '==', profileId).get()
+    ]);
+
+    const owner: ProfileMembership = {
+      profileId,
+      uid: profile.managedByUid,
+      role: 'owner',
+      displayName: ownerDoc.exists ? ownerDoc.data()?.displayName : undefined,
+      addedBy: profile.managedByUid,
+      createdAt: profile.createdAt
+    };
+
+    return [
+      owner,
+      ...memberships.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          createdAt: data.createdAt?.toDate(),
+          updatedAt: data.updatedAt?.toDate()
+        } as ProfileMembership;
+      })
+    ];
+  }
+
+  /**
+   * Change what a member may do. Only the owner can change roles.
+   */
+  async updateMemberRole(
+    profileId: string,
+    uid: string,
+    memberUid: string,
+    role: Exclude<ProfileMembershipRole, 'owner'>
+  ): Promise<ProfileMembership> {
+    const errors = validateProfileMembershipRequest({ role });
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    await this.getProfileForAction(profileId, uid, 'manage');
+
+    const membershipRef = this.membershipRef(profileId, memberUid);
+    const membershipDoc = await membershipRef.get();
+    if (!membershipDoc.exists) {
+      throw new Error('Member not found');
+    }
+
+    const now = new Date();
+    await membershipRef.update({ role, updatedAt: admin.firestore.Timestamp.fromDate(now) });
+
+    const data = membershipDoc.data()!;
+    return { ...data, role, createdAt: data.createdAt?.toDate(), updatedAt: now } as ProfileMembership;
+  }
+
+  /**
+   * Remove a member from the profile. The owner can remove anyone; members can leave.
+   * Returns false when the user was not a member.
+   */
+  async removeMember(profileId: string, uid: string, memberUid: string): Promise<boolean> {
+    await this.getProfileForAction(profileId, uid, memberUid === uid ? 'view' : 'manage');
+
+    const membershipRef = this.membershipRef(profileId, memberUid);
+    const membershipDoc = await membershipRef.get();
+    if (!membershipDoc.exists) {
+      return false;
+    }
+
+    await membershipRef.delete();
+
+    const userRef = this.db.collection('users').doc(memberUid);
+    const userDoc = await userRef.get();
+    if (userDoc.exists && userDoc.data()?.activeProfileId === profileId) {
+      await userRef.update({ activeProfileId: admin.firestore.FieldValue.delete() });
+    }
+
+    return true;
+  }
+
+  /**
+   * Invite someone by email or phone number to share the profile. Only the owner can invite.
+   * Invitations by phone are also sent by SMS.
+   */
+  async createInvitation(
+    profileId: string,
+    invitedBy: ProfileInvitee,
+    request: CreateProfileInvitationRequest
+  ): Promise<ProfileInvitation> {
+    const errors = validateCreateProfileInvitationRequest(request);
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    const profile = await this.getProfileForAction(profileId, invitedBy.uid, 'manage');
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PROFILE_INVITATION_VALIDITY_DAYS * DAY_MS);
+    const email = normalizeEmail(request.email);
+    const phoneNumber = normalizePhoneNumber(request.phoneNumber);
+    const invitation: Omit<ProfileInvitation, 'invitationId'> = {
+      profileId,
+      patientName: profile.patientName,
+      role: request.role,
+      ...(email && { email }),
+      ...(phoneNumber && { phoneNumber }),
+      invitedBy: invitedBy.uid,
+      ...(invitedBy.displayName && { invitedByName: invitedBy.displayName }),
+      status: 'pending',
+      createdAt: now,
+      expiresAt
+    };
+
+    const invitationRef = await this.db.collection('profileInvitations').add({
+      ...invitation,
+      createdAt: admin.firestore.Timestamp.fromDate(now),
+      expiresAt: admin.firestore.Timestamp.fromDate(expiresAt)
+    });
+
+    if (phoneNumber) {
+      // The invitation stands even if the SMS cannot be queued; it shows up when they sign in
+      try {
+        await jobQueueService.enqueue('send_message', {
+          channel: 'sms',
+          recipientPhone: phoneNumber,
+          message: `PharmaRx: ${invitedBy.displayName || 'A family member'} invited you to help care for ${profile.patientName}. ` +
+            'Sign in with this phone number to accept.'
+        });
+      } catch (error) {
+        console.error(`Error queueing invitation SMS for profile ${profileId}:`, error);
+      }
+    }
+
+    return { ...invitation, invitationId: invitationRef.id };
+  }
+
+  /**
+   * Pending invitations for a profile. Only the owner can see them.
+   */
+  async getProfileInvitations(profileId: string, uid: string): Promise<ProfileInvitation[]> {
+    await this.getProfileForAction(profileId, uid, 'manage');
+
+    const snapshot = await this.db.collection('profileInvitations').where('profileId', '==', profileId).get();
+    return snapshot.docs
+      .map(mapInvitationDocument)
+      .filter(invitation => invitation.status === 'pending' && invitation.expiresAt > new Date());
+  }
+
+  /**
+   * Withdraw a pending invitation. Only the owner can revoke.
+   */
+  async revokeInvitation(profileId: string, uid: string, invitationId: string): Promise<void> {
+    await this.getProfileForAction(profileId, uid, 'manage');
+
+    const invitationRef = this.db.collection('profileInvitations').doc(invitationId);
+    const invitationDoc = await invitationRef.get();
+    if (!invitationDoc.exists || invitationDoc.data()?.profileId !== profileId) {
+      throw new Error('Invitation not found');
+    }
+    if (invitationDoc.data()?.status !== 'pending') {
+      throw new ProfileInvitationError('Invitation has already been answered');
+    }
+
+    await invitationRef.update({
+      status: 'revoked',
+      respondedAt: admin.firestore.Timestamp.fromDate(new Date())
+    });
+  }
+
+  /**
+   * Pending invitations sent to the user's verified email or phone number
+   */
+  async getInvitationsForUser(invitee: ProfileInvitee): Promise<ProfileInvitation[]> {
+    const email = normalizeEmail(invitee.verifiedEmail);
+    const phoneNumber = normalizePhoneNumber(invitee.phoneNumber);
+    const invitations = this.db.collection('profileInvitations');
+
+    const snapshots = await Promise.all([
+      email ? invitations.where('email', '==', email).get() : null,
+      phoneNumber ? invitations.where('phoneNumber', '==', phoneNumber).get() : null
+    ]);
+
+    const now = new Date();
+    const byId = new Map<string, ProfileInvitation>();
+    snapshots.forEach(snapshot => snapshot?.docs.forEach(doc => {
+      const invitation = mapInvitationDocument(doc);
+      if (invitation.status === 'pending' && invitation.expiresAt > now) {
+        byId.set(invitation.invitationId, invitation);
+      }
+    }));
+
+    return [...byId.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Accept or decline an invitation sent to the user's verified email or phone number.
+   * Accepting makes the user a member with the invited role.
+   */
+  async respondToInvitation(invitationId: string, invitee: ProfileInvitee, accept: boolean): Promise<ProfileInvitation> {
+    const invitationRef = this.db.collection('profileInvitations').doc(invitationId);
+    const invitationDoc = await invitationRef.get();
+    if (!invitationDoc.exists) {
+      throw new Error('Invitation not found');
+    }
+
+    const invitation = mapInvitationDocument(invitationDoc);
+    const sentToInvitee =
+      (!!invitation.email && invitation.email === normalizeEmail(invitee.verifiedEmail)) ||
+      (!!invitation.phoneNumber && invitation.phoneNumber === normalizePhoneNumber(invitee.phoneNumber));
+    if (!sentToInvitee) {
+      // Do not reveal invitations sent to someone else
+      throw new Error('Invitation not found');
+    }
+    if (invitation.status !== 'pending') {
+      throw new ProfileInvitationError('Invitation has already been answered');
+    }
+
+    const now = new Date();
+    if (invitation.expiresAt <= now) {
+      throw new ProfileInvitationError('Invitation has expired');
+    }
+
+    const profile = await this.getProfileById(invitation.profileId);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    const respondedAt = admin.firestore.Timestamp.fromDate(now);
+    // The owner already has every permission
+    if (accept && profile.managedByUid !== invitee.uid) {
+      await this.membershipRef(invitation.profileId, invitee.uid).set({
+        profileId: invitation.profileId,
+        uid: invitee.uid,
+        role: invitation.role,
+        ...(invitee.displayName && { displayName: invitee.displayName }),
+        addedBy: invitation.invitedBy,
+        createdAt: respondedAt
+      });
+    }
+
+    const status = accept ? 'accepted' : 'declined';
+    await invitationRef.update({
+      status,
+      respondedAt,
+      ...(accept && { acceptedByUid: invitee.uid })
+    });
+
+    return {
+      ...invitation,
+      status,
+      respondedAt: now,
+      ...(accept && { acceptedByUid: invitee.uid })
+    };
+  }
+
+  private membershipRef(profileId: string, uid: string) {
+    return this.db.collection('profileMemberships').doc(getProfileMembershipId(profileId, uid));
+  }
+
+  /**
+   * The profile when the user's role allows the action. Throws when it does not exist
+   * or the user may not take the action.
+   */
+  private async getProfileForAction(profileId: string, uid: string, action: ProfileAction): Promise<PatientProfile> {
+    const profile = await this.getProfileById(profileId);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    const role = await this.getMembershipRole(profile, uid);
+    if (!canPerformProfileAction(role, action)) {
+      throw new ProfileAccessError(role
+        ? 'Your role on this profile does not allow this'
+        : 'Unauthorized: Profile does not belong to this caregiver');
+    }
+    return profile;
+  }
+
+  /**
+   * The profile, or null when it does not exist. Throws when another account manages it.
+   */
+  private async getOwnedProfile(profileId: string, managedByUid: string): Promise<PatientProfile | null> {
+    const profile = await this.getProfileById(profileId);
+    if (profile && profile.managedByUid !== managedByUid) {
+      throw new ProfileAccessError();
+    }
+    return profile;
+  }
+}
+
+// Export singleton instance
+export const profileService = ProfileService.getInstance();
+export default profileService;
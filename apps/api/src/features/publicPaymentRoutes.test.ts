@@ -2,26 +2,55 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import publicPaymentRoutes from './publicPaymentRoutes';
-import { PaymentLinkService } from './paymentLinkService';
-import { firestore } from '../config/firebase';
+import { orderStatusService } from './orderStatusService';
+
+const { mockPaymentLinkService, mockFirestore, validation } = vi.hoisted(() => ({
+  mockPaymentLinkService: {
+    getPaymentLinkByToken: vi.fn(),
+    markPaymentLinkAsUsed: vi.fn()
+  },
+  mockFirestore: {
+    collection: vi.fn(),
+    Timestamp: {
+      now: vi.fn(() => ({ seconds: Date.now() / 1000 }))
+    }
+  },
+  // Error the validation middleware answers with, if any
+  validation: { error: undefined as string | undefined }
+}));
 
 // Mock dependencies
-vi.mock('./paymentLinkService');
-vi.mock('../config/firebase');
-
-// Mock validation middleware
-const mockValidateRequest = (req: any, res: any, next: any) => {
-  next();
-};
+vi.mock('./paymentLinkService', () => ({
+  PaymentLinkService: vi.fn(() => mockPaymentLinkService)
+}));
+vi.mock('../config/firebase', () => ({
+  firestore: mockFirestore
+}));
+vi.mock('./orderStatusService', () => ({
+  orderStatusService: {
+    transitionOrderStatus: vi.fn()
+  }
+}));
 
+// Mock validation middleware; the express-validator chains only feed it
 vi.mock('../middleware/validation', () => ({
-  validateRequest: mockValidateRequest
+  validateRequest: (req: any, res: any, next: any) => validation.error
+    ? res.status(400).json({ success: false, error: validation.error })
+    : next()
 }));
 
+vi.mock('express-validator', () => {
+  const chain = (): any => new Proxy((req: any, res: any, next: any) => next(), {
+    get: (target, property) => property in target ? (target as any)[property] : () => chain()
+  });
+  return { param: chain, body: chain };
+});
+
+// Payment links stay valid for a day from now
+const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
 describe('Public Payment Routes Integration Tests', () => {
   let app: express.Application;
-  let mockPaymentLinkService: any;
-  let mockFirestore: any;
 
   beforeEach(() => {
     // Setup Express app with routes
@@ -29,27 +58,15 @@ describe('Public Payment Routes Integration Tests', () => {
     app.use(express.json());
     app.use('/api', publicPaymentRoutes);
 
-    // Setup service mocks
-    mockPaymentLinkService = {
-      getPaymentLinkByToken: vi.fn(),
-      markPaymentLinkAsUsed: vi.fn()
-    };
-
-    mockFirestore = {
-      collection: vi.fn(() => ({
-        doc: vi.fn(() => ({
-          get: vi.fn(),
-          set: vi.fn(),
-          update: vi.fn()
-        }))
-      })),
-      Timestamp: {
-        now: vi.fn(() => ({ seconds: Date.now() / 1000 }))
-      }
-    };
-
-    (PaymentLinkService as any).mockImplementation(() => mockPaymentLinkService);
-    (firestore as any) = mockFirestore;
+    validation.error = undefined;
+    mockFirestore.collection.mockReset();
+    mockFirestore.collection.mockImplementation(() => ({
+      doc: vi.fn(() => ({
+        get: vi.fn(),
+        set: vi.fn(),
+        update: vi.fn()
+      }))
+    }));
   });
 
   afterEach(() => {
@@ -67,7 +84,7 @@ describe('Public Payment Routes Integration Tests', () => {
         recipientPhone: '+22912345678',
         messageType: 'whatsapp',
         isUsed: false,
-        expiresAt: new Date('2024-12-21T12:00:00Z'),
+        expiresAt: tomorrow(),
         createdAt: new Date('2024-12-19T12:00:00Z')
       };
 
@@ -143,7 +160,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: true,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(usedPaymentLink);
@@ -162,7 +179,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: false,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(mockPaymentLink);
@@ -212,7 +229,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: false,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(mockPaymentLink);
@@ -223,11 +240,12 @@ describe('Public Payment Routes Integration Tests', () => {
         exists: true,
         data: () => ({
           cost: 45.50,
+          status: 'awaiting_payment',
           medicationDetails: { name: 'Amoxicillin 500mg' }
         })
       };
 
-      mockFirestore.collection.mockImplementation((collectionName: string) => ({
+      mockFirestore.collection.mockImplementation(() => ({
         doc: vi.fn().mockReturnValue({
           get: vi.fn().mockResolvedValue(mockOrderDoc),
           set: vi.fn().mockResolvedValue(undefined),
@@ -290,7 +308,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: true,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(usedPaymentLink);
@@ -328,17 +346,8 @@ describe('Public Payment Routes Integration Tests', () => {
       ];
 
       for (const invalidRequest of invalidRequests) {
-        // Mock validation middleware to reject invalid requests
-        const mockValidateRequestWithError = (req: any, res: any, next: any) => {
-          return res.status(400).json({
-            success: false,
-            error: 'Validation failed'
-          });
-        };
-
-        vi.doMock('../middleware/validation', () => ({
-          validateRequest: mockValidateRequestWithError
-        }));
+        // Make the validation middleware reject the request
+        validation.error = 'Validation failed';
 
         await request(app)
           .post(`/api/public/pay/${validToken}`)
@@ -353,16 +362,7 @@ describe('Public Payment Routes Integration Tests', () => {
         gateway: 'invalid-gateway'
       };
 
-      const mockValidateRequestWithError = (req: any, res: any, next: any) => {
-        return res.status(400).json({
-          success: false,
-          error: 'Gateway must be stripe, paypal, or mtn'
-        });
-      };
-
-      vi.doMock('../middleware/validation', () => ({
-        validateRequest: mockValidateRequestWithError
-      }));
+      validation.error = 'Gateway must be stripe, paypal, or mtn';
 
       const response = await request(app)
         .post(`/api/public/pay/${validToken}`)
@@ -413,7 +413,7 @@ describe('Public Payment Routes Integration Tests', () => {
           doc: vi.fn().mockReturnValue({
             get: vi.fn().mockResolvedValue({
               exists: true,
-              data: () => ({ cost: 45.50 })
+              data: () => ({ cost: 45.50, status: 'awaiting_payment' })
             }),
             update: vi.fn()
           })
@@ -423,10 +423,31 @@ describe('Public Payment Routes Integration Tests', () => {
       const response = await request(app)
         .post(`/api/public/pay/${validToken}`)
         .send(validPaymentRequest)
-        .expect(500);
+        .expect(400);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.error).toBe('Payment processing failed');
+      expect(mockPaymentLinkService.markPaymentLinkAsUsed).not.toHaveBeenCalled();
+    });
+
+    it.each(['preparing', 'awaiting_verification'])('should refuse to charge for an order that is %s', async status => {
+      const mockPaymentSet = vi.fn().mockResolvedValue(undefined);
+
+      mockFirestore.collection.mockImplementation((collectionName: string) => ({
+        doc: vi.fn().mockReturnValue(collectionName === 'payments'
+          ? { set: mockPaymentSet }
+          : { get: vi.fn().mockResolvedValue({ exists: true, data: () => ({ cost: 45.50, status }) }) })
+      }));
+
+      const response = await request(app)
+        .post(`/api/public/pay/${validToken}`)
+        .send(validPaymentRequest)
+        .expect(409);
+
+      expect(response.body).toEqual({ success: false, error: 'This order is not awaiting payment' });
+      expect(mockPaymentSet).not.toHaveBeenCalled();
+      expect(mockPaymentLinkService.markPaymentLinkAsUsed).not.toHaveBeenCalled();
+      expect(orderStatusService.transitionOrderStatus).not.toHaveBeenCalled();
     });
 
     it('should update order status after successful payment', async () => {
@@ -438,7 +459,7 @@ describe('Public Payment Routes Integration Tests', () => {
             doc: vi.fn().mockReturnValue({
               get: vi.fn().mockResolvedValue({
                 exists: true,
-                data: () => ({ cost: 45.50 })
+                data: () => ({ cost: 45.50, status: 'awaiting_payment' })
               }),
               update: mockOrderUpdate
             })
@@ -456,11 +477,14 @@ describe('Public Payment Routes Integration Tests', () => {
         .send(validPaymentRequest)
         .expect(201);
 
-      expect(mockOrderUpdate).toHaveBeenCalledWith({
-        status: 'preparing',
-        paidAt: expect.any(Object),
-        updatedAt: expect.any(Object)
-      });
+      expect(orderStatusService.transitionOrderStatus).toHaveBeenCalledWith(
+        'order-123',
+        'preparing',
+        expect.objectContaining({
+          actor: 'system',
+          updates: { paidAt: expect.any(Object) }
+        })
+      );
     });
 
     it('should store payment record with audit trail', async () => {
@@ -478,7 +502,7 @@ describe('Public Payment Routes Integration Tests', () => {
           doc: vi.fn().mockReturnValue({
             get: vi.fn().mockResolvedValue({
               exists: true,
-              data: () => ({ cost: 45.50 })
+              data: () => ({ cost: 45.50, status: 'awaiting_payment' })
             }),
             update: vi.fn()
           })
@@ -514,7 +538,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: false,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(mockPaymentLink);
@@ -562,7 +586,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: validToken,
         isUsed: true,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(usedPaymentLink);
@@ -606,16 +630,7 @@ describe('Public Payment Routes Integration Tests', () => {
 
       for (const token of malformedTokens) {
         if (token) {
-          const mockValidateRequestWithError = (req: any, res: any, next: any) => {
-            return res.status(400).json({
-              success: false,
-              error: 'Valid payment token is required'
-            });
-          };
-
-          vi.doMock('../middleware/validation', () => ({
-            validateRequest: mockValidateRequestWithError
-          }));
+          validation.error = 'Valid payment token is required';
         }
 
         const url = token ? `/api/public/pay/${token}` : '/api/public/pay/';
@@ -631,7 +646,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: 'token-123',
         isUsed: true,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(usedPaymentLink);
@@ -655,7 +670,7 @@ describe('Public Payment Routes Integration Tests', () => {
         orderId: 'order-123',
         paymentToken: 'token-123',
         isUsed: false,
-        expiresAt: new Date('2024-12-21T12:00:00Z')
+        expiresAt: tomorrow()
       };
 
       mockPaymentLinkService.getPaymentLinkByToken.mockResolvedValue(validPaymentLink);
@@ -663,7 +678,7 @@ describe('Public Payment Routes Integration Tests', () => {
 
       const mockOrderDoc = {
         exists: true,
-        data: () => ({ cost: 45.50 })
+        data: () => ({ cost: 45.50, status: 'awaiting_payment' })
       };
 
       mockFirestore.collection.mockReturnValue({
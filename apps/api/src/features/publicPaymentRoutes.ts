@@ -1,9 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { validateRequest } from '../middleware/validation';
 import { PaymentLinkService } from './paymentLinkService';
-import { PublicPaymentInfo, PublicPaymentRequest, PublicPaymentResponse, PaymentLinkValidationResult } from '@pharmarx/shared-types';
+import { PublicPaymentInfo, PublicPaymentRequest, PublicPaymentResponse, PaymentLinkValidationResult, PrescriptionOrderStatus, validateOrderStatusTransition } from '@pharmarx/shared-types';
 import { param, body } from 'express-validator';
 import { firestore } from '../config/firebase';
+import { orderStatusService } from './orderStatusService';
 
 const router = Router();
 const paymentLinkService = new PaymentLinkService();
@@ -146,6 +147,16 @@ router.post(
         return;
       }
 
+      // Check the order can still move on once paid, before anyone is charged
+      const transition = validateOrderStatusTransition(orderData?.status as PrescriptionOrderStatus, 'preparing', 'system');
+      if (!transition.allowed) {
+        res.status(409).json({
+          success: false,
+          error: 'This order is not awaiting payment',
+        } as PublicPaymentResponse);
+        return;
+      }
+
       // Process payment using the existing payment service
       const paymentResult = await processThirdPartyPayment({
         orderId: paymentLink.orderId,
@@ -341,12 +352,13 @@ async function processThirdPartyPayment(request: {
 /**
  * Update order status after successful payment
  */
-async function updateOrderStatus(orderId: string, newStatus: string): Promise<void> {
+async function updateOrderStatus(orderId: string, newStatus: PrescriptionOrderStatus): Promise<void> {
   try {
-    await firestore.collection('prescriptionOrders').doc(orderId).update({
-      status: newStatus,
-      paidAt: firestore.Timestamp.now(),
-      updatedAt: firestore.Timestamp.now()
+    await orderStatusService.transitionOrderStatus(orderId, newStatus, {
+      actor: 'system',
+      changedBy: 'system',
+      reason: 'Paid through a shared payment link',
+      updates: { paidAt: firestore.Timestamp.now() }
     });
   } catch (error) {
     console.error('Error updating order status:', error);
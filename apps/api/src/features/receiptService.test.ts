@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { receiptService, BeninReceiptDetails, ReceiptGenerationRequest } from './receiptService';
-import { Payment, PrescriptionOrder } from '@pharmarx/shared-types';
+import { Payment, PaymentRefund, PrescriptionOrder } from '@pharmarx/shared-types';
 import { db } from './database';
 
 // Mock Firebase Admin
@@ -213,6 +213,38 @@ describe('ReceiptService', () => {
       );
     });
 
+    it('should list every billable line item with its share of the subtotal', async () => {
+      const multiLineOrder: PrescriptionOrder = {
+        ...mockOrder,
+        lineItems: [
+          { lineItemId: 'item-1', name: 'Amoxicillin', dosage: '500mg', quantity: 21, unitPrice: 100, lineTotal: 2100, availability: 'in_stock', substitution: { status: 'none' } },
+          {
+            lineItemId: 'item-2',
+            name: 'Paracetamol',
+            dosage: '1g',
+            quantity: 2,
+            unitPrice: 300,
+            lineTotal: 900,
+            availability: 'out_of_stock',
+            substitution: { status: 'accepted', substitute: { name: 'Doliprane', dosage: '1g', quantity: 3 } }
+          },
+          { lineItemId: 'item-3', name: 'Loratadine', dosage: '10mg', quantity: 10, availability: 'out_of_stock', substitution: { status: 'none' } }
+        ]
+      };
+
+      const result = await receiptService.generateReceipt({
+        payment: { ...mockPayment, amount: 3540, currency: 'XOF' },
+        order: multiLineOrder,
+        pharmacyInfo: mockPharmacyInfo
+      });
+
+      expect(result.receiptDetails.subtotalAmount).toBe(3000);
+      expect(result.receiptDetails.medicationDetails).toEqual([
+        { name: 'Amoxicillin', quantity: 21, unitPrice: 100, totalPrice: 2100, prescription: true },
+        { name: 'Doliprane', quantity: 3, unitPrice: 300, totalPrice: 900, prescription: true }
+      ]);
+    });
+
     it('should include French and English legal text', async () => {
       const request: ReceiptGenerationRequest = {
         payment: mockPayment,
@@ -328,6 +360,57 @@ describe('ReceiptService', () => {
     });
   });
 
+  describe('generateCreditNote', () => {
+    const mockRefund: PaymentRefund = {
+      refundId: 'refund-1',
+      paymentId: 'test-payment-1',
+      orderId: 'test-order-1',
+      gateway: 'stripe',
+      amount: 11.8,
+      currency: 'USD',
+      reason: 'Amoxicillin out of stock',
+      status: 'succeeded',
+      gatewayRefundId: 're_test123',
+      createdAt: new Date()
+    };
+
+    it('should issue a numbered facture d\'avoir referencing the original receipt', async () => {
+      const result = await receiptService.generateCreditNote({
+        payment: { ...mockPayment, receiptNumber: 'BJ-2024-000007' } as Payment,
+        refund: mockRefund,
+        pharmacyInfo: mockPharmacyInfo
+      });
+
+      expect(result.creditNoteNumber).toMatch(/^AV-BJ-\d{4}-\d{6}$/);
+      expect(result.pdfBuffer).toBeInstanceOf(Buffer);
+      expect(result.creditNoteDetails).toMatchObject({
+        originalReceiptNumber: 'BJ-2024-000007',
+        originalTransactionId: 'ch_test123',
+        refundId: 'refund-1',
+        reason: 'Amoxicillin out of stock',
+        taxRate: 0.18,
+        currency: 'USD'
+      });
+      expect(result.creditNoteDetails.legalText.french).toContain('BJ-2024-000007');
+    });
+
+    it('should split the refunded amount into subtotal and TVA', async () => {
+      const result = await receiptService.generateCreditNote({
+        payment: mockPayment,
+        refund: { ...mockRefund, amount: 11800, currency: 'XOF' },
+        pharmacyInfo: mockPharmacyInfo
+      });
+
+      expect(result.creditNoteDetails).toMatchObject({
+        subtotalAmount: 10000,
+        taxAmount: 1800,
+        totalAmount: 11800,
+        currency: 'XOF'
+      });
+      expect(result.creditNoteDetails.exchangeRate).toBeUndefined();
+    });
+  });
+
   describe('getReceiptByPaymentId', () => {
     it('should return receipt when found', async () => {
       const mockReceiptData = {
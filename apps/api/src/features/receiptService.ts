@@ -1,5 +1,14 @@
-import { Payment, PaymentGateway, PrescriptionOrder } from '@pharmarx/shared-types';
+import {
+  Payment,
+  PaymentGateway,
+  PaymentRefund,
+  PrescriptionOrder,
+  getOrderLineItems,
+  getDispensedDetails,
+  isLineItemBillable
+} from '@pharmarx/shared-types';
 import { db } from './database';
+import admin from 'firebase-admin';
 import PDFDocument from 'pdfkit';
 import { Readable } from 'stream';
 
@@ -60,8 +69,46 @@ export interface ReceiptGenerationResult {
   receiptDetails: BeninReceiptDetails;
 }
 
+/**
+ * Facture d'avoir: cancels all or part of a facture normalisée when money is refunded
+ */
+export interface BeninCreditNoteDetails {
+  creditNoteNumber: string;
+  issueDate: Date;
+  originalReceiptNumber?: string; // Absent if the original receipt was never generated
+  originalTransactionId: string;
+  refundId: string;
+  reason: string;
+  taxRate: number;
+  taxAmount: number;
+  subtotalAmount: number;
+  totalAmount: number;
+  companyTaxId: string;
+  currency: 'XOF' | 'USD';
+  exchangeRate?: number;
+  legalText: {
+    french: string;
+    english: string;
+  };
+  pharmacyInfo: ReceiptGenerationRequest['pharmacyInfo'];
+}
+
+export interface CreditNoteGenerationRequest {
+  payment: Payment;
+  refund: PaymentRefund;
+  pharmacyInfo: ReceiptGenerationRequest['pharmacyInfo'];
+}
+
+export interface CreditNoteGenerationResult {
+  creditNoteId: string;
+  creditNoteNumber: string;
+  pdfBuffer: Buffer;
+  creditNoteDetails: BeninCreditNoteDetails;
+}
+
 class ReceiptService {
   private readonly receiptsCollection = db.collection('receipts');
+  private readonly creditNotesCollection = db.collection('creditNotes');
   private readonly paymentsCollection = db.collection('payments');
   
   // Tax rate for Benin (TVA - Taxe sur la Valeur Ajoutée)
@@ -132,25 +179,97 @@ class ReceiptService {
     };
   }
 
+  /**
+   * Generate a Benin-compliant credit note (facture d'avoir) for a refund. The amounts
+   * carry the same TVA breakdown as the receipt they correct.
+   */
+  async generateCreditNote(request: CreditNoteGenerationRequest): Promise<CreditNoteGenerationResult> {
+    // Credit notes have their own sequence: AV-BJ-YYYY-NNNNNN
+    const creditNoteNumber = await this.generateCreditNoteNumber();
+    const taxDetails = this.calculateTaxDetails(request.refund.amount, request.refund.currency);
+    const originalReceiptNumber = (request.payment as Payment & { receiptNumber?: string }).receiptNumber;
+
+    const creditNoteDetails: BeninCreditNoteDetails = {
+      creditNoteNumber,
+      issueDate: new Date(),
+      ...(originalReceiptNumber && { originalReceiptNumber }),
+      originalTransactionId: request.payment.transactionId,
+      refundId: request.refund.refundId,
+      reason: request.refund.reason,
+      taxRate: this.BENIN_TAX_RATE,
+      taxAmount: taxDetails.taxAmount,
+      subtotalAmount: taxDetails.subtotalAmount,
+      totalAmount: taxDetails.totalAmount,
+      companyTaxId: request.pharmacyInfo.taxId,
+      currency: request.refund.currency === 'USD' ? 'USD' : 'XOF',
+      exchangeRate: request.refund.currency === 'USD' ? this.USD_TO_XOF_RATE : undefined,
+      legalText: {
+        french: this.getCreditNoteLegalText(originalReceiptNumber),
+        english: this.getCreditNoteLegalTextEnglish(originalReceiptNumber)
+      },
+      pharmacyInfo: request.pharmacyInfo
+    };
+
+    const pdfBuffer = await this.generateCreditNotePDF(creditNoteDetails, request);
+
+    const creditNoteId = this.creditNotesCollection.doc().id;
+    await this.creditNotesCollection.doc(creditNoteId).set({
+      creditNoteId,
+      creditNoteNumber,
+      refundId: request.refund.refundId,
+      paymentId: request.payment.paymentId,
+      orderId: request.payment.orderId,
+      creditNoteDetails,
+      pdfStoragePath: `creditNotes/${creditNoteId}.pdf`,
+      createdAt: new Date(),
+      gateway: request.payment.gateway
+    });
+
+    return {
+      creditNoteId,
+      creditNoteNumber,
+      pdfBuffer,
+      creditNoteDetails
+    };
+  }
+
   /**
    * Generate sequential receipt number
    */
   private async generateReceiptNumber(): Promise<string> {
+    return this.generateSequentialNumber(this.receiptsCollection, 'receiptNumber', 'BJ');
+  }
+
+  /**
+   * Generate sequential credit note number
+   */
+  private async generateCreditNoteNumber(): Promise<string> {
+    return this.generateSequentialNumber(this.creditNotesCollection, 'creditNoteNumber', 'AV-BJ');
+  }
+
+  /**
+   * Next number in a yearly sequence (`<series>-YYYY-NNNNNN`) stored in `field`
+   */
+  private async generateSequentialNumber(
+    collection: admin.firestore.CollectionReference,
+    field: string,
+    series: string
+  ): Promise<string> {
     const currentYear = new Date().getFullYear();
-    const prefix = `BJ-${currentYear}-`;
+    const prefix = `${series}-${currentYear}-`;
     
-    // Get the last receipt number for this year
-    const lastReceiptQuery = await this.receiptsCollection
-      .where('receiptNumber', '>=', prefix)
-      .where('receiptNumber', '<', `BJ-${currentYear + 1}-`)
-      .orderBy('receiptNumber', 'desc')
+    // Get the last number issued this year
+    const lastNumberQuery = await collection
+      .where(field, '>=', prefix)
+      .where(field, '<', `${series}-${currentYear + 1}-`)
+      .orderBy(field, 'desc')
       .limit(1)
       .get();
 
     let nextNumber = 1;
-    if (!lastReceiptQuery.empty) {
-      const lastReceiptNumber = lastReceiptQuery.docs[0].data().receiptNumber;
-      const lastNumber = parseInt(lastReceiptNumber.split('-')[2]);
+    if (!lastNumberQuery.empty) {
+      const lastIssued: string = lastNumberQuery.docs[0].data()[field];
+      const lastNumber = parseInt(lastIssued.slice(prefix.length));
       nextNumber = lastNumber + 1;
     }
 
@@ -179,30 +298,47 @@ class ReceiptService {
       subtotalAmount: Math.round(subtotalAmount * 100) / 100,
       taxAmount: Math.round(taxAmount * 100) / 100,
       totalAmount: Math.round(totalAmount * 100) / 100,
-      unitPrice: Math.round(subtotalAmount * 100) / 100 // For single medication orders
+      unitPrice: Math.round(subtotalAmount * 100) / 100 // Split across line items by extractMedicationDetails
     };
   }
 
   /**
-   * Extract medication details from order
+   * Extract one receipt line per billable order line item, splitting the pre-tax
+   * subtotal in proportion to the pharmacist's line prices
    */
-  private extractMedicationDetails(order: PrescriptionOrder, unitPrice: number): BeninReceiptDetails['medicationDetails'] {
-    if (order.medicationDetails) {
-      return [{
-        name: order.medicationDetails.name,
-        quantity: order.medicationDetails.quantity,
-        unitPrice: unitPrice / order.medicationDetails.quantity,
-        totalPrice: unitPrice,
-        prescription: true
-      }];
+  private extractMedicationDetails(order: PrescriptionOrder, subtotalAmount: number): BeninReceiptDetails['medicationDetails'] {
+    const billableItems = getOrderLineItems(order).filter(isLineItemBillable);
+
+    if (billableItems.length > 0) {
+      const pricedTotal = billableItems.reduce((total, item) => total + (item.lineTotal ?? 0), 0);
+      let remaining = subtotalAmount;
+
+      return billableItems.map((item, index) => {
+        const dispensed = getDispensedDetails(item);
+        // Lines priced before per-line pricing existed share the subtotal evenly
+        const share = pricedTotal > 0 ? (item.lineTotal ?? 0) / pricedTotal : 1 / billableItems.length;
+        // The last line takes the rounding remainder so lines always add up to the subtotal
+        const totalPrice = index === billableItems.length - 1
+          ? Math.round(remaining * 100) / 100
+          : Math.round(subtotalAmount * share * 100) / 100;
+        remaining -= totalPrice;
+
+        return {
+          name: dispensed.name,
+          quantity: dispensed.quantity,
+          unitPrice: dispensed.quantity > 0 ? totalPrice / dispensed.quantity : totalPrice,
+          totalPrice,
+          prescription: true
+        };
+      });
     }
 
     // Fallback for orders without detailed medication info
     return [{
       name: 'Médicament sur ordonnance / Prescription medication',
       quantity: 1,
-      unitPrice: unitPrice,
-      totalPrice: unitPrice,
+      unitPrice: subtotalAmount,
+      totalPrice: subtotalAmount,
       prescription: true
     }];
   }
@@ -231,6 +367,26 @@ Storage: keep out of reach of children, in a dry and cool place.
 In case of adverse effects, consult a healthcare professional immediately.`;
   }
 
+  /**
+   * Get credit note legal text in French
+   */
+  private getCreditNoteLegalText(originalReceiptNumber?: string): string {
+    const original = originalReceiptNumber ? `la facture normalisée N° ${originalReceiptNumber}` : 'la facture normalisée d\'origine';
+    return `Facture d'avoir émise conformément aux dispositions du Code Général des Impôts du Bénin, 
+en annulation totale ou partielle de ${original}. 
+La TVA au taux de ${(this.BENIN_TAX_RATE * 100).toFixed(0)}% est régularisée à concurrence du montant remboursé.`;
+  }
+
+  /**
+   * Get credit note legal text in English
+   */
+  private getCreditNoteLegalTextEnglish(originalReceiptNumber?: string): string {
+    const original = originalReceiptNumber ? `standardized invoice No. ${originalReceiptNumber}` : 'the original standardized invoice';
+    return `Credit note issued in accordance with Benin General Tax Code provisions, 
+cancelling all or part of ${original}. 
+VAT at ${(this.BENIN_TAX_RATE * 100).toFixed(0)}% is adjusted by the refunded amount.`;
+  }
+
   /**
    * Generate PDF receipt
    */
@@ -377,6 +533,106 @@ In case of adverse effects, consult a healthcare professional immediately.`;
     });
   }
 
+  /**
+   * Generate PDF credit note
+   */
+  private async generateCreditNotePDF(
+    creditNoteDetails: BeninCreditNoteDetails,
+    request: CreditNoteGenerationRequest
+  ): Promise<Buffer> {
+    const doc = new PDFDocument({ margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', (buffer) => buffers.push(buffer));
+
+    return new Promise((resolve, reject) => {
+      doc.on('end', () => {
+        resolve(Buffer.concat(buffers));
+      });
+
+      doc.on('error', reject);
+
+      try {
+        // Header - Company Information
+        doc.fontSize(20).font('Helvetica-Bold');
+        doc.text(creditNoteDetails.pharmacyInfo.name, { align: 'center' });
+
+        doc.fontSize(10).font('Helvetica');
+        doc.text(creditNoteDetails.pharmacyInfo.address, { align: 'center' });
+        doc.text(`Tél: ${creditNoteDetails.pharmacyInfo.phone} | Email: ${creditNoteDetails.pharmacyInfo.email}`, { align: 'center' });
+        doc.text(`Licence N°: ${creditNoteDetails.pharmacyInfo.licenseNumber} | NIF: ${creditNoteDetails.pharmacyInfo.taxId}`, { align: 'center' });
+
+        doc.moveDown(2);
+
+        doc.fontSize(16).font('Helvetica-Bold');
+        doc.text('FACTURE D\'AVOIR / CREDIT NOTE', { align: 'center' });
+
+        doc.moveDown(1);
+
+        doc.fontSize(10).font('Helvetica');
+        const startY = doc.y;
+
+        // Left side - Credit note info
+        doc.text(`N° Avoir / Credit Note No: ${creditNoteDetails.creditNoteNumber}`, 50, startY);
+        doc.text(`Date: ${creditNoteDetails.issueDate.toLocaleDateString('fr-FR')}`, 50, startY + 15);
+        doc.text(`Facture d'origine / Original invoice: ${creditNoteDetails.originalReceiptNumber || '-'}`, 50, startY + 30);
+
+        // Right side - Refund info
+        doc.text(`Remboursement via / Refunded via:`, 300, startY);
+        doc.text(this.getPaymentMethodText(request.payment.gateway), 300, startY + 15);
+        doc.text(`Transaction ID: ${creditNoteDetails.originalTransactionId}`, 300, startY + 30);
+
+        doc.moveDown(3);
+
+        doc.fontSize(12).font('Helvetica-Bold');
+        doc.text('MOTIF / REASON', 50);
+        doc.fontSize(10).font('Helvetica');
+        doc.text(creditNoteDetails.reason, { width: 470 });
+
+        doc.moveDown(1);
+
+        // Totals are shown as negative amounts against the original invoice
+        let currentY = doc.y;
+        doc.fontSize(9).font('Helvetica');
+        doc.text('Sous-total HT / Subtotal:', 300, currentY, { width: 130, align: 'right' });
+        doc.text(`-${this.formatCurrency(creditNoteDetails.subtotalAmount, creditNoteDetails.currency)}`, 440, currentY, { width: 80, align: 'right' });
+        currentY += 15;
+
+        doc.text(`TVA ${(creditNoteDetails.taxRate * 100).toFixed(0)}% / VAT:`, 300, currentY, { width: 130, align: 'right' });
+        doc.text(`-${this.formatCurrency(creditNoteDetails.taxAmount, creditNoteDetails.currency)}`, 440, currentY, { width: 80, align: 'right' });
+        currentY += 15;
+
+        doc.font('Helvetica-Bold');
+        doc.text('TOTAL REMBOURSÉ TTC / TOTAL REFUNDED:', 250, currentY, { width: 180, align: 'right' });
+        doc.text(`-${this.formatCurrency(creditNoteDetails.totalAmount, creditNoteDetails.currency)}`, 440, currentY, { width: 80, align: 'right' });
+
+        if (creditNoteDetails.exchangeRate) {
+          currentY += 20;
+          doc.fontSize(8).font('Helvetica');
+          doc.text(`Taux de change / Exchange rate: 1 USD = ${creditNoteDetails.exchangeRate} XOF`, 350, currentY, { width: 170, align: 'right' });
+        }
+
+        doc.moveDown(2);
+
+        // Legal text
+        doc.fontSize(7).font('Helvetica');
+        doc.text('MENTIONS LÉGALES / LEGAL INFORMATION:', 50, doc.y, { underline: true });
+        doc.moveDown(0.5);
+        doc.text(creditNoteDetails.legalText.french, { width: 520, align: 'justify' });
+        doc.moveDown(0.5);
+        doc.text(creditNoteDetails.legalText.english, { width: 520, align: 'justify' });
+
+        doc.moveDown(1);
+        doc.fontSize(7).font('Helvetica');
+        doc.text(`Avoir généré électroniquement le ${new Date().toLocaleString('fr-FR')}`, { align: 'center' });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Format currency for display
    */
@@ -424,6 +680,17 @@ In case of adverse effects, consult a healthcare professional immediately.`;
     return snapshot.empty ? null : snapshot.docs[0].data();
   }
 
+  /**
+   * Get the credit notes issued for a payment
+   */
+  async getCreditNotesByPaymentId(paymentId: string): Promise<any[]> {
+    const snapshot = await this.creditNotesCollection
+      .where('paymentId', '==', paymentId)
+      .get();
+
+    return snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => doc.data());
+  }
+
   /**
    * Generate receipt for existing payment
    */
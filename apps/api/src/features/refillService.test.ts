@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { RefillService, RefillNotEligibleError } from './refillService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      }
+    }
+  }
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const timestamp = (date: Date) => ({ toDate: () => date });
+
+describe('RefillService', () => {
+  let service: RefillService;
+  let storedOrders: Record<string, any>;
+  let mockTransaction: any;
+  let refillRef: any;
+
+  const makeDoc = (id: string) => ({
+    id,
+    exists: !!storedOrders[id],
+    data: () => storedOrders[id]
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    const now = Date.now();
+    storedOrders = {
+      'order-1': {
+        orderId: 'order-1',
+        patientProfileId: 'profile-1',
+        status: 'delivered',
+        originalImageUrl: 'https://example.com/rx.jpg',
+        lineItems: [
+          { lineItemId: 'item-1', name: 'Metformin', dosage: '850mg', quantity: 60, pharmacistEdits: { quantity: 56 }, unitPrice: 25, lineTotal: 1400, availability: 'in_stock', substitution: { status: 'none' } },
+          { lineItemId: 'item-2', name: 'Loratadine', dosage: '10mg', quantity: 10, availability: 'out_of_stock', substitution: { status: 'none' } }
+        ],
+        doctorPrescriptionId: 'rx-1',
+        refillsAuthorized: 3,
+        refillsRemaining: 3,
+        createdAt: timestamp(new Date(now - 40 * DAY))
+      }
+    };
+
+    refillRef = {
+      id: 'refill-1',
+      get: vi.fn(() => Promise.resolve(makeDoc('refill-1')))
+    };
+
+    mockTransaction = {
+      get: vi.fn((ref: any) => Promise.resolve(makeDoc(ref.id))),
+      set: vi.fn((ref: any, data: any) => {
+        storedOrders[ref.id] = data;
+      }),
+      update: vi.fn()
+    };
+
+    const mockDb = {
+      collection: vi.fn((name: string) => ({
+        doc: vi.fn((id?: string) => {
+          if (!id) {
+            return refillRef;
+          }
+          return { id, path: `${name}/${id}`, get: vi.fn(() => Promise.resolve(makeDoc(id))) };
+        })
+      })),
+      runTransaction: vi.fn((callback: (transaction: any) => Promise<unknown>) => callback(mockTransaction))
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+    service = new RefillService();
+  });
+
+  it('should clone the dispensed medications into a new order awaiting verification', async () => {
+    const refill = await service.requestRefill('order-1', { actor: 'patient', requestedBy: 'patient-uid' });
+
+    expect(refill?.orderId).toBe('refill-1');
+    const [, created] = mockTransaction.set.mock.calls[0];
+    expect(created).toMatchObject({
+      patientProfileId: 'profile-1',
+      status: 'awaiting_verification',
+      refillOfOrderId: 'order-1',
+      refillNumber: 1,
+      medicationDetails: { name: 'Metformin', dosage: '850mg', quantity: 56 }
+    });
+    expect(created.lineItems).toEqual([
+      { lineItemId: 'item-1', name: 'Metformin', dosage: '850mg', quantity: 56, availability: 'unknown', substitution: { status: 'none' } }
+    ]);
+    expect(created.statusHistory[0]).toMatchObject({ from: null, actor: 'patient', reason: 'Refill of order order-1' });
+  });
+
+  it('should use up a refill on the original order and the doctor prescription', async () => {
+    await service.requestRefill('order-1', { actor: 'patient', requestedBy: 'patient-uid' });
+
+    const updates = mockTransaction.update.mock.calls.map(([ref, data]: [any, any]) => [ref.path, data]);
+    expect(updates[0][0]).toBe('prescriptionOrders/order-1');
+    expect(updates[0][1]).toMatchObject({ refillsRemaining: 2 });
+    expect(updates[0][1].lastFilledAt).toBeDefined();
+    expect(updates[1]).toEqual(['doctorPrescriptions/rx-1', { 'medicationDetails.refillsRemaining': 2 }]);
+  });
+
+  it('should judge a refill of a refill against the original order', async () => {
+    storedOrders['order-2'] = {
+      ...storedOrders['order-1'],
+      orderId: 'order-2',
+      refillOfOrderId: 'order-1',
+      refillNumber: 1,
+      createdAt: timestamp(new Date())
+    };
+    storedOrders['order-1'] = { ...storedOrders['order-1'], refillsRemaining: 2, lastFilledAt: timestamp(new Date(Date.now() - 5 * DAY)) };
+
+    await expect(
+      service.requestRefill('order-2', { actor: 'patient', requestedBy: 'patient-uid' })
+    ).rejects.toThrow(/Next refill available on/);
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an order that was never delivered or has no refills left', async () => {
+    storedOrders['order-1'].status = 'preparing';
+    await expect(
+      service.requestRefill('order-1', { actor: 'patient', requestedBy: 'patient-uid' })
+    ).rejects.toBeInstanceOf(RefillNotEligibleError);
+
+    storedOrders['order-1'] = { ...storedOrders['order-1'], status: 'delivered', refillsRemaining: 0 };
+    await expect(
+      service.requestRefill('order-1', { actor: 'patient', requestedBy: 'patient-uid' })
+    ).rejects.toThrow('No refills remaining on this prescription');
+  });
+
+  it('should return null for a missing order', async () => {
+    const result = await service.requestRefill('missing', { actor: 'patient', requestedBy: 'patient-uid' });
+
+    expect(result).toBeNull();
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should report eligibility for orders with a refill allowance', async () => {
+    const orders = [
+      { orderId: 'order-3', status: 'delivered', refillOfOrderId: 'order-1', createdAt: new Date() },
+      { orderId: 'order-4', status: 'delivered', createdAt: new Date() }
+    ] as any[];
+
+    const eligibility = await service.getEligibilityForOrders(orders);
+
+    expect(eligibility.get('order-3')).toEqual({ eligible: true, refillsRemaining: 3 });
+    expect(eligibility.has('order-4')).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import databaseService from './database';
+import {
+  PrescriptionOrder,
+  OrderStatusActor,
+  RefillEligibility,
+  createLineItem,
+  getDispensedDetails,
+  getOrderLineItems,
+  getRefillEligibility,
+  isLineItemBillable
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { orderStatusService, mapOrderDocument } from './orderStatusService';
+
+export interface RefillRequestContext {
+  actor: OrderStatusActor;
+  requestedBy: string;
+}
+
+/**
+ * Raised when a refill is requested for an order that is not eligible.
+ * Routes translate this into a 409 Conflict.
+ */
+export class RefillNotEligibleError extends Error {
+  constructor(public readonly eligibility: RefillEligibility) {
+    super(eligibility.message || 'Order is not eligible for a refill');
+    this.name = 'RefillNotEligibleError';
+  }
+}
+
+export class RefillService {
+  /**
+   * Create a new order for the same medications, linked to the original prescription,
+   * and use up one of its refills. Returns null when the order does not exist.
+   */
+  async requestRefill(orderId: string, context: RefillRequestContext): Promise<PrescriptionOrder | null> {
+    const db = databaseService.getDb();
+    const orders = db.collection('prescriptionOrders');
+    const refillRef = orders.doc();
+    const now = new Date();
+
+    const created = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const filledDoc = await transaction.get(orders.doc(orderId));
+      if (!filledDoc.exists) {
+        return false;
+      }
+
+      const filledOrder = mapOrderDocument(filledDoc);
+      const originalRef = orders.doc(filledOrder.refillOfOrderId || filledOrder.orderId);
+      const original = filledOrder.refillOfOrderId
+        ? mapOrderDocument(await transaction.get(originalRef))
+        : filledOrder;
+
+      const eligibility = getRefillEligibility(original, filledOrder.status, now);
+      if (!eligibility.eligible) {
+        throw new RefillNotEligibleError(eligibility);
+      }
+
+      const lineItems = getOrderLineItems(filledOrder)
+        .filter(isLineItemBillable)
+        .map((item, index) => createLineItem(getDispensedDetails(item), index));
+      const refillsRemaining = eligibility.refillsRemaining - 1;
+      const timestamp = admin.firestore.Timestamp.fromDate(now);
+
+      transaction.set(refillRef, {
+        orderId: refillRef.id,
+        patientProfileId: original.patientProfileId,
+        status: 'awaiting_verification',
+        originalImageUrl: original.originalImageUrl,
+        ...(original.additionalImageUrls && { additionalImageUrls: original.additionalImageUrls }),
+        lineItems,
+        medicationDetails: lineItems.length > 0 ? getDispensedDetails(lineItems[0]) : null,
+        refillOfOrderId: original.orderId,
+        refillNumber: (original.refillsAuthorized ?? eligibility.refillsRemaining) - refillsRemaining,
+        statusHistory: orderStatusService.buildInitialStatusHistory(
+          'awaiting_verification',
+          context.actor,
+          context.requestedBy,
+          `Refill of order ${original.orderId}`
+        ),
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+
+      transaction.update(originalRef, {
+        refillsRemaining,
+        lastFilledAt: timestamp,
+        updatedAt: timestamp
+      });
+
+      // Keep the doctor's record of the prescription in step
+      if (original.doctorPrescriptionId) {
+        transaction.update(db.collection('doctorPrescriptions').doc(original.doctorPrescriptionId), {
+          'medicationDetails.refillsRemaining': refillsRemaining
+        });
+      }
+
+      return true;
+    });
+
+    if (!created) {
+      return null;
+    }
+
+    console.log(`Refill order ${refillRef.id} created from order ${orderId} by ${context.actor} ${context.requestedBy}`);
+
+    return mapOrderDocument(await refillRef.get());
+  }
+
+  /**
+   * Refill eligibility for each order that has a refill allowance, keyed by orderId.
+   * Refill orders are judged against their original order, which is fetched if needed.
+   */
+  async getEligibilityForOrders(orders: PrescriptionOrder[], now: Date = new Date()): Promise<Map<string, RefillEligibility>> {
+    const originals = new Map(orders.map(order => [order.orderId, order]));
+    const missingIds = Array.from(new Set(
+      orders
+        .map(order => order.refillOfOrderId)
+        .filter((id): id is string => !!id && !originals.has(id))
+    ));
+
+    const db = databaseService.getDb();
+    const missingDocs = await Promise.all(missingIds.map(id => db.collection('prescriptionOrders').doc(id).get()));
+    missingDocs
+      .filter(doc => doc.exists)
+      .forEach(doc => {
+        const order = mapOrderDocument(doc);
+        originals.set(order.orderId, order);
+      });
+
+    const eligibility = new Map<string, RefillEligibility>();
+    orders.forEach(order => {
+      const original = originals.get(order.refillOfOrderId || order.orderId);
+      if (original?.refillsAuthorized) {
+        eligibility.set(order.orderId, getRefillEligibility(original, order.status, now));
+      }
+    });
+
+    return eligibility;
+  }
+}
+
+export const refillService = new RefillService();
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import databaseService from './database';
+import { jobQueueService } from './jobQueueService';
+import { ResubmissionService, ResubmissionNotAllowedError } from './resubmissionService';
+
+// Mock the database service
+vi.mock('./database', () => ({
+  default: {
+    getDb: vi.fn()
+  }
+}));
+
+vi.mock('./jobQueueService', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue('job-1')
+  }
+}));
+
+// Mock firebase-admin
+vi.mock('firebase-admin', () => ({
+  default: {
+    firestore: {
+      Timestamp: {
+        fromDate: vi.fn((date: Date) => ({ toDate: () => date }))
+      }
+    }
+  }
+}));
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+describe('ResubmissionService', () => {
+  let service: ResubmissionService;
+  let storedOrders: Record<string, any>;
+  let mockTransaction: any;
+  let versionRef: any;
+
+  const makeDoc = (id: string) => ({
+    id,
+    exists: !!storedOrders[id],
+    data: () => storedOrders[id]
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    storedOrders = {
+      'order-1': {
+        orderId: 'order-1',
+        patientProfileId: 'profile-1',
+        status: 'rejected',
+        originalImageUrl: 'gs://pharmarx-prescriptions/prescriptions/patient-uid/rx.jpg',
+        extractedText: 'Amoxicilin 500',
+        ocrStatus: 'completed',
+        lineItems: [
+          { lineItemId: 'item-1', name: 'Amoxicilin', dosage: '500', quantity: 21, availability: 'unknown', substitution: { status: 'none' } }
+        ],
+        pharmacyId: 'pharmacy-1',
+        pharmacistReview: {
+          reviewedBy: 'pharmacist-1',
+          reviewedAt: timestamp('2025-01-15T09:00:00Z'),
+          approved: false,
+          rejectionReason: 'Unclear dosage instructions',
+          rejectionReasonCode: 'unclear_dosage'
+        },
+        createdAt: timestamp('2025-01-15T08:00:00Z')
+      }
+    };
+
+    versionRef = {
+      id: 'order-2',
+      get: vi.fn(() => Promise.resolve(makeDoc('order-2')))
+    };
+
+    mockTransaction = {
+      get: vi.fn((ref: any) => Promise.resolve(makeDoc(ref.id))),
+      set: vi.fn((ref: any, data: any) => {
+        storedOrders[ref.id] = data;
+      }),
+      update: vi.fn()
+    };
+
+    const mockDb = {
+      collection: vi.fn(() => ({
+        doc: vi.fn((id?: string) => {
+          if (!id) {
+            return versionRef;
+          }
+          return { id, get: vi.fn(() => Promise.resolve(makeDoc(id))) };
+        }),
+        where: vi.fn((field: string, op: string, value: string) => ({
+          get: vi.fn(() => Promise.resolve({
+            docs: Object.keys(storedOrders)
+              .filter(id => storedOrders[id][field] === value)
+              .map(makeDoc)
+          }))
+        }))
+      })),
+      runTransaction: vi.fn((callback: (transaction: any) => Promise<unknown>) => callback(mockTransaction))
+    };
+
+    vi.mocked(databaseService.getDb).mockReturnValue(mockDb as any);
+    service = new ResubmissionService();
+  });
+
+  it('should send corrected details on the same photos straight back to the pharmacist', async () => {
+    const version = await service.resubmitOrder('order-1', {
+      medications: [{ name: 'Amoxicillin', dosage: '500mg', quantity: 21 }],
+      note: '  It is 500mg three times a day  '
+    }, { actor: 'patient', requestedBy: 'patient-uid' });
+
+    expect(version?.orderId).toBe('order-2');
+    const [, created] = mockTransaction.set.mock.calls[0];
+    expect(created).toMatchObject({
+      status: 'awaiting_verification',
+      originalImageUrl: 'gs://pharmarx-prescriptions/prescriptions/patient-uid/rx.jpg',
+      extractedText: 'Amoxicilin 500',
+      medicationDetails: { name: 'Amoxicillin', dosage: '500mg', quantity: 21 },
+      pharmacyId: 'pharmacy-1',
+      resubmissionOfOrderId: 'order-1',
+      lineageRootOrderId: 'order-1',
+      versionNumber: 2,
+      resubmissionNote: 'It is 500mg three times a day'
+    });
+    expect(created.statusHistory[0]).toMatchObject({ from: null, actor: 'patient', reason: 'Resubmission of order order-1' });
+    expect(mockTransaction.update).toHaveBeenCalledWith(expect.objectContaining({ id: 'order-1' }), expect.objectContaining({
+      resubmittedAsOrderId: 'order-2',
+      lineageRootOrderId: 'order-1',
+      versionNumber: 1
+    }));
+    expect(jobQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should read new photos again and offer an out of stock order to another pharmacy', async () => {
+    storedOrders['order-1'].pharmacistReview.rejectionReasonCode = 'out_of_stock';
+    const imageUrls = [
+      'gs://pharmarx-prescriptions/prescriptions/patient-uid/new-1.jpg',
+      'gs://pharmarx-prescriptions/prescriptions/patient-uid/new-2.jpg'
+    ];
+
+    await service.resubmitOrder('order-1', { imageUrls }, { actor: 'patient', requestedBy: 'patient-uid' });
+
+    const [, created] = mockTransaction.set.mock.calls[0];
+    expect(created).toMatchObject({
+      status: 'pending_verification',
+      originalImageUrl: imageUrls[0],
+      additionalImageUrls: [imageUrls[1]],
+      ocrStatus: 'pending',
+      lineItems: []
+    });
+    expect(created.extractedText).toBeUndefined();
+    expect(created.pharmacyId).toBeUndefined();
+    expect(jobQueueService.enqueue).toHaveBeenCalledWith('ocr', {
+      orderId: 'order-2',
+      imageUrl: imageUrls[0],
+      additionalImageUrls: [imageUrls[1]]
+    });
+  });
+
+  it('should refuse orders that were already resubmitted or cannot be fixed', async () => {
+    storedOrders['order-1'].resubmittedAsOrderId = 'order-9';
+    await expect(
+      service.resubmitOrder('order-1', { note: 'x', medications: [{ name: 'A', dosage: '1mg', quantity: 1 }] }, { actor: 'patient', requestedBy: 'patient-uid' })
+    ).rejects.toBeInstanceOf(ResubmissionNotAllowedError);
+
+    delete storedOrders['order-1'].resubmittedAsOrderId;
+    storedOrders['order-1'].pharmacistReview.rejectionReasonCode = 'drug_interaction';
+    await expect(
+      service.resubmitOrder('order-1', { medications: [{ name: 'A', dosage: '1mg', quantity: 1 }] }, { actor: 'patient', requestedBy: 'patient-uid' })
+    ).rejects.toThrow('Please speak to your doctor');
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should return null for a missing order', async () => {
+    const result = await service.resubmitOrder('missing', { imageUrls: ['gs://x/rx.jpg'] }, { actor: 'patient', requestedBy: 'patient-uid' });
+
+    expect(result).toBeNull();
+    expect(jobQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should list every version of the lineage oldest first', async () => {
+    storedOrders['order-3'] = { orderId: 'order-3', status: 'awaiting_verification', lineageRootOrderId: 'order-1', versionNumber: 3, createdAt: timestamp('2025-01-17T08:00:00Z') };
+    storedOrders['order-2'] = { orderId: 'order-2', status: 'rejected', lineageRootOrderId: 'order-1', versionNumber: 2, createdAt: timestamp('2025-01-16T08:00:00Z') };
+    storedOrders['order-1'] = { ...storedOrders['order-1'], lineageRootOrderId: 'order-1', versionNumber: 1 };
+
+    const versions = await service.getVersions('order-3');
+
+    expect(versions?.map(order => order.orderId)).toEqual(['order-1', 'order-2', 'order-3']);
+    expect(await service.getVersions('missing')).toBeNull();
+  });
+});
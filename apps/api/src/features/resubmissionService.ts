@@ -0,0 +1,171 @@
+import databaseService from './database';
+import {
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  OrderStatusActor,
+  ResubmitOrderRequest,
+  ResubmissionEligibility,
+  createLineItem,
+  getDispensedDetails,
+  getOrderLineItems,
+  getRejectionReasonCode,
+  getResubmissionEligibility
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+import { orderStatusService, mapOrderDocument } from './orderStatusService';
+import { jobQueueService } from './jobQueueService';
+
+export interface ResubmissionContext {
+  actor: OrderStatusActor;
+  requestedBy: string;
+}
+
+/**
+ * Raised when a fix is sent for an order that cannot be resubmitted.
+ * Routes translate this into a 409 Conflict.
+ */
+export class ResubmissionNotAllowedError extends Error {
+  constructor(public readonly eligibility: ResubmissionEligibility) {
+    super(eligibility.message || 'Order cannot be resubmitted');
+    this.name = 'ResubmissionNotAllowedError';
+  }
+}
+
+export class ResubmissionService {
+  /**
+   * Create the next version of a rejected order with the patient's new photos or corrected
+   * details. The rejected version is kept as it was for the pharmacist to compare against.
+   * Returns null when the order does not exist.
+   */
+  async resubmitOrder(
+    orderId: string,
+    request: ResubmitOrderRequest,
+    context: ResubmissionContext
+  ): Promise<PrescriptionOrder | null> {
+    const db = databaseService.getDb();
+    const orders = db.collection('prescriptionOrders');
+    const versionRef = orders.doc();
+    const imageUrls = request.imageUrls ?? [];
+    const medications = request.medications ?? [];
+    const note = request.note?.trim();
+    const now = new Date();
+
+    const created = await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+      const rejectedRef = orders.doc(orderId);
+      const rejectedDoc = await transaction.get(rejectedRef);
+      if (!rejectedDoc.exists) {
+        return false;
+      }
+
+      const rejected = mapOrderDocument(rejectedDoc);
+      const eligibility = getResubmissionEligibility(rejected);
+      if (!eligibility.eligible) {
+        throw new ResubmissionNotAllowedError(eligibility);
+      }
+
+      // New photos are read again before the patient confirms them; corrected details
+      // on the same photos go straight back to the pharmacist
+      const status: PrescriptionOrderStatus = imageUrls.length > 0 ? 'pending_verification' : 'awaiting_verification';
+      const lineItems = medications.length > 0
+        ? medications.map(createLineItem)
+        : imageUrls.length > 0
+          ? []
+          : getOrderLineItems(rejected).map((item, index) => createLineItem(getDispensedDetails(item), index));
+      const lineageRootOrderId = rejected.lineageRootOrderId || rejected.orderId;
+      const previousVersion = rejected.versionNumber ?? 1;
+      const timestamp = admin.firestore.Timestamp.fromDate(now);
+
+      transaction.set(versionRef, {
+        orderId: versionRef.id,
+        patientProfileId: rejected.patientProfileId,
+        status,
+        ...(imageUrls.length > 0
+          ? {
+            originalImageUrl: imageUrls[0],
+            ...(imageUrls.length > 1 && { additionalImageUrls: imageUrls.slice(1) }),
+            ocrStatus: 'pending'
+          }
+          : {
+            originalImageUrl: rejected.originalImageUrl,
+            ...(rejected.additionalImageUrls && { additionalImageUrls: rejected.additionalImageUrls }),
+            ...(rejected.extractedText && { extractedText: rejected.extractedText }),
+            ...(rejected.ocrStatus && { ocrStatus: rejected.ocrStatus }),
+            userVerified: true,
+            userVerificationNotes: 'User corrected details after rejection'
+          }),
+        lineItems,
+        medicationDetails: lineItems.length > 0 ? getDispensedDetails(lineItems[0]) : null,
+        // An out of stock order is offered to another pharmacy instead
+        ...(rejected.pharmacyId && getRejectionReasonCode(rejected) !== 'out_of_stock' && { pharmacyId: rejected.pharmacyId }),
+        ...(rejected.doctorPrescriptionId && { doctorPrescriptionId: rejected.doctorPrescriptionId }),
+        ...(rejected.refillOfOrderId && { refillOfOrderId: rejected.refillOfOrderId, refillNumber: rejected.refillNumber }),
+        resubmissionOfOrderId: rejected.orderId,
+        lineageRootOrderId,
+        versionNumber: previousVersion + 1,
+        ...(note && { resubmissionNote: note }),
+        statusHistory: orderStatusService.buildInitialStatusHistory(
+          status,
+          context.actor,
+          context.requestedBy,
+          `Resubmission of order ${rejected.orderId}`
+        ),
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+
+      transaction.update(rejectedRef, {
+        resubmittedAsOrderId: versionRef.id,
+        lineageRootOrderId,
+        versionNumber: previousVersion,
+        updatedAt: timestamp
+      });
+
+      return true;
+    });
+
+    if (!created) {
+      return null;
+    }
+
+    if (imageUrls.length > 0) {
+      // Queue OCR processing so it survives a restart
+      await jobQueueService.enqueue('ocr', {
+        orderId: versionRef.id,
+        imageUrl: imageUrls[0],
+        additionalImageUrls: imageUrls.slice(1)
+      });
+    }
+
+    console.log(`Order ${orderId} resubmitted as ${versionRef.id} by ${context.actor} ${context.requestedBy}`);
+
+    return mapOrderDocument(await versionRef.get());
+  }
+
+  /**
+   * Every version of the order's lineage, oldest first. An order that was never
+   * resubmitted is its only version. Returns null when the order does not exist.
+   */
+  async getVersions(orderId: string): Promise<PrescriptionOrder[] | null> {
+    const db = databaseService.getDb();
+    const orderDoc = await db.collection('prescriptionOrders').doc(orderId).get();
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    const order = mapOrderDocument(orderDoc);
+    if (!order.lineageRootOrderId) {
+      return [order];
+    }
+
+    const snapshot = await db
+      .collection('prescriptionOrders')
+      .where('lineageRootOrderId', '==', order.lineageRootOrderId)
+      .get();
+
+    return snapshot.docs
+      .map(mapOrderDocument)
+      .sort((a, b) => (a.versionNumber ?? 1) - (b.versionNumber ?? 1));
+  }
+}
+
+export const resubmissionService = new ResubmissionService();
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
 import { SMSService } from './smsService';
 
 // Mock fetch globally
@@ -388,6 +389,33 @@ describe('SMSService', () => {
     });
   });
 
+  describe('downloadMedia', () => {
+    const mediaUrl = 'https://api.twilio.com/2010-04-01/Accounts/test-account-sid/Messages/MM123/Media/ME123';
+
+    it('should download MMS media with the account credentials', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([0xff, 0xd8, 0xff]).buffer)
+      });
+
+      const photo = await smsService.downloadMedia(mediaUrl);
+
+      expect(photo).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+      expect(mockFetch).toHaveBeenCalledWith(mediaUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': 'Basic ' + Buffer.from('test-account-sid:test-auth-token').toString('base64')
+        }
+      });
+    });
+
+    it('should not send the credentials anywhere but the Twilio API', async () => {
+      await expect(smsService.downloadMedia('https://example.com/photo.jpg'))
+        .rejects.toThrow('Media URL is not a Twilio media URL for this account');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAccountInfo', () => {
     it('should retrieve account information successfully', async () => {
       const mockResponse = {
@@ -474,6 +502,31 @@ describe('SMSService', () => {
     });
   });
 
+  describe('verifyWebhookSignature', () => {
+    const url = 'https://api.pharmarx.com/webhooks/sms';
+    const params = { From: '+22997000000', Body: 'Yes, 500mg', NumMedia: '0' };
+    const sign = (token: string) => crypto
+      .createHmac('sha1', token)
+      .update(`${url}Body${params.Body}From${params.From}NumMedia${params.NumMedia}`)
+      .digest('base64');
+
+    it('should accept a signature made with the auth token', () => {
+      expect(smsService.verifyWebhookSignature(url, params, sign('test-auth-token'))).toBe(true);
+    });
+
+    it('should reject signatures made with another token or for another URL', () => {
+      expect(smsService.verifyWebhookSignature(url, params, sign('other-token'))).toBe(false);
+      expect(smsService.verifyWebhookSignature(`${url}?x=1`, params, sign('test-auth-token'))).toBe(false);
+    });
+
+    it('should reject every webhook when the auth token is not configured', () => {
+      delete process.env.TWILIO_AUTH_TOKEN;
+      smsService = new SMSService();
+
+      expect(smsService.verifyWebhookSignature(url, params, sign(''))).toBe(false);
+    });
+  });
+
   describe('formatPaymentMessage', () => {
     it('should format payment message for SMS correctly', () => {
       const message = smsService.formatPaymentMessage(
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 export class SMSService {
   private readonly twilioAccountSid: string;
   private readonly twilioAuthToken: string;
@@ -182,6 +184,30 @@ export class SMSService {
     }
   }
 
+  /**
+   * Download a photo sent with an inbound MMS. Twilio only serves media to the account
+   * that received it, so the URL must point at the Twilio API.
+   */
+  async downloadMedia(mediaUrl: string): Promise<Buffer> {
+    if (!mediaUrl.startsWith(`${this.apiUrl}/Accounts/${this.twilioAccountSid}/`)) {
+      throw new Error('Media URL is not a Twilio media URL for this account');
+    }
+
+    const credentials = Buffer.from(`${this.twilioAccountSid}:${this.twilioAuthToken}`).toString('base64');
+    const response = await fetch(mediaUrl, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${credentials}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio media download failed (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
   /**
    * Get account information and balance
    */
@@ -228,6 +254,24 @@ export class SMSService {
     }
   }
 
+  /**
+   * Check the X-Twilio-Signature of an incoming message webhook: an HMAC-SHA1 of the
+   * webhook URL followed by the sorted form parameters, keyed with the auth token
+   */
+  verifyWebhookSignature(url: string, params: Record<string, string>, signature: string): boolean {
+    if (!this.twilioAuthToken || !signature) {
+      return false;
+    }
+
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((data, key) => data + key + params[key], url);
+    const expected = crypto.createHmac('sha1', this.twilioAuthToken).update(payload).digest('base64');
+
+    return expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
   /**
    * Check if SMS service is properly configured
    */
@@ -5,6 +5,19 @@ import { UserRole, CreateUserInput } from '@pharmarx/shared-types';
 import userRoutes from './userRoutes';
 import userService from './users';
 
+const { mockAuthUser } = vi.hoisted(() => ({
+  mockAuthUser: { uid: 'admin-uid', role: 'admin' }
+}));
+
+// Mock authentication; the role and ownership guards are the real ones
+vi.mock('../middleware/auth', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../middleware/auth')>(),
+  verifyAuth: (req: any, res: any, next: any) => {
+    req.user = { ...mockAuthUser };
+    next();
+  }
+}));
+
 // Mock the user service
 vi.mock('./users', () => ({
   default: {
@@ -13,6 +26,7 @@ vi.mock('./users', () => ({
     updateUser: vi.fn(),
     deleteUser: vi.fn(),
     getUsersByRole: vi.fn(),
+    assignPharmacy: vi.fn(),
     userExists: vi.fn()
   }
 }));
@@ -23,6 +37,8 @@ describe('User Routes', () => {
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
+    mockAuthUser.uid = 'admin-uid';
+    mockAuthUser.role = UserRole.Admin;
     
     // Create Express app for testing
     app = express();
@@ -390,4 +406,118 @@ describe('User Routes', () => {
       });
     });
   });
+
+  describe('PUT /users/:uid/pharmacy', () => {
+    it('should assign a pharmacist to a pharmacy', async () => {
+      const pharmacist = {
+        uid: 'pharmacist-1',
+        role: UserRole.Pharmacist,
+        displayName: 'Afi Mensah',
+        pharmacyId: 'pharmacie-jericho'
+      };
+      (userService.assignPharmacy as any).mockResolvedValue(pharmacist);
+
+      const response = await request(app)
+        .put('/users/pharmacist-1/pharmacy')
+        .send({ pharmacyId: 'pharmacie-jericho' })
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: pharmacist });
+      expect(userService.assignPharmacy).toHaveBeenCalledWith('pharmacist-1', 'pharmacie-jericho');
+    });
+
+    it('should unassign a pharmacist with null', async () => {
+      (userService.assignPharmacy as any).mockResolvedValue({ uid: 'pharmacist-1', role: UserRole.Pharmacist });
+
+      await request(app)
+        .put('/users/pharmacist-1/pharmacy')
+        .send({ pharmacyId: null })
+        .expect(200);
+
+      expect(userService.assignPharmacy).toHaveBeenCalledWith('pharmacist-1', null);
+    });
+
+    it('should return 400 without a pharmacy ID', async () => {
+      const response = await request(app)
+        .put('/users/pharmacist-1/pharmacy')
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe('Pharmacy ID must be a pharmacy ID or null');
+      expect(userService.assignPharmacy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (userService.assignPharmacy as any).mockRejectedValue(new Error('Failed to assign pharmacy: User not found'));
+
+      await request(app)
+        .put('/users/missing-uid/pharmacy')
+        .send({ pharmacyId: 'pharmacie-jericho' })
+        .expect(404);
+    });
+  });
+
+  describe('Access control', () => {
+    beforeEach(() => {
+      mockAuthUser.uid = 'patient-uid';
+      mockAuthUser.role = UserRole.Patient;
+    });
+
+    it('should let users read their own record', async () => {
+      (userService.getUserById as any).mockResolvedValue({ uid: 'patient-uid', role: UserRole.Patient });
+
+      await request(app)
+        .get('/users/patient-uid')
+        .expect(200);
+    });
+
+    it('should not let users read someone else\'s record', async () => {
+      const response = await request(app)
+        .get('/users/other-uid')
+        .expect(403);
+
+      expect(response.body.error).toBe('You can only access your own account');
+      expect(userService.getUserById).not.toHaveBeenCalled();
+    });
+
+    it('should not let users change their own role', async () => {
+      const response = await request(app)
+        .put('/users/patient-uid')
+        .send({ role: UserRole.Pharmacist })
+        .expect(403);
+
+      expect(response.body.error).toBe('Only admins can change a user\'s role');
+      expect(userService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should not let users create an admin account', async () => {
+      await request(app)
+        .post('/users')
+        .send({ uid: 'patient-uid', role: UserRole.Admin, displayName: 'Sneaky' })
+        .expect(403);
+
+      expect(userService.createUser).not.toHaveBeenCalled();
+    });
+
+    it('should not let pharmacists assign themselves a pharmacy', async () => {
+      mockAuthUser.uid = 'pharmacist-1';
+      mockAuthUser.role = UserRole.Pharmacist;
+
+      const response = await request(app)
+        .put('/users/pharmacist-1/pharmacy')
+        .send({ pharmacyId: 'pharmacie-jericho' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Admin role required');
+      expect(userService.assignPharmacy).not.toHaveBeenCalled();
+    });
+
+    it('should keep the user list by role to admins', async () => {
+      const response = await request(app)
+        .get('/users/role/doctor')
+        .expect(403);
+
+      expect(response.body.error).toBe('Admin role required');
+    });
+  });
 }); 
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { UserRole, CreateUserInput } from '@pharmarx/shared-types';
 import userService from './users';
+import { verifyAuth, requireRole, requireSelf, clearUserCache } from '../middleware/auth';
 
 const router = Router();
 
+// Users manage their own record; admins manage everyone's
+router.use(verifyAuth);
+
 /**
  * POST /users - Create a new user
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireSelf(req => req.body?.uid), async (req: Request, res: Response) => {
   try {
     const { uid, ...userData }: { uid: string } & CreateUserInput = req.body;
 
@@ -17,6 +21,12 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    if (userData.role === UserRole.Admin && req.user!.role !== UserRole.Admin) {
+      return res.status(403).json({
+        error: 'Only admins can create admin accounts'
+      });
+    }
+
     // Check if user already exists
     const existingUser = await userService.getUserById(uid);
     if (existingUser) {
@@ -26,6 +36,7 @@ router.post('/', async (req: Request, res: Response) => {
     }
 
     const user = await userService.createUser(uid, userData);
+    clearUserCache(uid);
     res.status(201).json({
       success: true,
       data: user
@@ -41,7 +52,7 @@ router.post('/', async (req: Request, res: Response) => {
 /**
  * GET /users/:uid - Get user by UID
  */
-router.get('/:uid', async (req: Request, res: Response) => {
+router.get('/:uid', requireSelf(), async (req: Request, res: Response) => {
   try {
     const { uid } = req.params;
 
@@ -67,12 +78,19 @@ router.get('/:uid', async (req: Request, res: Response) => {
 /**
  * PUT /users/:uid - Update user
  */
-router.put('/:uid', async (req: Request, res: Response) => {
+router.put('/:uid', requireSelf(), async (req: Request, res: Response) => {
   try {
     const { uid } = req.params;
     const updateData: Partial<CreateUserInput> = req.body;
 
+    if (updateData.role !== undefined && req.user!.role !== UserRole.Admin) {
+      return res.status(403).json({
+        error: 'Only admins can change a user\'s role'
+      });
+    }
+
     const user = await userService.updateUser(uid, updateData);
+    clearUserCache(uid);
     res.json({
       success: true,
       data: user
@@ -89,11 +107,12 @@ router.put('/:uid', async (req: Request, res: Response) => {
 /**
  * DELETE /users/:uid - Delete user
  */
-router.delete('/:uid', async (req: Request, res: Response) => {
+router.delete('/:uid', requireSelf(), async (req: Request, res: Response) => {
   try {
     const { uid } = req.params;
 
     const deleted = await userService.deleteUser(uid);
+    clearUserCache(uid);
     if (!deleted) {
       return res.status(404).json({
         error: 'User not found'
@@ -115,7 +134,7 @@ router.delete('/:uid', async (req: Request, res: Response) => {
 /**
  * GET /users/role/:role - Get users by role
  */
-router.get('/role/:role', async (req: Request, res: Response) => {
+router.get('/role/:role', requireRole(UserRole.Admin), async (req: Request, res: Response) => {
   try {
     const { role } = req.params;
 
@@ -139,10 +158,39 @@ router.get('/role/:role', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /users/:uid/pharmacy - Assign a pharmacist to the pharmacy they work at, or unassign with null
+ */
+router.put('/:uid/pharmacy', requireRole(UserRole.Admin), async (req: Request, res: Response) => {
+  try {
+    const { uid } = req.params;
+    const { pharmacyId } = req.body;
+
+    if (pharmacyId !== null && (typeof pharmacyId !== 'string' || !pharmacyId.trim())) {
+      return res.status(400).json({
+        error: 'Pharmacy ID must be a pharmacy ID or null'
+      });
+    }
+
+    const user = await userService.assignPharmacy(uid, pharmacyId && pharmacyId.trim());
+    clearUserCache(uid);
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    console.error('Error in PUT /users/:uid/pharmacy:', error);
+    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({
+      error: error instanceof Error ? error.message : 'Failed to assign pharmacy'
+    });
+  }
+});
+
 /**
  * GET /users/:uid/exists - Check if user exists
  */
-router.get('/:uid/exists', async (req: Request, res: Response) => {
+router.get('/:uid/exists', requireSelf(), async (req: Request, res: Response) => {
   try {
     const { uid } = req.params;
 
@@ -255,6 +255,33 @@ describe('UserService', () => {
     });
   });
 
+  describe('assignPharmacy', () => {
+    const pharmacist: User = {
+      uid: 'pharmacist-1',
+      role: UserRole.Pharmacist,
+      email: 'afi@example.com',
+      displayName: 'Afi Mensah',
+      createdAt: new Date('2023-01-01')
+    };
+
+    it('should set the pharmacy a pharmacist works at', async () => {
+      vi.spyOn(userService, 'getUserById').mockResolvedValue(pharmacist);
+
+      const result = await userService.assignPharmacy('pharmacist-1', 'pharmacie-jericho');
+
+      expect(result).toEqual({ ...pharmacist, pharmacyId: 'pharmacie-jericho' });
+      expect(mockDoc.update).toHaveBeenCalledWith({ pharmacyId: 'pharmacie-jericho' });
+    });
+
+    it('should only assign pharmacists', async () => {
+      vi.spyOn(userService, 'getUserById').mockResolvedValue({ ...pharmacist, role: UserRole.Patient });
+
+      await expect(userService.assignPharmacy('pharmacist-1', 'pharmacie-jericho'))
+        .rejects.toThrow('Only pharmacists can be assigned a pharmacy');
+      expect(mockDoc.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteUser', () => {
     it('should delete existing user', async () => {
       const uid = 'test-uid-123';
@@ -148,6 +148,37 @@ export class UserService {
     }
   }
 
+  /**
+   * Set the pharmacy a pharmacist works at, or clear it with null
+   */
+  async assignPharmacy(uid: string, pharmacyId: string | null): Promise<User> {
+    try {
+      if (!uid || typeof uid !== 'string') {
+        throw new Error('Valid UID is required');
+      }
+
+      const db = databaseService.getDb();
+
+      const existingUser = await this.getUserById(uid);
+      if (!existingUser) {
+        throw new Error('User not found');
+      }
+
+      if (existingUser.role !== UserRole.Pharmacist) {
+        throw new Error('Only pharmacists can be assigned a pharmacy');
+      }
+
+      await db.collection('users').doc(uid).update({
+        pharmacyId: pharmacyId ?? admin.firestore.FieldValue.delete()
+      });
+
+      return { ...existingUser, pharmacyId: pharmacyId ?? undefined };
+    } catch (error) {
+      console.error('Error assigning pharmacy:', error);
+      throw new Error(`Failed to assign pharmacy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Delete user by UID
    */
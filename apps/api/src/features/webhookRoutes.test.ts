@@ -4,11 +4,35 @@ import express from 'express';
 import crypto from 'crypto';
 import webhookRoutes from './webhookRoutes';
 import { paymentService } from './paymentService';
+import { orderClarificationService } from './orderClarificationService';
+import { SMSService } from './smsService';
+import { WhatsAppService } from './whatsappService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+
+// paymentService and receiptService read collections at import time
+vi.mock('./database', () => ({
+  db: { collection: vi.fn() },
+  default: { getDb: vi.fn() }
+}));
 
 // Mock payment service
 vi.mock('./paymentService');
 const mockPaymentService = vi.mocked(paymentService);
 
+vi.mock('./orderClarificationService', () => ({
+  orderClarificationService: {
+    receiveInboundReply: vi.fn()
+  }
+}));
+vi.mock('./prescriptionStorageService', () => ({
+  prescriptionStorageService: {
+    storeInboundPhoto: vi.fn()
+  }
+}));
+vi.mock('./smsService');
+vi.mock('./whatsappService');
+const mockOrderClarificationService = vi.mocked(orderClarificationService);
+
 const app = express();
 app.use('/', webhookRoutes);
 
@@ -69,13 +93,14 @@ describe('Webhook Routes Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        message: 'Stripe webhook processed successfully'
+        message: 'Webhook processed successfully'
       });
 
       expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
         'stripe',
         mockStripeEvent,
-        signature
+        signature,
+        Buffer.from(payload)
       );
     });
 
@@ -87,10 +112,10 @@ describe('Webhook Routes Integration Tests', () => {
         .set('content-type', 'application/json')
         .send(payload);
 
-      expect(response.status).toBe(401);
+      expect(response.status).toBe(400);
       expect(response.body).toEqual({
         success: false,
-        error: 'Missing Stripe signature header'
+        error: 'Missing signature header'
       });
 
       expect(mockPaymentService.processWebhook).not.toHaveBeenCalled();
@@ -110,7 +135,7 @@ describe('Webhook Routes Integration Tests', () => {
         .set('content-type', 'application/json')
         .send(payload);
 
-      expect(response.status).toBe(401);
+      expect(response.status).toBe(400);
       expect(response.body).toEqual({
         success: false,
         error: 'Invalid signature'
@@ -157,7 +182,8 @@ describe('Webhook Routes Integration Tests', () => {
         expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
           'stripe',
           event,
-          signature
+          signature,
+          expect.any(Buffer)
         );
 
         vi.clearAllMocks();
@@ -209,19 +235,20 @@ describe('Webhook Routes Integration Tests', () => {
 
       const response = await request(app)
         .post('/webhooks/paypal')
+        .set('paypal-transmission-sig', 'paypal_test_signature')
         .set('content-type', 'application/json')
         .send(mockPayPalEvent);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        message: 'PayPal webhook processed successfully'
+        message: 'Webhook processed successfully'
       });
 
       expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
         'paypal',
         mockPayPalEvent,
-        undefined
+        'paypal_test_signature'
       );
     });
 
@@ -240,6 +267,7 @@ describe('Webhook Routes Integration Tests', () => {
 
         const response = await request(app)
           .post('/webhooks/paypal')
+          .set('paypal-transmission-sig', 'paypal_test_signature')
           .set('content-type', 'application/json')
           .send(event);
 
@@ -247,7 +275,7 @@ describe('Webhook Routes Integration Tests', () => {
         expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
           'paypal',
           event,
-          undefined
+          'paypal_test_signature'
         );
 
         vi.clearAllMocks();
@@ -262,6 +290,7 @@ describe('Webhook Routes Integration Tests', () => {
 
       const response = await request(app)
         .post('/webhooks/paypal')
+        .set('paypal-transmission-sig', 'paypal_test_signature')
         .set('content-type', 'application/json')
         .send(invalidEvent);
 
@@ -276,6 +305,7 @@ describe('Webhook Routes Integration Tests', () => {
 
       const response = await request(app)
         .post('/webhooks/paypal')
+        .set('paypal-transmission-sig', 'paypal_test_signature')
         .set('content-type', 'application/json')
         .send(mockPayPalEvent);
 
@@ -288,19 +318,17 @@ describe('Webhook Routes Integration Tests', () => {
   });
 
   describe('POST /webhooks/mtn', () => {
+    // Request-to-pay callback as MoMo sends it; the status is never trusted
     const mockMTNEvent = {
-      EventType: 'PAYMENT_COMPLETED',
-      TransactionId: 'MTN_test123',
-      ReferenceId: 'test-order-1',
-      Amount: '45.50',
-      Currency: 'USD',
-      PhoneNumber: '+22996123456',
-      Status: 'SUCCESSFUL',
-      Timestamp: '2024-01-01T12:00:00Z',
-      Signature: 'mtn_test_signature'
+      financialTransactionId: '363440463',
+      externalId: 'payment-1',
+      amount: '27300',
+      currency: 'XOF',
+      payer: { partyIdType: 'MSISDN', partyId: '22996123456' },
+      status: 'SUCCESSFUL'
     };
 
-    it('should process valid MTN webhook', async () => {
+    it('should hand MoMo callbacks to the payment service', async () => {
       mockPaymentService.processWebhook.mockResolvedValueOnce(undefined);
 
       const response = await request(app)
@@ -311,68 +339,35 @@ describe('Webhook Routes Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        message: 'MTN webhook processed successfully'
+        message: 'Webhook processed successfully'
       });
 
       expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
         'mtn',
         mockMTNEvent,
-        'mtn_test_signature'
+        undefined
       );
     });
 
-    it('should handle different MTN event types', async () => {
-      const eventTypes = [
-        'PAYMENT_COMPLETED',
-        'PAYMENT_FAILED',
-        'PAYMENT_PENDING',
-        'PAYMENT_CANCELLED'
-      ];
-
-      for (const eventType of eventTypes) {
-        const event = { ...mockMTNEvent, EventType: eventType };
-
-        mockPaymentService.processWebhook.mockResolvedValueOnce(undefined);
-
-        const response = await request(app)
-          .post('/webhooks/mtn')
-          .set('content-type', 'application/json')
-          .send(event);
-
-        expect(response.status).toBe(200);
-        expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
-          'mtn',
-          event,
-          'mtn_test_signature'
-        );
-
-        vi.clearAllMocks();
-      }
-    });
-
-    it('should validate MTN webhook signature', async () => {
-      const eventWithoutSignature = { ...mockMTNEvent };
-      delete eventWithoutSignature.Signature;
-
-      mockPaymentService.processWebhook.mockRejectedValueOnce(
-        new Error('Missing signature')
-      );
+    it('should accept v1 callbacks delivered with PUT', async () => {
+      mockPaymentService.processWebhook.mockResolvedValueOnce(undefined);
 
       const response = await request(app)
-        .post('/webhooks/mtn')
+        .put('/webhooks/mtn')
         .set('content-type', 'application/json')
-        .send(eventWithoutSignature);
+        .send({ ...mockMTNEvent, status: 'FAILED', reason: 'APPROVAL_REJECTED' });
 
-      expect(response.status).toBe(401);
-      expect(response.body).toEqual({
-        success: false,
-        error: 'Missing signature'
-      });
+      expect(response.status).toBe(200);
+      expect(mockPaymentService.processWebhook).toHaveBeenCalledWith(
+        'mtn',
+        expect.objectContaining({ externalId: 'payment-1', status: 'FAILED' }),
+        undefined
+      );
     });
 
-    it('should handle MTN webhook processing errors', async () => {
+    it('should return 500 when the payment cannot be refreshed', async () => {
       mockPaymentService.processWebhook.mockRejectedValueOnce(
-        new Error('Invalid MTN signature')
+        new Error('Payment not found for transaction payment-1')
       );
 
       const response = await request(app)
@@ -380,17 +375,17 @@ describe('Webhook Routes Integration Tests', () => {
         .set('content-type', 'application/json')
         .send(mockMTNEvent);
 
-      expect(response.status).toBe(401);
+      expect(response.status).toBe(500);
       expect(response.body).toEqual({
         success: false,
-        error: 'Invalid MTN signature'
+        error: 'Payment not found for transaction payment-1'
       });
     });
 
     it('should validate required MTN fields', async () => {
       const invalidEvent = {
-        EventType: 'PAYMENT_COMPLETED'
-        // Missing required fields like TransactionId, Amount, etc.
+        status: 'SUCCESSFUL'
+        // Missing the externalId or transactionId that names the payment
       };
 
       const response = await request(app)
@@ -403,6 +398,140 @@ describe('Webhook Routes Integration Tests', () => {
     });
   });
 
+  describe('POST /webhooks/sms', () => {
+    it('should add a signed reply to the clarification thread', async () => {
+      vi.mocked(SMSService.prototype.verifyWebhookSignature).mockReturnValue(true);
+      vi.mocked(SMSService.prototype.downloadMedia).mockResolvedValue(Buffer.from('photo'));
+      vi.mocked(prescriptionStorageService.storeInboundPhoto).mockResolvedValue('gs://pharmarx-prescriptions/inbound/sms/photo.jpg');
+
+      const response = await request(app)
+        .post('/webhooks/sms')
+        .set('x-twilio-signature', 'valid-signature')
+        .type('form')
+        .send({ From: '+22997000000', Body: 'It is 500mg', NumMedia: '1', MediaUrl0: 'https://api.twilio.com/media/1' });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('<Response></Response>');
+      expect(SMSService.prototype.verifyWebhookSignature).toHaveBeenCalledWith(
+        expect.stringMatching(/\/webhooks\/sms$/),
+        expect.objectContaining({ From: '+22997000000' }),
+        'valid-signature'
+      );
+      expect(SMSService.prototype.downloadMedia).toHaveBeenCalledWith('https://api.twilio.com/media/1');
+      expect(prescriptionStorageService.storeInboundPhoto).toHaveBeenCalledWith('sms', Buffer.from('photo'));
+      expect(mockOrderClarificationService.receiveInboundReply).toHaveBeenCalledWith('sms', '+22997000000', {
+        text: 'It is 500mg',
+        imageUrl: 'gs://pharmarx-prescriptions/inbound/sms/photo.jpg'
+      });
+    });
+
+    it('should mention a photo that could not be saved', async () => {
+      vi.mocked(SMSService.prototype.verifyWebhookSignature).mockReturnValue(true);
+      vi.mocked(SMSService.prototype.downloadMedia).mockRejectedValue(new Error('Twilio media download failed (404)'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await request(app)
+        .post('/webhooks/sms')
+        .set('x-twilio-signature', 'valid-signature')
+        .type('form')
+        .send({ From: '+22997000000', Body: '', NumMedia: '1', MediaUrl0: 'https://api.twilio.com/media/1' })
+        .expect(200);
+
+      expect(mockOrderClarificationService.receiveInboundReply).toHaveBeenCalledWith('sms', '+22997000000', {
+        text: '(Photo sent by SMS)'
+      });
+    });
+
+    it('should reject replies with an invalid signature', async () => {
+      vi.mocked(SMSService.prototype.verifyWebhookSignature).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/webhooks/sms')
+        .type('form')
+        .send({ From: '+22997000000', Body: 'It is 500mg' });
+
+      expect(response.status).toBe(403);
+      expect(mockOrderClarificationService.receiveInboundReply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/webhooks/whatsapp', () => {
+    const inboundPayload = {
+      object: 'whatsapp_business_account',
+      entry: [{
+        changes: [{
+          value: {
+            messages: [
+              { from: '22997000000', type: 'text', text: { body: 'Twice a day' } },
+              { from: '22997000000', type: 'image', image: { id: 'media-1', caption: 'The box' } }
+            ]
+          }
+        }]
+      }]
+    };
+
+    it('should answer the subscription check with the challenge', async () => {
+      vi.mocked(WhatsAppService.prototype.verifyWebhookSubscription).mockReturnValue(true);
+
+      const response = await request(app)
+        .get('/webhooks/whatsapp')
+        .query({ 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-token', 'hub.challenge': '1158201444' });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('1158201444');
+    });
+
+    it('should add each signed message to the clarification thread', async () => {
+      vi.mocked(WhatsAppService.prototype.verifyWebhookSignature).mockReturnValue(true);
+      vi.mocked(WhatsAppService.prototype.downloadMedia).mockResolvedValue(Buffer.from('photo'));
+      vi.mocked(prescriptionStorageService.storeInboundPhoto).mockResolvedValue('gs://pharmarx-prescriptions/inbound/whatsapp/photo.jpg');
+
+      const response = await request(app)
+        .post('/webhooks/whatsapp')
+        .set('x-hub-signature-256', 'sha256=valid')
+        .set('content-type', 'application/json')
+        .send(JSON.stringify(inboundPayload));
+
+      expect(response.status).toBe(200);
+      expect(mockOrderClarificationService.receiveInboundReply).toHaveBeenCalledWith('whatsapp', '22997000000', { text: 'Twice a day' });
+      expect(WhatsAppService.prototype.downloadMedia).toHaveBeenCalledWith('media-1');
+      expect(mockOrderClarificationService.receiveInboundReply).toHaveBeenCalledWith('whatsapp', '22997000000', {
+        text: 'The box',
+        imageUrl: 'gs://pharmarx-prescriptions/inbound/whatsapp/photo.jpg'
+      });
+    });
+
+    it('should mention a photo that could not be saved', async () => {
+      vi.mocked(WhatsAppService.prototype.verifyWebhookSignature).mockReturnValue(true);
+      vi.mocked(WhatsAppService.prototype.downloadMedia).mockRejectedValue(new Error('WhatsApp media download failed (404)'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await request(app)
+        .post('/webhooks/whatsapp')
+        .set('x-hub-signature-256', 'sha256=valid')
+        .set('content-type', 'application/json')
+        .send(JSON.stringify(inboundPayload))
+        .expect(200);
+
+      expect(mockOrderClarificationService.receiveInboundReply).toHaveBeenCalledWith('whatsapp', '22997000000', {
+        text: 'The box (Photo sent on WhatsApp)'
+      });
+    });
+
+    it('should reject messages with an invalid signature', async () => {
+      vi.mocked(WhatsAppService.prototype.verifyWebhookSignature).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/webhooks/whatsapp')
+        .set('x-hub-signature-256', 'sha256=forged')
+        .set('content-type', 'application/json')
+        .send(JSON.stringify(inboundPayload));
+
+      expect(response.status).toBe(403);
+      expect(mockOrderClarificationService.receiveInboundReply).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /webhooks/health', () => {
     it('should return health check status', async () => {
       const response = await request(app)
@@ -412,8 +541,12 @@ describe('Webhook Routes Integration Tests', () => {
       expect(response.body).toEqual({
         success: true,
         message: 'Webhook service is healthy',
-        timestamp: expect.any(String),
-        uptime: expect.any(Number)
+        data: {
+          timestamp: expect.any(String),
+          service: 'payment-webhooks',
+          status: 'healthy',
+          supportedGateways: ['stripe', 'paypal', 'mtn']
+        }
       });
     });
 
@@ -421,19 +554,21 @@ describe('Webhook Routes Integration Tests', () => {
       const response = await request(app)
         .get('/webhooks/health');
 
-      expect(response.body.timestamp).toBeDefined();
-      expect(response.body.uptime).toBeGreaterThanOrEqual(0);
+      expect(response.body.data.timestamp).toBeDefined();
+      expect(response.body.data.supportedGateways).toContain('mtn');
     });
   });
 
   describe('POST /webhooks/test', () => {
     it('should process test webhook events', async () => {
       const testEvent = {
-        eventType: 'test',
-        data: { test: true },
-        timestamp: new Date().toISOString()
+        gateway: 'paypal',
+        eventType: 'PAYMENT.CAPTURE.COMPLETED',
+        testData: { transactionId: 'PP_TEST_1' }
       };
 
+      mockPaymentService.processWebhook.mockResolvedValueOnce(undefined);
+
       const response = await request(app)
         .post('/webhooks/test')
         .set('content-type', 'application/json')
@@ -442,8 +577,16 @@ describe('Webhook Routes Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
-        message: 'Test webhook received successfully',
-        receivedData: testEvent
+        message: 'Test webhook processed successfully',
+        data: {
+          gateway: 'paypal',
+          eventType: 'PAYMENT.CAPTURE.COMPLETED',
+          testPayload: expect.objectContaining({
+            event_type: 'PAYMENT.CAPTURE.COMPLETED',
+            resource: expect.objectContaining({ id: 'PP_TEST_1' })
+          }),
+          processedAt: expect.any(String)
+        }
       });
     });
 
@@ -455,46 +598,35 @@ describe('Webhook Routes Integration Tests', () => {
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Test event data is required');
+      expect(response.body.error).toBe('Valid gateway is required (stripe, paypal, mtn)');
     });
 
-    it('should handle malformed test webhook data', async () => {
+    it('should require an event type', async () => {
       const response = await request(app)
         .post('/webhooks/test')
         .set('content-type', 'application/json')
-        .send('invalid-json');
+        .send({ gateway: 'stripe' });
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Event type is required');
     });
   });
 
   describe('Webhook logging and monitoring', () => {
-    it('should log all webhook requests', async () => {
+    it('should log webhook requests that no route handles', async () => {
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      const mockStripeEvent = {
-        id: 'evt_log_test',
-        type: 'charge.succeeded',
-        data: { object: { id: 'ch_log_test' } }
-      };
-
-      const payload = JSON.stringify(mockStripeEvent);
-      const signature = 't=1610000000,v1=test_signature';
-
-      mockPaymentService.processWebhook.mockResolvedValueOnce(undefined);
-
       await request(app)
-        .post('/webhooks/stripe')
-        .set('stripe-signature', signature)
+        .post('/webhooks/unknown')
+        .set('stripe-signature', 't=1610000000,v1=test_signature')
         .set('content-type', 'application/json')
-        .send(payload);
+        .send(JSON.stringify({ id: 'evt_log_test' }));
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Webhook received:'),
+        'Webhook request: POST /webhooks/unknown',
         expect.objectContaining({
-          method: 'POST',
-          url: '/webhooks/stripe'
+          headers: expect.objectContaining({ signature: 't=1610000000,v1=test_signature' })
         })
       );
 
@@ -578,7 +710,7 @@ describe('Webhook Routes Integration Tests', () => {
       const oldSignature = `t=${oldTimestamp},v1=${signature}`;
 
       mockPaymentService.processWebhook.mockRejectedValueOnce(
-        new Error('Timestamp too old')
+        new Error('Invalid webhook signature')
       );
 
       const response = await request(app)
@@ -587,8 +719,8 @@ describe('Webhook Routes Integration Tests', () => {
         .set('content-type', 'application/json')
         .send(payload);
 
-      expect(response.status).toBe(401);
-      expect(response.body.error).toBe('Timestamp too old');
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid webhook signature');
     });
 
     it('should validate webhook content-type headers', async () => {
@@ -668,8 +800,8 @@ describe('Webhook Routes Integration Tests', () => {
       const signature = 't=1610000000,v1=test_signature';
 
       mockPaymentService.processWebhook.mockImplementation(async () => {
-        // Simulate timeout
-        await new Promise(resolve => setTimeout(resolve, 30000));
+        // Simulate a slow gateway lookup
+        await new Promise(resolve => setTimeout(resolve, 200));
       });
 
       const response = await request(app)
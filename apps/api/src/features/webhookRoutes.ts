@@ -1,15 +1,50 @@
 import { Request, Response, Router } from 'express';
-import { ApiResponse } from '@pharmarx/shared-types';
+import { ApiResponse, ClarificationNotificationChannel } from '@pharmarx/shared-types';
 import { paymentService } from './paymentService';
+import { InvalidStatusTransitionError } from './orderStatusService';
+import { orderClarificationService } from './orderClarificationService';
+import { prescriptionStorageService } from './prescriptionStorageService';
+import { SMSService } from './smsService';
+import { WhatsAppService } from './whatsappService';
 import express from 'express';
 
 const router = Router();
+const smsService = new SMSService();
+const whatsappService = new WhatsAppService();
 
 /**
  * Middleware to parse raw body for webhook signature verification
  */
 const rawBodyParser = express.raw({ type: 'application/json' });
 
+/**
+ * Map webhook processing errors to a response status. A 409 tells the gateway
+ * the order has already moved on, so the event should not be retried.
+ */
+const getWebhookErrorStatus = (error: unknown): number => {
+  if (error instanceof InvalidStatusTransitionError) {
+    return 409;
+  }
+  return error instanceof Error &&
+    (error.message.includes('signature') || error.message.includes('Invalid')) ? 400 : 500;
+};
+
+/**
+ * Save a photo sent with an inbound reply to the private prescription bucket. Returns
+ * undefined when it cannot be downloaded or stored, so the reply still reaches the thread.
+ */
+const storeInboundPhoto = async (
+  channel: ClarificationNotificationChannel,
+  download: () => Promise<Buffer>
+): Promise<string | undefined> => {
+  try {
+    return await prescriptionStorageService.storeInboundPhoto(channel, await download());
+  } catch (error) {
+    console.error(`Failed to store photo sent by ${channel}:`, error);
+    return undefined;
+  }
+};
+
 /**
  * POST /webhooks/stripe - Handle Stripe webhooks
  */
@@ -26,10 +61,13 @@ router.post('/webhooks/stripe', rawBodyParser, async (req: Request, res: Respons
       } as ApiResponse<null>);
     }
 
+    // The app-level JSON parser keeps the raw bytes for webhooks; express.raw leaves a Buffer
+    const rawBody: Buffer | undefined = (req as any).rawBody ?? (Buffer.isBuffer(payload) ? payload : undefined);
+
     // Parse JSON if needed
     let parsedPayload;
     try {
-      parsedPayload = typeof payload === 'string' ? JSON.parse(payload) : payload;
+      parsedPayload = Buffer.isBuffer(payload) || typeof payload === 'string' ? JSON.parse(payload.toString()) : payload;
     } catch (error) {
       console.error('Invalid JSON payload from Stripe');
       return res.status(400).json({
@@ -39,7 +77,7 @@ router.post('/webhooks/stripe', rawBodyParser, async (req: Request, res: Respons
     }
 
     // Process webhook through payment service
-    await paymentService.processWebhook('stripe', parsedPayload, signature);
+    await paymentService.processWebhook('stripe', parsedPayload, signature, rawBody);
 
     // Log successful webhook processing
     console.log(`Stripe webhook processed successfully: ${parsedPayload.type}`);
@@ -55,8 +93,7 @@ router.post('/webhooks/stripe', rawBodyParser, async (req: Request, res: Respons
     
     // Return 400 for client errors (invalid signature, malformed data)
     // Return 500 for server errors (database issues, etc.)
-    const statusCode = error instanceof Error && 
-      (error.message.includes('signature') || error.message.includes('Invalid')) ? 400 : 500;
+    const statusCode = getWebhookErrorStatus(error);
 
     res.status(statusCode).json({
       success: false,
@@ -105,8 +142,7 @@ router.post('/webhooks/paypal', express.json(), async (req: Request, res: Respon
   } catch (error) {
     console.error('PayPal webhook processing error:', error);
     
-    const statusCode = error instanceof Error && 
-      (error.message.includes('signature') || error.message.includes('Invalid')) ? 400 : 500;
+    const statusCode = getWebhookErrorStatus(error);
 
     res.status(statusCode).json({
       success: false,
@@ -116,23 +152,16 @@ router.post('/webhooks/paypal', express.json(), async (req: Request, res: Respon
 });
 
 /**
- * POST /webhooks/mtn - Handle MTN Mobile Money webhooks
+ * POST|PUT /webhooks/mtn - Handle MTN Mobile Money webhooks. Callbacks arrive unsigned,
+ * so they only name the payment; the payment service re-reads its status from MoMo.
  */
-router.post('/webhooks/mtn', express.json(), async (req: Request, res: Response) => {
+const handleMtnWebhook = async (req: Request, res: Response) => {
   try {
     const payload = req.body;
-    const signature = req.headers['x-mtn-signature'] as string;
-
-    if (!signature) {
-      console.error('Missing MTN signature header');
-      return res.status(400).json({
-        success: false,
-        error: 'Missing signature header'
-      } as ApiResponse<null>);
-    }
+    const signature = req.headers['x-mtn-signature'] as string | undefined;
 
     // Validate required MTN webhook fields
-    if (!payload.transactionId || !payload.status) {
+    if (!(payload.transactionId || payload.externalId) || !payload.status) {
       console.error('Invalid MTN webhook payload structure');
       return res.status(400).json({
         success: false,
@@ -144,7 +173,7 @@ router.post('/webhooks/mtn', express.json(), async (req: Request, res: Response)
     await paymentService.processWebhook('mtn', payload, signature);
 
     // Log successful webhook processing
-    console.log(`MTN webhook processed successfully: ${payload.transactionId} - ${payload.status}`);
+    console.log(`MTN webhook processed successfully: ${payload.transactionId || payload.externalId} - ${payload.status}`);
 
     // Respond to MTN
     res.status(200).json({
@@ -155,14 +184,124 @@ router.post('/webhooks/mtn', express.json(), async (req: Request, res: Response)
   } catch (error) {
     console.error('MTN webhook processing error:', error);
     
-    const statusCode = error instanceof Error && 
-      (error.message.includes('signature') || error.message.includes('Invalid')) ? 400 : 500;
+    const statusCode = getWebhookErrorStatus(error);
 
     res.status(statusCode).json({
       success: false,
       error: error instanceof Error ? error.message : 'Webhook processing failed'
     } as ApiResponse<null>);
   }
+};
+
+router.post('/webhooks/mtn', express.json(), handleMtnWebhook);
+// MoMo delivers v1 request-to-pay callbacks with PUT
+router.put('/webhooks/mtn', express.json(), handleMtnWebhook);
+
+/**
+ * POST /webhooks/sms - Patient replies to a clarification question, sent by SMS through
+ * Twilio. Answered with empty TwiML so Twilio sends nothing back to the patient.
+ * An MMS photo is copied into the prescription bucket and added to the prescription.
+ */
+router.post('/webhooks/sms', express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+  const params: Record<string, string> = req.body || {};
+  // Twilio signs the public URL it called, which differs from req.url behind a proxy
+  const url = process.env.TWILIO_WEBHOOK_URL || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+  if (!smsService.verifyWebhookSignature(url, params, req.headers['x-twilio-signature'] as string)) {
+    console.error('Invalid Twilio signature on inbound SMS');
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid signature'
+    } as ApiResponse<null>);
+  }
+
+  try {
+    const hasPhoto = Number(params.NumMedia) > 0 && !!params.MediaUrl0;
+    const imageUrl = hasPhoto
+      ? await storeInboundPhoto('sms', () => smsService.downloadMedia(params.MediaUrl0))
+      : undefined;
+    // A photo that could not be saved is still mentioned, so the pharmacist can ask again
+    const text = hasPhoto && !imageUrl
+      ? [params.Body, '(Photo sent by SMS)'].filter(Boolean).join(' ')
+      : params.Body;
+    await orderClarificationService.receiveInboundReply('sms', params.From, {
+      ...(text && { text }),
+      ...(imageUrl && { imageUrl })
+    });
+  } catch (error) {
+    // Nothing useful can be retried for a reply that does not fit a thread
+    console.error('Inbound SMS processing error:', error);
+  }
+
+  res.status(200).type('text/xml').send('<Response></Response>');
+});
+
+/**
+ * GET /webhooks/whatsapp - Subscription check when the webhook is registered with Meta
+ */
+router.get('/webhooks/whatsapp', (req: Request, res: Response) => {
+  const mode = req.query['hub.mode'] as string;
+  const token = req.query['hub.verify_token'] as string;
+
+  if (!whatsappService.verifyWebhookSubscription(mode, token)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid verify token'
+    } as ApiResponse<null>);
+  }
+
+  res.status(200).send(req.query['hub.challenge']);
+});
+
+/**
+ * POST /webhooks/whatsapp - Patient replies to a clarification question sent on WhatsApp.
+ * A photo is downloaded with the business access token, copied into the prescription
+ * bucket and added to the prescription, with its caption as the message text.
+ */
+router.post('/webhooks/whatsapp', rawBodyParser, async (req: Request, res: Response) => {
+  const payload = req.body;
+  const rawBody: Buffer | undefined = (req as any).rawBody ?? (Buffer.isBuffer(payload) ? payload : undefined);
+
+  if (!rawBody || !whatsappService.verifyWebhookSignature(rawBody, req.headers['x-hub-signature-256'] as string)) {
+    console.error('Invalid WhatsApp webhook signature');
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid signature'
+    } as ApiResponse<null>);
+  }
+
+  try {
+    const parsedPayload = Buffer.isBuffer(payload) ? JSON.parse(payload.toString()) : payload;
+    const messages = (parsedPayload.entry || [])
+      .flatMap((entry: any) => entry.changes || [])
+      .flatMap((change: any) => change.value?.messages || []);
+
+    for (const message of messages) {
+      const hasPhoto = message.type === 'image' && !!message.image?.id;
+      const imageUrl = hasPhoto
+        ? await storeInboundPhoto('whatsapp', () => whatsappService.downloadMedia(message.image.id))
+        : undefined;
+      const text = message.type === 'image'
+        ? [message.image?.caption, !imageUrl && '(Photo sent on WhatsApp)'].filter(Boolean).join(' ')
+        : message.text?.body;
+      if (!text && !imageUrl) {
+        continue;
+      }
+
+      await orderClarificationService.receiveInboundReply('whatsapp', message.from, {
+        ...(text && { text }),
+        ...(imageUrl && { imageUrl })
+      });
+    }
+  } catch (error) {
+    // Meta retries anything but a 200, and a reply that does not fit a thread never will
+    console.error('Inbound WhatsApp processing error:', error);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Webhook processed successfully'
+  } as ApiResponse<null>);
 });
 
 /**
@@ -288,7 +427,9 @@ router.use((req: Request, res: Response, next) => {
       'user-agent': req.headers['user-agent'],
       'signature': req.headers['stripe-signature'] || 
                   req.headers['paypal-transmission-sig'] || 
-                  req.headers['x-mtn-signature'] || 'none'
+                  req.headers['x-mtn-signature'] ||
+                  req.headers['x-twilio-signature'] ||
+                  req.headers['x-hub-signature-256'] || 'none'
     },
     bodySize: req.body ? JSON.stringify(req.body).length : 0
   });
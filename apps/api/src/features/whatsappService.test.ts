@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
 import { WhatsAppService } from './whatsappService';
 
 // Mock fetch globally
@@ -8,7 +9,9 @@ global.fetch = vi.fn();
 const mockEnv = {
   WHATSAPP_ACCESS_TOKEN: 'test-whatsapp-token',
   WHATSAPP_PHONE_NUMBER_ID: 'test-phone-id',
-  WHATSAPP_BUSINESS_ACCOUNT_ID: 'test-business-id'
+  WHATSAPP_BUSINESS_ACCOUNT_ID: 'test-business-id',
+  WHATSAPP_APP_SECRET: 'test-app-secret',
+  WHATSAPP_WEBHOOK_VERIFY_TOKEN: 'test-verify-token'
 };
 
 describe('WhatsAppService', () => {
@@ -278,6 +281,65 @@ describe('WhatsAppService', () => {
     });
   });
 
+  describe('webhook verification', () => {
+    const rawBody = Buffer.from(JSON.stringify({ object: 'whatsapp_business_account', entry: [] }));
+    const sign = (secret: string) => 'sha256=' + crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+    it('should accept a body signed with the app secret', () => {
+      expect(whatsappService.verifyWebhookSignature(rawBody, sign('test-app-secret'))).toBe(true);
+    });
+
+    it('should reject other signatures, or any when the app secret is not configured', () => {
+      expect(whatsappService.verifyWebhookSignature(rawBody, sign('other-secret'))).toBe(false);
+
+      delete process.env.WHATSAPP_APP_SECRET;
+      whatsappService = new WhatsAppService();
+      expect(whatsappService.verifyWebhookSignature(rawBody, sign(''))).toBe(false);
+    });
+
+    it('should confirm the subscription only with the verify token', () => {
+      expect(whatsappService.verifyWebhookSubscription('subscribe', 'test-verify-token')).toBe(true);
+      expect(whatsappService.verifyWebhookSubscription('subscribe', 'wrong-token')).toBe(false);
+      expect(whatsappService.verifyWebhookSubscription('unsubscribe', 'test-verify-token')).toBe(false);
+    });
+  });
+
+  describe('downloadMedia', () => {
+    it('should look up the media URL and download it with the access token', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValue({ url: 'https://lookaside.fbsbx.com/whatsapp_business/attachments/?mid=1', mime_type: 'image/jpeg' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([0xff, 0xd8, 0xff]).buffer)
+        });
+
+      const photo = await whatsappService.downloadMedia('media-1');
+
+      expect(photo).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://graph.facebook.com/v18.0/media-1', {
+        method: 'GET',
+        headers: { 'Authorization': 'Bearer test-whatsapp-token' }
+      });
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://lookaside.fbsbx.com/whatsapp_business/attachments/?mid=1', {
+        method: 'GET',
+        headers: { 'Authorization': 'Bearer test-whatsapp-token' }
+      });
+    });
+
+    it('should throw when the media cannot be found', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: vi.fn().mockResolvedValue({})
+      });
+
+      await expect(whatsappService.downloadMedia('media-1')).rejects.toThrow('WhatsApp Business API endpoint not found');
+    });
+  });
+
   describe('getBusinessProfile', () => {
     it('should retrieve business profile successfully', async () => {
       const mockResponse = {
@@ -1,14 +1,20 @@
+import crypto from 'crypto';
+
 export class WhatsAppService {
   private readonly apiUrl: string;
   private readonly accessToken: string;
   private readonly phoneNumberId: string;
   private readonly apiVersion: string;
+  private readonly appSecret: string;
+  private readonly webhookVerifyToken: string;
 
   constructor() {
     this.apiUrl = 'https://graph.facebook.com';
     this.apiVersion = process.env.WHATSAPP_API_VERSION || 'v18.0';
     this.accessToken = process.env.WHATSAPP_ACCESS_TOKEN || '';
     this.phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || '';
+    this.appSecret = process.env.WHATSAPP_APP_SECRET || '';
+    this.webhookVerifyToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '';
 
     if (!this.accessToken || !this.phoneNumberId) {
       console.warn('WhatsApp API credentials not configured. WhatsApp messaging will not work.');
@@ -215,6 +221,49 @@ export class WhatsAppService {
     return !!(this.accessToken && this.phoneNumberId);
   }
 
+  /**
+   * Check the X-Hub-Signature-256 header of an incoming webhook against the raw body
+   */
+  verifyWebhookSignature(rawBody: Buffer | string, signature: string): boolean {
+    if (!this.appSecret || !signature) {
+      return false;
+    }
+
+    const expected = 'sha256=' + crypto.createHmac('sha256', this.appSecret).update(rawBody).digest('hex');
+
+    return expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Answer Meta's subscription check when the webhook URL is registered
+   */
+  verifyWebhookSubscription(mode: string, token: string): boolean {
+    return mode === 'subscribe' && !!this.webhookVerifyToken && token === this.webhookVerifyToken;
+  }
+
+  /**
+   * Download a photo a patient sent. Meta first returns a short-lived URL for the media id,
+   * which also needs the access token.
+   */
+  async downloadMedia(mediaId: string): Promise<Buffer> {
+    const headers = { 'Authorization': `Bearer ${this.accessToken}` };
+
+    const mediaResponse = await fetch(`${this.apiUrl}/${this.apiVersion}/${mediaId}`, { method: 'GET', headers });
+    if (!mediaResponse.ok) {
+      const errorData = await mediaResponse.json().catch(() => ({}));
+      throw new Error(this.parseErrorMessage({ ...errorData, status: mediaResponse.status }));
+    }
+
+    const media: { url: string } = await mediaResponse.json();
+    const response = await fetch(media.url, { method: 'GET', headers });
+    if (!response.ok) {
+      throw new Error(`WhatsApp media download failed (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
   /**
    * Get WhatsApp business profile information
    * Useful for health checks and verification
@@ -8,12 +8,19 @@ import authRoutes from './features/authRoutes';
 import { ocrRoutes } from './features/ocrRoutes';
 import { prescriptionOrderRoutes } from './features/prescriptionOrderRoutes';
 import paymentRoutes from './features/paymentRoutes';
+import pharmacySelectionRoutes from './features/pharmacySelectionRoutes';
+import prescriptionUploadRoutes from './features/prescriptionUploadRoutes';
 import webhookRoutes from './features/webhookRoutes';
 import deliveryTrackingRoutes from './features/deliveryTrackingRoutes';
 import profileRoutes from './features/profileRoutes';
 import doctorPrescriptionRoutes from './features/doctorPrescriptionRoutes';
 import notificationRoutes from './features/notificationRoutes';
 import inventoryRoutes from './features/inventoryRoutes';
+import pharmacistRoutes from './features/pharmacistRoutes';
+import courierRoutes from './features/courierRoutes';
+import jobRoutes from './features/jobRoutes';
+import { jobQueueService } from './features/jobQueueService';
+import { registerBackgroundJobs } from './features/backgroundJobs';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -23,7 +30,15 @@ const NODE_ENV = process.env.NODE_ENV || 'development';
 app.use(helmet());
 app.use(cors());
 app.use(morgan('combined'));
-app.use(express.json());
+app.use(express.json({
+  limit: '1mb', // Proof of delivery photos and signatures are sent inline
+  verify: (req, _res, buf) => {
+    // Gateway signatures are computed over the exact bytes received
+    if (req.url?.startsWith('/webhooks/')) {
+      (req as any).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check endpoint
@@ -78,6 +93,12 @@ app.use('/api/notifications', notificationRoutes);
 // Inventory routes
 app.use('/api/inventory', inventoryRoutes);
 
+// Pharmacist review routes
+app.use('/api/pharmacist', pharmacistRoutes);
+
+// Prescription upload routes
+app.use('/api/uploads', prescriptionUploadRoutes);
+
 // OCR routes
 app.use('/api', ocrRoutes);
 
@@ -87,9 +108,18 @@ app.use('/api', prescriptionOrderRoutes);
 // Payment routes
 app.use('/api', paymentRoutes);
 
+// Pharmacy selection routes
+app.use('/api', pharmacySelectionRoutes);
+
 // Delivery tracking routes
 app.use('/api/orders', deliveryTrackingRoutes);
 
+// Courier delivery routes
+app.use('/api/courier', courierRoutes);
+
+// Background job admin routes
+app.use('/api/admin/jobs', jobRoutes);
+
 // Webhook routes (no /api prefix for webhooks as they come from external services)
 app.use('/', webhookRoutes);
 
@@ -120,6 +150,10 @@ if (require.main === module) {
   app.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
+
+  // Work off OCR, messages, receipts and scheduled jobs from the Firestore queue
+  registerBackgroundJobs();
+  jobQueueService.start();
 }
 
 export default app; 
\ No newline at end of file
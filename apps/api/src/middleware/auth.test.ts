@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '@pharmarx/shared-types';
+import {
+  verifyAuth,
+  requireRole,
+  requireSelf,
+  requireOrderAccess,
+  requirePaymentAccess,
+  requireFulfillingPharmacy,
+  clearUserCache
+} from './auth';
+
+const { mockVerifyIdToken, mockDocGet, documents } = vi.hoisted(() => {
+  const documents: Record<string, Record<string, unknown>> = {};
+  return {
+    documents,
+    mockVerifyIdToken: vi.fn(),
+    mockDocGet: vi.fn((path: string) => Promise.resolve({
+      exists: path in documents,
+      data: () => documents[path]
+    }))
+  };
+});
+
+// Firestore documents are looked up by 'collection/id' in documents
+vi.mock('firebase-admin', () => ({
+  default: {
+    auth: () => ({ verifyIdToken: mockVerifyIdToken }),
+    firestore: () => ({
+      collection: (collection: string) => ({
+        doc: (id: string) => ({ get: () => mockDocGet(`${collection}/${id}`) })
+      })
+    })
+  }
+}));
+
+const createApp = () => {
+  const app = express();
+  app.get('/me', verifyAuth, (req, res) => res.json(req.user));
+  app.get('/admin', verifyAuth, requireRole(UserRole.Admin), (req, res) => res.json({ ok: true }));
+  app.get('/refunds', verifyAuth, requireRole(UserRole.Pharmacist, UserRole.Admin), (req, res) => res.json({ ok: true }));
+  app.get('/users/:uid', verifyAuth, requireSelf(), (req, res) => res.json({ ok: true }));
+  app.get('/orders/:orderId', verifyAuth, requireOrderAccess(), (req, res) => res.json({ ok: true }));
+  app.post('/orders/:orderId/pay', verifyAuth, requireOrderAccess('orderId', 'pay'), (req, res) => res.json({ ok: true }));
+  app.get('/payments/:paymentId', verifyAuth, requirePaymentAccess(), (req, res) => res.json({ ok: true }));
+  app.post('/payments/:paymentId/refunds', verifyAuth, requireFulfillingPharmacy(), (req, res) => res.json({ ok: true }));
+  return app;
+};
+
+const signInAs = (uid: string, user?: Record<string, unknown>) => {
+  mockVerifyIdToken.mockResolvedValue({ uid, email: `${uid}@example.com` });
+  if (user) {
+    documents[`users/${uid}`] = user;
+  }
+};
+
+describe('auth middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearUserCache();
+    Object.keys(documents).forEach(path => delete documents[path]);
+    app = createApp();
+  });
+
+  describe('verifyAuth', () => {
+    it('should reject requests without a bearer token', async () => {
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', 'Token abc')
+        .expect(401);
+
+      expect(response.body).toEqual({ success: false, error: 'Authorization header required' });
+    });
+
+    it('should reject invalid tokens', async () => {
+      mockVerifyIdToken.mockRejectedValue(new Error('Token expired'));
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', 'Bearer expired-token')
+        .expect(401);
+
+      expect(response.body).toEqual({ success: false, error: 'Invalid authentication token' });
+    });
+
+    it('should set the user with their role and pharmacy', async () => {
+      signInAs('pharmacist-1', {
+        role: UserRole.Pharmacist,
+        displayName: 'Awa Diallo',
+        email: 'awa@pharmacie.bj',
+        pharmacyId: 'pharmacy-1'
+      });
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        uid: 'pharmacist-1',
+        role: UserRole.Pharmacist,
+        displayName: 'Awa Diallo',
+        email: 'awa@pharmacie.bj',
+        pharmacyId: 'pharmacy-1'
+      });
+      expect(mockVerifyIdToken).toHaveBeenCalledWith('valid-token');
+    });
+
+    it('should let unregistered users through without a role', async () => {
+      signInAs('new-user');
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ uid: 'new-user', email: 'new-user@example.com' });
+    });
+
+    it('should only treat the token\'s email as verified once Firebase has verified it', async () => {
+      // The registered email is whatever the client sent at registration
+      signInAs('caregiver-2', { role: UserRole.Caregiver, email: 'ama@example.com' });
+
+      const unverified = await request(app).get('/me').set('Authorization', 'Bearer valid-token').expect(200);
+      expect(unverified.body.email).toBe('ama@example.com');
+      expect(unverified.body.verifiedEmail).toBeUndefined();
+
+      clearUserCache();
+      mockVerifyIdToken.mockResolvedValue({ uid: 'caregiver-2', email: 'caregiver-2@example.com', email_verified: true });
+      const verified = await request(app).get('/me').set('Authorization', 'Bearer valid-token').expect(200);
+      expect(verified.body.verifiedEmail).toBe('caregiver-2@example.com');
+    });
+
+    it('should load the user record once until the cache is cleared', async () => {
+      signInAs('patient-1', { role: UserRole.Patient, displayName: 'Koffi' });
+
+      await request(app).get('/me').set('Authorization', 'Bearer valid-token').expect(200);
+      await request(app).get('/me').set('Authorization', 'Bearer valid-token').expect(200);
+      expect(mockDocGet).toHaveBeenCalledTimes(1);
+
+      documents['users/patient-1'] = { role: UserRole.Caregiver, displayName: 'Koffi' };
+      clearUserCache('patient-1');
+
+      const response = await request(app).get('/me').set('Authorization', 'Bearer valid-token').expect(200);
+      expect(response.body.role).toBe(UserRole.Caregiver);
+      expect(mockDocGet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('requireRole', () => {
+    it('should allow users with one of the roles', async () => {
+      signInAs('admin-1', { role: UserRole.Admin });
+
+      await request(app).get('/refunds').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+
+    it('should reject other roles', async () => {
+      signInAs('patient-1', { role: UserRole.Patient });
+
+      const response = await request(app)
+        .get('/refunds')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body).toEqual({ success: false, error: 'Pharmacist or admin role required' });
+    });
+
+    it('should reject users who have not registered', async () => {
+      signInAs('new-user');
+
+      const response = await request(app)
+        .get('/admin')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(401);
+
+      expect(response.body.error).toBe('User not found');
+    });
+  });
+
+  describe('requireSelf', () => {
+    it('should allow users to access their own account', async () => {
+      signInAs('patient-1', { role: UserRole.Patient });
+
+      await request(app).get('/users/patient-1').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+
+    it('should reject access to other accounts', async () => {
+      signInAs('patient-1', { role: UserRole.Patient });
+
+      const response = await request(app)
+        .get('/users/patient-2')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('You can only access your own account');
+    });
+
+    it('should let admins access any account', async () => {
+      signInAs('admin-1', { role: UserRole.Admin });
+
+      await request(app).get('/users/patient-2').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+  });
+
+  describe('requireOrderAccess', () => {
+    beforeEach(() => {
+      documents['prescriptionOrders/order-1'] = { patientProfileId: 'profile-1', pharmacyId: 'pharmacy-1' };
+      documents['patientProfiles/profile-1'] = { managedByUid: 'caregiver-1' };
+    });
+
+    it('should allow the account managing the patient profile', async () => {
+      signInAs('caregiver-1', { role: UserRole.Caregiver });
+
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+
+    it('should reject other patients', async () => {
+      signInAs('caregiver-2', { role: UserRole.Caregiver });
+
+      const response = await request(app)
+        .get('/orders/order-1')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have access to this order');
+    });
+
+    it('should only allow pharmacists at the fulfilling pharmacy', async () => {
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(200);
+
+      signInAs('pharmacist-2', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-2' });
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(403);
+    });
+
+    it('should not let pharmacists without an assigned pharmacy in', async () => {
+      documents['prescriptionOrders/order-2'] = { patientProfileId: 'profile-1' };
+      signInAs('pharmacist-3', { role: UserRole.Pharmacist });
+
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(403);
+      await request(app).get('/orders/order-2').set('Authorization', 'Bearer valid-token').expect(403);
+    });
+
+    it('should only allow the courier delivering the order', async () => {
+      documents['deliveryTracking/order-1'] = { deliveryPersonId: 'courier-1' };
+
+      signInAs('courier-1', { role: UserRole.Courier });
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(200);
+
+      signInAs('courier-2', { role: UserRole.Courier });
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(403);
+    });
+
+    it('should let members the profile is shared with act within their role', async () => {
+      documents['profileMemberships/profile-1_grandparent-1'] = { profileId: 'profile-1', uid: 'grandparent-1', role: 'view_only' };
+      documents['profileMemberships/profile-1_nurse-1'] = { profileId: 'profile-1', uid: 'nurse-1', role: 'can_pay' };
+
+      signInAs('grandparent-1', { role: UserRole.Caregiver });
+      await request(app).get('/orders/order-1').set('Authorization', 'Bearer valid-token').expect(200);
+      await request(app).post('/orders/order-1/pay').set('Authorization', 'Bearer valid-token').expect(403);
+
+      signInAs('nurse-1', { role: UserRole.Caregiver });
+      await request(app).post('/orders/order-1/pay').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+
+    it('should return 404 for an unknown order', async () => {
+      signInAs('caregiver-1', { role: UserRole.Caregiver });
+
+      const response = await request(app)
+        .get('/orders/missing-order')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+
+      expect(response.body.error).toBe('Order not found');
+    });
+  });
+
+  describe('requirePaymentAccess', () => {
+    beforeEach(() => {
+      documents['payments/payment-1'] = { paymentId: 'payment-1', orderId: 'order-1' };
+      documents['prescriptionOrders/order-1'] = { patientProfileId: 'profile-1', pharmacyId: 'pharmacy-1' };
+      documents['patientProfiles/profile-1'] = { managedByUid: 'caregiver-1' };
+    });
+
+    it('should allow users with access to the order the payment is for', async () => {
+      signInAs('caregiver-1', { role: UserRole.Caregiver });
+      await request(app).get('/payments/payment-1').set('Authorization', 'Bearer valid-token').expect(200);
+
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+      await request(app).get('/payments/payment-1').set('Authorization', 'Bearer valid-token').expect(200);
+    });
+
+    it('should reject everyone else', async () => {
+      signInAs('caregiver-2', { role: UserRole.Caregiver });
+
+      const response = await request(app)
+        .get('/payments/payment-1')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have access to this payment');
+    });
+
+    it('should return 404 for an unknown payment', async () => {
+      signInAs('caregiver-1', { role: UserRole.Caregiver });
+
+      const response = await request(app)
+        .get('/payments/missing-payment')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(404);
+
+      expect(response.body.error).toBe('Payment not found');
+    });
+  });
+
+  describe('requireFulfillingPharmacy', () => {
+    beforeEach(() => {
+      documents['payments/payment-1'] = { paymentId: 'payment-1', orderId: 'order-1' };
+      documents['prescriptionOrders/order-1'] = { patientProfileId: 'profile-1', pharmacyId: 'pharmacy-1' };
+    });
+
+    it('should only allow pharmacists at the pharmacy fulfilling the order', async () => {
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+      await request(app).post('/payments/payment-1/refunds').set('Authorization', 'Bearer valid-token').expect(200);
+
+      signInAs('pharmacist-2', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-2' });
+      const response = await request(app).post('/payments/payment-1/refunds').set('Authorization', 'Bearer valid-token').expect(403);
+      expect(response.body.error).toBe('Only the pharmacy fulfilling this order can do this');
+    });
+
+    it('should not open orders without a pharmacy to every pharmacist', async () => {
+      documents['prescriptionOrders/order-1'] = { patientProfileId: 'profile-1' };
+
+      signInAs('pharmacist-1', { role: UserRole.Pharmacist, pharmacyId: 'pharmacy-1' });
+      await request(app).post('/payments/payment-1/refunds').set('Authorization', 'Bearer valid-token').expect(403);
+    });
+
+    it('should leave other roles to requireRole', async () => {
+      signInAs('admin-1', { role: UserRole.Admin });
+      await request(app).post('/payments/payment-1/refunds').set('Authorization', 'Bearer valid-token').expect(200);
+      expect(mockDocGet).not.toHaveBeenCalledWith('payments/payment-1');
+    });
+  });
+});
@@ -0,0 +1,381 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  ApiResponse,
+  ProfileAction,
+  ProfileMembershipRole,
+  UserRole,
+  canPerformProfileAction,
+  getProfileMembershipId
+} from '@pharmarx/shared-types';
+import admin from 'firebase-admin';
+
+/**
+ * The signed-in user, set on req.user by verifyAuth
+ */
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string; // As registered; not verified
+  verifiedEmail?: string; // The token's email, only once Firebase has verified it
+  phoneNumber?: string; // From the token; Firebase verifies it at sign-in
+  role?: UserRole; // Unset until the user has registered
+  displayName?: string;
+  pharmacyId?: string; // Pharmacists only: the pharmacy they work at
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+type UserRecord = Pick<AuthenticatedUser, 'role' | 'displayName' | 'email' | 'pharmacyId'>;
+
+// Where a guard finds the id of the resource being accessed: a route param name, or a function of the request
+type ResourceLocator = string | ((req: Request) => unknown);
+
+// What canAccessOrder needs to know about an order
+interface OrderAccessFields {
+  orderId: string;
+  patientProfileId: string;
+  pharmacyId?: string;
+  doctorPrescriptionId?: string;
+}
+
+// Role changes reach every instance within this long
+const USER_CACHE_TTL_MS = 60 * 1000;
+
+const userCache = new Map<string, { record: UserRecord | null; expiresAt: number }>();
+
+const sendError = (res: Response, status: number, error: string) =>
+  res.status(status).json({
+    success: false,
+    error
+  } as ApiResponse<null>);
+
+const locate = (req: Request, locator: ResourceLocator): string | undefined => {
+  const value = typeof locator === 'string' ? req.params[locator] : locator(req);
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+/**
+ * Role and affiliations from the user's record, or null when they have not registered
+ */
+const loadUserRecord = async (uid: string): Promise<UserRecord | null> => {
+  const cached = userCache.get(uid);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.record;
+  }
+
+  const userDoc = await admin.firestore().collection('users').doc(uid).get();
+  const data = userDoc.exists ? userDoc.data() : undefined;
+  const record: UserRecord | null = data
+    ? {
+        role: data.role,
+        displayName: data.displayName,
+        email: data.email,
+        pharmacyId: data.pharmacyId
+      }
+    : null;
+
+  userCache.set(uid, { record, expiresAt: Date.now() + USER_CACHE_TTL_MS });
+  return record;
+};
+
+/**
+ * Forget cached user records so a role or pharmacy change applies on the next request.
+ * Clears every user when no uid is given.
+ */
+export const clearUserCache = (uid?: string): void => {
+  if (uid) {
+    userCache.delete(uid);
+  } else {
+    userCache.clear();
+  }
+};
+
+/**
+ * The user's role for a patient profile: owner when they manage it, their membership role
+ * when it is shared with them, or null
+ */
+export const getProfileMembershipRole = async (uid: string, profileId: string): Promise<ProfileMembershipRole | null> => {
+  const db = admin.firestore();
+  const profileDoc = await db.collection('patientProfiles').doc(profileId).get();
+  if (!profileDoc.exists) {
+    return null;
+  }
+  if (profileDoc.data()?.managedByUid === uid) {
+    return 'owner';
+  }
+
+  const membershipDoc = await db.collection('profileMemberships').doc(getProfileMembershipId(profileId, uid)).get();
+  return membershipDoc.exists ? membershipDoc.data()?.role ?? null : null;
+};
+
+/**
+ * Whether the user may take the action for a patient profile: as its owner, as a member
+ * whose role allows it, or as an admin
+ */
+export const canAccessProfile = async (
+  user: AuthenticatedUser,
+  profileId: string,
+  action: ProfileAction = 'view'
+): Promise<boolean> => {
+  if (user.role === UserRole.Admin) {
+    return true;
+  }
+
+  return canPerformProfileAction(await getProfileMembershipRole(user.uid, profileId), action);
+};
+
+/**
+ * Whether the user may see an order: the patient's account, a pharmacist at the fulfilling
+ * pharmacy, the courier delivering it, the prescribing doctor, or an admin.
+ * Patients and caregivers also need the action on the order's profile, see canAccessProfile.
+ */
+export const canAccessOrder = async (
+  user: AuthenticatedUser,
+  order: OrderAccessFields,
+  action: ProfileAction = 'view'
+): Promise<boolean> => {
+  const db = admin.firestore();
+
+  switch (user.role) {
+    case UserRole.Admin:
+      return true;
+    case UserRole.Pharmacist:
+      // Pharmacists need an assigned pharmacy; orders not yet placed with one are open to all of them,
+      // as in the review queue
+      return !!user.pharmacyId && (!order.pharmacyId || order.pharmacyId === user.pharmacyId);
+    case UserRole.Courier: {
+      const trackingDoc = await db.collection('deliveryTracking').doc(order.orderId).get();
+      return trackingDoc.exists && trackingDoc.data()?.deliveryPersonId === user.uid;
+    }
+    case UserRole.Doctor: {
+      if (!order.doctorPrescriptionId) {
+        return false;
+      }
+      const prescriptionDoc = await db.collection('doctorPrescriptions').doc(order.doctorPrescriptionId).get();
+      return prescriptionDoc.exists && prescriptionDoc.data()?.doctorUid === user.uid;
+    }
+    default:
+      return canAccessProfile(user, order.patientProfileId, action);
+  }
+};
+
+/**
+ * Verify the Firebase ID token and set req.user with the user's role and affiliations.
+ * Unregistered users pass with no role; use requireRole to keep them out.
+ */
+export const verifyAuth = async (req: Request, res: Response, next: NextFunction) => {
+  // Routers mounted on the same path can each apply verifyAuth; the first one does the work
+  if (req.user) {
+    return next();
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return sendError(res, 401, 'Authorization header required');
+  }
+
+  let decodedToken: admin.auth.DecodedIdToken;
+  try {
+    decodedToken = await admin.auth().verifyIdToken(authHeader.substring(7));
+  } catch (error) {
+    return sendError(res, 401, 'Invalid authentication token');
+  }
+
+  try {
+    const record = await loadUserRecord(decodedToken.uid);
+
+    req.user = {
+      uid: decodedToken.uid,
+      email: record?.email || decodedToken.email,
+      verifiedEmail: decodedToken.email_verified ? decodedToken.email : undefined,
+      phoneNumber: decodedToken.phone_number,
+      role: record?.role,
+      displayName: record?.displayName,
+      pharmacyId: record?.pharmacyId
+    };
+
+    next();
+  } catch (error) {
+    console.error('Error loading authenticated user:', error);
+    return sendError(res, 500, 'Failed to load user');
+  }
+};
+
+/**
+ * Allow only users with one of the roles. Runs after verifyAuth.
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  const message = `${roles.join(' or ')} role required`;
+  const error = message.charAt(0).toUpperCase() + message.slice(1);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+    if (!req.user.role) {
+      return sendError(res, 401, 'User not found');
+    }
+    if (!roles.includes(req.user.role)) {
+      return sendError(res, 403, error);
+    }
+    next();
+  };
+};
+
+/**
+ * Allow only the user whose uid is in the request, or an admin. Runs after verifyAuth.
+ */
+export const requireSelf = (locator: ResourceLocator = 'uid', message = 'You can only access your own account') =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+    if (req.user.role !== UserRole.Admin && locate(req, locator) !== req.user.uid) {
+      return sendError(res, 403, message);
+    }
+    next();
+  };
+
+/**
+ * Allow only users who may take the action for the patient profile in the request. Runs after verifyAuth.
+ * A request without a profile id is passed on for the route to reject.
+ */
+export const requireProfileAccess = (locator: ResourceLocator = 'profileId', action: ProfileAction = 'view') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+
+    const profileId = locate(req, locator);
+    if (!profileId) {
+      return next();
+    }
+
+    try {
+      if (!(await canAccessProfile(req.user, profileId, action))) {
+        return sendError(res, 403, 'You do not have access to this patient profile');
+      }
+      next();
+    } catch (error) {
+      console.error('Error checking patient profile access:', error);
+      return sendError(res, 500, 'Failed to verify access');
+    }
+  };
+
+// The stored order's access fields, or null when there is no such order
+const loadOrderForAccess = async (orderId: string): Promise<OrderAccessFields | null> => {
+  const orderDoc = await admin.firestore().collection('prescriptionOrders').doc(orderId).get();
+  if (!orderDoc.exists) {
+    return null;
+  }
+
+  const order = orderDoc.data()!;
+  return {
+    orderId,
+    patientProfileId: order.patientProfileId,
+    pharmacyId: order.pharmacyId,
+    doctorPrescriptionId: order.doctorPrescriptionId
+  };
+};
+
+/**
+ * Allow only users who may take the action on the order in the request, see canAccessOrder.
+ * Runs after verifyAuth.
+ */
+export const requireOrderAccess = (locator: ResourceLocator = 'orderId', action: ProfileAction = 'view') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+
+    const orderId = locate(req, locator);
+    if (!orderId) {
+      return next();
+    }
+
+    try {
+      const order = await loadOrderForAccess(orderId);
+      if (!order) {
+        return sendError(res, 404, 'Order not found');
+      }
+
+      if (!(await canAccessOrder(req.user, order, action))) {
+        return sendError(res, 403, 'You do not have access to this order');
+      }
+      next();
+    } catch (error) {
+      console.error('Error checking order access:', error);
+      return sendError(res, 500, 'Failed to verify access');
+    }
+  };
+
+/**
+ * Allow only users who may take the action on the order the payment in the request is for,
+ * see canAccessOrder. Runs after verifyAuth.
+ */
+export const requirePaymentAccess = (locator: ResourceLocator = 'paymentId', action: ProfileAction = 'view') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+
+    const paymentId = locate(req, locator);
+    if (!paymentId) {
+      return next();
+    }
+
+    try {
+      const paymentDoc = await admin.firestore().collection('payments').doc(paymentId).get();
+      if (!paymentDoc.exists) {
+        return sendError(res, 404, 'Payment not found');
+      }
+
+      const order = await loadOrderForAccess(paymentDoc.data()!.orderId);
+      if (!order || !(await canAccessOrder(req.user, order, action))) {
+        return sendError(res, 403, 'You do not have access to this payment');
+      }
+      next();
+    } catch (error) {
+      console.error('Error checking payment access:', error);
+      return sendError(res, 500, 'Failed to verify access');
+    }
+  };
+
+/**
+ * Keeps pharmacists to payments for orders placed with their own pharmacy, for actions that
+ * move money. Unlike canAccessOrder, orders without a pharmacy are not open to every pharmacist.
+ * Other roles pass through, so pair it with requireRole.
+ */
+export const requireFulfillingPharmacy = (locator: ResourceLocator = 'paymentId') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 401, 'Authorization header required');
+    }
+
+    const paymentId = locate(req, locator);
+    if (req.user.role !== UserRole.Pharmacist || !paymentId) {
+      return next();
+    }
+
+    try {
+      const paymentDoc = await admin.firestore().collection('payments').doc(paymentId).get();
+      if (!paymentDoc.exists) {
+        return sendError(res, 404, 'Payment not found');
+      }
+
+      const order = await loadOrderForAccess(paymentDoc.data()!.orderId);
+      if (!order?.pharmacyId || order.pharmacyId !== req.user.pharmacyId) {
+        return sendError(res, 403, 'Only the pharmacy fulfilling this order can do this');
+      }
+      next();
+    } catch (error) {
+      console.error('Error checking pharmacy access:', error);
+      return sendError(res, 500, 'Failed to verify access');
+    }
+  };
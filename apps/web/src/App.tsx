@@ -4,13 +4,13 @@ import RegisterPage from './features/auth/RegisterPage';
 import LoginPage from './features/auth/LoginPage';
 import PatientPortal from './components/portals/PatientPortal';
 import CaregiverPortal from './components/portals/CaregiverPortal';
+import CourierPortal from './components/portals/CourierPortal';
+import PharmacistPortal from './components/portals/PharmacistPortal';
+import DoctorPortal from './components/portals/DoctorPortal';
 import MapDemo from './components/MapDemo';
 import SimpleMapTest from './components/SimpleMapTest';
-import { AuthenticationService } from './services/authenticationService';
 import { logGoogleMapsStatus } from './utils/googleMapsValidator';
 import { useAuthStore } from './stores/authStore';
-// TODO: Create dedicated DoctorPortal and PharmacistPortal components
-// For now, use the placeholder components defined below
 
 // Simple error boundary component
 class ErrorBoundary extends React.Component<
@@ -130,8 +130,9 @@ function App() {
             <Route path="/register" element={<RegisterPage />} />
             <Route path="/portal/patient" element={<PatientPortal />} />
             <Route path="/portal/caregiver" element={<CaregiverPortal />} />
-            <Route path="/portal/doctor" element={<DoctorPortalPlaceholder />} />
-            <Route path="/portal/pharmacist" element={<PharmacistPortalPlaceholder />} />
+            <Route path="/portal/doctor" element={<DoctorPortal />} />
+            <Route path="/portal/pharmacist" element={<PharmacistPortal />} />
+            <Route path="/portal/courier" element={<CourierPortal />} />
             <Route path="/map-demo" element={<MapDemo />} />
             <Route path="/simple-map-test" element={<SimpleMapTest />} />
           </Routes>
@@ -1330,969 +1331,4 @@ function CaregiverPortalPlaceholder() {
   );
 }
 
-function DoctorPortalPlaceholder() {
-  const navigate = useNavigate();
-  const authService = AuthenticationService.getInstance();
-  
-  const [patients, setPatients] = React.useState([
-    { id: 1, name: 'John Smith', age: 45, lastVisit: '2024-01-10', nextAppointment: '2024-01-15', status: 'Active' },
-    { id: 2, name: 'Sarah Wilson', age: 32, lastVisit: '2024-01-08', nextAppointment: '2024-01-22', status: 'Active' },
-    { id: 3, name: 'Michael Brown', age: 58, lastVisit: '2024-01-05', nextAppointment: null, status: 'Inactive' }
-  ]);
-
-  const [appointments, setAppointments] = React.useState([
-    { id: 1, patient: 'John Smith', date: '2024-01-15', time: '10:00 AM', type: 'Check-up', status: 'Confirmed' },
-    { id: 2, patient: 'Sarah Wilson', date: '2024-01-22', time: '2:30 PM', type: 'Follow-up', status: 'Pending' },
-    { id: 3, patient: 'Emily Davis', date: '2024-01-16', time: '11:00 AM', type: 'New Patient', status: 'Confirmed' }
-  ]);
-
-  const [prescriptions, setPrescriptions] = React.useState([
-    { id: 1, patient: 'John Smith', medication: 'Aspirin', dosage: '100mg', frequency: 'Once daily', status: 'Active', date: '2024-01-10' },
-    { id: 2, patient: 'Sarah Wilson', medication: 'Vitamin D', dosage: '1000 IU', frequency: 'Once daily', status: 'Active', date: '2024-01-08' },
-    { id: 3, patient: 'John Smith', medication: 'Metformin', dosage: '500mg', frequency: 'Twice daily', status: 'Pending', date: '2024-01-15' }
-  ]);
-
-  const [activeTab, setActiveTab] = React.useState('dashboard');
-
-  const handleLogout = async () => {
-    try {
-      await authService.logout();
-      navigate('/');
-    } catch (error) {
-      console.error('Logout failed:', error);
-      // Even if logout fails, redirect to home for security
-      navigate('/');
-    }
-  };
-
-  const handlePrescriptionApproval = (prescriptionId: number) => {
-    setPrescriptions(prev => 
-      prev.map(p => p.id === prescriptionId ? { ...p, status: 'Active' } : p)
-    );
-  };
-
-  return (
-    <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <header className="bg-white shadow">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center py-6">
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900">Doctor Portal</h1>
-              <p className="text-gray-600">Manage patients, appointments, and prescriptions</p>
-            </div>
-            <div className="flex items-center space-x-4">
-              <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                New Patient
-              </button>
-              <button className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700">
-                Schedule Appointment
-              </button>
-              <button onClick={handleLogout} className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700">
-                Logout
-              </button>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Navigation Tabs */}
-      <div className="bg-white border-b">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <nav className="flex space-x-8">
-            {[
-              { id: 'dashboard', label: 'Dashboard', icon: '📊' },
-              { id: 'patients', label: 'Patients', icon: '👥' },
-              { id: 'appointments', label: 'Appointments', icon: '📅' },
-              { id: 'prescriptions', label: 'Prescriptions', icon: '💊' },
-              { id: 'reports', label: 'Reports', icon: '📋' }
-            ].map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                  activeTab === tab.id
-                    ? 'border-blue-500 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                }`}
-              >
-                <span className="mr-2">{tab.icon}</span>
-                {tab.label}
-              </button>
-            ))}
-          </nav>
-        </div>
-      </div>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-        <div className="px-4 py-6 sm:px-0">
-          {/* Dashboard Tab */}
-          {activeTab === 'dashboard' && (
-            <>
-              {/* Dashboard Cards */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-blue-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">👥</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Active Patients</dt>
-                          <dd className="text-lg font-medium text-gray-900">{patients.filter(p => p.status === 'Active').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-green-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">📅</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Today's Appointments</dt>
-                          <dd className="text-lg font-medium text-gray-900">{appointments.filter(a => a.status === 'Confirmed').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-yellow-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">💊</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Pending Prescriptions</dt>
-                          <dd className="text-lg font-medium text-gray-900">{prescriptions.filter(p => p.status === 'Pending').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-purple-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">📊</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">This Month</dt>
-                          <dd className="text-lg font-medium text-gray-900">24</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Quick Actions */}
-              <div className="bg-white shadow sm:rounded-lg mb-8">
-                <div className="px-4 py-5 sm:p-6">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Quick Actions</h3>
-                  <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-blue-50 text-blue-700 ring-4 ring-white">
-                          👤
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Add Patient
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Register new patient</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-green-50 text-green-700 ring-4 ring-white">
-                          📅
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Schedule Appointment
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Book patient appointments</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-yellow-50 text-yellow-700 ring-4 ring-white">
-                          💊
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Write Prescription
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Prescribe medications</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-purple-50 text-purple-700 ring-4 ring-white">
-                          📊
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          View Reports
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Patient reports & analytics</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-purple-50 text-purple-700 ring-4 ring-white">
-                          💬
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Contact Support
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Get help and support</p>
-                      </div>
-                    </button>
-                  </div>
-                </div>
-              </div>
-
-              {/* Today's Schedule */}
-              <div className="bg-white shadow overflow-hidden sm:rounded-lg">
-                <div className="px-4 py-5 sm:px-6">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Today's Schedule</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Your appointments for today</p>
-                </div>
-                <div className="border-t border-gray-200">
-                  <ul className="divide-y divide-gray-200">
-                    {appointments.filter(a => a.status === 'Confirmed').slice(0, 3).map((appointment) => (
-                      <li key={appointment.id} className="px-4 py-4 sm:px-6">
-                        <div className="flex items-center space-x-3">
-                          <div className="flex-shrink-0">
-                            <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                              <span className="text-green-600 text-sm">🏥</span>
-                            </div>
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium text-gray-900">{appointment.patient}</p>
-                            <p className="text-sm text-gray-500">{appointment.type} • {appointment.time}</p>
-                          </div>
-                          <div className="flex-shrink-0">
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                              {appointment.status}
-                            </span>
-                          </div>
-                        </div>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              </div>
-            </>
-          )}
-
-          {/* Patients Tab */}
-          {activeTab === 'patients' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-                <div>
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Your Patients</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Patient list and information</p>
-                </div>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                  Add New Patient
-                </button>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {patients.map((patient) => (
-                  <li key={patient.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
-                            <span className="text-blue-600 font-bold">👤</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{patient.name}</div>
-                          <div className="text-sm text-gray-500">Age: {patient.age} • Last Visit: {patient.lastVisit}</div>
-                          {patient.nextAppointment && (
-                            <div className="text-xs text-gray-400">Next: {patient.nextAppointment}</div>
-                          )}
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          patient.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {patient.status}
-                        </span>
-                        <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">
-                          View Profile
-                        </button>
-                        <button className="text-green-600 hover:text-green-900 text-sm font-medium">
-                          Schedule
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Appointments Tab */}
-          {activeTab === 'appointments' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-                <div>
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Appointments</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Scheduled appointments and calendar</p>
-                </div>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                  Schedule Appointment
-                </button>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {appointments.map((appointment) => (
-                  <li key={appointment.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-green-100 flex items-center justify-center">
-                            <span className="text-green-600 font-bold">🏥</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{appointment.patient}</div>
-                          <div className="text-sm text-gray-500">{appointment.type} • {appointment.date} at {appointment.time}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          appointment.status === 'Confirmed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {appointment.status}
-                        </span>
-                        <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">
-                          Start
-                        </button>
-                        <button className="text-gray-600 hover:text-gray-900 text-sm font-medium">
-                          Reschedule
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Prescriptions Tab */}
-          {activeTab === 'prescriptions' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-                <div>
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Prescriptions</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Manage patient prescriptions</p>
-                </div>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                  Write Prescription
-                </button>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {prescriptions.map((prescription) => (
-                  <li key={prescription.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
-                            <span className="text-blue-600 font-bold">💊</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{prescription.patient}</div>
-                          <div className="text-sm text-gray-500">{prescription.medication} • {prescription.dosage} • {prescription.frequency}</div>
-                          <div className="text-xs text-gray-400">Prescribed: {prescription.date}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          prescription.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {prescription.status}
-                        </span>
-                        {prescription.status === 'Pending' && (
-                          <button 
-                            onClick={() => handlePrescriptionApproval(prescription.id)}
-                            className="text-green-600 hover:text-green-900 text-sm font-medium"
-                          >
-                            Approve
-                          </button>
-                        )}
-                        <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">
-                          View Details
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Reports Tab */}
-          {activeTab === 'reports' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6">
-                <h3 className="text-lg leading-6 font-medium text-gray-900">Reports & Analytics</h3>
-                <p className="mt-1 max-w-2xl text-sm text-gray-500">Patient reports and practice analytics</p>
-              </div>
-              <div className="border-t border-gray-200">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 p-6">
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Patient Demographics</h4>
-                    <p className="text-sm text-gray-600 mb-3">Age, gender, and location analysis</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">View Report</button>
-                  </div>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Appointment Analytics</h4>
-                    <p className="text-sm text-gray-600 mb-3">Scheduling patterns and trends</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">View Report</button>
-                  </div>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Prescription Trends</h4>
-                    <p className="text-sm text-gray-600 mb-3">Medication patterns and usage</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">View Report</button>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-      </main>
-    </div>
-  );
-}
-
-function PharmacistPortalPlaceholder() {
-  const navigate = useNavigate();
-  const authService = AuthenticationService.getInstance();
-  
-  const [prescriptions, setPrescriptions] = React.useState([
-    { id: 1, patient: 'John Smith', doctor: 'Dr. Sarah Johnson', medication: 'Aspirin', dosage: '100mg', frequency: 'Once daily', status: 'Ready', refills: 2, date: '2024-01-15' },
-    { id: 2, patient: 'Sarah Wilson', doctor: 'Dr. Michael Chen', medication: 'Vitamin D', dosage: '1000 IU', frequency: 'Once daily', status: 'In Progress', refills: 1, date: '2024-01-16' },
-    { id: 3, patient: 'Emily Davis', doctor: 'Dr. Sarah Johnson', medication: 'Metformin', dosage: '500mg', frequency: 'Twice daily', status: 'Pending', refills: 0, date: '2024-01-17' }
-  ]);
-
-  const [inventory, setInventory] = React.useState([
-    { id: 1, medication: 'Aspirin 100mg', quantity: 150, unit: 'tablets', status: 'In Stock', reorderLevel: 50 },
-    { id: 2, medication: 'Vitamin D 1000 IU', quantity: 75, unit: 'tablets', status: 'Low Stock', reorderLevel: 100 },
-    { id: 3, medication: 'Metformin 500mg', quantity: 200, unit: 'tablets', status: 'In Stock', reorderLevel: 50 }
-  ]);
-
-  const [refillRequests, setRefillRequests] = React.useState([
-    { id: 1, patient: 'John Smith', medication: 'Aspirin', status: 'Approved', date: '2024-01-15' },
-    { id: 2, patient: 'Sarah Wilson', medication: 'Vitamin D', status: 'Pending', date: '2024-01-16' }
-  ]);
-
-  const [activeTab, setActiveTab] = React.useState('dashboard');
-
-  const handleLogout = async () => {
-    try {
-      await authService.logout();
-      navigate('/');
-    } catch (error) {
-      console.error('Logout failed:', error);
-      // Even if logout fails, redirect to home for security
-      navigate('/');
-    }
-  };
-
-  const handlePrescriptionStatus = (prescriptionId: number, newStatus: string) => {
-    setPrescriptions(prev => 
-      prev.map(p => p.id === prescriptionId ? { ...p, status: newStatus } : p)
-    );
-  };
-
-  const handleRefillApproval = (refillId: number) => {
-    setRefillRequests(prev => 
-      prev.map(r => r.id === refillId ? { ...r, status: 'Approved' } : r)
-    );
-  };
-
-  return (
-    <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <header className="bg-white shadow">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center py-6">
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900">Pharmacist Portal</h1>
-              <p className="text-gray-600">Manage prescriptions, inventory, and patient consultations</p>
-            </div>
-            <div className="flex items-center space-x-4">
-              <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                New Prescription
-              </button>
-              <button className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700">
-                Check Inventory
-              </button>
-              <button onClick={handleLogout} className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700">
-                Logout
-              </button>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Navigation Tabs */}
-      <div className="bg-white border-b">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <nav className="flex space-x-8">
-            {[
-              { id: 'dashboard', label: 'Dashboard', icon: '📊' },
-              { id: 'prescriptions', label: 'Prescriptions', icon: '💊' },
-              { id: 'inventory', label: 'Inventory', icon: '📦' },
-              { id: 'refills', label: 'Refill Requests', icon: '🔄' },
-              { id: 'consultations', label: 'Consultations', icon: '💬' }
-            ].map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                  activeTab === tab.id
-                    ? 'border-blue-500 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                }`}
-              >
-                <span className="mr-2">{tab.icon}</span>
-                {tab.label}
-              </button>
-            ))}
-          </nav>
-        </div>
-      </div>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-        <div className="px-4 py-6 sm:px-0">
-          {/* Dashboard Tab */}
-          {activeTab === 'dashboard' && (
-            <>
-              {/* Dashboard Cards */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-blue-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">💊</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Ready Prescriptions</dt>
-                          <dd className="text-lg font-medium text-gray-900">{prescriptions.filter(p => p.status === 'Ready').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-yellow-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">⏳</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">In Progress</dt>
-                          <dd className="text-lg font-medium text-gray-900">{prescriptions.filter(p => p.status === 'In Progress').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-red-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">⚠️</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Low Stock Items</dt>
-                          <dd className="text-lg font-medium text-gray-900">{inventory.filter(i => i.status === 'Low Stock').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white overflow-hidden shadow rounded-lg">
-                  <div className="p-5">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 bg-green-500 rounded-md flex items-center justify-center">
-                          <span className="text-white font-bold">🔄</span>
-                        </div>
-                      </div>
-                      <div className="ml-5 w-0 flex-1">
-                        <dl>
-                          <dt className="text-sm font-medium text-gray-500 truncate">Refill Requests</dt>
-                          <dd className="text-lg font-medium text-gray-900">{refillRequests.filter(r => r.status === 'Pending').length}</dd>
-                        </dl>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Quick Actions */}
-              <div className="bg-white shadow sm:rounded-lg mb-8">
-                <div className="px-4 py-5 sm:p-6">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Quick Actions</h3>
-                  <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-blue-50 text-blue-700 ring-4 ring-white">
-                          💊
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Fill Prescription
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Process new prescriptions</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-green-50 text-green-700 ring-4 ring-white">
-                          📦
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Check Inventory
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Review stock levels</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-yellow-50 text-yellow-700 ring-4 ring-white">
-                          🔄
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Process Refills
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Handle refill requests</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-purple-50 text-purple-700 ring-4 ring-white">
-                          💬
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Patient Consultation
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Provide medication advice</p>
-                      </div>
-                    </button>
-
-                    <button className="relative group bg-white p-6 focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500 rounded-lg border border-gray-200 hover:border-blue-300">
-                      <div>
-                        <span className="rounded-lg inline-flex p-3 bg-purple-50 text-purple-700 ring-4 ring-white">
-                          💬
-                        </span>
-                      </div>
-                      <div className="mt-4">
-                        <h3 className="text-lg font-medium">
-                          <span className="absolute inset-0" aria-hidden="true" />
-                          Contact Support
-                        </h3>
-                        <p className="mt-2 text-sm text-gray-500">Get help and support</p>
-                      </div>
-                    </button>
-                  </div>
-                </div>
-              </div>
-
-              {/* Today's Prescriptions */}
-              <div className="bg-white shadow overflow-hidden sm:rounded-lg">
-                <div className="px-4 py-5 sm:px-6">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Today's Prescriptions</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Prescriptions to be filled today</p>
-                </div>
-                <div className="border-t border-gray-200">
-                  <ul className="divide-y divide-gray-200">
-                    {prescriptions.filter(p => p.status === 'Ready').slice(0, 3).map((prescription) => (
-                      <li key={prescription.id} className="px-4 py-4 sm:px-6">
-                        <div className="flex items-center space-x-3">
-                          <div className="flex-shrink-0">
-                            <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                              <span className="text-green-600 text-sm">💊</span>
-                            </div>
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium text-gray-900">{prescription.patient}</p>
-                            <p className="text-sm text-gray-500">{prescription.medication} • {prescription.dosage}</p>
-                          </div>
-                          <div className="flex-shrink-0">
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                              {prescription.status}
-                            </span>
-                          </div>
-                        </div>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              </div>
-            </>
-          )}
-
-          {/* Prescriptions Tab */}
-          {activeTab === 'prescriptions' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-                <div>
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Prescriptions</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Manage prescription filling and dispensing</p>
-                </div>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                  New Prescription
-                </button>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {prescriptions.map((prescription) => (
-                  <li key={prescription.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
-                            <span className="text-blue-600 font-bold">💊</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{prescription.patient}</div>
-                          <div className="text-sm text-gray-500">{prescription.medication} • {prescription.dosage} • {prescription.frequency}</div>
-                          <div className="text-xs text-gray-400">Dr. {prescription.doctor} • {prescription.date}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          prescription.status === 'Ready' ? 'bg-green-100 text-green-800' :
-                          prescription.status === 'In Progress' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {prescription.status}
-                        </span>
-                        {prescription.status === 'Pending' && (
-                          <button 
-                            onClick={() => handlePrescriptionStatus(prescription.id, 'In Progress')}
-                            className="text-blue-600 hover:text-blue-900 text-sm font-medium"
-                          >
-                            Start Filling
-                          </button>
-                        )}
-                        {prescription.status === 'In Progress' && (
-                          <button 
-                            onClick={() => handlePrescriptionStatus(prescription.id, 'Ready')}
-                            className="text-green-600 hover:text-green-900 text-sm font-medium"
-                          >
-                            Mark Ready
-                          </button>
-                        )}
-                        <button className="text-gray-600 hover:text-gray-900 text-sm font-medium">
-                          View Details
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Inventory Tab */}
-          {activeTab === 'inventory' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-                <div>
-                  <h3 className="text-lg leading-6 font-medium text-gray-900">Inventory Management</h3>
-                  <p className="mt-1 max-w-2xl text-sm text-gray-500">Track medication stock levels</p>
-                </div>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                  Add Stock
-                </button>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {inventory.map((item) => (
-                  <li key={item.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-green-100 flex items-center justify-center">
-                            <span className="text-green-600 font-bold">📦</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{item.medication}</div>
-                          <div className="text-sm text-gray-500">Quantity: {item.quantity} {item.unit}</div>
-                          <div className="text-xs text-gray-400">Reorder Level: {item.reorderLevel} {item.unit}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          item.status === 'In Stock' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}>
-                          {item.status}
-                        </span>
-                        <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">
-                          Reorder
-                        </button>
-                        <button className="text-gray-600 hover:text-gray-900 text-sm font-medium">
-                          Update Stock
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Refill Requests Tab */}
-          {activeTab === 'refills' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6">
-                <h3 className="text-lg leading-6 font-medium text-gray-900">Refill Requests</h3>
-                <p className="mt-1 max-w-2xl text-sm text-gray-500">Patient refill requests and approvals</p>
-              </div>
-              <ul className="divide-y divide-gray-200">
-                {refillRequests.map((refill) => (
-                  <li key={refill.id} className="px-4 py-4 sm:px-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
-                            <span className="text-blue-600 font-bold">🔄</span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{refill.patient}</div>
-                          <div className="text-sm text-gray-500">{refill.medication}</div>
-                          <div className="text-xs text-gray-400">Requested: {refill.date}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          refill.status === 'Approved' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {refill.status}
-                        </span>
-                        {refill.status === 'Pending' && (
-                          <button 
-                            onClick={() => handleRefillApproval(refill.id)}
-                            className="text-green-600 hover:text-green-900 text-sm font-medium"
-                          >
-                            Approve
-                          </button>
-                        )}
-                        <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">
-                          View Details
-                        </button>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Consultations Tab */}
-          {activeTab === 'consultations' && (
-            <div className="bg-white shadow overflow-hidden sm:rounded-md">
-              <div className="px-4 py-5 sm:px-6">
-                <h3 className="text-lg leading-6 font-medium text-gray-900">Patient Consultations</h3>
-                <p className="mt-1 max-w-2xl text-sm text-gray-500">Medication counseling and advice</p>
-              </div>
-              <div className="border-t border-gray-200">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 p-6">
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Drug Interactions</h4>
-                    <p className="text-sm text-gray-600 mb-3">Check for potential drug interactions</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">Check Interactions</button>
-                  </div>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Side Effects</h4>
-                    <p className="text-sm text-gray-600 mb-3">Review medication side effects</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">View Information</button>
-                  </div>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <h4 className="font-medium text-gray-900 mb-2">Dosage Calculator</h4>
-                    <p className="text-sm text-gray-600 mb-3">Calculate proper dosages</p>
-                    <button className="text-blue-600 hover:text-blue-900 text-sm font-medium">Calculate</button>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-      </main>
-    </div>
-  );
-}
-
 export default App; 
\ No newline at end of file
@@ -40,8 +40,7 @@ export const PrescriptionFlow: React.FC<PrescriptionFlowProps> = ({
     try {
       const response = await pharmacySelectionService.selectPharmacy({
         orderId: prescriptionOrder.orderId,
-        pharmacyId,
-        patientId: user.uid
+        pharmacyId
       });
 
       if (response.success) {
@@ -23,7 +23,8 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
 }) => {
   const { user } = useAuthStore();
   const { requireActiveProfile, hasValidActiveProfile } = useProfileValidation();
-  const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  // Pages of the prescription, in order: a PDF, or one photo per page
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isDragActive, setIsDragActive] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -53,46 +54,58 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
     });
   };
 
-  // Handle file selection
-  const handleFileSelect = async (file: File) => {
+  // Handle file selection; new files are added after the pages already chosen
+  const handleFileSelect = async (files: File[]) => {
     setValidationErrors([]);
     setUploadError(null);
 
-    const validation = validateFile(file);
-    if (!validation.isValid) {
-      setValidationErrors(validation.errors);
-      return;
+    const errors: string[] = [];
+    const accepted: UploadedFile[] = [];
+
+    for (const file of files) {
+      const validation = validateFile(file);
+      if (!validation.isValid) {
+        errors.push(...validation.errors);
+        continue;
+      }
+
+      try {
+        const preview = await createFilePreview(file);
+        accepted.push({
+          file,
+          preview,
+          name: file.name,
+          size: file.size,
+          type: file.type
+        });
+      } catch (error) {
+        setUploadError('Failed to process file');
+      }
     }
 
-    try {
-      const preview = await createFilePreview(file);
-      const uploadedFile: UploadedFile = {
-        file,
-        preview,
-        name: file.name,
-        size: file.size,
-        type: file.type
-      };
-      setUploadedFile(uploadedFile);
-    } catch (error) {
-      setUploadError('Failed to process file');
+    setValidationErrors(errors);
+    if (accepted.length > 0) {
+      setUploadedFiles(prev => [...prev, ...accepted]);
     }
   };
 
   // File input change handler
   const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      handleFileSelect(files);
     }
+    // Allow the same file to be picked again after it is removed
+    event.target.value = '';
   };
 
   // Camera capture handler
   const handleCameraCapture = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      handleFileSelect(file);
+      handleFileSelect([file]);
     }
+    event.target.value = '';
   };
 
   // Drag and drop handlers
@@ -120,13 +133,13 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFileSelect(files);
     }
   }, []);
 
   // Upload to backend
   const handleUpload = async () => {
-    if (!uploadedFile || !user) return;
+    if (uploadedFiles.length === 0 || !user) return;
 
     try {
       setIsUploading(true);
@@ -147,7 +160,7 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
       }
 
       const prescriptionOrder = await prescriptionService.uploadPrescription(
-        uploadedFile.file,
+        uploadedFiles.map(uploadedFile => uploadedFile.file),
         profileId,
         {
           onProgress: (progress) => {
@@ -178,14 +191,21 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
     }
   };
 
-  // Clear selected file
+  // Remove one page from the selection
+  const handleRemoveFile = (index: number) => {
+    setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+    setValidationErrors([]);
+    setUploadError(null);
+  };
+
+  // Clear selected files
   const handleClearFile = () => {
     // Cancel any ongoing upload
     if (isUploading && abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
     
-    setUploadedFile(null);
+    setUploadedFiles([]);
     setValidationErrors([]);
     setUploadError(null);
     setUploadProgress(0);
@@ -237,7 +257,7 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
         </div>
       )}
 
-      {!uploadedFile ? (
+      {uploadedFiles.length === 0 ? (
         <div className="space-y-6">
           {/* Upload Options */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -289,62 +309,70 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
               Drag and drop your prescription file here, or click to browse
             </p>
           </div>
-
-          {/* Hidden file inputs */}
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".pdf,.jpg,.jpeg,.png"
-            onChange={handleFileInputChange}
-            className="hidden"
-          />
-          <input
-            ref={cameraInputRef}
-            type="file"
-            accept="image/*"
-            capture="environment"
-            onChange={handleCameraCapture}
-            className="hidden"
-          />
         </div>
       ) : (
         <div className="space-y-6">
-          {/* File Preview */}
-          <div className="border border-gray-200 rounded-lg p-4">
-            <div className="flex items-center space-x-4">
-              <div className="flex-shrink-0">
-                {uploadedFile.type.startsWith('image/') ? (
-                  <img
-                    src={uploadedFile.preview}
-                    alt="Preview"
-                    className="w-16 h-16 object-cover rounded"
-                  />
-                ) : (
-                  <div className="w-16 h-16 bg-gray-100 rounded flex items-center justify-center">
-                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
+          {/* File Previews, one per page */}
+          <div className="space-y-2">
+            {uploadedFiles.map((uploadedFile, index) => (
+              <div key={`${uploadedFile.name}-${index}`} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center space-x-4">
+                  <div className="flex-shrink-0">
+                    {uploadedFile.type.startsWith('image/') ? (
+                      <img
+                        src={uploadedFile.preview}
+                        alt={uploadedFiles.length > 1 ? `Preview of page ${index + 1}` : 'Preview'}
+                        className="w-16 h-16 object-cover rounded"
+                      />
+                    ) : (
+                      <div className="w-16 h-16 bg-gray-100 rounded flex items-center justify-center">
+                        <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                        </svg>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-gray-900 truncate">
-                  {uploadedFile.name}
-                </p>
-                <p className="text-sm text-gray-500">
-                  {formatFileSize(uploadedFile.size)}
-                </p>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {uploadedFile.name}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {uploadedFiles.length > 1 && `Page ${index + 1} · `}
+                      {formatFileSize(uploadedFile.size)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveFile(index)}
+                    disabled={isUploading}
+                    aria-label={`Remove ${uploadedFile.name}`}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
               </div>
+            ))}
+          </div>
+
+          {/* Further pages of a prescription that runs over several photos */}
+          {!isUploading && (
+            <div className="flex space-x-3 text-sm">
               <button
-                onClick={handleClearFile}
-                className="text-gray-400 hover:text-gray-600"
+                onClick={() => fileInputRef.current?.click()}
+                className="text-green-700 hover:text-green-800 font-medium"
               >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
+                + Add another page
+              </button>
+              <button
+                onClick={() => cameraInputRef.current?.click()}
+                className="text-green-700 hover:text-green-800 font-medium"
+              >
+                + Photograph another page
               </button>
             </div>
-          </div>
+          )}
 
           {/* Upload Progress */}
           {isUploading && (
@@ -391,6 +419,24 @@ export const PrescriptionUpload: React.FC<PrescriptionUploadProps> = ({
         </div>
       )}
 
+      {/* Hidden file inputs */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pdf,.jpg,.jpeg,.png"
+        multiple
+        onChange={handleFileInputChange}
+        className="hidden"
+      />
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleCameraCapture}
+        className="hidden"
+      />
+
       {/* Error Messages */}
       {validationErrors.length > 0 && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -20,7 +20,8 @@ interface RegisterFormProps {
 const ROLE_OPTIONS = [
   { value: UserRole.Patient, label: 'Patient/Caregiver', description: 'Manage prescriptions and health records' },
   { value: UserRole.Doctor, label: 'Doctor', description: 'Prescribe medications and manage patients' },
-  { value: UserRole.Pharmacist, label: 'Pharmacist', description: 'Dispense medications and provide consultations' }
+  { value: UserRole.Pharmacist, label: 'Pharmacist', description: 'Dispense medications and provide consultations' },
+  { value: UserRole.Courier, label: 'Courier', description: 'Deliver medications to patients' }
 ];
 
 export const RegisterForm: React.FC<RegisterFormProps> = ({ onSubmit, isLoading = false, error }) => {
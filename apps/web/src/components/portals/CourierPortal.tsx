@@ -0,0 +1,82 @@
+import { useNavigate } from 'react-router-dom';
+import PortalLayout from './PortalLayout';
+import { AuthenticationService } from '../../services/authenticationService';
+import CourierDeliveryCard from '../../features/courier/components/CourierDeliveryCard';
+import { useCourierDeliveries, useUpdateDeliveryStatus } from '../../features/courier/hooks/useCourierDeliveries';
+import { useCourierLocation } from '../../features/courier/hooks/useCourierLocation';
+
+export default function CourierPortal() {
+  const navigate = useNavigate();
+  const authService = AuthenticationService.getInstance();
+
+  const { data: deliveries = [], isLoading, error } = useCourierDeliveries();
+  const updateStatusMutation = useUpdateDeliveryStatus();
+  const { lastSentAt, error: locationError } = useCourierLocation(deliveries.map(delivery => delivery.orderId));
+
+  // Logout handler
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+      navigate('/');
+    } catch (error) {
+      console.error('Logout failed:', error);
+      // Even if logout fails, redirect to home for security
+      navigate('/');
+    }
+  };
+
+  const welcomeMessage = {
+    title: 'Welcome, Courier!',
+    description: deliveries.length > 0
+      ? `You have ${deliveries.length} ${deliveries.length === 1 ? 'delivery' : 'deliveries'} to complete.`
+      : 'No deliveries assigned right now.',
+    icon: '🛵',
+    bgColor: 'bg-orange-50',
+    textColor: 'text-orange-700'
+  };
+
+  const updatingOrderId = updateStatusMutation.isPending ? updateStatusMutation.variables?.orderId : undefined;
+  const failedOrderId = updateStatusMutation.isError ? updateStatusMutation.variables?.orderId : undefined;
+
+  return (
+    <PortalLayout
+      title="Courier Portal"
+      brandColor="text-orange-600"
+      userInfo={`${deliveries.length} Active`}
+      welcomeMessage={welcomeMessage}
+      onLogout={handleLogout}
+    >
+      {deliveries.length > 0 && (
+        <div className={`mb-4 rounded-md px-4 py-2 text-sm ${locationError ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-600'}`}>
+          {locationError || (lastSentAt
+            ? `Location shared at ${lastSentAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+            : 'Sharing your location with patients...')}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading deliveries...</div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error instanceof Error ? error.message : 'Failed to load deliveries'}
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+          New deliveries will appear here when a pharmacy assigns them to you.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {deliveries.map(delivery => (
+            <CourierDeliveryCard
+              key={delivery.orderId}
+              delivery={delivery}
+              onStatusChange={(request) => updateStatusMutation.mutate(request)}
+              isUpdating={updatingOrderId === delivery.orderId}
+              error={failedOrderId === delivery.orderId ? updateStatusMutation.error?.message : null}
+            />
+          ))}
+        </div>
+      )}
+    </PortalLayout>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import PortalLayout from './PortalLayout';
+import { AuthenticationService } from '../../services/authenticationService';
+import { useAuthStore } from '../../stores/authStore';
+import { DoctorPrescriptionPortal } from '../../features/doctor/components/DoctorPrescriptionPortal';
+import { PrescriptionHistory } from '../../features/doctor/components/PrescriptionHistory';
+
+type DoctorTab = 'prescribe' | 'history';
+
+const TABS: { id: DoctorTab; label: string; icon: string }[] = [
+  { id: 'prescribe', label: 'New Prescription', icon: '✍️' },
+  { id: 'history', label: 'Prescription History', icon: '📋' }
+];
+
+export default function DoctorPortal() {
+  const navigate = useNavigate();
+  const authService = AuthenticationService.getInstance();
+  const { user } = useAuthStore();
+  const [activeTab, setActiveTab] = useState<DoctorTab>('prescribe');
+
+  // Logout handler
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+      navigate('/');
+    } catch (error) {
+      console.error('Logout failed:', error);
+      // Even if logout fails, redirect to home for security
+      navigate('/');
+    }
+  };
+
+  const welcomeMessage = {
+    title: `Welcome${user?.displayName ? `, Dr. ${user.displayName}` : ', Doctor'}!`,
+    description: 'Send prescriptions straight to the pharmacy and follow them through to delivery.',
+    icon: '🩺',
+    bgColor: 'bg-green-50',
+    textColor: 'text-green-700'
+  };
+
+  return (
+    <PortalLayout
+      title="Doctor Portal"
+      brandColor="text-green-600"
+      userInfo={user?.displayName || 'Doctor'}
+      welcomeMessage={welcomeMessage}
+      onLogout={handleLogout}
+    >
+      <nav className="flex space-x-8 border-b border-gray-200 mb-6">
+        {TABS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === tab.id
+                ? 'border-green-500 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <span className="mr-2">{tab.icon}</span>
+            {tab.label}
+          </button>
+        ))}
+      </nav>
+
+      {activeTab === 'prescribe' && <DoctorPrescriptionPortal />}
+
+      {activeTab === 'history' && <PrescriptionHistory />}
+    </PortalLayout>
+  );
+}
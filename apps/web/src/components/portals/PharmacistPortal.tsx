@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import PortalLayout from './PortalLayout';
+import { AuthenticationService } from '../../services/authenticationService';
+import { PharmacistQueue } from '../../features/prescriptions/components/PharmacistQueue';
+import FulfilmentOrderCard from '../../features/pharmacist/components/FulfilmentOrderCard';
+import PharmacyStockTable from '../../features/pharmacist/components/PharmacyStockTable';
+import {
+  useFulfilmentOrders,
+  usePharmacistProfile,
+  usePharmacyStock,
+  useUpdateFulfilmentStatus
+} from '../../features/pharmacist/hooks/usePharmacistPortal';
+
+type PharmacistTab = 'verification' | 'clarifications' | 'fulfilment' | 'refills' | 'stock';
+
+const TABS: { id: PharmacistTab; label: string; icon: string }[] = [
+  { id: 'verification', label: 'Verification Queue', icon: '💊' },
+  { id: 'clarifications', label: 'Waiting on Patient', icon: '💬' },
+  { id: 'fulfilment', label: 'In Fulfilment', icon: '📦' },
+  { id: 'refills', label: 'Refill Requests', icon: '🔄' },
+  { id: 'stock', label: 'Stock', icon: '🏪' }
+];
+
+export default function PharmacistPortal() {
+  const navigate = useNavigate();
+  const authService = AuthenticationService.getInstance();
+  const [activeTab, setActiveTab] = useState<PharmacistTab>('verification');
+
+  const { data: profile } = usePharmacistProfile();
+  const fulfilmentQuery = useFulfilmentOrders();
+  const updateStatusMutation = useUpdateFulfilmentStatus();
+  const stockQuery = usePharmacyStock(profile?.pharmacyId);
+
+  const fulfilmentOrders = fulfilmentQuery.data ?? [];
+  const pharmacyName = profile?.pharmacy?.name || profile?.pharmacyId;
+
+  // Logout handler
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+      navigate('/');
+    } catch (error) {
+      console.error('Logout failed:', error);
+      // Even if logout fails, redirect to home for security
+      navigate('/');
+    }
+  };
+
+  const welcomeMessage = {
+    title: `Welcome${profile?.displayName ? `, ${profile.displayName}` : ', Pharmacist'}!`,
+    description: pharmacyName
+      ? `Verifying and dispensing prescriptions for ${pharmacyName}.`
+      : 'You are not linked to a pharmacy yet. Ask an administrator to add your affiliation to see its stock.',
+    icon: '⚕️',
+    bgColor: 'bg-blue-50',
+    textColor: 'text-blue-700'
+  };
+
+  const updatingOrderId = updateStatusMutation.isPending ? updateStatusMutation.variables?.orderId : undefined;
+  const failedOrderId = updateStatusMutation.isError ? updateStatusMutation.variables?.orderId : undefined;
+
+  return (
+    <PortalLayout
+      title="Pharmacist Portal"
+      brandColor="text-blue-600"
+      userInfo={pharmacyName || 'No pharmacy'}
+      welcomeMessage={welcomeMessage}
+      onLogout={handleLogout}
+    >
+      <nav className="flex space-x-8 border-b border-gray-200 mb-6">
+        {TABS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === tab.id
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <span className="mr-2">{tab.icon}</span>
+            {tab.label}
+            {tab.id === 'fulfilment' && fulfilmentOrders.length > 0 && (
+              <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 text-xs">{fulfilmentOrders.length}</span>
+            )}
+          </button>
+        ))}
+      </nav>
+
+      {activeTab === 'verification' && <PharmacistQueue orderType="new" />}
+
+      {activeTab === 'clarifications' && <PharmacistQueue status="needs_clarification" />}
+
+      {activeTab === 'refills' && <PharmacistQueue orderType="refill" />}
+
+      {activeTab === 'fulfilment' && (
+        fulfilmentQuery.isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading orders...</div>
+        ) : fulfilmentQuery.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            {fulfilmentQuery.error instanceof Error ? fulfilmentQuery.error.message : 'Failed to load orders'}
+          </div>
+        ) : fulfilmentOrders.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+            Paid orders will appear here while they are prepared and handed over for delivery.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {fulfilmentOrders.map(order => (
+              <FulfilmentOrderCard
+                key={order.orderId}
+                order={order}
+                onStatusChange={(request) => updateStatusMutation.mutate(request)}
+                isUpdating={updatingOrderId === order.orderId}
+                error={failedOrderId === order.orderId ? updateStatusMutation.error?.message : null}
+              />
+            ))}
+          </div>
+        )
+      )}
+
+      {activeTab === 'stock' && (
+        !profile?.pharmacyId ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+            Stock is shown for the pharmacy you work at. Your account is not linked to a pharmacy yet.
+          </div>
+        ) : stockQuery.isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading stock...</div>
+        ) : stockQuery.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            {stockQuery.error instanceof Error ? stockQuery.error.message : 'Failed to load stock'}
+          </div>
+        ) : (
+          <PharmacyStockTable items={stockQuery.data?.items ?? []} dataAsOf={stockQuery.data?.dataAsOf} />
+        )
+      )}
+    </PortalLayout>
+  );
+}
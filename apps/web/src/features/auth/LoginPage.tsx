@@ -49,6 +49,8 @@ export const LoginPage: React.FC = () => {
         return '/portal/doctor';
       case UserRole.Pharmacist:
         return '/portal/pharmacist';
+      case UserRole.Courier:
+        return '/portal/courier';
       default:
         return '/dashboard';
     }
@@ -0,0 +1,67 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeliveryAssignment } from '@pharmarx/shared-types';
+import CourierDeliveryCard from './CourierDeliveryCard';
+
+const baseDelivery: DeliveryAssignment = {
+  orderId: 'order-12345678',
+  deliveryPersonId: 'courier-1',
+  destinationLocation: { latitude: 6.3703, longitude: 2.4250, address: 'Rue 12.045, Cadjèhoun, Cotonou' },
+  recentLocations: [],
+  status: 'assigned',
+  recipientPhone: '+22990000000',
+  notificationChannel: 'sms',
+  notificationPreferences: { enableApproachNotification: true, enableArrivalNotification: true, approachThresholdMinutes: 10 },
+  thresholdsReached: { approach: false, arrival: false },
+  notifications: [],
+  assignedAt: new Date('2026-01-10T09:00:00Z'),
+  updatedAt: new Date('2026-01-10T09:00:00Z')
+};
+
+describe('CourierDeliveryCard', () => {
+  const onStatusChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the address and a call link for the patient', () => {
+    render(<CourierDeliveryCard delivery={baseDelivery} onStatusChange={onStatusChange} />);
+
+    expect(screen.getByText('Rue 12.045, Cadjèhoun, Cotonou')).toBeInTheDocument();
+    expect(screen.getByText('Ready for Pickup')).toBeInTheDocument();
+    expect(screen.getByText('Call Patient').closest('a')).toHaveAttribute('href', 'tel:+22990000000');
+  });
+
+  it('offers pickup as the only step for a new assignment', () => {
+    render(<CourierDeliveryCard delivery={baseDelivery} onStatusChange={onStatusChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Picked Up' }));
+
+    expect(screen.queryByRole('button', { name: 'Delivered' })).not.toBeInTheDocument();
+    expect(onStatusChange).toHaveBeenCalledWith({ orderId: 'order-12345678', status: 'picked_up' });
+  });
+
+  it('asks for proof of delivery before completing', () => {
+    render(<CourierDeliveryCard delivery={{ ...baseDelivery, status: 'in_transit' }} onStatusChange={onStatusChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delivered' }));
+
+    expect(screen.getByLabelText('Recipient Name')).toBeInTheDocument();
+    expect(onStatusChange).not.toHaveBeenCalled();
+  });
+
+  it('requires a recipient name and a signature or photo', () => {
+    render(<CourierDeliveryCard delivery={{ ...baseDelivery, status: 'in_transit' }} onStatusChange={onStatusChange} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Delivered' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Delivery' }));
+    expect(screen.getByText('Enter the name of the person who received the order')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Recipient Name'), { target: { value: 'Afi Mensah' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Delivery' }));
+    expect(screen.getByText('Collect a signature or take a photo')).toBeInTheDocument();
+
+    expect(onStatusChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import {
+  CourierDeliveryStatus,
+  DeliveryAssignment,
+  getNextCourierStatuses
+} from '@pharmarx/shared-types';
+import ProofOfDeliveryForm from './ProofOfDeliveryForm';
+import { CourierStatusRequest } from '../services/courierService';
+
+interface CourierDeliveryCardProps {
+  delivery: DeliveryAssignment;
+  onStatusChange: (request: CourierStatusRequest) => void;
+  isUpdating?: boolean;
+  error?: string | null;
+}
+
+const STATUS_LABELS: Record<DeliveryAssignment['status'], string> = {
+  assigned: 'Ready for Pickup',
+  picked_up: 'Picked Up',
+  in_transit: 'In Transit',
+  approaching: 'Approaching',
+  delivered: 'Delivered'
+};
+
+const STATUS_COLORS: Record<DeliveryAssignment['status'], string> = {
+  assigned: 'bg-gray-100 text-gray-800',
+  picked_up: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-yellow-100 text-yellow-800',
+  approaching: 'bg-orange-100 text-orange-800',
+  delivered: 'bg-green-100 text-green-800'
+};
+
+const ACTION_LABELS: Record<CourierDeliveryStatus, string> = {
+  picked_up: 'Picked Up',
+  in_transit: 'Start Trip',
+  delivered: 'Delivered'
+};
+
+const CourierDeliveryCard: React.FC<CourierDeliveryCardProps> = ({
+  delivery,
+  onStatusChange,
+  isUpdating = false,
+  error
+}) => {
+  const [showProofForm, setShowProofForm] = useState(false);
+  const { destinationLocation } = delivery;
+  const directionsUrl = `https://www.google.com/maps/dir/?api=1&destination=${destinationLocation.latitude},${destinationLocation.longitude}`;
+
+  const handleAction = (status: CourierDeliveryStatus) => {
+    if (status === 'delivered') {
+      setShowProofForm(true);
+      return;
+    }
+    onStatusChange({ orderId: delivery.orderId, status });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <p className="text-sm text-gray-500">Order #{delivery.orderId.slice(-8)}</p>
+          <p className="text-base font-medium text-gray-900">{destinationLocation.address}</p>
+        </div>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[delivery.status]}`}>
+          {STATUS_LABELS[delivery.status]}
+        </span>
+      </div>
+
+      {delivery.estimatedArrival && delivery.status !== 'assigned' && (
+        <p className="text-sm text-gray-600 mb-2">
+          ETA {delivery.estimatedArrival.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      )}
+
+      <div className="flex space-x-4 mb-4 text-sm">
+        <a href={directionsUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+          Directions
+        </a>
+        {delivery.recipientPhone && (
+          <a href={`tel:${delivery.recipientPhone}`} className="text-blue-600 hover:text-blue-800">
+            Call Patient
+          </a>
+        )}
+      </div>
+
+      {showProofForm ? (
+        <ProofOfDeliveryForm
+          onSubmit={(proofOfDelivery) => onStatusChange({ orderId: delivery.orderId, status: 'delivered', proofOfDelivery })}
+          onCancel={() => setShowProofForm(false)}
+          isSubmitting={isUpdating}
+          error={error}
+        />
+      ) : (
+        <>
+          <div className="flex space-x-3">
+            {getNextCourierStatuses(delivery.status).map(status => (
+              <button
+                key={status}
+                onClick={() => handleAction(status)}
+                disabled={isUpdating}
+                className={`flex-1 py-3 text-base font-medium rounded-md text-white disabled:opacity-50 ${
+                  status === 'delivered' ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {ACTION_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CourierDeliveryCard;
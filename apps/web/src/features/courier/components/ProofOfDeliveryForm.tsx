@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { ProofOfDeliveryRequest } from '../services/courierService';
+
+interface ProofOfDeliveryFormProps {
+  onSubmit: (proof: ProofOfDeliveryRequest) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+  error?: string | null;
+}
+
+// Large enough to read a face or a door number, small enough to stay under the API's 400KB limit
+const MAX_PHOTO_DIMENSION = 1024;
+const PHOTO_QUALITY = 0.7;
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the photo'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Downscale a camera photo to a JPEG data URL. Phone cameras produce several MB per shot.
+ */
+const compressPhoto = async (file: File): Promise<string> => {
+  const dataUrl = await readFileAsDataUrl(file);
+
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(dataUrl);
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+    };
+    image.onerror = () => resolve(dataUrl);
+    image.src = dataUrl;
+  });
+};
+
+const ProofOfDeliveryForm: React.FC<ProofOfDeliveryFormProps> = ({
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+  error
+}) => {
+  const [recipientName, setRecipientName] = useState('');
+  const [hasSignature, setHasSignature] = useState(false);
+  const [photoImage, setPhotoImage] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    drawingRef.current = true;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    const { x, y } = getPoint(event);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasSignature(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const handlePhotoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setPhotoImage(await compressPhoto(file));
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not read the photo');
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!recipientName.trim()) {
+      setFormError('Enter the name of the person who received the order');
+      return;
+    }
+    if (!hasSignature && !photoImage) {
+      setFormError('Collect a signature or take a photo');
+      return;
+    }
+
+    setFormError(null);
+    onSubmit({
+      recipientName: recipientName.trim(),
+      ...(hasSignature && canvasRef.current && { signatureImage: canvasRef.current.toDataURL('image/png') }),
+      ...(photoImage && { photoImage })
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="recipient-name" className="block text-sm font-medium text-gray-700 mb-1">
+          Recipient Name
+        </label>
+        <input
+          id="recipient-name"
+          type="text"
+          value={recipientName}
+          onChange={(e) => setRecipientName(e.target.value)}
+          className="block w-full px-3 py-3 border border-gray-300 rounded-md shadow-sm text-base focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={isSubmitting}
+          autoComplete="off"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="block text-sm font-medium text-gray-700">Signature</span>
+          <button
+            type="button"
+            onClick={clearSignature}
+            className="text-sm text-blue-600 hover:text-blue-800"
+            disabled={isSubmitting || !hasSignature}
+          >
+            Clear
+          </button>
+        </div>
+        <canvas
+          ref={canvasRef}
+          data-testid="signature-pad"
+          width={320}
+          height={160}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          className="w-full h-40 border border-gray-300 rounded-md bg-white touch-none"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="delivery-photo" className="block text-sm font-medium text-gray-700 mb-1">
+          Photo
+        </label>
+        <input
+          id="delivery-photo"
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handlePhotoChange}
+          className="block w-full text-sm text-gray-700"
+          disabled={isSubmitting}
+        />
+        {photoImage && (
+          <img src={photoImage} alt="Delivery proof" className="mt-2 h-32 rounded-md object-cover" />
+        )}
+      </div>
+
+      {(formError || error) && (
+        <p className="text-sm text-red-600">{formError || error}</p>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          className="flex-1 py-3 bg-green-600 text-white text-base font-medium rounded-md hover:bg-green-700 disabled:opacity-50"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Confirming...' : 'Confirm Delivery'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-3 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProofOfDeliveryForm;
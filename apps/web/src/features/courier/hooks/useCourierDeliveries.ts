@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { courierService, CourierStatusRequest } from '../services/courierService';
+
+export const useCourierDeliveries = () => {
+  return useQuery({
+    queryKey: ['courierDeliveries'],
+    queryFn: () => courierService.getDeliveries(),
+    refetchInterval: 60000, // Pick up new assignments without a manual refresh
+    staleTime: 30000
+  });
+};
+
+export const useUpdateDeliveryStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CourierStatusRequest) => courierService.updateStatus(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['courierDeliveries'] });
+    },
+    onError: (error) => {
+      console.error('Error updating delivery status:', error);
+    }
+  });
+};
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { courierService } from '../services/courierService';
+
+// Patients' tracking pages poll every 15 seconds, so sending faster only costs the courier data
+const MIN_SEND_INTERVAL_MS = 15000;
+
+interface UseCourierLocationResult {
+  lastSentAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Watch the device position while the courier has deliveries open and send it to
+ * every one of them, so each patient's tracking page and ETA stay current
+ */
+export const useCourierLocation = (orderIds: string[], enabled = true): UseCourierLocationResult => {
+  const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastSentRef = useRef(0);
+  const orderKey = orderIds.join(',');
+
+  useEffect(() => {
+    if (!enabled || !orderKey) return;
+
+    if (!('geolocation' in navigator)) {
+      setError('Location is not available on this device');
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        if (position.timestamp - lastSentRef.current < MIN_SEND_INTERVAL_MS) return;
+        lastSentRef.current = position.timestamp;
+
+        Promise.all(orderKey.split(',').map(orderId => courierService.sendLocation(orderId, position)))
+          .then(() => {
+            setLastSentAt(new Date(position.timestamp));
+            setError(null);
+          })
+          .catch((err) => {
+            setError(err instanceof Error ? err.message : 'Failed to send location');
+          });
+      },
+      (positionError) => {
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Allow location access so patients can follow their delivery'
+          : positionError.message);
+      },
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [orderKey, enabled]);
+
+  return { lastSentAt, error };
+};
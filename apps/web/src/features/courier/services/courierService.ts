@@ -0,0 +1,116 @@
+import {
+  ApiResponse,
+  CourierDeliveryStatus,
+  DeliveryAssignment,
+  ProofOfDelivery
+} from '@pharmarx/shared-types';
+import { auth } from '../../../config/firebase';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export type ProofOfDeliveryRequest = Omit<ProofOfDelivery, 'deliveredBy' | 'deliveredAt'>;
+
+// The parts of a browser geolocation fix that are sent to the API
+export interface CourierPosition {
+  coords: { latitude: number; longitude: number; speed?: number | null };
+  timestamp: number;
+}
+
+export interface CourierStatusRequest {
+  orderId: string;
+  status: CourierDeliveryStatus;
+  proofOfDelivery?: ProofOfDeliveryRequest;
+}
+
+// Dates arrive as ISO strings over JSON
+const toDelivery = (delivery: DeliveryAssignment): DeliveryAssignment => ({
+  ...delivery,
+  estimatedArrival: delivery.estimatedArrival ? new Date(delivery.estimatedArrival) : undefined,
+  assignedAt: new Date(delivery.assignedAt),
+  updatedAt: new Date(delivery.updatedAt)
+});
+
+class CourierService {
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const token = await user.getIdToken();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    };
+  }
+
+  async getDeliveries(): Promise<DeliveryAssignment[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/courier/deliveries`, {
+        method: 'GET',
+        headers
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch deliveries');
+      }
+
+      const data: ApiResponse<DeliveryAssignment[]> = await response.json();
+      return (data.data || []).map(toDelivery);
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+      throw error;
+    }
+  }
+
+  async updateStatus(request: CourierStatusRequest): Promise<DeliveryAssignment> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/courier/deliveries/${request.orderId}/status`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          status: request.status,
+          proofOfDelivery: request.proofOfDelivery
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update delivery status');
+      }
+
+      const data: ApiResponse<DeliveryAssignment> = await response.json();
+      return toDelivery(data.data!);
+    } catch (error) {
+      console.error('Error updating delivery status:', error);
+      throw error;
+    }
+  }
+
+  async sendLocation(orderId: string, position: CourierPosition): Promise<void> {
+    const headers = await this.getAuthHeaders();
+
+    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/delivery-location`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        speed: position.coords.speed ?? undefined,
+        timestamp: new Date(position.timestamp).toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to send location');
+    }
+  }
+}
+
+export const courierService = new CourierService();
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { DoctorPrescriptionSubmission, UpdateDoctorPrescriptionInput } from '@pharmarx/shared-types';
+
+interface AmendPrescriptionFormProps {
+  prescription: DoctorPrescriptionSubmission;
+  onSubmit: (input: UpdateDoctorPrescriptionInput) => void;
+  onClose: () => void;
+  isLoading?: boolean;
+}
+
+export const AmendPrescriptionForm: React.FC<AmendPrescriptionFormProps> = ({
+  prescription,
+  onSubmit,
+  onClose,
+  isLoading = false
+}) => {
+  const [formData, setFormData] = useState({
+    name: prescription.medicationDetails.name,
+    dosage: prescription.medicationDetails.dosage,
+    quantity: prescription.medicationDetails.quantity,
+    instructions: prescription.medicationDetails.instructions,
+    refillsAuthorized: prescription.medicationDetails.refillsAuthorized,
+    prescriptionNotes: prescription.prescriptionNotes || ''
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim() || !formData.dosage.trim() || !formData.instructions.trim()) {
+      setError('Medication, dosage and instructions are required');
+      return;
+    }
+    if (formData.quantity <= 0 || formData.refillsAuthorized < 0 || formData.refillsAuthorized > 12) {
+      setError('Quantity must be positive and refills between 0 and 12');
+      return;
+    }
+
+    setError(null);
+    onSubmit({
+      medicationDetails: {
+        name: formData.name.trim(),
+        dosage: formData.dosage.trim(),
+        quantity: formData.quantity,
+        instructions: formData.instructions.trim(),
+        refillsAuthorized: formData.refillsAuthorized
+      },
+      prescriptionNotes: formData.prescriptionNotes.trim() || undefined
+    });
+  };
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Medication
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Dosage
+          <input
+            type="text"
+            value={formData.dosage}
+            onChange={(e) => setFormData({ ...formData, dosage: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Quantity
+          <input
+            type="number"
+            min="1"
+            value={formData.quantity}
+            onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Refills Authorized
+          <input
+            type="number"
+            min="0"
+            max="12"
+            value={formData.refillsAuthorized}
+            onChange={(e) => setFormData({ ...formData, refillsAuthorized: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <label className="block text-sm font-medium text-gray-700">
+        Instructions
+        <textarea
+          rows={2}
+          value={formData.instructions}
+          onChange={(e) => setFormData({ ...formData, instructions: e.target.value })}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Notes for the Pharmacist
+        <textarea
+          rows={2}
+          value={formData.prescriptionNotes}
+          onChange={(e) => setFormData({ ...formData, prescriptionNotes: e.target.value })}
+          className={inputClassName}
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Discard
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? 'Saving...' : 'Save Amendment'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { PatientSearchResult, CreateDoctorPrescriptionInput, DoctorPrescriptionSubmission } from '@pharmarx/shared-types';
+import { PatientSearchResult, CreateDoctorPrescriptionInput, DoctorPrescriptionSubmission, ScreeningFinding } from '@pharmarx/shared-types';
 import { PatientSearch } from './PatientSearch';
 import { PrescriptionForm } from './PrescriptionForm';
 import { usePrescriptionSubmission } from '../hooks/usePrescriptionSubmission';
+import { InteractionOverrideRequiredError } from '../services/doctorPrescriptionService';
 import { CheckCircleIcon, ExclamationCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
 
 export const DoctorPrescriptionPortal: React.FC = () => {
@@ -10,6 +11,7 @@ export const DoctorPrescriptionPortal: React.FC = () => {
   const [showSuccess, setShowSuccess] = useState(false);
   const [showError, setShowError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const [screeningFindings, setScreeningFindings] = useState<ScreeningFinding[]>([]);
 
   const {
     submitPrescription,
@@ -19,6 +21,7 @@ export const DoctorPrescriptionPortal: React.FC = () => {
 
   const handlePatientSelect = (patient: PatientSearchResult) => {
     setSelectedPatient(patient);
+    setScreeningFindings([]);
     // Clear any previous notifications
     setShowSuccess(false);
     setShowError(false);
@@ -27,6 +30,7 @@ export const DoctorPrescriptionPortal: React.FC = () => {
   const handlePrescriptionSubmit = async (prescription: CreateDoctorPrescriptionInput) => {
     try {
       const result = await submitPrescription(prescription);
+      setScreeningFindings([]);
       setShowSuccess(true);
       setShowError(false);
       
@@ -36,6 +40,12 @@ export const DoctorPrescriptionPortal: React.FC = () => {
       // Reset form by clearing selected patient
       setSelectedPatient(undefined);
     } catch (error) {
+      if (error instanceof InteractionOverrideRequiredError) {
+        // The form shows the findings and asks for an override note instead
+        setScreeningFindings(error.findings);
+        setShowError(false);
+        return;
+      }
       setErrorMessage(error instanceof Error ? error.message : 'Failed to submit prescription');
       setShowError(true);
       setShowSuccess(false);
@@ -124,6 +134,7 @@ export const DoctorPrescriptionPortal: React.FC = () => {
             selectedPatient={selectedPatient}
             onSubmit={handlePrescriptionSubmit}
             isLoading={isLoading}
+            screeningFindings={screeningFindings}
           />
         </div>
       </div>
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import { PatientSearchResult, CreateDoctorPrescriptionInput } from '@pharmarx/shared-types';
+import { PatientSearchResult, CreateDoctorPrescriptionInput, ScreeningFinding, requiresInteractionOverride } from '@pharmarx/shared-types';
 import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { ScreeningFindings } from '../../prescriptions/components/ScreeningFindings';
 
 interface PrescriptionFormProps {
   selectedPatient?: PatientSearchResult;
   onSubmit: (prescription: CreateDoctorPrescriptionInput) => void;
   isLoading?: boolean;
+  screeningFindings?: ScreeningFinding[]; // Findings that held back the last submission
 }
 
 interface FormData {
@@ -15,6 +17,7 @@ interface FormData {
   instructions: string;
   refillsAuthorized: number;
   prescriptionNotes: string;
+  interactionOverrideNote: string;
 }
 
 interface ValidationErrors {
@@ -23,12 +26,14 @@ interface ValidationErrors {
   quantity?: string;
   instructions?: string;
   refillsAuthorized?: string;
+  interactionOverrideNote?: string;
 }
 
 export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
   selectedPatient,
   onSubmit,
-  isLoading = false
+  isLoading = false,
+  screeningFindings = []
 }) => {
   const [formData, setFormData] = useState<FormData>({
     medicationName: '',
@@ -36,11 +41,14 @@ export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
     quantity: 1,
     instructions: '',
     refillsAuthorized: 0,
-    prescriptionNotes: ''
+    prescriptionNotes: '',
+    interactionOverrideNote: ''
   });
 
   const [errors, setErrors] = useState<ValidationErrors>({});
 
+  const needsOverride = requiresInteractionOverride(screeningFindings);
+
   const validateForm = (): boolean => {
     const newErrors: ValidationErrors = {};
 
@@ -79,6 +87,11 @@ export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
       newErrors.refillsAuthorized = 'Refills authorized cannot exceed 12';
     }
 
+    // Validate override note when screening found a major problem
+    if (needsOverride && !formData.interactionOverrideNote.trim()) {
+      newErrors.interactionOverrideNote = 'Explain why you are prescribing despite the major finding';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -113,7 +126,8 @@ export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
         instructions: formData.instructions.trim(),
         refillsAuthorized: formData.refillsAuthorized
       },
-      prescriptionNotes: formData.prescriptionNotes.trim() || undefined
+      prescriptionNotes: formData.prescriptionNotes.trim() || undefined,
+      interactionOverrideNote: needsOverride ? formData.interactionOverrideNote.trim() : undefined
     };
 
     onSubmit(prescription);
@@ -126,7 +140,8 @@ export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
       quantity: 1,
       instructions: '',
       refillsAuthorized: 0,
-      prescriptionNotes: ''
+      prescriptionNotes: '',
+      interactionOverrideNote: ''
     });
     setErrors({});
   };
@@ -296,6 +311,35 @@ export const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
           />
         </div>
 
+        {/* Interaction & Allergy Screening */}
+        {screeningFindings.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Interaction &amp; Allergy Screening</h4>
+            <ScreeningFindings findings={screeningFindings} />
+            {needsOverride && (
+              <div>
+                <label htmlFor="interactionOverrideNote" className="block text-sm font-medium text-gray-700 mb-2">
+                  Interaction Override Note *
+                </label>
+                <textarea
+                  id="interactionOverrideNote"
+                  value={formData.interactionOverrideNote}
+                  onChange={(e) => handleInputChange('interactionOverrideNote', e.target.value)}
+                  rows={2}
+                  className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    errors.interactionOverrideNote ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder="Why is it safe to prescribe this for the patient?"
+                  disabled={!selectedPatient || isLoading}
+                />
+                {errors.interactionOverrideNote && (
+                  <p className="mt-1 text-sm text-red-600">{errors.interactionOverrideNote}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Form Actions */}
         <div className="flex items-center justify-between pt-4 border-t border-gray-200">
           <button
@@ -0,0 +1,120 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DoctorPrescriptionSubmission } from '@pharmarx/shared-types';
+import { PrescriptionHistory } from './PrescriptionHistory';
+import {
+  useAmendPrescription,
+  useCancelPrescription,
+  usePrescriptionHistory
+} from '../hooks/usePrescriptionHistory';
+
+vi.mock('../hooks/usePrescriptionHistory', () => ({
+  usePrescriptionHistory: vi.fn(),
+  useAmendPrescription: vi.fn(),
+  useCancelPrescription: vi.fn()
+}));
+
+const submittedPrescription: DoctorPrescriptionSubmission = {
+  prescriptionId: 'prescription-1',
+  doctorUid: 'doctor-1',
+  patientProfileId: 'patient-1',
+  patientName: 'Kossi Agbo',
+  medicationDetails: {
+    name: 'Amoxicillin',
+    dosage: '500mg',
+    quantity: 21,
+    instructions: 'Take one capsule three times daily',
+    refillsAuthorized: 0,
+    refillsRemaining: 0
+  },
+  submittedAt: new Date('2026-01-10T09:00:00Z'),
+  orderStatus: 'pending_verification',
+  status: 'submitted'
+};
+
+const deliveredPrescription: DoctorPrescriptionSubmission = {
+  ...submittedPrescription,
+  prescriptionId: 'prescription-2',
+  orderStatus: 'delivered',
+  status: 'delivered'
+};
+
+describe('PrescriptionHistory', () => {
+  const amend = vi.fn();
+  const cancel = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(usePrescriptionHistory).mockReturnValue({
+      data: {
+        prescriptions: [submittedPrescription, deliveredPrescription],
+        pagination: { page: 1, limit: 10, total: 2, hasMore: false }
+      },
+      isLoading: false,
+      error: null
+    } as any);
+    vi.mocked(useAmendPrescription).mockReturnValue({ mutate: amend, isPending: false, error: null } as any);
+    vi.mocked(useCancelPrescription).mockReturnValue({ mutate: cancel, isPending: false, error: null } as any);
+  });
+
+  it('shows each prescription with where its order stands', () => {
+    render(<PrescriptionHistory />);
+
+    expect(screen.getAllByText('Amoxicillin 500mg × 21')).toHaveLength(2);
+    expect(screen.getByText('Awaiting Pharmacy', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getByText('Delivered', { selector: 'span' })).toBeInTheDocument();
+  });
+
+  it('offers amend and cancel only before the pharmacy processes the prescription', () => {
+    render(<PrescriptionHistory />);
+
+    expect(screen.getAllByRole('button', { name: 'Amend' })).toHaveLength(1);
+    expect(screen.getAllByRole('button', { name: 'Cancel Prescription' })).toHaveLength(1);
+  });
+
+  it('filters the history by status', () => {
+    render(<PrescriptionHistory />);
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'paid' } });
+
+    expect(usePrescriptionHistory).toHaveBeenLastCalledWith(1, 10, { status: 'paid' });
+  });
+
+  it('cancels with the reason given', () => {
+    render(<PrescriptionHistory />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel Prescription' }));
+    fireEvent.change(screen.getByLabelText('Reason for cancelling (optional)'), { target: { value: 'Wrong patient' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Cancellation' }));
+
+    expect(cancel).toHaveBeenCalledWith(
+      { prescriptionId: 'prescription-1', reason: 'Wrong patient' },
+      expect.any(Object)
+    );
+  });
+
+  it('sends the amended medication', () => {
+    render(<PrescriptionHistory />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Amend' }));
+    fireEvent.change(screen.getByLabelText('Dosage'), { target: { value: '250mg' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Amendment' }));
+
+    expect(amend).toHaveBeenCalledWith(
+      {
+        prescriptionId: 'prescription-1',
+        input: {
+          medicationDetails: {
+            name: 'Amoxicillin',
+            dosage: '250mg',
+            quantity: 21,
+            instructions: 'Take one capsule three times daily',
+            refillsAuthorized: 0
+          },
+          prescriptionNotes: undefined
+        }
+      },
+      expect.any(Object)
+    );
+  });
+});
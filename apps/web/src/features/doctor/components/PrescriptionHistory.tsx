@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import {
+  DoctorPrescriptionStatus,
+  DoctorPrescriptionSubmission,
+  UpdateDoctorPrescriptionInput
+} from '@pharmarx/shared-types';
+import { AmendPrescriptionForm } from './AmendPrescriptionForm';
+import {
+  useAmendPrescription,
+  useCancelPrescription,
+  usePrescriptionHistory
+} from '../hooks/usePrescriptionHistory';
+
+const PAGE_SIZE = 10;
+
+const STATUS_OPTIONS: { value: DoctorPrescriptionStatus; label: string; className: string }[] = [
+  { value: 'submitted', label: 'Awaiting Pharmacy', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'processed', label: 'Processed', className: 'bg-blue-100 text-blue-800' },
+  { value: 'paid', label: 'Paid', className: 'bg-indigo-100 text-indigo-800' },
+  { value: 'delivered', label: 'Delivered', className: 'bg-green-100 text-green-800' },
+  { value: 'rejected', label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  { value: 'cancelled', label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+];
+
+const getStatusOption = (status: DoctorPrescriptionStatus) =>
+  STATUS_OPTIONS.find(option => option.value === status) || STATUS_OPTIONS[0];
+
+export const PrescriptionHistory: React.FC = () => {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<DoctorPrescriptionStatus | ''>('');
+  const [amendingId, setAmendingId] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const historyQuery = usePrescriptionHistory(page, PAGE_SIZE, status ? { status } : {});
+  const amendMutation = useAmendPrescription();
+  const cancelMutation = useCancelPrescription();
+
+  const prescriptions = historyQuery.data?.prescriptions ?? [];
+  const pagination = historyQuery.data?.pagination;
+  const actionError = (amendMutation.error || cancelMutation.error)?.message;
+
+  const handleStatusChange = (value: DoctorPrescriptionStatus | '') => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const handleAmend = (prescription: DoctorPrescriptionSubmission, input: UpdateDoctorPrescriptionInput) => {
+    amendMutation.mutate(
+      { prescriptionId: prescription.prescriptionId, input },
+      { onSuccess: () => setAmendingId(null) }
+    );
+  };
+
+  const handleCancel = (prescription: DoctorPrescriptionSubmission) => {
+    cancelMutation.mutate(
+      { prescriptionId: prescription.prescriptionId, reason: cancelReason.trim() || undefined },
+      {
+        onSuccess: () => {
+          setCancellingId(null);
+          setCancelReason('');
+        }
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Prescription History</h2>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Status</span>
+          <select
+            value={status}
+            onChange={(e) => handleStatusChange(e.target.value as DoctorPrescriptionStatus | '')}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value="">All</option>
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{actionError}</div>
+      )}
+
+      {historyQuery.isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading prescriptions...</div>
+      ) : historyQuery.error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {historyQuery.error instanceof Error ? historyQuery.error.message : 'Failed to load prescriptions'}
+        </div>
+      ) : prescriptions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+          {status ? 'No prescriptions with this status.' : 'Prescriptions you submit will appear here.'}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {prescriptions.map(prescription => {
+            const statusOption = getStatusOption(prescription.status);
+            const canChange = prescription.status === 'submitted';
+            const { medicationDetails } = prescription;
+
+            return (
+              <li key={prescription.prescriptionId} className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-base font-medium text-gray-900">
+                      {medicationDetails.name} {medicationDetails.dosage} × {medicationDetails.quantity}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {prescription.patientName || `Patient ${prescription.patientProfileId}`}
+                      {' · '}Submitted {prescription.submittedAt.toLocaleDateString()}
+                      {prescription.amendedAt && ` · Amended ${prescription.amendedAt.toLocaleDateString()}`}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {medicationDetails.instructions}
+                      {medicationDetails.refillsAuthorized > 0 && ` · ${medicationDetails.refillsAuthorized} refill(s)`}
+                    </p>
+                    {prescription.cancellationReason && (
+                      <p className="text-sm text-gray-500 mt-1">Cancelled: {prescription.cancellationReason}</p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusOption.className}`}>
+                    {statusOption.label}
+                  </span>
+                </div>
+
+                {canChange && amendingId !== prescription.prescriptionId && cancellingId !== prescription.prescriptionId && (
+                  <div className="flex space-x-3 mt-3">
+                    <button
+                      onClick={() => setAmendingId(prescription.prescriptionId)}
+                      className="px-3 py-1 text-sm font-medium text-blue-700 border border-blue-300 rounded-md hover:bg-blue-50"
+                    >
+                      Amend
+                    </button>
+                    <button
+                      onClick={() => setCancellingId(prescription.prescriptionId)}
+                      className="px-3 py-1 text-sm font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50"
+                    >
+                      Cancel Prescription
+                    </button>
+                  </div>
+                )}
+
+                {amendingId === prescription.prescriptionId && (
+                  <AmendPrescriptionForm
+                    prescription={prescription}
+                    onSubmit={(input) => handleAmend(prescription, input)}
+                    onClose={() => setAmendingId(null)}
+                    isLoading={amendMutation.isPending}
+                  />
+                )}
+
+                {cancellingId === prescription.prescriptionId && (
+                  <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Reason for cancelling (optional)
+                      <input
+                        type="text"
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </label>
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        onClick={() => setCancellingId(null)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Keep Prescription
+                      </button>
+                      <button
+                        onClick={() => handleCancel(prescription)}
+                        disabled={cancelMutation.isPending}
+                        className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        {cancelMutation.isPending ? 'Cancelling...' : 'Confirm Cancellation'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pagination && pagination.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>Page {pagination.page} of {Math.ceil(pagination.total / PAGE_SIZE)}</span>
+          <div className="space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!pagination.hasMore}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DoctorPrescriptionHistoryFilters, UpdateDoctorPrescriptionInput } from '@pharmarx/shared-types';
+import { doctorPrescriptionService } from '../services/doctorPrescriptionService';
+
+export interface AmendPrescriptionRequest {
+  prescriptionId: string;
+  input: UpdateDoctorPrescriptionInput;
+}
+
+export interface CancelPrescriptionRequest {
+  prescriptionId: string;
+  reason?: string;
+}
+
+export const usePrescriptionHistory = (page: number, limit: number, filters: DoctorPrescriptionHistoryFilters) => {
+  return useQuery({
+    queryKey: ['prescriptionHistory', page, limit, filters],
+    queryFn: () => doctorPrescriptionService.getPrescriptionHistory(page, limit, filters),
+    refetchInterval: 60000, // Order progress changes at the pharmacy, not here
+    staleTime: 30000
+  });
+};
+
+export const useAmendPrescription = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ prescriptionId, input }: AmendPrescriptionRequest) =>
+      doctorPrescriptionService.amendPrescription(prescriptionId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prescriptionHistory'] });
+    },
+    onError: (error) => {
+      console.error('Error amending prescription:', error);
+    }
+  });
+};
+
+export const useCancelPrescription = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ prescriptionId, reason }: CancelPrescriptionRequest) =>
+      doctorPrescriptionService.cancelPrescription(prescriptionId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prescriptionHistory'] });
+    },
+    onError: (error) => {
+      console.error('Error cancelling prescription:', error);
+    }
+  });
+};
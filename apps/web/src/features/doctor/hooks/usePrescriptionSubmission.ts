@@ -7,7 +7,7 @@ export const usePrescriptionSubmission = () => {
 
   const {
     mutateAsync: submitPrescription,
-    isLoading,
+    isPending: isLoading,
     error,
     reset
   } = useMutation({
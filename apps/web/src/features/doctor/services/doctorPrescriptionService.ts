@@ -2,14 +2,36 @@ import {
   PatientSearchRequest, 
   PatientSearchResult, 
   CreateDoctorPrescriptionInput,
+  UpdateDoctorPrescriptionInput,
   DoctorPrescriptionSubmission,
+  DoctorPrescriptionHistoryFilters,
   DoctorPrescriptionHistoryResponse,
+  ScreeningFinding,
   ApiResponse
 } from '@pharmarx/shared-types';
 import { auth } from '../../../config/firebase';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+// Dates arrive as ISO strings over JSON
+const toPrescription = (prescription: DoctorPrescriptionSubmission): DoctorPrescriptionSubmission => ({
+  ...prescription,
+  submittedAt: new Date(prescription.submittedAt),
+  amendedAt: prescription.amendedAt ? new Date(prescription.amendedAt) : undefined,
+  cancelledAt: prescription.cancelledAt ? new Date(prescription.cancelledAt) : undefined
+});
+
+/**
+ * The prescription was held back by a major interaction, allergy or contraindication.
+ * Submitting again with an interactionOverrideNote goes through.
+ */
+export class InteractionOverrideRequiredError extends Error {
+  constructor(message: string, public readonly findings: ScreeningFinding[]) {
+    super(message);
+    this.name = 'InteractionOverrideRequiredError';
+  }
+}
+
 class DoctorPrescriptionService {
   private async getAuthHeaders(): Promise<HeadersInit> {
     const user = auth.currentUser;
@@ -63,6 +85,9 @@ class DoctorPrescriptionService {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (response.status === 409 && Array.isArray(errorData.data)) {
+          throw new InteractionOverrideRequiredError(errorData.error || 'An override note is required', errorData.data);
+        }
         throw new Error(errorData.error || 'Failed to submit prescription');
       }
 
@@ -74,12 +99,18 @@ class DoctorPrescriptionService {
     }
   }
 
-  async getPrescriptionHistory(page: number = 1, limit: number = 10): Promise<DoctorPrescriptionHistoryResponse> {
+  async getPrescriptionHistory(
+    page: number = 1,
+    limit: number = 10,
+    filters: DoctorPrescriptionHistoryFilters = {}
+  ): Promise<DoctorPrescriptionHistoryResponse> {
     try {
       const headers = await this.getAuthHeaders();
       const params = new URLSearchParams({
         page: page.toString(),
-        limit: limit.toString()
+        limit: limit.toString(),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.patientProfileId && { patientProfileId: filters.patientProfileId })
       });
 
       const response = await fetch(`${API_BASE_URL}/doctor/prescriptions?${params}`, {
@@ -93,12 +124,58 @@ class DoctorPrescriptionService {
       }
 
       const data: ApiResponse<DoctorPrescriptionHistoryResponse> = await response.json();
-      return data.data!;
+      return { ...data.data!, prescriptions: data.data!.prescriptions.map(toPrescription) };
     } catch (error) {
       console.error('Error getting prescription history:', error);
       throw error;
     }
   }
+
+  async amendPrescription(prescriptionId: string, input: UpdateDoctorPrescriptionInput): Promise<DoctorPrescriptionSubmission> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/doctor/prescriptions/${prescriptionId}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(input)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to amend prescription');
+      }
+
+      const data: ApiResponse<DoctorPrescriptionSubmission> = await response.json();
+      return toPrescription(data.data!);
+    } catch (error) {
+      console.error('Error amending prescription:', error);
+      throw error;
+    }
+  }
+
+  async cancelPrescription(prescriptionId: string, reason?: string): Promise<DoctorPrescriptionSubmission> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/doctor/prescriptions/${prescriptionId}/cancel`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ reason })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel prescription');
+      }
+
+      const data: ApiResponse<DoctorPrescriptionSubmission> = await response.json();
+      return toPrescription(data.data!);
+    } catch (error) {
+      console.error('Error cancelling prescription:', error);
+      throw error;
+    }
+  }
 }
 
 export const doctorPrescriptionService = new DoctorPrescriptionService();
\ No newline at end of file
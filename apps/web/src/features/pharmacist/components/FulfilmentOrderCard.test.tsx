@@ -0,0 +1,60 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrescriptionOrder } from '@pharmarx/shared-types';
+import FulfilmentOrderCard from './FulfilmentOrderCard';
+
+const baseOrder: PrescriptionOrder = {
+  orderId: 'order-12345678',
+  patientProfileId: 'profile-1',
+  status: 'preparing',
+  originalImageUrl: 'https://example.com/rx.jpg',
+  lineItems: [
+    { lineItemId: 'item-1', name: 'Amoxicillin', dosage: '500mg', quantity: 21, availability: 'in_stock', substitution: { status: 'none' } }
+  ],
+  createdAt: new Date('2026-01-10T09:00:00Z')
+};
+
+describe('FulfilmentOrderCard', () => {
+  const onStatusChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the medications and the fulfilment status', () => {
+    render(<FulfilmentOrderCard order={baseOrder} onStatusChange={onStatusChange} />);
+
+    expect(screen.getByText('Amoxicillin 500mg × 21')).toBeInTheDocument();
+    expect(screen.getByText('Preparing')).toBeInTheDocument();
+  });
+
+  it('lets the pharmacist mark a prepared order ready', () => {
+    render(<FulfilmentOrderCard order={baseOrder} onStatusChange={onStatusChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark Ready' }));
+
+    expect(onStatusChange).toHaveBeenCalledWith({ orderId: 'order-12345678', status: 'ready' });
+  });
+
+  it('offers only the courier handover once the order is ready', () => {
+    render(<FulfilmentOrderCard order={{ ...baseOrder, status: 'ready' }} onStatusChange={onStatusChange} />);
+
+    expect(screen.queryByRole('button', { name: 'Mark Ready' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Hand to Courier' }));
+
+    expect(onStatusChange).toHaveBeenCalledWith({ orderId: 'order-12345678', status: 'out_for_delivery' });
+  });
+
+  it('leaves delivery to the courier', () => {
+    render(<FulfilmentOrderCard order={{ ...baseOrder, status: 'out_for_delivery' }} onStatusChange={onStatusChange} />);
+
+    expect(screen.getByText('Out for Delivery')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('marks refill orders', () => {
+    render(<FulfilmentOrderCard order={{ ...baseOrder, refillOfOrderId: 'order-original' }} onStatusChange={onStatusChange} />);
+
+    expect(screen.getByText('Refill')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  PrescriptionOrder,
+  PrescriptionOrderStatus,
+  getAllowedNextStatuses,
+  getOrderLineItems
+} from '@pharmarx/shared-types';
+import { FulfilmentStatusRequest } from '../services/pharmacistService';
+
+interface FulfilmentOrderCardProps {
+  order: PrescriptionOrder;
+  onStatusChange: (request: FulfilmentStatusRequest) => void;
+  isUpdating?: boolean;
+  error?: string | null;
+}
+
+const STATUS_LABELS: Partial<Record<PrescriptionOrderStatus, string>> = {
+  preparing: 'Preparing',
+  ready: 'Ready for Pickup',
+  out_for_delivery: 'Out for Delivery'
+};
+
+const STATUS_COLORS: Partial<Record<PrescriptionOrderStatus, string>> = {
+  preparing: 'bg-orange-100 text-orange-800',
+  ready: 'bg-teal-100 text-teal-800',
+  out_for_delivery: 'bg-blue-100 text-blue-800'
+};
+
+// Delivery itself is confirmed by the courier, so the counter only goes this far
+const ACTION_LABELS: Partial<Record<PrescriptionOrderStatus, string>> = {
+  ready: 'Mark Ready',
+  out_for_delivery: 'Hand to Courier'
+};
+
+const FulfilmentOrderCard: React.FC<FulfilmentOrderCardProps> = ({
+  order,
+  onStatusChange,
+  isUpdating = false,
+  error
+}) => {
+  const lineItems = getOrderLineItems(order);
+  const actions = getAllowedNextStatuses(order.status, 'pharmacist').filter(status => ACTION_LABELS[status]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <p className="text-sm text-gray-500">
+            Order #{order.orderId.slice(-8)}
+            {order.refillOfOrderId && <span className="ml-2 text-purple-600">Refill</span>}
+          </p>
+          <ul className="text-base font-medium text-gray-900">
+            {lineItems.length > 0
+              ? lineItems.map(item => (
+                <li key={item.lineItemId}>{item.name} {item.dosage} × {item.quantity}</li>
+              ))
+              : <li>Medication details pending</li>}
+          </ul>
+        </div>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[order.status] || 'bg-gray-100 text-gray-800'}`}>
+          {STATUS_LABELS[order.status] || order.status}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Paid order placed {order.createdAt.toLocaleDateString()}
+      </p>
+
+      {actions.length > 0 && (
+        <div className="flex space-x-3">
+          {actions.map(status => (
+            <button
+              key={status}
+              onClick={() => onStatusChange({ orderId: order.orderId, status })}
+              disabled={isUpdating}
+              className={`flex-1 py-2 text-sm font-medium rounded-md text-white disabled:opacity-50 ${
+                status === 'ready' ? 'bg-teal-600 hover:bg-teal-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {ACTION_LABELS[status]}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default FulfilmentOrderCard;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { InventoryItem } from '@pharmarx/shared-types';
+
+interface PharmacyStockTableProps {
+  items: InventoryItem[];
+  dataAsOf?: Date; // When the stock was last synced from the pharmacy system
+}
+
+// Below this many units the item is flagged for reordering
+const LOW_STOCK_THRESHOLD = 50;
+
+const getStockStatus = (item: InventoryItem): { label: string; className: string } => {
+  if (!item.isAvailable || item.quantity === 0) {
+    return { label: 'Out of Stock', className: 'bg-red-100 text-red-800' };
+  }
+  if (item.quantity < LOW_STOCK_THRESHOLD) {
+    return { label: 'Low Stock', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  return { label: 'In Stock', className: 'bg-green-100 text-green-800' };
+};
+
+const PharmacyStockTable: React.FC<PharmacyStockTableProps> = ({ items, dataAsOf }) => {
+  if (items.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+        No stock reported by the pharmacy system.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Medication</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {items.map(item => {
+            const status = getStockStatus(item);
+            return (
+              <tr key={item.itemId}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{item.medicationName} {item.strength}</div>
+                  <div className="text-sm text-gray-500">{item.genericName || item.form}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.quantity} {item.unit}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.price.toLocaleString()} {item.currency}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {item.expiryDate ? item.expiryDate.toLocaleDateString() : '—'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.className}`}>
+                    {status.label}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {dataAsOf && (
+        <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+          Stock as of {dataAsOf.toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PharmacyStockTable;
@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pharmacistService, FulfilmentStatusRequest } from '../services/pharmacistService';
+
+export const usePharmacistProfile = () => {
+  return useQuery({
+    queryKey: ['pharmacistProfile'],
+    queryFn: () => pharmacistService.getProfile(),
+    staleTime: 5 * 60 * 1000
+  });
+};
+
+export const useFulfilmentOrders = () => {
+  return useQuery({
+    queryKey: ['pharmacistFulfilmentOrders'],
+    queryFn: () => pharmacistService.getFulfilmentOrders(),
+    refetchInterval: 60000, // Payments and courier pickups move orders on their own
+    staleTime: 30000
+  });
+};
+
+export const useUpdateFulfilmentStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: FulfilmentStatusRequest) => pharmacistService.updateFulfilmentStatus(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pharmacistFulfilmentOrders'] });
+    },
+    onError: (error) => {
+      console.error('Error updating order status:', error);
+    }
+  });
+};
+
+/**
+ * Stock is only available once the pharmacist is affiliated with a pharmacy
+ */
+export const usePharmacyStock = (pharmacyId: string | null | undefined, medicationName?: string) => {
+  return useQuery({
+    queryKey: ['pharmacyStock', pharmacyId, medicationName],
+    queryFn: () => pharmacistService.getStock(medicationName),
+    enabled: !!pharmacyId,
+    staleTime: 60000
+  });
+};
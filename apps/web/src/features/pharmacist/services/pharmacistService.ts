@@ -0,0 +1,164 @@
+import {
+  ApiResponse,
+  InventoryItem,
+  PharmacyLocation,
+  PrescriptionOrder,
+  PrescriptionOrderStatus
+} from '@pharmarx/shared-types';
+import { auth } from '../../../config/firebase';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Paid orders still at the pharmacy or on their way to the patient
+export const FULFILMENT_STATUSES: PrescriptionOrderStatus[] = ['preparing', 'ready', 'out_for_delivery'];
+
+export interface PharmacistProfile {
+  uid: string;
+  displayName?: string;
+  email?: string;
+  pharmacyId: string | null;
+  pharmacy: PharmacyLocation | null;
+}
+
+export interface PharmacyStock {
+  pharmacyId: string;
+  pharmacy: PharmacyLocation | null;
+  items: InventoryItem[];
+  totalCount: number;
+  dataAsOf?: Date;
+}
+
+export interface FulfilmentStatusRequest {
+  orderId: string;
+  status: PrescriptionOrderStatus;
+}
+
+// Dates arrive as ISO strings over JSON
+const toOrder = (order: PrescriptionOrder): PrescriptionOrder => ({
+  ...order,
+  createdAt: new Date(order.createdAt),
+  updatedAt: order.updatedAt ? new Date(order.updatedAt) : undefined
+});
+
+const toItem = (item: InventoryItem): InventoryItem => ({
+  ...item,
+  lastUpdated: new Date(item.lastUpdated),
+  expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined
+});
+
+class PharmacistService {
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const token = await user.getIdToken();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    };
+  }
+
+  async getProfile(): Promise<PharmacistProfile> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/pharmacist/me`, {
+        method: 'GET',
+        headers
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch pharmacist profile');
+      }
+
+      const data: ApiResponse<PharmacistProfile> = await response.json();
+      return data.data!;
+    } catch (error) {
+      console.error('Error fetching pharmacist profile:', error);
+      throw error;
+    }
+  }
+
+  async getFulfilmentOrders(): Promise<PrescriptionOrder[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const params = new URLSearchParams({
+        status: FULFILMENT_STATUSES.join(','),
+        pageSize: '50',
+        sortField: 'createdAt',
+        sortDirection: 'asc'
+      });
+
+      const response = await fetch(`${API_BASE_URL}/pharmacist/orders?${params}`, {
+        method: 'GET',
+        headers
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch orders in fulfilment');
+      }
+
+      const data: ApiResponse<{ orders: PrescriptionOrder[] }> = await response.json();
+      return (data.data?.orders || []).map(toOrder);
+    } catch (error) {
+      console.error('Error fetching orders in fulfilment:', error);
+      throw error;
+    }
+  }
+
+  async updateFulfilmentStatus(request: FulfilmentStatusRequest): Promise<PrescriptionOrder> {
+    try {
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/pharmacist/orders/${request.orderId}/fulfilment`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ status: request.status })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update order status');
+      }
+
+      const data: ApiResponse<PrescriptionOrder> = await response.json();
+      return toOrder(data.data!);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      throw error;
+    }
+  }
+
+  async getStock(medicationName?: string): Promise<PharmacyStock> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const params = medicationName ? `?${new URLSearchParams({ medicationName })}` : '';
+
+      const response = await fetch(`${API_BASE_URL}/pharmacist/stock${params}`, {
+        method: 'GET',
+        headers
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch pharmacy stock');
+      }
+
+      const data: ApiResponse<PharmacyStock> = await response.json();
+      return {
+        ...data.data!,
+        items: data.data!.items.map(toItem),
+        dataAsOf: data.data!.dataAsOf ? new Date(data.data!.dataAsOf) : undefined
+      };
+    } catch (error) {
+      console.error('Error fetching pharmacy stock:', error);
+      throw error;
+    }
+  }
+}
+
+export const pharmacistService = new PharmacistService();
@@ -0,0 +1,53 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ClarificationDialog } from '../components/ClarificationDialog';
+
+const mockProps = {
+  isOpen: true,
+  onClose: vi.fn(),
+  onConfirm: vi.fn(),
+  isLoading: false
+};
+
+describe('ClarificationDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not render when isOpen is false', () => {
+    render(<ClarificationDialog {...mockProps} isOpen={false} />);
+
+    expect(screen.queryByText('Ask the Patient')).not.toBeInTheDocument();
+  });
+
+  it('requires a question', () => {
+    render(<ClarificationDialog {...mockProps} />);
+
+    fireEvent.click(screen.getByText('Send Question'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please enter a question for the patient');
+    expect(mockProps.onConfirm).not.toHaveBeenCalled();
+  });
+
+  it('sends the question on the chosen channel', () => {
+    render(<ClarificationDialog {...mockProps} />);
+
+    fireEvent.change(screen.getByPlaceholderText(/is it 250mg or 500mg/), {
+      target: { value: '  Is it 250mg or 500mg?  ' }
+    });
+    fireEvent.click(screen.getByLabelText('WhatsApp'));
+    fireEvent.click(screen.getByText('Send Question'));
+
+    expect(mockProps.onConfirm).toHaveBeenCalledWith('Is it 250mg or 500mg?', 'whatsapp');
+  });
+
+  it('does not close while sending', () => {
+    render(<ClarificationDialog {...mockProps} isLoading={true} />);
+
+    fireEvent.click(screen.getByLabelText('Close dialog'));
+
+    expect(mockProps.onClose).not.toHaveBeenCalled();
+    expect(screen.getByText('Sending...')).toBeInTheDocument();
+  });
+});
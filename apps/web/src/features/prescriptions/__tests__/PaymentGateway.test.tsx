@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import { PaymentGateway } from '../components/PaymentGateway';
+import { usePaymentProcessing } from '../hooks/usePaymentProcessing';
 
 // Mock the payment processing hook
 vi.mock('../hooks/usePaymentProcessing', () => ({
@@ -15,9 +16,7 @@ vi.mock('../hooks/usePaymentProcessing', () => ({
   }))
 }));
 
-const mockUsePaymentProcessing = vi.mocked(
-  () => import('../hooks/usePaymentProcessing').then(m => m.usePaymentProcessing)
-);
+const mockUsePaymentProcessing = vi.mocked(usePaymentProcessing);
 
 describe('PaymentGateway', () => {
   const defaultProps = {
@@ -31,6 +30,7 @@ describe('PaymentGateway', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockUsePaymentProcessing.mockReset();
   });
 
   it('renders payment method selector initially', () => {
@@ -283,6 +283,24 @@ describe('PaymentGateway', () => {
     expect(screen.getByRole('button', { name: /réessayer/i })).toBeInTheDocument();
   });
 
+  it('shows a check-your-phone state while a mobile money payment awaits approval', async () => {
+    mockUsePaymentProcessing.mockReturnValue({
+      isProcessing: false,
+      awaitingConfirmation: true,
+      error: null,
+      success: false,
+      processPayment: vi.fn(),
+      clearError: vi.fn(),
+      resetState: vi.fn()
+    } as any);
+
+    render(<PaymentGateway {...defaultProps} />);
+
+    expect(screen.getByText(/check your phone/i)).toBeInTheDocument();
+    expect(screen.getByText(/waiting for your approval/i)).toBeInTheDocument();
+    expect(defaultProps.onPaymentSuccess).not.toHaveBeenCalled();
+  });
+
   it('calls onPaymentSuccess when payment succeeds', async () => {
     const usePaymentProcessingMock = vi.fn(() => ({
       isProcessing: false,
@@ -178,6 +178,30 @@ describe('PrescriptionReview', () => {
       const notExtractedTexts = screen.getAllByText('Not extracted');
       expect(notExtractedTexts).toHaveLength(3); // name, dosage, quantity
     });
+
+    it('lists every line item on a multi-medication order', () => {
+      const multiLineOrder: PrescriptionOrder = {
+        ...mockOrder,
+        lineItems: [
+          { lineItemId: 'item-1', name: 'Amoxicillin', dosage: '500mg', quantity: 30, availability: 'in_stock', substitution: { status: 'none' }, lineTotal: 3000 },
+          {
+            lineItemId: 'item-2',
+            name: 'Paracetamol',
+            dosage: '1g',
+            quantity: 2,
+            availability: 'out_of_stock',
+            substitution: { status: 'proposed', substitute: { name: 'Doliprane', dosage: '1g', quantity: 2 } }
+          }
+        ]
+      };
+      render(<PrescriptionReview {...mockProps} order={multiLineOrder} />);
+
+      expect(screen.getByText('Medication 1 of 2')).toBeInTheDocument();
+      expect(screen.getByText('Paracetamol')).toBeInTheDocument();
+      expect(screen.getByText('out of stock')).toBeInTheDocument();
+      expect(screen.getByText('Substitution proposed: Doliprane')).toBeInTheDocument();
+      expect(screen.getByText('$3000.00')).toBeInTheDocument();
+    });
   });
 
   describe('Patient Verification Status', () => {
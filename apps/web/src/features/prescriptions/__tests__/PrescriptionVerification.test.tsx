@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { PrescriptionOrder } from '@pharmarx/shared-types';
 import PrescriptionVerification from '../components/PrescriptionVerification';
+import { useOrderVerification } from '../hooks/useOrderVerification';
 import { VerificationActionType } from '../types/verification.types';
 
 // Mock the custom hook
@@ -11,9 +12,7 @@ vi.mock('../hooks/useOrderVerification', () => ({
   useOrderVerification: vi.fn()
 }));
 
-const mockUseOrderVerification = vi.mocked(
-  () => import('../hooks/useOrderVerification').then(m => m.useOrderVerification)
-);
+const mockUseOrderVerification = vi.mocked(useOrderVerification);
 
 // Test data
 const mockOrder: PrescriptionOrder = {
@@ -64,7 +63,8 @@ describe('PrescriptionVerification', () => {
     errors: {},
     confirmVerification: mockConfirmVerification,
     skipVerification: mockSkipVerification,
-    clearErrors: mockClearErrors
+    clearErrors: mockClearErrors,
+    validateMedicationDetails: vi.fn(() => ({}))
   };
 
   beforeEach(() => {
@@ -328,6 +328,60 @@ describe('PrescriptionVerification', () => {
     });
   });
 
+  describe('OCR Medication Candidates', () => {
+    const orderWithCandidates: PrescriptionOrder = {
+      ...mockOrder,
+      medicationDetails: undefined,
+      extractedMedications: [
+        {
+          name: 'Amoxicillin',
+          dosage: '500mg',
+          quantity: 21,
+          frequency: '3 fois par jour',
+          prescriber: 'Dr Kossi AGBO',
+          inDictionary: true,
+          fieldConfidence: { name: 0.9, dosage: 0.9, quantity: 0.54 },
+          sourceText: 'Amoxicilline 500 mg gélules'
+        },
+        {
+          name: 'Paracetamol',
+          dosage: '1g',
+          quantity: 2,
+          inDictionary: true,
+          fieldConfidence: { name: 0.9, dosage: 0.9, quantity: 0.81 },
+          sourceText: 'Paracétamol 1g'
+        }
+      ]
+    };
+
+    it('pre-fills the form from the first candidate and flags low-confidence fields', () => {
+      renderComponent(orderWithCandidates);
+
+      expect(screen.getByLabelText(/medication name/i)).toHaveValue('Amoxicillin');
+      expect(screen.getByLabelText(/dosage/i)).toHaveValue('500mg');
+      expect(screen.getByLabelText(/quantity/i)).toHaveValue(21);
+      expect(screen.getAllByText(/please double-check/i)).toHaveLength(1);
+      expect(screen.getByText(/prescribed by dr kossi agbo/i)).toBeInTheDocument();
+    });
+
+    it('fills the form with a candidate when the patient selects it', async () => {
+      const user = userEvent.setup();
+      renderComponent(orderWithCandidates);
+
+      await user.click(screen.getByRole('button', { name: /paracetamol/i }));
+
+      expect(screen.getByLabelText(/medication name/i)).toHaveValue('Paracetamol');
+      expect(screen.getByLabelText(/dosage/i)).toHaveValue('1g');
+      expect(screen.getByLabelText(/quantity/i)).toHaveValue(2);
+    });
+
+    it('keeps details already saved on the order over OCR candidates', () => {
+      renderComponent({ ...orderWithCandidates, medicationDetails: mockOrder.medicationDetails });
+
+      expect(screen.getByLabelText(/medication name/i)).toHaveValue('Metformin');
+    });
+  });
+
   describe('Empty/Missing Data Handling', () => {
     it('handles order without medication details', () => {
       const orderWithoutDetails = {
@@ -357,4 +411,44 @@ describe('PrescriptionVerification', () => {
       expect(screen.queryByText('OCR Extracted Text:')).not.toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-page prescriptions', () => {
+    const multiPageOrder: PrescriptionOrder = {
+      ...mockOrder,
+      originalImageUrl: 'https://example.com/page-1.jpg',
+      additionalImageUrls: ['https://example.com/page-2.pdf'],
+      extractedText: 'Metformin 500mg\n\nQuantity: 30',
+      ocrPages: [
+        { pageNumber: 1, imageIndex: 0, text: 'Metformin 500mg', confidence: 0.92 },
+        { pageNumber: 2, imageIndex: 1, pdfPageNumber: 1, text: 'Quantity: 30', confidence: 0.71 }
+      ]
+    };
+
+    it('shows the first page with the text read from it', () => {
+      renderComponent(multiPageOrder);
+
+      expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+      expect(screen.getByAltText('Prescription page 1')).toHaveAttribute('src', 'https://example.com/page-1.jpg');
+      expect(screen.getByText('"Metformin 500mg"')).toBeInTheDocument();
+      expect(screen.getByText('Read with 92% confidence')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Previous page' })).toBeDisabled();
+    });
+
+    it('flips to the next page, showing PDF pages in a frame', () => {
+      renderComponent(multiPageOrder);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+
+      expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+      expect(screen.getByTitle('Prescription page 2')).toHaveAttribute('src', 'https://example.com/page-2.pdf#page=1');
+      expect(screen.getByText('"Quantity: 30"')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Next page' })).toBeDisabled();
+    });
+
+    it('hides page controls for a single page', () => {
+      renderComponent();
+
+      expect(screen.queryByTestId('page-controls')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -44,7 +44,9 @@ describe('RejectDialog', () => {
       expect(screen.getByText('Drug interaction concerns')).toBeInTheDocument();
       expect(screen.getByText('Invalid prescription format')).toBeInTheDocument();
       expect(screen.getByText('Expired prescription')).toBeInTheDocument();
+      expect(screen.getByText('Missing prescriber signature')).toBeInTheDocument();
       expect(screen.getByText('Insurance coverage issues')).toBeInTheDocument();
+      expect(screen.getByText('Medication out of stock')).toBeInTheDocument();
       expect(screen.getByText('Other (specify in notes)')).toBeInTheDocument();
     });
 
@@ -70,9 +72,9 @@ describe('RejectDialog', () => {
       render(<RejectDialog {...mockProps} />);
       
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       
-      expect(reasonSelect).toHaveValue('Illegible prescription');
+      expect(reasonSelect).toHaveValue('illegible');
     });
 
     it('allows typing in notes field', () => {
@@ -84,11 +86,22 @@ describe('RejectDialog', () => {
       expect(notesTextarea).toHaveValue('Test notes');
     });
 
+    it('tells the pharmacist whether the patient can resubmit', () => {
+      render(<RejectDialog {...mockProps} />);
+
+      const reasonSelect = screen.getByRole('combobox');
+      fireEvent.change(reasonSelect, { target: { value: 'missing_signature' } });
+      expect(screen.getByText(/The patient is asked to fix and resubmit/)).toBeInTheDocument();
+
+      fireEvent.change(reasonSelect, { target: { value: 'drug_interaction' } });
+      expect(screen.getByText('The patient will not be able to resubmit this order.')).toBeInTheDocument();
+    });
+
     it('shows required indicator for notes when "Other" is selected', () => {
       render(<RejectDialog {...mockProps} />);
       
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Other (specify in notes)' } });
+      fireEvent.change(reasonSelect, { target: { value: 'other' } });
       
       expect(screen.getByText(/Additional Notes \*/)).toBeInTheDocument();
     });
@@ -102,7 +115,7 @@ describe('RejectDialog', () => {
       const reasonSelect = screen.getByRole('combobox');
       const notesTextarea = screen.getByRole('textbox');
       
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(notesTextarea, { target: { value: 'Test notes' } });
       
       // Close and reopen dialog
@@ -134,7 +147,7 @@ describe('RejectDialog', () => {
       render(<RejectDialog {...mockProps} />);
       
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Other (specify in notes)' } });
+      fireEvent.change(reasonSelect, { target: { value: 'other' } });
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
       fireEvent.click(submitButton);
@@ -159,7 +172,7 @@ describe('RejectDialog', () => {
 
       // Fix the error
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       
       await waitFor(() => {
         expect(screen.queryByText('Please select a rejection reason')).not.toBeInTheDocument();
@@ -170,13 +183,13 @@ describe('RejectDialog', () => {
       render(<RejectDialog {...mockProps} />);
       
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
       fireEvent.click(submitButton);
       
       await waitFor(() => {
-        expect(mockProps.onConfirm).toHaveBeenCalledWith('Illegible prescription', undefined);
+        expect(mockProps.onConfirm).toHaveBeenCalledWith('illegible', undefined);
       });
     });
 
@@ -186,14 +199,14 @@ describe('RejectDialog', () => {
       const reasonSelect = screen.getByRole('combobox');
       const notesTextarea = screen.getByRole('textbox');
       
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(notesTextarea, { target: { value: 'Cannot read medication name' } });
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
       fireEvent.click(submitButton);
       
       await waitFor(() => {
-        expect(mockProps.onConfirm).toHaveBeenCalledWith('Illegible prescription', 'Cannot read medication name');
+        expect(mockProps.onConfirm).toHaveBeenCalledWith('illegible', 'Cannot read medication name');
       });
     });
 
@@ -203,14 +216,14 @@ describe('RejectDialog', () => {
       const reasonSelect = screen.getByRole('combobox');
       const notesTextarea = screen.getByRole('textbox');
       
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(notesTextarea, { target: { value: '  whitespace notes  ' } });
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
       fireEvent.click(submitButton);
       
       await waitFor(() => {
-        expect(mockProps.onConfirm).toHaveBeenCalledWith('Illegible prescription', 'whitespace notes');
+        expect(mockProps.onConfirm).toHaveBeenCalledWith('illegible', 'whitespace notes');
       });
     });
 
@@ -220,14 +233,14 @@ describe('RejectDialog', () => {
       const reasonSelect = screen.getByRole('combobox');
       const notesTextarea = screen.getByRole('textbox');
       
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(notesTextarea, { target: { value: '   ' } }); // Only whitespace
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
       fireEvent.click(submitButton);
       
       await waitFor(() => {
-        expect(mockProps.onConfirm).toHaveBeenCalledWith('Illegible prescription', undefined);
+        expect(mockProps.onConfirm).toHaveBeenCalledWith('illegible', undefined);
       });
     });
   });
@@ -337,7 +350,7 @@ describe('RejectDialog', () => {
       const reasonSelect = screen.getByRole('combobox');
       const notesTextarea = screen.getByRole('textbox');
       
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(notesTextarea, { target: { value: 'Test notes' } });
       
       // Close dialog
@@ -378,7 +391,7 @@ describe('RejectDialog', () => {
       render(<RejectDialog {...mockProps} />);
       
       const reasonSelect = screen.getByRole('combobox');
-      fireEvent.change(reasonSelect, { target: { value: 'Illegible prescription' } });
+      fireEvent.change(reasonSelect, { target: { value: 'illegible' } });
       fireEvent.change(reasonSelect, { target: { value: '' } }); // Clear selection
       
       const submitButton = screen.getByRole('button', { name: /reject prescription/i });
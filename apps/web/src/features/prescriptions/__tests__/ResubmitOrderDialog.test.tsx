@@ -0,0 +1,103 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { OrderHistoryItem } from '@pharmarx/shared-types';
+import { ResubmitOrderDialog } from '../components/ResubmitOrderDialog';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+const mockMutateAsync = vi.fn();
+
+vi.mock('../hooks/useResubmitOrder', () => ({
+  useResubmitOrder: () => ({ mutateAsync: mockMutateAsync, isPending: false })
+}));
+
+vi.mock('../../../services/prescriptionService', () => ({
+  prescriptionService: {
+    uploadPrescriptionFile: vi.fn()
+  }
+}));
+
+const order: OrderHistoryItem = {
+  orderId: 'order-123',
+  status: 'rejected',
+  medicationDetails: { name: 'Amoxicilin', dosage: '500', quantity: 21 },
+  createdAt: new Date('2025-01-15T08:00:00Z'),
+  hasReceipt: false,
+  rejection: {
+    reasonCode: 'unclear_dosage',
+    reason: 'Unclear dosage instructions',
+    patientGuidance: 'Correct the dosage, or attach a photo where the dosage can be read.',
+    pharmacistNotes: 'Is it 500mg?',
+    resubmission: { eligible: true }
+  }
+};
+
+const mockProps = {
+  isOpen: true,
+  order,
+  onClose: vi.fn()
+};
+
+describe('ResubmitOrderDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMutateAsync.mockResolvedValue({ orderId: 'order-456' });
+  });
+
+  it('shows why the order was rejected', () => {
+    render(<ResubmitOrderDialog {...mockProps} />);
+
+    expect(screen.getByText('Unclear dosage instructions')).toBeInTheDocument();
+    expect(screen.getByText(/Correct the dosage/)).toBeInTheDocument();
+    expect(screen.getByText('Is it 500mg?')).toBeInTheDocument();
+  });
+
+  it('requires a new photo or corrected details', () => {
+    render(<ResubmitOrderDialog {...mockProps} />);
+
+    fireEvent.click(screen.getByText('Resubmit Order'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Attach a new photo or correct the medication details');
+    expect(mockMutateAsync).not.toHaveBeenCalled();
+  });
+
+  it('sends corrected details with a note', async () => {
+    render(<ResubmitOrderDialog {...mockProps} />);
+
+    fireEvent.click(screen.getByLabelText('Correct the medication details'));
+    fireEvent.change(screen.getByLabelText('Medication 1 dosage'), { target: { value: '500mg' } });
+    fireEvent.change(screen.getByLabelText('Note for the pharmacist'), { target: { value: ' Three times a day ' } });
+    fireEvent.click(screen.getByText('Resubmit Order'));
+
+    await waitFor(() => {
+      expect(mockMutateAsync).toHaveBeenCalledWith({
+        orderId: 'order-123',
+        request: {
+          medications: [{ name: 'Amoxicilin', dosage: '500mg', quantity: 21 }],
+          note: 'Three times a day'
+        }
+      });
+    });
+    expect(mockProps.onClose).toHaveBeenCalled();
+  });
+
+  it('uploads new photos before resubmitting', async () => {
+    vi.mocked(prescriptionService.uploadPrescriptionFile).mockResolvedValue({
+      success: true,
+      url: 'gs://pharmarx-prescriptions/prescriptions/uid-1/new.jpg'
+    } as any);
+    render(<ResubmitOrderDialog {...mockProps} />);
+
+    const photo = new File(['photo'], 'new.jpg', { type: 'image/jpeg' });
+    fireEvent.change(screen.getByLabelText('New photos of the prescription'), { target: { files: [photo] } });
+    fireEvent.click(screen.getByText('Resubmit Order'));
+
+    await waitFor(() => {
+      expect(mockMutateAsync).toHaveBeenCalledWith({
+        orderId: 'order-123',
+        request: { imageUrls: ['gs://pharmarx-prescriptions/prescriptions/uid-1/new.jpg'] }
+      });
+    });
+    expect(prescriptionService.uploadPrescriptionFile).toHaveBeenCalledWith(photo);
+  });
+});
@@ -28,6 +28,11 @@ const mockPreparingOrder: PrescriptionOrder = {
   status: 'preparing'
 };
 
+const mockReadyForPickupOrder: PrescriptionOrder = {
+  ...mockOrder,
+  status: 'ready'
+};
+
 const mockReadyOrder: PrescriptionOrder = {
   ...mockOrder,
   status: 'out_for_delivery'
@@ -61,16 +66,23 @@ describe('ReviewActions Status Updates', () => {
       render(<ReviewActions {...defaultProps} />);
       
       expect(screen.getByText('Mark as Preparing')).toBeInTheDocument();
-      expect(screen.queryByText('Mark as Ready for Delivery')).not.toBeInTheDocument();
+      expect(screen.queryByText('Mark as Ready for Pickup')).not.toBeInTheDocument();
     });
 
-    it('shows "Mark as Ready for Delivery" button for preparing status', () => {
+    it('shows "Mark as Ready for Pickup" button for preparing status', () => {
       render(<ReviewActions {...defaultProps} order={mockPreparingOrder} />);
       
-      expect(screen.getByText('Mark as Ready for Delivery')).toBeInTheDocument();
+      expect(screen.getByText('Mark as Ready for Pickup')).toBeInTheDocument();
       expect(screen.queryByText('Mark as Preparing')).not.toBeInTheDocument();
     });
 
+    it('shows "Hand Over to Courier" button for ready status', () => {
+      render(<ReviewActions {...defaultProps} order={mockReadyForPickupOrder} />);
+      
+      expect(screen.getByText('Hand Over to Courier')).toBeInTheDocument();
+      expect(screen.queryByText('Mark as Ready for Pickup')).not.toBeInTheDocument();
+    });
+
     it('hides regular action buttons when order is in fulfillment stage', () => {
       render(<ReviewActions {...defaultProps} />);
       
@@ -96,21 +108,21 @@ describe('ReviewActions Status Updates', () => {
       fireEvent.click(screen.getByText('Mark as Preparing'));
       
       await waitFor(() => {
-        expect(screen.getByText('Mark as Preparing')).toBeInTheDocument();
+        expect(screen.getByRole('heading', { name: 'Mark as Preparing' })).toBeInTheDocument();
         expect(screen.getByText(/Are you sure you want to mark this order as preparing/)).toBeInTheDocument();
         expect(screen.getByText('Confirm')).toBeInTheDocument();
         expect(screen.getByText('Cancel')).toBeInTheDocument();
       });
     });
 
-    it('shows confirmation dialog when clicking Mark as Ready for Delivery', async () => {
+    it('shows confirmation dialog when clicking Mark as Ready for Pickup', async () => {
       render(<ReviewActions {...defaultProps} order={mockPreparingOrder} />);
       
-      fireEvent.click(screen.getByText('Mark as Ready for Delivery'));
+      fireEvent.click(screen.getByText('Mark as Ready for Pickup'));
       
       await waitFor(() => {
-        expect(screen.getByText('Mark as Ready for Delivery')).toBeInTheDocument();
-        expect(screen.getByText(/Are you sure you want to mark this order as ready for delivery/)).toBeInTheDocument();
+        expect(screen.getByRole('heading', { name: 'Mark as Ready for Pickup' })).toBeInTheDocument();
+        expect(screen.getByText(/Are you sure you want to mark this order as ready\?/)).toBeInTheDocument();
         expect(screen.getByText('Confirm')).toBeInTheDocument();
         expect(screen.getByText('Cancel')).toBeInTheDocument();
       });
@@ -150,10 +162,26 @@ describe('ReviewActions Status Updates', () => {
       });
     });
 
-    it('calls onStatusUpdate with out_for_delivery status when confirmed', async () => {
+    it('calls onStatusUpdate with ready status when confirmed', async () => {
       render(<ReviewActions {...defaultProps} order={mockPreparingOrder} />);
       
-      fireEvent.click(screen.getByText('Mark as Ready for Delivery'));
+      fireEvent.click(screen.getByText('Mark as Ready for Pickup'));
+      
+      await waitFor(() => {
+        expect(screen.getByText('Confirm')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Confirm'));
+      
+      await waitFor(() => {
+        expect(mockOnStatusUpdate).toHaveBeenCalledWith('ready', mockOnStatusUpdateComplete);
+      });
+    });
+
+    it('calls onStatusUpdate with out_for_delivery status when confirmed', async () => {
+      render(<ReviewActions {...defaultProps} order={mockReadyForPickupOrder} />);
+      
+      fireEvent.click(screen.getByText('Hand Over to Courier'));
       
       await waitFor(() => {
         expect(screen.getByText('Confirm')).toBeInTheDocument();
@@ -288,4 +316,113 @@ describe('ReviewActions Status Updates', () => {
       });
     });
   });
-});
\ No newline at end of file
+});
+describe('ReviewActions Line Items', () => {
+  const multiLineOrder: PrescriptionOrder = {
+    ...mockOrder,
+    status: 'awaiting_verification',
+    lineItems: [
+      { lineItemId: 'item-1', name: 'Amoxicillin', dosage: '500mg', quantity: 21, availability: 'unknown', substitution: { status: 'none' } },
+      { lineItemId: 'item-2', name: 'Paracetamol', dosage: '1g', quantity: 2, availability: 'unknown', substitution: { status: 'none' } }
+    ]
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOnApprove.mockResolvedValue(undefined);
+  });
+
+  it('prices each line and approves with the computed total', async () => {
+    render(<ReviewActions {...defaultProps} order={multiLineOrder} />);
+
+    fireEvent.click(screen.getByText('Approve'));
+    fireEvent.change(screen.getByLabelText(/Unit Price/, { selector: '#unit-price-item-1' }), { target: { value: '100' } });
+    fireEvent.change(screen.getByLabelText('Availability', { selector: '#availability-item-2' }), { target: { value: 'out_of_stock' } });
+    fireEvent.change(screen.getByLabelText(/Proposed Substitute/), { target: { value: 'Doliprane' } });
+    fireEvent.change(screen.getByLabelText('Refills Authorized'), { target: { value: '2' } });
+
+    expect(screen.getByText('$2100.00')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Confirm Approval'));
+
+    await waitFor(() => {
+      expect(mockOnApprove).toHaveBeenCalledWith({
+        orderId: 'test-order-123',
+        pharmacistNotes: undefined,
+        lineItems: [
+          { lineItemId: 'item-1', editedDetails: undefined, unitPrice: 100, availability: 'unknown', substitution: undefined },
+          {
+            lineItemId: 'item-2',
+            editedDetails: undefined,
+            unitPrice: undefined,
+            availability: 'out_of_stock',
+            substitution: { status: 'proposed', substitute: { name: 'Doliprane', dosage: '1g', quantity: 2 } }
+          }
+        ],
+        refillsAuthorized: 2
+      });
+    });
+  });
+
+  it('requires a price for every billable line', async () => {
+    render(<ReviewActions {...defaultProps} order={multiLineOrder} />);
+
+    fireEvent.click(screen.getByText('Approve'));
+    fireEvent.change(screen.getByLabelText(/Unit Price/, { selector: '#unit-price-item-1' }), { target: { value: '100' } });
+    fireEvent.click(screen.getByText('Confirm Approval'));
+
+    expect(screen.getByText('Unit price must be greater than 0')).toBeInTheDocument();
+    expect(mockOnApprove).not.toHaveBeenCalled();
+  });
+
+  it('requires an override note to approve over a major finding', async () => {
+    const screeningFindings = [{
+      type: 'allergy' as const,
+      severity: 'major' as const,
+      medication: 'Amoxicillin',
+      conflictsWith: 'Penicillin',
+      description: 'The patient is allergic to Penicillin, which includes this medication'
+    }];
+    render(<ReviewActions {...defaultProps} order={multiLineOrder} screeningFindings={screeningFindings} />);
+
+    fireEvent.click(screen.getByText('Approve'));
+    fireEvent.change(screen.getByLabelText(/Unit Price/, { selector: '#unit-price-item-1' }), { target: { value: '100' } });
+    fireEvent.change(screen.getByLabelText(/Unit Price/, { selector: '#unit-price-item-2' }), { target: { value: '5' } });
+    fireEvent.click(screen.getByText('Confirm Approval'));
+
+    expect(screen.getByText('Explain why you are approving despite the major finding')).toBeInTheDocument();
+    expect(mockOnApprove).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/Interaction Override Note/), { target: { value: 'Rash only; prescriber confirmed' } });
+    fireEvent.click(screen.getByText('Confirm Approval'));
+
+    await waitFor(() => {
+      expect(mockOnApprove).toHaveBeenCalledWith(expect.objectContaining({
+        interactionOverrideNote: 'Rash only; prescriber confirmed'
+      }));
+    });
+  });
+
+  it('edits each medication separately', async () => {
+    mockOnEdit.mockResolvedValue(undefined);
+    render(<ReviewActions {...defaultProps} order={multiLineOrder} />);
+
+    fireEvent.click(screen.getByText('Edit Details'));
+    expect(screen.getByText('Medication 2 of 2')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByDisplayValue('2'), { target: { value: '3' } });
+    fireEvent.click(screen.getByText('Save Changes'));
+
+    await waitFor(() => {
+      expect(mockOnEdit).toHaveBeenCalledWith({
+        orderId: 'test-order-123',
+        editedDetails: undefined,
+        pharmacistNotes: undefined,
+        lineItems: [
+          { lineItemId: 'item-1', editedDetails: undefined },
+          { lineItemId: 'item-2', editedDetails: { name: 'Paracetamol', dosage: '1g', quantity: 3 } }
+        ]
+      });
+    });
+  });
+});
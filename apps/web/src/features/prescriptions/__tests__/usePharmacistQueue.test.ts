@@ -7,13 +7,10 @@ import { PrescriptionOrder } from '@pharmarx/shared-types';
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
-// Mock localStorage
-const mockLocalStorage = {
-  getItem: vi.fn(() => 'fake-token'),
-  setItem: vi.fn(),
-  removeItem: vi.fn()
-};
-Object.defineProperty(window, 'localStorage', { value: mockLocalStorage });
+// Mock the Firebase token lookup
+vi.mock('../../../utils/authUtils', () => ({
+  getValidAuthToken: vi.fn(() => Promise.resolve('fake-token'))
+}));
 
 // Mock data
 const mockOrders: PrescriptionOrder[] = [
@@ -65,9 +62,8 @@ const mockApiResponse = {
 
 describe('usePharmacistQueue', () => {
   beforeEach(() => {
-    vi.useFakeTimers();
+    vi.useFakeTimers({ shouldAdvanceTime: true });
     mockFetch.mockClear();
-    mockLocalStorage.getItem.mockClear();
   });
 
   afterEach(() => {
@@ -112,7 +108,7 @@ describe('usePharmacistQueue', () => {
       });
 
       expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining('/pharmacist/orders?'),
+        expect.stringContaining('/api/pharmacist/orders?'),
         expect.objectContaining({
           method: 'GET',
           headers: {
@@ -351,10 +347,8 @@ describe('usePharmacistQueue', () => {
 
       // Should trigger new API call with new page
       await waitFor(() => {
-        const lastCall = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
-        const [url] = lastCall;
-        const urlObj = new URL(url);
-        expect(urlObj.searchParams.get('page')).toBe('3');
+        const pages = mockFetch.mock.calls.map(([url]) => new URL(url).searchParams.get('page'));
+        expect(pages).toContain('3');
       });
     });
 
@@ -411,7 +405,10 @@ describe('usePharmacistQueue', () => {
         result.current.refreshQueue();
       });
 
-      expect(mockFetch.mock.calls.length).toBe(initialCallCount + 1);
+      // The request goes out once the auth token has been read
+      await waitFor(() => {
+        expect(mockFetch.mock.calls.length).toBe(initialCallCount + 1);
+      });
     });
   });
 
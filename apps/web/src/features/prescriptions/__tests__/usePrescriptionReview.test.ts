@@ -3,18 +3,16 @@ import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { usePrescriptionReview } from '../hooks/usePrescriptionReview';
 import { PrescriptionOrder } from '@pharmarx/shared-types';
 import { ApproveOrderRequest, RejectOrderRequest, EditOrderRequest } from '../types/pharmacist.types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 // Mock fetch
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
-// Mock localStorage
-const mockLocalStorage = {
-  getItem: vi.fn(() => 'fake-token'),
-  setItem: vi.fn(),
-  removeItem: vi.fn()
-};
-Object.defineProperty(window, 'localStorage', { value: mockLocalStorage });
+// Mock the Firebase token lookup
+vi.mock('../../../utils/authUtils', () => ({
+  getValidAuthToken: vi.fn(() => Promise.resolve('fake-token'))
+}));
 
 // Mock data
 const mockOrder: PrescriptionOrder = {
@@ -62,7 +60,6 @@ const mockProps = {
 describe('usePrescriptionReview', () => {
   beforeEach(() => {
     mockFetch.mockClear();
-    mockLocalStorage.getItem.mockClear();
     vi.clearAllMocks();
   });
 
@@ -103,7 +100,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/approve',
+        'http://localhost:3001/api/pharmacist/orders/order-123/approve',
         expect.objectContaining({
           method: 'PUT',
           headers: {
@@ -205,7 +202,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/reject',
+        'http://localhost:3001/api/pharmacist/orders/order-123/reject',
         expect.objectContaining({
           method: 'PUT',
           headers: {
@@ -280,7 +277,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/edit',
+        'http://localhost:3001/api/pharmacist/orders/order-123/edit',
         expect.objectContaining({
           method: 'PUT',
           headers: {
@@ -411,7 +408,7 @@ describe('usePrescriptionReview', () => {
         })
       );
 
-      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('authToken');
+      expect(getValidAuthToken).toHaveBeenCalled();
     });
   });
 
@@ -433,7 +430,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenLastCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/approve',
+        'http://localhost:3001/api/pharmacist/orders/order-123/approve',
         expect.any(Object)
       );
 
@@ -446,7 +443,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenLastCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/reject',
+        'http://localhost:3001/api/pharmacist/orders/order-123/reject',
         expect.any(Object)
       );
 
@@ -459,7 +456,7 @@ describe('usePrescriptionReview', () => {
       });
 
       expect(mockFetch).toHaveBeenLastCalledWith(
-        'http://localhost:3001/pharmacist/orders/order-123/edit',
+        'http://localhost:3001/api/pharmacist/orders/order-123/edit',
         expect.any(Object)
       );
     });
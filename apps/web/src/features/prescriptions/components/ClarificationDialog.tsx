@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { CLARIFICATION_MESSAGE_MAX_LENGTH, ClarificationNotificationChannel } from '@pharmarx/shared-types';
+import { ClarificationDialogProps } from '../types/pharmacist.types';
+
+export const ClarificationDialog: React.FC<ClarificationDialogProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  isLoading
+}) => {
+  const [message, setMessage] = useState('');
+  const [notificationChannel, setNotificationChannel] = useState<ClarificationNotificationChannel>('sms');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when dialog opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      setMessage('');
+      setNotificationChannel('sms');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!message.trim()) {
+      setError('Please enter a question for the patient');
+      return;
+    }
+
+    onConfirm(message.trim(), notificationChannel);
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Ask the Patient
+            </h3>
+            <button
+              onClick={handleClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="px-6 py-4">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Question <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  setError(null);
+                }}
+                rows={4}
+                maxLength={CLARIFICATION_MESSAGE_MAX_LENGTH}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none ${
+                  error
+                    ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                    : 'border-gray-300 focus:border-blue-500'
+                }`}
+                placeholder="e.g. The dosage is hard to read - is it 250mg or 500mg?"
+                disabled={isLoading}
+              />
+              {error && (
+                <p className="mt-1 text-sm text-red-600" role="alert">
+                  {error}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Send the question by</span>
+              <div className="flex space-x-4">
+                {(['sms', 'whatsapp'] as ClarificationNotificationChannel[]).map((channel) => (
+                  <label key={channel} className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="notificationChannel"
+                      value={channel}
+                      checked={notificationChannel === channel}
+                      onChange={() => setNotificationChannel(channel)}
+                      disabled={isLoading}
+                      className="mr-2"
+                    />
+                    {channel === 'sms' ? 'SMS' : 'WhatsApp'}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600">
+              The order is put on hold until you approve or reject it. The patient can reply
+              from the app or straight from the message.
+            </p>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end space-x-3 mt-6 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-amber-600 border border-transparent rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Sending...' : 'Send Question'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { CLARIFICATION_MESSAGE_MAX_LENGTH, OrderClarificationMessage } from '@pharmarx/shared-types';
+import { ClarificationThreadProps } from '../types/pharmacist.types';
+import { useOrderClarification } from '../hooks/useOrderClarification';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+const CHANNEL_LABELS: Record<OrderClarificationMessage['channel'], string> = {
+  web: 'App',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp'
+};
+
+const formatMessageTime = (date: Date) =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ClarificationThread: React.FC<ClarificationThreadProps> = ({
+  orderId,
+  audience,
+  canReply,
+  className = ''
+}) => {
+  const { messages, isLoading, error, sendReply, isSending, sendError } = useOrderClarification(orderId, audience);
+  const [text, setText] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const getAuthorLabel = (message: OrderClarificationMessage) => {
+    if (message.authorRole === audience) {
+      return 'You';
+    }
+    return message.authorName || (message.authorRole === 'pharmacist' ? 'Pharmacist' : 'Patient');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() && !photo) {
+      return;
+    }
+
+    setUploadError(null);
+    let imageUrl: string | undefined;
+    if (photo) {
+      setIsUploading(true);
+      try {
+        const upload = await prescriptionService.uploadPrescriptionFile(photo);
+        if (!upload.success || !upload.url) {
+          throw new Error(upload.error || 'Photo upload failed');
+        }
+        imageUrl = upload.url;
+      } catch (err) {
+        setUploadError(err instanceof Error ? err.message : 'Photo upload failed');
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    try {
+      await sendReply({ text: text.trim() || undefined, imageUrl });
+      setText('');
+      setPhoto(null);
+    } catch {
+      // sendError shows the failure; the draft is kept so it can be sent again
+    }
+  };
+
+  return (
+    <div className={`bg-amber-50 border border-amber-200 rounded-lg p-4 ${className}`}>
+      <h4 className="text-sm font-medium text-amber-900 mb-3">
+        {audience === 'patient' ? 'Questions from your pharmacist' : 'Clarification with the patient'}
+      </h4>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading messages...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      ) : (
+        <ul className="space-y-3 mb-4">
+          {messages.map((message) => (
+            <li
+              key={message.messageId}
+              className={`rounded-lg p-3 text-sm ${
+                message.authorRole === audience ? 'bg-white border border-amber-200 ml-8' : 'bg-amber-100 mr-8'
+              }`}
+            >
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-700">{getAuthorLabel(message)}</span>
+                <span>{CHANNEL_LABELS[message.channel]} · {formatMessageTime(message.createdAt)}</span>
+              </div>
+              {message.text && <p className="text-gray-900 whitespace-pre-wrap">{message.text}</p>}
+              {message.imageUrl && (
+                <a href={message.imageUrl} target="_blank" rel="noopener noreferrer">
+                  <img src={message.imageUrl} alt="Photo sent with the message" className="mt-2 max-h-48 rounded border border-gray-200" />
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canReply ? (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={3}
+            maxLength={CLARIFICATION_MESSAGE_MAX_LENGTH}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500 resize-none text-sm"
+            placeholder={audience === 'patient' ? 'Answer the pharmacist...' : 'Ask a follow-up question...'}
+            disabled={isSending || isUploading}
+          />
+          <div className="flex items-center justify-between">
+            {audience === 'patient' ? (
+              <label className="text-sm text-gray-700">
+                <span className="mr-2">Add a photo:</span>
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png"
+                  onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+                  disabled={isSending || isUploading}
+                  className="text-sm"
+                />
+              </label>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={isSending || isUploading || (!text.trim() && !photo)}
+              className="px-4 py-2 text-sm font-medium text-white bg-amber-600 border border-transparent rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Uploading...' : isSending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+          {(uploadError || sendError) && (
+            <p className="text-sm text-red-600" role="alert">{uploadError || sendError}</p>
+          )}
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500">This conversation is closed.</p>
+      )}
+    </div>
+  );
+};
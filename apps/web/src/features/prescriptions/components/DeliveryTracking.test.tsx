@@ -82,8 +82,7 @@ describe('DeliveryTracking Component', () => {
 
   beforeAll(() => {
     // Setup global window.google
-    (global as any).window = Object.create(window);
-    (global as any).window.google = mockGoogle;
+    vi.stubGlobal('google', mockGoogle);
   });
 
   beforeEach(() => {
@@ -212,6 +211,31 @@ describe('DeliveryTracking Component', () => {
     expect(screen.queryByText('Duration')).not.toBeInTheDocument();
   });
 
+  it('lists the approach and arrival notifications already sent', () => {
+    const trackingInfoWithNotifications: DeliveryTrackingInfo = {
+      ...mockTrackingInfo,
+      status: 'approaching',
+      notifications: [
+        {
+          orderId: 'order-123',
+          type: 'approach',
+          timestamp: new Date('2024-01-15T10:50:00Z'),
+          message: 'PharmaRx: Your delivery is approaching! Expected arrival in 8 minutes.'
+        }
+      ]
+    };
+
+    render(
+      <DeliveryTracking 
+        orderId="order-123" 
+        trackingInfo={trackingInfoWithNotifications} 
+      />
+    );
+
+    expect(screen.getByText('Notifications Sent')).toBeInTheDocument();
+    expect(screen.getByText(/Expected arrival in 8 minutes/)).toBeInTheDocument();
+  });
+
   it('displays last updated timestamp', () => {
     render(
       <DeliveryTracking 
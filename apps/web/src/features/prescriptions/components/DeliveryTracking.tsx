@@ -154,7 +154,7 @@ const formatDuration = (seconds: number): string => {
 // Helper function to format distance
 const formatDistance = (meters: number): string => {
   if (meters < 1000) {
-    return `${meters}m`;
+    return `${Math.round(meters)}m`;
   }
   return `${(meters / 1000).toFixed(1)}km`;
 };
@@ -266,6 +266,22 @@ const DeliveryTracking: React.FC<DeliveryTrackingProps> = ({
         />
       </div>
 
+      {trackingInfo.notifications && trackingInfo.notifications.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Notifications Sent</h3>
+          <ul className="space-y-1">
+            {trackingInfo.notifications.map(notification => (
+              <li key={`${notification.type}-${notification.timestamp.getTime()}`} className="text-sm text-gray-900">
+                <span className="text-gray-500">
+                  {notification.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>{' '}
+                {notification.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="text-sm text-gray-500">
         <p>Last updated: {trackingInfo.currentLocation.timestamp.toLocaleString()}</p>
         <p>Order ID: {orderId}</p>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { PrescriptionOrder, PrescriptionOrderStatus } from '@pharmarx/shared-types';
 import { useDeliveryTrackingEligibility } from '../hooks/useDeliveryTracking';
+import { ClarificationThread } from './ClarificationThread';
 
 interface OrderStatusDisplayProps {
   order: PrescriptionOrder;
@@ -44,6 +45,18 @@ const getStatusInfo = (status: PrescriptionOrderStatus): StatusInfo => {
         </svg>
       )
     },
+    'needs_clarification': {
+      label: 'Question from Pharmacist',
+      description: 'The pharmacist needs more information - reply below to continue',
+      color: 'text-amber-800',
+      bgColor: 'bg-amber-100',
+      progressStep: 1,
+      icon: (
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+        </svg>
+      )
+    },
     'awaiting_payment': {
       label: 'Awaiting Payment',
       description: 'Prescription approved - payment required to proceed',
@@ -69,6 +82,18 @@ const getStatusInfo = (status: PrescriptionOrderStatus): StatusInfo => {
         </svg>
       )
     },
+    'ready': {
+      label: 'Ready',
+      description: 'Your medication is ready and waiting for the courier',
+      color: 'text-teal-800',
+      bgColor: 'bg-teal-100',
+      progressStep: 4,
+      icon: (
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+        </svg>
+      )
+    },
     'out_for_delivery': {
       label: 'Ready for Delivery',
       description: 'Your medication is ready for pickup or delivery',
@@ -105,6 +130,18 @@ const getStatusInfo = (status: PrescriptionOrderStatus): StatusInfo => {
           <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
         </svg>
       )
+    },
+    'cancelled': {
+      label: 'Cancelled',
+      description: 'Prescription was cancelled by the prescribing doctor',
+      color: 'text-gray-800',
+      bgColor: 'bg-gray-100',
+      progressStep: 0,
+      icon: (
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      )
     }
   };
 
@@ -223,8 +260,15 @@ export const OrderStatusDisplay: React.FC<OrderStatusDisplayProps> = ({
         )}
       </div>
 
+      {/* Clarification Thread - the pharmacist is waiting for an answer */}
+      {order.status === 'needs_clarification' && (
+        <div className="p-4 border-b border-gray-200">
+          <ClarificationThread orderId={order.orderId} audience="patient" canReply />
+        </div>
+      )}
+
       {/* Progress Indicator */}
-      {showFullProgress && order.status !== 'rejected' && (
+      {showFullProgress && order.status !== 'rejected' && order.status !== 'cancelled' && (
         <div className="p-4">
           <h4 className="text-sm font-medium text-gray-900 mb-3">Order Progress</h4>
           <div className="flex items-center space-x-4">
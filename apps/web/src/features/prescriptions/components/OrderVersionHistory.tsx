@@ -0,0 +1,89 @@
+import React from 'react';
+import { PrescriptionOrder, getOrderLineItems, getDispensedDetails } from '@pharmarx/shared-types';
+import { OrderVersionHistoryProps } from '../types/pharmacist.types';
+import { useOrderVersions } from '../hooks/useOrderVersions';
+import { formatReviewDate } from '../utils/dateUtils';
+
+const describeMedications = (order: PrescriptionOrder) =>
+  getOrderLineItems(order)
+    .map(getDispensedDetails)
+    .map(details => `${details.name} ${details.dosage} × ${details.quantity}`)
+    .join(', ');
+
+const getImageUrls = (order: PrescriptionOrder) => [order.originalImageUrl, ...(order.additionalImageUrls || [])];
+
+// Image URLs are signed per request, so photos are compared by their path only
+const getImagePaths = (order: PrescriptionOrder) => getImageUrls(order).map(url => url.split('?')[0]).join('|');
+
+export const OrderVersionHistory: React.FC<OrderVersionHistoryProps> = ({ orderId, className = '' }) => {
+  const { versions, isLoading, error } = useOrderVersions(orderId);
+
+  return (
+    <div className={`bg-gray-50 border border-gray-200 rounded-lg p-4 ${className}`}>
+      <h4 className="text-sm font-medium text-gray-900 mb-3">Earlier versions of this order</h4>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading versions...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      ) : (
+        <ol className="space-y-3">
+          {versions.map((version, index) => {
+            const previous = index > 0 ? versions[index - 1] : undefined;
+            const medications = describeMedications(version);
+            const photosChanged = previous && getImagePaths(previous) !== getImagePaths(version);
+            const detailsChanged = previous && describeMedications(previous) !== medications;
+
+            return (
+              <li
+                key={version.orderId}
+                className={`rounded-md p-3 text-sm ${
+                  version.orderId === orderId ? 'bg-white border border-indigo-300' : 'bg-white border border-gray-200'
+                }`}
+              >
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span className="font-medium text-gray-700">
+                    Version {version.versionNumber ?? 1}
+                    {version.orderId === orderId && ' (this order)'}
+                  </span>
+                  <span>{formatReviewDate(version.createdAt)}</span>
+                </div>
+
+                <p className="text-gray-900">
+                  <span className="font-medium">Medications:</span> {medications || 'Not entered yet'}
+                  {detailsChanged && <span className="ml-2 text-xs text-indigo-600">Changed</span>}
+                </p>
+
+                <div className="mt-2 flex items-center space-x-2">
+                  {getImageUrls(version).filter(Boolean).map((url, imageIndex) => (
+                    <a key={imageIndex} href={url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={url}
+                        alt={`Version ${version.versionNumber ?? 1} page ${imageIndex + 1}`}
+                        className="h-16 w-16 object-cover rounded border border-gray-200"
+                      />
+                    </a>
+                  ))}
+                  {photosChanged && <span className="text-xs text-indigo-600">New photos</span>}
+                </div>
+
+                {version.resubmissionNote && (
+                  <p className="mt-2 text-gray-700">
+                    <span className="font-medium">Patient&apos;s note:</span> {version.resubmissionNote}
+                  </p>
+                )}
+
+                {version.status === 'rejected' && version.pharmacistReview && (
+                  <p className="mt-2 text-red-700">
+                    <span className="font-medium">Rejected:</span> {version.pharmacistReview.rejectionReason}
+                    {version.pharmacistReview.pharmacistNotes && ` - ${version.pharmacistReview.pharmacistNotes}`}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -25,6 +25,7 @@ export const PaymentGateway: React.FC<PaymentGatewayProps> = ({
 
   const {
     isProcessing,
+    awaitingConfirmation,
     error: processingError,
     processPayment,
     clearError
@@ -124,7 +125,27 @@ export const PaymentGateway: React.FC<PaymentGatewayProps> = ({
       )}
 
       {/* Main Content */}
-      {!showPaymentForm ? (
+      {awaitingConfirmation ? (
+        /* Mobile money request waiting for handset approval */
+        <div className="py-10 text-center" role="status">
+          <div className="text-5xl mb-4">📱</div>
+          <h3 className="text-xl font-semibold text-gray-900">Check your phone</h3>
+          <p className="mt-2 text-sm text-gray-600 max-w-md mx-auto">
+            We sent a payment request of {formatCurrency(amount)} to your MTN Mobile Money account.
+            Approve it on your handset with your PIN to complete the payment.
+          </p>
+          <div className="mt-6 flex items-center justify-center space-x-2 text-orange-600">
+            <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" className="opacity-25"></circle>
+              <path fill="currentColor" d="m15.84 12.84.84-.84-.84-.84-.84.84z" className="opacity-75"></path>
+            </svg>
+            <span className="text-sm font-medium">Waiting for your approval...</span>
+          </div>
+          <p className="mt-4 text-xs text-gray-500">
+            This page updates automatically. The request expires after 10 minutes.
+          </p>
+        </div>
+      ) : !showPaymentForm ? (
         /* Payment Method Selection */
         <div>
           <PaymentMethodSelector
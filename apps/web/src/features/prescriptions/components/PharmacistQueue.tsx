@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { PrescriptionOrder } from '@pharmarx/shared-types';
+import { PrescriptionOrder, getOrderLineItems } from '@pharmarx/shared-types';
 import { usePharmacistQueue } from '../hooks/usePharmacistQueue';
 import { PrescriptionReview } from './PrescriptionReview';
 import { formatQueueDate, calculateUrgency } from '../utils/dateUtils';
@@ -9,8 +9,11 @@ import {
   PharmacistQueueSort
 } from '../types/pharmacist.types';
 
-export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = '' }) => {
+export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ orderType, status, className = '' }) => {
   const [selectedOrder, setSelectedOrder] = useState<PrescriptionOrder | null>(null);
+  const isRefillQueue = orderType === 'refill';
+  const isClarificationQueue = status === 'needs_clarification';
+  const noun = isRefillQueue ? 'refill request' : 'prescription';
   const {
     orders,
     isLoading,
@@ -26,7 +29,7 @@ export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = ''
     goToPage,
     refreshQueue,
     updateOrderInQueue
-  } = usePharmacistQueue();
+  } = usePharmacistQueue({ orderType, status });
 
   const handleFilterChange = (field: keyof PharmacistQueueFilters, value: any) => {
     updateFilters({ [field]: value });
@@ -74,9 +77,9 @@ export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = ''
       <div className="px-6 py-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-lg font-medium text-gray-900">Prescription Queue</h2>
+            <h2 className="text-lg font-medium text-gray-900">{isClarificationQueue ? 'Waiting on Patient' : isRefillQueue ? 'Refill Requests' : 'Prescription Queue'}</h2>
             <p className="mt-1 text-sm text-gray-500">
-              {totalOrders} prescription{totalOrders !== 1 ? 's' : ''} awaiting verification
+              {totalOrders} {noun}{totalOrders !== 1 ? 's' : ''} {isClarificationQueue ? 'on hold for clarification' : 'awaiting verification'}
             </p>
           </div>
           <button
@@ -212,7 +215,7 @@ export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = ''
                     <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
-                    <p className="text-lg font-medium text-gray-900 mb-2">No prescriptions in queue</p>
+                    <p className="text-lg font-medium text-gray-900 mb-2">No {noun}s in queue</p>
                     <p className="text-gray-500">All prescriptions have been processed or no new submissions.</p>
                   </div>
                 </td>
@@ -220,6 +223,7 @@ export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = ''
             ) : (
               orders.map((order) => {
                 const urgency = calculateUrgency(order.createdAt);
+                const medicationCount = getOrderLineItems(order).length;
                 return (
                   <tr key={order.orderId} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -237,6 +241,11 @@ export const PharmacistQueue: React.FC<PharmacistQueueProps> = ({ className = ''
                       <div className="text-sm text-gray-500">
                         {order.medicationDetails?.dosage && `${order.medicationDetails.dosage} • Qty: ${order.medicationDetails.quantity}`}
                       </div>
+                      {medicationCount > 1 && (
+                        <div className="text-xs text-blue-600">
+                          +{medicationCount - 1} more medication{medicationCount > 2 ? 's' : ''}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatQueueDate(order.createdAt)}
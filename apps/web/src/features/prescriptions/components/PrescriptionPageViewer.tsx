@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { OCRPageResult, PrescriptionOrder } from '@pharmarx/shared-types';
+
+interface PrescriptionPageViewerProps {
+  order: PrescriptionOrder;
+}
+
+const isPdf = (url: string) => {
+  try {
+    return new URL(url, window.location.origin).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Pages of the order to show. Orders read before per-page OCR have no ocrPages,
+ * so each image stands for one page and the first carries all of the text.
+ */
+const getPages = (order: PrescriptionOrder, imageUrls: string[]): OCRPageResult[] => {
+  if (order.ocrPages && order.ocrPages.length > 0) {
+    return order.ocrPages;
+  }
+  return imageUrls.map((_, imageIndex) => ({
+    pageNumber: imageIndex + 1,
+    imageIndex,
+    text: imageIndex === 0 ? order.extractedText || '' : '',
+    confidence: order.ocrConfidence ?? 0
+  }));
+};
+
+export const PrescriptionPageViewer: React.FC<PrescriptionPageViewerProps> = ({ order }) => {
+  const imageUrls = [order.originalImageUrl, ...(order.additionalImageUrls || [])];
+  const pages = getPages(order, imageUrls);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
+  const imageUrl = imageUrls[page.imageIndex] || order.originalImageUrl;
+
+  return (
+    <div className="space-y-4">
+      <div className="border-2 border-gray-200 rounded-lg p-4 bg-gray-50">
+        {isPdf(imageUrl) ? (
+          <iframe
+            key={`${page.imageIndex}-${page.pdfPageNumber}`}
+            src={`${imageUrl}#page=${page.pdfPageNumber || 1}`}
+            title={`Prescription page ${page.pageNumber}`}
+            className="w-full h-96 rounded"
+          />
+        ) : (
+          <img
+            src={imageUrl}
+            alt={pages.length > 1 ? `Prescription page ${page.pageNumber}` : 'Prescription'}
+            className="w-full h-auto max-h-96 object-contain rounded"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = '/placeholder-prescription.png';
+            }}
+          />
+        )}
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex items-center justify-between" data-testid="page-controls">
+          <button
+            type="button"
+            onClick={() => setPageIndex(index => index - 1)}
+            disabled={pageIndex === 0}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous page
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page.pageNumber} of {pages.length}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPageIndex(index => index + 1)}
+            disabled={pageIndex >= pages.length - 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next page
+          </button>
+        </div>
+      )}
+
+      {/* OCR text read from the page being shown */}
+      {order.extractedText && (
+        <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-md">
+          <p className="font-medium text-blue-800">
+            OCR Extracted Text{pages.length > 1 ? ` (page ${page.pageNumber})` : ''}:
+          </p>
+          {page.text.trim() ? (
+            <p className="mt-1 italic whitespace-pre-line">&quot;{page.text}&quot;</p>
+          ) : (
+            <p className="mt-1 text-gray-500">No text was found on this page.</p>
+          )}
+          {order.ocrPages && order.ocrPages.length > 0 && page.text.trim() && (
+            <p className="mt-2 text-xs text-gray-500">
+              Read with {Math.round(page.confidence * 100)}% confidence
+            </p>
+          )}
+          {order.ocrProcessedAt && (
+            <p className="mt-2 text-xs text-gray-500">
+              Processed: {new Date(order.ocrProcessedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
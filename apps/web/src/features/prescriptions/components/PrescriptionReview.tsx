@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { PrescriptionOrder } from '@pharmarx/shared-types';
+import { PrescriptionOrder, getOrderLineItems, getDispensedDetails } from '@pharmarx/shared-types';
 import { PrescriptionReviewProps } from '../types/pharmacist.types';
 import { ReviewActions } from './ReviewActions';
 import { usePrescriptionReview } from '../hooks/usePrescriptionReview';
+import { useMedicationScreening } from '../hooks/useMedicationScreening';
+import { ScreeningFindings } from './ScreeningFindings';
+import { ClarificationThread } from './ClarificationThread';
+import { OrderVersionHistory } from './OrderVersionHistory';
 import { formatReviewDate } from '../utils/dateUtils';
 
 export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
@@ -12,6 +16,8 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
 }) => {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
+  const lineItems = getOrderLineItems(order);
+  const screening = useMedicationScreening(order.orderId);
 
   // Use the prescription review hook for handling actions
   const {
@@ -20,6 +26,7 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
     approveOrder,
     rejectOrder,
     editOrder,
+    requestClarification,
     updateOrderStatus,
     clearError
   } = usePrescriptionReview({
@@ -30,7 +37,12 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
     onReject: (updatedOrder) => {
       onActionComplete(updatedOrder);
     },
+    onRequestClarification: (updatedOrder) => {
+      onActionComplete(updatedOrder);
+    },
     onEdit: (updatedOrder) => {
+      // Edited medications need screening again
+      screening.refresh();
       onActionComplete(updatedOrder);
     },
     onError: (error, action) => {
@@ -178,33 +190,68 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
               <h3 className="text-lg font-medium text-gray-900 mb-4">Medication Details</h3>
               
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Medication Name
-                  </label>
-                  <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
-                    {order.medicationDetails?.name || 'Not extracted'}
-                  </div>
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Dosage
-                    </label>
-                    <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
-                      {order.medicationDetails?.dosage || 'Not extracted'}
-                    </div>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Quantity
-                    </label>
-                    <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
-                      {order.medicationDetails?.quantity || 'Not extracted'}
+                {(lineItems.length > 0 ? lineItems : [undefined]).map((item, index) => {
+                  const details = item && getDispensedDetails(item);
+                  return (
+                    <div
+                      key={item?.lineItemId || 'empty'}
+                      className={lineItems.length > 1 ? 'border-b border-blue-200 pb-4 last:border-b-0 last:pb-0 space-y-4' : 'space-y-4'}
+                    >
+                      {lineItems.length > 1 && (
+                        <h4 className="text-sm font-medium text-gray-900">Medication {index + 1} of {lineItems.length}</h4>
+                      )}
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Medication Name
+                        </label>
+                        <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
+                          {details?.name || 'Not extracted'}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Dosage
+                          </label>
+                          <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
+                            {details?.dosage || 'Not extracted'}
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Quantity
+                          </label>
+                          <div className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900">
+                            {details?.quantity || 'Not extracted'}
+                          </div>
+                        </div>
+                      </div>
+
+                      {item && (item.availability !== 'unknown' || item.substitution.status !== 'none' || item.lineTotal !== undefined) && (
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {item.availability !== 'unknown' && (
+                            <span className="px-2 py-1 rounded-full bg-white border border-gray-300 text-gray-700">
+                              {item.availability.replace(/_/g, ' ')}
+                            </span>
+                          )}
+                          {item.substitution.status !== 'none' && (
+                            <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                              Substitution {item.substitution.status}
+                              {item.substitution.substitute && `: ${item.substitution.substitute.name}`}
+                            </span>
+                          )}
+                          {item.lineTotal !== undefined && (
+                            <span className="px-2 py-1 rounded-full bg-white border border-gray-300 text-gray-700">
+                              ${item.lineTotal.toFixed(2)}
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -245,6 +292,17 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
               </div>
             </div>
 
+            {/* Interaction and Allergy Screening */}
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h4 className="text-md font-medium text-gray-900 mb-3">Interaction &amp; Allergy Screening</h4>
+              <ScreeningFindings
+                findings={screening.findings}
+                isLoading={screening.isLoading}
+                error={screening.error}
+                onRetry={screening.refresh}
+              />
+            </div>
+
             {/* Professional Review Checklist */}
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <h4 className="text-md font-medium text-gray-900 mb-3">Professional Review Checklist</h4>
@@ -321,12 +379,36 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
                       </div>
                     </div>
                   )}
+
+                  {order.pharmacistReview.interactionOverrideNote && (
+                    <div>
+                      <span className="text-sm text-gray-600 block mb-1">Interaction Override:</span>
+                      <div className="bg-white border border-red-200 rounded p-2 text-sm text-gray-800">
+                        {order.pharmacistReview.interactionOverrideNote}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
           </div>
         </div>
 
+        {/* Version History - what the patient changed since the order was rejected */}
+        {order.resubmissionOfOrderId && (
+          <OrderVersionHistory orderId={order.orderId} className="mt-8" />
+        )}
+
+        {/* Clarification Thread - approving or rejecting from here ends the hold */}
+        {order.clarification && (
+          <ClarificationThread
+            orderId={order.orderId}
+            audience="pharmacist"
+            canReply={order.status === 'needs_clarification'}
+            className="mt-8"
+          />
+        )}
+
         {/* Action Buttons */}
         <div className="mt-8 border-t border-gray-200 pt-6">
           {actionError && (
@@ -356,6 +438,8 @@ export const PrescriptionReview: React.FC<PrescriptionReviewProps> = ({
             onApprove={approveOrder}
             onReject={rejectOrder}
             onEdit={editOrder}
+            onRequestClarification={requestClarification}
+            screeningFindings={screening.findings}
             onStatusUpdate={updateOrderStatus}
             onStatusUpdateComplete={(updatedOrder) => {
               onActionComplete(updatedOrder);
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { PrescriptionOrder, MedicationDetails } from '@pharmarx/shared-types';
+import { PrescriptionOrder, MedicationDetails, ExtractedMedication, ExtractedMedicationField } from '@pharmarx/shared-types';
 import { useOrderVerification } from '../hooks/useOrderVerification';
 import { VerificationActionType } from '../types/verification.types';
+import { PrescriptionPageViewer } from './PrescriptionPageViewer';
 
 interface PrescriptionVerificationProps {
   order: PrescriptionOrder;
@@ -9,15 +10,26 @@ interface PrescriptionVerificationProps {
   onError?: (error: string, actionType: VerificationActionType) => void;
 }
 
+// Fields read with less confidence than this are flagged for the patient to double-check
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const formatConfidence = (confidence?: number) =>
+  confidence === undefined ? 'not found' : `${Math.round(confidence * 100)}%`;
+
 export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> = ({
   order,
   onComplete,
   onError
 }) => {
+  const candidates = order.extractedMedications || [];
+  const [selectedCandidate, setSelectedCandidate] = useState<ExtractedMedication | undefined>(
+    order.medicationDetails ? undefined : candidates[0]
+  );
+  const prefill: Partial<MedicationDetails> = order.medicationDetails || candidates[0] || {};
   const [editableDetails, setEditableDetails] = useState<MedicationDetails>({
-    name: order.medicationDetails?.name || '',
-    dosage: order.medicationDetails?.dosage || '',
-    quantity: order.medicationDetails?.quantity || 0
+    name: prefill.name || '',
+    dosage: prefill.dosage || '',
+    quantity: prefill.quantity || 0
   });
 
   const {
@@ -43,6 +55,21 @@ export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> =
     }
   };
 
+  const handleSelectCandidate = (candidate: ExtractedMedication) => {
+    setSelectedCandidate(candidate);
+    setEditableDetails({
+      name: candidate.name,
+      dosage: candidate.dosage,
+      quantity: candidate.quantity
+    });
+    clearErrors();
+  };
+
+  const isLowConfidence = (field: ExtractedMedicationField) => {
+    const confidence = selectedCandidate?.fieldConfidence[field];
+    return !!selectedCandidate && (confidence === undefined || confidence < LOW_CONFIDENCE_THRESHOLD);
+  };
+
   const handleConfirm = () => {
     confirmVerification(editableDetails);
   };
@@ -63,37 +90,51 @@ export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> =
       )}
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* Left Column - Prescription Image */}
+        {/* Left Column - Prescription pages with the text read from each */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-gray-700">Original Prescription</h3>
-          <div className="border-2 border-gray-200 rounded-lg p-4 bg-gray-50">
-            <img
-              src={order.originalImageUrl}
-              alt="Prescription"
-              className="w-full h-auto max-h-96 object-contain rounded"
-              onError={(e) => {
-                (e.target as HTMLImageElement).src = '/placeholder-prescription.png';
-              }}
-            />
-          </div>
-          
-          {/* OCR Status Information */}
-          {order.extractedText && (
-            <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-md">
-              <p className="font-medium text-blue-800">OCR Extracted Text:</p>
-              <p className="mt-1 italic">"{order.extractedText}"</p>
-              {order.ocrProcessedAt && (
-                <p className="mt-2 text-xs text-gray-500">
-                  Processed: {new Date(order.ocrProcessedAt).toLocaleString()}
-                </p>
-              )}
-            </div>
-          )}
+          <PrescriptionPageViewer order={order} />
         </div>
 
         {/* Right Column - Editable Details */}
         <div className="space-y-6">
           <h3 className="text-lg font-semibold text-gray-700">Medication Details</h3>
+
+          {/* Medications detected by OCR */}
+          {candidates.length > 0 && (
+            <div className="space-y-2" data-testid="medication-candidates">
+              <p className="text-sm font-medium text-gray-700">
+                We found {candidates.length} medication{candidates.length > 1 ? 's' : ''} on your prescription:
+              </p>
+              {candidates.map((candidate, index) => (
+                <button
+                  key={`${candidate.name}-${index}`}
+                  type="button"
+                  onClick={() => handleSelectCandidate(candidate)}
+                  disabled={isLoading}
+                  className={`w-full text-left p-3 border rounded-md text-sm ${
+                    candidate === selectedCandidate ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-medium text-gray-900">{candidate.name}</span>
+                  {candidate.dosage && <span className="text-gray-700"> {candidate.dosage}</span>}
+                  {candidate.frequency && <span className="text-gray-500"> · {candidate.frequency}</span>}
+                  {!candidate.inDictionary && (
+                    <span className="ml-2 text-xs text-amber-700">Unrecognised name</span>
+                  )}
+                  <span className="block text-xs text-gray-500 mt-1">
+                    Confidence: name {formatConfidence(candidate.fieldConfidence.name)}, dosage {formatConfidence(candidate.fieldConfidence.dosage)}, quantity {formatConfidence(candidate.fieldConfidence.quantity)}
+                  </span>
+                </button>
+              ))}
+              {selectedCandidate?.prescriber && (
+                <p className="text-xs text-gray-500">
+                  Prescribed by {selectedCandidate.prescriber}
+                  {selectedCandidate.prescribedDate && ` on ${new Date(selectedCandidate.prescribedDate).toLocaleDateString()}`}
+                </p>
+              )}
+            </div>
+          )}
           
           <div className="space-y-4">
             {/* Medication Name */}
@@ -115,6 +156,9 @@ export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> =
               {errors.name && (
                 <p className="mt-1 text-sm text-red-600">{errors.name}</p>
               )}
+              {!errors.name && isLowConfidence('name') && (
+                <p className="mt-1 text-sm text-amber-600">Please double-check this value against your prescription</p>
+              )}
             </div>
 
             {/* Dosage */}
@@ -136,6 +180,9 @@ export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> =
               {errors.dosage && (
                 <p className="mt-1 text-sm text-red-600">{errors.dosage}</p>
               )}
+              {!errors.dosage && isLowConfidence('dosage') && (
+                <p className="mt-1 text-sm text-amber-600">Please double-check this value against your prescription</p>
+              )}
             </div>
 
             {/* Quantity */}
@@ -158,6 +205,9 @@ export const PrescriptionVerification: React.FC<PrescriptionVerificationProps> =
               {errors.quantity && (
                 <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>
               )}
+              {!errors.quantity && isLowConfidence('quantity') && (
+                <p className="mt-1 text-sm text-amber-600">Please double-check this value against your prescription</p>
+              )}
             </div>
           </div>
 
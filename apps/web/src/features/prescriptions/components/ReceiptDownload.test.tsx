@@ -1,17 +1,33 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
-import { vi } from 'vitest';
+import { vi, afterEach } from 'vitest';
 import { ReceiptDownload } from './ReceiptDownload';
 import { useAuthStore } from '../../../stores/authStore';
 
 // Mock dependencies
 vi.mock('../../../stores/authStore');
+vi.mock('../../../utils/authUtils', () => ({
+  getValidAuthToken: vi.fn(() => Promise.resolve('fake-token'))
+}));
 
 const mockUseAuthStore = vi.mocked(useAuthStore);
 
 // Mock fetch
 global.fetch = vi.fn();
 
+// Stands in for the download link, after render so React still gets real elements
+const mockDownloadLink = () => {
+  const link = { href: '', download: '', click: vi.fn() };
+  const createElement = document.createElement.bind(document);
+  const createElementSpy = vi.spyOn(document, 'createElement').mockImplementation(
+    ((tagName: string, options?: ElementCreationOptions) =>
+      tagName === 'a' ? link : createElement(tagName, options)) as typeof document.createElement
+  );
+  vi.spyOn(document.body, 'appendChild').mockImplementation(node => node);
+  vi.spyOn(document.body, 'removeChild').mockImplementation(node => node);
+  return { link, createElement: createElementSpy };
+};
+
 describe('ReceiptDownload', () => {
   const mockOrderId = 'order-123';
   const mockUserId = 'user-456';
@@ -27,6 +43,10 @@ describe('ReceiptDownload', () => {
     });
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('should render download button', () => {
     render(<ReceiptDownload orderId={mockOrderId} />);
 
@@ -85,29 +105,8 @@ describe('ReceiptDownload', () => {
       writable: true,
     });
 
-    // Mock document.createElement and related DOM methods
-    const mockLink = {
-      href: '',
-      download: '',
-      click: vi.fn(),
-    };
-    const mockCreateElement = vi.fn(() => mockLink);
-    const mockAppendChild = vi.fn();
-    const mockRemoveChild = vi.fn();
-    Object.defineProperty(document, 'createElement', {
-      value: mockCreateElement,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'appendChild', {
-      value: mockAppendChild,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'removeChild', {
-      value: mockRemoveChild,
-      writable: true,
-    });
-
     render(<ReceiptDownload orderId={mockOrderId} />);
+    const { link: mockLink, createElement: mockCreateElement } = mockDownloadLink();
 
     const downloadButton = screen.getByText('Download Receipt');
     fireEvent.click(downloadButton);
@@ -119,6 +118,7 @@ describe('ReceiptDownload', () => {
           method: 'GET',
           headers: {
             'Content-Type': 'application/pdf',
+            'Authorization': 'Bearer fake-token',
           },
         }
       );
@@ -207,29 +207,8 @@ describe('ReceiptDownload', () => {
       writable: true,
     });
 
-    // Mock document.createElement and related DOM methods
-    const mockLink = {
-      href: '',
-      download: '',
-      click: vi.fn(),
-    };
-    const mockCreateElement = vi.fn(() => mockLink);
-    const mockAppendChild = vi.fn();
-    const mockRemoveChild = vi.fn();
-    Object.defineProperty(document, 'createElement', {
-      value: mockCreateElement,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'appendChild', {
-      value: mockAppendChild,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'removeChild', {
-      value: mockRemoveChild,
-      writable: true,
-    });
-
     render(<ReceiptDownload orderId={mockOrderId} />);
+    const { link: mockLink, createElement: mockCreateElement } = mockDownloadLink();
 
     const downloadButton = screen.getByText('Download Receipt');
     fireEvent.click(downloadButton);
@@ -270,29 +249,8 @@ describe('ReceiptDownload', () => {
       writable: true,
     });
 
-    // Mock document methods
-    const mockLink = {
-      href: '',
-      download: '',
-      click: vi.fn(),
-    };
-    const mockCreateElement = vi.fn(() => mockLink);
-    const mockAppendChild = vi.fn();
-    const mockRemoveChild = vi.fn();
-    Object.defineProperty(document, 'createElement', {
-      value: mockCreateElement,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'appendChild', {
-      value: mockAppendChild,
-      writable: true,
-    });
-    Object.defineProperty(document.body, 'removeChild', {
-      value: mockRemoveChild,
-      writable: true,
-    });
-
     render(<ReceiptDownload orderId={mockOrderId} />);
+    mockDownloadLink();
 
     const downloadButton = screen.getByText('Download Receipt');
     
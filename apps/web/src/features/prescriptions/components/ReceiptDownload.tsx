@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuthStore } from '../../../stores/authStore';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface ReceiptDownloadProps {
   orderId: string;
@@ -24,6 +25,7 @@ export const ReceiptDownload: React.FC<ReceiptDownloadProps> = ({ orderId }) =>
         method: 'GET',
         headers: {
           'Content-Type': 'application/pdf',
+          'Authorization': `Bearer ${await getValidAuthToken()}`,
         },
       });
 
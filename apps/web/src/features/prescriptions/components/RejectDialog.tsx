@@ -1,17 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { REJECTION_REASONS, REJECTION_REASON_CODES, RejectionReasonCode } from '@pharmarx/shared-types';
 import { RejectDialogProps } from '../types/pharmacist.types';
 
-const COMMON_REJECTION_REASONS = [
-  'Illegible prescription',
-  'Incomplete medication information', 
-  'Unclear dosage instructions',
-  'Patient information mismatch',
-  'Drug interaction concerns',
-  'Invalid prescription format',
-  'Expired prescription',
-  'Insurance coverage issues',
-  'Other (specify in notes)'
-];
+const getReasonOptionLabel = (code: RejectionReasonCode) =>
+  code === 'other' ? 'Other (specify in notes)' : REJECTION_REASONS[code].label;
 
 export const RejectDialog: React.FC<RejectDialogProps> = ({
   isOpen,
@@ -19,7 +11,7 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
   onConfirm,
   isLoading
 }) => {
-  const [rejectionReason, setRejectionReason] = useState('');
+  const [rejectionReason, setRejectionReason] = useState<RejectionReasonCode | ''>('');
   const [pharmacistNotes, setPharmacistNotes] = useState('');
   const [errors, setErrors] = useState<{ reason?: string; notes?: string }>({});
 
@@ -35,11 +27,11 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
   const validateForm = () => {
     const newErrors: { reason?: string; notes?: string } = {};
 
-    if (!rejectionReason.trim()) {
+    if (!rejectionReason) {
       newErrors.reason = 'Please select a rejection reason';
     }
 
-    if (rejectionReason === 'Other (specify in notes)' && !pharmacistNotes.trim()) {
+    if (rejectionReason === 'other' && !pharmacistNotes.trim()) {
       newErrors.notes = 'Please provide details in notes when selecting "Other"';
     }
 
@@ -50,7 +42,7 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) {
+    if (!validateForm() || !rejectionReason) {
       return;
     }
 
@@ -98,7 +90,7 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
               <select
                 value={rejectionReason}
                 onChange={(e) => {
-                  setRejectionReason(e.target.value);
+                  setRejectionReason(e.target.value as RejectionReasonCode | '');
                   if (errors.reason) {
                     setErrors({ ...errors, reason: undefined });
                   }
@@ -111,9 +103,9 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
                 disabled={isLoading}
               >
                 <option value="">Select a reason...</option>
-                {COMMON_REJECTION_REASONS.map((reason) => (
-                  <option key={reason} value={reason}>
-                    {reason}
+                {REJECTION_REASON_CODES.map((code) => (
+                  <option key={code} value={code}>
+                    {getReasonOptionLabel(code)}
                   </option>
                 ))}
               </select>
@@ -122,13 +114,20 @@ export const RejectDialog: React.FC<RejectDialogProps> = ({
                   {errors.reason}
                 </p>
               )}
+              {rejectionReason && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {REJECTION_REASONS[rejectionReason].resubmittable
+                    ? `The patient is asked to fix and resubmit: ${REJECTION_REASONS[rejectionReason].patientGuidance}`
+                    : 'The patient will not be able to resubmit this order.'}
+                </p>
+              )}
             </div>
 
             {/* Pharmacist Notes */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Additional Notes
-                {rejectionReason === 'Other (specify in notes)' && (
+                {rejectionReason === 'other' && (
                   <span className="text-red-500"> *</span>
                 )}
               </label>
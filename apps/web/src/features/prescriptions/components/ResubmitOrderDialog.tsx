@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import {
+  MedicationDetails,
+  OrderHistoryItem,
+  RESUBMISSION_NOTE_MAX_LENGTH,
+  getDispensedDetails,
+  getOrderLineItems,
+  validateResubmitOrderRequest
+} from '@pharmarx/shared-types';
+import { useResubmitOrder } from '../hooks/useResubmitOrder';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+export interface ResubmitOrderDialogProps {
+  isOpen: boolean;
+  order: OrderHistoryItem;
+  onClose: () => void;
+}
+
+const getCurrentMedications = (order: OrderHistoryItem): MedicationDetails[] =>
+  getOrderLineItems(order).map(getDispensedDetails);
+
+export const ResubmitOrderDialog: React.FC<ResubmitOrderDialogProps> = ({
+  isOpen,
+  order,
+  onClose
+}) => {
+  const resubmitOrder = useResubmitOrder();
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [correctDetails, setCorrectDetails] = useState(false);
+  const [medications, setMedications] = useState<MedicationDetails[]>([]);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Reset form when dialog opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      setPhotos([]);
+      setCorrectDetails(false);
+      setMedications(getCurrentMedications(order));
+      setNote('');
+      setError(null);
+    }
+  }, [isOpen, order]);
+
+  const isBusy = isUploading || resubmitOrder.isPending;
+
+  const updateMedication = (index: number, changes: Partial<MedicationDetails>) => {
+    setMedications(current => current.map((medication, i) => (i === index ? { ...medication, ...changes } : medication)));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const correctedMedications = correctDetails ? medications : undefined;
+    // Photos are checked for presence only; they are uploaded once the rest is valid
+    const errors = validateResubmitOrderRequest({
+      imageUrls: photos.map(photo => photo.name),
+      medications: correctedMedications,
+      note
+    });
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return;
+    }
+
+    setError(null);
+    const imageUrls: string[] = [];
+    if (photos.length > 0) {
+      setIsUploading(true);
+      try {
+        for (const photo of photos) {
+          const upload = await prescriptionService.uploadPrescriptionFile(photo);
+          if (!upload.success || !upload.url) {
+            throw new Error(upload.error || 'Photo upload failed');
+          }
+          imageUrls.push(upload.url);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Photo upload failed');
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    try {
+      await resubmitOrder.mutateAsync({
+        orderId: order.orderId,
+        request: {
+          ...(imageUrls.length > 0 && { imageUrls }),
+          ...(correctedMedications && { medications: correctedMedications }),
+          ...(note.trim() && { note: note.trim() })
+        }
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resubmit order');
+    }
+  };
+
+  const handleClose = () => {
+    if (!isBusy) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Fix and Resubmit
+            </h3>
+            <button
+              onClick={handleClose}
+              disabled={isBusy}
+              className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="px-6 py-4">
+          <div className="space-y-4">
+            {order.rejection && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm">
+                <p className="font-medium text-red-800">{order.rejection.reason}</p>
+                <p className="text-red-700 mt-1">{order.rejection.patientGuidance}</p>
+                {order.rejection.pharmacistNotes && (
+                  <p className="text-gray-700 mt-2">
+                    <span className="font-medium">Pharmacist&apos;s note:</span> {order.rejection.pharmacistNotes}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="resubmit-photos" className="block text-sm font-medium text-gray-700 mb-2">
+                New photos of the prescription
+              </label>
+              <input
+                id="resubmit-photos"
+                type="file"
+                accept="image/jpeg,image/png"
+                multiple
+                onChange={(e) => {
+                  setPhotos(Array.from(e.target.files ?? []));
+                  setError(null);
+                }}
+                disabled={isBusy}
+                className="text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                First page first. Leave empty to keep the photos you sent before.
+              </p>
+            </div>
+
+            <div>
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={correctDetails}
+                  onChange={(e) => {
+                    setCorrectDetails(e.target.checked);
+                    setError(null);
+                  }}
+                  disabled={isBusy}
+                  className="mr-2"
+                />
+                Correct the medication details
+              </label>
+
+              {correctDetails && (
+                <div className="mt-2 space-y-2">
+                  {medications.map((medication, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={medication.name}
+                        onChange={(e) => updateMedication(index, { name: e.target.value })}
+                        placeholder="Medication"
+                        aria-label={`Medication ${index + 1} name`}
+                        disabled={isBusy}
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={medication.dosage}
+                        onChange={(e) => updateMedication(index, { dosage: e.target.value })}
+                        placeholder="Dosage"
+                        aria-label={`Medication ${index + 1} dosage`}
+                        disabled={isBusy}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={medication.quantity || ''}
+                        onChange={(e) => updateMedication(index, { quantity: Number(e.target.value) })}
+                        placeholder="Qty"
+                        aria-label={`Medication ${index + 1} quantity`}
+                        disabled={isBusy}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setMedications(current => current.filter((_, i) => i !== index))}
+                        disabled={isBusy}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setMedications(current => [...current, { name: '', dosage: '', quantity: 0 }])}
+                    disabled={isBusy}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                  >
+                    Add medication
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="resubmit-note" className="block text-sm font-medium text-gray-700 mb-2">
+                Note for the pharmacist
+              </label>
+              <textarea
+                id="resubmit-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                maxLength={RESUBMISSION_NOTE_MAX_LENGTH}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none text-sm"
+                placeholder="e.g. The doctor has signed the prescription now"
+                disabled={isBusy}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end space-x-3 mt-6 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Uploading...' : resubmitOrder.isPending ? 'Sending...' : 'Resubmit Order'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
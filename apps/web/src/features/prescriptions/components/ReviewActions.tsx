@@ -1,10 +1,92 @@
 import React, { useState, useEffect } from 'react';
-import { PrescriptionOrder, MedicationDetails, PrescriptionOrderStatus } from '@pharmarx/shared-types';
+import {
+  PrescriptionOrder,
+  MedicationDetails,
+  PrescriptionOrderStatus,
+  LineItemAvailability,
+  LineItemSubstitution,
+  getOrderLineItems,
+  calculateLineTotal,
+  requiresInteractionOverride,
+  ClarificationNotificationChannel,
+  REJECTION_REASONS,
+  RejectionReasonCode
+} from '@pharmarx/shared-types';
 import { RejectDialog } from './RejectDialog';
-import { ReviewActionsProps, ApproveOrderRequest, RejectOrderRequest, EditOrderRequest } from '../types/pharmacist.types';
+import { ClarificationDialog } from './ClarificationDialog';
+import {
+  ReviewActionsProps,
+  ApproveOrderRequest,
+  RejectOrderRequest,
+  EditOrderRequest,
+  LineItemReviewRequest
+} from '../types/pharmacist.types';
 
 type ActionMode = 'review' | 'edit' | 'approve';
 
+interface LineItemDraft {
+  lineItemId: string;
+  original: MedicationDetails;
+  details: MedicationDetails;
+  unitPrice: number;
+  availability: LineItemAvailability;
+  substitution: LineItemSubstitution;
+  substituteName: string;
+}
+
+const AVAILABILITY_OPTIONS: { value: LineItemAvailability; label: string }[] = [
+  { value: 'unknown', label: 'Not checked' },
+  { value: 'in_stock', label: 'In stock' },
+  { value: 'low_stock', label: 'Low stock' },
+  { value: 'out_of_stock', label: 'Out of stock' }
+];
+
+const buildLineItemDrafts = (order: PrescriptionOrder): LineItemDraft[] => {
+  const lineItems = getOrderLineItems(order);
+
+  if (lineItems.length === 0) {
+    const empty = { name: '', dosage: '', quantity: 0 };
+    return [{
+      lineItemId: 'item-1',
+      original: empty,
+      details: empty,
+      unitPrice: 0,
+      availability: 'unknown',
+      substitution: { status: 'none' },
+      substituteName: ''
+    }];
+  }
+
+  return lineItems.map(item => {
+    const details = {
+      name: item.pharmacistEdits?.name ?? item.name ?? '',
+      dosage: item.pharmacistEdits?.dosage ?? item.dosage ?? '',
+      quantity: item.pharmacistEdits?.quantity ?? item.quantity ?? 0
+    };
+    return {
+      lineItemId: item.lineItemId,
+      original: details,
+      details,
+      unitPrice: item.unitPrice ?? 0,
+      availability: item.availability,
+      substitution: item.substitution,
+      substituteName: ''
+    };
+  });
+};
+
+// Mirrors isLineItemBillable for lines that have not been saved yet
+const isDraftBillable = (draft: LineItemDraft) =>
+  draft.availability !== 'out_of_stock' || draft.substitution.status === 'accepted';
+
+// An accepted substitute is dispensed, and priced, in its own quantity
+const getDraftLineTotal = (draft: LineItemDraft) => {
+  const quantity = draft.substitution.status === 'accepted' && draft.substitution.substitute
+    ? draft.substitution.substitute.quantity
+    : draft.details.quantity;
+  return calculateLineTotal(draft.unitPrice, quantity);
+};
+
 interface StatusUpdateConfirmDialog {
   isOpen: boolean;
   status: PrescriptionOrderStatus | null;
@@ -17,12 +99,15 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
   onApprove,
   onReject,
   onEdit,
+  onRequestClarification,
+  screeningFindings = [],
   onStatusUpdate,
   onStatusUpdateComplete,
   isLoading
 }) => {
   const [actionMode, setActionMode] = useState<ActionMode>('review');
   const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [showClarificationDialog, setShowClarificationDialog] = useState(false);
   const [showApproveConfirm, setShowApproveConfirm] = useState(false);
   const [statusUpdateDialog, setStatusUpdateDialog] = useState<StatusUpdateConfirmDialog>({
     isOpen: false,
@@ -32,42 +117,53 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
   });
   
   // Form states
-  const [editedDetails, setEditedDetails] = useState<MedicationDetails>({
-    name: order.medicationDetails?.name || '',
-    dosage: order.medicationDetails?.dosage || '',
-    quantity: order.medicationDetails?.quantity || 0
-  });
-  const [calculatedCost, setCalculatedCost] = useState(order.cost || 0);
+  const [lineDrafts, setLineDrafts] = useState<LineItemDraft[]>(() => buildLineItemDrafts(order));
+  const [refillsAuthorized, setRefillsAuthorized] = useState(order.refillsAuthorized ?? 0);
   const [pharmacistNotes, setPharmacistNotes] = useState('');
+  const [interactionOverrideNote, setInteractionOverrideNote] = useState('');
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   // Reset form when order changes
   useEffect(() => {
-    setEditedDetails({
-      name: order.medicationDetails?.name || '',
-      dosage: order.medicationDetails?.dosage || '',
-      quantity: order.medicationDetails?.quantity || 0
-    });
-    setCalculatedCost(order.cost || 0);
+    setLineDrafts(buildLineItemDrafts(order));
+    setRefillsAuthorized(order.refillsAuthorized ?? 0);
     setPharmacistNotes('');
+    setInteractionOverrideNote('');
     setErrors({});
     setActionMode('review');
   }, [order]);
 
+  const needsOverride = requiresInteractionOverride(screeningFindings);
+
+  const updateDraft = (index: number, changes: Partial<LineItemDraft>, errorKey?: string) => {
+    setLineDrafts(drafts => drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+    if (errorKey && errors[errorKey]) setErrors({ ...errors, [errorKey]: '' });
+  };
+
+  const updateDraftDetails = (index: number, changes: Partial<MedicationDetails>, field: keyof MedicationDetails) => {
+    updateDraft(index, { details: { ...lineDrafts[index].details, ...changes } }, `${index}.${field}`);
+  };
+
+  const orderTotal = lineDrafts
+    .filter(isDraftBillable)
+    .reduce((total, draft) => total + getDraftLineTotal(draft), 0);
+
   const validateMedicationDetails = () => {
     const newErrors: { [key: string]: string } = {};
 
-    if (!editedDetails.name.trim()) {
-      newErrors.name = 'Medication name is required';
-    }
+    lineDrafts.forEach((draft, index) => {
+      if (!draft.details.name.trim()) {
+        newErrors[`${index}.name`] = 'Medication name is required';
+      }
 
-    if (!editedDetails.dosage.trim()) {
-      newErrors.dosage = 'Dosage is required';
-    }
+      if (!draft.details.dosage.trim()) {
+        newErrors[`${index}.dosage`] = 'Dosage is required';
+      }
 
-    if (!editedDetails.quantity || editedDetails.quantity <= 0) {
-      newErrors.quantity = 'Quantity must be greater than 0';
-    }
+      if (!draft.details.quantity || draft.details.quantity <= 0) {
+        newErrors[`${index}.quantity`] = 'Quantity must be greater than 0';
+      }
+    });
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -76,14 +172,52 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
   const validateApproval = () => {
     const newErrors: { [key: string]: string } = {};
 
-    if (!calculatedCost || calculatedCost <= 0) {
+    lineDrafts.forEach((draft, index) => {
+      if (isDraftBillable(draft) && (!draft.unitPrice || draft.unitPrice <= 0)) {
+        newErrors[`${index}.unitPrice`] = 'Unit price must be greater than 0';
+      }
+    });
+
+    if (orderTotal <= 0) {
       newErrors.cost = 'Cost must be greater than 0';
     }
 
+    if (needsOverride && !interactionOverrideNote.trim()) {
+      newErrors.interactionOverride = 'Explain why you are approving despite the major finding';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const isDraftChanged = (draft: LineItemDraft) => (
+    draft.details.name !== draft.original.name ||
+    draft.details.dosage !== draft.original.dosage ||
+    draft.details.quantity !== draft.original.quantity
+  );
+
+  const hasChanges = () => lineDrafts.some(isDraftChanged);
+
+  // Orders without any medication yet are corrected through the single-medication fields
+  const isNewMedication = getOrderLineItems(order).length === 0;
+
+  const buildLineItemRequests = (includePricing: boolean): LineItemReviewRequest[] => (
+    lineDrafts.map(draft => ({
+      lineItemId: draft.lineItemId,
+      editedDetails: isDraftChanged(draft) ? draft.details : undefined,
+      ...(includePricing && {
+        unitPrice: isDraftBillable(draft) ? draft.unitPrice : undefined,
+        availability: draft.availability,
+        substitution: draft.substituteName.trim() && draft.substitution.status !== 'accepted'
+          ? {
+            status: 'proposed' as const,
+            substitute: { ...draft.details, name: draft.substituteName.trim() }
+          }
+          : undefined
+      })
+    }))
+  );
+
   const handleEdit = async () => {
     if (!validateMedicationDetails()) {
       return;
@@ -91,7 +225,8 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
 
     const editRequest: EditOrderRequest = {
       orderId: order.orderId,
-      editedDetails,
+      editedDetails: isNewMedication ? lineDrafts[0].details : undefined,
+      lineItems: isNewMedication ? undefined : buildLineItemRequests(false),
       pharmacistNotes: pharmacistNotes.trim() || undefined
     };
 
@@ -104,21 +239,34 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
       return;
     }
 
-    const approveRequest: ApproveOrderRequest = {
-      orderId: order.orderId,
-      calculatedCost,
-      pharmacistNotes: pharmacistNotes.trim() || undefined,
-      editedDetails: hasChanges() ? editedDetails : undefined
-    };
+    // Refill orders use the allowance of the prescription they were refilled from
+    const refills = !order.refillOfOrderId && refillsAuthorized > 0 ? refillsAuthorized : undefined;
+    const approveRequest: ApproveOrderRequest = isNewMedication
+      ? {
+        orderId: order.orderId,
+        calculatedCost: orderTotal,
+        pharmacistNotes: pharmacistNotes.trim() || undefined,
+        editedDetails: hasChanges() ? lineDrafts[0].details : undefined,
+        refillsAuthorized: refills,
+        interactionOverrideNote: interactionOverrideNote.trim() || undefined
+      }
+      : {
+        orderId: order.orderId,
+        pharmacistNotes: pharmacistNotes.trim() || undefined,
+        lineItems: buildLineItemRequests(true),
+        refillsAuthorized: refills,
+        interactionOverrideNote: interactionOverrideNote.trim() || undefined
+      };
 
     await onApprove(approveRequest);
     setShowApproveConfirm(false);
   };
 
-  const handleReject = async (rejectionReason: string, notes?: string) => {
+  const handleReject = async (rejectionReasonCode: RejectionReasonCode, notes?: string) => {
     const rejectRequest: RejectOrderRequest = {
       orderId: order.orderId,
-      rejectionReason,
+      rejectionReason: REJECTION_REASONS[rejectionReasonCode].label,
+      rejectionReasonCode,
       pharmacistNotes: notes
     };
 
@@ -126,20 +274,13 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
     setShowRejectDialog(false);
   };
 
-  const hasChanges = () => {
-    return (
-      editedDetails.name !== (order.medicationDetails?.name || '') ||
-      editedDetails.dosage !== (order.medicationDetails?.dosage || '') ||
-      editedDetails.quantity !== (order.medicationDetails?.quantity || 0)
-    );
+  const handleRequestClarification = async (message: string, notificationChannel: ClarificationNotificationChannel) => {
+    await onRequestClarification?.({ orderId: order.orderId, message, notificationChannel });
+    setShowClarificationDialog(false);
   };
 
   const resetChanges = () => {
-    setEditedDetails({
-      name: order.medicationDetails?.name || '',
-      dosage: order.medicationDetails?.dosage || '',
-      quantity: order.medicationDetails?.quantity || 0
-    });
+    setLineDrafts(buildLineItemDrafts(order));
     setErrors({});
   };
 
@@ -176,10 +317,15 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
           title: 'Mark as Preparing',
           message: 'Are you sure you want to mark this order as preparing? The patient will be notified that their medication is being prepared.'
         };
+      case 'ready':
+        return {
+          title: 'Mark as Ready for Pickup',
+          message: 'Are you sure you want to mark this order as ready? The medication will wait at the counter for the courier.'
+        };
       case 'out_for_delivery':
         return {
-          title: 'Mark as Ready for Delivery',
-          message: 'Are you sure you want to mark this order as ready for delivery? The patient will be notified that their medication is ready for pickup/delivery.'
+          title: 'Hand Over to Courier',
+          message: 'Are you sure you want to hand this order over for delivery? The patient will be notified that their medication is on its way.'
         };
       default:
         return { title: '', message: '' };
@@ -188,7 +334,7 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
 
   // Check if status update buttons should be shown
   const canUpdateStatus = () => {
-    return ['awaiting_payment', 'preparing', 'out_for_delivery'].includes(order.status);
+    return ['awaiting_payment', 'preparing', 'ready', 'out_for_delivery'].includes(order.status);
   };
 
   const shouldShowPreparingButton = () => {
@@ -199,76 +345,79 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
     return order.status === 'preparing';
   };
 
+  const shouldShowHandoverButton = () => {
+    return order.status === 'ready';
+  };
+
   if (actionMode === 'edit') {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <h4 className="text-lg font-medium text-gray-900 mb-4">Edit Medication Details</h4>
         
         <div className="space-y-4">
-          {/* Medication Name */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Medication Name <span className="text-red-500">*</span>
-            </label>
-            <input
-              type="text"
-              value={editedDetails.name}
-              onChange={(e) => {
-                setEditedDetails({ ...editedDetails, name: e.target.value });
-                if (errors.name) setErrors({ ...errors, name: '' });
-              }}
-              className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                errors.name ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-              }`}
-              placeholder="Enter medication name"
-              disabled={isLoading}
-            />
-            {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
-          </div>
+          {lineDrafts.map((draft, index) => (
+            <div key={draft.lineItemId} className={lineDrafts.length > 1 ? 'border border-gray-200 rounded-md p-4 space-y-4' : 'space-y-4'}>
+              {lineDrafts.length > 1 && (
+                <h5 className="text-sm font-medium text-gray-900">Medication {index + 1} of {lineDrafts.length}</h5>
+              )}
 
-          {/* Dosage and Quantity */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Dosage <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="text"
-                value={editedDetails.dosage}
-                onChange={(e) => {
-                  setEditedDetails({ ...editedDetails, dosage: e.target.value });
-                  if (errors.dosage) setErrors({ ...errors, dosage: '' });
-                }}
-                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                  errors.dosage ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-                }`}
-                placeholder="e.g., 500mg"
-                disabled={isLoading}
-              />
-              {errors.dosage && <p className="mt-1 text-sm text-red-600">{errors.dosage}</p>}
-            </div>
+              {/* Medication Name */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Medication Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={draft.details.name}
+                  onChange={(e) => updateDraftDetails(index, { name: e.target.value }, 'name')}
+                  className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors[`${index}.name`] ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
+                  }`}
+                  placeholder="Enter medication name"
+                  disabled={isLoading}
+                />
+                {errors[`${index}.name`] && <p className="mt-1 text-sm text-red-600">{errors[`${index}.name`]}</p>}
+              </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Quantity <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="number"
-                min="1"
-                value={editedDetails.quantity}
-                onChange={(e) => {
-                  setEditedDetails({ ...editedDetails, quantity: parseInt(e.target.value) || 0 });
-                  if (errors.quantity) setErrors({ ...errors, quantity: '' });
-                }}
-                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                  errors.quantity ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-                }`}
-                placeholder="0"
-                disabled={isLoading}
-              />
-              {errors.quantity && <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>}
+              {/* Dosage and Quantity */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Dosage <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.details.dosage}
+                    onChange={(e) => updateDraftDetails(index, { dosage: e.target.value }, 'dosage')}
+                    className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors[`${index}.dosage`] ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
+                    }`}
+                    placeholder="e.g., 500mg"
+                    disabled={isLoading}
+                  />
+                  {errors[`${index}.dosage`] && <p className="mt-1 text-sm text-red-600">{errors[`${index}.dosage`]}</p>}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={draft.details.quantity}
+                    onChange={(e) => updateDraftDetails(index, { quantity: parseInt(e.target.value) || 0 }, 'quantity')}
+                    className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors[`${index}.quantity`] ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
+                    }`}
+                    placeholder="0"
+                    disabled={isLoading}
+                  />
+                  {errors[`${index}.quantity`] && <p className="mt-1 text-sm text-red-600">{errors[`${index}.quantity`]}</p>}
+                </div>
+              </div>
             </div>
-          </div>
+          ))}
 
           {/* Pharmacist Notes */}
           <div>
@@ -326,44 +475,156 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
         <h4 className="text-lg font-medium text-gray-900 mb-4">Approve Prescription</h4>
         
         <div className="space-y-4">
-          {/* Cost Calculation */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Total Cost <span className="text-red-500">*</span>
-            </label>
-            <div className="relative">
-              <span className="absolute left-3 top-2 text-gray-500">$</span>
+          {/* Line Item Pricing */}
+          {lineDrafts.map((draft, index) => (
+            <div key={draft.lineItemId} className="border border-gray-200 rounded-md p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h5 className="text-sm font-medium text-gray-900">
+                  {draft.details.name || 'Not specified'} {draft.details.dosage} • Qty: {draft.details.quantity || 'Not specified'}
+                </h5>
+                {isDraftChanged(draft) && (
+                  <span className="text-xs text-blue-600">Edited</span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor={`availability-${draft.lineItemId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Availability
+                  </label>
+                  <select
+                    id={`availability-${draft.lineItemId}`}
+                    value={draft.availability}
+                    onChange={(e) => updateDraft(index, { availability: e.target.value as LineItemAvailability }, `${index}.unitPrice`)}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={isLoading}
+                  >
+                    {AVAILABILITY_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor={`unit-price-${draft.lineItemId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Unit Price {isDraftBillable(draft) && <span className="text-red-500">*</span>}
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      id={`unit-price-${draft.lineItemId}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={draft.unitPrice}
+                      onChange={(e) => updateDraft(index, { unitPrice: parseFloat(e.target.value) || 0 }, `${index}.unitPrice`)}
+                      className={`block w-full pl-8 pr-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors[`${index}.unitPrice`] ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
+                      }`}
+                      placeholder="0.00"
+                      disabled={isLoading || !isDraftBillable(draft)}
+                    />
+                  </div>
+                  {errors[`${index}.unitPrice`] && <p className="mt-1 text-sm text-red-600">{errors[`${index}.unitPrice`]}</p>}
+                </div>
+              </div>
+
+              {draft.availability === 'out_of_stock' && draft.substitution.status !== 'accepted' && (
+                <div>
+                  <label htmlFor={`substitute-${draft.lineItemId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Proposed Substitute (Optional)
+                  </label>
+                  <input
+                    id={`substitute-${draft.lineItemId}`}
+                    type="text"
+                    value={draft.substituteName}
+                    onChange={(e) => updateDraft(index, { substituteName: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Equivalent medication the patient can accept"
+                    disabled={isLoading}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Out of stock lines are not charged unless the patient accepts a substitute.</p>
+                </div>
+              )}
+
+              {draft.substitution.status !== 'none' && (
+                <p className="text-xs text-gray-600">
+                  Substitution {draft.substitution.status}
+                  {draft.substitution.substitute && `: ${draft.substitution.substitute.name}`}
+                </p>
+              )}
+
+              {isDraftBillable(draft) && (
+                <p className="text-sm text-gray-700 text-right">
+                  Line total: ${getDraftLineTotal(draft).toFixed(2)}
+                </p>
+              )}
+            </div>
+          ))}
+
+          {/* Summary */}
+          <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+            <div className="flex items-center justify-between">
+              <h5 className="text-sm font-medium text-gray-900">Total Cost</h5>
+              <span className="text-lg font-semibold text-gray-900">${orderTotal.toFixed(2)}</span>
+            </div>
+            {hasChanges() && (
+              <p className="text-sm text-blue-600 mt-1"><strong>Note:</strong> Changes will be saved with approval</p>
+            )}
+            {errors.cost && <p className="mt-1 text-sm text-red-600">{errors.cost}</p>}
+          </div>
+
+          {/* Refills */}
+          {order.refillOfOrderId ? (
+            <p className="text-sm text-gray-600">
+              Refill #{order.refillNumber} of order {order.refillOfOrderId.slice(-8)}
+            </p>
+          ) : (
+            <div>
+              <label htmlFor="refills-authorized" className="block text-sm font-medium text-gray-700 mb-1">
+                Refills Authorized
+              </label>
               <input
+                id="refills-authorized"
                 type="number"
                 min="0"
-                step="0.01"
-                value={calculatedCost}
+                step="1"
+                value={refillsAuthorized}
+                onChange={(e) => setRefillsAuthorized(Math.max(0, parseInt(e.target.value) || 0))}
+                className="block w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          {/* Interaction Override */}
+          {needsOverride && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <label htmlFor="interaction-override-note" className="block text-sm font-medium text-red-800 mb-1">
+                Interaction Override Note *
+              </label>
+              <p className="text-sm text-red-700 mb-2">
+                Screening found a major interaction or allergy. Record why it is safe to dispense.
+              </p>
+              <textarea
+                id="interaction-override-note"
+                value={interactionOverrideNote}
                 onChange={(e) => {
-                  setCalculatedCost(parseFloat(e.target.value) || 0);
-                  if (errors.cost) setErrors({ ...errors, cost: '' });
+                  setInteractionOverrideNote(e.target.value);
+                  if (errors.interactionOverride) setErrors({ ...errors, interactionOverride: '' });
                 }}
-                className={`block w-full pl-8 pr-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                  errors.cost ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
+                rows={2}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none ${
+                  errors.interactionOverride ? 'border-red-300' : 'border-gray-300'
                 }`}
-                placeholder="0.00"
+                placeholder="e.g. Prescriber confirmed by phone; patient counselled"
                 disabled={isLoading}
               />
-            </div>
-            {errors.cost && <p className="mt-1 text-sm text-red-600">{errors.cost}</p>}
-          </div>
-
-          {/* Summary */}
-          <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
-            <h5 className="text-sm font-medium text-gray-900 mb-2">Prescription Summary</h5>
-            <div className="text-sm text-gray-700 space-y-1">
-              <p><strong>Medication:</strong> {editedDetails.name || 'Not specified'}</p>
-              <p><strong>Dosage:</strong> {editedDetails.dosage || 'Not specified'}</p>
-              <p><strong>Quantity:</strong> {editedDetails.quantity || 'Not specified'}</p>
-              {hasChanges() && (
-                <p className="text-blue-600"><strong>Note:</strong> Changes will be saved with approval</p>
+              {errors.interactionOverride && (
+                <p className="mt-1 text-sm text-red-600">{errors.interactionOverride}</p>
               )}
             </div>
-          </div>
+          )}
 
           {/* Pharmacist Notes */}
           <div>
@@ -442,6 +703,20 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
             Reject
           </button>
 
+          {/* Already on hold: follow-ups go through the clarification thread */}
+          {onRequestClarification && order.status !== 'needs_clarification' && (
+            <button
+              onClick={() => setShowClarificationDialog(true)}
+              disabled={isLoading}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z" clipRule="evenodd" />
+              </svg>
+              Ask Patient
+            </button>
+          )}
+
           <button
             onClick={() => setActionMode('edit')}
             disabled={isLoading}
@@ -486,6 +761,31 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
             )}
 
             {shouldShowReadyButton() && (
+              <button
+                onClick={() => handleStatusUpdate('ready')}
+                disabled={isLoading}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <>
+                    <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 714 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    Updating...
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                    Mark as Ready for Pickup
+                  </>
+                )}
+              </button>
+            )}
+
+            {shouldShowHandoverButton() && (
               <button
                 onClick={() => handleStatusUpdate('out_for_delivery')}
                 disabled={isLoading}
@@ -504,7 +804,7 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
                     <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
                     </svg>
-                    Mark as Ready for Delivery
+                    Hand Over to Courier
                   </>
                 )}
               </button>
@@ -580,6 +880,14 @@ export const ReviewActions: React.FC<ReviewActionsProps> = ({
         onConfirm={handleReject}
         isLoading={isLoading}
       />
+
+      {/* Clarification Dialog */}
+      <ClarificationDialog
+        isOpen={showClarificationDialog}
+        onClose={() => setShowClarificationDialog(false)}
+        onConfirm={handleRequestClarification}
+        isLoading={isLoading}
+      />
     </div>
   );
 };
\ No newline at end of file
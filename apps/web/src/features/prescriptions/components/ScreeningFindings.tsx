@@ -0,0 +1,85 @@
+import React from 'react';
+import { ScreeningFinding, ScreeningSeverity, sortFindingsBySeverity } from '@pharmarx/shared-types';
+
+interface ScreeningFindingsProps {
+  findings: ScreeningFinding[];
+  isLoading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+const SEVERITY_STYLES: Record<ScreeningSeverity, { label: string; panel: string; badge: string }> = {
+  major: { label: 'Major', panel: 'bg-red-50 border-red-200', badge: 'bg-red-100 text-red-800' },
+  moderate: { label: 'Moderate', panel: 'bg-yellow-50 border-yellow-200', badge: 'bg-yellow-100 text-yellow-800' },
+  minor: { label: 'Minor', panel: 'bg-gray-50 border-gray-200', badge: 'bg-gray-100 text-gray-700' }
+};
+
+const SEVERITIES: ScreeningSeverity[] = ['major', 'moderate', 'minor'];
+
+const FINDING_TYPE_LABELS: Record<ScreeningFinding['type'], string> = {
+  interaction: 'Interaction with',
+  allergy: 'Allergy to',
+  condition: 'Condition:'
+};
+
+/**
+ * Interaction, allergy and condition findings grouped by severity, most severe first
+ */
+export const ScreeningFindings: React.FC<ScreeningFindingsProps> = ({
+  findings,
+  isLoading = false,
+  error = null,
+  onRetry
+}) => {
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Checking for interactions and allergies...</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-sm text-red-700">
+        <p>Interaction screening is unavailable: {error}</p>
+        {onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            className="mt-1 text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (findings.length === 0) {
+    return <p className="text-sm text-green-700">No interactions, allergies or contraindications found.</p>;
+  }
+
+  const sorted = sortFindingsBySeverity(findings);
+
+  return (
+    <div className="space-y-3">
+      {SEVERITIES.filter(severity => sorted.some(finding => finding.severity === severity)).map(severity => (
+        <div key={severity} className={`border rounded-md p-3 ${SEVERITY_STYLES[severity].panel}`}>
+          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${SEVERITY_STYLES[severity].badge}`}>
+            {SEVERITY_STYLES[severity].label}
+          </span>
+          <ul className="mt-2 space-y-2">
+            {sorted.filter(finding => finding.severity === severity).map((finding, index) => (
+              <li key={`${finding.medication}-${finding.conflictsWith}-${index}`} className="text-sm text-gray-800">
+                <span className="font-medium">{finding.medication}</span>
+                {' — '}
+                {FINDING_TYPE_LABELS[finding.type]} {finding.conflictsWith}
+                {finding.otherOrderId && (
+                  <span className="text-gray-500"> (order #{finding.otherOrderId.substring(0, 8)})</span>
+                )}
+                <p className="text-gray-600">{finding.description}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { DeliveryTrackingInfo, DeliveryNotificationEvent, DeliveryNotificationPreferences } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface UseDeliveryNotificationsOptions {
   enabled?: boolean;
@@ -208,7 +209,8 @@ export const useDeliveryNotificationPreferences = (orderId: string) => {
       const response = await fetch(`/api/orders/${orderId}/delivery-notifications`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await getValidAuthToken()}`
         },
         body: JSON.stringify(updatedPreferences)
       });
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { DeliveryTrackingInfo, ApiResponse } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface UseDeliveryTrackingOptions {
   enabled?: boolean;
@@ -30,12 +31,21 @@ export const useDeliveryTracking = (
     refetchIntervalInBackground = true
   } = options;
 
-  const fetchDeliveryTracking = async (): Promise<DeliveryTrackingInfo> => {
+  const fetchDeliveryTracking = async (): Promise<DeliveryTrackingInfo | null> => {
     if (!orderId) {
       throw new Error('Order ID is required for delivery tracking');
     }
 
-    const response = await fetch(`/api/orders/${orderId}/delivery-tracking`);
+    const response = await fetch(`/api/orders/${orderId}/delivery-tracking`, {
+      headers: {
+        'Authorization': `Bearer ${await getValidAuthToken()}`
+      }
+    });
+
+    // The courier has not sent a first location yet
+    if (response.status === 404) {
+      return null;
+    }
     
     if (!response.ok) {
       throw new Error(`Failed to fetch delivery tracking: ${response.statusText}`);
@@ -54,7 +64,12 @@ export const useDeliveryTracking = (
         ...data.data.currentLocation,
         timestamp: new Date(data.data.currentLocation.timestamp)
       },
-      estimatedArrival: new Date(data.data.estimatedArrival)
+      estimatedArrival: new Date(data.data.estimatedArrival),
+      notifications: data.data.notifications?.map(notification => ({
+        ...notification,
+        timestamp: new Date(notification.timestamp),
+        estimatedArrival: notification.estimatedArrival ? new Date(notification.estimatedArrival) : undefined
+      }))
     };
   };
 
@@ -88,7 +103,7 @@ export const useDeliveryTracking = (
   });
 
   return {
-    trackingInfo,
+    trackingInfo: trackingInfo ?? undefined,
     isLoading,
     isError,
     error: error as Error | null,
@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ApiResponse, MedicationScreeningResult } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../../../utils/authUtils';
+
+const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Interaction, allergy and condition screening for an order under pharmacist review
+ */
+export const useMedicationScreening = (orderId: string) => {
+  const [screening, setScreening] = useState<MedicationScreeningResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadScreening = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/pharmacist/orders/${orderId}/screening`, {
+        headers: {
+          'Authorization': `Bearer ${await getValidAuthToken()}`
+        }
+      });
+
+      const result: ApiResponse<MedicationScreeningResult> = await response.json();
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || 'Failed to screen medications');
+      }
+
+      setScreening(result.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to screen medications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadScreening();
+  }, [loadScreening]);
+
+  return {
+    screening,
+    findings: screening?.findings || [],
+    isLoading,
+    error,
+    refresh: loadScreening
+  };
+};
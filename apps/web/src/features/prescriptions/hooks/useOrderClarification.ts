@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PostClarificationMessageRequest } from '@pharmarx/shared-types';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+const THREAD_REFRESH_INTERVAL = 30000; // Replies by SMS or WhatsApp arrive without the page knowing
+
+export const useOrderClarification = (
+  orderId: string,
+  audience: 'patient' | 'pharmacist',
+  enabled = true
+) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['orderClarification', audience, orderId];
+
+  const threadQuery = useQuery({
+    queryKey,
+    queryFn: () => prescriptionService.getClarificationThread(orderId, audience),
+    enabled: enabled && !!orderId,
+    refetchInterval: THREAD_REFRESH_INTERVAL
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: (request: PostClarificationMessageRequest) =>
+      prescriptionService.postClarificationMessage(orderId, request, audience),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      console.error('Error posting clarification message:', error);
+    }
+  });
+
+  return {
+    messages: threadQuery.data ?? [],
+    isLoading: threadQuery.isLoading,
+    error: threadQuery.error instanceof Error ? threadQuery.error.message : null,
+    sendReply: replyMutation.mutateAsync,
+    isSending: replyMutation.isPending,
+    sendError: replyMutation.error instanceof Error ? replyMutation.error.message : null
+  };
+};
@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query';
 import { useAuthStore } from '../../../stores/authStore';
 import { useProfileValidation } from '../../../features/profiles/hooks';
 import { OrderHistoryResponse } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface UseOrderHistoryOptions {
   page: number;
@@ -14,11 +15,12 @@ const fetchOrderHistory = async (
   limit: number
 ): Promise<OrderHistoryResponse> => {
   const response = await fetch(
-    `/api/orders/history?patientProfileId=${patientProfileId}&page=${page}&limit=${limit}`,
+    `/api/orders/history?patientId=${patientProfileId}&page=${page}&limit=${limit}`,
     {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${await getValidAuthToken()}`,
       },
     }
   );
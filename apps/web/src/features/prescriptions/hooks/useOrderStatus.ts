@@ -86,7 +86,7 @@ export const useOrderStatus = ({
   // Helper to check if order can be updated (for pharmacist view)
   const canUpdateStatus = useCallback(() => {
     const status = orderQuery.data?.status;
-    return status && ['awaiting_payment', 'preparing', 'out_for_delivery'].includes(status);
+    return status && ['awaiting_payment', 'preparing', 'ready', 'out_for_delivery'].includes(status);
   }, [orderQuery.data?.status]);
 
   // Helper to get next possible status
@@ -95,12 +95,15 @@ export const useOrderStatus = ({
     
     const statusFlow: Record<PrescriptionOrderStatus, PrescriptionOrderStatus[]> = {
       'pending_verification': ['awaiting_verification'],
-      'awaiting_verification': ['awaiting_payment', 'rejected'],
+      'awaiting_verification': ['awaiting_payment', 'needs_clarification', 'rejected'],
+      'needs_clarification': ['awaiting_payment', 'rejected'],
       'awaiting_payment': ['preparing'],
-      'preparing': ['out_for_delivery'],
+      'preparing': ['ready', 'out_for_delivery'],
+      'ready': ['out_for_delivery'],
       'out_for_delivery': ['delivered'],
       'delivered': [],
-      'rejected': []
+      'rejected': [],
+      'cancelled': []
     };
 
     return currentStatus ? statusFlow[currentStatus] || [] : [];
@@ -0,0 +1,51 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ApiResponse, PrescriptionOrder } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../../../utils/authUtils';
+
+const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Every version of a resubmitted order under pharmacist review, oldest first
+ */
+export const useOrderVersions = (orderId: string, enabled = true) => {
+  const [versions, setVersions] = useState<PrescriptionOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/pharmacist/orders/${orderId}/versions`, {
+        headers: {
+          'Authorization': `Bearer ${await getValidAuthToken()}`
+        }
+      });
+
+      const result: ApiResponse<PrescriptionOrder[]> = await response.json();
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || 'Failed to load earlier versions');
+      }
+
+      setVersions(result.data.map(order => ({ ...order, createdAt: new Date(order.createdAt) })));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load earlier versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    if (enabled) {
+      loadVersions();
+    }
+  }, [enabled, loadVersions]);
+
+  return {
+    versions,
+    isLoading,
+    error,
+    refresh: loadVersions
+  };
+};
@@ -1,6 +1,17 @@
-import { useState, useCallback } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { ProcessPaymentRequest, PaymentProcessingState, UsePaymentProcessingProps } from '../types/payment.types';
+import { useState, useCallback, useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ApiResponse, PaymentStatus } from '@pharmarx/shared-types';
+import {
+  ProcessPaymentRequest,
+  PaymentApiResponse,
+  PaymentProcessingState,
+  PaymentStatusResponse,
+  UsePaymentProcessingProps
+} from '../types/payment.types';
+import { getValidAuthToken } from '../../../utils/authUtils';
+
+const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+const PAYMENT_STATUS_POLL_INTERVAL = 5000; // 5 seconds
 
 // Mock Payment Processing Service
 class PaymentProcessingService {
@@ -36,23 +47,60 @@ class PaymentProcessingService {
     };
   }
 
-  static async processMTNPayment(request: ProcessPaymentRequest & { phoneNumber: string }): Promise<{ paymentId: string; transactionId: string }> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    
-    // Mock phone number validation
+  /**
+   * MTN MoMo is request-to-pay: the API only sends the prompt to the customer's handset,
+   * so the payment usually comes back pending until they approve it.
+   */
+  static async processMTNPayment(request: ProcessPaymentRequest & { phoneNumber: string }): Promise<{ paymentId: string; transactionId: string; status?: PaymentStatus }> {
     if (!request.phoneNumber || request.phoneNumber.length < 8) {
       throw new Error('Valid phone number is required');
     }
-    
-    // Mock MTN Mobile Money response
+
+    const response = await fetch(`${API_BASE}/api/orders/${request.orderId}/pay`, {
+      method: 'POST',
+      headers: await this.getHeaders(),
+      body: JSON.stringify({
+        gateway: 'mtn',
+        amount: request.amount,
+        currency: request.currency,
+        paymentData: { phoneNumber: request.phoneNumber }
+      })
+    });
+
+    const result: PaymentApiResponse = await response.json();
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || 'Mobile money payment failed');
+    }
+
+    return result.data;
+  }
+
+  static async getPaymentStatus(paymentId: string): Promise<PaymentStatusResponse> {
+    const response = await fetch(`${API_BASE}/api/payments/${paymentId}/status`, {
+      headers: await this.getHeaders()
+    });
+
+    const result: ApiResponse<PaymentStatusResponse> = await response.json();
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || 'Failed to check payment status');
+    }
+
+    return result.data;
+  }
+
+  private static async getHeaders(): Promise<Record<string, string>> {
+    const token = await getValidAuthToken();
+    if (!token) {
+      throw new Error('Authentication token not found. Please log in again.');
+    }
+
     return {
-      paymentId: `mtn_${Date.now()}`,
-      transactionId: `MTN${Math.random().toString(36).substr(2, 9).toUpperCase()}`
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
     };
   }
 
-  static async processPayment(request: ProcessPaymentRequest): Promise<{ paymentId: string; transactionId: string }> {
+  static async processPayment(request: ProcessPaymentRequest): Promise<{ paymentId: string; transactionId: string; status?: PaymentStatus }> {
     switch (request.gateway) {
       case 'stripe':
         return this.processStripePayment(request as any);
@@ -87,6 +135,16 @@ export const usePaymentProcessing = ({ orderId, onSuccess, onError }: UsePayment
       }));
     },
     onSuccess: (data, variables) => {
+      // Mobile money waits for the customer to approve on their handset
+      if (data.status === 'pending') {
+        setState(prev => ({
+          ...prev,
+          isProcessing: false,
+          pendingPaymentId: data.paymentId
+        }));
+        return;
+      }
+
       setState(prev => ({
         ...prev,
         isProcessing: false,
@@ -107,6 +165,30 @@ export const usePaymentProcessing = ({ orderId, onSuccess, onError }: UsePayment
     }
   });
 
+  // Poll until the callback or the expiry job settles the pending payment
+  const paymentStatusQuery = useQuery({
+    queryKey: ['paymentStatus', state.pendingPaymentId],
+    queryFn: () => PaymentProcessingService.getPaymentStatus(state.pendingPaymentId!),
+    enabled: !!state.pendingPaymentId,
+    refetchInterval: PAYMENT_STATUS_POLL_INTERVAL
+  });
+
+  useEffect(() => {
+    const payment = paymentStatusQuery.data;
+    if (!payment || payment.paymentId !== state.pendingPaymentId || payment.status === 'pending') {
+      return;
+    }
+
+    if (payment.status === 'succeeded') {
+      setState(prev => ({ ...prev, pendingPaymentId: undefined, success: true, error: undefined }));
+      onSuccess?.(payment.paymentId, payment.transactionId);
+    } else {
+      const errorMessage = payment.failureReason || 'Mobile money payment was not completed';
+      setState(prev => ({ ...prev, pendingPaymentId: undefined, success: false, error: errorMessage }));
+      onError?.(errorMessage);
+    }
+  }, [paymentStatusQuery.data, state.pendingPaymentId, onSuccess, onError]);
+
   const processPayment = useCallback(async (request: ProcessPaymentRequest) => {
     // Validate request
     if (!request.orderId || !request.gateway || !request.amount) {
@@ -164,6 +246,7 @@ export const usePaymentProcessing = ({ orderId, onSuccess, onError }: UsePayment
     error: state.error,
     success: state.success,
     selectedGateway: state.selectedGateway,
+    awaitingConfirmation: !!state.pendingPaymentId,
     
     // Actions
     processPayment,
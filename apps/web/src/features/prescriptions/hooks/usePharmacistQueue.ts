@@ -7,6 +7,7 @@ import {
   PharmacistOrdersResponse,
   UsePharmacistQueueProps
 } from '../types/pharmacist.types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -17,6 +18,8 @@ const DEFAULT_SORT_FIELD = 'createdAt';
 const DEFAULT_SORT_DIRECTION = 'desc';
 
 export const usePharmacistQueue = ({
+  orderType,
+  status = 'awaiting_verification',
   pageSize = DEFAULT_PAGE_SIZE,
   autoRefresh = true,
   refreshInterval = DEFAULT_REFRESH_INTERVAL
@@ -45,9 +48,13 @@ export const usePharmacistQueue = ({
         pageSize: pageSize.toString(),
         sortField: state.sort.field,
         sortDirection: state.sort.direction,
-        status: 'awaiting_verification'
+        status
       });
 
+      if (orderType) {
+        params.append('orderType', orderType);
+      }
+
       // Add filters
       if (state.filters.medicationType) {
         params.append('medicationType', state.filters.medicationType);
@@ -63,11 +70,11 @@ export const usePharmacistQueue = ({
         params.append('endDate', state.filters.dateRange.end.toISOString());
       }
 
-      const response = await fetch(`${API_BASE}/pharmacist/orders?${params}`, {
+      const response = await fetch(`${API_BASE}/api/pharmacist/orders?${params}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+          'Authorization': `Bearer ${await getValidAuthToken()}`
         }
       });
 
@@ -97,7 +104,7 @@ export const usePharmacistQueue = ({
         error: error instanceof Error ? error.message : 'An unexpected error occurred'
       }));
     }
-  }, [state.currentPage, state.sort, state.filters, pageSize]);
+  }, [state.currentPage, state.sort, state.filters, pageSize, orderType, status]);
 
   const updateFilters = useCallback((newFilters: Partial<PharmacistQueueFilters>) => {
     setState(prev => ({
@@ -138,9 +145,9 @@ export const usePharmacistQueue = ({
       ...prev,
       orders: prev.orders.map(order => 
         order.orderId === updatedOrder.orderId ? updatedOrder : order
-      ).filter(order => order.status === 'awaiting_verification') // Remove if no longer awaiting verification
+      ).filter(order => order.status === status) // Remove once it has moved to another queue
     }));
-  }, []);
+  }, [status]);
 
   const removeOrderFromQueue = useCallback((orderId: string) => {
     setState(prev => ({
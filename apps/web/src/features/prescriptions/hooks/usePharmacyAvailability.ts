@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { InventoryItem } from '../../../types/pharmacy.types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface UsePharmacyAvailabilityOptions {
   staleTime?: number;
@@ -88,6 +89,7 @@ export const usePharmacyAvailability = (
             method: 'GET',
             headers: {
               'Content-Type': 'application/json',
+              'Authorization': `Bearer ${await getValidAuthToken()}`,
             },
           }
         );
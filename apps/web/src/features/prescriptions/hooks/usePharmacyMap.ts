@@ -2,6 +2,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import mapService, { MapConfig, UserLocation } from '../services/mapService';
 import { MapPharmacyData } from '../../../types/pharmacy.types';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 interface UsePharmacyMapOptions {
   apiKey: string;
@@ -153,7 +154,12 @@ export const usePharmacyMap = (
       }
 
       const response = await fetch(
-        `/api/inventory/pharmacies?lat=${userLocation.latitude}&lng=${userLocation.longitude}&radius=${searchRadius}`
+        `/api/inventory/pharmacies?lat=${userLocation.latitude}&lng=${userLocation.longitude}&radius=${searchRadius}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${await getValidAuthToken()}`
+          }
+        }
       );
 
       if (!response.ok) {
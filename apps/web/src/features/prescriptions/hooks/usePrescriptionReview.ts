@@ -4,10 +4,11 @@ import {
   ApproveOrderRequest,
   RejectOrderRequest,
   EditOrderRequest,
+  RequestClarificationOrderRequest,
   PharmacistActionResponse,
   UsePrescriptionReviewProps
 } from '../types/pharmacist.types';
-import { prescriptionService } from '../../../services/prescriptionService';
+import { getValidAuthToken } from '../../../utils/authUtils';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -16,6 +17,7 @@ export const usePrescriptionReview = ({
   onApprove,
   onReject,
   onEdit,
+  onRequestClarification,
   onError
 }: UsePrescriptionReviewProps) => {
   const [isLoading, setIsLoading] = useState(false);
@@ -35,7 +37,7 @@ export const usePrescriptionReview = ({
         method,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+          'Authorization': `Bearer ${await getValidAuthToken()}`
         },
         body: JSON.stringify(body)
       });
@@ -63,12 +65,15 @@ export const usePrescriptionReview = ({
 
   const approveOrder = useCallback(async (request: ApproveOrderRequest) => {
     const updatedOrder = await handleApiCall(
-      `${API_BASE}/pharmacist/orders/${request.orderId}/approve`,
+      `${API_BASE}/api/pharmacist/orders/${request.orderId}/approve`,
       'PUT',
       {
         calculatedCost: request.calculatedCost,
         pharmacistNotes: request.pharmacistNotes,
-        editedDetails: request.editedDetails
+        editedDetails: request.editedDetails,
+        lineItems: request.lineItems,
+        refillsAuthorized: request.refillsAuthorized,
+        interactionOverrideNote: request.interactionOverrideNote
       },
       'approve order'
     );
@@ -80,10 +85,11 @@ export const usePrescriptionReview = ({
 
   const rejectOrder = useCallback(async (request: RejectOrderRequest) => {
     const updatedOrder = await handleApiCall(
-      `${API_BASE}/pharmacist/orders/${request.orderId}/reject`,
+      `${API_BASE}/api/pharmacist/orders/${request.orderId}/reject`,
       'PUT',
       {
         rejectionReason: request.rejectionReason,
+        rejectionReasonCode: request.rejectionReasonCode,
         pharmacistNotes: request.pharmacistNotes
       },
       'reject order'
@@ -96,10 +102,11 @@ export const usePrescriptionReview = ({
 
   const editOrder = useCallback(async (request: EditOrderRequest) => {
     const updatedOrder = await handleApiCall(
-      `${API_BASE}/pharmacist/orders/${request.orderId}/edit`,
+      `${API_BASE}/api/pharmacist/orders/${request.orderId}/edit`,
       'PUT',
       {
         editedDetails: request.editedDetails,
+        lineItems: request.lineItems,
         pharmacistNotes: request.pharmacistNotes
       },
       'edit order'
@@ -110,12 +117,42 @@ export const usePrescriptionReview = ({
     }
   }, [handleApiCall, onEdit]);
 
+  const requestClarification = useCallback(async (request: RequestClarificationOrderRequest) => {
+    const updatedOrder = await handleApiCall(
+      `${API_BASE}/api/pharmacist/orders/${request.orderId}/clarification`,
+      'PUT',
+      {
+        message: request.message,
+        notificationChannel: request.notificationChannel
+      },
+      'request clarification'
+    );
+
+    if (updatedOrder) {
+      onRequestClarification?.(updatedOrder);
+    }
+  }, [handleApiCall, onRequestClarification]);
+
   const updateOrderStatus = useCallback(async (status: PrescriptionOrderStatus, onStatusUpdate?: (order: PrescriptionOrder) => void) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const updatedOrder = await prescriptionService.updateOrderStatus(order.orderId, status);
+      const response = await fetch(`${API_BASE}/api/pharmacist/orders/${order.orderId}/fulfilment`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await getValidAuthToken()}`
+        },
+        body: JSON.stringify({ status })
+      });
+
+      const result: PharmacistActionResponse = await response.json();
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || `Failed to update status to ${status}`);
+      }
+
+      const updatedOrder = result.data;
       setIsLoading(false);
       onStatusUpdate?.(updatedOrder);
       return updatedOrder;
@@ -141,6 +178,7 @@ export const usePrescriptionReview = ({
     approveOrder,
     rejectOrder,
     editOrder,
+    requestClarification,
     updateOrderStatus,
     clearError
   };
@@ -0,0 +1,17 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+export const useRequestRefill = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => prescriptionService.requestRefill(orderId),
+    onSuccess: () => {
+      // The new refill order and the reduced refill count both show up in history
+      queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+    },
+    onError: (error) => {
+      console.error('Error requesting refill:', error);
+    },
+  });
+};
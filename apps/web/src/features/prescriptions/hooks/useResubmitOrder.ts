@@ -0,0 +1,19 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ResubmitOrderRequest } from '@pharmarx/shared-types';
+import { prescriptionService } from '../../../services/prescriptionService';
+
+export const useResubmitOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, request }: { orderId: string; request: ResubmitOrderRequest }) =>
+      prescriptionService.resubmitOrder(orderId, request),
+    onSuccess: () => {
+      // The new version shows up in history and the rejected one is marked resubmitted
+      queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+    },
+    onError: (error) => {
+      console.error('Error resubmitting order:', error);
+    },
+  });
+};
@@ -1,14 +1,23 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
 import { vi } from 'vitest';
 import OrderHistoryPage from './OrderHistoryPage';
 import { useOrderHistory } from '../hooks/useOrderHistory';
+import { useRequestRefill } from '../hooks/useRequestRefill';
 import { useAuthStore } from '../../../stores/authStore';
 
 // Mock dependencies
 vi.mock('../hooks/useOrderHistory');
+vi.mock('../hooks/useRequestRefill');
 vi.mock('../../../stores/authStore');
+vi.mock('../../profiles/hooks', () => ({
+  useProfileContext: () => ({
+    activeProfile: { id: 'profile-123', name: 'John Doe' },
+    hasActiveProfile: true,
+  }),
+}));
 vi.mock('../components/OrderStatusDisplay', () => ({
   OrderStatusDisplay: ({ status }: { status: string }) => (
     <span data-testid="order-status">{status}</span>
@@ -21,6 +30,8 @@ vi.mock('../components/ReceiptDownload', () => ({
 }));
 
 const mockUseOrderHistory = vi.mocked(useOrderHistory);
+const mockUseRequestRefill = vi.mocked(useRequestRefill);
+const mockRefillMutate = vi.fn();
 const mockUseAuthStore = vi.mocked(useAuthStore);
 
 const createQueryClient = () => new QueryClient({
@@ -68,9 +79,11 @@ const mockPagination = {
 const renderWithQueryClient = (component: React.ReactElement) => {
   const queryClient = createQueryClient();
   return render(
-    <QueryClientProvider client={queryClient}>
-      {component}
-    </QueryClientProvider>
+    <MemoryRouter>
+      <QueryClientProvider client={queryClient}>
+        {component}
+      </QueryClientProvider>
+    </MemoryRouter>
   );
 };
 
@@ -84,6 +97,13 @@ describe('OrderHistoryPage', () => {
       logout: vi.fn(),
       register: vi.fn(),
     });
+    mockUseRequestRefill.mockReturnValue({
+      mutate: mockRefillMutate,
+      isPending: false,
+      isSuccess: false,
+      isError: false,
+      error: null,
+    } as any);
   });
 
   it('should render loading state initially', () => {
@@ -150,6 +170,85 @@ describe('OrderHistoryPage', () => {
     expect(screen.getByText('Cost: $2000.00')).toBeInTheDocument();
   });
 
+  it('should render every medication on a multi-line order', () => {
+    mockUseOrderHistory.mockReturnValue({
+      data: {
+        orders: [{
+          ...mockOrders[1],
+          lineItems: [
+            { lineItemId: 'item-1', name: 'Ibuprofen', dosage: '400mg', quantity: 2, availability: 'in_stock', substitution: { status: 'none' } },
+            { lineItemId: 'item-2', name: 'Loratadine', dosage: '10mg', quantity: 10, availability: 'out_of_stock', substitution: { status: 'none' } }
+          ]
+        }],
+        pagination: mockPagination
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as any);
+
+    renderWithQueryClient(<OrderHistoryPage />);
+
+    const medicationLines = screen.getAllByText('Medication:').map(label => label.parentElement?.textContent);
+    expect(medicationLines).toEqual(['Medication: Ibuprofen', 'Medication: LoratadineUnavailable']);
+  });
+
+  it('should offer a refill with the remaining count', () => {
+    mockUseOrderHistory.mockReturnValue({
+      data: {
+        orders: [{ ...mockOrders[0], refill: { eligible: true, refillsRemaining: 2 } }],
+        pagination: mockPagination
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as any);
+
+    renderWithQueryClient(<OrderHistoryPage />);
+
+    expect(screen.getByText('2 refills remaining')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Request Refill'));
+    expect(mockRefillMutate).toHaveBeenCalledWith('order-123');
+  });
+
+  it('should show how much of the order was refunded', () => {
+    mockUseOrderHistory.mockReturnValue({
+      data: {
+        orders: [{ ...mockOrders[0], paymentStatus: 'partially_refunded', refundedAmount: 12.5 }],
+        pagination: mockPagination
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as any);
+
+    renderWithQueryClient(<OrderHistoryPage />);
+
+    expect(screen.getByText('Partially refunded:')).toBeInTheDocument();
+    expect(screen.getByText('$12.50')).toBeInTheDocument();
+  });
+
+  it('should disable the refill button while the order is not eligible', () => {
+    mockUseOrderHistory.mockReturnValue({
+      data: {
+        orders: [{
+          ...mockOrders[0],
+          refill: { eligible: false, refillsRemaining: 1, reason: 'too_soon', message: 'Next refill available on 2024-02-01' }
+        }],
+        pagination: mockPagination
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as any);
+
+    renderWithQueryClient(<OrderHistoryPage />);
+
+    expect(screen.getByText('Request Refill')).toBeDisabled();
+    expect(screen.getByText('1 refill remaining')).toBeInTheDocument();
+    expect(screen.getByText('Next refill available on 2024-02-01')).toBeInTheDocument();
+  });
+
   it('should display order status correctly', () => {
     mockUseOrderHistory.mockReturnValue({
       data: { orders: mockOrders, pagination: mockPagination },
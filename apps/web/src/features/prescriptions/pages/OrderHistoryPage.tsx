@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useOrderHistory } from '../hooks/useOrderHistory';
-import { OrderHistoryItem } from '@pharmarx/shared-types';
+import { useRequestRefill } from '../hooks/useRequestRefill';
+import { OrderHistoryItem, getOrderLineItems, getDispensedDetails, isLineItemBillable } from '@pharmarx/shared-types';
 import { OrderStatusDisplay } from '../components/OrderStatusDisplay';
 import { ReceiptDownload } from '../components/ReceiptDownload';
+import { ResubmitOrderDialog } from '../components/ResubmitOrderDialog';
 import { formatDate } from '../utils/dateUtils';
 import { useProfileContext } from '../../profiles/hooks';
 
@@ -290,6 +292,10 @@ interface OrderHistoryCardProps {
 }
 
 const OrderHistoryCard: React.FC<OrderHistoryCardProps> = ({ order }) => {
+  const lineItems = getOrderLineItems(order);
+  const requestRefill = useRequestRefill();
+  const [showResubmitDialog, setShowResubmitDialog] = useState(false);
+
   return (
     <div className="bg-white shadow rounded-lg overflow-hidden">
       <div className="px-6 py-4">
@@ -300,19 +306,42 @@ const OrderHistoryCard: React.FC<OrderHistoryCardProps> = ({ order }) => {
                 Order #{order.orderId.slice(-8)}
               </h3>
               <OrderStatusDisplay status={order.status} />
+              {!!order.versionNumber && order.versionNumber > 1 && (
+                <span className="text-xs text-gray-500">Resubmission {order.versionNumber - 1}</span>
+              )}
             </div>
-            
-            {order.medicationDetails && (
-              <div className="mt-2">
-                <p className="text-sm text-gray-600">
-                  <span className="font-medium">Medication:</span> {order.medicationDetails.name}
-                </p>
-                <p className="text-sm text-gray-600">
-                  <span className="font-medium">Dosage:</span> {order.medicationDetails.dosage} 
-                  {' '}• <span className="font-medium">Quantity:</span> {order.medicationDetails.quantity}
+
+            {order.rejection && (
+              <div className="mt-2 text-sm">
+                <p className="text-red-700">
+                  <span className="font-medium">Rejected:</span> {order.rejection.reason}
                 </p>
+                {order.rejection.pharmacistNotes && (
+                  <p className="text-gray-600">{order.rejection.pharmacistNotes}</p>
+                )}
+                {!order.resubmittedAsOrderId && (
+                  <p className="text-gray-600">{order.rejection.patientGuidance}</p>
+                )}
               </div>
             )}
+            
+            {lineItems.map(item => {
+              const details = getDispensedDetails(item);
+              return (
+                <div key={item.lineItemId} className="mt-2">
+                  <p className="text-sm text-gray-600">
+                    <span className="font-medium">Medication:</span> {details.name}
+                    {!isLineItemBillable(item) && (
+                      <span className="ml-2 text-xs text-red-600">Unavailable</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    <span className="font-medium">Dosage:</span> {details.dosage} 
+                    {' '}• <span className="font-medium">Quantity:</span> {details.quantity}
+                  </p>
+                </div>
+              );
+            })}
 
             <div className="mt-3 flex items-center space-x-6 text-sm text-gray-500">
               <div>
@@ -328,6 +357,13 @@ const OrderHistoryCard: React.FC<OrderHistoryCardProps> = ({ order }) => {
                   <span className="font-medium">Cost:</span> ${order.cost.toFixed(2)}
                 </div>
               )}
+              {!!order.refundedAmount && (
+                <div className="text-green-700">
+                  <span className="font-medium">
+                    {order.paymentStatus === 'refunded' ? 'Refunded:' : 'Partially refunded:'}
+                  </span> ${order.refundedAmount.toFixed(2)}
+                </div>
+              )}
             </div>
           </div>
 
@@ -335,6 +371,42 @@ const OrderHistoryCard: React.FC<OrderHistoryCardProps> = ({ order }) => {
             {order.hasReceipt && order.status === 'delivered' && (
               <ReceiptDownload orderId={order.orderId} />
             )}
+            {order.refill && order.refill.refillsRemaining > 0 && (
+              <div className="flex flex-col items-end">
+                <button
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={!order.refill.eligible || requestRefill.isPending}
+                  onClick={() => requestRefill.mutate(order.orderId)}
+                >
+                  {requestRefill.isPending ? 'Requesting...' : 'Request Refill'}
+                </button>
+                <span className="mt-1 text-xs text-gray-500">
+                  {order.refill.refillsRemaining} refill{order.refill.refillsRemaining === 1 ? '' : 's'} remaining
+                </span>
+                {!order.refill.eligible && order.refill.message && (
+                  <span className="text-xs text-gray-500">{order.refill.message}</span>
+                )}
+                {requestRefill.isSuccess && (
+                  <span className="text-xs text-green-600">Refill sent to the pharmacist</span>
+                )}
+                {requestRefill.isError && (
+                  <span className="text-xs text-red-600">{requestRefill.error.message}</span>
+                )}
+              </div>
+            )}
+            {order.rejection?.resubmission.eligible && (
+              <button
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                onClick={() => setShowResubmitDialog(true)}
+              >
+                Fix and Resubmit
+              </button>
+            )}
+            {order.resubmittedAsOrderId && (
+              <span className="text-xs text-gray-500">
+                Resubmitted as order #{order.resubmittedAsOrderId.slice(-8)}
+              </span>
+            )}
             <button
               className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
               onClick={() => {
@@ -347,6 +419,14 @@ const OrderHistoryCard: React.FC<OrderHistoryCardProps> = ({ order }) => {
           </div>
         </div>
       </div>
+
+      {order.rejection && (
+        <ResubmitOrderDialog
+          isOpen={showResubmitDialog}
+          order={order}
+          onClose={() => setShowResubmitDialog(false)}
+        />
+      )}
     </div>
   );
 };
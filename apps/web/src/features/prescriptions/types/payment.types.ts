@@ -11,6 +11,7 @@ export interface PaymentProcessingState {
   selectedGateway?: PaymentGateway;
   error?: string;
   success: boolean;
+  pendingPaymentId?: string; // Set while a mobile money request waits for handset approval
 }
 
 export interface PaymentMethodOption {
@@ -28,10 +29,17 @@ export interface ProcessPaymentRequest {
   currency: string;
 }
 
-export interface PaymentApiResponse extends ApiResponse<{ paymentId: string; transactionId: string }> {
+export interface PaymentApiResponse extends ApiResponse<{ paymentId: string; transactionId: string; status?: PaymentStatus }> {
   // Additional payment-specific response fields
 }
 
+export interface PaymentStatusResponse {
+  paymentId: string;
+  transactionId: string;
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
 export interface UsePaymentNotificationProps {
   orderId: string;
   onStatusChange?: (status: string) => void;
@@ -39,6 +47,6 @@ export interface UsePaymentNotificationProps {
 
 export interface UsePaymentProcessingProps {
   orderId: string;
-  onSuccess?: (paymentId: string) => void;
+  onSuccess?: (paymentId: string, transactionId: string) => void;
   onError?: (error: string) => void;
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { PrescriptionOrder, PharmacistReview, ApiResponse, PrescriptionOrderStatus } from '@pharmarx/shared-types';
+import { PrescriptionOrder, PharmacistReview, ApiResponse, PrescriptionOrderStatus, LineItemAvailability, LineItemSubstitution, ScreeningFinding, ClarificationNotificationChannel, RejectionReasonCode } from '@pharmarx/shared-types';
 
 // Queue management types
 export interface PharmacistQueueFilters {
@@ -28,30 +28,53 @@ export interface PharmacistQueueState {
 }
 
 // Review actions types
+export interface LineItemReviewRequest {
+  lineItemId: string;
+  editedDetails?: {
+    name?: string;
+    dosage?: string;
+    quantity?: number;
+  };
+  unitPrice?: number;
+  availability?: LineItemAvailability;
+  substitution?: LineItemSubstitution;
+}
+
 export interface ApproveOrderRequest {
   orderId: string;
-  calculatedCost: number;
+  calculatedCost?: number; // Omitted when every line item is priced
   pharmacistNotes?: string;
   editedDetails?: {
     name?: string;
     dosage?: string;
     quantity?: number;
   };
+  lineItems?: LineItemReviewRequest[];
+  refillsAuthorized?: number;
+  interactionOverrideNote?: string; // Required when screening found a major interaction or allergy
 }
 
 export interface RejectOrderRequest {
   orderId: string;
   rejectionReason: string;
+  rejectionReasonCode?: RejectionReasonCode;
   pharmacistNotes?: string;
 }
 
+export interface RequestClarificationOrderRequest {
+  orderId: string;
+  message: string;
+  notificationChannel: ClarificationNotificationChannel;
+}
+
 export interface EditOrderRequest {
   orderId: string;
-  editedDetails: {
+  editedDetails?: {
     name?: string;
     dosage?: string;
     quantity?: number;
   };
+  lineItems?: LineItemReviewRequest[];
   pharmacistNotes?: string;
 }
 
@@ -65,8 +88,16 @@ export interface PharmacistOrdersResponse extends ApiResponse<{
 
 export interface PharmacistActionResponse extends ApiResponse<PrescriptionOrder> {}
 
+// New prescriptions and refill requests wait in separate queues
+export type PharmacistQueueOrderType = 'new' | 'refill';
+
+// Orders on hold for a patient's answer are kept out of the verification queue
+export type PharmacistQueueStatus = 'awaiting_verification' | 'needs_clarification';
+
 // Hook props types
 export interface UsePharmacistQueueProps {
+  orderType?: PharmacistQueueOrderType;
+  status?: PharmacistQueueStatus;
   pageSize?: number;
   autoRefresh?: boolean;
   refreshInterval?: number;
@@ -77,11 +108,14 @@ export interface UsePrescriptionReviewProps {
   onApprove?: (updatedOrder: PrescriptionOrder) => void;
   onReject?: (updatedOrder: PrescriptionOrder) => void;
   onEdit?: (updatedOrder: PrescriptionOrder) => void;
+  onRequestClarification?: (updatedOrder: PrescriptionOrder) => void;
   onError?: (error: string, action: string) => void;
 }
 
 // Component props types
 export interface PharmacistQueueProps {
+  orderType?: PharmacistQueueOrderType;
+  status?: PharmacistQueueStatus;
   className?: string;
 }
 
@@ -96,6 +130,8 @@ export interface ReviewActionsProps {
   onApprove: (request: ApproveOrderRequest) => Promise<void>;
   onReject: (request: RejectOrderRequest) => Promise<void>;
   onEdit: (request: EditOrderRequest) => Promise<void>;
+  onRequestClarification?: (request: RequestClarificationOrderRequest) => Promise<void>;
+  screeningFindings?: ScreeningFinding[]; // A major finding makes an override note required to approve
   onStatusUpdate: (status: PrescriptionOrderStatus, onStatusUpdate?: (order: PrescriptionOrder) => void) => Promise<PrescriptionOrder>;
   onStatusUpdateComplete: (updatedOrder: PrescriptionOrder) => void;
   isLoading: boolean;
@@ -104,6 +140,25 @@ export interface ReviewActionsProps {
 export interface RejectDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (reason: string, notes?: string) => void;
+  onConfirm: (reasonCode: RejectionReasonCode, notes?: string) => void;
   isLoading: boolean;
-}
\ No newline at end of file
+}
+
+export interface ClarificationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (message: string, notificationChannel: ClarificationNotificationChannel) => void;
+  isLoading: boolean;
+}
+
+export interface OrderVersionHistoryProps {
+  orderId: string;
+  className?: string;
+}
+
+export interface ClarificationThreadProps {
+  orderId: string;
+  audience: 'patient' | 'pharmacist'; // Which API the thread is read and answered through
+  canReply: boolean;
+  className?: string;
+}
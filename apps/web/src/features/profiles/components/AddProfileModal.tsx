@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { CreateProfileRequest } from '@pharmarx/shared-types';
+import { MedicalHistoryFields, MedicalHistoryInput, parseListInput, toMedicalHistoryInput } from './MedicalHistoryFields';
 
 interface AddProfileModalProps {
   isOpen: boolean;
@@ -25,6 +26,7 @@ export const AddProfileModal: React.FC<AddProfileModalProps> = ({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [includeInsurance, setIncludeInsurance] = useState(false);
+  const [medicalHistory, setMedicalHistory] = useState<MedicalHistoryInput>(toMedicalHistoryInput());
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
@@ -97,9 +99,13 @@ export const AddProfileModal: React.FC<AddProfileModalProps> = ({
     }
 
     try {
+      const allergies = parseListInput(medicalHistory.allergies);
+      const chronicConditions = parseListInput(medicalHistory.chronicConditions);
       const submitData = {
         ...formData,
-        insuranceDetails: includeInsurance ? formData.insuranceDetails : undefined
+        insuranceDetails: includeInsurance ? formData.insuranceDetails : undefined,
+        allergies: allergies.length > 0 ? allergies : undefined,
+        chronicConditions: chronicConditions.length > 0 ? chronicConditions : undefined
       };
       
       await onSubmit(submitData);
@@ -114,6 +120,7 @@ export const AddProfileModal: React.FC<AddProfileModalProps> = ({
         }
       });
       setIncludeInsurance(false);
+      setMedicalHistory(toMedicalHistoryInput());
       setErrors({});
       onClose();
     } catch (error) {
@@ -132,6 +139,7 @@ export const AddProfileModal: React.FC<AddProfileModalProps> = ({
         }
       });
       setIncludeInsurance(false);
+      setMedicalHistory(toMedicalHistoryInput());
       setErrors({});
       onClose();
     }
@@ -209,6 +217,12 @@ export const AddProfileModal: React.FC<AddProfileModalProps> = ({
                 )}
               </div>
 
+              <MedicalHistoryFields
+                value={medicalHistory}
+                onChange={setMedicalHistory}
+                disabled={isLoading}
+              />
+
               {/* Insurance Details Toggle */}
               <div className="flex items-center">
                 <input
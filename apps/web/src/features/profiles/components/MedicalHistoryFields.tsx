@@ -0,0 +1,67 @@
+import React from 'react';
+
+export interface MedicalHistoryInput {
+  allergies: string;
+  chronicConditions: string;
+}
+
+interface MedicalHistoryFieldsProps {
+  value: MedicalHistoryInput;
+  onChange: (value: MedicalHistoryInput) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Split a comma separated entry into trimmed, non-empty items
+ */
+export const parseListInput = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+export const toMedicalHistoryInput = (allergies: string[] = [], chronicConditions: string[] = []): MedicalHistoryInput => ({
+  allergies: allergies.join(', '),
+  chronicConditions: chronicConditions.join(', ')
+});
+
+/**
+ * Allergies and chronic conditions, used to screen prescriptions for this patient
+ */
+export const MedicalHistoryFields: React.FC<MedicalHistoryFieldsProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => (
+  <div className="space-y-4 border-t pt-4">
+    <div>
+      <label htmlFor="allergies" className="block text-sm font-medium text-gray-700 mb-1">
+        Allergies
+      </label>
+      <input
+        type="text"
+        id="allergies"
+        value={value.allergies}
+        onChange={(e) => onChange({ ...value, allergies: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        placeholder="e.g. Penicillin, Sulfa drugs"
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <label htmlFor="chronicConditions" className="block text-sm font-medium text-gray-700 mb-1">
+        Chronic Conditions
+      </label>
+      <input
+        type="text"
+        id="chronicConditions"
+        value={value.chronicConditions}
+        onChange={(e) => onChange({ ...value, chronicConditions: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        placeholder="e.g. Asthma, Hypertension"
+        disabled={disabled}
+      />
+      <p className="mt-1 text-sm text-gray-500">Separate entries with commas</p>
+    </div>
+  </div>
+);
+
+export default MedicalHistoryFields;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { PatientProfile, UpdateProfileRequest } from '@pharmarx/shared-types';
+import { MedicalHistoryFields, MedicalHistoryInput, parseListInput, toMedicalHistoryInput } from './MedicalHistoryFields';
 
 interface ProfileEditModalProps {
   isOpen: boolean;
@@ -27,6 +28,7 @@ export const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [includeInsurance, setIncludeInsurance] = useState(false);
+  const [medicalHistory, setMedicalHistory] = useState<MedicalHistoryInput>(toMedicalHistoryInput());
 
   // Initialize form data when profile changes
   useEffect(() => {
@@ -40,6 +42,7 @@ export const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
         }
       });
       setIncludeInsurance(!!profile.insuranceDetails);
+      setMedicalHistory(toMedicalHistoryInput(profile.allergies, profile.chronicConditions));
       setErrors({});
     }
   }, [profile]);
@@ -115,7 +118,9 @@ export const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
     try {
       const submitData = {
         ...formData,
-        insuranceDetails: includeInsurance ? formData.insuranceDetails : undefined
+        insuranceDetails: includeInsurance ? formData.insuranceDetails : undefined,
+        allergies: parseListInput(medicalHistory.allergies),
+        chronicConditions: parseListInput(medicalHistory.chronicConditions)
       };
       
       await onSubmit(profile.profileId, submitData);
@@ -203,6 +208,12 @@ export const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                 )}
               </div>
 
+              <MedicalHistoryFields
+                value={medicalHistory}
+                onChange={setMedicalHistory}
+                disabled={isLoading}
+              />
+
               {/* Insurance Details Toggle */}
               <div className="flex items-center">
                 <input
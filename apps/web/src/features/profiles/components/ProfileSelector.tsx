@@ -1,7 +1,16 @@
 import React, { useState } from 'react';
-import { PatientProfile } from '@pharmarx/shared-types';
+import { PatientProfile, ProfileMembershipRole } from '@pharmarx/shared-types';
 import { ChevronDownIcon, PlusIcon, PencilIcon } from '@heroicons/react/24/outline';
 
+const SHARED_ROLE_LABELS: Record<Exclude<ProfileMembershipRole, 'owner'>, string> = {
+  can_order: 'Can order',
+  can_pay: 'Can pay',
+  view_only: 'View only'
+};
+
+// Profiles without a membership role were loaded before sharing existed and are the user's own
+const isOwnProfile = (profile: PatientProfile) => !profile.membershipRole || profile.membershipRole === 'owner';
+
 interface ProfileSelectorProps {
   profiles: PatientProfile[];
   activeProfileId?: string;
@@ -23,6 +32,8 @@ export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
 
   const activeProfile = profiles.find(profile => profile.profileId === activeProfileId);
   const hasProfiles = profiles.length > 0;
+  const ownProfiles = profiles.filter(isOwnProfile);
+  const sharedProfiles = profiles.filter(profile => !isOwnProfile(profile));
 
   const handleProfileSelect = (profileId: string) => {
     onProfileSelect(profileId);
@@ -50,6 +61,47 @@ export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
     return age;
   };
 
+  const renderProfileOption = (profile: PatientProfile) => (
+    <button
+      key={profile.profileId}
+      type="button"
+      onClick={() => handleProfileSelect(profile.profileId)}
+      className={`w-full px-4 py-2 text-left flex items-center space-x-3 hover:bg-gray-50 focus:outline-none focus:bg-gray-50 ${
+        profile.profileId === activeProfileId ? 'bg-blue-50' : ''
+      }`}
+    >
+      <div className="flex-shrink-0">
+        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+          profile.profileId === activeProfileId ? 'bg-blue-100' : 'bg-gray-100'
+        }`}>
+          <span className={`font-medium text-sm ${
+            profile.profileId === activeProfileId ? 'text-blue-600' : 'text-gray-600'
+          }`}>
+            {profile.patientName.charAt(0).toUpperCase()}
+          </span>
+        </div>
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-medium truncate ${
+          profile.profileId === activeProfileId ? 'text-blue-900' : 'text-gray-900'
+        }`}>
+          {profile.patientName}
+        </p>
+        <p className="text-xs text-gray-500">
+          {getAge(profile.dateOfBirth)} years old • {formatDate(profile.dateOfBirth)}
+          {profile.membershipRole && profile.membershipRole !== 'owner' && (
+            <> • {SHARED_ROLE_LABELS[profile.membershipRole]}</>
+          )}
+        </p>
+      </div>
+      {profile.profileId === activeProfileId && (
+        <div className="flex-shrink-0">
+          <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
+        </div>
+      )}
+    </button>
+  );
+
   if (isLoading) {
     return (
       <div className="relative">
@@ -99,7 +151,7 @@ export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
             </div>
           </div>
           <div className="flex items-center space-x-2">
-            {activeProfile && (
+            {activeProfile && isOwnProfile(activeProfile) && (
               <button
                 type="button"
                 onClick={(e) => {
@@ -141,43 +193,17 @@ export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
               </button>
 
               {/* Profile List */}
-              {profiles.map((profile) => (
-                <button
-                  key={profile.profileId}
-                  type="button"
-                  onClick={() => handleProfileSelect(profile.profileId)}
-                  className={`w-full px-4 py-2 text-left flex items-center space-x-3 hover:bg-gray-50 focus:outline-none focus:bg-gray-50 ${
-                    profile.profileId === activeProfileId ? 'bg-blue-50' : ''
-                  }`}
-                >
-                  <div className="flex-shrink-0">
-                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                      profile.profileId === activeProfileId ? 'bg-blue-100' : 'bg-gray-100'
-                    }`}>
-                      <span className={`font-medium text-sm ${
-                        profile.profileId === activeProfileId ? 'text-blue-600' : 'text-gray-600'
-                      }`}>
-                        {profile.patientName.charAt(0).toUpperCase()}
-                      </span>
-                    </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className={`text-sm font-medium truncate ${
-                      profile.profileId === activeProfileId ? 'text-blue-900' : 'text-gray-900'
-                    }`}>
-                      {profile.patientName}
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      {getAge(profile.dateOfBirth)} years old • {formatDate(profile.dateOfBirth)}
-                    </p>
-                  </div>
-                  {profile.profileId === activeProfileId && (
-                    <div className="flex-shrink-0">
-                      <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-                    </div>
-                  )}
-                </button>
-              ))}
+              {ownProfiles.map(renderProfileOption)}
+
+              {/* Profiles other caregivers have shared with the user */}
+              {sharedProfiles.length > 0 && (
+                <>
+                  <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    Shared with you
+                  </p>
+                  {sharedProfiles.map(renderProfileOption)}
+                </>
+              )}
             </div>
           </div>
         )}
@@ -113,6 +113,24 @@ describe('AddProfileModal', () => {
     });
   });
 
+  it('submits allergies and chronic conditions as lists', async () => {
+    render(<AddProfileModal {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Patient Name *'), { target: { value: 'John Doe' } });
+    fireEvent.change(screen.getByLabelText('Date of Birth *'), { target: { value: '1990-01-01' } });
+    fireEvent.change(screen.getByLabelText('Allergies'), { target: { value: 'Penicillin, , Sulfa drugs ' } });
+    fireEvent.change(screen.getByLabelText('Chronic Conditions'), { target: { value: 'Asthma' } });
+    
+    fireEvent.click(screen.getByText('Create Profile'));
+    
+    await waitFor(() => {
+      expect(defaultProps.onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        allergies: ['Penicillin', 'Sulfa drugs'],
+        chronicConditions: ['Asthma']
+      }));
+    });
+  });
+
   it('submits form with insurance information when checkbox is checked', async () => {
     render(<AddProfileModal {...defaultProps} />);
     
@@ -214,6 +214,37 @@ describe('ProfileSelector', () => {
     });
   });
 
+  it('lists profiles shared with the user separately with their role', async () => {
+    const sharedProfile: PatientProfile = {
+      profileId: 'profile-3',
+      managedByUid: 'caregiver-2',
+      patientName: 'Ama Dossou',
+      dateOfBirth: new Date('1950-03-10'),
+      membershipRole: 'can_pay',
+      createdAt: new Date('2024-01-03')
+    };
+    render(<ProfileSelector {...defaultProps} profiles={[...mockProfiles, sharedProfile]} />);
+
+    fireEvent.click(screen.getAllByRole('button')[0]);
+
+    await waitFor(() => {
+      expect(screen.getByText('Shared with you')).toBeInTheDocument();
+      expect(screen.getByText('Ama Dossou')).toBeInTheDocument();
+      expect(screen.getByText(/Can pay/)).toBeInTheDocument();
+    });
+  });
+
+  it('does not offer to edit a profile shared with the user', () => {
+    const sharedProfile: PatientProfile = {
+      ...mockProfiles[0],
+      managedByUid: 'caregiver-2',
+      membershipRole: 'view_only'
+    };
+    render(<ProfileSelector {...defaultProps} profiles={[sharedProfile]} />);
+
+    expect(screen.queryByTitle('Edit profile')).not.toBeInTheDocument();
+  });
+
   it('prevents event propagation when edit button is clicked', async () => {
     render(<ProfileSelector {...defaultProps} />);
     
@@ -67,7 +67,8 @@ const fetchProfiles = async (): Promise<ProfileManagementResponse> => {
       throw new Error(errorMessage);
     }
 
-    return response.json();
+    const result = await response.json();
+    return result.data;
   } catch (error) {
     console.error('Failed to fetch profiles:', error);
     throw new Error('Failed to fetch profiles. Please try again later.');
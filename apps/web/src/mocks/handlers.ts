@@ -154,12 +154,15 @@ export const handlers = [
   }),
 
   // Mock pharmacy selection endpoint
-  http.post('/api/pharmacy/select', async () => {
+  http.post('/api/orders/:orderId/pharmacy', async ({ params, request }) => {
+    const { pharmacyId } = await request.json() as { pharmacyId: string };
+
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 300));
     
     return HttpResponse.json({
       success: true,
+      data: { orderId: params.orderId, pharmacyId, status: 'pending_verification' },
       message: 'Pharmacy selected successfully'
     });
   }),
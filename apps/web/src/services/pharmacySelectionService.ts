@@ -1,9 +1,10 @@
-import { PrescriptionOrder } from '@pharmarx/shared-types';
+import { PharmacyFulfilmentCheck, PharmacyLocation, PrescriptionOrder } from '@pharmarx/shared-types';
+import { getValidAuthToken } from '../utils/authUtils';
 
 export interface PharmacySelectionRequest {
   orderId: string;
   pharmacyId: string;
-  patientId: string;
+  savePreferred?: boolean;
 }
 
 export interface PharmacySelectionResponse {
@@ -17,36 +18,33 @@ class PharmacySelectionService {
   private baseUrl: string;
 
   constructor() {
-    this.baseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/pharmarx-dev/us-central1/api';
+    this.baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
   }
 
   /**
-   * Update an order with the selected pharmacy
+   * Send an order to the selected pharmacy. The API checks stock and opening hours first.
    */
   async selectPharmacy(request: PharmacySelectionRequest): Promise<PharmacySelectionResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/orders/${request.orderId}/pharmacy`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        },
+        headers: await this.getHeaders(),
         body: JSON.stringify({
           pharmacyId: request.pharmacyId,
-          patientId: request.patientId
+          savePreferred: request.savePreferred
         })
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `Failed to select pharmacy: ${response.status}`);
+        throw new Error(errorData.error || `Failed to select pharmacy: ${response.status}`);
       }
 
       const data = await response.json();
       return {
         success: true,
-        order: data.order,
-        message: 'Pharmacy selected successfully'
+        order: data.data,
+        message: data.message || 'Pharmacy selected successfully'
       };
     } catch (error) {
       console.error('Pharmacy selection error:', error);
@@ -61,20 +59,19 @@ class PharmacySelectionService {
   /**
    * Get pharmacy details for a specific pharmacy ID
    */
-  async getPharmacyDetails(pharmacyId: string): Promise<any> {
+  async getPharmacyDetails(pharmacyId: string): Promise<PharmacyLocation> {
     try {
       const response = await fetch(`${this.baseUrl}/pharmacies/${pharmacyId}`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        }
+        headers: await this.getHeaders()
       });
 
       if (!response.ok) {
         throw new Error(`Failed to fetch pharmacy details: ${response.status}`);
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.data;
     } catch (error) {
       console.error('Get pharmacy details error:', error);
       throw error;
@@ -84,20 +81,19 @@ class PharmacySelectionService {
   /**
    * Get user's preferred pharmacies
    */
-  async getPreferredPharmacies(userId: string): Promise<any[]> {
+  async getPreferredPharmacies(userId: string): Promise<PharmacyLocation[]> {
     try {
       const response = await fetch(`${this.baseUrl}/users/${userId}/preferred-pharmacies`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        }
+        headers: await this.getHeaders()
       });
 
       if (!response.ok) {
         throw new Error(`Failed to fetch preferred pharmacies: ${response.status}`);
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.data || [];
     } catch (error) {
       console.error('Get preferred pharmacies error:', error);
       return [];
@@ -111,10 +107,7 @@ class PharmacySelectionService {
     try {
       const response = await fetch(`${this.baseUrl}/users/${userId}/preferred-pharmacies`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        },
+        headers: await this.getHeaders(),
         body: JSON.stringify({ pharmacyId })
       });
 
@@ -125,6 +118,23 @@ class PharmacySelectionService {
     }
   }
 
+  /**
+   * Remove a pharmacy from the user's preferred pharmacies
+   */
+  async removePreferredPharmacy(userId: string, pharmacyId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/users/${userId}/preferred-pharmacies/${pharmacyId}`, {
+        method: 'DELETE',
+        headers: await this.getHeaders()
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Remove preferred pharmacy error:', error);
+      return false;
+    }
+  }
+
   /**
    * Get order details with pharmacy information
    */
@@ -132,16 +142,15 @@ class PharmacySelectionService {
     try {
       const response = await fetch(`${this.baseUrl}/orders/${orderId}`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        }
+        headers: await this.getHeaders()
       });
 
       if (!response.ok) {
         throw new Error(`Failed to fetch order: ${response.status}`);
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.data;
     } catch (error) {
       console.error('Get order error:', error);
       return null;
@@ -151,26 +160,22 @@ class PharmacySelectionService {
   /**
    * Validate if a pharmacy can fulfill the order
    */
-  async validatePharmacyForOrder(orderId: string, pharmacyId: string): Promise<{
-    canFulfill: boolean;
-    reason?: string;
-    estimatedDeliveryTime?: number;
-  }> {
+  async validatePharmacyForOrder(orderId: string, pharmacyId: string): Promise<PharmacyFulfilmentCheck> {
     try {
-      const response = await fetch(`${this.baseUrl}/orders/${orderId}/validate-pharmacy`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.getAuthToken()}`
-        },
-        body: JSON.stringify({ pharmacyId })
-      });
+      const response = await fetch(
+        `${this.baseUrl}/orders/${orderId}/validate-pharmacy?pharmacyId=${encodeURIComponent(pharmacyId)}`,
+        {
+          method: 'GET',
+          headers: await this.getHeaders()
+        }
+      );
 
       if (!response.ok) {
         throw new Error(`Failed to validate pharmacy: ${response.status}`);
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.data;
     } catch (error) {
       console.error('Validate pharmacy error:', error);
       return {
@@ -180,11 +185,13 @@ class PharmacySelectionService {
     }
   }
 
-  private getAuthToken(): string {
-    // Get auth token from your auth store or localStorage
-    // This is a placeholder - implement based on your auth system
-    return localStorage.getItem('authToken') || '';
+  private async getHeaders(): Promise<Record<string, string>> {
+    const token = await getValidAuthToken();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token || ''}`
+    };
   }
 }
 
-export const pharmacySelectionService = new PharmacySelectionService();
\ No newline at end of file
+export const pharmacySelectionService = new PharmacySelectionService();
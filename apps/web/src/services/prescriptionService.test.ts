@@ -2,6 +2,17 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { prescriptionService } from './prescriptionService';
 import { PrescriptionOrder, CreatePrescriptionOrderInput } from '@pharmarx/shared-types';
 
+// Talk to the API rather than the service's built-in mock mode
+vi.hoisted(() => {
+  vi.stubEnv('VITE_API_URL', 'http://localhost:3001');
+});
+
+// The Firebase token lookup reads the stored token
+vi.mock('../utils/authUtils', () => ({
+  getValidAuthToken: vi.fn(async () => localStorage.getItem('authToken')),
+  handleAuthError: vi.fn()
+}));
+
 // Mock fetch
 global.fetch = vi.fn();
 
@@ -16,7 +27,7 @@ class MockXMLHttpRequest {
   public send = vi.fn();
   public abort = vi.fn();
   public status = 200;
-  public responseText = '{"url": "https://example.com/uploaded-file.jpg"}';
+  public responseText = '{"success": true, "data": {"url": "gs://pharmarx-prescriptions/prescriptions/user-1/uploaded-file.jpg"}}';
 }
 
 // Mock localStorage
@@ -63,7 +74,7 @@ describe('PrescriptionService', () => {
       const result = await prescriptionService.uploadPrescriptionFile(file, { onProgress });
 
       expect(result.success).toBe(true);
-      expect(result.url).toBe('https://example.com/uploaded-file.jpg');
+      expect(result.url).toBe('gs://pharmarx-prescriptions/prescriptions/user-1/uploaded-file.jpg');
       expect(mockXHR.open).toHaveBeenCalledWith('POST', 'http://localhost:3001/uploads/prescription');
       expect(mockXHR.setRequestHeader).toHaveBeenCalledWith('Authorization', 'Bearer mock-firebase-token');
     });
@@ -3,7 +3,10 @@ import {
   CreatePrescriptionOrderInput, 
   FileUploadResult,
   ApiResponse,
-  PrescriptionOrderStatus
+  PrescriptionOrderStatus,
+  OrderClarificationMessage,
+  PostClarificationMessageRequest,
+  ResubmitOrderRequest
 } from '@pharmarx/shared-types';
 import { useAuthStore } from '../stores/authStore';
 import { getValidAuthToken, handleAuthError } from '../utils/authUtils';
@@ -95,16 +98,23 @@ class PrescriptionService {
         xhr.addEventListener('load', () => {
           if (xhr.status >= 200 && xhr.status < 300) {
             try {
+              // url is the private storage path the order keeps; the API signs it when reading orders
               const response = JSON.parse(xhr.responseText);
               resolve({
                 success: true,
-                url: response.url
+                url: response.data.url
               });
             } catch (error) {
               reject(new Error('Invalid response from server'));
             }
           } else {
-            reject(new Error(`Upload failed with status ${xhr.status}`));
+            let message = `Upload failed with status ${xhr.status}`;
+            try {
+              message = JSON.parse(xhr.responseText).error || message;
+            } catch {
+              // Keep the status message when the body is not JSON
+            }
+            reject(new Error(message));
           }
         });
 
@@ -189,25 +199,40 @@ class PrescriptionService {
   }
 
   /**
-   * Complete prescription upload workflow
+   * Complete prescription upload workflow. Several files are pages of one
+   * prescription, in order; each is uploaded before the order is created.
    */
   async uploadPrescription(
-    file: File,
+    files: File | File[],
     patientProfileId: string,
     options?: PrescriptionUploadOptions
   ): Promise<PrescriptionOrder> {
     try {
-      // Step 1: Upload file to Google Cloud Storage
-      const uploadResult = await this.uploadPrescriptionFile(file, options);
-      
-      if (!uploadResult.success || !uploadResult.url) {
-        throw new Error(uploadResult.error || 'File upload failed');
+      const pages = Array.isArray(files) ? files : [files];
+      const imageUrls: string[] = [];
+
+      // Step 1: Upload each file to Google Cloud Storage, reporting progress across all of them
+      for (const [index, file] of pages.entries()) {
+        const uploadResult = await this.uploadPrescriptionFile(file, {
+          ...options,
+          onProgress: options?.onProgress && (progress => options.onProgress!({
+            ...progress,
+            percentage: Math.round((index * 100 + progress.percentage) / pages.length)
+          }))
+        });
+        
+        if (!uploadResult.success || !uploadResult.url) {
+          throw new Error(uploadResult.error || 'File upload failed');
+        }
+        imageUrls.push(uploadResult.url);
       }
 
       // Step 2: Create prescription order record
+      const [originalImageUrl, ...additionalImageUrls] = imageUrls;
       const orderData: CreatePrescriptionOrderInput = {
         patientProfileId,
-        originalImageUrl: uploadResult.url,
+        originalImageUrl,
+        ...(additionalImageUrls.length > 0 && { additionalImageUrls }),
         status: 'pending_verification'
       };
 
@@ -393,6 +418,121 @@ class PrescriptionService {
     }
   }
 
+  /**
+   * Request a refill of a delivered order. Resolves to the new refill order.
+   */
+  async requestRefill(orderId: string): Promise<PrescriptionOrder> {
+    try {
+      const token = await this.getAuthTokenOrThrow();
+
+      const response = await fetch(`${this.baseUrl}/api/orders/${orderId}/refill`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error || errorData.message || this.getStatusErrorMessage(response.status);
+        throw new Error(errorMessage);
+      }
+
+      const result: ApiResponse<PrescriptionOrder> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to request refill');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Refill request error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a fixed version of a rejected order, with photos uploaded with uploadPrescriptionFile,
+   * corrected medication details, or both. Resolves to the new version.
+   */
+  async resubmitOrder(orderId: string, request: ResubmitOrderRequest): Promise<PrescriptionOrder> {
+    const token = await this.getAuthTokenOrThrow();
+
+    const response = await fetch(`${this.baseUrl}/api/orders/${orderId}/resubmit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(request)
+    });
+
+    const result: ApiResponse<PrescriptionOrder> = await response.json().catch(() => ({ success: false }));
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || this.getStatusErrorMessage(response.status));
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Messages between the pharmacist and the patient about an order on hold, oldest first.
+   * Pharmacists read the thread through their own endpoint.
+   */
+  async getClarificationThread(
+    orderId: string,
+    audience: 'patient' | 'pharmacist' = 'patient'
+  ): Promise<OrderClarificationMessage[]> {
+    const token = await this.getAuthTokenOrThrow();
+
+    const response = await fetch(this.getClarificationUrl(orderId, audience), {
+      headers: {
+        'Authorization': `Bearer ${token}`
+      }
+    });
+
+    const result: ApiResponse<OrderClarificationMessage[]> = await response.json().catch(() => ({ success: false }));
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || this.getStatusErrorMessage(response.status));
+    }
+
+    return result.data.map(message => ({ ...message, createdAt: new Date(message.createdAt) }));
+  }
+
+  /**
+   * Reply on an order's clarification thread with text, a photo uploaded with
+   * uploadPrescriptionFile, or both
+   */
+  async postClarificationMessage(
+    orderId: string,
+    request: PostClarificationMessageRequest,
+    audience: 'patient' | 'pharmacist' = 'patient'
+  ): Promise<OrderClarificationMessage> {
+    const token = await this.getAuthTokenOrThrow();
+
+    const response = await fetch(`${this.getClarificationUrl(orderId, audience)}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(request)
+    });
+
+    const result: ApiResponse<OrderClarificationMessage> = await response.json().catch(() => ({ success: false }));
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || this.getStatusErrorMessage(response.status));
+    }
+
+    return { ...result.data, createdAt: new Date(result.data.createdAt) };
+  }
+
+  private getClarificationUrl(orderId: string, audience: 'patient' | 'pharmacist'): string {
+    const scope = audience === 'pharmacist' ? '/api/pharmacist' : '/api';
+    return `${this.baseUrl}${scope}/orders/${orderId}/clarification`;
+  }
+
   /**
    * Update prescription order status using the pharmacist endpoint
    */
@@ -550,6 +690,7 @@ class PrescriptionService {
       patientProfileId: orderData.patientProfileId,
       status: 'pending_verification',
       originalImageUrl: orderData.originalImageUrl,
+      additionalImageUrls: orderData.additionalImageUrls,
       ocrStatus: 'pending',
       createdAt: new Date(),
       updatedAt: new Date(),
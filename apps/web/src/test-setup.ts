@@ -123,6 +123,6 @@ vi.mock('./config/environment', () => ({
 
 // Setup MSW for API mocking
 if (process.env.NODE_ENV === 'test') {
-  const { server } = require('./mocks/server');
+  const { server } = await import('./mocks/server');
   server.listen();
 } 
\ No newline at end of file
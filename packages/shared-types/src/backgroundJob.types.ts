@@ -0,0 +1,29 @@
+export type BackgroundJobType =
+  | 'ocr'
+  | 'send_message'
+  | 'generate_receipt'
+  | 'inventory_sync'
+  | 'expire_payment_links'
+  | 'refresh_refunds'
+  | 'expire_payments';
+
+// 'dead' jobs used up their attempts and wait for an admin to replay them
+export type BackgroundJobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+// Stored in the `jobs` collection
+export interface BackgroundJob {
+  jobId: string;
+  type: BackgroundJobType;
+  payload: Record<string, any>;
+  status: BackgroundJobStatus;
+  attempts: number; // Runs started so far, including the current one
+  maxAttempts: number;
+  // When the job is next due. While running it is the end of the worker's lease,
+  // after which another worker takes the job over.
+  runAt: Date;
+  lastError?: string;
+  completedAt?: Date;
+  replayedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,3 +1,5 @@
+export type DeliveryStatus = 'assigned' | 'picked_up' | 'in_transit' | 'approaching' | 'delivered';
+
 export interface DeliveryTrackingInfo {
   orderId: string;
   deliveryPersonId: string;
@@ -12,18 +14,20 @@ export interface DeliveryTrackingInfo {
     address: string;
   };
   estimatedArrival: Date;
-  status: 'assigned' | 'picked_up' | 'in_transit' | 'approaching' | 'delivered';
+  status: DeliveryStatus;
   route?: {
     coordinates: Array<[number, number]>; // [lng, lat] format for Google Maps
     distance: number; // in meters
     duration: number; // in seconds
   };
+  notifications?: DeliveryNotificationEvent[]; // Approach/arrival events already sent to the patient
 }
 
 export interface DeliveryLocation {
   latitude: number;
   longitude: number;
   timestamp: Date;
+  speed?: number; // in m/s, when the courier's device reports it
 }
 
 export interface DeliveryNotificationPreferences {
@@ -38,4 +42,50 @@ export interface DeliveryNotificationEvent {
   timestamp: Date;
   estimatedArrival?: Date;
   message: string;
-}
\ No newline at end of file
+}
+
+export type DeliveryNotificationChannel = 'sms' | 'whatsapp';
+
+// Stored per order in the `deliveryTracking` collection; the API serves it as DeliveryTrackingInfo
+export interface DeliveryAssignment {
+  orderId: string;
+  deliveryPersonId: string;
+  destinationLocation: DeliveryTrackingInfo['destinationLocation'];
+  currentLocation?: DeliveryLocation; // Unset until the courier's first ping
+  recentLocations: DeliveryLocation[]; // Latest pings, oldest first, used for the speed estimate
+  estimatedArrival?: Date;
+  status: DeliveryStatus;
+  route?: DeliveryTrackingInfo['route'];
+  recipientPhone?: string;
+  notificationChannel: DeliveryNotificationChannel;
+  notificationPreferences: DeliveryNotificationPreferences;
+  // Each threshold fires at most once, even when its notification is turned off
+  thresholdsReached: { approach: boolean; arrival: boolean };
+  notifications: DeliveryNotificationEvent[];
+  assignedAt: Date;
+  updatedAt: Date;
+}
+
+// The delivery statuses a courier sets with a tap; 'approaching' is only set from location pings
+export type CourierDeliveryStatus = 'picked_up' | 'in_transit' | 'delivered';
+
+// Where a courier can go next from each delivery status
+export const COURIER_STATUS_STEPS: Record<DeliveryStatus, CourierDeliveryStatus[]> = {
+  assigned: ['picked_up'],
+  picked_up: ['in_transit', 'delivered'],
+  in_transit: ['delivered'],
+  approaching: ['delivered'],
+  delivered: []
+};
+
+export const getNextCourierStatuses = (status: DeliveryStatus): CourierDeliveryStatus[] =>
+  COURIER_STATUS_STEPS[status] || [];
+
+// Captured by the courier at the door; at least one of the two images is required
+export interface ProofOfDelivery {
+  recipientName: string;
+  signatureImage?: string; // PNG data URL drawn on the courier's screen
+  photoImage?: string; // JPEG/PNG data URL from the courier's camera
+  deliveredBy: string; // Courier uid
+  deliveredAt: Date;
+}
@@ -5,6 +5,7 @@ export var UserRole;
     UserRole["Caregiver"] = "caregiver";
     UserRole["Doctor"] = "doctor";
     UserRole["Pharmacist"] = "pharmacist";
+    UserRole["Courier"] = "courier";
 })(UserRole || (UserRole = {}));
 // User validation functions
 export const validateUser = (user) => {
@@ -14,7 +15,7 @@ export const validateUser = (user) => {
         errors.push('uid is required and must be a non-empty string');
     }
     if (!user.role || !Object.values(UserRole).includes(user.role)) {
-        errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+        errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
     }
     if (!user.displayName || typeof user.displayName !== 'string' || user.displayName.trim() === '') {
         errors.push('displayName is required and must be a non-empty string');
@@ -50,7 +51,7 @@ export const validateUser = (user) => {
 export const validateCreateUserInput = (input) => {
     const errors = [];
     if (!input.role || !Object.values(UserRole).includes(input.role)) {
-        errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+        errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
     }
     if (!input.displayName || typeof input.displayName !== 'string' || input.displayName.trim() === '') {
         errors.push('displayName is required and must be a non-empty string');
@@ -65,7 +65,7 @@ describe('User Interface Validation', () => {
       const result = validateUser(userWithInvalidRole);
       
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+      expect(result.errors).toContain('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
     });
 
     it('should reject user without displayName', () => {
@@ -171,7 +171,7 @@ describe('User Interface Validation', () => {
       const result = validateCreateUserInput(inputWithoutRole);
       
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+      expect(result.errors).toContain('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
     });
 
     it('should reject input without displayName', () => {
@@ -241,12 +241,13 @@ describe('User Interface Validation', () => {
       expect(UserRole.Caregiver).toBe('caregiver');
       expect(UserRole.Doctor).toBe('doctor');
       expect(UserRole.Pharmacist).toBe('pharmacist');
+      expect(UserRole.Courier).toBe('courier');
     });
 
-    it('should have exactly 4 role values', () => {
+    it('should have exactly 5 role values', () => {
       const roleValues = Object.values(UserRole);
-      expect(roleValues).toHaveLength(4);
-      expect(roleValues).toEqual(['patient', 'caregiver', 'doctor', 'pharmacist']);
+      expect(roleValues).toHaveLength(5);
+      expect(roleValues).toEqual(['patient', 'caregiver', 'doctor', 'pharmacist', 'courier']);
     });
   });
 }); 
\ No newline at end of file
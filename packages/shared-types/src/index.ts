@@ -1,9 +1,20 @@
+import type { OrderStatusHistoryEntry } from './orderStatus.types';
+import type { OrderLineItem } from './orderLineItem.types';
+import type { RefillEligibility } from './refill.types';
+import type { ProofOfDelivery } from './deliveryTracking.types';
+import type { ScreeningFinding } from './medicationScreening.types';
+import type { ProfileMembershipRole } from './profileMembership.types';
+import type { OrderClarification } from './orderClarification.types';
+import type { RejectionReasonCode, OrderRejectionSummary } from './orderResubmission.types';
+
 // User types
 export enum UserRole {
   Patient = 'patient',
   Caregiver = 'caregiver', 
   Doctor = 'doctor',
-  Pharmacist = 'pharmacist'
+  Pharmacist = 'pharmacist',
+  Courier = 'courier',
+  Admin = 'admin'
 }
 
 export interface User {
@@ -12,6 +23,9 @@ export interface User {
   email?: string;
   phoneNumber?: string;
   displayName: string;
+  pharmacyId?: string; // Pharmacists only: the pharmacy they work at
+  preferredPharmacyIds?: string[]; // Pharmacies the user orders from, most recently added last
+  activeProfileId?: string; // Patient profile the user last switched to
   createdAt: Date;
 }
 
@@ -39,7 +53,7 @@ export const validateUser = (user: Partial<User>): UserValidationResult => {
   }
 
   if (!user.role || !Object.values(UserRole).includes(user.role as UserRole)) {
-    errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+    errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
   }
 
   if (!user.displayName || typeof user.displayName !== 'string' || user.displayName.trim() === '') {
@@ -84,7 +98,7 @@ export const validateCreateUserInput = (input: CreateUserInput): UserValidationR
   const errors: string[] = [];
 
   if (!input.role || !Object.values(UserRole).includes(input.role)) {
-    errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist');
+    errors.push('role is required and must be one of: patient, caregiver, doctor, pharmacist, courier');
   }
 
   if (!input.displayName || typeof input.displayName !== 'string' || input.displayName.trim() === '') {
@@ -125,26 +139,44 @@ export const validateCreateUserInput = (input: CreateUserInput): UserValidationR
 export type PrescriptionOrderStatus = 
   | 'pending_verification' 
   | 'awaiting_verification'
+  | 'needs_clarification' // Pharmacist asked the patient a question before approving
   | 'awaiting_payment' 
   | 'preparing' 
+  | 'ready'
   | 'out_for_delivery' 
   | 'delivered' 
-  | 'rejected';
+  | 'rejected'
+  | 'cancelled';
 
 export type OCRStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
+export type OCREngineName = 'google_vision' | 'tesseract';
+
 export interface MedicationDetails {
   name: string;
   dosage: string;
   quantity: number;
 }
 
+export type ExtractedMedicationField = 'name' | 'dosage' | 'quantity' | 'frequency' | 'prescriber' | 'prescribedDate';
+
+// A medication candidate parsed from OCR text, for the patient to confirm
+export interface ExtractedMedication extends MedicationDetails {
+  frequency?: string;
+  prescriber?: string;
+  prescribedDate?: Date;
+  inDictionary: boolean; // False when the name could not be matched to the local drug dictionary
+  fieldConfidence: Partial<Record<ExtractedMedicationField, number>>; // 0-1, only for fields that were found
+  sourceText: string; // The prescription lines this candidate was parsed from
+}
+
 // Pharmacist review interface
 export interface PharmacistReview {
   reviewedBy: string;
   reviewedAt: Date;
   approved: boolean;
   rejectionReason?: string;
+  rejectionReasonCode?: RejectionReasonCode; // Absent on orders rejected before reason codes existed
   editedDetails?: {
     name?: string;
     dosage?: string;
@@ -152,6 +184,8 @@ export interface PharmacistReview {
   };
   pharmacistNotes?: string;
   calculatedCost?: number;
+  screeningFindings?: ScreeningFinding[]; // Interaction and allergy screening when the order was approved
+  interactionOverrideNote?: string; // Why the pharmacist approved over a major finding
 }
 
 export interface PrescriptionOrder {
@@ -159,26 +193,61 @@ export interface PrescriptionOrder {
   patientProfileId: string;
   status: PrescriptionOrderStatus;
   originalImageUrl: string;
+  additionalImageUrls?: string[]; // Further photos of a multi-page prescription, in page order
   // OCR-related fields
-  extractedText?: string;
+  extractedText?: string; // Text of every page, joined in page order
+  ocrPages?: OCRPageResult[];
+  ocrEngines?: OCREngineName[]; // Engines that read the pages, more than one when OCR failed over
   ocrStatus?: OCRStatus;
   ocrConfidence?: number;
   ocrProcessedAt?: Date;
   ocrError?: string;
+  extractedMedications?: ExtractedMedication[];
+  // Every medication on the prescription; read through getOrderLineItems for older orders
+  lineItems?: OrderLineItem[];
+  // Legacy single-medication field, kept in step with the first line item
   medicationDetails?: MedicationDetails;
   // User verification fields
   userVerified?: boolean;
   userVerificationNotes?: string;
   // Pharmacist review fields
   pharmacistReview?: PharmacistReview;
+  clarification?: OrderClarification; // Set once the pharmacist asks the patient a question; the messages are stored separately
   cost?: number;
+  // Every status change, oldest first
+  statusHistory?: OrderStatusHistoryEntry[];
+  // Refill fields; the allowance lives on the original order, see getRefillEligibility
+  doctorPrescriptionId?: string;
+  refillsAuthorized?: number;
+  refillsRemaining?: number;
+  prescriptionExpiresAt?: Date;
+  minDaysBetweenRefills?: number;
+  lastFilledAt?: Date;
+  refillOfOrderId?: string; // Set on refill orders, always the original order
+  refillNumber?: number;
+  // Resubmission fields; each fix of a rejected order is a new version in the same lineage
+  resubmissionOfOrderId?: string; // The rejected version this one replaces
+  lineageRootOrderId?: string; // The first version, set on every version once the order is resubmitted
+  versionNumber?: number; // 1 for the first version
+  resubmittedAsOrderId?: string; // Set on a rejected version once the patient sends a fix
+  resubmissionNote?: string; // The patient's note to the pharmacist
+  proofOfDelivery?: ProofOfDelivery; // Set when the courier marks the order delivered
+  pharmacyId?: string; // Pharmacy fulfilling the order
   createdAt: Date;
   updatedAt?: Date;
 }
 
+// Whether a pharmacy can take an order, checked before the order is assigned to it
+export interface PharmacyFulfilmentCheck {
+  canFulfill: boolean;
+  reason?: string; // Why not, phrased for the patient
+  unavailableMedications?: string[]; // Medications the pharmacy does not have enough of
+}
+
 export interface CreatePrescriptionOrderInput {
   patientProfileId: string;
   originalImageUrl: string;
+  additionalImageUrls?: string[];
   status?: PrescriptionOrderStatus;
   // OCR processing will be triggered automatically
 }
@@ -187,12 +256,26 @@ export interface CreatePrescriptionOrderInput {
 export interface OCRProcessingRequest {
   orderId: string;
   imageUrl: string;
+  additionalImageUrls?: string[];
+}
+
+// Text read from one page of a prescription: a photo, or one page of a PDF
+export interface OCRPageResult {
+  pageNumber: number; // 1-based, across every file of the prescription
+  imageIndex: number; // 0 for originalImageUrl, then additionalImageUrls in order
+  pdfPageNumber?: number; // Page within the file, when it is a PDF
+  text: string;
+  confidence: number;
+  engine?: OCREngineName; // Not recorded on orders read before engines could fail over
 }
 
 export interface OCRProcessingResult {
   success: boolean;
   extractedText?: string;
   confidence?: number;
+  pages?: OCRPageResult[];
+  engines?: OCREngineName[];
+  extractedMedications?: ExtractedMedication[];
   error?: string;
   processedAt: Date;
 }
@@ -202,6 +285,9 @@ export interface OCRStatusResponse {
   status: OCRStatus;
   extractedText?: string;
   confidence?: number;
+  pages?: OCRPageResult[];
+  engines?: OCREngineName[];
+  extractedMedications?: ExtractedMedication[];
   error?: string;
   processedAt?: Date;
 }
@@ -286,7 +372,8 @@ export interface ApiError {
 
 // Payment types
 export type PaymentGateway = 'mtn' | 'stripe' | 'paypal';
-export type PaymentStatus = 'succeeded' | 'failed' | 'pending';
+export type PaymentStatus = 'succeeded' | 'failed' | 'pending' | 'expired' | 'refunded' | 'partially_refunded';
+export type RefundStatus = 'succeeded' | 'pending' | 'failed';
 
 export interface Payment {
   paymentId: string;
@@ -297,10 +384,31 @@ export interface Payment {
   transactionId: string;
   status: PaymentStatus;
   receiptDetails: object; // For facture normalisée data
+  expiresAt?: Date; // Pending requests the customer must approve, e.g. MTN MoMo request-to-pay
+  failureReason?: string;
+  refundedAmount?: number; // Running total of refunds that have not failed
   createdAt: Date;
   updatedAt?: Date;
 }
 
+export interface PaymentRefund {
+  refundId: string;
+  paymentId: string;
+  orderId: string;
+  gateway: PaymentGateway;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: RefundStatus; // Mobile money refunds settle asynchronously
+  gatewayRefundId: string;
+  failureReason?: string; // Why the gateway gave up on a refund it had accepted
+  creditNoteId?: string; // Facture d'avoir, issued once the refund has gone through
+  creditNoteNumber?: string;
+  requestedBy?: string;
+  createdAt: Date;
+  updatedAt?: Date; // When a pending refund settled
+}
+
 export interface PaymentNotification {
   orderId: string;
   status: PrescriptionOrderStatus;
@@ -324,15 +432,38 @@ export * from './paymentLink.types';
 // Re-export delivery tracking types
 export * from './deliveryTracking.types';
 
+// Re-export order status state machine
+export * from './orderStatus.types';
+export * from './orderLineItem.types';
+export * from './refill.types';
+
+// Re-export shared caregiving types
+export * from './profileMembership.types';
+
+// Re-export pharmacist clarification thread types
+export * from './orderClarification.types';
+
+// Re-export rejection reasons and resubmission types
+export * from './orderResubmission.types';
+
 // Order History types
 export interface OrderHistoryItem {
   orderId: string;
   status: PrescriptionOrderStatus;
   medicationDetails?: MedicationDetails;
+  lineItems?: OrderLineItem[];
   cost?: number;
   createdAt: Date;
   deliveredAt?: Date;
   hasReceipt: boolean;
+  paymentStatus?: PaymentStatus;
+  refundedAmount?: number;
+  refillOfOrderId?: string;
+  refill?: RefillEligibility; // Absent when the prescription never allowed refills
+  resubmissionOfOrderId?: string;
+  versionNumber?: number;
+  resubmittedAsOrderId?: string;
+  rejection?: OrderRejectionSummary; // Set on rejected orders
 }
 
 export interface OrderHistoryResponse {
@@ -361,8 +492,13 @@ export interface PatientProfile {
     smsPhoneNumber?: string;
     emailAddress?: string;
   };
+  // Checked against every new prescription, see ScreeningFinding
+  allergies?: string[]; // e.g. "Penicillin", "Sulfa drugs"
+  chronicConditions?: string[]; // e.g. "Asthma", "Pregnancy"
   createdAt: Date;
   updatedAt?: Date;
+  archivedAt?: Date; // Set when deleted; the profile is kept for its order history
+  membershipRole?: ProfileMembershipRole; // The requesting user's role, set when listing their profiles
 }
 
 export interface CreateProfileRequest {
@@ -372,6 +508,8 @@ export interface CreateProfileRequest {
     provider: string;
     policyNumber: string;
   };
+  allergies?: string[];
+  chronicConditions?: string[];
 }
 
 export interface UpdateProfileRequest {
@@ -381,6 +519,8 @@ export interface UpdateProfileRequest {
     provider: string;
     policyNumber: string;
   };
+  allergies?: string[]; // Replaces the whole list; send [] to clear it
+  chronicConditions?: string[];
 }
 
 export interface ProfileManagementResponse {
@@ -388,11 +528,27 @@ export interface ProfileManagementResponse {
   activeProfileId?: string;
 }
 
+export interface SetActiveProfileRequest {
+  profileId: string;
+}
+
 export interface ProfileValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+
+const validateMedicalHistory = (input: Pick<CreateProfileRequest, 'allergies' | 'chronicConditions'>, errors: string[]): void => {
+  if (input.allergies !== undefined && !isStringList(input.allergies)) {
+    errors.push('allergies must be a list of non-empty strings');
+  }
+  if (input.chronicConditions !== undefined && !isStringList(input.chronicConditions)) {
+    errors.push('chronicConditions must be a list of non-empty strings');
+  }
+};
+
 export const validateCreateProfileRequest = (input: CreateProfileRequest): ProfileValidationResult => {
   const errors: string[] = [];
 
@@ -423,6 +579,8 @@ export const validateCreateProfileRequest = (input: CreateProfileRequest): Profi
     }
   }
 
+  validateMedicalHistory(input, errors);
+
   return {
     isValid: errors.length === 0,
     errors
@@ -432,6 +590,10 @@ export const validateCreateProfileRequest = (input: CreateProfileRequest): Profi
 export const validateUpdateProfileRequest = (input: UpdateProfileRequest): ProfileValidationResult => {
   const errors: string[] = [];
 
+  if (input.patientName !== undefined && (typeof input.patientName !== 'string' || input.patientName.trim() === '')) {
+    errors.push('patientName must be a non-empty string when provided');
+  }
+
   // Validate date of birth format if provided
   if (input.dateOfBirth) {
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -455,6 +617,8 @@ export const validateUpdateProfileRequest = (input: UpdateProfileRequest): Profi
     }
   }
 
+  validateMedicalHistory(input, errors);
+
   return {
     isValid: errors.length === 0,
     errors
@@ -462,10 +626,22 @@ export const validateUpdateProfileRequest = (input: UpdateProfileRequest): Profi
 };
 
 // Doctor Prescription Types
+// Where a doctor's prescription stands, following the pharmacy order created for it
+export type DoctorPrescriptionStatus =
+  | 'submitted' // Waiting for the pharmacy, can still be amended or cancelled
+  | 'processed' // Approved and priced by the pharmacist
+  | 'paid'
+  | 'delivered'
+  | 'rejected'
+  | 'cancelled';
+
 export interface DoctorPrescriptionSubmission {
   prescriptionId: string;
   doctorUid: string;
   patientProfileId: string;
+  patientName?: string;
+  orderId?: string; // Prescription order created for the pharmacy
+  orderStatus?: PrescriptionOrderStatus; // Filled in when reading the doctor's history
   medicationDetails: {
     name: string;
     dosage: string;
@@ -475,8 +651,13 @@ export interface DoctorPrescriptionSubmission {
     refillsRemaining: number;
   };
   prescriptionNotes?: string;
+  screeningFindings?: ScreeningFinding[]; // Found when the prescription was submitted
+  interactionOverrideNote?: string; // Why the doctor prescribed over a major finding
   submittedAt: Date;
-  status: 'submitted' | 'processed' | 'delivered';
+  amendedAt?: Date;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  status: DoctorPrescriptionStatus;
 }
 
 export interface PatientSearchResult {
@@ -533,6 +714,17 @@ export interface CreateDoctorPrescriptionInput {
     refillsAuthorized: number;
   };
   prescriptionNotes?: string;
+  interactionOverrideNote?: string; // Required when screening finds a major interaction or allergy
+}
+
+export interface UpdateDoctorPrescriptionInput {
+  medicationDetails: CreateDoctorPrescriptionInput['medicationDetails'];
+  prescriptionNotes?: string;
+}
+
+export interface DoctorPrescriptionHistoryFilters {
+  status?: DoctorPrescriptionStatus;
+  patientProfileId?: string;
 }
 
 export interface DoctorPrescriptionHistoryResponse {
@@ -546,4 +738,10 @@ export interface DoctorPrescriptionHistoryResponse {
 }
 
 // Re-export inventory types
-export * from './inventory.types'; 
\ No newline at end of file
+export * from './inventory.types';
+
+// Re-export background job types
+export * from './backgroundJob.types';
+
+// Re-export medication screening types
+export * from './medicationScreening.types'; 
\ No newline at end of file
@@ -69,6 +69,8 @@ export interface InventoryQueryResponse {
   totalCount: number;
   pharmacies: PharmacyLocation[];
   queryTime: Date;
+  dataAsOf?: Date; // When the oldest snapshot in the answer was synced
+  stalePharmacyIds?: string[]; // Pharmacies whose snapshot is overdue for a sync, or missing
 }
 
 export interface InventorySyncRequest {
@@ -80,16 +82,37 @@ export interface InventorySyncResponse {
   success: boolean;
   syncedPharmacies: string[];
   failedPharmacies: string[];
+  skippedPharmacies?: string[]; // Snapshot still fresh, or circuit open
   syncTime: Date;
   message?: string;
 }
 
+/**
+ * closed: calls go through. open: the pharmacy failed repeatedly and is not called.
+ * half_open: the reset timeout has passed and the next call is a trial.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
 export interface PharmacyHealthStatus {
   pharmacyId: string;
   isHealthy: boolean;
   lastCheck: Date;
   responseTime: number;
   errorMessage?: string;
+  circuitState?: CircuitState;
+  consecutiveFailures?: number;
+  lastSyncAt?: Date; // When the inventory snapshot was last refreshed
+}
+
+/**
+ * A pharmacy's inventory and locations as of its last successful sync.
+ * Inventory queries are answered from these instead of calling the pharmacy.
+ */
+export interface InventorySnapshot {
+  pharmacyId: string;
+  items: InventoryItem[];
+  locations: PharmacyLocation[];
+  syncedAt: Date;
 }
 
 export interface InventoryHealthResponse {
@@ -111,6 +134,66 @@ export enum PharmacyIntegrationType {
   GRAPHQL_API = 'graphql_api'
 }
 
+/**
+ * How credentials are sent to a pharmacy API:
+ * - api_key: X-API-Key / X-API-Secret headers
+ * - bearer: Authorization: Bearer <apiKey>
+ * - basic: Authorization: Basic with apiKey as user and apiSecret as password
+ * - ws_security: WS-Security UsernameToken in the SOAP header (SOAP only)
+ */
+export type PharmacyAuthType = 'none' | 'api_key' | 'bearer' | 'basic' | 'ws_security';
+
+export type InventoryItemField = Exclude<keyof InventoryItem, 'pharmacyId'>;
+
+export type PharmacyLocationField =
+  | 'pharmacyId'
+  | 'name'
+  | 'address.street'
+  | 'address.city'
+  | 'address.state'
+  | 'address.postalCode'
+  | 'address.country'
+  | 'coordinates.latitude'
+  | 'coordinates.longitude'
+  | 'contactInfo.phone'
+  | 'contactInfo.email'
+  | 'operatingHours.open'
+  | 'operatingHours.close'
+  | 'operatingHours.daysOpen'
+  | 'lastInventorySync'
+  | 'isActive';
+
+/**
+ * Where each of our fields is found in a partner's records, as a dotted path such as
+ * 'Stock.Quantity'. Fields left out are read from the adapter's default path.
+ */
+export interface PharmacyFieldMappings {
+  inventoryItem?: Partial<Record<InventoryItemField, string>>;
+  location?: Partial<Record<PharmacyLocationField, string>>;
+}
+
+export interface SoapIntegrationOptions {
+  namespace: string; // Target namespace of the service's operations
+  soapVersion?: '1.1' | '1.2'; // Defaults to 1.1
+  operations?: {
+    queryInventory?: string; // Defaults to GetInventory
+    getLocations?: string; // Defaults to GetLocations
+    healthCheck?: string; // Defaults to Ping
+    syncInventory?: string; // Defaults to SyncInventory
+  };
+  itemsPath?: string; // Path to the items in the operation's result. Defaults to Items.Item
+  locationsPath?: string; // Defaults to Locations.Location
+}
+
+export interface GraphQLIntegrationOptions {
+  inventoryQuery?: string; // Receives a $filter variable
+  locationsQuery?: string;
+  syncMutation?: string;
+  itemsPath?: string; // Path to the items in the response data. Defaults to inventory
+  locationsPath?: string; // Defaults to locations
+  syncPath?: string; // Defaults to syncInventory
+}
+
 export interface PharmacyConfig {
   pharmacyId: string;
   name: string;
@@ -118,8 +201,12 @@ export interface PharmacyConfig {
   apiEndpoint: string;
   apiKey?: string;
   apiSecret?: string;
+  authType?: PharmacyAuthType; // Defaults to ws_security for SOAP, bearer for GraphQL and api_key otherwise
   timeoutMs: number;
   retryAttempts: number;
   isActive: boolean;
   syncIntervalMinutes: number;
+  fieldMappings?: PharmacyFieldMappings;
+  soap?: SoapIntegrationOptions;
+  graphql?: GraphQLIntegrationOptions;
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { ScreeningFinding, requiresInteractionOverride, sortFindingsBySeverity } from './medicationScreening.types';
+
+const finding = (severity: ScreeningFinding['severity'], conflictsWith: string): ScreeningFinding => ({
+  type: 'interaction',
+  severity,
+  medication: 'Ibuprofen',
+  conflictsWith,
+  description: 'Test finding'
+});
+
+describe('Medication screening', () => {
+  it('should order findings most severe first, keeping ties in place', () => {
+    const sorted = sortFindingsBySeverity([
+      finding('minor', 'Captopril'),
+      finding('major', 'Diclofenac'),
+      finding('moderate', 'Prednisolone'),
+      finding('major', 'Asthma')
+    ]);
+
+    expect(sorted.map(item => item.conflictsWith)).toEqual(['Diclofenac', 'Asthma', 'Prednisolone', 'Captopril']);
+  });
+
+  it('should only require an override for major findings', () => {
+    expect(requiresInteractionOverride([finding('moderate', 'Prednisolone'), finding('minor', 'Captopril')])).toBe(false);
+    expect(requiresInteractionOverride([finding('major', 'Diclofenac')])).toBe(true);
+    expect(requiresInteractionOverride(undefined)).toBe(false);
+  });
+});
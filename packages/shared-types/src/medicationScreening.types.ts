@@ -0,0 +1,35 @@
+// 'major' findings block approval until the reviewer records an override note
+export type ScreeningSeverity = 'minor' | 'moderate' | 'major';
+
+export type ScreeningFindingType =
+  | 'interaction' // With another medication on this prescription or an active order
+  | 'allergy'
+  | 'condition'; // A chronic condition the medication should be used with care in
+
+export interface ScreeningFinding {
+  type: ScreeningFindingType;
+  severity: ScreeningSeverity;
+  medication: string; // The medication being screened, as written on the prescription
+  conflictsWith: string; // The other medication, allergy or condition
+  description: string; // Why it matters, phrased for the pharmacist or doctor
+  otherOrderId?: string; // Set when the other medication is on a different order
+}
+
+export interface MedicationScreeningResult {
+  findings: ScreeningFinding[]; // Most severe first
+  screenedAt: Date;
+}
+
+export const SCREENING_SEVERITY_RANK: Record<ScreeningSeverity, number> = { minor: 0, moderate: 1, major: 2 };
+
+/**
+ * Findings ordered most severe first, keeping the original order within a tier
+ */
+export const sortFindingsBySeverity = (findings: ScreeningFinding[]): ScreeningFinding[] =>
+  [...findings].sort((a, b) => SCREENING_SEVERITY_RANK[b.severity] - SCREENING_SEVERITY_RANK[a.severity]);
+
+/**
+ * Whether going ahead needs an override note: any major finding does
+ */
+export const requiresInteractionOverride = (findings: ScreeningFinding[] = []): boolean =>
+  findings.some(finding => finding.severity === 'major');
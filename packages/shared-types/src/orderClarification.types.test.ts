@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { CLARIFICATION_MESSAGE_MAX_LENGTH, validateClarificationMessage } from './orderClarification.types';
+
+describe('Clarification message validation', () => {
+  it('should accept text, a photo, or both', () => {
+    expect(validateClarificationMessage({ text: 'The dosage is 500mg twice a day' })).toEqual([]);
+    expect(validateClarificationMessage({ imageUrl: 'https://storage.example.com/rx-page-2.jpg' })).toEqual([]);
+    expect(validateClarificationMessage({ text: 'Clearer photo', imageUrl: 'gs://pharmarx-prescriptions/prescriptions/uid-1/rx.jpg' })).toEqual([]);
+  });
+
+  it('should reject empty messages', () => {
+    expect(validateClarificationMessage({ text: '   ' })).toEqual(['A message needs text or a photo']);
+    expect(validateClarificationMessage({})).toEqual(['A message needs text or a photo']);
+  });
+
+  it('should reject photos that were not uploaded', () => {
+    expect(validateClarificationMessage({ imageUrl: 'file:///tmp/rx.jpg' })).toEqual(['imageUrl must be an uploaded photo or an http(s) URL']);
+  });
+
+  it('should limit the length of a message', () => {
+    expect(validateClarificationMessage({ text: 'a'.repeat(CLARIFICATION_MESSAGE_MAX_LENGTH + 1) }))
+      .toEqual([`text must be at most ${CLARIFICATION_MESSAGE_MAX_LENGTH} characters`]);
+  });
+});
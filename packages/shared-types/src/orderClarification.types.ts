@@ -0,0 +1,65 @@
+// Where a clarification message was written. Patients and caregivers can reply from the
+// web app or straight from the SMS or WhatsApp message that asked the question.
+export type ClarificationChannel = 'web' | 'sms' | 'whatsapp';
+
+// Channels the pharmacist's questions are sent on
+export type ClarificationNotificationChannel = Exclude<ClarificationChannel, 'web'>;
+
+// 'patient' also covers caregivers and members the profile is shared with
+export type ClarificationAuthorRole = 'pharmacist' | 'patient';
+
+export const CLARIFICATION_MESSAGE_MAX_LENGTH = 1000;
+
+// Stored in the `orderClarificationMessages` collection, one document per message
+export interface OrderClarificationMessage {
+  messageId: string;
+  orderId: string;
+  authorRole: ClarificationAuthorRole;
+  authorUid?: string; // Not known for replies by SMS or WhatsApp
+  authorName?: string;
+  channel: ClarificationChannel;
+  text?: string;
+  imageUrl?: string; // An extra photo of the prescription; signed for reading like order images
+  createdAt: Date;
+}
+
+// Kept on the order while it waits in needs_clarification, and afterwards as a record
+export interface OrderClarification {
+  requestedBy: string; // uid of the pharmacist who asked
+  requestedAt: Date;
+  notificationChannel: ClarificationNotificationChannel;
+  recipientPhone?: string; // E.164; inbound SMS and WhatsApp replies are matched to the order by it
+  awaitingReplyFrom: ClarificationAuthorRole;
+  lastMessageAt: Date;
+  resolvedAt?: Date; // When the pharmacist approved or rejected the order from the thread
+}
+
+export interface RequestClarificationRequest {
+  message: string;
+  notificationChannel?: ClarificationNotificationChannel; // Defaults to sms
+}
+
+export interface PostClarificationMessageRequest {
+  text?: string;
+  imageUrl?: string; // The stored path returned by /uploads/prescription, or a media URL from Twilio
+}
+
+export const validateClarificationMessage = (input: PostClarificationMessageRequest): string[] => {
+  const errors: string[] = [];
+  const text = typeof input.text === 'string' ? input.text.trim() : '';
+
+  if (input.text !== undefined && typeof input.text !== 'string') {
+    errors.push('text must be a string');
+  }
+  if (input.imageUrl !== undefined && (typeof input.imageUrl !== 'string' || !/^(https?|gs):\/\//.test(input.imageUrl))) {
+    errors.push('imageUrl must be an uploaded photo or an http(s) URL');
+  }
+  if (!text && !input.imageUrl) {
+    errors.push('A message needs text or a photo');
+  }
+  if (text.length > CLARIFICATION_MESSAGE_MAX_LENGTH) {
+    errors.push(`text must be at most ${CLARIFICATION_MESSAGE_MAX_LENGTH} characters`);
+  }
+
+  return errors;
+};
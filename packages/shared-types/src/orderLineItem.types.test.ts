@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OrderLineItem,
+  calculateOrderTotal,
+  createLineItem,
+  getDispensedDetails,
+  getOrderLineItems
+} from './orderLineItem.types';
+
+const amoxicillin = { name: 'Amoxicillin', dosage: '500mg', quantity: 21 };
+
+describe('Order line items', () => {
+  it('should read a legacy single-medication order as one line item', () => {
+    const items = getOrderLineItems({ medicationDetails: amoxicillin });
+
+    expect(items).toEqual([
+      { lineItemId: 'item-1', ...amoxicillin, availability: 'unknown', substitution: { status: 'none' } }
+    ]);
+    expect(getOrderLineItems({})).toEqual([]);
+  });
+
+  it('should prefer stored line items over the legacy field', () => {
+    const lineItems = [createLineItem(amoxicillin, 0), createLineItem({ name: 'Paracetamol', dosage: '1g', quantity: 2 }, 1)];
+
+    expect(getOrderLineItems({ lineItems, medicationDetails: amoxicillin })).toBe(lineItems);
+    expect(lineItems[1].lineItemId).toBe('item-2');
+  });
+
+  it('should dispense an accepted substitute, otherwise the edited original', () => {
+    const item: OrderLineItem = {
+      ...createLineItem(amoxicillin, 0),
+      pharmacistEdits: { quantity: 14 },
+      substitution: { status: 'proposed', substitute: { name: 'Clamoxyl', dosage: '500mg', quantity: 14 } }
+    };
+
+    expect(getDispensedDetails(item)).toEqual({ name: 'Amoxicillin', dosage: '500mg', quantity: 14 });
+    expect(getDispensedDetails({ ...item, substitution: { ...item.substitution, status: 'accepted' } }).name).toBe('Clamoxyl');
+  });
+
+  it('should leave out-of-stock lines out of the total unless substituted', () => {
+    const items: OrderLineItem[] = [
+      { ...createLineItem(amoxicillin, 0), lineTotal: 1050.5, availability: 'in_stock' },
+      { ...createLineItem(amoxicillin, 1), lineTotal: 2000, availability: 'out_of_stock' },
+      { ...createLineItem(amoxicillin, 2), lineTotal: 300, availability: 'out_of_stock', substitution: { status: 'accepted' } }
+    ];
+
+    expect(calculateOrderTotal(items)).toBe(1350.5);
+  });
+});
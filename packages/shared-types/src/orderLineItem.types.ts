@@ -0,0 +1,70 @@
+import type { MedicationDetails, PrescriptionOrder } from './index';
+
+export type LineItemAvailability = 'unknown' | 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export type LineItemSubstitutionStatus = 'none' | 'proposed' | 'accepted' | 'declined';
+
+export interface LineItemSubstitution {
+  status: LineItemSubstitutionStatus;
+  substitute?: MedicationDetails; // The replacement the pharmacist proposed
+  reason?: string;
+}
+
+// One medication on a prescription order
+export interface OrderLineItem extends MedicationDetails {
+  lineItemId: string;
+  pharmacistEdits?: Partial<MedicationDetails>; // Corrections to what the patient or OCR supplied
+  unitPrice?: number; // Set by the pharmacist, tax included
+  lineTotal?: number; // unitPrice x dispensed quantity
+  availability: LineItemAvailability;
+  substitution: LineItemSubstitution;
+}
+
+export const createLineItem = (details: MedicationDetails, index: number): OrderLineItem => ({
+  lineItemId: `item-${index + 1}`,
+  name: details.name,
+  dosage: details.dosage,
+  quantity: details.quantity,
+  availability: 'unknown',
+  substitution: { status: 'none' }
+});
+
+/**
+ * Line items for an order. Orders created before line items existed only carry a
+ * single medicationDetails, which is read as a one-item order.
+ */
+export const getOrderLineItems = (order: Pick<PrescriptionOrder, 'lineItems' | 'medicationDetails'>): OrderLineItem[] => {
+  if (order.lineItems && order.lineItems.length > 0) {
+    return order.lineItems;
+  }
+  return order.medicationDetails ? [createLineItem(order.medicationDetails, 0)] : [];
+};
+
+/**
+ * What will actually be dispensed for a line: an accepted substitute, otherwise the
+ * original medication with any pharmacist edits applied.
+ */
+export const getDispensedDetails = (item: OrderLineItem): MedicationDetails => {
+  if (item.substitution.status === 'accepted' && item.substitution.substitute) {
+    return item.substitution.substitute;
+  }
+  return {
+    name: item.pharmacistEdits?.name ?? item.name,
+    dosage: item.pharmacistEdits?.dosage ?? item.dosage,
+    quantity: item.pharmacistEdits?.quantity ?? item.quantity
+  };
+};
+
+// Out-of-stock lines are not charged unless a substitute was accepted
+export const isLineItemBillable = (item: OrderLineItem): boolean =>
+  item.availability !== 'out_of_stock' || item.substitution.status === 'accepted';
+
+export const calculateLineTotal = (unitPrice: number, quantity: number): number =>
+  Math.round(unitPrice * quantity * 100) / 100;
+
+export const calculateOrderTotal = (items: OrderLineItem[]): number =>
+  Math.round(
+    items
+      .filter(isLineItemBillable)
+      .reduce((total, item) => total + (item.lineTotal ?? 0), 0) * 100
+  ) / 100;
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REJECTION_REASONS,
+  RESUBMISSION_NOTE_MAX_LENGTH,
+  getOrderRejectionSummary,
+  getResubmissionEligibility,
+  isRejectionReasonCode,
+  validateResubmitOrderRequest
+} from './orderResubmission.types';
+
+const rejectedOrder = (overrides: Record<string, unknown> = {}) => ({
+  status: 'rejected' as const,
+  pharmacistReview: {
+    reviewedBy: 'pharmacist-1',
+    reviewedAt: new Date('2025-01-15T09:00:00Z'),
+    approved: false,
+    rejectionReason: 'Illegible prescription',
+    rejectionReasonCode: 'illegible' as const
+  },
+  ...overrides
+});
+
+describe('Rejection reasons', () => {
+  it('should recognise the reason codes', () => {
+    expect(isRejectionReasonCode('missing_signature')).toBe(true);
+    expect(isRejectionReasonCode('Illegible prescription')).toBe(false);
+    expect(isRejectionReasonCode(undefined)).toBe(false);
+  });
+});
+
+describe('Resubmission eligibility', () => {
+  it('should allow a rejected order to be fixed once', () => {
+    expect(getResubmissionEligibility(rejectedOrder())).toEqual({ eligible: true });
+    expect(getResubmissionEligibility(rejectedOrder({ resubmittedAsOrderId: 'order-2' }))).toMatchObject({
+      eligible: false,
+      reason: 'already_resubmitted'
+    });
+  });
+
+  it('should only allow rejected orders', () => {
+    expect(getResubmissionEligibility(rejectedOrder({ status: 'awaiting_verification' }))).toMatchObject({
+      eligible: false,
+      reason: 'not_rejected'
+    });
+  });
+
+  it('should refuse reasons the patient cannot fix', () => {
+    const order = rejectedOrder({
+      pharmacistReview: { ...rejectedOrder().pharmacistReview, rejectionReasonCode: 'drug_interaction' }
+    });
+
+    expect(getResubmissionEligibility(order)).toEqual({
+      eligible: false,
+      reason: 'not_resubmittable',
+      message: REJECTION_REASONS.drug_interaction.patientGuidance
+    });
+  });
+
+  it('should treat orders rejected without a code as other', () => {
+    const order = rejectedOrder({ pharmacistReview: { ...rejectedOrder().pharmacistReview, rejectionReasonCode: undefined } });
+
+    expect(getOrderRejectionSummary(order)).toMatchObject({
+      reasonCode: 'other',
+      reason: 'Illegible prescription',
+      resubmission: { eligible: true }
+    });
+    expect(getOrderRejectionSummary(rejectedOrder({ status: 'delivered' }))).toBeUndefined();
+  });
+});
+
+describe('Resubmit request validation', () => {
+  it('should accept new photos, corrected details, or both', () => {
+    expect(validateResubmitOrderRequest({ imageUrls: ['gs://pharmarx-prescriptions/prescriptions/uid-1/rx.jpg'] })).toEqual([]);
+    expect(validateResubmitOrderRequest({ medications: [{ name: 'Amoxicillin', dosage: '500mg', quantity: 21 }] })).toEqual([]);
+  });
+
+  it('should require something to change', () => {
+    expect(validateResubmitOrderRequest({ note: 'Please look again' }))
+      .toEqual(['Attach a new photo or correct the medication details']);
+  });
+
+  it('should reject incomplete medications and long notes', () => {
+    expect(validateResubmitOrderRequest({
+      medications: [{ name: 'Amoxicillin', dosage: '', quantity: 21 }],
+      note: 'a'.repeat(RESUBMISSION_NOTE_MAX_LENGTH + 1)
+    })).toEqual([
+      'Every medication needs a name, dosage and quantity',
+      `note must be at most ${RESUBMISSION_NOTE_MAX_LENGTH} characters`
+    ]);
+  });
+});
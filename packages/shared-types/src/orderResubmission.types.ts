@@ -0,0 +1,186 @@
+import type { MedicationDetails, PrescriptionOrder } from './index';
+
+// Why a pharmacist rejected an order. The free-text rejectionReason is kept alongside
+// for older orders and for the pharmacist's own wording.
+export type RejectionReasonCode =
+  | 'illegible'
+  | 'incomplete_information'
+  | 'unclear_dosage'
+  | 'missing_signature'
+  | 'expired_prescription'
+  | 'patient_mismatch'
+  | 'invalid_format'
+  | 'drug_interaction'
+  | 'insurance_coverage'
+  | 'out_of_stock'
+  | 'other';
+
+export interface RejectionReasonInfo {
+  label: string; // Shown to the pharmacist and stored as the rejectionReason text
+  patientGuidance: string; // What the patient can do about it
+  resubmittable: boolean; // Whether the patient can fix the order and send it back
+}
+
+export const REJECTION_REASONS: Record<RejectionReasonCode, RejectionReasonInfo> = {
+  illegible: {
+    label: 'Illegible prescription',
+    patientGuidance: 'Take a new photo in good light, with the whole prescription flat and in focus.',
+    resubmittable: true
+  },
+  incomplete_information: {
+    label: 'Incomplete medication information',
+    patientGuidance: 'Add the missing medication name, strength or quantity, or a photo of the missing page.',
+    resubmittable: true
+  },
+  unclear_dosage: {
+    label: 'Unclear dosage instructions',
+    patientGuidance: 'Correct the dosage, or attach a photo where the dosage can be read.',
+    resubmittable: true
+  },
+  missing_signature: {
+    label: 'Missing prescriber signature',
+    patientGuidance: 'Ask your doctor to sign the prescription, then upload a photo of the signed copy.',
+    resubmittable: true
+  },
+  expired_prescription: {
+    label: 'Expired prescription',
+    patientGuidance: 'Ask your doctor for a new prescription, then upload a photo of it.',
+    resubmittable: true
+  },
+  patient_mismatch: {
+    label: 'Patient information mismatch',
+    patientGuidance: 'Check that the prescription is for this profile, and upload the right one if not.',
+    resubmittable: true
+  },
+  invalid_format: {
+    label: 'Invalid prescription format',
+    patientGuidance: 'Upload a photo of the original paper prescription rather than a copy or a screenshot.',
+    resubmittable: true
+  },
+  drug_interaction: {
+    label: 'Drug interaction concerns',
+    patientGuidance: 'Please speak to your doctor before ordering this medication again.',
+    resubmittable: false
+  },
+  insurance_coverage: {
+    label: 'Insurance coverage issues',
+    patientGuidance: 'Update the insurance details on your profile, then send the order again.',
+    resubmittable: true
+  },
+  out_of_stock: {
+    label: 'Medication out of stock',
+    patientGuidance: 'Send the order again to have it offered to another pharmacy.',
+    resubmittable: true
+  },
+  other: {
+    label: 'Other',
+    patientGuidance: "Read the pharmacist's note, then fix the order and send it again.",
+    resubmittable: true
+  }
+};
+
+export const REJECTION_REASON_CODES = Object.keys(REJECTION_REASONS) as RejectionReasonCode[];
+
+export const isRejectionReasonCode = (value: unknown): value is RejectionReasonCode =>
+  typeof value === 'string' && REJECTION_REASON_CODES.includes(value as RejectionReasonCode);
+
+// Orders rejected before reason codes existed are treated as 'other'
+export const getRejectionReasonCode = (order: Pick<PrescriptionOrder, 'pharmacistReview'>): RejectionReasonCode =>
+  order.pharmacistReview?.rejectionReasonCode ?? 'other';
+
+export const RESUBMISSION_NOTE_MAX_LENGTH = 1000;
+
+export interface ResubmitOrderRequest {
+  imageUrls?: string[]; // New photos, first page first; the previous version's photos are kept when omitted
+  medications?: MedicationDetails[]; // Corrected details; the previous version's are kept when omitted
+  note?: string; // For the pharmacist
+}
+
+export const validateResubmitOrderRequest = (input: ResubmitOrderRequest): string[] => {
+  const errors: string[] = [];
+  const imageUrls = input.imageUrls ?? [];
+  const medications = input.medications ?? [];
+
+  if (input.imageUrls !== undefined && !Array.isArray(input.imageUrls)) {
+    errors.push('imageUrls must be a list');
+  }
+  if (input.medications !== undefined && !Array.isArray(input.medications)) {
+    errors.push('medications must be a list');
+  }
+  if (Array.isArray(imageUrls) && imageUrls.some(url => typeof url !== 'string' || !url)) {
+    errors.push('imageUrls must only contain uploaded photos');
+  }
+  if (Array.isArray(medications) && medications.some(medication =>
+    !medication || !medication.name || !medication.dosage || !(medication.quantity > 0)
+  )) {
+    errors.push('Every medication needs a name, dosage and quantity');
+  }
+  if (input.note !== undefined && typeof input.note !== 'string') {
+    errors.push('note must be a string');
+  }
+  if (typeof input.note === 'string' && input.note.trim().length > RESUBMISSION_NOTE_MAX_LENGTH) {
+    errors.push(`note must be at most ${RESUBMISSION_NOTE_MAX_LENGTH} characters`);
+  }
+  if (errors.length === 0 && imageUrls.length === 0 && medications.length === 0) {
+    errors.push('Attach a new photo or correct the medication details');
+  }
+
+  return errors;
+};
+
+export type ResubmissionIneligibilityReason = 'not_rejected' | 'already_resubmitted' | 'not_resubmittable';
+
+export interface ResubmissionEligibility {
+  eligible: boolean;
+  reason?: ResubmissionIneligibilityReason;
+  message?: string;
+}
+
+export type ResubmissionSourceOrder = Pick<PrescriptionOrder, 'status' | 'pharmacistReview' | 'resubmittedAsOrderId'>;
+
+/**
+ * Whether the patient can fix a rejected order and send it back. Each order can be
+ * resubmitted once; later fixes are made from the newest version.
+ */
+export const getResubmissionEligibility = (order: ResubmissionSourceOrder): ResubmissionEligibility => {
+  if (order.status !== 'rejected') {
+    return { eligible: false, reason: 'not_rejected', message: 'Only rejected orders can be resubmitted' };
+  }
+
+  if (order.resubmittedAsOrderId) {
+    return { eligible: false, reason: 'already_resubmitted', message: 'This order has already been resubmitted' };
+  }
+
+  const reason = REJECTION_REASONS[getRejectionReasonCode(order)];
+  if (!reason.resubmittable) {
+    return { eligible: false, reason: 'not_resubmittable', message: reason.patientGuidance };
+  }
+
+  return { eligible: true };
+};
+
+// Shown on a rejected order in the patient's order history
+export interface OrderRejectionSummary {
+  reasonCode: RejectionReasonCode;
+  reason: string; // The pharmacist's wording, or the label of the code
+  patientGuidance: string;
+  pharmacistNotes?: string;
+  resubmission: ResubmissionEligibility;
+}
+
+export const getOrderRejectionSummary = (
+  order: ResubmissionSourceOrder
+): OrderRejectionSummary | undefined => {
+  if (order.status !== 'rejected') {
+    return undefined;
+  }
+
+  const reasonCode = getRejectionReasonCode(order);
+  return {
+    reasonCode,
+    reason: order.pharmacistReview?.rejectionReason || REJECTION_REASONS[reasonCode].label,
+    patientGuidance: REJECTION_REASONS[reasonCode].patientGuidance,
+    pharmacistNotes: order.pharmacistReview?.pharmacistNotes,
+    resubmission: getResubmissionEligibility(order)
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  getAllowedNextStatuses,
+  validateOrderStatusTransition
+} from './orderStatus.types';
+
+describe('Order status state machine', () => {
+  it('should allow a pharmacist to approve an order awaiting verification', () => {
+    const result = validateOrderStatusTransition('awaiting_verification', 'awaiting_payment', 'pharmacist');
+    expect(result.allowed).toBe(true);
+    expect(result.rule?.description).toBe('Pharmacist approved and priced the prescription');
+  });
+
+  it('should reject transitions that are not in the table', () => {
+    const result = validateOrderStatusTransition('rejected', 'delivered', 'pharmacist');
+    expect(result.allowed).toBe(false);
+    expect(result.error).toBe('Cannot move order from rejected to delivered');
+  });
+
+  it('should reject actors that may not perform a legal transition', () => {
+    const result = validateOrderStatusTransition('awaiting_verification', 'awaiting_payment', 'patient');
+    expect(result.allowed).toBe(false);
+    expect(result.error).toBe('patient is not allowed to move order from awaiting_verification to awaiting_payment');
+  });
+
+  it('should list the next statuses available to an actor', () => {
+    expect(getAllowedNextStatuses('awaiting_payment', 'system')).toEqual(['preparing']);
+    expect(getAllowedNextStatuses('awaiting_payment')).toEqual(['preparing', 'rejected']);
+    expect(getAllowedNextStatuses('delivered')).toEqual([]);
+  });
+
+  it('should let couriers pick up and deliver but not price orders', () => {
+    expect(getAllowedNextStatuses('preparing', 'courier')).toEqual(['out_for_delivery']);
+    expect(getAllowedNextStatuses('ready', 'courier')).toEqual(['out_for_delivery']);
+    expect(getAllowedNextStatuses('out_for_delivery', 'courier')).toEqual(['delivered']);
+    expect(getAllowedNextStatuses('awaiting_verification', 'courier')).toEqual([]);
+  });
+
+  it('should let only the pharmacist mark an order ready for pickup', () => {
+    expect(getAllowedNextStatuses('preparing', 'pharmacist')).toEqual(['ready', 'out_for_delivery']);
+    expect(validateOrderStatusTransition('preparing', 'ready', 'courier').allowed).toBe(false);
+  });
+
+  it('should let the doctor cancel only before pharmacist review', () => {
+    expect(getAllowedNextStatuses('pending_verification', 'doctor')).toEqual(['cancelled']);
+    expect(getAllowedNextStatuses('awaiting_verification', 'doctor')).toEqual(['cancelled']);
+    expect(validateOrderStatusTransition('awaiting_payment', 'cancelled', 'doctor').allowed).toBe(false);
+    expect(validateOrderStatusTransition('pending_verification', 'cancelled', 'pharmacist').allowed).toBe(false);
+  });
+
+  it('should hold an order for clarification until the pharmacist approves or rejects it', () => {
+    expect(getAllowedNextStatuses('awaiting_verification', 'pharmacist')).toContain('needs_clarification');
+    expect(getAllowedNextStatuses('needs_clarification', 'pharmacist')).toEqual(['awaiting_payment', 'rejected']);
+    expect(getAllowedNextStatuses('needs_clarification', 'patient')).toEqual([]);
+  });
+
+  it('should treat delivered, rejected and cancelled as terminal states', () => {
+    const fromStatuses = ORDER_STATUS_TRANSITIONS.map(rule => rule.from);
+    expect(fromStatuses).not.toContain('delivered');
+    expect(fromStatuses).not.toContain('rejected');
+    expect(fromStatuses).not.toContain('cancelled');
+  });
+});
@@ -0,0 +1,173 @@
+import type { PrescriptionOrderStatus, UserRole } from './index';
+
+// Who can move an order: any user role, or the platform itself (payments, webhooks, jobs)
+export type OrderStatusActor = `${UserRole}` | 'system';
+
+export interface OrderStatusTransitionRule {
+  from: PrescriptionOrderStatus;
+  to: PrescriptionOrderStatus;
+  allowedActors: OrderStatusActor[];
+  description: string;
+}
+
+export interface OrderStatusHistoryEntry {
+  from: PrescriptionOrderStatus | null; // null for the entry written when the order is created
+  to: PrescriptionOrderStatus;
+  actor: OrderStatusActor;
+  changedBy: string; // uid of the user, or 'system'
+  reason: string;
+  changedAt: Date;
+}
+
+export interface OrderStatusTransitionCheck {
+  allowed: boolean;
+  rule?: OrderStatusTransitionRule;
+  error?: string;
+}
+
+// The complete set of legal order status transitions
+export const ORDER_STATUS_TRANSITIONS: OrderStatusTransitionRule[] = [
+  {
+    from: 'pending_verification',
+    to: 'awaiting_verification',
+    allowedActors: ['patient', 'caregiver'],
+    description: 'Patient confirmed the prescription details and sent it for pharmacist review'
+  },
+  {
+    from: 'pending_verification',
+    to: 'awaiting_payment',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist approved and priced a prescription submitted directly by a doctor'
+  },
+  {
+    from: 'pending_verification',
+    to: 'rejected',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist rejected a prescription submitted directly by a doctor'
+  },
+  {
+    from: 'pending_verification',
+    to: 'cancelled',
+    allowedActors: ['doctor'],
+    description: 'Prescribing doctor cancelled the prescription before pharmacist review'
+  },
+  {
+    from: 'awaiting_verification',
+    to: 'awaiting_payment',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist approved and priced the prescription'
+  },
+  {
+    from: 'awaiting_verification',
+    to: 'rejected',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist rejected the prescription'
+  },
+  {
+    from: 'awaiting_verification',
+    to: 'cancelled',
+    allowedActors: ['doctor'],
+    description: 'Prescribing doctor cancelled the prescription before pharmacist review'
+  },
+  {
+    from: 'awaiting_verification',
+    to: 'needs_clarification',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist asked the patient to clarify the prescription'
+  },
+  {
+    from: 'needs_clarification',
+    to: 'awaiting_payment',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist approved and priced the prescription after clarification'
+  },
+  {
+    from: 'needs_clarification',
+    to: 'rejected',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist rejected the prescription after asking for clarification'
+  },
+  {
+    from: 'needs_clarification',
+    to: 'cancelled',
+    allowedActors: ['doctor'],
+    description: 'Prescribing doctor cancelled the prescription while it awaited clarification'
+  },
+  {
+    from: 'awaiting_payment',
+    to: 'preparing',
+    allowedActors: ['system', 'pharmacist'],
+    description: 'Payment confirmed by a gateway, or recorded by the pharmacist at the counter'
+  },
+  {
+    from: 'awaiting_payment',
+    to: 'rejected',
+    allowedActors: ['pharmacist'],
+    description: 'Pharmacist cancelled an unpaid order'
+  },
+  {
+    from: 'preparing',
+    to: 'ready',
+    allowedActors: ['pharmacist'],
+    description: 'Medication prepared and waiting at the counter for the courier'
+  },
+  {
+    from: 'preparing',
+    to: 'out_for_delivery',
+    allowedActors: ['pharmacist', 'courier'],
+    description: 'Medication prepared and handed over for delivery'
+  },
+  {
+    from: 'ready',
+    to: 'out_for_delivery',
+    allowedActors: ['pharmacist', 'courier'],
+    description: 'Prepared medication handed over for delivery'
+  },
+  {
+    from: 'out_for_delivery',
+    to: 'delivered',
+    allowedActors: ['pharmacist', 'courier', 'system'],
+    description: 'Medication delivered to the patient'
+  }
+];
+
+export const getOrderStatusTransition = (
+  from: PrescriptionOrderStatus,
+  to: PrescriptionOrderStatus
+): OrderStatusTransitionRule | undefined => {
+  return ORDER_STATUS_TRANSITIONS.find(rule => rule.from === from && rule.to === to);
+};
+
+export const getAllowedNextStatuses = (
+  from: PrescriptionOrderStatus,
+  actor?: OrderStatusActor
+): PrescriptionOrderStatus[] => {
+  return ORDER_STATUS_TRANSITIONS
+    .filter(rule => rule.from === from && (!actor || rule.allowedActors.includes(actor)))
+    .map(rule => rule.to);
+};
+
+export const validateOrderStatusTransition = (
+  from: PrescriptionOrderStatus,
+  to: PrescriptionOrderStatus,
+  actor: OrderStatusActor
+): OrderStatusTransitionCheck => {
+  const rule = getOrderStatusTransition(from, to);
+
+  if (!rule) {
+    return {
+      allowed: false,
+      error: `Cannot move order from ${from} to ${to}`
+    };
+  }
+
+  if (!rule.allowedActors.includes(actor)) {
+    return {
+      allowed: false,
+      rule,
+      error: `${actor} is not allowed to move order from ${from} to ${to}`
+    };
+  }
+
+  return { allowed: true, rule };
+};
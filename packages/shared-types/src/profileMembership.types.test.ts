@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canPerformProfileAction,
+  getProfileMembershipId,
+  validateCreateProfileInvitationRequest,
+  validateProfileMembershipRequest
+} from './profileMembership.types';
+
+describe('Profile membership permissions', () => {
+  it('should give each role the actions of the roles below it', () => {
+    expect(canPerformProfileAction('owner', 'manage')).toBe(true);
+    expect(canPerformProfileAction('can_order', 'order')).toBe(true);
+    expect(canPerformProfileAction('can_order', 'pay')).toBe(true);
+    expect(canPerformProfileAction('can_order', 'manage')).toBe(false);
+    expect(canPerformProfileAction('can_pay', 'pay')).toBe(true);
+    expect(canPerformProfileAction('can_pay', 'order')).toBe(false);
+    expect(canPerformProfileAction('view_only', 'view')).toBe(true);
+    expect(canPerformProfileAction('view_only', 'pay')).toBe(false);
+  });
+
+  it('should deny everything to non-members', () => {
+    expect(canPerformProfileAction(null, 'view')).toBe(false);
+    expect(canPerformProfileAction(undefined, 'view')).toBe(false);
+  });
+
+  it('should key memberships by profile and user', () => {
+    expect(getProfileMembershipId('profile-1', 'user-1')).toBe('profile-1_user-1');
+  });
+});
+
+describe('Profile invitation validation', () => {
+  it('should accept an invitation by email or phone number', () => {
+    expect(validateCreateProfileInvitationRequest({ role: 'can_pay', email: 'grandma@example.com' })).toEqual([]);
+    expect(validateCreateProfileInvitationRequest({ role: 'view_only', phoneNumber: '+229 97 00 00 00' })).toEqual([]);
+  });
+
+  it('should require a contact', () => {
+    expect(validateCreateProfileInvitationRequest({ role: 'can_order' }))
+      .toEqual(['Either email or phone number must be provided']);
+  });
+
+  it('should not invite new owners', () => {
+    expect(validateProfileMembershipRequest({ role: 'owner' as any })).toEqual(['role must be one of can_order, can_pay, view_only']);
+    expect(validateCreateProfileInvitationRequest({ role: 'owner' as any, email: 'nurse@example.com' }))
+      .toEqual(['role must be one of can_order, can_pay, view_only']);
+  });
+
+  it('should reject malformed contacts', () => {
+    expect(validateCreateProfileInvitationRequest({ role: 'can_pay', email: 'not-an-email' }))
+      .toEqual(['email must be a valid email address']);
+    expect(validateCreateProfileInvitationRequest({ role: 'can_pay', phoneNumber: '12' }))
+      .toEqual(['phoneNumber must be a valid phone number']);
+  });
+});
@@ -0,0 +1,85 @@
+// What a member may do for a shared patient profile. The owner is the profile's managedByUid.
+export type ProfileMembershipRole = 'owner' | 'can_order' | 'can_pay' | 'view_only';
+
+export type ProfileAction = 'view' | 'pay' | 'order' | 'manage';
+
+export const PROFILE_MEMBERSHIP_PERMISSIONS: Record<ProfileMembershipRole, ProfileAction[]> = {
+  owner: ['view', 'pay', 'order', 'manage'],
+  can_order: ['view', 'pay', 'order'],
+  can_pay: ['view', 'pay'],
+  view_only: ['view']
+};
+
+// How long an invitation can be accepted after it was sent
+export const PROFILE_INVITATION_VALIDITY_DAYS = 7;
+
+// Stored in the `profileMemberships` collection, see getProfileMembershipId.
+// Member lists also include the owner, who has no stored membership.
+export interface ProfileMembership {
+  profileId: string;
+  uid: string;
+  role: ProfileMembershipRole;
+  displayName?: string;
+  addedBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type ProfileInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// Stored in the `profileInvitations` collection; matched to the invitee by email or phone number
+export interface ProfileInvitation {
+  invitationId: string;
+  profileId: string;
+  patientName: string;
+  role: Exclude<ProfileMembershipRole, 'owner'>;
+  email?: string;
+  phoneNumber?: string;
+  invitedBy: string;
+  invitedByName?: string;
+  status: ProfileInvitationStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  respondedAt?: Date;
+  acceptedByUid?: string;
+}
+
+export interface CreateProfileInvitationRequest {
+  role: Exclude<ProfileMembershipRole, 'owner'>;
+  email?: string;
+  phoneNumber?: string;
+}
+
+export interface UpdateProfileMembershipRequest {
+  role: Exclude<ProfileMembershipRole, 'owner'>;
+}
+
+// One document per member and profile, so access checks are a single read
+export const getProfileMembershipId = (profileId: string, uid: string): string => `${profileId}_${uid}`;
+
+export const canPerformProfileAction = (role: ProfileMembershipRole | null | undefined, action: ProfileAction): boolean =>
+  !!role && PROFILE_MEMBERSHIP_PERMISSIONS[role].includes(action);
+
+const isMemberRole = (role: unknown): role is Exclude<ProfileMembershipRole, 'owner'> =>
+  role === 'can_order' || role === 'can_pay' || role === 'view_only';
+
+export const validateProfileMembershipRequest = (input: UpdateProfileMembershipRequest): string[] =>
+  isMemberRole(input.role) ? [] : ['role must be one of can_order, can_pay, view_only'];
+
+export const validateCreateProfileInvitationRequest = (input: CreateProfileInvitationRequest): string[] => {
+  const errors = validateProfileMembershipRequest(input);
+  const email = typeof input.email === 'string' ? input.email.trim() : '';
+  const phoneNumber = typeof input.phoneNumber === 'string' ? input.phoneNumber.trim() : '';
+
+  if (!email && !phoneNumber) {
+    errors.push('Either email or phone number must be provided');
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push('email must be a valid email address');
+  }
+  if (phoneNumber && !/^\+?[\d\s\-()]{8,}$/.test(phoneNumber)) {
+    errors.push('phoneNumber must be a valid phone number');
+  }
+
+  return errors;
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getPrescriptionExpiry, getRefillEligibility } from './refill.types';
+
+const now = new Date('2025-06-01T00:00:00Z');
+const original = {
+  status: 'delivered' as const,
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+  refillsRemaining: 2
+};
+
+describe('Refill eligibility', () => {
+  it('should allow a refill of a delivered order with refills left', () => {
+    expect(getRefillEligibility(original, 'delivered', now)).toEqual({ eligible: true, refillsRemaining: 2 });
+  });
+
+  it('should refuse when no refills remain or none were authorized', () => {
+    expect(getRefillEligibility({ ...original, refillsRemaining: 0 }, 'delivered', now).reason).toBe('no_refills_remaining');
+    expect(getRefillEligibility({ ...original, refillsRemaining: undefined }, 'delivered', now).reason).toBe('no_refills_remaining');
+  });
+
+  it('should refuse until the order being refilled is delivered', () => {
+    expect(getRefillEligibility(original, 'out_for_delivery', now).reason).toBe('not_delivered');
+  });
+
+  it('should enforce the minimum interval since the last fill', () => {
+    const result = getRefillEligibility(
+      { ...original, lastFilledAt: new Date('2025-05-25T00:00:00Z'), minDaysBetweenRefills: 10 },
+      'delivered',
+      now
+    );
+
+    expect(result).toMatchObject({ eligible: false, reason: 'too_soon', message: 'Next refill available on 2025-06-04' });
+    expect(result.nextEligibleAt?.toISOString()).toBe('2025-06-04T00:00:00.000Z');
+  });
+
+  it('should expire a year after the prescription was issued unless set explicitly', () => {
+    expect(getPrescriptionExpiry(original).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(
+      getRefillEligibility({ ...original, prescriptionExpiresAt: new Date('2025-05-01T00:00:00Z') }, 'delivered', now).reason
+    ).toBe('expired');
+  });
+});
@@ -0,0 +1,68 @@
+import type { PrescriptionOrder } from './index';
+
+// How long a prescription can be refilled after it was first issued
+export const PRESCRIPTION_VALIDITY_DAYS = 365;
+
+// Used when the prescriber did not set a minimum interval between fills
+export const DEFAULT_MIN_DAYS_BETWEEN_REFILLS = 21;
+
+export type RefillIneligibilityReason = 'not_delivered' | 'no_refills_remaining' | 'too_soon' | 'expired';
+
+export interface RefillEligibility {
+  eligible: boolean;
+  refillsRemaining: number;
+  reason?: RefillIneligibilityReason;
+  message?: string;
+  nextEligibleAt?: Date; // Set when the only problem is that the last fill was too recent
+}
+
+// Refill allowance is tracked on the original order; refill orders point back to it
+export type RefillSourceOrder = Pick<
+  PrescriptionOrder,
+  'status' | 'createdAt' | 'refillsRemaining' | 'prescriptionExpiresAt' | 'minDaysBetweenRefills' | 'lastFilledAt'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getPrescriptionExpiry = (order: Pick<PrescriptionOrder, 'createdAt' | 'prescriptionExpiresAt'>): Date =>
+  order.prescriptionExpiresAt ?? new Date(order.createdAt.getTime() + PRESCRIPTION_VALIDITY_DAYS * DAY_MS);
+
+/**
+ * Whether a new fill can be requested now. `filledOrderStatus` is the status of the
+ * order the patient is refilling from, which must have been delivered.
+ */
+export const getRefillEligibility = (
+  original: RefillSourceOrder,
+  filledOrderStatus: PrescriptionOrder['status'] = original.status,
+  now: Date = new Date()
+): RefillEligibility => {
+  const refillsRemaining = original.refillsRemaining ?? 0;
+
+  if (refillsRemaining <= 0) {
+    return { eligible: false, refillsRemaining: 0, reason: 'no_refills_remaining', message: 'No refills remaining on this prescription' };
+  }
+
+  if (getPrescriptionExpiry(original).getTime() <= now.getTime()) {
+    return { eligible: false, refillsRemaining, reason: 'expired', message: 'This prescription has expired' };
+  }
+
+  if (filledOrderStatus !== 'delivered') {
+    return { eligible: false, refillsRemaining, reason: 'not_delivered', message: 'A refill can be requested once this order has been delivered' };
+  }
+
+  const lastFilledAt = original.lastFilledAt ?? original.createdAt;
+  const minDays = original.minDaysBetweenRefills ?? DEFAULT_MIN_DAYS_BETWEEN_REFILLS;
+  const nextEligibleAt = new Date(lastFilledAt.getTime() + minDays * DAY_MS);
+
+  if (nextEligibleAt.getTime() > now.getTime()) {
+    return {
+      eligible: false,
+      refillsRemaining,
+      reason: 'too_soon',
+      message: `Next refill available on ${nextEligibleAt.toISOString().slice(0, 10)}`,
+      nextEligibleAt
+    };
+  }
+
+  return { eligible: true, refillsRemaining };
+};